@@ -0,0 +1,167 @@
+// backend/agents/intent.ts
+// One classification step for every chat turn: what the user wants, which policies, and whether it needs their data
+
+import { z } from 'zod';
+import { getModelClient } from '../lib/model-registry';
+import type { PolicyType } from '../services/policy-store';
+
+// ============================================
+// Types
+// ============================================
+
+export const INTENTS = [
+    'greeting',
+    'small_talk',
+    'insurance_education',
+    'policy_question',
+    'coverage_review',
+    'quote_request',
+    'renewal_question',
+    'claim_report',
+    'human_handoff',
+    'other',
+] as const;
+
+export type Intent = typeof INTENTS[number];
+
+const POLICY_TYPES = ['auto', 'home', 'renters', 'umbrella', 'life', 'health', 'other'] as const;
+
+export interface IntentClassification {
+    intent: Intent;
+    /** Policy lines the message is about, most relevant first */
+    policyTypes: PolicyType[];
+    /** Answering needs the user's own policy or account data */
+    needsUserData: boolean;
+    /** The user says a policy is already on file ("use the one I uploaded") */
+    referencesPolicyOnFile: boolean;
+    confidence: number;
+    /** rules: canned fast path, model: classifier call, fallback: classifier failed */
+    source: 'rules' | 'model' | 'fallback';
+}
+
+const classificationSchema = z.object({
+    intent: z.enum(INTENTS),
+    policyTypes: z.array(z.enum(POLICY_TYPES)).default([]),
+    needsUserData: z.boolean(),
+    referencesPolicyOnFile: z.boolean().default(false),
+    confidence: z.number().min(0).max(1),
+});
+
+// ============================================
+// Classifier
+// ============================================
+
+const CLASSIFIER_PROMPT = `You are the routing classifier for an insurance advisor chat. Classify the user's latest message. Messages may be in English or Spanish - classify by meaning.
+
+Return ONLY a JSON object:
+{"intent": string, "policyTypes": string[], "needsUserData": boolean, "referencesPolicyOnFile": boolean, "confidence": number}
+
+intent - one of:
+- "greeting": hello, hi, good morning
+- "small_talk": thanks, how are you, questions about the assistant, a bare "no thanks"
+- "insurance_education": general insurance concepts, hypotheticals, state rules, non-personalized recommendations
+- "policy_question": anything about the user's own policy - limits, deductibles, carrier, "am I covered for X"
+- "coverage_review": gaps, underinsurance, "do I have enough", personalized recommendations
+- "quote_request": quotes, pricing, saving money, switching or comparing carriers for the user
+- "renewal_question": the user's renewal or a premium increase
+- "claim_report": the user had a loss - an accident, theft, break-in, fire, water or storm damage, an injury - and wants to report it or start a claim. Not questions about an existing claim's status, or whether something would be covered
+- "human_handoff": the user asks to talk to a person - a real, live or licensed agent, advisor or human
+- "other": anything else
+
+policyTypes - the lines the message is about, from: auto, home, renters, umbrella, life, health, other. Cars, vehicles and driving are auto; house, dwelling and property are home; apartment and tenant are renters. Empty when no line is implied.
+
+needsUserData - true when a good answer depends on the user's own policy or account. When in doubt, true. False when the assistant just asked for an upload and the user declines or asks for general help instead.
+
+referencesPolicyOnFile - true when the user says the policy is already uploaded or on file.
+
+confidence - 0 to 1, how sure you are of the intent.`;
+
+// Canned replies in handleSamChat answer these without any model call
+const GREETING_PATTERN = /^(hi|hello|hey|yo|sup|what's up|whats up|hola|buenas|buenos días|buenos dias|buenas tardes|buenas noches)$/i;
+const HOW_ARE_YOU_PATTERN = /how are you|how're you|cómo estás|como estas|cómo está usted|como esta usted|qué tal|que tal/i;
+
+export function isGreeting(userQuery: string): boolean {
+    return GREETING_PATTERN.test(userQuery.toLowerCase().trim());
+}
+
+export function isHowAreYou(userQuery: string): boolean {
+    return HOW_ARE_YOU_PATTERN.test(userQuery);
+}
+
+// Explicit requests for a person, so a failed classifier call still escalates them
+const HUMAN_REQUEST_PATTERN = /\b(talk|speak|chat)\s+(to|with)\s+(a\s+|an\s+)?(real\s+|live\s+|licensed\s+)?(person|human|agent|advisor)\b|hablar con (una persona|un agente|un asesor)/i;
+
+// Reports of a new loss, so a failed classifier call still starts the claim intake
+const CLAIM_REPORT_PATTERN = /\b(file|report|open|start)\s+(a\s+|an?\s+insurance\s+)?claim\b|\b(i|we)\s+(had|got into|was in|were in)\s+an?\s+(car\s+)?(accident|crash|wreck)\b|(reportar|abrir|presentar)\s+un\s+(siniestro|reclamo)|tuve un (accidente|choque)/i;
+
+// Last few turns are enough to tell a decline from a new question
+function formatRecentHistory(history: any[]): string {
+    return history
+        .slice(-4)
+        .map(msg => `${msg.role}: ${String(msg.content).slice(0, 500)}`)
+        .join('\n');
+}
+
+/**
+ * Only used when the classifier call fails - errs on the side of asking for the user's policy
+ */
+function fallbackClassification(userQuery: string): IntentClassification {
+    if (HUMAN_REQUEST_PATTERN.test(userQuery)) {
+        return { intent: 'human_handoff', policyTypes: [], needsUserData: false, referencesPolicyOnFile: false, confidence: 0, source: 'fallback' };
+    }
+    if (CLAIM_REPORT_PATTERN.test(userQuery)) {
+        return { intent: 'claim_report', policyTypes: [], needsUserData: false, referencesPolicyOnFile: false, confidence: 0, source: 'fallback' };
+    }
+
+    const personal = /\b(my|mine|i have|am i|do i|i'm|i am|mi|mis|tengo|estoy|soy)\b/i.test(userQuery);
+    return {
+        intent: personal ? 'policy_question' : 'insurance_education',
+        policyTypes: [],
+        needsUserData: personal,
+        referencesPolicyOnFile: /\b(on file|already (have|uploaded)|i uploaded|ya (la |lo )?sub[ií]|registrad[oa])/i.test(userQuery),
+        confidence: 0,
+        source: 'fallback',
+    };
+}
+
+/**
+ * Classifies one user message in a single model call. Never throws - a failed call
+ * falls back to a conservative classification with zero confidence.
+ */
+export async function classifyIntent(userQuery: string, history: any[]): Promise<IntentClassification> {
+    if (isGreeting(userQuery)) {
+        return { intent: 'greeting', policyTypes: [], needsUserData: false, referencesPolicyOnFile: false, confidence: 1, source: 'rules' };
+    }
+    if (isHowAreYou(userQuery)) {
+        return { intent: 'small_talk', policyTypes: [], needsUserData: false, referencesPolicyOnFile: false, confidence: 1, source: 'rules' };
+    }
+
+    const recentHistory = formatRecentHistory(history);
+    const prompt = `${CLASSIFIER_PROMPT}
+${recentHistory ? `\nRecent conversation:\n${recentHistory}\n` : ''}
+User message: "${userQuery}"`;
+
+    try {
+        const result = await getModelClient('intent').generate(prompt, {
+            temperature: 0,
+            maxOutputTokens: 256,
+            responseMimeType: 'application/json',
+        });
+
+        // Strip markdown fences in case the model ignores the JSON mime type
+        const jsonText = result.text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+        const validation = classificationSchema.safeParse(JSON.parse(jsonText));
+        if (!validation.success) {
+            console.warn('⚠️ Intent classifier returned an unexpected shape:', validation.error.issues.slice(0, 3));
+            return fallbackClassification(userQuery);
+        }
+
+        const classification: IntentClassification = { ...validation.data, source: 'model' };
+        console.log(`🧭 Intent: ${classification.intent} [${classification.policyTypes.join(', ') || 'no line'}] needsUserData=${classification.needsUserData} (${classification.confidence})`);
+        return classification;
+
+    } catch (error) {
+        console.error('❌ Intent classification failed:', error);
+        return fallbackClassification(userQuery);
+    }
+}
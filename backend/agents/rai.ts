@@ -1,87 +1,139 @@
 // backend/agents/rai.ts
-import { VertexAI } from '@google-cloud/vertexai';
 import dotenv from 'dotenv';
+import { z } from 'zod';
+import { getStatePromptContext } from '../services/state-regulations';
+import { getModelClient, getModelName } from '../lib/model-registry';
+import { PromptTrace } from '../lib/prompt-registry';
+import { diffWords, TextDiff } from '../lib/text-diff';
 
 dotenv.config();
 
-const PROJECT_ID = process.env.GOOGLE_PROJECT_ID;
+// ============================================
+// Types
+// ============================================
+
+export const RAI_VERDICTS = ['approved', 'corrected', 'needs_human'] as const;
+export type RaiVerdict = typeof RAI_VERDICTS[number];
+
+export const RAI_ISSUE_CATEGORIES = [
+  'state_compliance',
+  'hallucination',
+  'missing_info',
+  'calculation',
+  'compliance_language',
+  'other',
+] as const;
+export type RaiIssueCategory = typeof RAI_ISSUE_CATEGORIES[number];
+
+export interface RaiIssue {
+  category: RaiIssueCategory;
+  description: string;
+}
 
-if (!PROJECT_ID) {
-    console.error('❌ GOOGLE_PROJECT_ID environment variable is not set');
-    throw new Error('Missing GOOGLE_PROJECT_ID environment variable');
+export interface RaiReview {
+  verdict: RaiVerdict;
+  issues: RaiIssue[];
+  /** Answer Sam presents - Uri's draft when Rai approved it unchanged or could not review it */
+  finalAnswer: string;
+  draft: string;
+  diff: TextDiff;
+  /** reviewed: typed verdict, unparsed: Rai answered in plain text, failed: Rai call errored, skipped: review not run */
+  status: 'reviewed' | 'unparsed' | 'failed' | 'skipped';
+  model: string;
 }
 
-// Initialize Vertex AI for US-CENTRAL1 with Gemini 2.5 Pro
-const vertexAI = new VertexAI({
-  project: PROJECT_ID,
-  location: 'us-central1',
+const reviewSchema = z.object({
+  verdict: z.enum(RAI_VERDICTS),
+  issues: z.array(z.object({
+    category: z.enum(RAI_ISSUE_CATEGORIES).catch('other'),
+    description: z.string().trim().min(1).max(1000),
+  })).default([]),
+  finalAnswer: z.string().trim().min(1),
 });
 
-const model = vertexAI.getGenerativeModel({
-  model: 'gemini-2.5-pro',
-});
+function buildReview(
+  draft: string,
+  finalAnswer: string,
+  fields: Pick<RaiReview, 'verdict' | 'issues' | 'status' | 'model'>
+): RaiReview {
+  return { ...fields, finalAnswer, draft, diff: diffWords(draft, finalAnswer) };
+}
 
+/**
+ * Reviews Uri's draft and returns a typed verdict. Never throws - if Rai fails,
+ * Uri's draft is passed through with status 'failed'.
+ */
 export async function handleRaiReview(
   userQuery: string,
   uriDraft: string,
-  sourceContext: string
-) {
+  sourceContext: string,
+  state?: string | null,
+  prompts: PromptTrace = new PromptTrace()
+): Promise<RaiReview> {
+  const modelName = getModelName('rai');
+
   try {
     console.log("\n🕵️ Rai: Reviewing Uri's draft for accuracy...");
 
-    const prompt = `You are Rai, a hyper-critical and meticulous insurance auditor specializing in personal lines. Your sole focus is reviewing Uri's work for accuracy, completeness, state compliance, and potential errors, ensuring the highest quality before Sam delivers to the user.
-
-## Core Knowledge
-- Reference "AI KB Core Concepts.pdf" to verify concepts (e.g., check insurable interest, concurrent causation, state cancellation rules, PIP in true no-fault states like MI/NY).
-- Use "Coverage Recommendation Guide.pdf" to audit processes: Validate TIE calc (e.g., exempt assets per state from Appendix A), liability matrix application, risk vectors (e.g., add umbrella for boats/dogs if missed), underinsurance flags, endorsement gaps (e.g., mold in NJ, flood in high-risk areas), and auto frameworks (e.g., stacking where allowed, mins from Appendix B).
-
-## Review Guidelines
-- Receive outputs from Uri: Scrutinize every detail—e.g., "Is TIE correct? Does recommendation match matrix? State-specific compliance (e.g., VA mold exclusion)? Any hallucinations?"
-- Check for errors: Ensure no guarantees, factual alignment with PDFs, buffers for defense costs, and warnings (e.g., "Warn on 2-5% hurricane deductibles in SC").
-- Suggest fixes: If issues, provide corrections (e.g., "Add service line endorsement; recalculate coinsurance"). Approve if good.
-- Edge cases: Flag high-risk (e.g., business pursuits exclusion) or incomplete (e.g., missing state). Recommend handoff if needed (e.g., brush fire zones).
-- Compliance: Confirm good intent assumptions, no disallowed activities. Use tools to verify real-time data (e.g., browse state DOI for updates).
-
-Your role is quality gatekeeper—be rigorous to protect users and maintain standards.
-
-## Output Format (CRITICAL - System Compatibility)
-Return ONLY the final approved answer as plain text. Do NOT return JSON.
-- If Uri's answer is accurate and complete: return it as-is (or with minor polish)
-- If corrections are needed: return the improved/corrected version
-- The output will be presented to users by Sam, so write as if addressing the user directly
-
-USER QUESTION: ${userQuery}
-
-SOURCE CONTEXT (from policy database):
-${sourceContext}
+    // State rules from the regulatory dataset when the policy's state is known
+    const stateContext = getStatePromptContext(state);
 
-URI'S DRAFT ANSWER:
-${uriDraft}
-
-Review Uri's draft against the source context. Verify every claim. Return your final approved answer:`;
-
-    const result = await model.generateContent({
-      contents: [{ role: 'user', parts: [{ text: prompt }] }],
-      generationConfig: {
-        temperature: 0.1, // Very low temp = strict adherence to facts
-        maxOutputTokens: 4096,
-      },
+    const prompt = prompts.render('rai_review', {
+      query: userQuery,
+      draft: uriDraft,
+      sourceContext,
+      stateContext,
     });
 
-    const candidate = result.response.candidates?.[0];
-    const finishReason = candidate?.finishReason;
-    const finalAnswer = candidate?.content?.parts?.[0]?.text || uriDraft;
+    const result = await getModelClient('rai').generate(prompt, {
+      temperature: 0.1, // Very low temp = strict adherence to facts
+      maxOutputTokens: 4096,
+      responseMimeType: 'application/json',
+    });
 
+    const finishReason = result.finishReason;
     if (finishReason && finishReason !== 'STOP') {
       console.warn(`⚠️ [Rai] Generation stopped with reason: ${finishReason}`);
     }
-    console.log(`✅ Rai: Review complete (${finalAnswer.length} chars)`);
 
-    return finalAnswer;
+    // Strip markdown fences in case the model ignores the JSON mime type
+    const jsonText = result.text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+    let parsed: unknown = null;
+    try {
+      parsed = JSON.parse(jsonText);
+    } catch {
+      // Plain-text answer - handled below
+    }
+
+    const validation = reviewSchema.safeParse(parsed);
+    if (!validation.success) {
+      // Keep the old contract: plain text from Rai is the approved answer
+      console.warn('⚠️ [Rai] Review was not a valid verdict, using the text as the final answer');
+      const finalAnswer = parsed === null && jsonText ? jsonText : uriDraft;
+      return buildReview(uriDraft, finalAnswer, {
+        verdict: finalAnswer === uriDraft ? 'approved' : 'corrected',
+        issues: [],
+        status: 'unparsed',
+        model: modelName,
+      });
+    }
+
+    const { verdict, issues, finalAnswer } = validation.data;
+    console.log(`✅ Rai: ${verdict} with ${issues.length} issue(s) (${finalAnswer.length} chars)`);
+
+    return buildReview(uriDraft, finalAnswer, { verdict, issues, status: 'reviewed', model: modelName });
 
   } catch (error) {
     console.error("❌ Error in Rai Review:", error);
     // If Rai crashes, fallback to Uri's answer so the user still gets a response
-    return uriDraft;
+    return buildReview(uriDraft, uriDraft, { verdict: 'approved', issues: [], status: 'failed', model: modelName });
   }
 }
+
+/**
+ * Uri's draft passed through unreviewed - used when the user is over their daily model budget
+ */
+export function skippedRaiReview(uriDraft: string): RaiReview {
+  console.log('⏭️ Rai: Review skipped, passing Uri\'s draft through');
+  return buildReview(uriDraft, uriDraft, { verdict: 'approved', issues: [], status: 'skipped', model: getModelName('rai') });
+}
@@ -1,14 +1,30 @@
 // backend/agents/sam.ts
-import { VertexAI, FunctionDeclarationsTool, Part, Content } from '@google-cloud/vertexai';
 import dotenv from 'dotenv';
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { handleUriChat } from './uri';
-import { handleRaiReview } from './rai';
+import { handleRaiReview, RaiReview, skippedRaiReview } from './rai';
 import {
-    getPolicyForQuery,
+    getPolicyForTypes,
     getUserPolicyTypes,
-    PolicyType,
-    loadUserDocumentsToCache
+    PolicyType
 } from '../services/document-upload';
+import { classifyIntent, Intent, IntentClassification } from './intent';
+import {
+    Citation,
+    CITATION_INSTRUCTIONS,
+    collectCitations,
+    documentCitation,
+    formatSourcesForPrompt,
+    policyDocumentCitations,
+} from '../services/citations';
+import { buildProtectionAudit, formatAuditForPrompt } from '../services/protection-audit';
+import { getUserPolicyState } from '../services/state-regulations';
+import { getUserRenewals } from '../services/renewal-guard';
+import { getInternalUserId } from '../services/account-deletion';
+import { formatMemoryForPrompt, getConfirmedProfileFacts, ProfileFact } from '../services/user-memory';
+import { detectHighRiskTopic, HandoffTrigger } from '../services/advisor-handoff';
+import { createSamToolbox } from '../services/sam-tools';
+import type { ClaimIntakeChannel } from '../services/claim-intake';
 import {
     getMCPConnection,
     releaseMCPConnection,
@@ -17,107 +33,119 @@ import {
     executeMCPTool,
     filterSafeTools,
     convertMCPToolsToVertexAI,
-    validateSQLQuery,
     generateDatabaseSecurityPrompt,
+    runAsUser,
 } from '../lib/mcp-client';
+import { SqlUserScope, validateSQLQuery } from '../lib/sql-validator';
+import { ModelMessage, ModelPart, ModelResponse, toMessages, ToolDeclaration } from '../lib/model-client';
+import { applyOutputPolicies, OutputPolicy, SAM_OUTPUT_POLICIES, stripUrls } from '../lib/output-policy';
+import { getModelClient } from '../lib/model-registry';
+import { PromptRecord, PromptTrace } from '../lib/prompt-registry';
+import { detectLanguage, DEFAULT_LANGUAGE, Language, replyLanguageInstruction } from '../lib/language';
 
 dotenv.config();
 
 // ============================================================================
-// SAM CORE SYSTEM PROMPT
+// PROMPTS
 // ============================================================================
-// This is the authoritative source for Sam's personality, tone, and behavior.
-// Technical guardrails are appended dynamically by each function as needed.
-
-const SAM_CORE_PROMPT = `You are Sam, a friendly, empathetic, and professional insurance advisor specializing in personal lines (auto and home). Your primary goal is to provide top-tier customer service: build trust, listen actively, explain concepts clearly, and guide users through their insurance needs without overwhelming them. Always assume good intent from the user and respond positively, even to edgy questions—treat them as adults without lecturing.
-
-**Core Knowledge**:
-- Use the "AI KB Core Concepts.pdf" for foundational insurance principles, legal doctrines (e.g., indemnity, insurable interest), policy details (PAP for auto, HO-3 for home), state-specific rules (e.g., cancellation notices, prompt pay statutes, mandatory endorsements like earthquake in CA), and scenarios (e.g., rideshare gaps, mold limits).
-- Use the "Coverage Recommendation Guide.pdf" for structuring interactions: Gather info for TIE calculation, use analogies (e.g., liability as a "forcefield", umbrella as a "raincoat", ACV vs. RCV as "used TV" vs. "new TV"), handle objections with the 5 A's (Acknowledge, Appreciate, Ask, Adapt, Act), and present in "Protection Audit" format (Current Risk vs. Recommended vs. Real Impact).
-
-**Interaction Guidelines**:
-- Be conversational and warm: Use simple language, define terms (e.g., "ACV means Actual Cash Value—it's replacement cost minus depreciation"), and confirm understanding (e.g., "Does that make sense?"). IMPORTANT: Only greet the user once at the start of a new conversation - do NOT say "Hi there" or similar greetings in subsequent responses within the same chat session.
-- Gather info empathetically: Ask for details like state, assets, family, risks (e.g., "Do you have teens driving or a pool at home?") to assess needs, but respect privacy—don't retain PII.
-- For complex analysis or recommendations: You have internal resources that automatically help with detailed analysis. Present the results as your own - never mention any colleagues, internal processes, or ask permission to analyze.
-- For quotes or recommendations: Present finalized versions clearly, emphasizing benefits and ROI (e.g., "This umbrella adds $1M protection for just ~$200/year").
-- Compliance: No guarantees (say "designed to cover" not "will cover"). If high-risk (e.g., knob-and-tube wiring), hand off to human. Use tools for real-time data (e.g., web search for quotes, state laws).
-- Output: Keep responses concise, engaging, and action-oriented. End with next steps (e.g., "What else can I help with?").
-
-**CRITICAL - Infrastructure Privacy (NEVER VIOLATE)**:
-- NEVER mention backend services, databases, APIs, project IDs, or any technical infrastructure
-- NEVER reference Supabase, Google Cloud, storage buckets, or any cloud services
-- NEVER expose error messages that contain technical details, stack traces, or system information
-- NEVER mention MCP, tools, function calls, or any internal processing mechanisms
-- If something goes wrong, say "I'm having trouble with that right now" or "Please try again" - NEVER explain the technical reason
-- If you cannot complete a request, focus on what the USER should do (e.g., "Could you upload your document again?"), not what failed internally
-- User-facing responses should ONLY discuss insurance concepts, their policies, and actions they can take
-
-Remember, you are the sole voice the user interacts with. Never mention internal processes, colleagues, infrastructure, or ask permission to do analysis—just do it and present the results naturally.`;
-
-// Technical output guardrails (appended to prompts for frontend compatibility)
-const OUTPUT_GUARDRAILS = `
-**Output Format Requirements** (CRITICAL - DO NOT IGNORE):
-- Use plain text ONLY - NO markdown, NO asterisks (*), NO bold formatting, NO headers (#)
-- Keep responses concise: 2-3 sentences max unless the user asks for detail
-- Never include URLs unless explicitly asked
-- Never say "Uri said" or "Rai said" - speak as one unified voice`;
-
-// Lazy initialization to ensure credentials are set up before use
-let _vertexAI: VertexAI | null = null;
-let _model: ReturnType<VertexAI['getGenerativeModel']> | null = null;
-
-function getVertexAI(): VertexAI {
-    if (!_vertexAI) {
-        const PROJECT_ID = process.env.GOOGLE_PROJECT_ID;
-        if (!PROJECT_ID) {
-            console.error('❌ GOOGLE_PROJECT_ID environment variable is not set');
-            throw new Error('Missing GOOGLE_PROJECT_ID environment variable');
-        }
-        _vertexAI = new VertexAI({
-            project: PROJECT_ID,
-            location: 'us-central1',
-        });
-    }
-    return _vertexAI;
-}
+// Sam's personality (sam_core) and output rules (output_guardrails) are versioned in
+// lib/prompts.ts; each reply renders them through the turn's PromptTrace.
 
-function getModel() {
-    if (!_model) {
-        _model = getVertexAI().getGenerativeModel({
-            model: 'gemini-2.5-flash',
-        });
-    }
-    return _model;
+// Output guardrails plus the reply-language rule for non-English conversations
+function outputGuardrails(prompts: PromptTrace, language: Language): string {
+    return prompts.render('output_guardrails', {}) + replyLanguageInstruction(language);
 }
 
-// Getter for use in code (replaces direct 'model' references)
-const model = {
-    generateContent: (...args: Parameters<ReturnType<VertexAI['getGenerativeModel']>['generateContent']>) =>
-        getModel().generateContent(...args)
+// Fixed replies that never go through the model, in each supported language
+const SAM_MESSAGES: Record<Language, {
+    greeting: string;
+    howAreYou: string;
+    noPolicyOnFile: string;
+    error: string;
+    uploadFallback: string;
+    specificUploadFallback: (existing: string, needed: string) => string;
+    policyAnswerFallback: string;
+    directFallback: string;
+    databaseFallback: string;
+    databaseError: string;
+    handoffRequested: string;
+    handoffUnavailable: string;
+}> = {
+    en: {
+        greeting: "Hey! I'm Sam, your insurance advisor. What can I help you with today?",
+        howAreYou: "I'm doing great, thanks for asking! How can I help with your insurance needs?",
+        noPolicyOnFile: "I don't see any policy documents on file yet. Could you upload your insurance card, declarations page, or policy PDF so I can help you?",
+        error: "I apologize, but I encountered an error. Please try again or let me know if you need help with something else!",
+        uploadFallback: "To review your specific policy, please upload your insurance documents.",
+        specificUploadFallback: (existing, needed) =>
+            `I have your ${existing} policy on file, but I'll need your ${needed} policy to help with that question.`,
+        policyAnswerFallback: "I have your policy data but couldn't generate a response. Please try asking again.",
+        directFallback: "I'm here to help! What can I assist you with today?",
+        databaseFallback: "I couldn't retrieve your data. Please try again.",
+        databaseError: "I had trouble accessing your data. Let me help you another way - could you upload your policy documents?",
+        handoffRequested: "I've asked a licensed insurance agent to join this chat. They'll reply right here - in the meantime, I'm happy to keep helping.",
+        handoffUnavailable: "I can connect you with a licensed insurance agent once you're signed in and chatting in a saved conversation. In the meantime, I'm happy to help with whatever you need.",
+    },
+    es: {
+        greeting: "¡Hola! Soy Sam, su asesor de seguros. ¿En qué le puedo ayudar hoy?",
+        howAreYou: "¡Muy bien, gracias por preguntar! ¿En qué le puedo ayudar con sus seguros?",
+        noPolicyOnFile: "Todavía no veo documentos de póliza registrados. ¿Podría subir su tarjeta de seguro, la página de declaraciones o el PDF de su póliza para que pueda ayudarle?",
+        error: "Disculpe, ocurrió un error. Por favor intente de nuevo o dígame si necesita ayuda con otra cosa.",
+        uploadFallback: "Para revisar su póliza específica, por favor suba sus documentos de seguro.",
+        specificUploadFallback: (existing, needed) =>
+            `Tengo registrada su póliza de ${existing}, pero necesitaré su póliza de ${needed} para ayudarle con esa pregunta.`,
+        policyAnswerFallback: "Tengo los datos de su póliza, pero no pude generar una respuesta. Por favor intente preguntar de nuevo.",
+        directFallback: "¡Estoy aquí para ayudarle! ¿En qué le puedo ayudar hoy?",
+        databaseFallback: "No pude consultar sus datos. Por favor intente de nuevo.",
+        databaseError: "Tuve problemas para consultar sus datos. Déjeme ayudarle de otra forma: ¿podría subir los documentos de su póliza?",
+        handoffRequested: "Le pedí a un agente de seguros con licencia que se una a este chat. Le responderá aquí mismo; mientras tanto, con gusto le sigo ayudando.",
+        handoffUnavailable: "Puedo conectarle con un agente de seguros con licencia cuando haya iniciado sesión y esté en una conversación guardada. Mientras tanto, con gusto le ayudo con lo que necesite.",
+    },
 };
-const vertexAI = {
-    getGenerativeModel: (...args: Parameters<VertexAI['getGenerativeModel']>) =>
-        getVertexAI().getGenerativeModel(...args)
+
+// ============================================================================
+// PROGRESS REPORTING
+// ============================================================================
+// Streaming clients get a short status line while the Uri → Rai chain runs,
+// so the user sees what Sam is doing instead of a bare spinner.
+
+export type SamProgressStage =
+    | 'thinking'
+    | 'checking_policy'
+    | 'querying_database'
+    | 'searching_knowledge_base'
+    | 'reviewing'
+    | 'writing';
+
+export interface SamProgressEvent {
+    stage: SamProgressStage;
+    message: string;
+}
+
+export type SamProgressCallback = (event: SamProgressEvent) => void;
+
+const PROGRESS_MESSAGES: Record<SamProgressStage, string> = {
+    thinking: 'Thinking...',
+    checking_policy: 'Checking your policy...',
+    querying_database: 'Looking up your account...',
+    searching_knowledge_base: 'Searching knowledge base...',
+    reviewing: 'Reviewing the answer...',
+    writing: 'Writing response...',
 };
 
-// Helper to clean AI responses (removes markdown formatting only, no truncation)
-function cleanResponse(text: string): string {
-    // Remove markdown formatting
-    let cleaned = text
-        .replace(/\*\*([^*]+)\*\*/g, '$1')  // Remove bold **text**
-        .replace(/\*([^*]+)\*/g, '$1')      // Remove italic *text*
-        .replace(/#{1,6}\s/g, '')           // Remove headers
-        .replace(/`([^`]+)`/g, '$1')        // Remove code blocks
-        .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1'); // Remove links but keep text
-
-    return cleaned.trim();
+function reportProgress(onProgress: SamProgressCallback | undefined, stage: SamProgressStage): void {
+    if (!onProgress) return;
+    try {
+        onProgress({ stage, message: PROGRESS_MESSAGES[stage] });
+    } catch (error) {
+        // A broken listener must never break the chat itself
+        console.error('⚠️ Progress callback failed:', error);
+    }
 }
 
 // Helper to log finish reason and detect truncation
-function logGenerationResult(result: any, context: string): boolean {
-    const candidate = result.response.candidates?.[0];
-    const finishReason = candidate?.finishReason;
-    const text = candidate?.content?.parts?.[0]?.text || '';
+function logGenerationResult(result: ModelResponse, context: string): boolean {
+    const { finishReason, text } = result;
 
     if (finishReason && finishReason !== 'STOP') {
         console.warn(`⚠️ [${context}] Generation stopped with reason: ${finishReason}`);
@@ -125,145 +153,117 @@ function logGenerationResult(result: any, context: string): boolean {
         if (finishReason === 'MAX_TOKENS') {
             console.warn(`   Response may be truncated! Last 50 chars: "...${text.slice(-50)}"`);
         }
-        return finishReason === 'MAX_TOKENS';
+        return result.truncated;
     } else {
         console.log(`✅ [${context}] Generation completed normally (${text.length} chars)`);
         return false;
     }
 }
 
-// Helper to handle truncated responses gracefully
-function handleTruncatedResponse(text: string): string {
-    if (!text) return text;
-
-    // Check if response ends mid-sentence (no proper ending punctuation)
-    const trimmed = text.trim();
-    const hasProperEnding = /[.!?]$/.test(trimmed) || /[.!?]["']$/.test(trimmed);
-
-    if (!hasProperEnding) {
-        // Find the last complete sentence
-        const lastSentenceEnd = Math.max(
-            trimmed.lastIndexOf('. '),
-            trimmed.lastIndexOf('! '),
-            trimmed.lastIndexOf('? '),
-            trimmed.lastIndexOf('.\n'),
-            trimmed.lastIndexOf('!\n'),
-            trimmed.lastIndexOf('?\n')
-        );
-
-        if (lastSentenceEnd > trimmed.length * 0.5) {
-            // If we have at least half the response with complete sentences, use that
-            console.log(`📝 Trimming truncated response at position ${lastSentenceEnd}`);
-            return trimmed.substring(0, lastSentenceEnd + 1).trim();
-        }
+// Every model-written reply passes the output policies (lib/output-policy.ts) before the
+// user sees it; the policies that fired are logged per message.
 
-        // Otherwise, try to end at the last period
-        const lastPeriod = trimmed.lastIndexOf('.');
-        if (lastPeriod > trimmed.length * 0.3) {
-            console.log(`📝 Trimming truncated response at last period ${lastPeriod}`);
-            return trimmed.substring(0, lastPeriod + 1).trim();
-        }
-    }
+// Upload prompts also lose any links - the upload button is added by the frontend
+const UPLOAD_PROMPT_POLICIES: OutputPolicy[] = [...SAM_OUTPUT_POLICIES, stripUrls];
 
-    return trimmed;
-}
-
-// Detect what policy type the user is asking about based on their query
-function detectNeededPolicyType(query: string): PolicyType | null {
-    const lowerQuery = query.toLowerCase();
-
-    if (lowerQuery.includes('auto') || lowerQuery.includes('car') ||
-        lowerQuery.includes('vehicle') || lowerQuery.includes('driving') ||
-        lowerQuery.includes('collision') || lowerQuery.includes('comprehensive')) {
-        return 'auto';
-    }
-    if (lowerQuery.includes('home') || lowerQuery.includes('house') ||
-        lowerQuery.includes('property') || lowerQuery.includes('dwelling') ||
-        lowerQuery.includes('homeowner')) {
-        return 'home';
-    }
-    if (lowerQuery.includes('rent') || lowerQuery.includes('apartment') ||
-        lowerQuery.includes('tenant')) {
-        return 'renters';
-    }
-    if (lowerQuery.includes('umbrella') || lowerQuery.includes('excess liability')) {
-        return 'umbrella';
-    }
-    if (lowerQuery.includes('life')) {
-        return 'life';
-    }
-    if (lowerQuery.includes('health') || lowerQuery.includes('medical')) {
-        return 'health';
-    }
+const CONTINUE_INSTRUCTION = 'Your reply was cut off after the text above. Continue it from the next sentence: do not repeat anything you already wrote, keep the same language and plain-text format, and finish in at most two more sentences.';
 
-    // No specific policy type detected
-    return null;
+// The rest of a reply that hit the token limit, asked for in the same conversation
+async function continueReply(request: string | ModelMessage[], partial: string): Promise<string> {
+    const result = await getModelClient('sam').generate([
+        ...toMessages(request),
+        { role: 'model', parts: [{ text: partial }] },
+        { role: 'user', parts: [{ text: CONTINUE_INSTRUCTION }] },
+    ], {
+        temperature: 0.7,
+        maxOutputTokens: 1024,
+    });
+    logGenerationResult(result, 'continueReply');
+    return result.truncated ? '' : result.text;
 }
 
-// Check if user is referencing an existing policy on file
-function userReferencingExistingPolicy(userQuery: string): boolean {
-    const lowerQuery = userQuery.toLowerCase();
-
-    const existingPolicyPatterns = [
-        /\b(on file|already have|already uploaded|have on file|i have|i uploaded|the one|use the|use my|my existing|my current|existing policy|current policy)\b/i,
-        /\b(check my|review my|look at my|see my|analyze my)\s*(specific\s*)?(policy|coverage|insurance)/i,
-        /\buse\s+(the\s+)?(one|policy|it)\b/i,
-    ];
-
-    return existingPolicyPatterns.some(pattern => pattern.test(lowerQuery));
+// Log how generation ended, then run the reply (or the fallback) through the output policies
+async function finishReply(
+    result: ModelResponse,
+    fallback: string,
+    request: string | ModelMessage[],
+    context: string,
+    language: Language,
+    policies: OutputPolicy[] = SAM_OUTPUT_POLICIES
+): Promise<string> {
+    const wasTruncated = logGenerationResult(result, context);
+    const { text, fired } = await applyOutputPolicies(result.text || fallback, {
+        language,
+        truncated: wasTruncated && Boolean(result.text),
+        continueReply: (partial) => continueReply(request, partial),
+    }, policies);
+
+    console.log(`🛡️ [${context}] Output policies fired: ${fired.join(', ') || 'none'}`);
+    return text;
 }
 
-// Check if user was recently prompted for upload and is declining or continuing without it
-function userDeclinedOrContinuingWithoutUpload(userQuery: string, history: any[]): boolean {
-    const lowerQuery = userQuery.toLowerCase();
+// Computed Protection Audit findings for prompt grounding - never blocks the reply
+async function getProtectionAuditContext(userId: string | undefined): Promise<string> {
+    if (!userId) return '';
 
-    // FIRST: Check if user is referencing an existing policy - this is NOT a decline
-    if (userReferencingExistingPolicy(userQuery)) {
-        console.log(`📋 User is referencing existing policy on file - not a decline`);
-        return false;
+    const result = await buildProtectionAudit(userId);
+    if (!result.success || !result.data) {
+        console.warn(`⚠️ Protection audit unavailable: ${result.error}`);
+        return '';
     }
+    return formatAuditForPrompt(result.data);
+}
 
-    // Check if previous message was an upload prompt (contains [UPLOAD_POLICY] marker or asks to upload)
-    const recentHistory = history.slice(-4); // Check last 4 messages
-    const wasRecentlyPromptedForUpload = recentHistory.some(msg =>
-        msg.role === 'assistant' && (
-            msg.content.includes('[UPLOAD_POLICY]') ||
-            msg.content.toLowerCase().includes('upload') && msg.content.toLowerCase().includes('policy')
-        )
-    );
+// Most recent Renewal Guard summary for prompt grounding - never blocks the reply
+async function getRenewalContext(userId: string | undefined): Promise<string> {
+    if (!userId) return '';
 
-    if (!wasRecentlyPromptedForUpload) {
-        return false;
-    }
+    try {
+        const internalUserId = await getInternalUserId(userId);
+        if (!internalUserId) return '';
 
-    // User was prompted - check if they're declining or asking to continue
-    const declinePatterns = [
-        /\b(no|nope|nah|not now|later|skip|don'?t have|cant|can'?t|unable)\b/i,
-        /\b(without|general|instead)\b/i,
-        /\b(don'?t want to|rather not|prefer not)\b/i,
-    ];
+        const [latest] = await getUserRenewals(internalUserId, 1);
+        return latest?.summary ? `MOST RECENT RENEWAL (computed from the customer's declarations pages):\n${latest.summary}` : '';
+    } catch (error) {
+        console.warn('⚠️ Renewal context unavailable:', error);
+        return '';
+    }
+}
 
-    const isDeclineOrContinue = declinePatterns.some(pattern => pattern.test(lowerQuery));
+// Computed grounding for answers about the user's own policies
+async function getPolicyGroundingContext(
+    userId: string | undefined,
+    classification: IntentClassification,
+    memoryContext: string = ''
+): Promise<string> {
+    const blocks = await Promise.all([
+        getProtectionAuditContext(userId),
+        classification.intent === 'renewal_question' ? getRenewalContext(userId) : Promise.resolve(''),
+    ]);
+    return [memoryContext, ...blocks].filter(Boolean).join('\n\n');
+}
 
-    if (isDeclineOrContinue) {
-        console.log(`🔄 User appears to be declining upload or asking for general help`);
-        return true;
-    }
+// Household facts the user confirmed in earlier conversations - never blocks the reply
+async function getRememberedFacts(userId: string | undefined): Promise<ProfileFact[]> {
+    return userId ? getConfirmedProfileFacts(userId) : [];
+}
 
-    // If user asks a general question after upload prompt (not about their policy), treat as wanting general help
-    const isGeneralQuestion = /^(what is|what are|how does|how do|explain|tell me about)\s+(a|an|the)?\s*(deductible|coverage|insurance|policy|premium)/i.test(lowerQuery);
+// Insured state from the user's policies (or the state they told us), used to load state rules for Uri and Rai
+async function resolvePolicyState(userId: string | undefined, remembered: ProfileFact[] = []): Promise<string | null> {
+    if (!userId) return null;
 
-    if (isGeneralQuestion) {
-        console.log(`🔄 User asking general question after upload prompt - providing general help`);
-        return true;
+    const rememberedState = remembered.find(fact => fact.key === 'state');
+    try {
+        return (await getUserPolicyState(userId)) || (rememberedState ? String(rememberedState.value) : null);
+    } catch (error) {
+        console.warn('⚠️ Could not resolve policy state:', error);
+        return null;
     }
-
-    return false;
 }
 
 // Format policy type for display
-function formatPolicyType(policyType: PolicyType): string {
-    const names: Record<PolicyType, string> = {
+const POLICY_TYPE_NAMES: Record<Language, Record<PolicyType, string>> = {
+    en: {
         'auto': 'auto',
         'home': 'homeowners',
         'renters': 'renters',
@@ -271,21 +271,35 @@ function formatPolicyType(policyType: PolicyType): string {
         'life': 'life',
         'health': 'health',
         'other': 'insurance'
-    };
-    return names[policyType] || policyType;
+    },
+    es: {
+        'auto': 'auto',
+        'home': 'hogar',
+        'renters': 'inquilino',
+        'umbrella': 'responsabilidad civil adicional (umbrella)',
+        'life': 'vida',
+        'health': 'salud',
+        'other': 'seguro'
+    }
+};
+
+function formatPolicyType(policyType: PolicyType, language: Language = DEFAULT_LANGUAGE): string {
+    return POLICY_TYPE_NAMES[language][policyType] || policyType;
 }
 
 // Prompt user to upload a specific policy type when they have other policies but not the one needed
 async function promptSpecificPolicyUpload(
     userQuery: string,
     neededType: PolicyType,
-    existingTypes: PolicyType[]
+    existingTypes: PolicyType[],
+    language: Language,
+    prompts: PromptTrace
 ): Promise<string> {
     const formattedNeeded = formatPolicyType(neededType);
-    const formattedExisting = existingTypes.map(formatPolicyType).join(', ');
+    const formattedExisting = existingTypes.map(type => formatPolicyType(type)).join(', ');
 
     const prompt = `You are Sam, a friendly, empathetic insurance advisor.
-${OUTPUT_GUARDRAILS}
+${outputGuardrails(prompts, language)}
 
 **Situation**: The user asked about their ${formattedNeeded} policy, but they've only uploaded their ${formattedExisting} policy/policies.
 
@@ -295,313 +309,252 @@ User asked: "${userQuery}"
 
 Respond asking them to upload their ${formattedNeeded} policy:`;
 
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 512,
-        },
+    const result = await getModelClient('sam').generate(prompt, {
+        temperature: 0.7,
+        maxOutputTokens: 512,
     });
 
-    logGenerationResult(result, 'promptSpecificPolicyUpload');
-    let response = result.response.candidates?.[0]?.content?.parts?.[0]?.text ||
-        `I have your ${formattedExisting} policy on file, but I'll need your ${formattedNeeded} policy to help with that question.`;
-
-    // Remove any URLs that might have been included
-    response = response.replace(/https?:\/\/[^\s]+/g, '').trim();
+    const fallback = SAM_MESSAGES[language].specificUploadFallback(
+        existingTypes.map(type => formatPolicyType(type, language)).join(', '),
+        formatPolicyType(neededType, language)
+    );
+    const response = await finishReply(result, fallback, prompt, 'promptSpecificPolicyUpload', language, UPLOAD_PROMPT_POLICIES);
 
     return response + "\n\n[UPLOAD_POLICY]";
 }
 
-export async function handleSamChat(userQuery: string, history: any[], userId?: string) {
+// ============================================================================
+// ROUTING
+// ============================================================================
+// Every turn is classified once (agents/intent.ts); the classification and the
+// path taken are reported so they can be stored with the user's message.
+
+export type SamRoute =
+    | 'canned'
+    | 'policy_answer'
+    | 'specific_upload_prompt'
+    | 'no_policy_on_file'
+    | 'upload_prompt'
+    | 'knowledge_base'
+    | 'direct'
+    | 'handoff'
+    | 'claim_intake';
+
+export interface SamRoutingDecision {
+    classification: IntentClassification;
+    route: SamRoute;
+}
+
+export interface SamChatOptions {
+    onProgress?: SamProgressCallback;
+    onRoute?: (decision: SamRoutingDecision) => void;
+    /** Sources behind the answer, numbered as the [n] markers in its text */
+    onCitations?: (citations: Citation[]) => void;
+    /** Rai's verdict on Uri's draft (knowledge base answers only) */
+    onReview?: (review: RaiReview) => void;
+    /** Reply language - detected from the message when not given */
+    language?: Language;
+    /** Escalate the chat to a licensed agent - only given when the chat can be handed off */
+    onHandoff?: (trigger: HandoffTrigger) => void;
+    /** Present Uri's draft without Rai's review (the user is over their daily model budget) */
+    skipReview?: boolean;
+    /** Versions of the prompts that produced the reply - not called for canned replies */
+    onPrompts?: (record: PromptRecord) => void;
+    /** Guided claim report - only given for a signed-in user in a saved chat */
+    claimIntake?: ClaimIntakeChannel;
+}
+
+// Intents Sam answers conversationally without the Uri → Rai analysis
+const CONVERSATIONAL_INTENTS: Intent[] = ['greeting', 'small_talk', 'other'];
+
+// Route, citations and review listeners - a broken listener must never break the chat itself
+function notify<T>(label: string, listener: ((value: T) => void) | undefined, value: T): void {
+    if (!listener) return;
+    try {
+        listener(value);
+    } catch (error) {
+        console.error(`⚠️ ${label} callback failed:`, error);
+    }
+}
+
+export async function handleSamChat(
+    userQuery: string,
+    history: any[],
+    userId?: string,
+    options: SamChatOptions = {}
+) {
+    const { onProgress, onRoute, onCitations, onReview, onHandoff, skipReview, onPrompts, claimIntake } = options;
+    const language = options.language || detectLanguage(userQuery) || DEFAULT_LANGUAGE;
+    const messages = SAM_MESSAGES[language];
+    const prompts = new PromptTrace(userId);
+
     try {
         console.log(`\n💬 Sam received message: "${userQuery}"`);
         if (userId) {
             console.log(`👤 Processing for user: ${userId}`);
         }
 
+        reportProgress(onProgress, 'thinking');
+        const classification = await classifyIntent(userQuery, history);
+        const routeTo = (route: SamRoute) => {
+            console.log(`🧭 Sam route: ${route}`);
+            notify('Route', onRoute, { classification, route });
+        };
+
         // Quick responses for common queries (no AI needed)
-        const lowerQuery = userQuery.toLowerCase().trim();
+        if (classification.source === 'rules') {
+            routeTo('canned');
+            return classification.intent === 'greeting' ? messages.greeting : messages.howAreYou;
+        }
 
-        // Greetings
-        if (/^(hi|hello|hey|yo|sup|what's up|whats up)$/i.test(lowerQuery)) {
-            return "Hey! I'm Sam, your insurance advisor. What can I help you with today?";
+        if (classification.intent === 'human_handoff') {
+            routeTo('handoff');
+            if (!onHandoff) return messages.handoffUnavailable;
+            notify('Handoff', onHandoff, { source: 'user_request', reason: 'Customer asked for a licensed agent' });
+            return messages.handoffRequested;
         }
 
-        // How are you
-        if (/how are you|how're you/i.test(lowerQuery)) {
-            return "I'm doing great, thanks for asking! How can I help with your insurance needs?";
+        // High-risk situations go to a licensed agent whatever route the answer takes
+        const highRisk = detectHighRiskTopic(userQuery);
+        if (highRisk) {
+            notify('Handoff', onHandoff, highRisk);
         }
 
-        // Check if user is explicitly referencing an existing policy on file
-        const storageKey = userId || 'anonymous';
-        if (userReferencingExistingPolicy(userQuery)) {
-            console.log("📋 Sam: User is referencing existing policy on file...");
+        // A claim report under way takes every answer until it is finished or cancelled
+        if (claimIntake && (claimIntake.inProgress || classification.intent === 'claim_report')) {
+            routeTo('claim_intake');
+            return await claimIntake.respond(userQuery, classification.policyTypes, language);
+        }
 
-            // First check in-memory cache
-            let matchingPolicy = getPolicyForQuery(storageKey, userQuery);
+        const remembered = await getRememberedFacts(userId);
+        const memoryContext = formatMemoryForPrompt(remembered);
 
-            // If not in cache and we have a userId, try loading from database
-            if (!matchingPolicy && userId) {
-                console.log("🔄 Policy not in cache, loading from database...");
-                await loadUserDocumentsToCache(userId);
-                matchingPolicy = getPolicyForQuery(storageKey, userQuery);
-            }
+        // Questions about the user's own coverage are answered from the policy on file
+        if (classification.needsUserData) {
+            // Policies are stored per user - anonymous visitors never have one on file
+            const matchingPolicy = userId ? await getPolicyForTypes(userId, classification.policyTypes) : null;
 
             if (matchingPolicy) {
                 console.log(`✅ Found ${matchingPolicy.policyType} policy from ${matchingPolicy.carrier}`);
-                return await answerWithPolicyData(
+                routeTo('policy_answer');
+                reportProgress(onProgress, 'checking_policy');
+                const sources = policyDocumentCitations(matchingPolicy);
+                const answer = await answerWithPolicyData(
                     userQuery,
                     { analysis: matchingPolicy.analysis, rawData: matchingPolicy.rawData },
-                    history
+                    history,
+                    await getPolicyGroundingContext(userId, classification, memoryContext),
+                    sources,
+                    language,
+                    prompts
                 );
-            } else {
-                console.log("❌ No policy found on file");
-                // User thinks they have a policy but we can't find it
-                return "I don't see any policy documents on file yet. Could you upload your insurance card, declarations page, or policy PDF so I can help you?";
-            }
-        }
 
-        // Check if user was recently prompted for upload and is declining/continuing without it
-        const userWantsGeneralHelp = userDeclinedOrContinuingWithoutUpload(userQuery, history);
-
-        if (userWantsGeneralHelp) {
-            console.log("💬 Sam: User declined upload or wants general help - proceeding without policy data");
-            // Skip policy upload check entirely and provide general assistance
-            const needsAnalysis = await shouldCallUri(userQuery, history);
-            if (needsAnalysis) {
-                const uriResult = await handleUriChat(userQuery, history);
-                if (typeof uriResult === 'string') return uriResult;
-                const raiApprovedAnswer = await handleRaiReview(userQuery, uriResult.answer, uriResult.context);
-                return await presentFinalAnalysis(userQuery, raiApprovedAnswer, history);
+                // Answers that cite no section still came from this document
+                const { text, citations } = collectCitations(answer, sources);
+                notify('Citations', onCitations, citations.length > 0 ? citations : [documentCitation(matchingPolicy)]);
+                return text;
             }
-            return await handleDirectly(userQuery, history);
-        }
 
-        // Check if user needs to reference their policy
-        const needsPolicyUpload = await checkIfNeedsPolicyUpload(userQuery, history);
+            const uploadedTypes = userId ? await getUserPolicyTypes(userId) : [];
+            console.log(`📋 User has uploaded: [${uploadedTypes.join(', ') || 'none'}], query needs: ${classification.policyTypes.join(', ') || 'any policy'}`);
 
-        if (needsPolicyUpload) {
-            // Determine what policy type the user is asking about
-            const neededPolicyType = detectNeededPolicyType(userQuery);
-
-            // Check if we have the specific policy type they need (try loading from DB first if needed)
-            let matchingPolicy = getPolicyForQuery(storageKey, userQuery);
-            if (!matchingPolicy && userId) {
-                await loadUserDocumentsToCache(userId);
-                matchingPolicy = getPolicyForQuery(storageKey, userQuery);
+            if (uploadedTypes.length > 0) {
+                // User has a policy, but not for the line they asked about
+                routeTo('specific_upload_prompt');
+                return await promptSpecificPolicyUpload(userQuery, classification.policyTypes[0] || 'other', uploadedTypes, language, prompts);
             }
-            const uploadedTypes = getUserPolicyTypes(storageKey);
-
-            console.log(`📋 User has uploaded: [${uploadedTypes.join(', ') || 'none'}]`);
-            console.log(`🔍 Query needs: ${neededPolicyType || 'any policy'}`);
 
-            if (matchingPolicy) {
-                // Check if the matching policy is the right type
-                if (!neededPolicyType || matchingPolicy.policyType === neededPolicyType) {
-                    console.log(`✅ Found matching ${matchingPolicy.policyType} policy from ${matchingPolicy.carrier}`);
-                    const policyResponse = await answerWithPolicyData(
-                        userQuery,
-                        { analysis: matchingPolicy.analysis, rawData: matchingPolicy.rawData },
-                        history
-                    );
-                    return policyResponse;
-                } else {
-                    // User has a policy but it's the wrong type
-                    console.log(`⚠️ User has ${matchingPolicy.policyType} but needs ${neededPolicyType}`);
-                    return await promptSpecificPolicyUpload(userQuery, neededPolicyType, uploadedTypes);
-                }
+            if (classification.referencesPolicyOnFile) {
+                // User thinks they have a policy but we can't find it
+                routeTo('no_policy_on_file');
+                return messages.noPolicyOnFile;
             }
 
-            // No policy at all - prompt for upload
             console.log("📄 Sam: User needs to upload their policy document...");
-            const uploadResponse = await promptDocumentUpload(userQuery);
-            return uploadResponse;
+            routeTo('upload_prompt');
+            return await promptDocumentUpload(userQuery, language, prompts);
         }
 
-        // First, let Sam decide if this needs Uri's analysis
-        const needsAnalysis = await shouldCallUri(userQuery, history);
-
-        if (needsAnalysis) {
-            console.log("🔄 Sam: This query needs Uri's analysis...");
+        if (CONVERSATIONAL_INTENTS.includes(classification.intent)) {
+            console.log("💬 Sam: Handling this directly...");
+            routeTo('direct');
+            reportProgress(onProgress, 'writing');
+            return await handleDirectly(userQuery, history, memoryContext, language, prompts);
+        }
 
-            // Call Uri for detailed analysis
-            const uriResult = await handleUriChat(userQuery, history);
+        console.log("🔄 Sam: This query needs Uri's analysis...");
+        routeTo('knowledge_base');
 
-            // Uri returns either a string (error) or an object {answer, context}
-            let uriResponse: string;
-            let sourceContext: string;
+        // Call Uri for detailed analysis
+        reportProgress(onProgress, 'searching_knowledge_base');
+        const policyState = await resolvePolicyState(userId, remembered);
+        const uriResult = await handleUriChat(userQuery, history, { state: policyState, memory: memoryContext, language, prompts });
 
-            if (typeof uriResult === 'string') {
-                // Error case - return directly
-                return uriResult;
-            } else {
-                uriResponse = uriResult.answer;
-                sourceContext = uriResult.context;
-            }
+        // Uri returns either a string (error) or an object {answer, context}
+        if (typeof uriResult === 'string') {
+            return uriResult;
+        }
 
-            // Call Rai to review Uri's draft
+        // Call Rai to review Uri's draft
+        let review: RaiReview;
+        if (skipReview) {
+            review = skippedRaiReview(uriResult.answer);
+        } else {
             console.log("🔍 Sam: Sending to Rai for review...");
-            const raiApprovedAnswer = await handleRaiReview(userQuery, uriResponse, sourceContext);
+            reportProgress(onProgress, 'reviewing');
+            review = await handleRaiReview(userQuery, uriResult.answer, uriResult.context, policyState, prompts);
+        }
+        notify('Review', onReview, review);
+        if (review.verdict === 'needs_human') {
+            notify('Handoff', onHandoff, {
+                source: 'rai_review',
+                reason: review.issues[0]?.description || 'Rai flagged the answer for a licensed agent',
+            });
+        }
 
-            // Sam now presents Rai's approved analysis in a friendly way
-            console.log("✅ Sam: Presenting final answer to user...");
-            const finalResponse = await presentFinalAnalysis(userQuery, raiApprovedAnswer, history);
-            return finalResponse;
-        } else {
-            // Simple query - Sam can handle it directly
-            console.log("💬 Sam: Handling this directly...");
-            const directResponse = await handleDirectly(userQuery, history);
-            return directResponse;
+        // Sam now presents Rai's approved analysis in a friendly way
+        console.log("✅ Sam: Presenting final answer to user...");
+        reportProgress(onProgress, 'writing');
+        const auditContext = classification.intent === 'coverage_review'
+            ? await getProtectionAuditContext(userId)
+            : '';
+        const finalAnswer = await presentFinalAnalysis(userQuery, review.finalAnswer, history, auditContext, {
+            hasSources: uriResult.sources.length > 0,
+            needsHuman: review.verdict === 'needs_human' || Boolean(highRisk),
+            handoffQueued: Boolean(onHandoff),
+        }, language, prompts);
+
+        // Without markers the whole answer rests on the retrieved documents
+        const { text, citations } = collectCitations(finalAnswer, uriResult.sources);
+        if (uriResult.sources.length > 0) {
+            notify('Citations', onCitations, citations.length > 0 ? citations : uriResult.sources);
         }
+        return text;
 
     } catch (error) {
         console.error("❌ Error in Agent Sam:", error);
-        return "I apologize, but I encountered an error. Please try again or let me know if you need help with something else!";
-    }
-}
-
-// Check if user needs to upload their policy document
-async function checkIfNeedsPolicyUpload(userQuery: string, _history: any[]): Promise<boolean> {
-    const lowerQuery = userQuery.toLowerCase();
-
-    // ========================================
-    // CATEGORY 1: EXPLICIT POLICY REFERENCES
-    // ========================================
-    const explicitPolicyKeywords = [
-        'my policy', 'my coverage', 'my current', 'my plan', 'my insurance',
-        'check my', 'view my', 'see my', 'review my', 'analyze my',
-        'what do i have', 'what am i', 'am i covered', 'do i have',
-        'my limits', 'my deductible', 'my premium', 'my carrier',
-        'in my policy', 'on my policy', 'in my coverage',
-        'i have coverage', 'i have insurance', 'i have a policy'
-    ];
-
-    if (explicitPolicyKeywords.some(keyword => lowerQuery.includes(keyword))) {
-        console.log(`✅ POLICY UPLOAD REQUIRED: Explicit policy reference detected`);
-        return true;
-    }
-
-    // ========================================
-    // CATEGORY 2: QUOTE & PRICING REQUESTS
-    // ========================================
-    const quoteKeywords = [
-        'quote', 'quotes', 'pricing', 'price', 'cost', 'how much',
-        'give me a quote', 'get a quote', 'need a quote',
-        'what would it cost', 'how much would', 'how much does',
-        'save money', 'cheaper', 'lower my', 'reduce my',
-        'switch', 'compare', 'comparison'
-    ];
-
-    if (quoteKeywords.some(keyword => lowerQuery.includes(keyword))) {
-        // Check if it's a personalized request (not just "what is the average cost of insurance?")
-        const isPersonalized =
-            lowerQuery.includes('my') ||
-            lowerQuery.includes('i ') ||
-            lowerQuery.includes('me ') ||
-            lowerQuery.includes('can you') ||
-            lowerQuery.includes('could you') ||
-            lowerQuery.includes('give') ||
-            lowerQuery.includes('get') ||
-            lowerQuery.includes('need');
-
-        if (isPersonalized) {
-            console.log(`✅ POLICY UPLOAD REQUIRED: Quote/pricing request detected`);
-            return true;
-        }
-    }
-
-    // ========================================
-    // CATEGORY 3: COVERAGE ANALYSIS & GAP DETECTION
-    // ========================================
-    const analysisKeywords = [
-        'gap', 'gaps', 'missing', 'underinsured', 'enough coverage',
-        'sufficient coverage', 'adequate coverage', 'protected',
-        'what am i missing', 'what should i add', 'what do i need',
-        'recommend', 'recommendation', 'suggestions',
-        'enough protection', 'adequately covered'
-    ];
-
-    if (analysisKeywords.some(keyword => lowerQuery.includes(keyword))) {
-        // These require personalization - need to see their current policy
-        const needsPersonalization =
-            lowerQuery.includes('my') ||
-            lowerQuery.includes('i ') ||
-            lowerQuery.includes('am i') ||
-            lowerQuery.includes('do i');
-
-        if (needsPersonalization) {
-            console.log(`✅ POLICY UPLOAD REQUIRED: Coverage analysis/gap detection request`);
-            return true;
+        return messages.error;
+    } finally {
+        if (!prompts.isEmpty) {
+            notify('Prompts', onPrompts, prompts.toRecord());
         }
     }
-
-    // ========================================
-    // CATEGORY 4: SMART DETECTION (policy/coverage + possessive)
-    // ========================================
-    const hasPolicyRef = lowerQuery.includes('policy') || lowerQuery.includes('coverage') || lowerQuery.includes('insurance');
-    const hasPossessive =
-        lowerQuery.includes('my ') ||
-        lowerQuery.includes('mine') ||
-        lowerQuery.includes('i have') ||
-        lowerQuery.includes('i\'m') ||
-        lowerQuery.includes('i am') ||
-        lowerQuery.includes('do i');
-
-    if (hasPolicyRef && hasPossessive) {
-        console.log(`✅ POLICY UPLOAD REQUIRED: Policy reference + possessive detected`);
-        return true;
-    }
-
-    const prompt = `You are a decision-making assistant. Determine if the user needs to upload their current insurance policy to get accurate help.
-
-Questions that NEED policy upload (return "YES"):
-- ANY questions about "my policy", "my coverage", "my insurance", or "my current" coverage
-- ANY quote, pricing, or cost requests ("give me a quote", "how much would it cost", "can I save money")
-- Coverage gap analysis ("what gaps do I have", "am I underinsured", "what am I missing")
-- Personalized recommendations ("what should I add to MY coverage", "do I have enough")
-- Questions like "what does my policy cover", "what are my limits", "am I covered for X"
-- Requests to review, analyze, or compare their specific policy
-- Questions about switching carriers or comparing their current policy
-- Claims questions about their specific policy
-
-Questions that DON'T need policy upload (return "NO"):
-- Pure education questions with NO personalization ("what is umbrella insurance", "how does a deductible work")
-- Hypothetical scenarios about someone else ("what if someone got into an accident")
-- General questions about averages or typical coverage ("what's the average home insurance cost")
-- Greetings or small talk
-- Questions about insurance concepts in the abstract
-
-**IMPORTANT**: When in doubt, return "YES". It's better to ask for policy upload when not needed than to skip it when needed.
-
-Reply with ONLY "YES" or "NO".
-
-User question: "${userQuery}"`;
-
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 20,
-        },
-    });
-
-    logGenerationResult(result, 'checkIfNeedsPolicyUpload');
-    const decision = result.response.candidates?.[0]?.content?.parts?.[0]?.text?.trim().toUpperCase();
-    console.log(`🤔 Policy upload check AI decision: ${decision}`);
-    return decision === "YES";
 }
 
 // Answer questions using the customer's policy data
 async function answerWithPolicyData(
     userQuery: string,
     policyData: { analysis: string; rawData: any },
-    history: any[]
+    history: any[],
+    groundingContext: string = '',
+    sources: Citation[],
+    language: Language,
+    prompts: PromptTrace
 ): Promise<string> {
     console.log("🔍 Answering with policy data...");
 
-    const prompt = `${SAM_CORE_PROMPT}
-${OUTPUT_GUARDRAILS}
+    const prompt = `${prompts.render('sam_core', {})}
+${outputGuardrails(prompts, language)}
 
 **Policy Data Context**:
 The customer has uploaded their insurance policy. Use this data to provide specific, personalized answers.
@@ -611,41 +564,30 @@ ${policyData.analysis}
 
 RAW POLICY DATA:
 ${JSON.stringify(policyData.rawData, null, 2)}
-
+${sources.length > 0 ? `\nPOLICY DOCUMENT SOURCES:\n${formatSourcesForPrompt(sources)}\n` : ''}${groundingContext ? `\n${groundingContext}\n` : ''}
 **Task-Specific Guidelines**:
 - Answer using the ACTUAL data from their policy - reference specific coverage limits, deductibles, carrier, etc.
-- If you notice coverage gaps or concerns, mention them briefly using the Protection Audit format
+- If there are coverage gaps relevant to the question, mention them briefly using the Protection Audit format${groundingContext ? ' and the computed findings above' : ''}
 - Remember: say "designed to cover" not "will cover" (compliance)
-
+${sources.length > 0 ? `- ${CITATION_INSTRUCTIONS}\n` : ''}
 ${history.length > 0 ? `Previous conversation:\n${history.map(msg => `${msg.role}: ${msg.content}`).join('\n')}\n\n` : ''}
 
 Customer's question: "${userQuery}"
 
 Answer using their specific policy information:`;
 
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 4096,
-        },
+    const result = await getModelClient('sam').generate(prompt, {
+        temperature: 0.7,
+        maxOutputTokens: 4096,
     });
 
-    const wasTruncated = logGenerationResult(result, 'answerWithPolicyData');
-    let response = result.response.candidates?.[0]?.content?.parts?.[0]?.text ||
-        "I have your policy data but couldn't generate a response. Please try asking again.";
-
-    if (wasTruncated) {
-        response = handleTruncatedResponse(response);
-    }
-
-    return cleanResponse(response);
+    return finishReply(result, SAM_MESSAGES[language].policyAnswerFallback, prompt, 'answerWithPolicyData', language);
 }
 
 // Prompt user to upload their policy document
-async function promptDocumentUpload(userQuery: string): Promise<string> {
+async function promptDocumentUpload(userQuery: string, language: Language, prompts: PromptTrace): Promise<string> {
     const prompt = `You are Sam, a friendly, empathetic insurance advisor.
-${OUTPUT_GUARDRAILS}
+${outputGuardrails(prompts, language)}
 
 **Situation**: The user asked about their specific policy, but they haven't uploaded any documents yet.
 
@@ -655,101 +597,62 @@ User asked: "${userQuery}"
 
 Create a brief, friendly response asking them to upload their policy documents:`;
 
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 512,
-        },
+    const result = await getModelClient('sam').generate(prompt, {
+        temperature: 0.7,
+        maxOutputTokens: 512,
     });
 
-    logGenerationResult(result, 'promptDocumentUpload');
-    let response = result.response.candidates?.[0]?.content?.parts?.[0]?.text ||
-        "To review your specific policy, please upload your insurance documents.";
-
-    // Remove any URLs that might have been included
-    response = response.replace(/https?:\/\/[^\s]+/g, '').trim();
+    const response = await finishReply(result, SAM_MESSAGES[language].uploadFallback, prompt, 'promptDocumentUpload', language, UPLOAD_PROMPT_POLICIES);
 
     // Add a special marker for the frontend to detect and render the upload button
     return response + "\n\n[UPLOAD_POLICY]";
 }
 
-// Determine if Uri's analysis is needed
-async function shouldCallUri(userQuery: string, _history: any[]): Promise<boolean> {
-    const prompt = `You are a decision-making assistant. Determine if the user's question needs detailed insurance analysis from Uri.
-
-**IMPORTANT**: This function should ONLY return YES for general insurance education questions that don't require the user's specific policy.
-
-Questions that NEED Uri analysis (return "YES"):
-- General insurance education questions ("what is umbrella insurance", "how does coinsurance work")
-- Hypothetical coverage scenarios ("what would happen if someone...")
-- General state insurance regulations ("what are the minimum requirements in CA")
-- Insurance concept explanations ("difference between replacement cost and ACV")
-- Non-personalized general recommendations ("what coverage should someone with a $500k home consider")
-
-Questions that DON'T need Uri (return "NO"):
-- Simple greetings (hi, hello, how are you)
-- Small talk or casual conversation
-- Questions about you or your capabilities
-- **ANY questions about the user's CURRENT/EXISTING policy** (these should have been caught by policy upload check)
-- **ANY quote or pricing requests** (these should have been caught by policy upload check)
-- **ANY personalized recommendations** (these should have been caught by policy upload check)
-- Questions with "my", "I have", "am I", "do I" combined with policy/coverage/insurance
-
-**Critical**: If this is a personalized question that slipped through, return "NO" (it will be handled as a general question by Sam).
-
-Reply with ONLY "YES" or "NO".
-
-User question: "${userQuery}"`;
-
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-            temperature: 0.1,
-            maxOutputTokens: 20,
-        },
-    });
-
-    logGenerationResult(result, 'shouldCallUri');
-    const decision = result.response.candidates?.[0]?.content?.parts?.[0]?.text?.trim().toUpperCase();
-    return decision === "YES";
-}
-
 // Handle simple queries directly
-async function handleDirectly(userQuery: string, history: any[]): Promise<string> {
+async function handleDirectly(
+    userQuery: string,
+    history: any[],
+    memoryContext: string,
+    language: Language,
+    prompts: PromptTrace
+): Promise<string> {
     // Note: Safety net removed - upload prompting is now handled at the start of handleSamChat
     // with proper decline detection to prevent loops
 
-    const prompt = `${SAM_CORE_PROMPT}
-${OUTPUT_GUARDRAILS}
-
+    const prompt = `${prompts.render('sam_core', {})}
+${outputGuardrails(prompts, language)}
+${memoryContext ? `\n${memoryContext}\n` : ''}
 ${history.length > 0 ? `Previous conversation:\n${history.map(msg => `${msg.role}: ${msg.content}`).join('\n')}\n\n` : ''}User: ${userQuery}
 
 Respond briefly and naturally:`;
 
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 4096,
-        },
+    const result = await getModelClient('sam').generate(prompt, {
+        temperature: 0.7,
+        maxOutputTokens: 4096,
     });
 
-    const wasTruncated = logGenerationResult(result, 'handleDirectly');
-    let response = result.response.candidates?.[0]?.content?.parts?.[0]?.text ||
-        "I'm here to help! What can I assist you with today?";
-
-    if (wasTruncated) {
-        response = handleTruncatedResponse(response);
-    }
-
-    return cleanResponse(response);
+    return finishReply(result, SAM_MESSAGES[language].directFallback, prompt, 'handleDirectly', language);
 }
 
 // Present final analysis in a friendly way
-async function presentFinalAnalysis(originalQuery: string, finalAnswer: string, _history: any[]): Promise<string> {
-    const prompt = `${SAM_CORE_PROMPT}
-${OUTPUT_GUARDRAILS}
+// A queued handoff is already on its way; otherwise Sam can only suggest one
+function humanReviewInstruction(handoffQueued?: boolean): string {
+    return handoffQueued
+        ? '\nThis case should be reviewed by a licensed human advisor, and one has been asked to join this chat. After answering, tell the user a licensed agent will reply here.\n'
+        : '\nThis case should be reviewed by a licensed human advisor. After answering, offer to connect the user with one.\n';
+}
+
+async function presentFinalAnalysis(
+    originalQuery: string,
+    finalAnswer: string,
+    _history: any[],
+    auditContext: string = '',
+    flags: { hasSources?: boolean; needsHuman?: boolean; handoffQueued?: boolean },
+    language: Language,
+    prompts: PromptTrace
+): Promise<string> {
+    const prompt = `${prompts.render('sam_core', {})}
+${outputGuardrails(prompts, language)}
 
 **Task**: Present this insurance analysis in your voice. You are the sole advisor the user interacts with.
 
@@ -757,41 +660,149 @@ User asked: "${originalQuery}"
 
 Analysis result:
 ${finalAnswer}
-
+${auditContext ? `\n${auditContext}\n\nWhere the analysis and the computed Protection Audit disagree on limits for this user, use the audit figures.\n` : ''}${flags.needsHuman ? humanReviewInstruction(flags.handoffQueued) : ''}${flags.hasSources ? '\nKeep the source numbers like [1] from the analysis on the sentences they support - they become footnotes the user can check. Do not add new ones.\n' : ''}
 Present this to the user as your own response - be warm, clear, and end with a next step or follow-up question:`;
 
-    const result = await model.generateContent({
-        contents: [{ role: 'user', parts: [{ text: prompt }] }],
-        generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 4096,
-        },
+    const result = await getModelClient('sam').generate(prompt, {
+        temperature: 0.7,
+        maxOutputTokens: 4096,
     });
 
-    const wasTruncated = logGenerationResult(result, 'presentFinalAnalysis');
-    let response = result.response.candidates?.[0]?.content?.parts?.[0]?.text || finalAnswer;
+    return finishReply(result, finalAnswer, prompt, 'presentFinalAnalysis', language);
+}
 
-    if (wasTruncated) {
-        response = handleTruncatedResponse(response);
+// ============================================================================
+// ACCOUNT DATA TOOLS
+// ============================================================================
+
+// Rounds of tool calls before Sam must answer with what it has
+const MAX_TOOL_ITERATIONS = 5;
+
+type ToolExecutor = (name: string, args: Record<string, unknown>) => Promise<object>;
+
+/**
+ * Function-calling loop shared by the typed tools and the legacy MCP tools: tool results are fed
+ * back until the model answers in text or runs out of rounds
+ */
+async function runToolLoop(
+    contents: ModelMessage[],
+    declarations: ToolDeclaration[],
+    execute: ToolExecutor,
+    context: string
+): Promise<ModelResponse> {
+    const model = getModelClient('sam');
+    let response = await model.generateWithTools(contents, declarations);
+    let iterations = 0;
+
+    while (response.functionCalls.length > 0 && iterations < MAX_TOOL_ITERATIONS) {
+        iterations++;
+        console.log(`[${context}] Function call iteration ${iterations}`);
+
+        const functionResponses: ModelPart[] = [];
+        for (const fc of response.functionCalls) {
+            console.log(`[${context}] Tool call: ${fc.name}`);
+            functionResponses.push({
+                functionResponse: {
+                    name: fc.name,
+                    response: await execute(fc.name, fc.args),
+                },
+            });
+        }
+
+        // Continue conversation with function results
+        contents.push({ role: 'model', parts: response.parts });
+        contents.push({ role: 'user', parts: functionResponses });
+
+        response = await model.generateWithTools(contents, declarations);
     }
 
-    return cleanResponse(response);
+    return response;
 }
 
-// ============================================================================
-// MCP DATABASE INTEGRATION
-// ============================================================================
+// System prompt, history and the current question, in the shape the tool loop expects
+function buildToolConversation(systemPrompt: string, history: any[], userQuery: string): ModelMessage[] {
+    const contents: ModelMessage[] = [
+        { role: 'user', parts: [{ text: systemPrompt }] },
+        { role: 'model', parts: [{ text: 'I understand. I will only access data for the authenticated user and follow all security constraints.' }] },
+    ];
+
+    for (const msg of history) {
+        contents.push({
+            role: msg.role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: msg.content }],
+        });
+    }
+
+    contents.push({ role: 'user', parts: [{ text: userQuery }] });
+    return contents;
+}
+
+const TOOL_TASK_GUIDELINES = `## TASK-SPECIFIC GUIDELINES
+- Help users understand their insurance policies stored in the database
+- Reference specific data from query results using the Protection Audit format when relevant
+- If you find concerning coverage gaps, mention them briefly`;
 
 /**
- * Handles queries that require database access via MCP
+ * Handles questions about the user's own account data (policies, limits, deductibles, claims,
+ * renewal dates) with typed tools scoped to the signed-in user in code. The tools read through
+ * db, the client bound to the user's access token, so RLS backs up the scoping.
  *
- * This function enables Sam to query the user's data directly from Supabase
- * while maintaining strict user isolation through system prompt constraints.
+ * The legacy Supabase MCP path, where the model writes SQL, runs only when
+ * SAM_DATABASE_TOOLS=mcp.
  */
 export async function handleDatabaseQuery(
     userQuery: string,
     history: any[],
-    userId: string
+    userId: string,
+    db: SupabaseClient,
+    language: Language = DEFAULT_LANGUAGE,
+    prompts: PromptTrace = new PromptTrace(userId)
+): Promise<string> {
+    if (process.env.SAM_DATABASE_TOOLS === 'mcp') {
+        return handleDatabaseQueryWithMCP(userQuery, history, userId, db, language, prompts);
+    }
+
+    console.log(`\n🧰 [Tools] Starting account data lookup for user: ${userId}`);
+
+    try {
+        const toolbox = createSamToolbox(userId, db);
+
+        const systemPrompt = `${prompts.render('sam_core', {})}
+${outputGuardrails(prompts, language)}
+
+## ACCOUNT DATA TOOLS
+
+You can look up this customer's own account with the tools provided: their policies, coverage limits, deductibles, claims and renewal dates.
+- The tools only ever return this customer's data - there is nothing to filter and no way to reach anyone else's
+- Call list_my_policies first when you need a policy id
+- Answer only from what the tools return; if a tool returns an error or nothing, say you couldn't find it rather than guessing
+- If the customer asks about someone else's account, explain that you can only help with their own
+
+${TOOL_TASK_GUIDELINES}`;
+
+        const contents = buildToolConversation(systemPrompt, history, userQuery);
+        const response = await runToolLoop(contents, toolbox.declarations, toolbox.execute, 'Tools');
+
+        return await finishReply(response, SAM_MESSAGES[language].databaseFallback, contents, 'handleDatabaseQuery', language);
+
+    } catch (error) {
+        console.error('[Tools] Account data lookup error:', error);
+        return SAM_MESSAGES[language].databaseError;
+    }
+}
+
+/**
+ * Legacy database access through the Supabase MCP server's execute_sql, kept behind
+ * SAM_DATABASE_TOOLS=mcp. User isolation is enforced by validateSQLQuery, which runs the
+ * re-rendered query only after checking its AST, and the query runs as the user so RLS applies.
+ */
+async function handleDatabaseQueryWithMCP(
+    userQuery: string,
+    history: any[],
+    userId: string,
+    db: SupabaseClient,
+    language: Language,
+    prompts: PromptTrace
 ): Promise<string> {
     console.log(`\n🗄️ [MCP] Starting database query for user: ${userId}`);
 
@@ -800,144 +811,63 @@ export async function handleDatabaseQuery(
     try {
         // Get MCP connection
         mcpConnection = await getMCPConnection();
+        const connection = mcpConnection;
 
         // Fetch available tools
-        const allTools = await listMCPTools(mcpConnection);
+        const allTools = await listMCPTools(connection);
         const safeTools = filterSafeTools(allTools);
         console.log(`[MCP] Available safe tools: ${safeTools.map(t => t.name).join(', ')}`);
 
-        // Convert to Vertex AI format
-        const functionDeclarations = convertMCPToolsToVertexAI(safeTools);
-
-        // Create model with function calling enabled
-        const modelWithTools = vertexAI.getGenerativeModel({
-            model: 'gemini-2.5-flash',
-            tools: [{
-                functionDeclarations,
-            }],
-        });
+        // Queries are checked against both ids: user_documents uses the auth id, the rest users.id
+        const scope: SqlUserScope = { authUserId: userId, internalUserId: await getInternalUserId(userId, db) };
 
         // Generate secure system prompt
-        const securityPrompt = generateDatabaseSecurityPrompt(userId);
+        const securityPrompt = generateDatabaseSecurityPrompt(scope);
 
-        const systemPrompt = `${SAM_CORE_PROMPT}
-${OUTPUT_GUARDRAILS}
+        const systemPrompt = `${prompts.render('sam_core', {})}
+${outputGuardrails(prompts, language)}
 
 ## DATABASE ACCESS & SUPABASE SECURITY (CRITICAL)
 
 ${securityPrompt}
 
 **Supabase MCP Tool Security Requirements**:
-- You MUST use the authenticated user_id "${userId}" for ALL database queries
 - NEVER query, access, or return data belonging to other users
-- When using execute_sql or any Supabase MCP tool, ALWAYS include "WHERE user_id = '${userId}'" in your queries
-- If a query would return data for multiple users, filter to ONLY this user's data
 - REJECT any request that asks you to access another user's data
 - If you cannot complete a request within these security boundaries, explain why and suggest an alternative
 
-## TASK-SPECIFIC GUIDELINES
-- Help users understand their insurance policies stored in the database
-- Reference specific data from query results using the Protection Audit format when relevant
-- If you find concerning coverage gaps, mention them briefly`;
-
-        // Build conversation history
-        const contents: Content[] = [
-            { role: 'user', parts: [{ text: systemPrompt }] },
-            { role: 'model', parts: [{ text: 'I understand. I will only access data for the authenticated user and follow all security constraints.' }] },
-        ];
-
-        // Add conversation history
-        for (const msg of history) {
-            contents.push({
-                role: msg.role === 'assistant' ? 'model' : 'user',
-                parts: [{ text: msg.content }],
-            });
-        }
-
-        // Add current query
-        contents.push({ role: 'user', parts: [{ text: userQuery }] });
+${TOOL_TASK_GUIDELINES}`;
 
-        // Execute with function calling loop
-        let response = await modelWithTools.generateContent({ contents });
-        let iterations = 0;
-        const MAX_ITERATIONS = 5;
+        const contents = buildToolConversation(systemPrompt, history, userQuery);
 
-        while (iterations < MAX_ITERATIONS) {
-            const candidate = response.response.candidates?.[0];
-            const parts = candidate?.content?.parts || [];
-
-            // Check for function calls
-            const functionCalls = parts.filter((p: any) => p.functionCall);
-
-            if (functionCalls.length === 0) {
-                // No more function calls, extract text response
-                break;
+        const executeTool: ToolExecutor = async (toolName, args) => {
+            if (toolName !== 'execute_sql') {
+                return { error: `Unknown tool "${toolName}"` };
             }
 
-            iterations++;
-            console.log(`[MCP] Function call iteration ${iterations}`);
-
-            // Process each function call
-            const functionResponses: Part[] = [];
-
-            for (const part of functionCalls) {
-                const fc = (part as any).functionCall;
-                const toolName = fc.name;
-                const args = fc.args || {};
-
-                console.log(`[MCP] Tool call: ${toolName}`);
-
-                // SECURITY: Validate SQL queries before execution
-                if (toolName === 'execute_sql' && args.query) {
-                    const validation = validateSQLQuery(String(args.query), userId);
-                    if (!validation.valid) {
-                        console.error(`[MCP] SQL validation failed: ${validation.error}`);
-                        functionResponses.push({
-                            functionResponse: {
-                                name: toolName,
-                                response: { error: validation.error },
-                            },
-                        } as Part);
-                        continue;
-                    }
-                }
-
-                try {
-                    const result = await executeMCPTool(mcpConnection, toolName, args);
-                    functionResponses.push({
-                        functionResponse: {
-                            name: toolName,
-                            response: result as object,
-                        },
-                    } as Part);
-                } catch (error) {
-                    console.error(`[MCP] Tool execution error:`, error);
-                    functionResponses.push({
-                        functionResponse: {
-                            name: toolName,
-                            response: { error: error instanceof Error ? error.message : 'Unknown error' },
-                        },
-                    } as Part);
-                }
+            // SECURITY: Validate SQL queries before execution, then run the validated rendering
+            const validation = validateSQLQuery(String(args.query ?? ''), scope);
+            if (!validation.valid) {
+                console.error(`[MCP] SQL validation failed: ${validation.error}`);
+                return { error: validation.error };
             }
 
-            // Continue conversation with function results
-            contents.push({ role: 'model', parts });
-            contents.push({ role: 'user', parts: functionResponses });
+            try {
+                return await executeMCPTool(connection, toolName, { ...args, query: runAsUser(validation.query!, userId) }) as object;
+            } catch (error) {
+                console.error(`[MCP] Tool execution error:`, error);
+                return { error: error instanceof Error ? error.message : 'Unknown error' };
+            }
+        };
 
-            response = await modelWithTools.generateContent({ contents });
-        }
+        const response = await runToolLoop(contents, convertMCPToolsToVertexAI(safeTools), executeTool, 'MCP');
 
         // Extract final text response
-        const finalText = response.response.candidates?.[0]?.content?.parts?.[0]?.text ||
-            "I couldn't retrieve your data. Please try again.";
-
-        logGenerationResult(response, 'handleDatabaseQuery');
-        return cleanResponse(finalText);
+        return await finishReply(response, SAM_MESSAGES[language].databaseFallback, contents, 'handleDatabaseQuery', language);
 
     } catch (error) {
         console.error('[MCP] Database query error:', error);
-        return "I had trouble accessing your data. Let me help you another way - could you upload your policy documents?";
+        return SAM_MESSAGES[language].databaseError;
     } finally {
         // Always release the connection
         if (mcpConnection) {
@@ -951,8 +881,8 @@ ${securityPrompt}
  *
  * Database queries are useful for:
  * - Fetching stored policies
- * - Getting chat history
- * - Looking up user preferences
+ * - Listing the user's claims
+ * - Looking up renewal dates
  */
 export function shouldUseDatabaseQuery(userQuery: string, userId: string | undefined): boolean {
     // Must have a valid userId
@@ -970,33 +900,55 @@ export function shouldUseDatabaseQuery(userQuery: string, userId: string | undef
         /\bstored\b/i,
         /\bon\s+file\b/i,
         /\bsaved\b/i,
+        /\b(todas|muestra|lista)\s+(mis\s+)?(pólizas|polizas|coberturas|seguros)/i,
+        /\bhistorial\b/i,
+        /\bregistrad[oa]s?\b/i,
+        /\bmy\s+(open\s+|past\s+|previous\s+)?claims\b/i,
+        /\bclaims?\s+status\b/i,
+        /\brenewal\s+dates?\b/i,
+        /\bwhen\s+(does|do|will)\s+my\s+(\w+\s+)?(policy|policies|insurance|coverage)\s+(renew|expire)/i,
+        /\bmis\s+(reclamos|siniestros)\b/i,
+        /\bfechas?\s+de\s+(renovación|renovacion|vencimiento)\b/i,
     ];
 
     return databasePatterns.some(pattern => pattern.test(lowerQuery));
 }
 
 /**
- * Enhanced version of handleSamChat that can use MCP for database queries
+ * Enhanced version of handleSamChat that can look up the user's account data with tools.
+ * The typed tools are on for every signed-in user unless accountTools is false (e.g. over
+ * the daily model budget); SAM_DATABASE_TOOLS=mcp swaps them for the MCP SQL path.
  */
 export async function handleSamChatWithMCP(
     userQuery: string,
     history: any[],
     userId?: string,
-    options: { enableMCP?: boolean } = {}
+    options: {
+        /** Allow the account data tools (default true) */
+        accountTools?: boolean;
+        /** Client bound to the user's access token, for the account data tools */
+        db?: SupabaseClient;
+    } & SamChatOptions = {}
 ): Promise<string> {
-    const { enableMCP = true } = options;
-
-    // Check if this query should use database access
-    if (enableMCP && userId && shouldUseDatabaseQuery(userQuery, userId)) {
-        console.log('[Sam] Using MCP database query path');
+    const { accountTools = true, db, ...chatOptions } = options;
+    const { onProgress, onPrompts } = chatOptions;
+    const language = chatOptions.language || detectLanguage(userQuery) || DEFAULT_LANGUAGE;
+
+    // Check if this query should use database access (answers to a claim report never do)
+    if (accountTools && userId && db && !chatOptions.claimIntake?.inProgress && shouldUseDatabaseQuery(userQuery, userId)) {
+        console.log('[Sam] Using account data path');
+        reportProgress(onProgress, 'querying_database');
         try {
-            return await handleDatabaseQuery(userQuery, history, userId);
+            const prompts = new PromptTrace(userId);
+            const response = await handleDatabaseQuery(userQuery, history, userId, db, language, prompts);
+            notify('Prompts', onPrompts, prompts.toRecord());
+            return response;
         } catch (error) {
-            console.error('[Sam] MCP query failed, falling back to standard path:', error);
+            console.error('[Sam] Account data lookup failed, falling back to standard path:', error);
             // Fall through to standard handling
         }
     }
 
     // Use standard Sam handling
-    return handleSamChat(userQuery, history, userId);
+    return handleSamChat(userQuery, history, userId, { ...chatOptions, language });
 }
@@ -1,7 +1,16 @@
 // backend/agents/uri.ts
 import { SearchServiceClient } from '@google-cloud/discoveryengine';
-import { VertexAI } from '@google-cloud/vertexai';
 import dotenv from 'dotenv';
+import { getStatePromptContext } from '../services/state-regulations';
+import { getModelClient } from '../lib/model-registry';
+import { DEFAULT_LANGUAGE, Language } from '../lib/language';
+import { PromptTrace } from '../lib/prompt-registry';
+import {
+    CITATION_INSTRUCTIONS,
+    formatSourcesForPrompt,
+    knowledgeBaseCitations,
+    KnowledgeSnippet,
+} from '../services/citations';
 
 dotenv.config();
 
@@ -9,89 +18,116 @@ dotenv.config();
 const PROJECT_ID = process.env.GOOGLE_PROJECT_ID;
 const DATA_STORE_ID = process.env.GOOGLE_DATA_STORE_ID;
 
-if (!PROJECT_ID) {
-    console.error('❌ GOOGLE_PROJECT_ID environment variable is not set');
-    throw new Error('Missing GOOGLE_PROJECT_ID environment variable');
+/**
+ * Knowledge base lookup - returns snippets with the document they came from, best match first
+ */
+export type KnowledgeSearch = (query: string) => Promise<KnowledgeSnippet[]>;
+
+// Lazy initialization so importing Uri never requires Google credentials
+let _searchClient: SearchServiceClient | null = null;
+let knowledgeSearchOverride: KnowledgeSearch | null = null;
+
+function getSearchClient(): SearchServiceClient {
+    if (!_searchClient) {
+        // Google Search Client for GLOBAL location
+        _searchClient = new SearchServiceClient({
+            apiEndpoint: 'discoveryengine.googleapis.com',
+        });
+    }
+    return _searchClient;
 }
 
-// Initialize Google Search Client for GLOBAL location
-const searchClient = new SearchServiceClient({
-    apiEndpoint: 'discoveryengine.googleapis.com',
-});
+// Pull the best snippet (or extractive answer) and its document out of one search result
+function resultSnippet(result: any): KnowledgeSnippet | null {
+    const data = result.document?.derivedStructData as any;
+    const snippet =
+        data?.snippets?.[0]?.snippet ||
+        data?.extractive_answers?.[0]?.content;
+    if (!snippet) return null;
+
+    return {
+        documentId: result.document?.id || null,
+        title: data?.title || 'Insurance knowledge base',
+        uri: data?.link || null,
+        snippet: snippet.replace(/\n/g, " "),
+    };
+}
+
+/**
+ * Searches the Discovery Engine data store for the knowledge base snippets most relevant to a query
+ */
+export async function searchKnowledgeBase(query: string): Promise<KnowledgeSnippet[]> {
+    // Construct the serving config path directly (without collections)
+    const servingConfig = `projects/${PROJECT_ID}/locations/global/dataStores/${DATA_STORE_ID}/servingConfigs/default_config`;
+
+    const request = {
+        servingConfig,
+        query,
+        pageSize: 5, // Fetch top 5 most relevant snippets
+        queryExpansionSpec: { condition: 'AUTO' as const },
+        spellCorrectionSpec: { mode: 'AUTO' as const },
+        contentSearchSpec: {
+            snippetSpec: {
+                returnSnippet: true,
+            },
+            extractiveContentSpec: {
+                maxExtractiveAnswerCount: 3,
+            },
+        },
+    };
 
-// Initialize Vertex AI for US-CENTRAL1 with Gemini 2.5 Flash
-const vertexAI = new VertexAI({
-    project: PROJECT_ID,
-    location: 'us-central1',
-});
+    const [response] = await getSearchClient().search(request);
 
-const model = vertexAI.getGenerativeModel({
-    model: 'gemini-2.5-flash',
-});
+    // The response is either an array of results or an object with a results property
+    const results: any[] = Array.isArray(response)
+        ? response
+        : (response as any)?.results || [];
 
-export async function handleUriChat(userQuery: string, history: any[]) {
+    return results
+        .map(resultSnippet)
+        .filter((snippet): snippet is KnowledgeSnippet => Boolean(snippet));
+}
+
+// Uri's analysis stays in English for Rai; only errors go straight to the user
+const URI_ERRORS: Record<Language, { config: string; failed: string }> = {
+    en: {
+        config: "I am having trouble accessing the policy database. Please check server logs.",
+        failed: "I encountered an error while analyzing the policy. Please try again later.",
+    },
+    es: {
+        config: "Estoy teniendo problemas para consultar la información de pólizas. Por favor intente más tarde.",
+        failed: "Ocurrió un error al analizar la póliza. Por favor intente de nuevo más tarde.",
+    },
+};
+
+/**
+ * Replace the Discovery Engine search (used by evals and local harnesses); pass null to restore it
+ */
+export function setKnowledgeSearch(search: KnowledgeSearch | null): void {
+    knowledgeSearchOverride = search;
+}
+
+export async function handleUriChat(
+    userQuery: string,
+    history: any[],
+    options: { state?: string | null; memory?: string; language?: Language; prompts?: PromptTrace } = {}
+) {
+    const language = options.language || DEFAULT_LANGUAGE;
     try {
+        const searchOverride = knowledgeSearchOverride;
+
         // 1. Check if config is present
-        if (!PROJECT_ID || !DATA_STORE_ID) {
+        if (!searchOverride && (!PROJECT_ID || !DATA_STORE_ID)) {
             console.error("Missing Google Cloud Config (Project ID or Data Store ID)");
-            return "I am having trouble accessing the policy database. Please check server logs.";
+            return URI_ERRORS[language].config;
         }
 
         console.log(`\n🔍 Agent Uri: Searching for "${userQuery}"...`);
 
-        // 2. Build the Google Data Store Search Request
-        // Construct the serving config path directly (without collections)
-        const servingConfig = `projects/${PROJECT_ID}/locations/global/dataStores/${DATA_STORE_ID}/servingConfigs/default_config`;
-
-        const request = {
-            servingConfig,
-            query: userQuery,
-            pageSize: 5, // Fetch top 5 most relevant snippets
-            queryExpansionSpec: { condition: 'AUTO' as const },
-            spellCorrectionSpec: { mode: 'AUTO' as const },
-            contentSearchSpec: {
-                snippetSpec: {
-                    returnSnippet: true,
-                },
-                extractiveContentSpec: {
-                    maxExtractiveAnswerCount: 3,
-                },
-            },
-        };
-
-        // 3. Execute Search
-        const [response] = await searchClient.search(request);
-
-        // 4. Parse Results
-        let contextText = "";
-
-        if (response && Array.isArray(response)) {
-            // If response is an array of results
-            for (const result of response) {
-                const data = result.document?.derivedStructData as any;
-
-                const snippet =
-                    data?.snippets?.[0]?.snippet ||
-                    data?.extractive_answers?.[0]?.content;
-
-                if (snippet) {
-                    contextText += `- ${snippet.replace(/\n/g, " ")}\n`;
-                }
-            }
-        } else if (response && (response as any).results) {
-            // If response has a results property
-            for (const result of (response as any).results) {
-                const data = result.document?.derivedStructData as any;
-
-                const snippet =
-                    data?.snippets?.[0]?.snippet ||
-                    data?.extractive_answers?.[0]?.content;
-
-                if (snippet) {
-                    contextText += `- ${snippet.replace(/\n/g, " ")}\n`;
-                }
-            }
-        }
+        // 2. Search the knowledge base
+        const snippets = await (searchOverride || searchKnowledgeBase)(userQuery);
+        const sources = knowledgeBaseCitations(snippets);
+        let contextText = formatSourcesForPrompt(sources);
 
         if (!contextText) {
             console.log("⚠️ No relevant documents found.");
@@ -100,49 +136,32 @@ export async function handleUriChat(userQuery: string, history: any[]) {
 
         console.log(`✅ Found context (${contextText.length} chars)`);
 
-        // 5. Send to Gemini for Reasoning
-        console.log("🤖 Sending context to Gemini 2.5 Flash (us-central1)...");
-
-        const prompt = `You are Uri, an analytical and detail-oriented insurance expert focused on understanding coverages, assessing risks, and generating accurate quotes/recommendations for personal lines (auto and home). You work behind the scenes to provide precise, data-driven outputs based on user info from Sam.
-
-## Core Knowledge
-Draw from the policy database context for doctrines (e.g., proximate cause, subrogation), policy structures (e.g., PAP newly acquired auto logic, HO-3 coinsurance), state variations (e.g., PIP in no-fault states, valued policy laws in FL/TX/OH), and emerging risks (e.g., solar panels under Coverage B, TNC gaps).
-
-For coverage recommendations: Calculate TIE (TIE = Liquid + Real + Invested + Future Earnings - Exempt Assets), apply liability matrix (e.g., $500k CSL + $2-3M umbrella for $500k-$2M net worth), trigger umbrella for risk vectors (e.g., teen drivers, pools), detect underinsurance (compare Coverage A to RCV), recommend endorsements (e.g., water backup $10k-25k, ordinance/law 10-25%), and suggest UM/UIM/MedPay/Gap based on state mins and client needs.
-
-## Processing Guidelines
-- Receive summaries from Sam: Analyze user details (state, assets, family, risks) factually.
-- Perform assessments: Run TIE calc (factor state exemptions), coinsurance penalty if applicable, and gap analysis for endorsements. Recommend RCV over ACV always.
-- Generate quotes/recommendations: Structure output with Limits, endorsements, estimated premiums (disclaim as approx.), and rationale (e.g., "Based on your $1M net worth, recommend $2M umbrella to protect assets").
-- State compliance: Always check user state for mins (e.g., CA 30/60/15), mandates (e.g., earthquake offer in CA), and warnings (e.g., named storm deductibles in FL).
-- If incomplete info: Note what's needed for accurate analysis (e.g., "Need user's state and net worth for accurate TIE").
-- Compliance: Factual only—no inventions. Buffer limits for defense costs inside limits. Flag complex cases (e.g., commercial overlap) for human review.
-
-## Output Requirements (CRITICAL)
-- Keep responses concise but thorough - aim for 2-4 sentences unless detailed analysis is requested
-- Structure your response clearly: start with the direct answer, then supporting rationale
-- Use plain text (no markdown formatting) - your output will be reviewed by Rai and presented by Sam
-- Be accurate and cite specific coverage details when available from context
-- End with clear next steps or what additional info would improve the recommendation
-
-CONTEXT FROM POLICY DATABASE:
-${contextText}
+        // State rules from the regulatory dataset when the policy's state is known
+        const stateContext = getStatePromptContext(options.state);
+        if (stateContext) {
+            console.log(`🗺️ Uri: Applying ${options.state} state rules`);
+        }
 
-USER QUESTION: ${userQuery}
+        // 3. Send to the model for Reasoning
+        const model = getModelClient('uri');
+        console.log(`🤖 Sending context to ${model.model}...`);
 
-Provide your analysis for Rai's review:`;
+        const prompt = (options.prompts || new PromptTrace()).render('uri_analysis', {
+            query: userQuery,
+            context: contextText,
+            stateContext,
+            memory: options.memory || '',
+            language,
+            citationInstructions: sources.length > 0 ? CITATION_INSTRUCTIONS : '',
+        });
 
-        const result = await model.generateContent({
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
-            generationConfig: {
-                temperature: 0.3,
-                maxOutputTokens: 2048,
-            },
+        const result = await model.generate(prompt, {
+            temperature: 0.3,
+            maxOutputTokens: 2048,
         });
 
-        const candidate = result.response.candidates?.[0];
-        const finishReason = candidate?.finishReason;
-        const answer = candidate?.content?.parts?.[0]?.text || "I couldn't generate a response.";
+        const finishReason = result.finishReason;
+        const answer = result.text || "I couldn't generate a response.";
 
         if (finishReason && finishReason !== 'STOP') {
             console.warn(`⚠️ [Uri] Generation stopped with reason: ${finishReason}`);
@@ -152,11 +171,12 @@ Provide your analysis for Rai's review:`;
         // RETURN AN OBJECT (required for Rai's review)
         return {
             answer: answer,
-            context: contextText
+            context: contextText,
+            sources
         };
 
     } catch (error) {
         console.error("❌ Error in Agent Uri:", error);
-        return "I encountered an error while analyzing the policy. Please try again later.";
+        return URI_ERRORS[language].failed;
     }
 }
@@ -0,0 +1,257 @@
+// backend/evals/golden-conversations.ts
+// Golden conversations replayed through handleSamChat - with and without uploaded policies
+
+import { PolicyType, StoredPolicy } from '../services/policy-store';
+import type { KnowledgeSnippet } from '../services/citations';
+import type { Intent } from '../agents/intent';
+import type { RaiIssue, RaiVerdict } from '../agents/rai';
+import { PipelineStage, ScriptedReplies } from './models';
+
+export interface GoldenConversation {
+    id: string;
+    description: string;
+    query: string;
+    history?: Array<{ role: 'user' | 'assistant'; content: string }>;
+    /** Policies on file for the eval user before the question is asked */
+    policies?: StoredPolicy[];
+    /** Knowledge base snippets Uri sees in fake mode */
+    knowledge?: KnowledgeSnippet[];
+    /** Fake-mode replies per pipeline stage (unscripted stages get neutral defaults) */
+    replies?: ScriptedReplies;
+    expect: {
+        /** Sam should ask for a policy upload ([UPLOAD_POLICY] marker) */
+        uploadPrompt?: boolean;
+        /** Stages that must run, in any order */
+        stages?: PipelineStage[];
+        /** Policy facts the answer must state, matched case-insensitively */
+        cites?: string[];
+        /** Footnote titles that must come back with the answer, matched case-insensitively */
+        sources?: string[];
+        /** Rai's verdict on Uri's draft */
+        verdict?: RaiVerdict;
+    };
+}
+
+// ============================================
+// Policy fixtures
+// ============================================
+
+const AUTO_POLICY: StoredPolicy = {
+    policyType: 'auto',
+    carrier: 'Progressive',
+    analysis: 'Progressive personal auto policy for a 2021 Honda Civic in Texas. Liability 100/300/100 ($100,000 per person, $300,000 per accident, $100,000 property damage). Collision deductible $500, comprehensive deductible $250. Uninsured motorist 100/300. No rental reimbursement.',
+    rawData: {
+        fileName: 'progressive-declarations.pdf',
+        policyType: 'auto',
+        carrier: 'Progressive',
+        documentType: 'pdf',
+        extractedText: 'PROGRESSIVE COUNTY MUTUAL - DECLARATIONS. Policy period 03/01/2026 - 09/01/2026. 2021 HONDA CIVIC. Bodily Injury $100,000 each person / $300,000 each accident. Property Damage $100,000. Collision $500 deductible. Comprehensive $250 deductible. Uninsured/Underinsured Motorist BI $100,000/$300,000. Six month premium $742.',
+    },
+    timestamp: Date.parse('2026-03-01T00:00:00Z'),
+};
+
+const HOME_POLICY: StoredPolicy = {
+    policyType: 'home',
+    carrier: 'State Farm',
+    analysis: 'State Farm HO-3 homeowners policy. Dwelling (Coverage A) $350,000 replacement cost, other structures $35,000, personal property $175,000, loss of use $70,000. Personal liability $300,000, medical payments $5,000. All perils deductible $1,000, wind/hail deductible 1%.',
+    rawData: {
+        fileName: 'state-farm-ho3.pdf',
+        policyType: 'home',
+        carrier: 'State Farm',
+        documentType: 'pdf',
+        extractedText: 'STATE FARM HOMEOWNERS POLICY HO-3. Coverage A Dwelling $350,000. Coverage B Other Structures $35,000. Coverage C Personal Property $175,000. Coverage D Loss of Use $70,000. Coverage L Personal Liability $300,000. Coverage M Medical Payments $5,000. Deductible All Perils $1,000. Wind/Hail 1%. Annual premium $2,180.',
+    },
+    timestamp: Date.parse('2026-01-15T00:00:00Z'),
+};
+
+// Scripted classifier output for a case
+function classified(intent: Intent, policyTypes: PolicyType[], needsUserData: boolean, referencesPolicyOnFile = false): string {
+    return JSON.stringify({ intent, policyTypes, needsUserData, referencesPolicyOnFile, confidence: 0.9 });
+}
+
+// Scripted Rai verdict for a case
+function reviewed(verdict: RaiVerdict, finalAnswer: string, issues: RaiIssue[] = []): string {
+    return JSON.stringify({ verdict, issues, finalAnswer });
+}
+
+// Knowledge base hit as Discovery Engine would return it
+function kb(title: string, snippet: string): KnowledgeSnippet {
+    return { documentId: title.toLowerCase().replace(/[^a-z0-9]+/g, '-'), title, uri: null, snippet };
+}
+
+const UMBRELLA_KNOWLEDGE = [
+    kb('AI KB Core Concepts.pdf', 'Umbrella (personal excess liability) insurance provides additional liability limits above the underlying auto and homeowners policies, typically in $1M increments.'),
+    kb('Coverage Recommendation Guide.pdf', 'Carriers usually require minimum underlying limits such as 250/500 auto liability and $300,000 homeowners liability before writing an umbrella.'),
+];
+
+const ACV_KNOWLEDGE = [
+    kb('AI KB Core Concepts.pdf', 'Actual Cash Value (ACV) is replacement cost minus depreciation. Replacement Cost Value (RCV) pays to replace the item with new property of like kind and quality.'),
+];
+
+// ============================================
+// Corpus
+// ============================================
+
+export const GOLDEN_CONVERSATIONS: GoldenConversation[] = [
+    {
+        id: 'greeting',
+        description: 'Bare greeting takes the canned fast path',
+        query: 'hi',
+        expect: { uploadPrompt: false },
+    },
+    {
+        id: 'education-umbrella',
+        description: 'General education question runs the Uri -> Rai -> Sam chain',
+        query: 'What is umbrella insurance?',
+        knowledge: UMBRELLA_KNOWLEDGE,
+        replies: {
+            intent: classified('insurance_education', ['umbrella'], false),
+            uri: 'Umbrella insurance adds **extra liability limits** on top of auto and home policies, usually sold in $1M layers [1]. Carriers typically require 250/500 auto liability underneath [2].',
+            rai: reviewed('approved', 'Umbrella insurance adds extra liability limits on top of your auto and home policies, usually in $1M layers [1], and carriers typically require 250/500 auto liability underneath it [2].'),
+            present: 'Think of an **umbrella** as a raincoat over your auto and home liability: it adds extra limits, usually in $1M layers [1], once your underlying policies meet the carrier minimums like 250/500 on auto [2]. Would you like help figuring out whether one makes sense for you?',
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'uri', 'rai', 'present'], sources: ['AI KB Core Concepts.pdf', 'Coverage Recommendation Guide.pdf'], verdict: 'approved' },
+    },
+    {
+        id: 'education-acv-vs-rcv',
+        description: 'Concept comparison is analysed by Uri and reviewed by Rai',
+        query: "What's the difference between replacement cost and actual cash value?",
+        knowledge: ACV_KNOWLEDGE,
+        replies: {
+            intent: classified('insurance_education', ['home'], false),
+            uri: 'ACV is replacement cost minus depreciation; RCV pays for new property of like kind and quality.',
+            rai: reviewed('corrected', 'ACV is replacement cost minus depreciation, while RCV pays to replace the item with new property of like kind and quality.', [
+                { category: 'missing_info', description: 'Draft did not say which option most homeowners policies use by default.' },
+            ]),
+            present: "Actual cash value is like getting paid for a used TV, while replacement cost is designed to buy you a new one. Replacement cost usually costs a bit more but is worth it for most homeowners. Want me to look at which one your policy uses?",
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'uri', 'rai', 'present'], verdict: 'corrected' },
+    },
+    {
+        id: 'direct-deductible',
+        description: 'Simple concept question is answered by Sam directly',
+        query: 'How does a deductible work?',
+        replies: {
+            intent: classified('small_talk', [], false),
+            direct: "A deductible is the part of a covered claim you pay before your insurance kicks in. For example, with a $500 deductible on a $3,000 repair, your policy is designed to pay the remaining $2,500. Anything else you'd like to know?",
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'direct'] },
+    },
+    {
+        id: 'handoff-request',
+        description: 'Asking for a person goes to the licensed agent handoff with no further model calls',
+        query: 'Can I talk to a real person about my claim?',
+        replies: {
+            intent: classified('human_handoff', [], false),
+        },
+        expect: { uploadPrompt: false, stages: ['intent'] },
+    },
+    {
+        id: 'claim-report-signed-out',
+        description: 'Reporting a loss outside a saved chat gets general next steps instead of the guided claim intake',
+        query: 'Someone rear-ended me on the highway this morning, what do I do?',
+        knowledge: [kb('AI KB Claims Guide.pdf', 'After an accident, make sure everyone is safe, call 911 if anyone is hurt, exchange information with the other driver, take photos of the scene and notify your insurer promptly.')],
+        replies: {
+            intent: classified('claim_report', ['auto'], false),
+            uri: 'Make sure everyone is safe and call 911 if anyone is hurt, exchange information with the other driver, photograph the scene and notify the insurer promptly [1].',
+            rai: reviewed('approved', 'First make sure everyone is safe and call 911 if anyone is hurt. Then exchange information with the other driver, take photos of the scene and notify your insurer promptly [1].'),
+            present: "I'm sorry that happened! First make sure everyone is safe, and call 911 if anyone is hurt. Then exchange information with the other driver, take photos of the scene and let your insurer know promptly [1]. If you sign in, I can walk you through the full claim report.",
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'uri', 'rai', 'present'], verdict: 'approved' },
+    },
+    {
+        id: 'no-policy-personal-question',
+        description: 'Personal policy question with nothing on file asks for an upload',
+        query: 'What is my collision deductible?',
+        replies: {
+            intent: classified('policy_question', ['auto'], true),
+            upload_prompt: "I'd love to check that for you! Could you upload a photo of your insurance card, your declarations page, or your policy PDF?",
+        },
+        expect: { uploadPrompt: true, stages: ['intent', 'upload_prompt'] },
+    },
+    {
+        id: 'auto-deductibles',
+        description: 'Deductible question answered from the uploaded auto policy',
+        query: 'What are my deductibles on my auto policy?',
+        policies: [AUTO_POLICY],
+        replies: {
+            intent: classified('policy_question', ['auto'], true),
+            policy_answer: 'On your **Progressive** auto policy, your collision deductible is $500 and your comprehensive deductible is $250. Would you like to see how raising them could change your premium?',
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'policy_answer'], cites: ['Progressive', '$500', '$250'] },
+    },
+    {
+        id: 'auto-liability-limits',
+        description: 'Liability limits are quoted from the policy, not invented',
+        query: 'What are my liability limits on my car insurance?',
+        policies: [AUTO_POLICY, HOME_POLICY],
+        replies: {
+            intent: classified('policy_question', ['auto'], true),
+            policy_answer: 'Your Progressive policy carries 100/300/100 liability: $100,000 per person and $300,000 per accident for bodily injury, plus $100,000 for property damage. Do you want to talk through whether that is enough for your situation?',
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'policy_answer'], cites: ['$100,000', '$300,000'] },
+    },
+    {
+        id: 'output-policies',
+        description: 'Guarantee wording, agent names and infrastructure details are rewritten before the user sees them',
+        query: 'Does my auto policy cover a rental car after an accident?',
+        policies: [AUTO_POLICY],
+        replies: {
+            intent: classified('policy_question', ['auto'], true),
+            policy_answer: 'According to Uri, your **Progressive** policy will cover damage to your car after the $500 collision deductible. I pulled this from the Supabase database. Your policy has no rental reimbursement, so a rental car would be out of pocket. Would you like to know how to add it?',
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'policy_answer'], cites: ['Progressive', 'designed to cover', 'rental reimbursement'] },
+    },
+    {
+        id: 'industry-terms-kept',
+        description: 'Ordinary insurance sentences about databases survive; our own tool names do not',
+        query: 'Why did my auto quote go up after my claim last year?',
+        policies: [AUTO_POLICY],
+        replies: {
+            intent: classified('policy_question', ['auto'], true),
+            policy_answer: 'Your claims history is in the CLUE database, which insurers check when they quote you. I checked get_coverage_limits for your policy. An at-fault claim usually affects your rate for three to five years. Would you like to compare quotes from other carriers?',
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'policy_answer'], cites: ['CLUE database', 'three to five years'] },
+    },
+    {
+        id: 'existing-home-policy',
+        description: 'User points at the policy on file',
+        query: 'Use the one I have on file - what is my dwelling coverage on my home?',
+        policies: [HOME_POLICY],
+        replies: {
+            intent: classified('policy_question', ['home'], true, true),
+            policy_answer: 'Your State Farm HO-3 policy has $350,000 of dwelling coverage on a replacement cost basis, with a $1,000 all perils deductible [1]. Would you like me to check whether that keeps up with rebuilding costs in your area?',
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'policy_answer'], cites: ['State Farm', '$350,000'], sources: ['State Farm home policy'] },
+    },
+    {
+        id: 'wrong-policy-type',
+        description: 'Home policy on file but the question is about auto',
+        query: 'Does my auto policy cover rental cars?',
+        policies: [HOME_POLICY],
+        replies: {
+            intent: classified('policy_question', ['auto'], true),
+            specific_upload_prompt: "I have your homeowners policy on file, but I'll need your auto policy to check rental car coverage. Could you upload it?",
+        },
+        expect: { uploadPrompt: true, stages: ['intent', 'specific_upload_prompt'] },
+    },
+    {
+        id: 'declined-upload',
+        description: 'User declines the upload prompt and gets general help',
+        query: "No thanks, I don't have it handy - just tell me generally what comprehensive covers",
+        history: [
+            { role: 'user', content: 'Am I covered if a tree falls on my car?' },
+            { role: 'assistant', content: 'Could you upload your auto policy so I can check?\n\n[UPLOAD_POLICY]' },
+        ],
+        knowledge: [kb('AI KB Core Concepts.pdf', 'Comprehensive (other than collision) coverage pays for damage to your vehicle from causes such as theft, fire, falling objects, hail, flood and animal strikes, subject to the deductible.')],
+        replies: {
+            intent: classified('insurance_education', ['auto'], false),
+            uri: 'Comprehensive covers non-collision losses such as theft, fire, falling objects, hail, flood and animal strikes, subject to a deductible.',
+            rai: reviewed('corrected', 'Comprehensive coverage is designed to pay for non-collision damage such as theft, fire, falling objects like trees, hail, flood and animal strikes, after your deductible.', [
+                { category: 'compliance_language', description: 'Draft said comprehensive "covers" losses without the deductible caveat.' },
+            ]),
+            present: 'No problem! Comprehensive coverage is designed to pay for damage that is not from a collision, like a fallen tree, hail, theft or hitting a deer, after your deductible. Whenever you have your policy handy, I can confirm your exact deductible.',
+        },
+        expect: { uploadPrompt: false, stages: ['intent', 'uri', 'rai', 'present'], verdict: 'corrected' },
+    },
+];
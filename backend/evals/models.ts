@@ -0,0 +1,202 @@
+// backend/evals/models.ts
+// Model plumbing for the agent evals: stage tracing, scripted fakes and eval recordings
+
+import fs from 'fs';
+import path from 'path';
+import {
+    FakeResponder,
+    GenerateOptions,
+    ModelClient,
+    ModelMessage,
+    ModelRecording,
+    ModelRequest,
+    ModelResponse,
+    requestPromptText,
+    toMessages,
+    ToolDeclaration,
+} from '../lib/model-client';
+import type { ModelPurpose } from '../lib/model-registry';
+import type { KnowledgeSearch } from '../agents/uri';
+import type { KnowledgeSnippet } from '../services/citations';
+
+export type AgentName = Extract<ModelPurpose, 'sam' | 'intent' | 'uri' | 'rai'>;
+
+// ============================================
+// Call tracing
+// ============================================
+
+/**
+ * Which prompt of the pipeline a model call belongs to - recognised from the prompt text
+ */
+export type PipelineStage =
+    | 'intent'
+    | 'upload_prompt'
+    | 'specific_upload_prompt'
+    | 'policy_answer'
+    | 'direct'
+    | 'uri'
+    | 'rai'
+    | 'present'
+    | 'unknown';
+
+// First match wins - prompts that embed other agents' output are checked before the agents themselves
+const STAGE_MARKERS: Array<[PipelineStage, string]> = [
+    ['intent', 'You are the routing classifier'],
+    ['present', 'Present this insurance analysis in your voice'],
+    ['policy_answer', "CUSTOMER'S POLICY ANALYSIS:"],
+    ['direct', 'Respond briefly and naturally:'],
+    ['specific_upload_prompt', "but they've only uploaded their"],
+    ['upload_prompt', "they haven't uploaded any documents yet"],
+    ['rai', 'You are Rai,'],
+    ['uri', 'You are Uri,'],
+];
+
+export function detectStage(request: ModelRequest): PipelineStage {
+    const text = requestPromptText(request);
+    const match = STAGE_MARKERS.find(([, marker]) => text.includes(marker));
+    return match ? match[0] : 'unknown';
+}
+
+export interface ModelCall {
+    agent: AgentName;
+    stage: PipelineStage;
+    error?: string;
+}
+
+/**
+ * Collects every model call made while one golden conversation runs
+ */
+export class CallTrace {
+    readonly calls: ModelCall[] = [];
+
+    record(call: ModelCall): void {
+        this.calls.push(call);
+    }
+
+    get stages(): PipelineStage[] {
+        return this.calls.map(call => call.stage);
+    }
+
+    get errors(): string[] {
+        return this.calls.filter(call => call.error).map(call => `${call.agent}/${call.stage}: ${call.error}`);
+    }
+
+    reset(): void {
+        this.calls.length = 0;
+    }
+}
+
+/**
+ * Wraps an agent's client so every call lands in the trace. The agents swallow model errors
+ * into friendly fallbacks, so the trace is the only place a failed call shows up.
+ */
+export class TracingModelClient implements ModelClient {
+    constructor(
+        private readonly agent: AgentName,
+        private readonly inner: ModelClient,
+        private readonly trace: CallTrace
+    ) {}
+
+    get model(): string {
+        return this.inner.model;
+    }
+
+    generate(input: string | ModelMessage[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        const messages = toMessages(input);
+        return this.traced({ model: this.model, messages, tools: [], options }, () => this.inner.generate(messages, options));
+    }
+
+    generateWithTools(messages: ModelMessage[], tools: ToolDeclaration[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.traced({ model: this.model, messages, tools, options }, () => this.inner.generateWithTools(messages, tools, options));
+    }
+
+    private async traced(request: ModelRequest, call: () => Promise<ModelResponse>): Promise<ModelResponse> {
+        const stage = detectStage(request);
+        try {
+            const response = await call();
+            this.trace.record({ agent: this.agent, stage });
+            return response;
+        } catch (error) {
+            this.trace.record({ agent: this.agent, stage, error: error instanceof Error ? error.message : String(error) });
+            throw error;
+        }
+    }
+}
+
+// ============================================
+// Scripted fake (default, fully offline)
+// ============================================
+
+export type ScriptedReplies = Partial<Record<PipelineStage, string>>;
+
+// An unscripted classification is small talk, so the case takes Sam's simplest path
+const DEFAULT_REPLIES: Record<Exclude<PipelineStage, 'unknown'>, string> = {
+    intent: JSON.stringify({ intent: 'small_talk', policyTypes: [], needsUserData: false, referencesPolicyOnFile: false, confidence: 1 }),
+    upload_prompt: 'Please upload your insurance card, declarations page or policy PDF so I can review your coverage.',
+    specific_upload_prompt: "I'll need that policy uploaded before I can answer that one.",
+    policy_answer: 'I have your policy on file. What would you like to know about it?',
+    direct: 'Happy to help. What would you like to know?',
+    uri: 'General insurance explanation based on the knowledge base context.',
+    rai: JSON.stringify({ verdict: 'approved', issues: [], finalAnswer: 'General insurance explanation based on the knowledge base context.' }),
+    present: 'Here is what that means for you. What else can I help with?',
+};
+
+/**
+ * Answers each pipeline stage with the current golden conversation's scripted reply
+ */
+export function scriptedResponder(replies: () => ScriptedReplies): FakeResponder {
+    return request => {
+        const stage = detectStage(request);
+        if (stage === 'unknown') {
+            throw new Error('Unrecognised prompt - add a stage marker for it');
+        }
+        return replies()[stage] ?? DEFAULT_REPLIES[stage];
+    };
+}
+
+// ============================================
+// Eval recordings (model responses + knowledge searches)
+// ============================================
+
+export interface EvalRecording {
+    version: 1;
+    recordedAt: string;
+    models: ModelRecording;
+    searches: Record<string, KnowledgeSnippet[]>;
+}
+
+export function emptyEvalRecording(): EvalRecording {
+    return { version: 1, recordedAt: new Date().toISOString(), models: { version: 1, responses: {} }, searches: {} };
+}
+
+export function loadEvalRecording(file: string): EvalRecording {
+    const recording = JSON.parse(fs.readFileSync(file, 'utf8')) as EvalRecording;
+    if (recording.version !== 1) {
+        throw new Error(`Unsupported recording version in ${file}`);
+    }
+    return recording;
+}
+
+export function saveEvalRecording(file: string, recording: EvalRecording): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ ...recording, recordedAt: new Date().toISOString() }, null, 2) + '\n');
+}
+
+export function recordingSearch(live: KnowledgeSearch, recording: EvalRecording): KnowledgeSearch {
+    return async (query: string) => {
+        const snippets = await live(query);
+        recording.searches[query] = snippets;
+        return snippets;
+    };
+}
+
+export function replaySearch(recording: EvalRecording, trace: CallTrace): KnowledgeSearch {
+    return async (query: string) => {
+        const snippets = recording.searches[query];
+        if (!snippets) {
+            trace.record({ agent: 'uri', stage: 'uri', error: `No recorded knowledge search for "${query}"` });
+            return [];
+        }
+        return snippets;
+    };
+}
@@ -0,0 +1,163 @@
+// backend/evals/run-audit-evals.ts
+// Runs fixed households through runProtectionAudit and checks what formatAuditForPrompt tells
+// the agents - fully offline, no database or model needed
+//
+//   npm run eval:audit
+//   npm run eval:audit -- --verbose    print the prompt block for every case
+
+import type { AuditPolicy, ProfileFacts } from '../services/protection-audit';
+
+interface AuditCase {
+    id: string;
+    description: string;
+    policies: AuditPolicy[];
+    facts?: ProfileFacts;
+    expect: {
+        /** Rule ids that must be among the findings */
+        findings?: string[];
+        /** Text the prompt block must contain, matched case-insensitively */
+        says?: string[];
+        /** Text the prompt block must not contain, matched case-insensitively */
+        neverSays?: string[];
+    };
+}
+
+const NO_GAPS = 'no coverage gaps found';
+
+// Auto policy read from a declarations page
+function structuredAuto(coverages: Array<[string, number | null]>): AuditPolicy {
+    return {
+        policyId: 1,
+        policyType: 'auto',
+        carrier: 'Progressive',
+        policyNumber: 'PA-100',
+        state: 'TX',
+        coverages: coverages.map(([label, limit]) => ({ key: null, label, limit, deductible: null })),
+        drivers: [],
+        structured: true,
+    };
+}
+
+// Policy known only from an uploaded document, with no coverages extracted
+function unstructured(policyType: string, carrier: string): AuditPolicy {
+    return { policyType, carrier, policyNumber: null, state: null, coverages: [], drivers: [], structured: false };
+}
+
+const AUDIT_CASES: AuditCase[] = [
+    {
+        id: 'no-policies',
+        description: 'Nothing on file is reported as not audited, never as no gaps',
+        policies: [],
+        expect: { findings: ['no_policies_on_file'], says: ['no policies on file'], neverSays: [NO_GAPS] },
+    },
+    {
+        id: 'unstructured-only',
+        description: 'Documents with no readable limits are reported as limits unknown',
+        policies: [unstructured('auto', 'Geico')],
+        expect: { findings: ['no_structured_data'], says: ['limits unknown for the auto policy'], neverSays: [NO_GAPS] },
+    },
+    {
+        id: 'structured-clean',
+        description: 'A fully read policy with nothing missing is the only case reported as no gaps',
+        policies: [structuredAuto([
+            ['Bodily Injury', 250_000], ['Property Damage', 100_000], ['Uninsured Motorist', 250_000], ['Medical Payments', 5_000],
+        ])],
+        facts: { state: 'TX', netWorth: 100_000 },
+        expect: { says: ['no coverage gaps found in the policies on file'], neverSays: ['limits unknown'] },
+    },
+    {
+        id: 'structured-gap',
+        description: 'A structured policy missing UM/UIM is reported with its computed finding',
+        policies: [structuredAuto([['Bodily Injury', 100_000], ['Property Damage', 100_000], ['Medical Payments', 5_000]])],
+        facts: { state: 'TX', netWorth: 100_000 },
+        expect: { findings: ['missing_um_uim'], says: ['[HIGH] No uninsured/underinsured motorist coverage'], neverSays: ['limits unknown'] },
+    },
+    {
+        id: 'split-limit-below-per-accident-minimum',
+        description: 'A 30/50 split limit meets the California per-person minimum but not the $60,000 per accident',
+        policies: [structuredAuto([
+            ['Bodily Injury Liability per person', 30_000], ['Bodily Injury Liability per accident', 50_000],
+            ['Property Damage Liability', 15_000], ['Uninsured Motorist per person', 30_000], ['Medical Payments', 5_000],
+        ])],
+        facts: { state: 'CA' },
+        expect: { findings: ['below_state_minimum'], says: ['liability of $50k per accident'], neverSays: ['$30k per person and $50k'] },
+    },
+    {
+        id: 'mixed-structured-and-unread',
+        description: 'Findings for the readable policy come with a limits unknown line for the other',
+        policies: [
+            structuredAuto([['Bodily Injury', 100_000], ['Property Damage', 100_000], ['Medical Payments', 5_000]]),
+            unstructured('home', 'State Farm'),
+        ],
+        facts: { state: 'TX', netWorth: 100_000 },
+        expect: { findings: ['missing_um_uim'], says: ['limits unknown for the home policy'], neverSays: [NO_GAPS] },
+    },
+];
+
+async function main() {
+    const verbose = process.argv.includes('--verbose');
+
+    // lib/supabase validates its environment at load time; these cases never reach it
+    process.env.SUPABASE_URL ??= 'http://127.0.0.1:9';
+    process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'eval-offline';
+    process.env.SUPABASE_PUBLISHABLE_KEY ??= 'eval-offline';
+
+    const { formatAuditForPrompt, normalizeCoverageType, runProtectionAudit } = await import('../services/protection-audit');
+
+    console.log('\n========================================');
+    console.log('  SAMURAI INSURANCE - PROTECTION AUDIT EVALS');
+    console.log('========================================');
+    console.log(`  Cases: ${AUDIT_CASES.length}`);
+    console.log('----------------------------------------\n');
+
+    let failed = 0;
+    for (const testCase of AUDIT_CASES) {
+        const policies = testCase.policies.map(policy => ({
+            ...policy,
+            coverages: policy.coverages.map(coverage => ({ ...coverage, key: normalizeCoverageType(coverage.label) })),
+        }));
+        const report = runProtectionAudit({ policies, facts: testCase.facts || {} });
+        const prompt = formatAuditForPrompt(report);
+        const lower = prompt.toLowerCase();
+
+        const problems: string[] = [];
+        const ruleIds = report.findings.map(f => f.ruleId);
+        for (const ruleId of testCase.expect.findings || []) {
+            if (!ruleIds.includes(ruleId)) problems.push(`missing finding ${ruleId} (got ${ruleIds.join(', ') || 'none'})`);
+        }
+        for (const text of testCase.expect.says || []) {
+            if (!lower.includes(text.toLowerCase())) problems.push(`prompt does not say "${text}"`);
+        }
+        for (const text of testCase.expect.neverSays || []) {
+            if (lower.includes(text.toLowerCase())) problems.push(`prompt says "${text}"`);
+        }
+
+        if (problems.length > 0) failed++;
+        const label = problems.length === 0 ? '\x1b[32m  [PASS]\x1b[0m' : '\x1b[31m  [FAIL]\x1b[0m';
+        console.log(`${label} ${testCase.id} - ${testCase.description}`);
+        for (const problem of problems) {
+            console.log(`         ${problem}`);
+        }
+        if (problems.length > 0 || verbose) {
+            console.log(`         Prompt: ${prompt.replace(/\s+/g, ' ')}`);
+        }
+    }
+
+    console.log('\n----------------------------------------');
+    console.log('  SUMMARY');
+    console.log('----------------------------------------');
+    console.log(`  Total:  ${AUDIT_CASES.length}`);
+    console.log(`  Passed: \x1b[32m${AUDIT_CASES.length - failed}\x1b[0m`);
+    console.log(`  Failed: \x1b[31m${failed}\x1b[0m`);
+    console.log('\n========================================\n');
+
+    if (failed > 0) {
+        console.log('\x1b[31mPROTECTION AUDIT EVALS FAILED\x1b[0m\n');
+        process.exit(1);
+    }
+
+    console.log('\x1b[32mPROTECTION AUDIT EVALS PASSED\x1b[0m\n');
+    process.exit(0);
+}
+
+main();
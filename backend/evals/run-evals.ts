@@ -0,0 +1,274 @@
+// backend/evals/run-evals.ts
+// Replays the golden conversations through handleSamChat and scores every reply
+//
+//   npm run eval:agents                          scripted fake model, fully offline (default)
+//   npm run eval:agents -- --mode replay         responses recorded from a previous live run
+//   npm run eval:agents -- --mode live --record  real Vertex + Discovery Engine, saving a new recording
+//
+// Other flags: --case <id> (repeatable), --recording <file>, --json <file>, --verbose
+
+import path from 'path';
+import fs from 'fs';
+import { FakeModelClient, ModelClient, RecordedModelClient } from '../lib/model-client';
+import { GOLDEN_CONVERSATIONS, GoldenConversation } from './golden-conversations';
+import {
+    AgentName,
+    CallTrace,
+    emptyEvalRecording,
+    loadEvalRecording,
+    recordingSearch,
+    replaySearch,
+    saveEvalRecording,
+    scriptedResponder,
+    ScriptedReplies,
+    TracingModelClient,
+} from './models';
+import { scoreResponse, ScoreResult } from './scorers';
+import type { Citation } from '../services/citations';
+import type { RaiReview } from '../agents/rai';
+
+type EvalMode = 'fake' | 'replay' | 'live';
+
+interface EvalOptions {
+    mode: EvalMode;
+    record: boolean;
+    recordingFile: string;
+    caseIds: string[];
+    jsonFile: string | null;
+    verbose: boolean;
+}
+
+interface ConversationResult {
+    id: string;
+    description: string;
+    passed: boolean;
+    durationMs: number;
+    response: string;
+    stages: string[];
+    citations: Citation[];
+    review: RaiReview | null;
+    scores: ScoreResult[];
+}
+
+const DEFAULT_RECORDING = path.join(__dirname, 'recordings', 'golden-conversations.json');
+
+// Auth id the golden policies are stored under - never matches a real user
+const EVAL_USER_ID = '00000000-0000-4000-8000-00000000e7a1';
+
+const AGENTS: AgentName[] = ['sam', 'intent', 'uri', 'rai'];
+
+function parseArgs(argv: string[]): EvalOptions {
+    const options: EvalOptions = {
+        mode: 'fake',
+        record: false,
+        recordingFile: DEFAULT_RECORDING,
+        caseIds: [],
+        jsonFile: null,
+        verbose: false,
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--mode': {
+                const mode = argv[++i];
+                if (mode !== 'fake' && mode !== 'replay' && mode !== 'live') {
+                    throw new Error(`Unknown mode "${mode}" (expected fake, replay or live)`);
+                }
+                options.mode = mode;
+                break;
+            }
+            case '--record':
+                options.record = true;
+                break;
+            case '--recording':
+                options.recordingFile = path.resolve(argv[++i]);
+                break;
+            case '--case':
+                options.caseIds.push(argv[++i]);
+                break;
+            case '--json':
+                options.jsonFile = path.resolve(argv[++i]);
+                break;
+            case '--verbose':
+                options.verbose = true;
+                break;
+            default:
+                throw new Error(`Unknown argument "${arg}"`);
+        }
+    }
+
+    if (options.record && options.mode !== 'live') {
+        throw new Error('--record only makes sense with --mode live');
+    }
+    return options;
+}
+
+// The agents log every step; keep the report readable unless --verbose
+async function quietly<T>(verbose: boolean, fn: () => Promise<T>): Promise<T> {
+    if (verbose) return fn();
+
+    const { log, warn, error } = console;
+    console.log = console.warn = console.error = () => {};
+    try {
+        return await fn();
+    } finally {
+        Object.assign(console, { log, warn, error });
+    }
+}
+
+function printResult(result: ConversationResult): void {
+    const label = result.passed ? '\x1b[32m  [PASS]\x1b[0m' : '\x1b[31m  [FAIL]\x1b[0m';
+    console.log(`${label} ${result.id} (${result.durationMs}ms) - ${result.description}`);
+
+    for (const score of result.scores.filter(s => !s.passed)) {
+        console.log(`         ${score.rule}: ${score.detail}`);
+    }
+    if (!result.passed) {
+        console.log(`         Response: ${result.response.replace(/\s+/g, ' ').slice(0, 300)}`);
+    }
+}
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+
+    // Offline modes never reach Supabase or Google - grounding lookups fail fast and are skipped,
+    // exactly as they are in production when the audit or state lookup is unavailable
+    if (options.mode !== 'live') {
+        process.env.SUPABASE_URL ??= 'http://127.0.0.1:9';
+        process.env.SUPABASE_SERVICE_ROLE_KEY ??= 'eval-offline';
+        process.env.SUPABASE_PUBLISHABLE_KEY ??= 'eval-offline';
+    }
+
+    // Imported after the environment is settled - lib/supabase validates it at load time
+    const { handleSamChat } = await import('../agents/sam');
+    const { searchKnowledgeBase, setKnowledgeSearch } = await import('../agents/uri');
+    const { getModelClient, getModelName, setModelClient } = await import('../lib/model-registry');
+    const { InMemoryPolicyStore, setPolicyStore } = await import('../services/policy-store');
+
+    const conversations = options.caseIds.length > 0
+        ? GOLDEN_CONVERSATIONS.filter(c => options.caseIds.includes(c.id))
+        : GOLDEN_CONVERSATIONS;
+    if (conversations.length === 0) {
+        throw new Error(`No golden conversations match ${options.caseIds.join(', ')}`);
+    }
+
+    const trace = new CallTrace();
+    const recording = options.mode === 'replay' ? loadEvalRecording(options.recordingFile) : emptyEvalRecording();
+    let current: GoldenConversation = conversations[0];
+    const replies = (): ScriptedReplies => current.replies || {};
+
+    for (const agent of AGENTS) {
+        let client: ModelClient;
+        if (options.mode === 'fake') {
+            client = new FakeModelClient(getModelName(agent), scriptedResponder(replies));
+        } else if (options.mode === 'replay') {
+            client = new RecordedModelClient(recording.models, null, { model: getModelName(agent) });
+        } else {
+            // Live calls go through the configured client and are always recorded; --record decides whether the file is written
+            client = new RecordedModelClient(recording.models, getModelClient(agent));
+        }
+        setModelClient(agent, new TracingModelClient(agent, client, trace));
+    }
+
+    if (options.mode === 'fake') {
+        setKnowledgeSearch(async () => current.knowledge || []);
+    } else if (options.mode === 'replay') {
+        setKnowledgeSearch(replaySearch(recording, trace));
+    } else {
+        setKnowledgeSearch(recordingSearch(searchKnowledgeBase, recording));
+    }
+
+    console.log('\n========================================');
+    console.log('  SAMURAI INSURANCE - AGENT EVALS');
+    console.log('========================================');
+    console.log(`  Mode:          ${options.mode}${options.record ? ' (recording)' : ''}`);
+    if (options.mode !== 'fake') {
+        console.log(`  Recording:     ${options.recordingFile}`);
+    }
+    console.log(`  Conversations: ${conversations.length}`);
+    console.log('----------------------------------------\n');
+
+    const results: ConversationResult[] = [];
+
+    for (const conversation of conversations) {
+        current = conversation;
+        trace.reset();
+
+        // Every conversation starts from exactly the policies it declares
+        const store = new InMemoryPolicyStore();
+        for (const policy of conversation.policies || []) {
+            await store.savePolicy(EVAL_USER_ID, policy);
+        }
+        setPolicyStore(store);
+
+        let citations: Citation[] = [];
+        let review: RaiReview | null = null;
+        const start = performance.now();
+        const response = await quietly(options.verbose, () =>
+            handleSamChat(conversation.query, conversation.history || [], EVAL_USER_ID, {
+                onCitations: cited => { citations = cited; },
+                onReview: result => { review = result; },
+            })
+        );
+        const durationMs = Math.round(performance.now() - start);
+
+        const scores = scoreResponse({ conversation, response, citations, review, trace });
+        const result: ConversationResult = {
+            id: conversation.id,
+            description: conversation.description,
+            passed: scores.every(score => score.passed),
+            durationMs,
+            response,
+            stages: [...trace.stages],
+            citations,
+            review,
+            scores,
+        };
+        results.push(result);
+        printResult(result);
+    }
+
+    if (options.record) {
+        saveEvalRecording(options.recordingFile, recording);
+        console.log(`\n  Saved recording to ${options.recordingFile}`);
+    }
+
+    if (options.jsonFile) {
+        fs.writeFileSync(options.jsonFile, JSON.stringify({ mode: options.mode, results }, null, 2) + '\n');
+        console.log(`\n  Wrote report to ${options.jsonFile}`);
+    }
+
+    // Per-rule totals show which guardrail is slipping across the corpus
+    const ruleFailures = new Map<string, number>();
+    for (const score of results.flatMap(r => r.scores).filter(s => !s.passed)) {
+        ruleFailures.set(score.rule, (ruleFailures.get(score.rule) || 0) + 1);
+    }
+
+    const passed = results.filter(r => r.passed).length;
+    const failed = results.length - passed;
+
+    console.log('\n----------------------------------------');
+    console.log('  SUMMARY');
+    console.log('----------------------------------------');
+    console.log(`  Total:  ${results.length}`);
+    console.log(`  Passed: \x1b[32m${passed}\x1b[0m`);
+    console.log(`  Failed: \x1b[31m${failed}\x1b[0m`);
+    for (const [rule, count] of ruleFailures) {
+        console.log(`    - ${rule}: ${count} failure(s)`);
+    }
+    console.log('\n========================================\n');
+
+    if (failed > 0) {
+        console.log('\x1b[31mAGENT EVALS FAILED\x1b[0m\n');
+        process.exit(1);
+    }
+
+    console.log('\x1b[32mAGENT EVALS PASSED\x1b[0m\n');
+    process.exit(0);
+}
+
+main().catch(error => {
+    console.error('❌ Agent evals crashed:', error);
+    process.exit(1);
+});
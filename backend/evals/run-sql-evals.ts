@@ -0,0 +1,148 @@
+// backend/evals/run-sql-evals.ts
+// Runs the SQL corpus through validateSQLQuery, then checks the runAsUser wrapper the MCP path
+// sends to execute_sql - fully offline, no database or model needed
+//
+//   npm run eval:sql
+//   npm run eval:sql -- --verbose    print the query that would run for every accepted case
+
+import { runAsUser } from '../lib/mcp-client';
+import { validateSQLQuery } from '../lib/sql-validator';
+import { CORPUS_SCOPE, SQL_CORPUS, SqlCorpusCase } from './sql-corpus';
+
+function checkCase(testCase: SqlCorpusCase): { passed: boolean; detail: string; query?: string } {
+    const result = validateSQLQuery(testCase.query, CORPUS_SCOPE);
+    const { expect } = testCase;
+
+    if (result.valid !== expect.valid) {
+        return {
+            passed: false,
+            detail: expect.valid ? `rejected: ${result.error}` : `accepted, would run: ${result.query}`,
+        };
+    }
+    if (expect.error && !result.error?.toLowerCase().includes(expect.error.toLowerCase())) {
+        return { passed: false, detail: `rejected for the wrong reason: ${result.error}` };
+    }
+    if (expect.runs && !result.query?.toLowerCase().includes(expect.runs.toLowerCase())) {
+        return { passed: false, detail: `would run "${result.query}", expected it to contain "${expect.runs}"` };
+    }
+    return { passed: true, detail: result.error || '', query: result.query };
+}
+
+interface WrapperCheck {
+    id: string;
+    description: string;
+    check: () => string | null;
+}
+
+// Statements of a wrapped query, split on the statement separator runAsUser joins with
+function statementsOf(wrapped: string): string[] {
+    return wrapped.split(';\n').map(statement => statement.replace(/;$/, '').trim());
+}
+
+const WRAPPED_QUERY = `SELECT policy_number FROM policies WHERE user_id = ${CORPUS_SCOPE.internalUserId}`;
+
+// execute_sql returns the last statement's rows, so the user's query has to be that statement
+const WRAPPER_CHECKS: WrapperCheck[] = [
+    {
+        id: 'wrapper-query-last',
+        description: "The user's query is the last statement, so its rows are what come back",
+        check: () => {
+            const statements = statementsOf(runAsUser(WRAPPED_QUERY, CORPUS_SCOPE.authUserId));
+            const last = statements[statements.length - 1];
+            return last === WRAPPED_QUERY ? null : `last statement is "${last}"`;
+        },
+    },
+    {
+        id: 'wrapper-no-explicit-transaction',
+        description: 'No BEGIN or COMMIT - a trailing COMMIT would return no rows',
+        check: () => {
+            const control = statementsOf(runAsUser(WRAPPED_QUERY, CORPUS_SCOPE.authUserId))
+                .filter(statement => /^(BEGIN|COMMIT|END|ROLLBACK)\b/i.test(statement));
+            return control.length === 0 ? null : `found ${control.join(', ')}`;
+        },
+    },
+    {
+        id: 'wrapper-runs-as-user',
+        description: 'Role and JWT claims are set, transaction-local, before the query',
+        check: () => {
+            const [role, claims] = statementsOf(runAsUser(WRAPPED_QUERY, CORPUS_SCOPE.authUserId));
+            if (role !== 'SET LOCAL ROLE authenticated') return `first statement is "${role}"`;
+            const expected = `SELECT set_config('request.jwt.claims', '{"sub":"${CORPUS_SCOPE.authUserId}","role":"authenticated"}', true)`;
+            return claims === expected ? null : `second statement is "${claims}"`;
+        },
+    },
+    {
+        id: 'wrapper-trailing-semicolon',
+        description: 'A query that already ends in a semicolon is not split into an empty statement',
+        check: () => {
+            const statements = statementsOf(runAsUser(`${WRAPPED_QUERY};`, CORPUS_SCOPE.authUserId));
+            return statements.length === 3 && statements[2] === WRAPPED_QUERY ? null : `statements: ${JSON.stringify(statements)}`;
+        },
+    },
+    {
+        id: 'wrapper-malformed-user',
+        description: 'A user id that is not a uuid is refused rather than spliced into the claims',
+        check: () => {
+            try {
+                runAsUser(WRAPPED_QUERY, "x', true); DROP TABLE users; --");
+                return 'wrapped the query anyway';
+            } catch {
+                return null;
+            }
+        },
+    },
+];
+
+function main() {
+    const verbose = process.argv.includes('--verbose');
+
+    console.log('\n========================================');
+    console.log('  SAMURAI INSURANCE - SQL VALIDATION EVALS');
+    console.log('========================================');
+    console.log(`  Queries: ${SQL_CORPUS.length}, wrapper checks: ${WRAPPER_CHECKS.length}`);
+    console.log('----------------------------------------\n');
+
+    let failed = 0;
+    for (const testCase of SQL_CORPUS) {
+        const { passed, detail, query } = checkCase(testCase);
+        if (!passed) failed++;
+
+        const label = passed ? '\x1b[32m  [PASS]\x1b[0m' : '\x1b[31m  [FAIL]\x1b[0m';
+        const outcome = testCase.expect.valid ? 'allowed' : 'rejected';
+        console.log(`${label} ${testCase.id} (${outcome}) - ${testCase.description}`);
+        if (!passed || verbose) {
+            console.log(`         ${query ? `Runs: ${query}` : detail}`);
+        }
+    }
+
+    for (const wrapperCheck of WRAPPER_CHECKS) {
+        const problem = wrapperCheck.check();
+        if (problem) failed++;
+
+        const label = problem ? '\x1b[31m  [FAIL]\x1b[0m' : '\x1b[32m  [PASS]\x1b[0m';
+        console.log(`${label} ${wrapperCheck.id} - ${wrapperCheck.description}`);
+        if (problem) {
+            console.log(`         ${problem}`);
+        }
+    }
+
+    const total = SQL_CORPUS.length + WRAPPER_CHECKS.length;
+
+    console.log('\n----------------------------------------');
+    console.log('  SUMMARY');
+    console.log('----------------------------------------');
+    console.log(`  Total:  ${total}`);
+    console.log(`  Passed: \x1b[32m${total - failed}\x1b[0m`);
+    console.log(`  Failed: \x1b[31m${failed}\x1b[0m`);
+    console.log('\n========================================\n');
+
+    if (failed > 0) {
+        console.log('\x1b[31mSQL VALIDATION EVALS FAILED\x1b[0m\n');
+        process.exit(1);
+    }
+
+    console.log('\x1b[32mSQL VALIDATION EVALS PASSED\x1b[0m\n');
+    process.exit(0);
+}
+
+main();
@@ -0,0 +1,175 @@
+// backend/evals/scorers.ts
+// Rules every Sam reply is scored on - each returns the offending text so failures are easy to read
+
+import { GoldenConversation } from './golden-conversations';
+import type { Citation } from '../services/citations';
+import type { RaiReview } from '../agents/rai';
+import { CallTrace } from './models';
+
+export interface ScoreResult {
+    rule: string;
+    passed: boolean;
+    detail?: string;
+}
+
+export interface EvalSubject {
+    conversation: GoldenConversation;
+    response: string;
+    citations: Citation[];
+    review: RaiReview | null;
+    trace: CallTrace;
+}
+
+type Scorer = (subject: EvalSubject) => ScoreResult;
+
+// Return the first match of any pattern, or null
+function firstMatch(text: string, patterns: RegExp[]): string | null {
+    for (const pattern of patterns) {
+        const match = text.match(pattern);
+        if (match) return match[0];
+    }
+    return null;
+}
+
+function ruleFromMatch(rule: string, match: string | null): ScoreResult {
+    return match ? { rule, passed: false, detail: `found "${match}"` } : { rule, passed: true };
+}
+
+// ============================================
+// Output rules (OUTPUT_GUARDRAILS and the compliance section of Sam's prompt)
+// ============================================
+
+const MARKDOWN_PATTERNS = [
+    /\*\*[^*]+\*\*/,           // bold
+    /(^|\s)\*[^*\s][^*]*\*/,   // italic
+    /^#{1,6}\s/m,              // headers
+    /`[^`]+`/,                 // inline code
+    /\[[^\]]+\]\([^)]+\)/,     // links
+];
+
+const AGENT_ATTRIBUTION_PATTERNS = [
+    /\b(uri|rai)\s+(said|says|thinks|found|noted|mentioned|suggested|reviewed|recommends?)\b/i,
+    /\b(according to|per|from|checked with|asked)\s+(uri|rai)\b/i,
+    /\bmy (colleague|teammate|team)\b/i,
+];
+
+const GUARANTEE_PATTERNS = [
+    /\b(will|is going to|are going to)\s+(definitely\s+|always\s+|fully\s+)?cover\b/i,
+    /\bguarantee(d|s)?\b/i,
+    /\b(100%|completely|fully)\s+(covered|protected)\b/i,
+];
+
+const INFRASTRUCTURE_PATTERNS = [
+    /\bsupabase\b/i,
+    /\b(google cloud|gcp|vertex|gemini|discovery ?engine)\b/i,
+    /\b(storage )?bucket\b/i,
+    /\bproject[ _-]?id\b/i,
+    /\b(mcp|function call|tool call)\b/i,
+    /\b[a-z]+(?:_[a-z0-9]+)+\b/,
+    /\b(postgres(?:ql)?|postgrest|row[ -]level security)\b/i,
+    /\b(stack trace|api key|service role)\b/i,
+    /\b(TypeError|ReferenceError|ECONNREFUSED|ETIMEDOUT)\b/,
+];
+
+const noMarkdown: Scorer = ({ response }) => ruleFromMatch('no-markdown', firstMatch(response, MARKDOWN_PATTERNS));
+
+const noAgentAttribution: Scorer = ({ response }) => ruleFromMatch('no-agent-attribution', firstMatch(response, AGENT_ATTRIBUTION_PATTERNS));
+
+const noGuarantees: Scorer = ({ response }) => ruleFromMatch('no-guarantees', firstMatch(response, GUARANTEE_PATTERNS));
+
+const noInfrastructureLeak: Scorer = ({ response }) => ruleFromMatch('no-infrastructure-leak', firstMatch(response, INFRASTRUCTURE_PATTERNS));
+
+// ============================================
+// Grounding rules
+// ============================================
+
+// "$1,000" and "1000" are the same figure
+function dollarAmounts(text: string): string[] {
+    return (text.match(/\$\s?\d[\d,]*(\.\d+)?/g) || []).map(amount => amount.replace(/[$,\s]/g, ''));
+}
+
+/**
+ * With a policy on file, the reply must state the expected facts and must not quote
+ * dollar figures that appear nowhere in the policy or the question.
+ */
+const policyFactsCited: Scorer = ({ conversation, response }) => {
+    const rule = 'policy-facts-cited';
+    const policies = conversation.policies || [];
+    if (policies.length === 0) return { rule, passed: true };
+
+    const lowerResponse = response.toLowerCase();
+    const missing = (conversation.expect.cites || []).filter(fact => !lowerResponse.includes(fact.toLowerCase()));
+    if (missing.length > 0) {
+        return { rule, passed: false, detail: `missing ${missing.map(fact => `"${fact}"`).join(', ')}` };
+    }
+
+    const known = new Set([
+        ...dollarAmounts(JSON.stringify(policies)),
+        ...dollarAmounts(conversation.query),
+    ]);
+    const invented = dollarAmounts(response).filter(amount => !known.has(amount));
+    if (invented.length > 0) {
+        return { rule, passed: false, detail: `amounts not in the policy: ${invented.map(amount => `$${amount}`).join(', ')}` };
+    }
+
+    return { rule, passed: true };
+};
+
+/**
+ * Every [n] in the reply must have a footnote, and the expected sources must be among them
+ */
+const sourcesCited: Scorer = ({ conversation, response, citations }) => {
+    const rule = 'sources-cited';
+    const ids = new Set(citations.map(citation => citation.id));
+
+    const dangling = [...response.matchAll(/\[(\d{1,2})\]/g)].map(match => match[0]).filter(marker => !ids.has(Number(marker.slice(1, -1))));
+    if (dangling.length > 0) {
+        return { rule, passed: false, detail: `markers without a footnote: ${dangling.join(', ')}` };
+    }
+
+    const titles = citations.map(citation => citation.title.toLowerCase());
+    const missing = (conversation.expect.sources || []).filter(source => !titles.some(title => title.includes(source.toLowerCase())));
+    if (missing.length > 0) {
+        return { rule, passed: false, detail: `missing sources ${missing.map(source => `"${source}"`).join(', ')} (got: ${citations.map(c => c.title).join(', ') || 'none'})` };
+    }
+
+    return { rule, passed: true };
+};
+
+const expectedRoute: Scorer = ({ conversation, response, review, trace }) => {
+    const rule = 'expected-route';
+    const { uploadPrompt, stages = [], verdict } = conversation.expect;
+
+    if (trace.errors.length > 0) {
+        return { rule, passed: false, detail: trace.errors.join('; ') };
+    }
+
+    if (uploadPrompt !== undefined && response.includes('[UPLOAD_POLICY]') !== uploadPrompt) {
+        return { rule, passed: false, detail: uploadPrompt ? 'expected an upload prompt' : 'unexpected upload prompt' };
+    }
+
+    const missing = stages.filter(stage => !trace.stages.includes(stage));
+    if (missing.length > 0) {
+        return { rule, passed: false, detail: `stages not reached: ${missing.join(', ')} (ran: ${trace.stages.join(', ') || 'none'})` };
+    }
+
+    if (verdict && review?.verdict !== verdict) {
+        return { rule, passed: false, detail: `expected Rai to return ${verdict}, got ${review ? `${review.verdict} (${review.status})` : 'no review'}` };
+    }
+
+    return { rule, passed: true };
+};
+
+export const SCORERS: Scorer[] = [
+    noMarkdown,
+    noAgentAttribution,
+    noGuarantees,
+    noInfrastructureLeak,
+    policyFactsCited,
+    sourcesCited,
+    expectedRoute,
+];
+
+export function scoreResponse(subject: EvalSubject): ScoreResult[] {
+    return SCORERS.map(scorer => scorer(subject));
+}
@@ -0,0 +1,350 @@
+// backend/evals/sql-corpus.ts
+// Queries replayed through validateSQLQuery - legitimate lookups that must pass, and malicious or
+// careless ones that must be rejected
+
+import type { SqlUserScope } from '../lib/sql-validator';
+
+export interface SqlCorpusCase {
+    id: string;
+    description: string;
+    query: string;
+    expect: {
+        valid: boolean;
+        /** Text the rejection message must contain, matched case-insensitively */
+        error?: string;
+        /** Text the query that would run must contain, matched case-insensitively */
+        runs?: string;
+    };
+}
+
+// The caller every query is validated for; 7 and the other uuid belong to someone else
+export const CORPUS_SCOPE: SqlUserScope = {
+    authUserId: '00000000-0000-4000-8000-00000000e7a1',
+    internalUserId: 42,
+};
+
+const ME = CORPUS_SCOPE.authUserId;
+const SOMEONE_ELSE = '11111111-2222-4333-8444-555555555555';
+
+// ============================================
+// Allowed
+// ============================================
+
+const ALLOWED: SqlCorpusCase[] = [
+    {
+        id: 'documents-by-auth-id',
+        description: 'Uploaded policy documents for the caller',
+        query: `SELECT id, policy_type, carrier_name, analysis_summary, uploaded_at FROM user_documents WHERE user_id = '${ME}' AND status = 'active' ORDER BY uploaded_at DESC`,
+        expect: { valid: true, runs: 'LIMIT (50)' },
+    },
+    {
+        id: 'policies-with-carrier',
+        description: 'Join to the shared carrier table needs no user filter of its own',
+        query: `SELECT p.policy_number, p.end_date, c.name FROM policies p JOIN carrier c ON c.id = p.carrier_id WHERE p.user_id = 42 AND p.status = 'active'`,
+        expect: { valid: true },
+    },
+    {
+        id: 'claims-count',
+        description: 'Aggregate with an output alias used in ORDER BY',
+        query: 'SELECT status, count(*) AS total FROM claims WHERE user_id = 42 GROUP BY status ORDER BY total DESC',
+        expect: { valid: true },
+    },
+    {
+        id: 'predicate-reversed',
+        description: 'The user predicate may be written either way round and anywhere in the AND chain',
+        query: `SELECT id FROM policies WHERE status = 'active' AND (end_date < current_date OR total_premium > 1000) AND 42 = user_id`,
+        expect: { valid: true },
+    },
+    {
+        id: 'two-user-tables',
+        description: 'Joining two user tables works when both are pinned to the caller',
+        query: 'SELECT c.claim_number, p.policy_number FROM claims c LEFT JOIN policies p ON p.id = c.policy_id WHERE c.user_id = 42 AND p.user_id = 42',
+        expect: { valid: true },
+    },
+    {
+        id: 'jsonb-member',
+        description: 'Reading a field of the extracted policy data',
+        query: `SELECT extracted_data->>'deductible' AS deductible FROM user_documents WHERE user_id = '${ME}' AND policy_type = 'auto'`,
+        expect: { valid: true },
+    },
+    {
+        id: 'limit-capped',
+        description: 'A limit above the cap is lowered, not rejected',
+        query: 'SELECT claim_number FROM claims WHERE user_id = 42 LIMIT 10000',
+        expect: { valid: true, runs: 'LIMIT (50)' },
+    },
+    {
+        id: 'limit-kept',
+        description: 'A limit under the cap is kept',
+        query: 'SELECT claim_number FROM claims WHERE user_id = 42 LIMIT 5',
+        expect: { valid: true, runs: 'LIMIT (5)' },
+    },
+    {
+        id: 'comment-stripped',
+        description: 'Comments are dropped from the query that runs',
+        query: `SELECT id FROM policies /* lookup */ WHERE user_id = 42 -- mine`,
+        expect: { valid: true },
+    },
+];
+
+// ============================================
+// Rejected
+// ============================================
+
+const REJECTED: SqlCorpusCase[] = [
+    // Filter widening
+    {
+        id: 'no-filter',
+        description: 'User table without any user predicate',
+        query: 'SELECT policy_number FROM policies',
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+    {
+        id: 'or-widening',
+        description: 'OR next to the user predicate returns every row',
+        query: 'SELECT policy_number FROM policies WHERE user_id = 42 OR 1 = 1',
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+    {
+        id: 'or-inside-parentheses',
+        description: 'User predicate inside an OR group is not at the top level',
+        query: `SELECT policy_number FROM policies WHERE status = 'active' AND (user_id = 42 OR user_id = 7)`,
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+    {
+        id: 'other-user-internal-id',
+        description: "Another user's internal id",
+        query: 'SELECT policy_number FROM policies WHERE user_id = 7',
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+    {
+        id: 'other-user-auth-id',
+        description: "Another user's auth id",
+        query: `SELECT file_name FROM user_documents WHERE user_id = '${SOMEONE_ELSE}'`,
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+    {
+        id: 'inequality',
+        description: 'Not-equal predicate on user_id',
+        query: `SELECT file_name FROM user_documents WHERE user_id != '${ME}'`,
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+    {
+        id: 'in-list',
+        description: 'IN list that includes another user',
+        query: 'SELECT policy_number FROM policies WHERE user_id IN (42, 7)',
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+    {
+        id: 'predicate-in-join-only',
+        description: 'User predicate only in the JOIN condition of a LEFT JOIN does not filter the left table',
+        query: 'SELECT c.claim_number FROM claims c LEFT JOIN policies p ON p.id = c.policy_id AND c.user_id = 42 WHERE p.user_id = 42',
+        expect: { valid: false, error: '"c.user_id = <user id>"' },
+    },
+    {
+        id: 'join-other-user-rows',
+        description: 'Second user table joined without its own predicate',
+        query: 'SELECT c.claim_number, p.policy_number FROM claims c JOIN policies p ON p.status = c.status WHERE c.user_id = 42',
+        expect: { valid: false, error: '"p.user_id = <user id>"' },
+    },
+    {
+        id: 'self-join',
+        description: 'Self-join pulling a second copy of the table',
+        query: 'SELECT b.policy_number FROM policies a, policies b WHERE a.user_id = 42',
+        expect: { valid: false, error: '"b.user_id = <user id>"' },
+    },
+    {
+        id: 'predicate-commented-out',
+        description: 'Filter hidden behind a line comment',
+        query: 'SELECT policy_number FROM policies -- WHERE user_id = 42',
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+    {
+        id: 'predicate-in-string',
+        description: 'Filter text inside a string literal',
+        query: `SELECT policy_number FROM policies WHERE status = 'user_id = 42'`,
+        expect: { valid: false, error: 'ANDed into the WHERE clause' },
+    },
+
+    // Statement shape
+    {
+        id: 'stacked-statements',
+        description: 'Second statement after a semicolon',
+        query: 'SELECT id FROM policies WHERE user_id = 42; DELETE FROM policies',
+        expect: { valid: false, error: 'Exactly one statement' },
+    },
+    {
+        id: 'delete',
+        description: 'DELETE',
+        query: 'DELETE FROM policies WHERE user_id = 42',
+        expect: { valid: false, error: 'Only SELECT' },
+    },
+    {
+        id: 'update',
+        description: 'UPDATE',
+        query: `UPDATE claims SET status = 'approved' WHERE user_id = 42`,
+        expect: { valid: false, error: 'Only SELECT' },
+    },
+    {
+        id: 'insert',
+        description: 'INSERT',
+        query: `INSERT INTO claims (user_id, status) VALUES (42, 'approved')`,
+        expect: { valid: false, error: 'Only SELECT' },
+    },
+    {
+        id: 'drop',
+        description: 'DDL',
+        query: 'DROP TABLE policies',
+        expect: { valid: false, error: 'Only SELECT' },
+    },
+    {
+        id: 'cte',
+        description: 'CTE reading every row before the outer filter',
+        query: 'WITH everyone AS (SELECT user_id, policy_number FROM policies) SELECT policy_number FROM everyone WHERE user_id = 42',
+        expect: { valid: false, error: 'no WITH, UNION or VALUES' },
+    },
+    {
+        id: 'union',
+        description: 'UNION appending another table',
+        query: `SELECT policy_number FROM policies WHERE user_id = 42 UNION SELECT email FROM users`,
+        expect: { valid: false, error: 'no WITH, UNION or VALUES' },
+    },
+    {
+        id: 'subquery-in-from',
+        description: 'Derived table',
+        query: 'SELECT x.policy_number FROM (SELECT policy_number, user_id FROM policies) x WHERE x.user_id = 42',
+        expect: { valid: false, error: 'Subqueries are not allowed' },
+    },
+    {
+        id: 'subquery-in-select',
+        description: 'Scalar subquery in the select list',
+        query: 'SELECT (SELECT count(*) FROM policies) AS everyone FROM policies WHERE user_id = 42',
+        expect: { valid: false, error: 'Subqueries are not allowed' },
+    },
+    {
+        id: 'subquery-in-where',
+        description: 'EXISTS-style subquery in the WHERE clause',
+        query: 'SELECT policy_number FROM policies WHERE user_id = 42 AND id IN (SELECT policy_id FROM claims)',
+        expect: { valid: false, error: 'Subqueries are not allowed' },
+    },
+    {
+        id: 'row-locking',
+        description: 'FOR UPDATE locks rows',
+        query: 'SELECT id FROM policies WHERE user_id = 42 FOR UPDATE',
+        expect: { valid: false, error: 'Row locking' },
+    },
+    {
+        id: 'no-table',
+        description: 'Bare expression with no table',
+        query: `SELECT current_setting('request.jwt.claims')`,
+        expect: { valid: false, error: 'read from an allowed table' },
+    },
+    {
+        id: 'unparseable',
+        description: 'Garbage',
+        query: `SELECT FROM WHERE '`,
+        expect: { valid: false, error: 'could not be parsed' },
+    },
+
+    // Tables and columns
+    {
+        id: 'users-table',
+        description: 'Table outside the allowlist',
+        query: 'SELECT email, password_hash FROM users WHERE id = 42',
+        expect: { valid: false, error: 'Table "users" is not allowed' },
+    },
+    {
+        id: 'auth-schema',
+        description: 'Supabase auth schema',
+        query: `SELECT email FROM auth.users WHERE id = '${ME}'`,
+        expect: { valid: false, error: 'Schema "auth"' },
+    },
+    {
+        id: 'catalog',
+        description: 'System catalog',
+        query: 'SELECT rolname FROM pg_catalog.pg_roles',
+        expect: { valid: false, error: 'Schema "pg_catalog"' },
+    },
+    {
+        id: 'select-star',
+        description: 'SELECT * returns columns outside the allowlist',
+        query: `SELECT * FROM user_documents WHERE user_id = '${ME}'`,
+        expect: { valid: false, error: '* is not allowed' },
+    },
+    {
+        id: 'storage-path',
+        description: 'Storage location column',
+        query: `SELECT gcs_uri FROM user_documents WHERE user_id = '${ME}'`,
+        expect: { valid: false, error: 'Column "gcs_uri" is not allowed' },
+    },
+    {
+        id: 'ambiguous-owner',
+        description: 'Unqualified user_id across two user tables',
+        query: 'SELECT c.claim_number FROM claims c JOIN policies p ON p.id = c.policy_id WHERE user_id = 42',
+        expect: { valid: false, error: 'ambiguous' },
+    },
+    {
+        id: 'table-function',
+        description: 'Set-returning function in FROM',
+        query: `SELECT x FROM pg_ls_dir('.') AS x`,
+        expect: { valid: false, error: 'Table functions' },
+    },
+
+    // Functions and expressions
+    {
+        id: 'sleep',
+        description: 'pg_sleep to stall the connection',
+        query: 'SELECT pg_sleep(30) FROM policies WHERE user_id = 42',
+        expect: { valid: false, error: 'Function "pg_sleep"' },
+    },
+    {
+        id: 'read-file',
+        description: 'Server file read',
+        query: `SELECT pg_read_file('/etc/passwd') FROM policies WHERE user_id = 42`,
+        expect: { valid: false, error: 'Function "pg_read_file"' },
+    },
+    {
+        id: 'set-config',
+        description: 'Changing session settings',
+        query: `SELECT set_config('request.jwt.claim.sub', '${SOMEONE_ELSE}', false) FROM policies WHERE user_id = 42`,
+        expect: { valid: false, error: 'Function "set_config"' },
+    },
+    {
+        id: 'schema-qualified-function',
+        description: 'Schema-qualified function',
+        query: 'SELECT public.count(id) FROM policies WHERE user_id = 42',
+        expect: { valid: false, error: 'Function "count"' },
+    },
+    {
+        id: 'current-user',
+        description: 'Database role keyword',
+        query: 'SELECT current_user FROM policies WHERE user_id = 42',
+        expect: { valid: false, error: '"current_user" is not allowed' },
+    },
+    {
+        id: 'regclass-cast',
+        description: 'Cast to an internal type',
+        query: `SELECT 'users'::regclass FROM policies WHERE user_id = 42`,
+        expect: { valid: false, error: 'Cast is not allowed' },
+    },
+    {
+        id: 'regex-operator',
+        description: 'Operator outside the allowlist',
+        query: `SELECT id FROM policies WHERE user_id = 42 AND policy_number ~ '(a+)+$'`,
+        expect: { valid: false, error: 'Operator "~"' },
+    },
+    {
+        id: 'window-function',
+        description: 'Window aggregate over every row',
+        query: 'SELECT count(id) OVER () FROM policies WHERE user_id = 42',
+        expect: { valid: false, error: 'Window' },
+    },
+    {
+        id: 'computed-limit',
+        description: 'Limit from an expression',
+        query: 'SELECT id FROM policies WHERE user_id = 42 LIMIT 10 * 1000',
+        expect: { valid: false, error: 'LIMIT must be a number' },
+    },
+];
+
+export const SQL_CORPUS: SqlCorpusCase[] = [...ALLOWED, ...REJECTED];
@@ -0,0 +1,41 @@
+// backend/jobs/local-runner.ts
+// Local-only job runner: ticks the scheduler on an interval so jobs run without Cloud Scheduler
+// Usage: npm run jobs:local   (JOBS_LOCAL_INTERVAL_MS, default 60000)
+
+import dotenv from 'dotenv';
+import os from 'os';
+
+dotenv.config();
+
+import { runSchedulerTick } from './tasks';
+
+const INTERVAL_MS = parseInt(process.env.JOBS_LOCAL_INTERVAL_MS || '60000', 10);
+const WORKER_ID = `local-${os.hostname()}-${process.pid}`;
+
+let stopping = false;
+let timer: NodeJS.Timeout | null = null;
+
+async function tick(): Promise<void> {
+    try {
+        const result = await runSchedulerTick(WORKER_ID);
+        console.log(`🕒 Tick: ${result.enqueued} enqueued, ${result.claimed} claimed, ${result.succeeded} succeeded, ${result.retried} retrying, ${result.failed} failed`);
+    } catch (error) {
+        console.error('❌ Scheduler tick failed:', error);
+    }
+
+    if (!stopping) {
+        timer = setTimeout(tick, INTERVAL_MS);
+    }
+}
+
+function stop(signal: string): void {
+    console.log(`🛑 ${signal} received, stopping job runner`);
+    stopping = true;
+    if (timer) clearTimeout(timer);
+}
+
+process.on('SIGINT', () => stop('SIGINT'));
+process.on('SIGTERM', () => stop('SIGTERM'));
+
+console.log(`🚀 Local job runner ${WORKER_ID} started (every ${INTERVAL_MS / 1000}s)`);
+tick();
@@ -0,0 +1,224 @@
+// backend/jobs/scheduler.ts
+// Persistent job queue on scheduled_jobs: idempotent enqueue, claim with stale-lock recovery, retry with backoff
+
+import { supabase } from '../lib/supabase';
+
+// ============================================
+// Types
+// ============================================
+
+export type JobType =
+    | 'renewal_reminder_sweep'
+    | 'renewal_reminder'
+    | 'attachment_purge'
+    | 'summary_backfill';
+
+export type JobStatus = 'pending' | 'running' | 'succeeded' | 'failed';
+
+export interface ScheduledJob {
+    id: number;
+    jobType: JobType;
+    idempotencyKey: string;
+    payload: Record<string, any>;
+    status: JobStatus;
+    runAt: string;
+    attempts: number;
+    maxAttempts: number;
+    lastError: string | null;
+}
+
+/**
+ * Handlers return an optional result object stored on the job row.
+ * Throwing marks the attempt as failed and schedules a retry.
+ */
+export type JobHandler = (job: ScheduledJob) => Promise<Record<string, unknown> | void>;
+
+export interface RunSummary {
+    claimed: number;
+    succeeded: number;
+    retried: number;
+    failed: number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const BACKOFF_BASE_MS = 30 * 1000;      // 30s, 60s, 120s, ...
+const BACKOFF_MAX_MS = 60 * 60 * 1000;  // capped at 1 hour
+
+// A running job whose lock is older than this is assumed to belong to a dead worker
+const LOCK_TIMEOUT_MS = 15 * 60 * 1000;
+
+function rowToJob(row: any): ScheduledJob {
+    return {
+        id: row.id,
+        jobType: row.job_type,
+        idempotencyKey: row.idempotency_key,
+        payload: row.payload || {},
+        status: row.status,
+        runAt: row.run_at,
+        attempts: row.attempts,
+        maxAttempts: row.max_attempts,
+        lastError: row.last_error,
+    };
+}
+
+/**
+ * Exponential backoff for the given number of attempts already made
+ */
+export function backoffDelayMs(attempts: number): number {
+    return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(attempts - 1, 0), BACKOFF_MAX_MS);
+}
+
+// ============================================
+// Enqueue
+// ============================================
+
+/**
+ * Adds a job unless one with the same type and idempotency key already exists
+ */
+export async function enqueueJob(
+    jobType: JobType,
+    idempotencyKey: string,
+    payload: Record<string, unknown> = {},
+    options: { runAt?: Date; maxAttempts?: number } = {}
+): Promise<{ success: boolean; data?: { id: number | null; created: boolean }; error?: string }> {
+    const { data, error } = await supabase
+        .from('scheduled_jobs')
+        .upsert({
+            job_type: jobType,
+            idempotency_key: idempotencyKey,
+            payload,
+            run_at: (options.runAt || new Date()).toISOString(),
+            max_attempts: options.maxAttempts || DEFAULT_MAX_ATTEMPTS,
+        }, { onConflict: 'job_type,idempotency_key', ignoreDuplicates: true })
+        .select('id');
+
+    if (error) {
+        console.error(`❌ Failed to enqueue ${jobType}:`, error);
+        return { success: false, error: error.message };
+    }
+
+    const created = (data?.length || 0) > 0;
+    return { success: true, data: { id: created ? data![0].id : null, created } };
+}
+
+// ============================================
+// Claim & Run
+// ============================================
+
+/**
+ * Claims up to `limit` due jobs for this worker. Each claim is a conditional update,
+ * so two workers racing for the same row cannot both win it.
+ */
+export async function claimDueJobs(workerId: string, limit: number): Promise<ScheduledJob[]> {
+    const now = new Date();
+    const staleBefore = new Date(now.getTime() - LOCK_TIMEOUT_MS).toISOString();
+
+    const { data: candidates, error } = await supabase
+        .from('scheduled_jobs')
+        .select('id, status, locked_at')
+        .or(`and(status.eq.pending,run_at.lte.${now.toISOString()}),and(status.eq.running,locked_at.lt.${staleBefore})`)
+        .order('run_at', { ascending: true })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(`Failed to load due jobs: ${error.message}`);
+    }
+
+    const claimed: ScheduledJob[] = [];
+    for (const candidate of candidates || []) {
+        let claim = supabase
+            .from('scheduled_jobs')
+            .update({
+                status: 'running',
+                locked_at: now.toISOString(),
+                locked_by: workerId,
+                updated_at: now.toISOString(),
+            })
+            .eq('id', candidate.id)
+            .eq('status', candidate.status);
+
+        claim = candidate.locked_at ? claim.eq('locked_at', candidate.locked_at) : claim.is('locked_at', null);
+
+        const { data: rows, error: claimError } = await claim.select('*');
+        if (claimError) {
+            console.warn(`⚠️ Could not claim job ${candidate.id}: ${claimError.message}`);
+            continue;
+        }
+        if (rows && rows.length > 0) {
+            claimed.push(rowToJob(rows[0]));
+        }
+    }
+
+    return claimed;
+}
+
+async function completeJob(job: ScheduledJob, result: Record<string, unknown> | void): Promise<void> {
+    const now = new Date().toISOString();
+    await supabase
+        .from('scheduled_jobs')
+        .update({
+            status: 'succeeded',
+            attempts: job.attempts + 1,
+            result: result || null,
+            last_error: null,
+            locked_at: null,
+            locked_by: null,
+            completed_at: now,
+            updated_at: now,
+        })
+        .eq('id', job.id);
+}
+
+async function failJob(job: ScheduledJob, error: unknown): Promise<'retried' | 'failed'> {
+    const attempts = job.attempts + 1;
+    const exhausted = attempts >= job.maxAttempts;
+    const message = error instanceof Error ? error.message : String(error);
+    const now = new Date();
+
+    await supabase
+        .from('scheduled_jobs')
+        .update({
+            status: exhausted ? 'failed' : 'pending',
+            attempts,
+            last_error: message.slice(0, 2000),
+            run_at: exhausted ? job.runAt : new Date(now.getTime() + backoffDelayMs(attempts)).toISOString(),
+            locked_at: null,
+            locked_by: null,
+            completed_at: exhausted ? now.toISOString() : null,
+            updated_at: now.toISOString(),
+        })
+        .eq('id', job.id);
+
+    return exhausted ? 'failed' : 'retried';
+}
+
+/**
+ * Claims due jobs and runs each with its registered handler, one at a time
+ */
+export async function runDueJobs(
+    handlers: Record<JobType, JobHandler>,
+    options: { workerId: string; limit?: number }
+): Promise<RunSummary> {
+    const jobs = await claimDueJobs(options.workerId, options.limit || 20);
+    const summary: RunSummary = { claimed: jobs.length, succeeded: 0, retried: 0, failed: 0 };
+
+    for (const job of jobs) {
+        const handler = handlers[job.jobType];
+
+        try {
+            if (!handler) {
+                throw new Error(`No handler registered for job type ${job.jobType}`);
+            }
+            const result = await handler(job);
+            await completeJob(job, result);
+            summary.succeeded++;
+            console.log(`✅ Job ${job.id} (${job.jobType}) succeeded`);
+        } catch (error) {
+            const outcome = await failJob(job, error);
+            summary[outcome]++;
+            console.error(`❌ Job ${job.id} (${job.jobType}) ${outcome === 'failed' ? 'failed permanently' : 'will retry'}:`, error);
+        }
+    }
+
+    return summary;
+}
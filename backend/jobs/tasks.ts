@@ -0,0 +1,271 @@
+// backend/jobs/tasks.ts
+// Background job handlers: renewal reminders, chat attachment purge, missing session summary backfill
+
+import { supabase } from '../lib/supabase';
+import { deleteGCSFilesWithConcurrency } from '../services/account-deletion';
+import { regenerateSummary } from '../services/session-summary';
+import { enqueueJob, runDueJobs, JobHandler, JobType, RunSummary } from './scheduler';
+
+// Reminders go out this many days before policies.end_date
+const REMINDER_DAYS = [30, 7];
+
+const CHAT_ATTACHMENT_RETENTION_DAYS = parseInt(process.env.CHAT_ATTACHMENT_RETENTION_DAYS || '30', 10);
+const CHAT_ATTACHMENT_TYPES = ['chat_attachment', 'image', 'screenshot'];
+const PURGE_BATCH_SIZE = 200;
+const SUMMARY_BACKFILL_BATCH_SIZE = 50;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateString(date: Date): string {
+    return date.toISOString().split('T')[0];
+}
+
+function daysBetween(from: Date, toDate: string): number {
+    const today = Date.UTC(from.getUTCFullYear(), from.getUTCMonth(), from.getUTCDate());
+    return Math.round((new Date(`${toDate}T00:00:00Z`).getTime() - today) / DAY_MS);
+}
+
+// ============================================
+// Renewal Reminders
+// ============================================
+
+/**
+ * Finds active policies inside a reminder window and enqueues one reminder per
+ * policy, term and threshold. The idempotency key makes re-running the sweep safe.
+ */
+const renewalReminderSweep: JobHandler = async () => {
+    const now = new Date();
+    const horizon = toDateString(new Date(now.getTime() + Math.max(...REMINDER_DAYS) * DAY_MS));
+
+    const { data: policies, error } = await supabase
+        .from('policies')
+        .select('id, end_date')
+        .eq('status', 'active')
+        .gte('end_date', toDateString(now))
+        .lte('end_date', horizon);
+
+    if (error) {
+        throw new Error(`Failed to load expiring policies: ${error.message}`);
+    }
+
+    let enqueued = 0;
+    for (const policy of policies || []) {
+        const daysUntil = daysBetween(now, policy.end_date);
+
+        // Smallest threshold the policy has reached, so a late sweep doesn't send both
+        const threshold = [...REMINDER_DAYS].sort((a, b) => a - b).find(days => daysUntil <= days);
+        if (threshold === undefined) continue;
+
+        const result = await enqueueJob(
+            'renewal_reminder',
+            `${policy.id}:${policy.end_date}:${threshold}`,
+            { policyId: policy.id, endDate: policy.end_date, reminderDays: threshold }
+        );
+        if (result.data?.created) enqueued++;
+    }
+
+    return { expiringPolicies: policies?.length || 0, enqueued };
+};
+
+/**
+ * Records a renewal reminder on the policy's monitoring feed, which the user's next chat reply
+ * delivers, and opens a pending policy_renewals row for the upcoming term. processPolicyRenewal
+ * completes that row when the new declarations page is uploaded; until then readers skip it.
+ */
+const renewalReminder: JobHandler = async (job) => {
+    const { policyId, endDate, reminderDays } = job.payload;
+
+    const { data: policy, error } = await supabase
+        .from('policies')
+        .select('id, status, end_date')
+        .eq('id', policyId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load policy ${policyId}: ${error.message}`);
+    }
+
+    // Renewed, cancelled or re-dated since the sweep ran
+    if (!policy || policy.status !== 'active' || policy.end_date !== endDate) {
+        return { skipped: true };
+    }
+
+    const daysUntil = daysBetween(new Date(), endDate);
+
+    const { error: eventError } = await supabase.from('monitoring').insert({
+        policy_id: policyId,
+        event_type: 'renewal_reminder',
+        event_status: 'open',
+        details: { endDate, reminderDays, daysUntilExpiration: daysUntil },
+    });
+
+    if (eventError) {
+        throw new Error(`Failed to record renewal reminder: ${eventError.message}`);
+    }
+
+    const { data: existing } = await supabase
+        .from('policy_renewals')
+        .select('id')
+        .eq('policy_id', policyId)
+        .eq('renewal_date', endDate)
+        .maybeSingle();
+
+    if (!existing) {
+        const { error: renewalError } = await supabase.from('policy_renewals').insert({
+            policy_id: policyId,
+            renewal_date: endDate,
+            status: 'pending',
+        });
+        if (renewalError) {
+            console.warn(`⚠️ Failed to open pending renewal for policy ${policyId}: ${renewalError.message}`);
+        }
+    }
+
+    console.log(`⏰ Renewal reminder recorded for policy ${policyId} (${daysUntil} days out)`);
+    return { policyId, daysUntilExpiration: daysUntil };
+};
+
+// ============================================
+// Chat Attachment Purge
+// ============================================
+
+/**
+ * Removes chat attachments past the retention window from storage and marks them purged.
+ * Also clears expired user_pending_state rows, which readers already ignore.
+ */
+const attachmentPurge: JobHandler = async () => {
+    const cutoff = new Date(Date.now() - CHAT_ATTACHMENT_RETENTION_DAYS * DAY_MS).toISOString();
+
+    const { data: documents, error } = await supabase
+        .from('user_documents')
+        .select('id, gcs_bucket, gcs_path')
+        .eq('upload_context', 'chat')
+        .in('document_type', CHAT_ATTACHMENT_TYPES)
+        .neq('status', 'purged')
+        .lt('uploaded_at', cutoff)
+        .limit(PURGE_BATCH_SIZE);
+
+    if (error) {
+        throw new Error(`Failed to load expired chat attachments: ${error.message}`);
+    }
+
+    let purged = 0;
+    let storageErrors: string[] = [];
+
+    if (documents && documents.length > 0) {
+        const gcsResult = await deleteGCSFilesWithConcurrency(
+            documents.map(d => ({ gcs_bucket: d.gcs_bucket, gcs_path: d.gcs_path }))
+        );
+        storageErrors = gcsResult.errors;
+
+        // Leave rows whose file could not be removed for the next run
+        const purgedIds = documents
+            .filter(d => !storageErrors.some(e => e.includes(d.gcs_path)))
+            .map(d => d.id);
+
+        if (purgedIds.length > 0) {
+            const { error: updateError } = await supabase
+                .from('user_documents')
+                .update({ status: 'purged', updated_at: new Date().toISOString() })
+                .in('id', purgedIds);
+
+            if (updateError) {
+                throw new Error(`Failed to mark attachments purged: ${updateError.message}`);
+            }
+            purged = purgedIds.length;
+        }
+    }
+
+    const { count: pendingStateCleared, error: pendingError } = await supabase
+        .from('user_pending_state')
+        .delete({ count: 'exact' })
+        .lt('expires_at', new Date().toISOString());
+
+    if (pendingError) {
+        console.warn(`⚠️ Failed to clear expired pending state: ${pendingError.message}`);
+    }
+
+    console.log(`🧹 Purged ${purged} chat attachment(s), ${pendingStateCleared || 0} expired pending state row(s)`);
+    return { purged, storageErrors: storageErrors.length, pendingStateCleared: pendingStateCleared || 0 };
+};
+
+// ============================================
+// Session Summary Backfill
+// ============================================
+
+/**
+ * Generates summaries for sessions that never got one (the in-request
+ * fire-and-forget generation can be lost on restart or model errors)
+ */
+const summaryBackfill: JobHandler = async () => {
+    const { data: sessions, error } = await supabase
+        .from('chat_sessions')
+        .select('id')
+        .is('summary', null)
+        .is('deleted_at', null)
+        .gte('total_messages', 2)
+        .order('last_message_at', { ascending: false })
+        .limit(SUMMARY_BACKFILL_BATCH_SIZE);
+
+    if (error) {
+        throw new Error(`Failed to load sessions without summaries: ${error.message}`);
+    }
+
+    let generated = 0;
+    for (const session of sessions || []) {
+        const summary = await regenerateSummary(session.id);
+        if (summary) generated++;
+    }
+
+    return { candidates: sessions?.length || 0, generated };
+};
+
+// ============================================
+// Registry & Tick
+// ============================================
+
+export const JOB_HANDLERS: Record<JobType, JobHandler> = {
+    renewal_reminder_sweep: renewalReminderSweep,
+    renewal_reminder: renewalReminder,
+    attachment_purge: attachmentPurge,
+    summary_backfill: summaryBackfill,
+};
+
+/**
+ * Enqueues the recurring jobs for the current period. Keys are time buckets,
+ * so any number of ticks within a period enqueue each job once.
+ */
+export async function enqueueRecurringJobs(now: Date = new Date()): Promise<number> {
+    const day = toDateString(now);
+    const hour = now.toISOString().slice(0, 13);
+
+    const results = await Promise.all([
+        enqueueJob('renewal_reminder_sweep', day),
+        enqueueJob('attachment_purge', day),
+        enqueueJob('summary_backfill', hour),
+    ]);
+
+    return results.filter(r => r.data?.created).length;
+}
+
+/**
+ * One scheduler pass: enqueue recurring jobs, then run whatever is due
+ * (including reminders enqueued by a sweep earlier in the same pass)
+ */
+export async function runSchedulerTick(workerId: string): Promise<RunSummary & { enqueued: number }> {
+    const enqueued = await enqueueRecurringJobs();
+    const summary = await runDueJobs(JOB_HANDLERS, { workerId });
+
+    // Sweeps fan out into per-policy jobs; pick those up without waiting for the next tick
+    const followUp = summary.succeeded > 0
+        ? await runDueJobs(JOB_HANDLERS, { workerId })
+        : { claimed: 0, succeeded: 0, retried: 0, failed: 0 };
+
+    return {
+        enqueued,
+        claimed: summary.claimed + followUp.claimed,
+        succeeded: summary.succeeded + followUp.succeeded,
+        retried: summary.retried + followUp.retried,
+        failed: summary.failed + followUp.failed,
+    };
+}
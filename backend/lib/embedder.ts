@@ -0,0 +1,232 @@
+// backend/lib/embedder.ts
+// Text embeddings behind one interface: Vertex AI when configured, a local hashing embedder otherwise
+//
+//   EMBEDDING_PROVIDER   vertex | local (default: vertex when GOOGLE_PROJECT_ID is set and MODEL_PROVIDER is vertex)
+//   EMBEDDING_MODEL      Vertex model name (default text-embedding-005)
+//   VERTEX_LOCATION      Vertex AI region (default us-central1)
+
+import dotenv from 'dotenv';
+import { GoogleAuth } from 'google-auth-library';
+import { reportModelCall } from './model-registry';
+
+dotenv.config();
+
+// ============================================
+// Types
+// ============================================
+
+/** Stored text is embedded as a document; search input as a query */
+export type EmbeddingTask = 'document' | 'query';
+
+export interface Embedder {
+    readonly model: string;
+    /** Cosine similarity below which a match is noise for this model */
+    readonly minSimilarity: number;
+    embed(texts: string[], task: EmbeddingTask): Promise<number[][]>;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length || a.length === 0) return 0;
+
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+// ============================================
+// Vertex AI
+// ============================================
+
+const VERTEX_TASK_TYPES: Record<EmbeddingTask, string> = {
+    document: 'RETRIEVAL_DOCUMENT',
+    query: 'RETRIEVAL_QUERY',
+};
+
+// Vertex accepts up to 250 instances per request; messages are embedded a few at a time
+const VERTEX_BATCH_SIZE = 50;
+
+export class VertexEmbedder implements Embedder {
+    readonly minSimilarity = 0.55;
+    private readonly auth = new GoogleAuth({ scopes: 'https://www.googleapis.com/auth/cloud-platform' });
+
+    constructor(readonly model: string, private readonly config: { project: string; location: string }) {}
+
+    async embed(texts: string[], task: EmbeddingTask): Promise<number[][]> {
+        const vectors: number[][] = [];
+        for (let i = 0; i < texts.length; i += VERTEX_BATCH_SIZE) {
+            vectors.push(...await this.predict(texts.slice(i, i + VERTEX_BATCH_SIZE), task));
+        }
+        return vectors;
+    }
+
+    // Every request is reported to the usage listener, like the generative clients' calls
+    private async predict(texts: string[], task: EmbeddingTask): Promise<number[][]> {
+        const startedAt = Date.now();
+        let promptTokens: number | null = null;
+        try {
+            const { vectors, tokens } = await this.request(texts, task);
+            promptTokens = tokens;
+            return vectors;
+        } finally {
+            reportModelCall({
+                purpose: 'embedding',
+                model: this.model,
+                usage: promptTokens === null ? null : { promptTokens, outputTokens: 0 },
+                latencyMs: Date.now() - startedAt,
+                success: promptTokens !== null,
+            });
+        }
+    }
+
+    private async request(texts: string[], task: EmbeddingTask): Promise<{ vectors: number[][]; tokens: number }> {
+        const { project, location } = this.config;
+        const url = `https://${location}-aiplatform.googleapis.com/v1/projects/${project}/locations/${location}/publishers/google/models/${this.model}:predict`;
+
+        const token = await this.auth.getAccessToken();
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: { 'Authorization': `Bearer ${token}`, 'Content-Type': 'application/json' },
+            body: JSON.stringify({
+                instances: texts.map(content => ({ content, task_type: VERTEX_TASK_TYPES[task] })),
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`Vertex embedding request failed (${response.status}): ${(await response.text()).slice(0, 200)}`);
+        }
+
+        const data = await response.json() as {
+            predictions?: Array<{ embeddings?: { values?: number[]; statistics?: { token_count?: number } } }>;
+        };
+        const vectors = (data.predictions || []).map(p => p.embeddings?.values || []);
+        if (vectors.length !== texts.length || vectors.some(v => v.length === 0)) {
+            throw new Error('Vertex embedding response is missing vectors');
+        }
+        const tokens = (data.predictions || []).reduce((sum, p) => sum + (p.embeddings?.statistics?.token_count || 0), 0);
+        return { vectors, tokens };
+    }
+}
+
+// ============================================
+// Local (offline fallback)
+// ============================================
+
+const LOCAL_DIMENSIONS = 512;
+
+const STOPWORDS = new Set([
+    'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does', 'for', 'from', 'how', 'i', 'if',
+    'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'what',
+    'when', 'which', 'will', 'with', 'you', 'your',
+]);
+
+// FNV-1a - stable across runs, so stored vectors stay comparable
+function hashToken(token: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < token.length; i++) {
+        hash ^= token.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+// Lowercased words with plural "s" dropped, so "pools" matches "pool"
+function tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+        .filter(word => !STOPWORDS.has(word))
+        .map(word => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Feature-hashed bag of words and bigrams. Lexical only, but needs no network or
+ * credentials, which keeps search working in development and when Vertex is down.
+ */
+export class LocalEmbedder implements Embedder {
+    readonly model = `local-hash-${LOCAL_DIMENSIONS}`;
+    readonly minSimilarity = 0.1;
+
+    async embed(texts: string[], _task: EmbeddingTask): Promise<number[][]> {
+        return texts.map(text => this.vectorize(text));
+    }
+
+    private vectorize(text: string): number[] {
+        const vector = new Array<number>(LOCAL_DIMENSIONS).fill(0);
+        const tokens = tokenize(text);
+
+        const add = (feature: string, weight: number) => {
+            const hash = hashToken(feature);
+            // The top bit picks the sign so unrelated collisions tend to cancel out
+            vector[hash % LOCAL_DIMENSIONS] += hash & 0x80000000 ? -weight : weight;
+        };
+
+        tokens.forEach((token, index) => {
+            add(token, 1);
+            if (index > 0) add(`${tokens[index - 1]} ${token}`, 0.5);
+        });
+
+        const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+        return norm ? vector.map(v => v / norm) : vector;
+    }
+}
+
+// ============================================
+// Selection
+// ============================================
+
+let embedder: Embedder | null = null;
+let override: Embedder | null = null;
+const localEmbedder = new LocalEmbedder();
+
+function createEmbedder(): Embedder {
+    const modelProvider = (process.env.MODEL_PROVIDER || 'vertex').toLowerCase();
+    const project = process.env.GOOGLE_PROJECT_ID;
+    const provider = (process.env.EMBEDDING_PROVIDER || (project && modelProvider === 'vertex' ? 'vertex' : 'local')).toLowerCase();
+
+    if (provider === 'local') {
+        return localEmbedder;
+    }
+    if (provider !== 'vertex') {
+        throw new Error(`Unknown EMBEDDING_PROVIDER "${provider}" (expected vertex or local)`);
+    }
+    if (!project) {
+        console.error('❌ GOOGLE_PROJECT_ID environment variable is not set');
+        throw new Error('Missing GOOGLE_PROJECT_ID environment variable');
+    }
+
+    return new VertexEmbedder(process.env.EMBEDDING_MODEL || 'text-embedding-005', {
+        project,
+        location: process.env.VERTEX_LOCATION || 'us-central1',
+    });
+}
+
+/**
+ * The configured embedder - created lazily so importing a module never requires credentials
+ */
+export function getEmbedder(): Embedder {
+    if (override) return override;
+
+    if (!embedder) {
+        embedder = createEmbedder();
+        console.log(`🧮 Embedding model: ${embedder.model}`);
+    }
+    return embedder;
+}
+
+/**
+ * Used when the configured embedder fails, and to read vectors it produced
+ */
+export function getLocalEmbedder(): Embedder {
+    return localEmbedder;
+}
+
+/**
+ * Swap the embedder (used by evals and local harnesses); pass null to restore the configured one
+ */
+export function setEmbedder(replacement: Embedder | null): void {
+    override = replacement;
+}
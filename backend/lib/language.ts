@@ -0,0 +1,95 @@
+// backend/lib/language.ts
+// Reply language: detected per message, falling back to the conversation and the user's saved preference
+
+// ============================================
+// Types
+// ============================================
+
+export const SUPPORTED_LANGUAGES = ['en', 'es'] as const;
+export type Language = typeof SUPPORTED_LANGUAGES[number];
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+export function isSupportedLanguage(value: unknown): value is Language {
+    return typeof value === 'string' && (SUPPORTED_LANGUAGES as readonly string[]).includes(value);
+}
+
+// ============================================
+// Detection
+// ============================================
+
+// Common words that are a strong hint on their own; words shared by both languages
+// ("no", "me", "a") are left out
+const SPANISH_WORDS = new Set([
+    'de', 'la', 'el', 'los', 'las', 'del', 'que', 'en', 'es', 'por', 'para', 'con', 'una', 'uno', 'mi', 'mis', 'tu',
+    'su', 'sus', 'yo', 'se', 'lo', 'le', 'pero', 'muy', 'tengo', 'tiene', 'estoy', 'está', 'esta', 'soy', 'hay',
+    'puedo', 'necesito', 'quiero', 'cómo', 'como', 'qué', 'cuál', 'cuánto', 'cuanto', 'sí', 'gracias', 'hola',
+    'buenas', 'buenos', 'días', 'dias', 'seguro', 'seguros', 'póliza', 'poliza', 'pólizas', 'cobertura', 'deducible',
+    'casa', 'coche', 'carro', 'hijo', 'hijos', 'también', 'porque', 'cuando', 'donde', 'dónde', 'ayuda', 'ayudar',
+]);
+
+const ENGLISH_WORDS = new Set([
+    'the', 'is', 'are', 'was', 'my', 'i', 'you', 'your', 'what', 'how', 'do', 'does', 'have', 'has', 'and', 'to',
+    'of', 'for', 'with', 'this', 'that', 'it', 'if', 'can', 'will', 'would', 'should', 'about', 'am', 'hi', 'hello',
+    'hey', 'thanks', 'thank', 'yes', 'insurance', 'policy', 'policies', 'coverage', 'covered', 'deductible',
+    'car', 'house', 'home', 'need', 'want', 'much', 'why', 'when', 'where', 'which', 'please',
+]);
+
+/**
+ * Best guess at the language of one message, or null when it is too short or mixed to tell
+ * ("ok", "$500", a VIN). Heuristic on purpose: it runs on every message before any model call.
+ */
+export function detectLanguage(text: string): Language | null {
+    const lower = text.toLowerCase();
+    const words = lower.match(/[a-záéíóúüñ]+/g) || [];
+
+    let spanish = /[¿¡ñ]/.test(lower) ? 2 : 0;
+    let english = 0;
+    for (const word of words) {
+        if (SPANISH_WORDS.has(word)) spanish++;
+        if (ENGLISH_WORDS.has(word)) english++;
+        if (/[áéíóú]/.test(word)) spanish += 0.5;
+    }
+
+    if (spanish < 1 && english < 1) return null;
+    if (spanish > english) return 'es';
+    if (english > spanish) return 'en';
+    return null;
+}
+
+/**
+ * Language to answer in: the message's own language, else the language of the user's
+ * previous message, else their saved preference.
+ */
+export function resolveReplyLanguage(
+    message: string,
+    options: { history?: Array<{ role: string; content: string }>; preferred?: Language | null } = {}
+): Language {
+    const detected = detectLanguage(message);
+    if (detected) return detected;
+
+    const previous = [...(options.history || [])].reverse().find(msg => msg.role === 'user');
+    const conversation = previous ? detectLanguage(previous.content) : null;
+
+    return conversation || options.preferred || DEFAULT_LANGUAGE;
+}
+
+// ============================================
+// Prompts
+// ============================================
+
+const REPLY_INSTRUCTIONS: Record<Language, string> = {
+    en: '',
+    es: `
+**Language** (CRITICAL):
+- The customer is writing in Spanish. Reply entirely in natural, neutral Spanish, using "usted" unless the customer writes with "tú".
+- Every rule above still applies in Spanish: plain text, the same length limits, and no coverage guarantees - say "está diseñado para cubrir", never "cubrirá" or "está cubierto".
+- Keep carrier names, form names (HO-3, PAP), dollar amounts and state codes as they are. The first time you use an English insurance term, explain it in Spanish, e.g. "ACV (valor real en efectivo)".`,
+};
+
+/**
+ * Instruction appended to a customer-facing prompt so the reply comes back in the given language
+ */
+export function replyLanguageInstruction(language: Language): string {
+    return REPLY_INSTRUCTIONS[language];
+}
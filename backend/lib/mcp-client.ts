@@ -6,10 +6,12 @@
  *
  * SECURITY ARCHITECTURE:
  * - The MCP server uses a Supabase access token (management API)
- * - User isolation is enforced via system prompts and query validation
+ * - User isolation is enforced by parsing and validating every query (lib/sql-validator.ts)
+ *   and by running it as the user, so RLS applies (runAsUser)
  * - All tool calls are logged for audit purposes
  */
 import dotenv from 'dotenv';
+import { MAX_SQL_ROWS, SQL_FUNCTIONS, SQL_TABLES, SqlTableRule, SqlUserScope } from './sql-validator';
 
 dotenv.config();
 
@@ -196,10 +198,8 @@ export async function executeMCPTool(
  */
 export function filterSafeTools(tools: MCPTool[]): MCPTool[] {
     const safePatterns = [
-        /^list_/,
-        /^get_/,
-        /^search_/,
-        /^execute_sql$/, // We control SQL via system prompt
+        // The list_/get_/search_ tools read project metadata and logs, not one user's data
+        /^execute_sql$/, // Every query passes validateSQLQuery
     ];
 
     const blockedPatterns = [
@@ -262,135 +262,84 @@ export function convertMCPToolsToVertexAI(mcpTools: MCPTool[]): any[] {
     });
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
 /**
- * Validates a SQL query for security before execution
+ * Wraps a validated query so it runs as the signed-in user: the statements switch to the
+ * authenticated role with the user's JWT claims, so RLS applies exactly as it does for
+ * req.supabase. The MCP server itself connects with a management token that would bypass RLS.
  *
- * CRITICAL: This is an additional layer of defense beyond system prompts
+ * There is no explicit BEGIN/COMMIT. execute_sql returns the last statement's rows, so the
+ * user's query must come last; the statements share the implicit transaction of a
+ * multi-statement query, which is what scopes SET LOCAL and the claims to this call.
  */
-export function validateSQLQuery(
-    query: string,
-    userId: string
-): { valid: boolean; error?: string } {
-    const lowerQuery = query.toLowerCase().trim();
-
-    // Block DDL statements
-    const ddlPatterns = [
-        /\bdrop\b/,
-        /\bcreate\b/,
-        /\balter\b/,
-        /\btruncate\b/,
-        /\bgrant\b/,
-        /\brevoke\b/,
-    ];
-
-    for (const pattern of ddlPatterns) {
-        if (pattern.test(lowerQuery)) {
-            return { valid: false, error: 'DDL statements are not permitted' };
-        }
-    }
-
-    // Check for user_id filter on sensitive tables
-    const sensitiveTablePatterns = [
-        /\bfrom\s+(policies|chat_sessions|conversations|documents|claims|users|user_documents)\b/i,
-    ];
-
-    for (const pattern of sensitiveTablePatterns) {
-        if (pattern.test(lowerQuery)) {
-            const hasUserFilter =
-                lowerQuery.includes(`user_id = '${userId}'`) ||
-                lowerQuery.includes(`user_id='${userId}'`) ||
-                lowerQuery.includes(`external_id = '${userId}'`) ||
-                lowerQuery.includes(`external_id='${userId}'`);
-
-            if (!hasUserFilter) {
-                return {
-                    valid: false,
-                    error: 'Queries on user data must include user_id filter',
-                };
-            }
-        }
+export function runAsUser(query: string, authUserId: string): string {
+    if (!UUID_PATTERN.test(authUserId)) {
+        throw new Error('Cannot run a query for a malformed user id');
     }
 
-    // Check for SQL injection patterns
-    const injectionPatterns = [
-        /;\s*--/,
-        /'\s*or\s+'?1'?\s*=\s*'?1/i,
-        /\bunion\s+select\b/i,
-        /\binto\s+outfile\b/i,
-    ];
-
-    for (const pattern of injectionPatterns) {
-        if (pattern.test(lowerQuery)) {
-            return { valid: false, error: 'Query contains suspicious patterns' };
-        }
-    }
-
-    return { valid: true };
+    const claims = JSON.stringify({ sub: authUserId, role: 'authenticated' });
+    return [
+        'SET LOCAL ROLE authenticated',
+        `SELECT set_config('request.jwt.claims', '${claims}', true)`,
+        query.trim().replace(/;+$/, ''),
+    ].join(';\n') + ';';
 }
 
 /**
  * Generates the secure system prompt section for database access
  */
-export function generateDatabaseSecurityPrompt(userId: string): string {
+export function generateDatabaseSecurityPrompt(scope: SqlUserScope): string {
+    const filterFor = (rule: SqlTableRule) => {
+        if (!rule.owner) return 'shared reference table, no user filter needed';
+        const id = rule.owner.id === 'auth' ? `'${scope.authUserId}'` : String(scope.internalUserId ?? 'none on file');
+        return `WHERE ${rule.owner.column} = ${id}`;
+    };
+    const tables = Object.entries(SQL_TABLES)
+        .map(([table, rule]) => `   - \`${table}\` (${filterFor(rule)}): ${rule.columns.join(', ')}`)
+        .join('\n');
+
     return `
 ## DATABASE ACCESS SECURITY (MANDATORY)
 
-You have access to database tools via the Supabase MCP server.
+You have access to the execute_sql tool via the Supabase MCP server. Every query is parsed and checked before it runs; queries that break these rules are rejected with the reason.
 
 ### AUTHENTICATED USER
-- **User ID**: \`${userId}\`
+- **Auth user ID** (user_documents): \`${scope.authUserId}\`
+- **Account ID** (policies, claims, chat_sessions): \`${scope.internalUserId ?? 'none on file'}\`
 
 ### CRITICAL CONSTRAINTS (NO EXCEPTIONS)
 
-1. **USER ISOLATION**: You MUST include \`WHERE user_id = '${userId}'\` in EVERY query on user data tables.
-
-2. **ALLOWED TABLES & REQUIRED FILTERS**:
-   - \`user_documents\`: WHERE user_id = '${userId}' - Contains uploaded policy documents with GCS references
-   - \`policies\`: WHERE user_id = '${userId}'
-   - \`chat_sessions\`: WHERE user_id = '${userId}'
-   - \`conversations\`: WHERE session_id IN (SELECT id FROM chat_sessions WHERE user_id = '${userId}')
-
-3. **USER_DOCUMENTS TABLE SCHEMA** (for policy document queries):
-   - \`id\`: Document ID (bigint)
-   - \`user_id\`: Owner's user ID
-   - \`document_type\`: Type of document ('policy', 'id_card', 'claim', 'other')
-   - \`policy_type\`: Insurance type ('auto', 'home', 'renters', 'umbrella', 'life', 'health', 'other')
-   - \`file_name\`: Original uploaded file name
-   - \`gcs_uri\`: Google Cloud Storage URI (auto-generated)
-   - \`carrier_name\`: Insurance carrier/company name
-   - \`policy_number\`: Policy number if extracted
-   - \`analysis_summary\`: AI-generated analysis of the policy
-   - \`extracted_data\`: JSON with extracted policy details
-   - \`status\`: Document status ('active', 'archived', 'deleted')
-   - \`uploaded_at\`: Upload timestamp
-
-4. **FORBIDDEN OPERATIONS**:
-   - Queries without user_id filter on user data
-   - DDL statements (CREATE, DROP, ALTER, TRUNCATE)
-   - Queries accessing other users' data
-   - UNION or subqueries that bypass filters
+1. **USER ISOLATION**: Every user table you read needs its user filter ANDed into the WHERE clause - never inside an OR, and not only in a JOIN condition. When you join two user tables, filter both (e.g. \`WHERE c.user_id = ... AND p.user_id = ...\`).
+
+2. **ALLOWED TABLES, FILTERS AND COLUMNS** (name the columns you need - SELECT * is rejected):
+${tables}
+
+3. **FORBIDDEN**:
+   - Anything but a single SELECT statement
+   - WITH, UNION, subqueries, window functions and row locking
+   - Tables, schemas and columns not listed above
+   - Functions other than ${[...SQL_FUNCTIONS].join(', ')}
+
+4. **ROW LIMIT**: At most ${MAX_SQL_ROWS} rows come back; a higher LIMIT is lowered.
 
 5. **SAFE QUERY EXAMPLES**:
    \`\`\`sql
    -- Get user's uploaded policy documents
    SELECT id, policy_type, carrier_name, analysis_summary, uploaded_at
    FROM user_documents
-   WHERE user_id = '${userId}' AND status = 'active'
+   WHERE user_id = '${scope.authUserId}' AND status = 'active'
    ORDER BY uploaded_at DESC;
 
-   -- Get a specific policy type
-   SELECT * FROM user_documents
-   WHERE user_id = '${userId}' AND policy_type = 'auto' AND status = 'active';
-
-   -- Get chat sessions
-   SELECT * FROM chat_sessions WHERE user_id = '${userId}' ORDER BY created_at DESC LIMIT 10;
+   -- Policies with their carrier
+   SELECT p.policy_number, p.policy_type, p.end_date, c.name
+   FROM policies p JOIN carrier c ON c.id = p.carrier_id
+   WHERE p.user_id = ${scope.internalUserId ?? 0};
    \`\`\`
 
 6. **WHEN TO USE DATABASE**:
    - Fetching user's uploaded policy documents and their analysis
-   - Getting chat session history
-   - Looking up user preferences or settings
-   - Finding which policies the user has uploaded
+   - Looking up the user's policies, claims and chat sessions
    - Do NOT use for general insurance knowledge (use Uri for that)
 `;
 }
@@ -0,0 +1,350 @@
+// backend/lib/model-client.ts
+// Provider-neutral LLM client: one interface for text, multimodal and tool-calling generation
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { FunctionDeclaration, GenerateContentResult, VertexAI } from '@google-cloud/vertexai';
+
+// ============================================
+// Types
+// ============================================
+
+export type ModelPart =
+    | { text: string }
+    | { inlineData: { mimeType: string; data: string } }
+    | { functionCall: { name: string; args: Record<string, unknown> } }
+    | { functionResponse: { name: string; response: object } };
+
+export interface ModelMessage {
+    role: 'user' | 'model';
+    parts: ModelPart[];
+}
+
+export interface GenerateOptions {
+    temperature?: number;
+    maxOutputTokens?: number;
+    /** e.g. 'application/json' for structured output */
+    responseMimeType?: string;
+}
+
+/**
+ * A function the model may call - name, description and a JSON schema for its arguments
+ */
+export interface ToolDeclaration {
+    name: string;
+    description?: string;
+    parameters?: Record<string, unknown>;
+}
+
+export interface ModelFunctionCall {
+    name: string;
+    args: Record<string, unknown>;
+}
+
+/**
+ * Tokens billed for one call; thinking tokens count as output
+ */
+export interface ModelUsage {
+    promptTokens: number;
+    outputTokens: number;
+}
+
+export interface ModelResponse {
+    /** All text parts joined - empty when the model only called tools */
+    text: string;
+    /** Provider finish reason, e.g. STOP, MAX_TOKENS, SAFETY (null when the provider gave none) */
+    finishReason: string | null;
+    /** The output hit the token limit and may end mid-sentence */
+    truncated: boolean;
+    functionCalls: ModelFunctionCall[];
+    /** Raw parts, to append to the conversation when continuing a tool loop */
+    parts: ModelPart[];
+    /** Token counts reported by the provider (absent for fakes and older recordings) */
+    usage?: ModelUsage | null;
+}
+
+/**
+ * Everything a client needs to answer one call - also the unit recorded for replay
+ */
+export interface ModelRequest {
+    model: string;
+    messages: ModelMessage[];
+    tools: ToolDeclaration[];
+    options: GenerateOptions;
+}
+
+export interface ModelClient {
+    readonly model: string;
+    /** A plain prompt string is sent as a single user message */
+    generate(input: string | ModelMessage[], options?: GenerateOptions): Promise<ModelResponse>;
+    generateWithTools(messages: ModelMessage[], tools: ToolDeclaration[], options?: GenerateOptions): Promise<ModelResponse>;
+}
+
+export function toMessages(input: string | ModelMessage[]): ModelMessage[] {
+    return typeof input === 'string' ? [{ role: 'user', parts: [{ text: input }] }] : input;
+}
+
+/**
+ * A file passed to the model alongside the prompt (PDFs, images)
+ */
+export function inlineFilePart(buffer: Buffer, mimeType: string): ModelPart {
+    return { inlineData: { mimeType, data: buffer.toString('base64') } };
+}
+
+/**
+ * Concatenated text of the user side of a request - what fakes match prompts against
+ */
+export function requestPromptText(request: ModelRequest): string {
+    return request.messages
+        .filter(message => message.role === 'user')
+        .flatMap(message => message.parts)
+        .map(part => ('text' in part ? part.text : ''))
+        .join('\n');
+}
+
+export function textResponse(text: string, finishReason: string = 'STOP'): ModelResponse {
+    return {
+        text,
+        finishReason,
+        truncated: finishReason === 'MAX_TOKENS',
+        functionCalls: [],
+        parts: [{ text }],
+    };
+}
+
+// ============================================
+// Vertex AI (production)
+// ============================================
+
+function toVertexResponse(result: GenerateContentResult): ModelResponse {
+    const candidate = result.response.candidates?.[0];
+    const parts: ModelPart[] = [];
+
+    for (const part of candidate?.content?.parts || []) {
+        if (part.functionCall) {
+            parts.push({ functionCall: { name: part.functionCall.name, args: (part.functionCall.args || {}) as Record<string, unknown> } });
+        } else if (typeof part.text === 'string') {
+            parts.push({ text: part.text });
+        }
+    }
+
+    const finishReason = candidate?.finishReason || null;
+    return {
+        text: parts.map(part => ('text' in part ? part.text : '')).join(''),
+        finishReason,
+        truncated: finishReason === 'MAX_TOKENS',
+        functionCalls: parts.flatMap(part => ('functionCall' in part ? [part.functionCall] : [])),
+        parts,
+        usage: toVertexUsage(result),
+    };
+}
+
+// Gemini 2.5 reports thinking tokens separately (not yet in the SDK's types); they are billed as output
+function toVertexUsage(result: GenerateContentResult): ModelUsage | null {
+    const metadata = result.response.usageMetadata as
+        | { promptTokenCount?: number; candidatesTokenCount?: number; thoughtsTokenCount?: number }
+        | undefined;
+    if (!metadata) return null;
+
+    return {
+        promptTokens: metadata.promptTokenCount || 0,
+        outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+    };
+}
+
+export class VertexModelClient implements ModelClient {
+    private readonly vertexAI: VertexAI;
+
+    constructor(readonly model: string, config: { project: string; location: string }) {
+        this.vertexAI = new VertexAI({ project: config.project, location: config.location });
+    }
+
+    generate(input: string | ModelMessage[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.call(toMessages(input), [], options);
+    }
+
+    generateWithTools(messages: ModelMessage[], tools: ToolDeclaration[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.call(messages, tools, options);
+    }
+
+    private async call(messages: ModelMessage[], tools: ToolDeclaration[], options: GenerateOptions): Promise<ModelResponse> {
+        const model = this.vertexAI.getGenerativeModel({
+            model: this.model,
+            ...(tools.length > 0 ? { tools: [{ functionDeclarations: tools as FunctionDeclaration[] }] } : {}),
+        });
+
+        const result = await model.generateContent({
+            contents: messages,
+            generationConfig: options,
+        });
+        return toVertexResponse(result);
+    }
+}
+
+// ============================================
+// Fake (deterministic, offline)
+// ============================================
+
+export type FakeResponder = (request: ModelRequest) => string | ModelResponse;
+
+// Good enough to walk every code path offline: JSON callers get an empty object, everything else a fixed line
+export const defaultFakeResponder: FakeResponder = request => {
+    if (request.options.responseMimeType === 'application/json') return '{}';
+    return 'This is an offline response - no language model is configured.';
+};
+
+/**
+ * Answers every call with the responder's output. Same request in, same response out.
+ */
+export class FakeModelClient implements ModelClient {
+    constructor(readonly model: string = 'fake', private readonly responder: FakeResponder = defaultFakeResponder) {}
+
+    generate(input: string | ModelMessage[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.call({ model: this.model, messages: toMessages(input), tools: [], options });
+    }
+
+    generateWithTools(messages: ModelMessage[], tools: ToolDeclaration[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.call({ model: this.model, messages, tools, options });
+    }
+
+    private async call(request: ModelRequest): Promise<ModelResponse> {
+        const reply = this.responder(request);
+        return typeof reply === 'string' ? textResponse(reply) : reply;
+    }
+}
+
+// ============================================
+// Recorded (record against a live client, replay offline)
+// ============================================
+
+export interface ModelRecording {
+    version: 1;
+    responses: Record<string, ModelResponse>;
+}
+
+export function emptyModelRecording(): ModelRecording {
+    return { version: 1, responses: {} };
+}
+
+export function loadModelRecording(file: string): ModelRecording {
+    if (!fs.existsSync(file)) return emptyModelRecording();
+
+    const recording = JSON.parse(fs.readFileSync(file, 'utf8')) as ModelRecording;
+    if (recording.version !== 1) {
+        throw new Error(`Unsupported model recording version in ${file}`);
+    }
+    return recording;
+}
+
+export function saveModelRecording(file: string, recording: ModelRecording): void {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(recording, null, 2) + '\n');
+}
+
+// The same model, messages, tools and settings always map to the same key
+export function modelRequestKey(request: ModelRequest): string {
+    return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+export class ModelReplayMissError extends Error {
+    constructor(model: string) {
+        super(`No recorded ${model} response for this request - record it against a live model first`);
+        this.name = 'ModelReplayMissError';
+    }
+}
+
+/**
+ * With a live client, passes calls through and records the responses; without one, replays
+ * them. onRecord runs after every new response (e.g. to persist the recording).
+ */
+export class RecordedModelClient implements ModelClient {
+    readonly model: string;
+    private readonly onRecord?: () => void;
+
+    constructor(
+        private readonly recording: ModelRecording,
+        private readonly live: ModelClient | null,
+        options: { model?: string; onRecord?: () => void } = {}
+    ) {
+        this.model = live?.model || options.model || 'recorded';
+        this.onRecord = options.onRecord;
+    }
+
+    generate(input: string | ModelMessage[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.call({ model: this.model, messages: toMessages(input), tools: [], options });
+    }
+
+    generateWithTools(messages: ModelMessage[], tools: ToolDeclaration[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.call({ model: this.model, messages, tools, options });
+    }
+
+    private async call(request: ModelRequest): Promise<ModelResponse> {
+        const key = modelRequestKey(request);
+
+        if (!this.live) {
+            const recorded = this.recording.responses[key];
+            if (!recorded) throw new ModelReplayMissError(this.model);
+            return recorded;
+        }
+
+        const response = request.tools.length > 0
+            ? await this.live.generateWithTools(request.messages, request.tools, request.options)
+            : await this.live.generate(request.messages, request.options);
+
+        this.recording.responses[key] = response;
+        this.onRecord?.();
+        return response;
+    }
+}
+
+// ============================================
+// Metered (usage and latency of every call)
+// ============================================
+
+export interface ModelCallMetrics {
+    model: string;
+    usage: ModelUsage | null;
+    latencyMs: number;
+    success: boolean;
+}
+
+/**
+ * Passes calls through to another client and reports each one's token usage and latency,
+ * including calls that throw. A failing onCall never affects the response.
+ */
+export class MeteredModelClient implements ModelClient {
+    readonly model: string;
+
+    constructor(private readonly inner: ModelClient, private readonly onCall: (metrics: ModelCallMetrics) => void) {
+        this.model = inner.model;
+    }
+
+    generate(input: string | ModelMessage[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.measure(() => this.inner.generate(input, options));
+    }
+
+    generateWithTools(messages: ModelMessage[], tools: ToolDeclaration[], options: GenerateOptions = {}): Promise<ModelResponse> {
+        return this.measure(() => this.inner.generateWithTools(messages, tools, options));
+    }
+
+    private async measure(call: () => Promise<ModelResponse>): Promise<ModelResponse> {
+        const startedAt = Date.now();
+        let response: ModelResponse | null = null;
+        try {
+            response = await call();
+            return response;
+        } finally {
+            try {
+                this.onCall({
+                    model: this.model,
+                    usage: response?.usage ?? null,
+                    latencyMs: Date.now() - startedAt,
+                    success: response !== null,
+                });
+            } catch (error) {
+                console.error('⚠️ Model usage callback failed:', error);
+            }
+        }
+    }
+}
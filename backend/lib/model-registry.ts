@@ -0,0 +1,175 @@
+// backend/lib/model-registry.ts
+// Which model each agent and service uses, chosen from the environment
+//
+//   MODEL_PROVIDER         vertex (default) | fake | replay
+//   MODEL_RECORDING_FILE   with vertex: record every response to this file; with replay: serve them from it
+//   MODEL_<PURPOSE>        model name override, e.g. MODEL_RAI=gemini-2.5-flash
+//   VERTEX_LOCATION        Vertex AI region (default us-central1)
+
+import path from 'path';
+import dotenv from 'dotenv';
+import {
+    FakeModelClient,
+    loadModelRecording,
+    MeteredModelClient,
+    ModelCallMetrics,
+    ModelClient,
+    ModelRecording,
+    RecordedModelClient,
+    saveModelRecording,
+    VertexModelClient,
+} from './model-client';
+
+dotenv.config();
+
+export type ModelPurpose =
+    | 'sam'
+    | 'uri'
+    | 'rai'
+    | 'intent'
+    | 'document_analysis'
+    | 'policy_extraction'
+    | 'session_summary'
+    | 'memory_extraction'
+    | 'claim_intake';
+
+type ModelProvider = 'vertex' | 'fake' | 'replay';
+
+// Embeddings come from lib/embedder rather than a model client, but are metered the same way
+export type MeteredPurpose = ModelPurpose | 'embedding';
+
+/**
+ * One model call, tagged with the agent or service that made it
+ */
+export interface ModelCallEvent extends ModelCallMetrics {
+    purpose: MeteredPurpose;
+}
+
+export type ModelUsageListener = (event: ModelCallEvent) => void;
+
+const DEFAULT_MODELS: Record<ModelPurpose, string> = {
+    sam: 'gemini-2.5-flash',
+    uri: 'gemini-2.5-flash',
+    rai: 'gemini-2.5-pro',
+    intent: 'gemini-2.5-flash',
+    document_analysis: 'gemini-2.5-flash',
+    policy_extraction: 'gemini-2.5-flash',
+    session_summary: 'gemini-2.0-flash-lite',
+    memory_extraction: 'gemini-2.5-flash',
+    claim_intake: 'gemini-2.5-flash',
+};
+
+const clients = new Map<ModelPurpose, ModelClient>();
+const overrides = new Map<ModelPurpose, ModelClient>();
+
+// One recording shared by every purpose, loaded on first use
+let recording: { file: string; data: ModelRecording } | null = null;
+
+// Receives every call made through a configured client (overrides set by evals are not metered)
+let usageListener: ModelUsageListener | null = null;
+
+function getProvider(): ModelProvider {
+    const provider = (process.env.MODEL_PROVIDER || 'vertex').toLowerCase();
+    if (provider !== 'vertex' && provider !== 'fake' && provider !== 'replay') {
+        throw new Error(`Unknown MODEL_PROVIDER "${provider}" (expected vertex, fake or replay)`);
+    }
+    return provider;
+}
+
+function getRecording(): { file: string; data: ModelRecording } {
+    if (!recording) {
+        const file = process.env.MODEL_RECORDING_FILE;
+        if (!file) {
+            throw new Error('Missing MODEL_RECORDING_FILE environment variable');
+        }
+        const resolved = path.resolve(file);
+        recording = { file: resolved, data: loadModelRecording(resolved) };
+    }
+    return recording;
+}
+
+/**
+ * Model name for a purpose: MODEL_<PURPOSE> if set, otherwise the default
+ */
+export function getModelName(purpose: ModelPurpose): string {
+    return process.env[`MODEL_${purpose.toUpperCase()}`] || DEFAULT_MODELS[purpose];
+}
+
+function createClient(purpose: ModelPurpose): ModelClient {
+    return new MeteredModelClient(createProviderClient(purpose), (metrics) => usageListener?.({ ...metrics, purpose }));
+}
+
+function createProviderClient(purpose: ModelPurpose): ModelClient {
+    const model = getModelName(purpose);
+    const provider = getProvider();
+
+    if (provider === 'fake') {
+        return new FakeModelClient(model);
+    }
+    if (provider === 'replay') {
+        return new RecordedModelClient(getRecording().data, null, { model });
+    }
+
+    const project = process.env.GOOGLE_PROJECT_ID;
+    if (!project) {
+        console.error('❌ GOOGLE_PROJECT_ID environment variable is not set');
+        throw new Error('Missing GOOGLE_PROJECT_ID environment variable');
+    }
+
+    const live = new VertexModelClient(model, {
+        project,
+        location: process.env.VERTEX_LOCATION || 'us-central1',
+    });
+
+    if (!process.env.MODEL_RECORDING_FILE) {
+        return live;
+    }
+
+    const { file, data } = getRecording();
+    return new RecordedModelClient(data, live, { onRecord: () => saveModelRecording(file, data) });
+}
+
+/**
+ * The client for a purpose - created lazily so importing a module never requires credentials
+ */
+export function getModelClient(purpose: ModelPurpose): ModelClient {
+    const override = overrides.get(purpose);
+    if (override) return override;
+
+    let client = clients.get(purpose);
+    if (!client) {
+        client = createClient(purpose);
+        console.log(`🤖 ${purpose} model: ${client.model} (${getProvider()})`);
+        clients.set(purpose, client);
+    }
+    return client;
+}
+
+/**
+ * Swap the client for a purpose (used by evals and local harnesses); pass null to restore the configured one
+ */
+export function setModelClient(purpose: ModelPurpose, client: ModelClient | null): void {
+    if (client) {
+        overrides.set(purpose, client);
+    } else {
+        overrides.delete(purpose);
+    }
+}
+
+/**
+ * Register the sink for per-call usage (token counts, latency); pass null to stop reporting
+ */
+export function setModelUsageListener(listener: ModelUsageListener | null): void {
+    usageListener = listener;
+}
+
+/**
+ * Report a call made outside the clients above (embeddings) to the same listener
+ */
+export function reportModelCall(event: ModelCallEvent): void {
+    try {
+        usageListener?.(event);
+    } catch (error) {
+        console.error('⚠️ Model usage callback failed:', error);
+    }
+}
@@ -0,0 +1,303 @@
+// backend/lib/output-policy.ts
+// Output policies Sam's replies pass before the user sees them. Each policy is a named rewrite
+// of the reply text; the pipeline reports which ones changed it, so they can be logged per message.
+
+import { Language } from './language';
+
+// ============================================
+// Types
+// ============================================
+
+export interface OutputPolicyContext {
+    language: Language;
+    /** The model hit its token limit - the reply may end mid-sentence */
+    truncated?: boolean;
+    /** Ask the model to write the rest of a cut-off reply; resolves to the missing text only */
+    continueReply?: (partial: string) => Promise<string>;
+}
+
+export interface OutputPolicy {
+    name: string;
+    /** Returns the text unchanged when the policy does not apply */
+    apply: (text: string, context: OutputPolicyContext) => string | Promise<string>;
+}
+
+export interface OutputPolicyResult {
+    text: string;
+    /** Names of the policies that changed the text, in the order they ran */
+    fired: string[];
+}
+
+// Said instead of a reply that was nothing but internal details
+const SAFE_FALLBACK: Record<Language, string> = {
+    en: "I'm having trouble with that right now. Please try again.",
+    es: 'Estoy teniendo problemas con eso en este momento. Por favor intente de nuevo.',
+};
+
+// ============================================
+// Sentences
+// ============================================
+
+// Sentences with their trailing punctuation, closing quotes and whitespace, so joining them
+// back gives the original text
+function splitSentences(text: string): string[] {
+    return text.match(/[^.!?\n]+(?:[.!?]+["')\]]*|\n|$)\s*|[.!?\n]+\s*/g) || [];
+}
+
+// Drop the sentences a test matches; the safe fallback stands in if nothing is left
+function dropSentences(text: string, matches: (sentence: string) => boolean, language: Language): string {
+    const sentences = splitSentences(text);
+    const kept = sentences.filter(sentence => !matches(sentence));
+    if (kept.length === sentences.length) return text;
+
+    const remaining = kept.join('').trim();
+    return remaining || SAFE_FALLBACK[language];
+}
+
+function endsCleanly(text: string): boolean {
+    return /[.!?]["')\]]*$/.test(text.trim());
+}
+
+// Cut a reply back to its last complete sentence (kept from the old post-processing as the
+// fallback when a cut-off reply can't be continued)
+export function trimToLastSentence(text: string): string {
+    const trimmed = text.trim();
+    if (endsCleanly(trimmed)) return trimmed;
+
+    // Find the last complete sentence
+    const lastSentenceEnd = Math.max(
+        trimmed.lastIndexOf('. '),
+        trimmed.lastIndexOf('! '),
+        trimmed.lastIndexOf('? '),
+        trimmed.lastIndexOf('.\n'),
+        trimmed.lastIndexOf('!\n'),
+        trimmed.lastIndexOf('?\n')
+    );
+
+    // If we have at least half the response with complete sentences, use that
+    if (lastSentenceEnd > trimmed.length * 0.5) {
+        return trimmed.substring(0, lastSentenceEnd + 1).trim();
+    }
+
+    // Otherwise, try to end at the last period
+    const lastPeriod = trimmed.lastIndexOf('.');
+    if (lastPeriod > trimmed.length * 0.3) {
+        return trimmed.substring(0, lastPeriod + 1).trim();
+    }
+
+    return trimmed;
+}
+
+// ============================================
+// Policies
+// ============================================
+
+/**
+ * A reply cut off by the token limit is finished by the model from its last complete sentence.
+ * If that fails or is cut off too, the reply is trimmed back to its last complete sentence.
+ */
+export const repairTruncation: OutputPolicy = {
+    name: 'truncation_repair',
+    async apply(text, context) {
+        if (!context.truncated || endsCleanly(text)) return text;
+
+        const complete = trimToLastSentence(text);
+        if (context.continueReply) {
+            // Continue from a sentence boundary so the two parts never meet mid-word
+            const partial = endsCleanly(complete) ? complete : text.trim();
+            try {
+                const continuation = (await context.continueReply(partial)).trim();
+                const repaired = `${partial} ${continuation}`.trim();
+                if (continuation && endsCleanly(repaired)) {
+                    return repaired;
+                }
+                console.warn('⚠️ Continuation of truncated reply was empty or cut off, trimming instead');
+            } catch (error) {
+                console.warn('⚠️ Could not continue truncated reply, trimming instead:', error);
+            }
+        }
+        return complete;
+    },
+};
+
+/**
+ * Markdown the chat renders literally - bold, italics, headers, inline code and links (keeping the text)
+ */
+export const stripMarkdown: OutputPolicy = {
+    name: 'markdown',
+    apply: text => text
+        .replace(/\*\*([^*]+)\*\*/g, '$1')  // Remove bold **text**
+        .replace(/\*([^*]+)\*/g, '$1')      // Remove italic *text*
+        .replace(/#{1,6}\s/g, '')           // Remove headers
+        .replace(/`([^`]+)`/g, '$1')        // Remove code blocks
+        .replace(/\[([^\]]+)\]\([^)]+\)/g, '$1'), // Remove links but keep text
+};
+
+// Subjects that take "are" ("they will cover" → "they are designed to cover")
+const PLURAL_SUBJECTS = new Set(['they', 'we', 'you', 'both', 'these', 'those', 'all']);
+const SINGULAR_ENDING_IN_S = new Set(['this', 'its', 'his', 'hers', 'ours', 'yours', 'theirs', 'gus', 'bus']);
+
+function designedToCover(subject: string): string {
+    const word = subject.toLowerCase();
+    const plural = PLURAL_SUBJECTS.has(word)
+        || (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us') && !SINGULAR_ENDING_IN_S.has(word));
+    return `${subject} ${plural ? 'are' : 'is'} designed to cover`;
+}
+
+/**
+ * Compliance wording: coverage is "designed to cover", never promised
+ */
+export const softenGuarantees: OutputPolicy = {
+    name: 'guarantee_language',
+    apply: text => text
+        .replace(/\b([A-Za-z']+)\s+will\s+(?:definitely\s+|always\s+|fully\s+|certainly\s+)?cover\b/g, (_match, subject: string) => designedToCover(subject))
+        .replace(/\b(is|are)\s+(?:going\s+to|guaranteed\s+to)\s+(?:definitely\s+|always\s+|fully\s+)?cover\b/gi, '$1 designed to cover')
+        .replace(/\b(?:100%|completely|fully)\s+(covered|protected)\b/gi, '$1')
+        .replace(/\bguaranteed\s+(coverage|protection|payout)\b/gi, '$1')
+        // \b stops at accented letters, so the Spanish forms end on a lookahead instead
+        .replace(/\bcubrirán(?![a-záéíóúüñ])/gi, 'están diseñados para cubrir')
+        .replace(/\bcubrirá(?![a-záéíóúüñ])/gi, 'está diseñado para cubrir'),
+};
+
+const INFRASTRUCTURE_PATTERNS = [
+    /\bsupabase\b/i,
+    /\b(google cloud|gcp|gcs|vertex|gemini|discovery ?engine|cloud storage)\b/i,
+    /\bgs:\/\/\S+/i,
+    /\bstorage bucket\b/i,
+    /\bproject[ _-]?ids?\b/i,
+    /\bprojects\/[a-z0-9-]+/i,
+    /\b(mcp|function calls?|tool calls?)\b/i,
+    // Our tool and table names (execute_sql, get_coverage_limits, chat_sessions, ...) - snake_case
+    // never turns up in ordinary prose, where "database" or "endpoint" may
+    /\b[a-z]+(?:_[a-z0-9]+)+\b/,
+    /\b(postgres(?:ql)?|postgrest|row[ -]level security)\b/i,
+    /\b(stack trace|api key|service role)\b/i,
+    /\b(TypeError|ReferenceError|ECONNREFUSED|ETIMEDOUT)\b/,
+];
+
+function mentionsInfrastructure(sentence: string): boolean {
+    const projectId = process.env.GOOGLE_PROJECT_ID;
+    return INFRASTRUCTURE_PATTERNS.some(pattern => pattern.test(sentence))
+        || Boolean(projectId && sentence.includes(projectId));
+}
+
+/**
+ * Sentences naming backend services, cloud projects, tools or errors are dropped
+ */
+export const removeInfrastructureLeaks: OutputPolicy = {
+    name: 'infrastructure_leak',
+    apply: (text, context) => dropSentences(text, mentionsInfrastructure, context.language),
+};
+
+// Agent names are matched case-sensitively so "URI" in a sentence is left alone
+const AGENT_NAMES = /\b(Uri|Rai)\b/;
+const COLLEAGUES = /\bmy (colleague|teammate|team)s?\b/i;
+const LEADING_ATTRIBUTION = new RegExp(
+    '^(\\s*)(?:' +
+    '(?:[Aa]ccording to|[Pp]er|[Aa]s) (?:Uri|Rai)(?: and (?:Uri|Rai))?(?: (?:said|says|noted|found|mentioned))?,?\\s*' +
+    '|(?:Uri|Rai)(?: and (?:Uri|Rai))? (?:said|says|thinks|found|noted|mentioned|suggested|recommends?)(?: that)?,?\\s*' +
+    ')'
+);
+
+function mentionsAgent(sentence: string): boolean {
+    return AGENT_NAMES.test(sentence) || COLLEAGUES.test(sentence);
+}
+
+// "According to Uri, the deductible applies" → "The deductible applies"
+function dropAttribution(sentence: string): string {
+    const match = sentence.match(LEADING_ATTRIBUTION);
+    if (!match) return sentence;
+
+    const rest = sentence.slice(match[0].length);
+    return match[1] + rest.charAt(0).toUpperCase() + rest.slice(1);
+}
+
+/**
+ * Sam is the only voice: "According to Uri, ..." loses the attribution, and any other sentence
+ * naming the internal agents or colleagues is dropped
+ */
+export const removeAgentNames: OutputPolicy = {
+    name: 'internal_agent_names',
+    apply(text, context) {
+        if (!mentionsAgent(text)) return text;
+
+        const rewritten = splitSentences(text).map(dropAttribution).join('');
+        return dropSentences(rewritten, mentionsAgent, context.language);
+    },
+};
+
+// Luhn check, so policy and claim numbers that merely look long are left alone
+function isCardNumber(digits: string): boolean {
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) digit -= 9;
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+/**
+ * Social security and payment card numbers the user shared are never repeated back in full
+ */
+export const maskPersonalData: OutputPolicy = {
+    name: 'pii_echo',
+    apply: text => text
+        .replace(/\b\d{3}[- ]\d{2}[- ](\d{4})\b/g, '***-**-$1')
+        .replace(/\b[3-6](?:[ -]?\d){12,18}\b/g, match => {
+            const digits = match.replace(/\D/g, '');
+            return isCardNumber(digits) ? `**** ${digits.slice(-4)}` : match;
+        }),
+};
+
+/**
+ * Links - only for replies that must never carry one (the upload button is added by the frontend)
+ */
+export const stripUrls: OutputPolicy = {
+    name: 'urls',
+    apply: text => text.replace(/https?:\/\/[^\s]+/g, ''),
+};
+
+// ============================================
+// Pipeline
+// ============================================
+
+// Truncation runs first so the continuation passes every other policy too
+export const SAM_OUTPUT_POLICIES: OutputPolicy[] = [
+    repairTruncation,
+    stripMarkdown,
+    softenGuarantees,
+    removeInfrastructureLeaks,
+    removeAgentNames,
+    maskPersonalData,
+];
+
+/**
+ * Run a reply through the policies in order. A policy that throws is skipped - post-processing
+ * must never cost the user their answer.
+ */
+export async function applyOutputPolicies(
+    text: string,
+    context: OutputPolicyContext,
+    policies: OutputPolicy[] = SAM_OUTPUT_POLICIES
+): Promise<OutputPolicyResult> {
+    let current = text;
+    const fired: string[] = [];
+
+    for (const policy of policies) {
+        try {
+            const next = await policy.apply(current, context);
+            if (next !== current) {
+                fired.push(policy.name);
+                current = next;
+            }
+        } catch (error) {
+            console.error(`⚠️ Output policy ${policy.name} failed:`, error);
+        }
+    }
+
+    return { text: current.trim(), fired };
+}
@@ -0,0 +1,180 @@
+// backend/lib/prompt-registry.ts
+// Which version of each prompt is used, chosen per user by experiments or from the environment
+//
+//   PROMPT_VERSION_<ID>    pin a version for everyone, e.g. PROMPT_VERSION_RAI_REVIEW=v2 (wins over experiments)
+//
+// Prompt texts and experiments live in ./prompts.
+
+import crypto from 'crypto';
+import { PROMPT_EXPERIMENTS, PROMPTS, PromptId, PromptVariables } from './prompts';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PromptDefinition<V> {
+    description: string;
+    /** Version used outside experiments */
+    defaultVersion: string;
+    versions: Record<string, (vars: V) => string>;
+}
+
+export interface PromptExperiment {
+    id: string;
+    promptId: PromptId;
+    enabled: boolean;
+    /** Versions to compare; users are split in proportion to the weights */
+    variants: Array<{ version: string; weight: number }>;
+}
+
+export interface PromptSelection {
+    promptId: PromptId;
+    version: string;
+    /** Set when the version was assigned by an experiment */
+    experimentId?: string;
+}
+
+/**
+ * Prompt versions behind one reply, stored with the assistant message
+ */
+export interface PromptRecord {
+    /** Version of every prompt rendered for the reply, by prompt id */
+    versions: Partial<Record<PromptId, string>>;
+    /** Variant served in each experiment the reply took part in, by experiment id */
+    experiments: Record<string, string>;
+}
+
+// ============================================
+// Experiments
+// ============================================
+
+// A broken experiment is a code change that must not ship, so it fails at startup
+function validateExperiments(experiments: PromptExperiment[]): void {
+    const running = new Set<PromptId>();
+
+    for (const experiment of experiments) {
+        const prompt = PROMPTS[experiment.promptId];
+        if (!prompt) {
+            throw new Error(`Prompt experiment "${experiment.id}" targets unknown prompt "${experiment.promptId}"`);
+        }
+        if (experiment.variants.length === 0) {
+            throw new Error(`Prompt experiment "${experiment.id}" has no variants`);
+        }
+        for (const variant of experiment.variants) {
+            if (!prompt.versions[variant.version]) {
+                throw new Error(`Prompt experiment "${experiment.id}" uses unknown version ${experiment.promptId}@${variant.version}`);
+            }
+            if (!(variant.weight > 0)) {
+                throw new Error(`Prompt experiment "${experiment.id}" has a non-positive weight for ${variant.version}`);
+            }
+        }
+        if (experiment.enabled) {
+            if (running.has(experiment.promptId)) {
+                throw new Error(`More than one enabled experiment for prompt "${experiment.promptId}"`);
+            }
+            running.add(experiment.promptId);
+        }
+    }
+}
+
+validateExperiments(PROMPT_EXPERIMENTS);
+
+/**
+ * The variant a subject gets in an experiment. Deterministic: the same user always lands in the
+ * same variant while the experiment's id and weights stay the same.
+ */
+export function assignVariant(experiment: PromptExperiment, subject: string): string {
+    const hash = crypto.createHash('sha256').update(`${experiment.id}:${subject}`).digest();
+    const totalWeight = experiment.variants.reduce((total, variant) => total + variant.weight, 0);
+    let point = (hash.readUInt32BE(0) / 0x100000000) * totalWeight;
+
+    for (const variant of experiment.variants) {
+        if (point < variant.weight) return variant.version;
+        point -= variant.weight;
+    }
+    return experiment.variants[experiment.variants.length - 1].version;
+}
+
+// ============================================
+// Resolution
+// ============================================
+
+// Pins already warned about, so a bad PROMPT_VERSION_* logs once rather than on every reply
+const invalidPins = new Set<string>();
+
+function getPinnedVersion(promptId: PromptId): string | null {
+    const pinned = process.env[`PROMPT_VERSION_${promptId.toUpperCase()}`];
+    if (!pinned) return null;
+
+    if (!PROMPTS[promptId].versions[pinned]) {
+        if (!invalidPins.has(promptId)) {
+            invalidPins.add(promptId);
+            console.warn(`⚠️ Unknown pinned version ${promptId}@${pinned} - ignoring the pin`);
+        }
+        return null;
+    }
+    return pinned;
+}
+
+/**
+ * Version of a prompt for a subject (the auth user id). Without a subject - signed-out chats,
+ * background work - experiments are skipped and the default version is used.
+ */
+export function resolvePromptVersion(promptId: PromptId, subject?: string): PromptSelection {
+    const pinned = getPinnedVersion(promptId);
+    if (pinned) {
+        return { promptId, version: pinned };
+    }
+
+    const experiment = PROMPT_EXPERIMENTS.find(candidate => candidate.enabled && candidate.promptId === promptId);
+    if (experiment && subject) {
+        return { promptId, version: assignVariant(experiment, subject), experimentId: experiment.id };
+    }
+
+    return { promptId, version: PROMPTS[promptId].defaultVersion };
+}
+
+/**
+ * Render a prompt in the version chosen for the subject
+ */
+export function renderPrompt<Id extends PromptId>(promptId: Id, vars: PromptVariables[Id], subject?: string): string {
+    return renderSelection(resolvePromptVersion(promptId, subject), vars);
+}
+
+function renderSelection<Id extends PromptId>(selection: PromptSelection, vars: PromptVariables[Id]): string {
+    const definition: PromptDefinition<PromptVariables[Id]> = PROMPTS[selection.promptId as Id];
+    return definition.versions[selection.version](vars);
+}
+
+// ============================================
+// Tracing
+// ============================================
+
+/**
+ * Renders the prompts for one reply and remembers their versions, so the stored message can
+ * say which prompts produced it. Create one per chat turn and pass it down the agents.
+ */
+export class PromptTrace {
+    private readonly versions: Partial<Record<PromptId, string>> = {};
+    private readonly experiments: Record<string, string> = {};
+
+    constructor(private readonly subject?: string) {}
+
+    render<Id extends PromptId>(promptId: Id, vars: PromptVariables[Id]): string {
+        const selection = resolvePromptVersion(promptId, this.subject);
+        this.versions[promptId] = selection.version;
+        if (selection.experimentId) {
+            this.experiments[selection.experimentId] = selection.version;
+        }
+        return renderSelection(selection, vars);
+    }
+
+    /** Nothing rendered yet - e.g. canned replies that never reach a model */
+    get isEmpty(): boolean {
+        return Object.keys(this.versions).length === 0;
+    }
+
+    toRecord(): PromptRecord {
+        return { versions: { ...this.versions }, experiments: { ...this.experiments } };
+    }
+}
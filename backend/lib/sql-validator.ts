@@ -0,0 +1,368 @@
+/**
+ * SQL validation for the MCP execute_sql tool
+ *
+ * Queries the model writes are parsed into a PostgreSQL AST and checked against an allowlist
+ * before anything reaches the database:
+ * - A single plain SELECT - no CTEs, UNIONs, subqueries, locking clauses or table functions
+ * - Only allowlisted tables and columns, and a short list of harmless functions
+ * - Every user table carries "<table>.user_id = <caller>" ANDed into the top level of the WHERE
+ *   clause, so no OR, join or comment can widen the filter
+ * - A row limit, added when missing and capped when too high
+ *
+ * The query that runs is re-rendered from the checked AST, never the model's original text.
+ */
+import { Expr, From, parse, SelectFromStatement, Statement, toSql } from 'pgsql-ast-parser';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * The caller the query must be scoped to. user_documents is keyed by the auth id, the older
+ * tables by the internal users.id.
+ */
+export interface SqlUserScope {
+    authUserId: string;
+    /** null when the user has no users row yet - queries on internal-id tables are then rejected */
+    internalUserId: number | null;
+}
+
+export interface SqlValidationResult {
+    valid: boolean;
+    error?: string;
+    /** The query to execute: re-rendered from the validated AST, with the row limit applied */
+    query?: string;
+}
+
+export interface SqlTableRule {
+    columns: string[];
+    /** Column that must equal the caller's id; absent for shared reference tables */
+    owner?: { column: string; id: 'auth' | 'internal' };
+}
+
+// A table reference in FROM/JOIN, by the name queries use for it (alias or table name)
+interface TableScope {
+    alias: string;
+    table: string;
+    rule: SqlTableRule;
+}
+
+// ============================================
+// Allowlist
+// ============================================
+
+export const MAX_SQL_ROWS = 50;
+
+/**
+ * Tables and columns execute_sql may read. Storage paths, external ids and free-form chat
+ * content are left out on purpose.
+ */
+export const SQL_TABLES: Record<string, SqlTableRule> = {
+    user_documents: {
+        owner: { column: 'user_id', id: 'auth' },
+        columns: [
+            'id', 'user_id', 'chat_session_id', 'document_type', 'policy_type', 'upload_context', 'description',
+            'file_name', 'file_type', 'file_size', 'carrier_name', 'policy_number', 'analysis_summary',
+            'extracted_data', 'status', 'uploaded_at', 'analyzed_at',
+        ],
+    },
+    policies: {
+        owner: { column: 'user_id', id: 'internal' },
+        columns: [
+            'id', 'user_id', 'policy_number', 'policy_type', 'start_date', 'end_date', 'status',
+            'total_premium', 'carrier_id', 'source_document_id', 'created_at', 'updated_at',
+        ],
+    },
+    claims: {
+        owner: { column: 'user_id', id: 'internal' },
+        columns: [
+            'id', 'policy_id', 'user_id', 'carrier_id', 'claim_number', 'claim_type', 'description',
+            'claim_date', 'amount_requested', 'amount_approved', 'status', 'created_at',
+        ],
+    },
+    chat_sessions: {
+        owner: { column: 'user_id', id: 'internal' },
+        columns: [
+            'id', 'user_id', 'policy_id', 'claim_id', 'started_at', 'ended_at', 'last_message_at',
+            'total_messages', 'summary', 'deleted_at',
+        ],
+    },
+    carrier: {
+        columns: ['id', 'name', 'provider_type', 'website'],
+    },
+};
+
+export const SQL_FUNCTIONS = new Set([
+    'count', 'sum', 'avg', 'min', 'max',
+    'lower', 'upper', 'trim', 'length', 'coalesce', 'round', 'date_trunc', 'now',
+]);
+
+const ALLOWED_OPERATORS = new Set([
+    'AND', 'OR', '=', '!=', '<', '>', '<=', '>=',
+    'IN', 'NOT IN', 'LIKE', 'NOT LIKE', 'ILIKE', 'NOT ILIKE',
+    '+', '-', '*', '/', '%', '||',
+]);
+
+const ALLOWED_KEYWORDS = new Set(['current_date', 'current_timestamp', 'current_time', 'localtimestamp', 'localtime']);
+
+const ALLOWED_CASTS = new Set([
+    'text', 'varchar', 'character varying', 'int', 'integer', 'bigint', 'numeric', 'decimal',
+    'date', 'timestamp', 'timestamptz', 'timestamp with time zone', 'interval', 'boolean', 'bool',
+]);
+
+// ============================================
+// Validation
+// ============================================
+
+// Thrown inside the walk to stop at the first problem; never escapes validateSQLQuery
+class SqlRejection extends Error {}
+
+function reject(message: string): never {
+    throw new SqlRejection(message);
+}
+
+const SUBQUERY_TYPES = new Set(['select', 'union', 'union all', 'with', 'with recursive', 'values', 'array select']);
+
+function resolveTables(from: From[]): Map<string, TableScope> {
+    const scope = new Map<string, TableScope>();
+
+    for (const item of from) {
+        if (item.type === 'statement') reject('Subqueries are not allowed');
+        if (item.type !== 'table') reject('Table functions are not allowed');
+        if (item.lateral) reject('LATERAL is not allowed');
+
+        const { name } = item;
+        if (name.schema && name.schema !== 'public') reject(`Schema "${name.schema}" is not allowed`);
+        if (name.columnNames?.length) reject('Column aliases on tables are not allowed');
+
+        const rule = SQL_TABLES[name.name];
+        if (!rule) reject(`Table "${name.name}" is not allowed`);
+
+        const alias = name.alias || name.name;
+        if (scope.has(alias)) reject(`Table name "${alias}" is used twice; give each reference its own alias`);
+        if (item.join?.using?.length) reject('JOIN ... USING is not allowed; use JOIN ... ON');
+
+        scope.set(alias, { alias, table: name.name, rule });
+    }
+
+    return scope;
+}
+
+// The table reference a column belongs to; unqualified columns must be unambiguous
+function resolveColumn(expr: Extract<Expr, { type: 'ref' }>, scope: Map<string, TableScope>): TableScope {
+    if (expr.name === '*') reject('Name the columns to read; * is not allowed');
+
+    if (expr.table) {
+        if (expr.table.schema && expr.table.schema !== 'public') reject(`Schema "${expr.table.schema}" is not allowed`);
+        const table = scope.get(expr.table.name);
+        if (!table) reject(`Unknown table "${expr.table.name}"`);
+        if (!table.rule.columns.includes(expr.name)) reject(`Column "${expr.table.name}.${expr.name}" is not allowed`);
+        return table;
+    }
+
+    const candidates = [...scope.values()].filter(table => table.rule.columns.includes(expr.name));
+    if (candidates.length === 0) reject(`Column "${expr.name}" is not allowed`);
+    if (candidates.length > 1) reject(`Column "${expr.name}" is ambiguous; qualify it with its table`);
+    return candidates[0];
+}
+
+function checkExpr(expr: Expr, scope: Map<string, TableScope>, outputAliases: Set<string> = new Set()): void {
+    const check = (child: Expr | null | undefined) => {
+        if (child) checkExpr(child, scope, outputAliases);
+    };
+
+    if (SUBQUERY_TYPES.has(expr.type)) reject('Subqueries are not allowed');
+
+    switch (expr.type) {
+        case 'ref':
+            // ORDER BY may name an output column ("ORDER BY total")
+            if (!expr.table && outputAliases.has(expr.name)) return;
+            resolveColumn(expr, scope);
+            return;
+
+        case 'integer':
+        case 'numeric':
+        case 'string':
+        case 'boolean':
+        case 'null':
+        case 'constant':
+            return;
+
+        case 'keyword':
+            if (!ALLOWED_KEYWORDS.has(expr.keyword)) reject(`"${expr.keyword}" is not allowed`);
+            return;
+
+        case 'binary':
+            if (!ALLOWED_OPERATORS.has(expr.op) || expr.opSchema) reject(`Operator "${expr.op}" is not allowed`);
+            check(expr.left);
+            check(expr.right);
+            return;
+
+        case 'unary':
+            if (expr.opSchema) reject(`Operator "${expr.op}" is not allowed`);
+            check(expr.operand);
+            return;
+
+        case 'list':
+        case 'array':
+            expr.expressions.forEach(check);
+            return;
+
+        case 'ternary':
+            check(expr.value);
+            check(expr.lo);
+            check(expr.hi);
+            return;
+
+        case 'case':
+            check(expr.value);
+            for (const when of expr.whens) {
+                check(when.when);
+                check(when.value);
+            }
+            check(expr.else);
+            return;
+
+        case 'cast': {
+            const target = 'name' in expr.to ? expr.to : null;
+            if (!target || target.schema || !ALLOWED_CASTS.has(target.name.toLowerCase())) {
+                reject('Cast is not allowed');
+            }
+            check(expr.operand);
+            return;
+        }
+
+        case 'member':
+            check(expr.operand);
+            return;
+
+        case 'extract':
+            check(expr.from);
+            return;
+
+        case 'call': {
+            const name = expr.function.name.toLowerCase();
+            if (expr.function.schema || !SQL_FUNCTIONS.has(name)) reject(`Function "${expr.function.name}" is not allowed`);
+            if (expr.over || expr.withinGroup) reject('Window and ordered-set aggregates are not allowed');
+
+            const countAll = name === 'count' && expr.args.length === 1
+                && expr.args[0].type === 'ref' && expr.args[0].name === '*' && !expr.args[0].table;
+            if (!countAll) expr.args.forEach(check);
+
+            check(expr.filter);
+            expr.orderBy?.forEach(order => check(order.by));
+            return;
+        }
+
+        default:
+            reject(`Unsupported expression (${expr.type})`);
+    }
+}
+
+// Conditions ANDed together at the top of a WHERE clause
+function topLevelConjuncts(expr: Expr | null | undefined): Expr[] {
+    if (!expr) return [];
+    if (expr.type === 'binary' && expr.op === 'AND') {
+        return [...topLevelConjuncts(expr.left), ...topLevelConjuncts(expr.right)];
+    }
+    return [expr];
+}
+
+function matchesCaller(expr: Expr, table: TableScope, scope: SqlUserScope): boolean {
+    if (table.rule.owner!.id === 'auth') {
+        return expr.type === 'string' && expr.value === scope.authUserId;
+    }
+    if (scope.internalUserId === null) return false;
+    return (expr.type === 'integer' && expr.value === scope.internalUserId)
+        || (expr.type === 'string' && expr.value === String(scope.internalUserId));
+}
+
+// "<table>.user_id = <caller>" (either way round) for this table reference
+function isOwnerPredicate(expr: Expr, table: TableScope, tables: Map<string, TableScope>, scope: SqlUserScope): boolean {
+    if (expr.type !== 'binary' || expr.op !== '=') return false;
+
+    const isOwnerColumn = (side: Expr) => side.type === 'ref'
+        && side.name === table.rule.owner!.column
+        && resolveColumn(side, tables) === table;
+
+    return (isOwnerColumn(expr.left) && matchesCaller(expr.right, table, scope))
+        || (isOwnerColumn(expr.right) && matchesCaller(expr.left, table, scope));
+}
+
+function checkRowLimit(select: SelectFromStatement): SelectFromStatement['limit'] {
+    const limit = select.limit?.limit;
+    const offset = select.limit?.offset;
+
+    if (limit && limit.type !== 'integer') reject('LIMIT must be a number');
+    if (offset && offset.type !== 'integer') reject('OFFSET must be a number');
+
+    const rows = limit && limit.type === 'integer' ? Math.min(limit.value, MAX_SQL_ROWS) : MAX_SQL_ROWS;
+    return { limit: { type: 'integer', value: rows }, offset };
+}
+
+function checkSelect(statement: Statement, scope: SqlUserScope): SelectFromStatement {
+    if (SUBQUERY_TYPES.has(statement.type) && statement.type !== 'select') {
+        reject('Only a plain SELECT is allowed - no WITH, UNION or VALUES');
+    }
+    if (statement.type !== 'select') reject('Only SELECT statements are allowed');
+
+    const select = statement as SelectFromStatement;
+    if (select.for || select.skip) reject('Row locking is not allowed');
+    if (!select.from?.length) reject('Queries must read from an allowed table');
+
+    const tables = resolveTables(select.from);
+
+    const columns = select.columns || [];
+    columns.forEach(column => checkExpr(column.expr, tables));
+    select.from.forEach(item => {
+        if (item.join?.on) checkExpr(item.join.on, tables);
+    });
+    if (select.where) checkExpr(select.where, tables);
+    select.groupBy?.forEach(expr => checkExpr(expr, tables));
+    if (select.having) checkExpr(select.having, tables);
+    if (Array.isArray(select.distinct)) select.distinct.forEach(expr => checkExpr(expr, tables));
+
+    const outputAliases = new Set(columns.map(column => column.alias?.name).filter((alias): alias is string => !!alias));
+    select.orderBy?.forEach(order => checkExpr(order.by, tables, outputAliases));
+
+    // Every user table must be pinned to the caller at the top level of WHERE
+    const conjuncts = topLevelConjuncts(select.where);
+    for (const table of tables.values()) {
+        if (!table.rule.owner) continue;
+        if (table.rule.owner.id === 'internal' && scope.internalUserId === null) {
+            reject(`No ${table.table} are on file for this user`);
+        }
+        if (!conjuncts.some(expr => isOwnerPredicate(expr, table, tables, scope))) {
+            reject(`Every user table needs "${table.alias}.${table.rule.owner.column} = <user id>" ANDed into the WHERE clause`);
+        }
+    }
+
+    return { ...select, limit: checkRowLimit(select) };
+}
+
+/**
+ * Validates a SQL query for the MCP execute_sql tool
+ *
+ * CRITICAL: This is the layer that enforces user isolation - the system prompt only asks for it.
+ * Run result.query, not the original text.
+ */
+export function validateSQLQuery(query: string, scope: SqlUserScope): SqlValidationResult {
+    let statements: Statement[];
+    try {
+        statements = parse(query);
+    } catch {
+        return { valid: false, error: 'Query could not be parsed' };
+    }
+
+    try {
+        if (statements.length !== 1) reject('Exactly one statement is allowed');
+        const select = checkSelect(statements[0], scope);
+        return { valid: true, query: toSql.statement(select) };
+    } catch (error) {
+        if (error instanceof SqlRejection) {
+            return { valid: false, error: error.message };
+        }
+        console.error('[SQL] Validation error:', error);
+        return { valid: false, error: 'Query could not be validated' };
+    }
+}
@@ -0,0 +1,374 @@
+// backend/lib/state-regulations-data.ts
+// Versioned per-state auto and homeowners regulatory dataset used to ground Uri and Rai
+
+// Bump the version whenever any entry changes so logs and responses show which data was used
+export const STATE_REGULATIONS_VERSION = '2026.1';
+export const STATE_REGULATIONS_REVIEWED_AT = '2026-01-01';
+
+// ============================================
+// Types
+// ============================================
+
+export type RequirementLevel = 'required' | 'mandatory_offer' | 'optional';
+
+// 'add_on': PIP is available/required but the tort system still applies
+export type NoFaultSystem = 'no_fault' | 'choice_no_fault' | 'add_on' | 'tort';
+
+/**
+ * Minimum auto liability limits in dollars.
+ * bodilyInjury fields are null where the state does not require BI liability.
+ */
+export interface LiabilityMinimums {
+    bodilyInjuryPerPerson: number | null;
+    bodilyInjuryPerAccident: number | null;
+    propertyDamage: number;
+}
+
+export interface AutoRequirements {
+    liability: LiabilityMinimums;
+    umUim: RequirementLevel;
+    noFault: NoFaultSystem;
+    pip: { level: RequirementLevel; minimum?: number } | null;
+}
+
+export interface HomeRequirements {
+    // Separate hurricane/named-storm deductibles (usually a % of Coverage A) are permitted
+    namedStormDeductibles: boolean;
+    // Total loss pays the full dwelling limit regardless of actual value
+    valuedPolicyLaw: boolean;
+    mandatoryOffers: string[];
+}
+
+export interface StateRegulation {
+    state: string;
+    name: string;
+    auto: AutoRequirements;
+    home: HomeRequirements;
+    notes: string[];
+}
+
+// ============================================
+// Builders
+// ============================================
+
+// Limits are written the way agents quote them (25/50/25 = $25k/$50k/$25k)
+function split(perPerson: number | null, perAccident: number | null, propertyDamage: number): LiabilityMinimums {
+    return {
+        bodilyInjuryPerPerson: perPerson == null ? null : perPerson * 1000,
+        bodilyInjuryPerAccident: perAccident == null ? null : perAccident * 1000,
+        propertyDamage: propertyDamage * 1000,
+    };
+}
+
+function pip(level: RequirementLevel, minimum?: number): AutoRequirements['pip'] {
+    return minimum == null ? { level } : { level, minimum };
+}
+
+const NO_HOME_RULES: HomeRequirements = { namedStormDeductibles: false, valuedPolicyLaw: false, mandatoryOffers: [] };
+
+function home(overrides: Partial<HomeRequirements>): HomeRequirements {
+    return { ...NO_HOME_RULES, ...overrides };
+}
+
+// ============================================
+// Dataset
+// ============================================
+
+type StateEntry = Omit<StateRegulation, 'state' | 'notes'> & { notes?: string[] };
+
+const ENTRIES: Record<string, StateEntry> = {
+    AL: {
+        name: 'Alabama',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true }),
+    },
+    AK: {
+        name: 'Alaska',
+        auto: { liability: split(50, 100, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    AZ: {
+        name: 'Arizona',
+        auto: { liability: split(25, 50, 15), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    AR: {
+        name: 'Arkansas',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'add_on', pip: pip('mandatory_offer', 5000) },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    CA: {
+        name: 'California',
+        auto: { liability: split(30, 60, 15), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: home({ mandatoryOffers: ['Earthquake coverage'] }),
+        notes: ['Auto minimums increased from 15/30/5 on January 1, 2025'],
+    },
+    CO: {
+        name: 'Colorado',
+        auto: { liability: split(25, 50, 15), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+        notes: ['$5,000 medical payments coverage must be offered'],
+    },
+    CT: {
+        name: 'Connecticut',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true }),
+    },
+    DE: {
+        name: 'Delaware',
+        auto: { liability: split(25, 50, 10), umUim: 'mandatory_offer', noFault: 'add_on', pip: pip('required', 15000) },
+        home: home({ namedStormDeductibles: true }),
+    },
+    DC: {
+        name: 'District of Columbia',
+        auto: { liability: split(25, 50, 10), umUim: 'required', noFault: 'add_on', pip: pip('mandatory_offer') },
+        home: home({ namedStormDeductibles: true }),
+    },
+    FL: {
+        name: 'Florida',
+        auto: { liability: split(null, null, 10), umUim: 'mandatory_offer', noFault: 'no_fault', pip: pip('required', 10000) },
+        home: home({ namedStormDeductibles: true, valuedPolicyLaw: true, mandatoryOffers: ['Sinkhole coverage'] }),
+        notes: [
+            'Bodily injury liability is not required to register a vehicle (10/20 may be required after certain violations)',
+            'Catastrophic ground cover collapse must be covered by homeowners policies',
+            'Hurricane deductibles are typically 2%, 5% or 10% of Coverage A',
+        ],
+    },
+    GA: {
+        name: 'Georgia',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true }),
+    },
+    HI: {
+        name: 'Hawaii',
+        auto: { liability: split(20, 40, 10), umUim: 'mandatory_offer', noFault: 'no_fault', pip: pip('required', 10000) },
+        home: home({ namedStormDeductibles: true }),
+    },
+    ID: {
+        name: 'Idaho',
+        auto: { liability: split(25, 50, 15), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    IL: {
+        name: 'Illinois',
+        auto: { liability: split(25, 50, 20), umUim: 'required', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    IN: {
+        name: 'Indiana',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    IA: {
+        name: 'Iowa',
+        auto: { liability: split(20, 40, 15), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    KS: {
+        name: 'Kansas',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'no_fault', pip: pip('required', 4500) },
+        home: home({ valuedPolicyLaw: true }),
+        notes: ['PIP minimum shown is the medical benefit per person'],
+    },
+    KY: {
+        name: 'Kentucky',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'choice_no_fault', pip: pip('required', 10000) },
+        home: NO_HOME_RULES,
+        notes: ['A $75,000 combined single limit satisfies the liability minimum'],
+    },
+    LA: {
+        name: 'Louisiana',
+        auto: { liability: split(15, 30, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true, valuedPolicyLaw: true }),
+    },
+    ME: {
+        name: 'Maine',
+        auto: { liability: split(50, 100, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true }),
+        notes: ['$2,000 medical payments coverage is required'],
+    },
+    MD: {
+        name: 'Maryland',
+        auto: { liability: split(30, 60, 15), umUim: 'required', noFault: 'add_on', pip: pip('required', 2500) },
+        home: home({ namedStormDeductibles: true }),
+        notes: ['PIP can be waived in writing by the named insured'],
+    },
+    MA: {
+        name: 'Massachusetts',
+        auto: { liability: split(25, 50, 30), umUim: 'required', noFault: 'no_fault', pip: pip('required', 8000) },
+        home: home({ namedStormDeductibles: true }),
+        notes: ['Auto minimums increased from 20/40/5 on July 1, 2025'],
+    },
+    MI: {
+        name: 'Michigan',
+        auto: { liability: split(50, 100, 10), umUim: 'optional', noFault: 'no_fault', pip: pip('required') },
+        home: NO_HOME_RULES,
+        notes: [
+            'Policies default to 250/500 bodily injury unless the insured selects lower limits in writing',
+            'PIP medical coverage level is selectable; property protection insurance (PPI) of $1M is required',
+        ],
+    },
+    MN: {
+        name: 'Minnesota',
+        auto: { liability: split(30, 60, 10), umUim: 'required', noFault: 'no_fault', pip: pip('required', 40000) },
+        home: home({ valuedPolicyLaw: true }),
+        notes: ['PIP minimum is $20,000 medical plus $20,000 non-medical'],
+    },
+    MS: {
+        name: 'Mississippi',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true, valuedPolicyLaw: true }),
+    },
+    MO: {
+        name: 'Missouri',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    MT: {
+        name: 'Montana',
+        auto: { liability: split(25, 50, 20), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    NE: {
+        name: 'Nebraska',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    NV: {
+        name: 'Nevada',
+        auto: { liability: split(25, 50, 20), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    NH: {
+        name: 'New Hampshire',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ valuedPolicyLaw: true }),
+        notes: [
+            'Auto insurance is not compulsory; drivers must show financial responsibility at these limits',
+            'Policies that are purchased must include $1,000 medical payments and UM coverage',
+        ],
+    },
+    NJ: {
+        name: 'New Jersey',
+        auto: { liability: split(35, 70, 25), umUim: 'required', noFault: 'choice_no_fault', pip: pip('required', 15000) },
+        home: home({ namedStormDeductibles: true }),
+        notes: [
+            'Standard policy minimums increased to 35/70/25 on January 1, 2026',
+            'A Basic Policy with lower limits is still available',
+        ],
+    },
+    NM: {
+        name: 'New Mexico',
+        auto: { liability: split(25, 50, 10), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    NY: {
+        name: 'New York',
+        auto: { liability: split(25, 50, 10), umUim: 'required', noFault: 'no_fault', pip: pip('required', 50000) },
+        home: home({ namedStormDeductibles: true }),
+        notes: ['Bodily injury minimums rise to 50/100 for death'],
+    },
+    NC: {
+        name: 'North Carolina',
+        auto: { liability: split(50, 100, 50), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true }),
+        notes: ['Auto minimums increased from 30/60/25 on July 1, 2025'],
+    },
+    ND: {
+        name: 'North Dakota',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'no_fault', pip: pip('required', 30000) },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    OH: {
+        name: 'Ohio',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    OK: {
+        name: 'Oklahoma',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    OR: {
+        name: 'Oregon',
+        auto: { liability: split(25, 50, 20), umUim: 'required', noFault: 'add_on', pip: pip('required', 15000) },
+        home: NO_HOME_RULES,
+    },
+    PA: {
+        name: 'Pennsylvania',
+        auto: { liability: split(15, 30, 5), umUim: 'mandatory_offer', noFault: 'choice_no_fault', pip: pip('required', 5000) },
+        home: home({ namedStormDeductibles: true }),
+        notes: ['Insureds choose limited or full tort; PIP minimum is first-party medical benefits'],
+    },
+    RI: {
+        name: 'Rhode Island',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true }),
+    },
+    SC: {
+        name: 'South Carolina',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true, valuedPolicyLaw: true }),
+        notes: ['UM is required; UIM must be offered', 'Hurricane deductibles of 2-5% of Coverage A are common'],
+    },
+    SD: {
+        name: 'South Dakota',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    TN: {
+        name: 'Tennessee',
+        auto: { liability: split(25, 50, 25), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+    TX: {
+        name: 'Texas',
+        auto: { liability: split(30, 60, 25), umUim: 'mandatory_offer', noFault: 'add_on', pip: pip('mandatory_offer', 2500) },
+        home: home({ namedStormDeductibles: true, valuedPolicyLaw: true }),
+        notes: ['Coastal windstorm coverage may need to come from the Texas Windstorm Insurance Association (TWIA)'],
+    },
+    UT: {
+        name: 'Utah',
+        auto: { liability: split(25, 65, 15), umUim: 'mandatory_offer', noFault: 'no_fault', pip: pip('required', 3000) },
+        home: NO_HOME_RULES,
+        notes: ['An $80,000 combined single limit satisfies the liability minimum'],
+    },
+    VT: {
+        name: 'Vermont',
+        auto: { liability: split(25, 50, 10), umUim: 'required', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+        notes: ['UM/UIM minimum is 50/100'],
+    },
+    VA: {
+        name: 'Virginia',
+        auto: { liability: split(50, 100, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ namedStormDeductibles: true }),
+        notes: ['Auto minimums increased from 30/60/20 on January 1, 2025'],
+    },
+    WA: {
+        name: 'Washington',
+        auto: { liability: split(25, 50, 10), umUim: 'mandatory_offer', noFault: 'add_on', pip: pip('mandatory_offer', 10000) },
+        home: NO_HOME_RULES,
+    },
+    WV: {
+        name: 'West Virginia',
+        auto: { liability: split(25, 50, 25), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    WI: {
+        name: 'Wisconsin',
+        auto: { liability: split(25, 50, 10), umUim: 'required', noFault: 'tort', pip: null },
+        home: home({ valuedPolicyLaw: true }),
+    },
+    WY: {
+        name: 'Wyoming',
+        auto: { liability: split(25, 50, 20), umUim: 'mandatory_offer', noFault: 'tort', pip: null },
+        home: NO_HOME_RULES,
+    },
+};
+
+export const STATE_REGULATIONS: Readonly<Record<string, StateRegulation>> = Object.freeze(
+    Object.fromEntries(
+        Object.entries(ENTRIES).map(([state, entry]) => [state, { state, ...entry, notes: entry.notes || [] }])
+    )
+);
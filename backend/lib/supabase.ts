@@ -15,12 +15,19 @@ if (!supabaseUrl || !supabaseServiceKey) {
   throw new Error('Missing required Supabase environment variables');
 }
 
+if (!supabasePublishableKey) {
+  console.error('❌ SUPABASE_PUBLISHABLE_KEY is not set - authenticated requests will fail');
+}
+
 /**
  * Service role client - BYPASSES RLS
- * Use ONLY for:
- * - User creation/lookup
- * - Admin operations
- * - Background jobs
+ * Use ONLY for explicitly privileged operations:
+ * - User creation/lookup before a request is authenticated
+ * - Account deletion and other admin operations
+ * - Background jobs and writes the backend makes on the user's behalf
+ *
+ * Reads of a signed-in user's data go through req.supabase (createUserClient) instead,
+ * so row-level security enforces isolation.
  *
  * WARNING: All authorization must be done in application code
  */
@@ -33,17 +40,17 @@ export const supabaseAdmin = supabase;
 
 /**
  * Create a user-context Supabase client that respects RLS
- * Use this for user-facing data operations as defense-in-depth
+ * Attached to every authenticated request as req.supabase by the auth middleware
  *
  * @param accessToken - The user's JWT access token
  * @returns SupabaseClient configured with user's auth context
  *
- * NOTE: Requires SUPABASE_PUBLISHABLE_KEY to be set in environment
+ * NOTE: Requires SUPABASE_PUBLISHABLE_KEY to be set in environment. There is no service role
+ * fallback - without the key, user-data reads fail instead of silently bypassing RLS.
  */
 export function createUserClient(accessToken: string): SupabaseClient {
   if (!supabasePublishableKey) {
-    console.warn('⚠️ SUPABASE_PUBLISHABLE_KEY not set - falling back to service role (RLS bypassed)');
-    return supabase;
+    throw new Error('SUPABASE_PUBLISHABLE_KEY is not set - cannot create a user-scoped client');
   }
 
   return createClient(supabaseUrl!, supabasePublishableKey, {
@@ -57,4 +64,4 @@ export function createUserClient(accessToken: string): SupabaseClient {
       persistSession: false,
     },
   });
-}
\ No newline at end of file
+}
@@ -0,0 +1,94 @@
+// backend/lib/text-diff.ts
+// Word-level diff between two versions of an answer
+
+export type DiffOp = 'equal' | 'insert' | 'delete';
+
+export interface DiffSegment {
+    op: DiffOp;
+    text: string;
+}
+
+export interface TextDiff {
+    segments: DiffSegment[];
+    wordsAdded: number;
+    wordsRemoved: number;
+    /** Share of the longer version that changed, 0 (identical) to 1 (rewritten) */
+    changeRatio: number;
+}
+
+// LCS is quadratic - answers are a few hundred words, anything far larger is treated as a rewrite
+const MAX_DIFF_WORDS = 2000;
+
+function tokenize(text: string): string[] {
+    return text.split(/\s+/).filter(Boolean);
+}
+
+// Merge consecutive tokens with the same op into one segment
+function pushSegment(segments: DiffSegment[], op: DiffOp, word: string): void {
+    const last = segments[segments.length - 1];
+    if (last && last.op === op) {
+        last.text += ` ${word}`;
+    } else {
+        segments.push({ op, text: word });
+    }
+}
+
+/**
+ * Diffs before → after word by word (whitespace differences are ignored)
+ */
+export function diffWords(before: string, after: string): TextDiff {
+    const a = tokenize(before);
+    const b = tokenize(after);
+    const longest = Math.max(a.length, b.length);
+
+    if (a.length + b.length > MAX_DIFF_WORDS) {
+        const segments: DiffSegment[] = [];
+        if (a.length) segments.push({ op: 'delete', text: a.join(' ') });
+        if (b.length) segments.push({ op: 'insert', text: b.join(' ') });
+        return { segments, wordsAdded: b.length, wordsRemoved: a.length, changeRatio: longest ? 1 : 0 };
+    }
+
+    // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+    const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    let wordsAdded = 0;
+    let wordsRemoved = 0;
+    let i = 0;
+    let j = 0;
+
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pushSegment(segments, 'equal', a[i]);
+            i++;
+            j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            pushSegment(segments, 'delete', a[i++]);
+            wordsRemoved++;
+        } else {
+            pushSegment(segments, 'insert', b[j++]);
+            wordsAdded++;
+        }
+    }
+    while (i < a.length) {
+        pushSegment(segments, 'delete', a[i++]);
+        wordsRemoved++;
+    }
+    while (j < b.length) {
+        pushSegment(segments, 'insert', b[j++]);
+        wordsAdded++;
+    }
+
+    const unchanged = longest - lcs[0][0];
+    return {
+        segments,
+        wordsAdded,
+        wordsRemoved,
+        changeRatio: longest ? Math.round((unchanged / longest) * 1000) / 1000 : 0,
+    };
+}
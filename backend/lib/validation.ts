@@ -2,6 +2,7 @@
 // Input validation schemas using Zod for all API endpoints
 
 import { z } from 'zod';
+import { SUPPORTED_LANGUAGES } from './language';
 
 // ============================================
 // Common Schemas
@@ -20,6 +21,9 @@ const safeStringSchema = (maxLength: number = 10000) =>
     .max(maxLength, `Field must be less than ${maxLength} characters`)
     .transform((s: string) => s.trim());
 
+// Languages Sam replies in and the app is translated into
+const languageSchema = z.enum(SUPPORTED_LANGUAGES);
+
 // ============================================
 // Chat Schemas
 // ============================================
@@ -33,7 +37,9 @@ export const chatRequestSchema = z.object({
   message: safeStringSchema(10000),
   history: z.array(chatMessageHistorySchema).optional().default([]),
   userId: uuidSchema.optional(),
-  sessionId: dbIdSchema.optional()
+  sessionId: dbIdSchema.optional(),
+  // The app's current language - used when the message's own language can't be detected
+  language: languageSchema.optional()
 }).strict(); // SECURITY: Reject unknown keys to prevent prototype pollution
 
 export type ChatRequest = z.infer<typeof chatRequestSchema>;
@@ -74,6 +80,45 @@ export const userIdParamSchema = z.object({
   userId: uuidSchema
 }).strict(); // SECURITY: Reject unknown keys
 
+// Query string booleans arrive as "true"/"false" (z.coerce.boolean treats "false" as true)
+const queryBooleanSchema = z.enum(['true', 'false']).transform((v) => v === 'true');
+
+// Profile facts for the protection audit; omitted facts are derived from policy data
+export const protectionAuditQuerySchema = z.object({
+  userId: uuidSchema.optional(),
+  state: z.string().regex(/^[A-Za-z]{2}$/, 'State must be a 2-letter code').transform((s) => s.toUpperCase()).optional(),
+  netWorth: z.coerce.number().nonnegative().max(1_000_000_000).optional(),
+  teenDrivers: z.coerce.number().int().min(0).max(20).optional(),
+  hasPool: queryBooleanSchema.optional(),
+  hasTrampoline: queryBooleanSchema.optional(),
+  hasDog: queryBooleanSchema.optional(),
+  ownsHome: queryBooleanSchema.optional(),
+  rentalProperties: z.coerce.number().int().min(0).max(100).optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+// Long-term memory: facts Sam proposed from chat, confirmed or dismissed by the user
+export const profileFactParamsSchema = z.object({
+  userId: uuidSchema,
+  factId: z.coerce.number().int().positive('ID must be a positive integer')
+}).strict(); // SECURITY: Reject unknown keys
+
+export const reviewProfileFactSchema = z.object({
+  userId: uuidSchema.optional(),
+  status: z.enum(['confirmed', 'rejected'])
+}).strict(); // SECURITY: Reject unknown keys
+
+// Semantic search across the user's past chat messages
+export const conversationSearchQuerySchema = z.object({
+  userId: uuidSchema.optional(),
+  q: safeStringSchema(200).refine((s) => s.length >= 2, 'Search must be at least 2 characters'),
+  limit: z.coerce.number().int().positive().max(25).optional().default(10)
+}).strict(); // SECURITY: Reject unknown keys
+
+export const updatePreferencesSchema = z.object({
+  userId: uuidSchema.optional(),
+  language: languageSchema
+}).strict(); // SECURITY: Reject unknown keys
+
 export const getUserSessionsQuerySchema = z.object({
   limit: z.coerce.number().int().positive().max(100).optional().default(10)
 }).strict(); // SECURITY: Reject unknown keys
@@ -84,9 +129,139 @@ export const getUserSessionsQuerySchema = z.object({
 
 export const uploadPolicyBodySchema = z.object({
   sessionId: z.string().max(100).optional(),
+  userId: uuidSchema.optional(),
+  // Language for the summary shown to the user; the stored analysis is always English
+  language: languageSchema.optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+export const renewalsQuerySchema = z.object({
+  userId: uuidSchema.optional(),
+  limit: z.coerce.number().int().positive().max(100).optional().default(20),
+  withinDays: z.coerce.number().int().positive().max(365).optional().default(60),
+  language: languageSchema.optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+// ============================================
+// Quote Comparison Schemas
+// ============================================
+
+// Either a specific policy term or the latest active policy of a type
+export const createQuoteRequestSchema = z.object({
+  userId: uuidSchema.optional(),
+  policyId: dbIdSchema.optional(),
+  policyType: z.enum(['auto', 'home', 'renters', 'umbrella', 'life', 'health', 'other']).optional()
+}).strict() // SECURITY: Reject unknown keys
+  .refine((data) => (data.policyId === undefined) !== (data.policyType === undefined), {
+    message: 'Provide either policyId or policyType',
+    path: ['policyId']
+  });
+
+export const quoteRequestParamsSchema = z.object({
+  userId: uuidSchema,
+  requestId: z.coerce.number().int().positive('ID must be a positive integer')
+}).strict(); // SECURITY: Reject unknown keys
+
+const quoteAmountSchema = z.number().nonnegative().max(100_000_000).nullable();
+
+export const addQuoteSchema = z.object({
+  userId: uuidSchema.optional(),
+  carrierName: safeStringSchema(200),
+  premium: z.number().positive().max(1_000_000),
+  termMonths: z.union([z.literal(6), z.literal(12)]).optional().default(12),
+  validUntil: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD').optional().nullable(),
+  coverages: z.array(z.object({
+    coverageType: safeStringSchema(200),
+    limit: quoteAmountSchema.optional().default(null),
+    deductible: quoteAmountSchema.optional().default(null)
+  }).strict()).max(100),
+  notes: z.string().max(2000).optional().nullable()
+}).strict(); // SECURITY: Reject unknown keys
+
+export type AddQuoteRequest = z.infer<typeof addQuoteSchema>;
+
+export const uploadQuoteBodySchema = z.object({
   userId: uuidSchema.optional()
 }).strict(); // SECURITY: Reject unknown keys
 
+export const providerQuotesBodySchema = z.object({
+  userId: uuidSchema.optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+// ============================================
+// Claim Schemas
+// ============================================
+
+export const claimParamsSchema = z.object({
+  userId: uuidSchema,
+  claimId: z.coerce.number().int().positive('ID must be a positive integer')
+}).strict(); // SECURITY: Reject unknown keys
+
+// Language of the printable summary; defaults to the user's saved preference
+export const claimSummaryQuerySchema = z.object({
+  userId: uuidSchema.optional(),
+  language: languageSchema.optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+export const uploadClaimPhotoBodySchema = z.object({
+  userId: uuidSchema.optional(),
+  language: languageSchema.optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+// ============================================
+// State Regulation Schemas
+// ============================================
+
+export const stateRegulationParamsSchema = z.object({
+  state: z.string().regex(/^[A-Za-z]{2}$/, 'State must be a 2-letter code').transform((s) => s.toUpperCase())
+}).strict(); // SECURITY: Reject unknown keys
+
+// ============================================
+// Advisor Handoff Schemas
+// ============================================
+
+// Customer asks for a licensed agent from the chat
+export const requestHandoffSchema = z.object({
+  userId: uuidSchema.optional(),
+  reason: safeStringSchema(500).optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+export const handoffParamsSchema = z.object({
+  handoffId: z.coerce.number().int().positive('ID must be a positive integer')
+}).strict(); // SECURITY: Reject unknown keys
+
+export const handoffListQuerySchema = z.object({
+  view: z.enum(['queue', 'mine', 'completed']).optional().default('queue'),
+  limit: z.coerce.number().int().positive().max(100).optional().default(50)
+}).strict(); // SECURITY: Reject unknown keys
+
+export const agentReplySchema = z.object({
+  userId: uuidSchema.optional(),
+  message: safeStringSchema(5000)
+}).strict(); // SECURITY: Reject unknown keys
+
+export const resolveHandoffSchema = z.object({
+  userId: uuidSchema.optional(),
+  notes: safeStringSchema(2000).optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+// ============================================
+// Model Usage Schemas
+// ============================================
+
+const isoDateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+// Spend report; dates are UTC days, both inclusive (defaults to the last 30 days)
+export const llmUsageQuerySchema = z.object({
+  groupBy: z.enum(['day', 'user', 'agent']).optional().default('day'),
+  from: isoDateSchema.optional(),
+  to: isoDateSchema.optional()
+}).strict(); // SECURITY: Reject unknown keys
+
+// null restores the default budget
+export const llmBudgetSchema = z.object({
+  dailyBudgetUsd: z.number().nonnegative().max(1000).nullable()
+}).strict(); // SECURITY: Reject unknown keys
+
 // ============================================
 // Feedback Schemas
 // ============================================
@@ -2,7 +2,8 @@
 // Authentication middleware for verifying JWT tokens and preventing IDOR attacks
 
 import { Request, Response, NextFunction } from 'express';
-import { createClient, User } from '@supabase/supabase-js';
+import { createClient, SupabaseClient, User } from '@supabase/supabase-js';
+import { createUserClient } from '../lib/supabase';
 
 // Extend Express Request type to include authenticated user
 declare global {
@@ -10,6 +11,8 @@ declare global {
     interface Request {
       user?: User;
       internalUserId?: number;
+      /** Supabase client bound to the caller's access token - RLS applies to everything it reads */
+      supabase?: SupabaseClient;
     }
   }
 }
@@ -59,8 +62,9 @@ export async function requireAuth(req: Request, res: Response, next: NextFunctio
       return;
     }
 
-    // Attach verified user to request
+    // Attach verified user and their RLS-bound client to request
     req.user = user;
+    req.supabase = createUserClient(token);
 
     // Check for userId mismatch (IDOR prevention)
     const providedUserId = req.body?.userId || req.params?.userId || req.query?.userId;
@@ -109,6 +113,7 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
     const { data: { user }, error } = await supabaseAuth.auth.getUser(token);
 
     if (!error && user) {
+      req.supabase = createUserClient(token);
       req.user = user;
 
       // Normalize userId in body if present
@@ -130,13 +135,13 @@ export async function optionalAuth(req: Request, res: Response, next: NextFuncti
  * Should be used after requireAuth for endpoints that need the internal ID.
  */
 export async function attachInternalUserId(req: Request, res: Response, next: NextFunction): Promise<void> {
-  if (!req.user) {
+  if (!req.user || !req.supabase) {
     res.status(401).json({ error: 'Authentication required' });
     return;
   }
 
   try {
-    const { data: userData, error } = await supabaseAuth
+    const { data: userData, error } = await req.supabase
       .from('users')
       .select('id')
       .eq('external_id', req.user.id)
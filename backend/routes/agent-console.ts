@@ -0,0 +1,196 @@
+// backend/routes/agent-console.ts
+// Licensed agent console API: the handoff queue, conversation takeover and replies into the chat
+
+import express from 'express';
+import { logger } from '../lib/logger';
+import { requireAuth } from '../middleware/auth';
+import { generalLimiter } from '../middleware/rateLimiter';
+import {
+  handoffParamsSchema,
+  handoffListQuerySchema,
+  agentReplySchema,
+  resolveHandoffSchema,
+  validateRequest
+} from '../lib/validation';
+import {
+  AdvisorAgent,
+  claimHandoff,
+  getAgentByAuthId,
+  getHandoffDetail,
+  listHandoffs,
+  postAgentReply,
+  resolveHandoff
+} from '../services/advisor-handoff';
+
+const router = express.Router();
+
+// ============================================
+// Helper: Only active agents may use the console
+// ============================================
+async function requireAgent(req: express.Request, res: express.Response): Promise<AdvisorAgent | null> {
+  const agent = await getAgentByAuthId(req.user!.id);
+  if (!agent) {
+    logger.security('Non-agent tried to access the agent console');
+    res.status(403).json({ error: 'Agent access required' });
+    return null;
+  }
+  return agent;
+}
+
+// ============================================
+// GET /api/agent/me - The signed-in agent, or 403
+// ============================================
+router.get('/me', requireAuth, async (req, res) => {
+  try {
+    const agent = await requireAgent(req, res);
+    if (!agent) return;
+
+    res.json({ agent });
+
+  } catch (error) {
+    logger.error('Error fetching agent', error);
+    res.status(500).json({ error: 'Failed to fetch agent. Please try again.' });
+  }
+});
+
+// ============================================
+// GET /api/agent/handoffs - Queue, my open handoffs, or my resolved ones
+// ============================================
+router.get('/handoffs', requireAuth, async (req, res) => {
+  try {
+    const agent = await requireAgent(req, res);
+    if (!agent) return;
+
+    const [query, validationErrors] = validateRequest(handoffListQuerySchema, req.query);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const handoffs = await listHandoffs(agent.id, query.view, query.limit);
+    res.json({ handoffs });
+
+  } catch (error) {
+    logger.error('Error listing handoffs', error);
+    res.status(500).json({ error: 'Failed to fetch handoffs. Please try again.' });
+  }
+});
+
+// ============================================
+// GET /api/agent/handoffs/:handoffId - Conversation and policies for one handoff
+// ============================================
+router.get('/handoffs/:handoffId', requireAuth, async (req, res) => {
+  try {
+    const agent = await requireAgent(req, res);
+    if (!agent) return;
+
+    const [params, validationErrors] = validateRequest(handoffParamsSchema, req.params);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const detail = await getHandoffDetail(agent.id, params.handoffId);
+    if (!detail) {
+      return res.status(404).json({ error: 'Handoff not found' });
+    }
+
+    logger.info('Agent opened handoff', { handoffId: params.handoffId, agentId: agent.id });
+    res.json(detail);
+
+  } catch (error) {
+    logger.error('Error fetching handoff', error);
+    res.status(500).json({ error: 'Failed to fetch handoff. Please try again.' });
+  }
+});
+
+// ============================================
+// POST /api/agent/handoffs/:handoffId/claim - Take a handoff from the queue
+// ============================================
+router.post('/handoffs/:handoffId/claim', generalLimiter, requireAuth, async (req, res) => {
+  try {
+    const agent = await requireAgent(req, res);
+    if (!agent) return;
+
+    const [params, validationErrors] = validateRequest(handoffParamsSchema, req.params);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const result = await claimHandoff(agent, params.handoffId);
+    if (!result.success) {
+      return res.status(409).json({ error: result.error });
+    }
+
+    logger.info('Agent claimed handoff', { handoffId: params.handoffId, agentId: agent.id });
+    res.json({ handoff: result.data });
+
+  } catch (error) {
+    logger.error('Error claiming handoff', error);
+    res.status(500).json({ error: 'Failed to claim handoff. Please try again.' });
+  }
+});
+
+// ============================================
+// POST /api/agent/handoffs/:handoffId/messages - Reply into the customer's chat
+// ============================================
+router.post('/handoffs/:handoffId/messages', generalLimiter, requireAuth, async (req, res) => {
+  try {
+    const agent = await requireAgent(req, res);
+    if (!agent) return;
+
+    const [params, paramErrors] = validateRequest(handoffParamsSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
+
+    const [body, validationErrors] = validateRequest(agentReplySchema, req.body);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const result = await postAgentReply(agent, params.handoffId, body.message);
+    if (!result.success) {
+      return res.status(403).json({ error: result.error });
+    }
+
+    logger.info('Agent replied in chat', { handoffId: params.handoffId, agentId: agent.id });
+    res.status(201).json({ message: result.data });
+
+  } catch (error) {
+    logger.error('Error posting agent reply', error);
+    res.status(500).json({ error: 'Failed to send reply. Please try again.' });
+  }
+});
+
+// ============================================
+// POST /api/agent/handoffs/:handoffId/resolve - Close a handoff
+// ============================================
+router.post('/handoffs/:handoffId/resolve', generalLimiter, requireAuth, async (req, res) => {
+  try {
+    const agent = await requireAgent(req, res);
+    if (!agent) return;
+
+    const [params, paramErrors] = validateRequest(handoffParamsSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
+
+    const [body, validationErrors] = validateRequest(resolveHandoffSchema, req.body || {});
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const result = await resolveHandoff(agent.id, params.handoffId, body.notes);
+    if (!result.success) {
+      return res.status(403).json({ error: result.error });
+    }
+
+    logger.info('Agent resolved handoff', { handoffId: params.handoffId, agentId: agent.id });
+    res.json({ handoff: result.data });
+
+  } catch (error) {
+    logger.error('Error resolving handoff', error);
+    res.status(500).json({ error: 'Failed to resolve handoff. Please try again.' });
+  }
+});
+
+export default router;
@@ -1,8 +1,9 @@
 // backend/routes/feedback.ts
 // Feedback API routes for general feedback and chat message feedback
+// Every query runs as the caller (req.supabase), so RLS limits it to their own rows
 
 import express from 'express';
-import { supabase } from '../lib/supabase';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { logger } from '../lib/logger';
 import { requireAuth } from '../middleware/auth';
 import { generalLimiter } from '../middleware/rateLimiter';
@@ -18,8 +19,8 @@ const router = express.Router();
 // ============================================
 // Helper: Get internal user ID from external ID
 // ============================================
-async function getInternalUserId(externalId: string): Promise<number | null> {
-  const { data: userData } = await supabase
+async function getInternalUserId(db: SupabaseClient, externalId: string): Promise<number | null> {
+  const { data: userData } = await db
     .from('users')
     .select('id')
     .eq('external_id', externalId)
@@ -42,9 +43,10 @@ router.post('/', generalLimiter, requireAuth, async (req, res) => {
 
     const { rating, comment, feedback_type, conversation_id, session_id } = validatedData;
     const userId = req.user!.id;
+    const db = req.supabase!;
 
     // Get internal user ID
-    const internalUserId = await getInternalUserId(userId);
+    const internalUserId = await getInternalUserId(db, userId);
     if (!internalUserId) {
       return res.status(404).json({ error: 'User not found' });
     }
@@ -55,7 +57,7 @@ router.post('/', generalLimiter, requireAuth, async (req, res) => {
     // If session_id provided, resolve to most recent conversation and verify ownership
     if (session_id && !conversation_id) {
       // Verify session belongs to user
-      const { data: session } = await supabase
+      const { data: session } = await db
         .from('chat_sessions')
         .select('user_id')
         .eq('id', session_id)
@@ -66,7 +68,7 @@ router.post('/', generalLimiter, requireAuth, async (req, res) => {
       }
 
       // Get most recent conversation from session
-      const { data: lastConversation } = await supabase
+      const { data: lastConversation } = await db
         .from('conversations')
         .select('id')
         .eq('session_id', session_id)
@@ -79,14 +81,14 @@ router.post('/', generalLimiter, requireAuth, async (req, res) => {
 
     // If conversation_id provided directly, verify it belongs to user
     if (conversation_id) {
-      const { data: conversation } = await supabase
+      const { data: conversation } = await db
         .from('conversations')
         .select('session_id')
         .eq('id', conversation_id)
         .single();
 
       if (conversation) {
-        const { data: session } = await supabase
+        const { data: session } = await db
           .from('chat_sessions')
           .select('user_id')
           .eq('id', conversation.session_id)
@@ -99,7 +101,7 @@ router.post('/', generalLimiter, requireAuth, async (req, res) => {
     }
 
     // Insert feedback
-    const { data: feedback, error: insertError } = await supabase
+    const { data: feedback, error: insertError } = await db
       .from('feedback')
       .insert({
         user_id: internalUserId,
@@ -148,15 +150,16 @@ router.post('/chat', generalLimiter, requireAuth, async (req, res) => {
 
     const { conversation_id, vote } = validatedData;
     const userId = req.user!.id;
+    const db = req.supabase!;
 
     // Get internal user ID
-    const internalUserId = await getInternalUserId(userId);
+    const internalUserId = await getInternalUserId(db, userId);
     if (!internalUserId) {
       return res.status(404).json({ error: 'User not found' });
     }
 
     // Verify conversation exists and belongs to user's session
-    const { data: conversation } = await supabase
+    const { data: conversation } = await db
       .from('conversations')
       .select('session_id')
       .eq('id', conversation_id)
@@ -166,7 +169,7 @@ router.post('/chat', generalLimiter, requireAuth, async (req, res) => {
       return res.status(404).json({ error: 'Message not found' });
     }
 
-    const { data: session } = await supabase
+    const { data: session } = await db
       .from('chat_sessions')
       .select('user_id')
       .eq('id', conversation.session_id)
@@ -177,7 +180,7 @@ router.post('/chat', generalLimiter, requireAuth, async (req, res) => {
     }
 
     // Upsert feedback (update if exists, insert if new)
-    const { data: existingFeedback } = await supabase
+    const { data: existingFeedback } = await db
       .from('chat_feedback')
       .select('id, vote')
       .eq('conversation_id', conversation_id)
@@ -187,7 +190,7 @@ router.post('/chat', generalLimiter, requireAuth, async (req, res) => {
     if (existingFeedback) {
       // If same vote, remove it (toggle off)
       if (existingFeedback.vote === vote) {
-        const { error: deleteError } = await supabase
+        const { error: deleteError } = await db
           .from('chat_feedback')
           .delete()
           .eq('id', existingFeedback.id);
@@ -206,7 +209,7 @@ router.post('/chat', generalLimiter, requireAuth, async (req, res) => {
       }
 
       // Update to new vote
-      const { error: updateError } = await supabase
+      const { error: updateError } = await db
         .from('chat_feedback')
         .update({ vote, created_at: new Date().toISOString() })
         .eq('id', existingFeedback.id);
@@ -225,7 +228,7 @@ router.post('/chat', generalLimiter, requireAuth, async (req, res) => {
     }
 
     // Insert new feedback
-    const { error: insertError } = await supabase
+    const { error: insertError } = await db
       .from('chat_feedback')
       .insert({
         conversation_id,
@@ -259,15 +262,16 @@ router.get('/chat/:conversationId', requireAuth, async (req, res) => {
   try {
     const { conversationId } = req.params;
     const userId = req.user!.id;
+    const db = req.supabase!;
 
     // Get internal user ID
-    const internalUserId = await getInternalUserId(userId);
+    const internalUserId = await getInternalUserId(db, userId);
     if (!internalUserId) {
       return res.status(404).json({ error: 'User not found' });
     }
 
     // Get user's feedback for this message
-    const { data: feedback } = await supabase
+    const { data: feedback } = await db
       .from('chat_feedback')
       .select('vote')
       .eq('conversation_id', parseInt(conversationId, 10))
@@ -298,15 +302,16 @@ router.post('/session', generalLimiter, requireAuth, async (req, res) => {
 
     const { session_id, rating, comment } = validatedData;
     const userId = req.user!.id;
+    const db = req.supabase!;
 
     // Get internal user ID
-    const internalUserId = await getInternalUserId(userId);
+    const internalUserId = await getInternalUserId(db, userId);
     if (!internalUserId) {
       return res.status(404).json({ error: 'User not found' });
     }
 
     // Verify session belongs to user
-    const { data: session } = await supabase
+    const { data: session } = await db
       .from('chat_sessions')
       .select('user_id')
       .eq('id', session_id)
@@ -317,7 +322,7 @@ router.post('/session', generalLimiter, requireAuth, async (req, res) => {
     }
 
     // Get the most recent conversation from this session to link feedback
-    const { data: lastConversation } = await supabase
+    const { data: lastConversation } = await db
       .from('conversations')
       .select('id')
       .eq('session_id', session_id)
@@ -326,7 +331,7 @@ router.post('/session', generalLimiter, requireAuth, async (req, res) => {
       .single();
 
     // Insert feedback linked to session's conversation
-    const { data: feedback, error: insertError } = await supabase
+    const { data: feedback, error: insertError } = await db
       .from('feedback')
       .insert({
         user_id: internalUserId,
@@ -345,7 +350,7 @@ router.post('/session', generalLimiter, requireAuth, async (req, res) => {
     }
 
     // Update session with rating
-    await supabase
+    await db
       .from('chat_sessions')
       .update({ rating_avg: rating })
       .eq('id', session_id);
@@ -5,10 +5,12 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import multer from 'multer';
+import crypto from 'crypto';
 
 // Load environment variables first
 dotenv.config();
 
+import type { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from './lib/supabase';
 import { logger, requestLogger, setRequestContext } from './lib/logger';
 
@@ -26,9 +28,29 @@ import {
   renameSessionSchema,
   deleteSessionSchema,
   getUserSessionsQuerySchema,
+  conversationSearchQuerySchema,
   uploadPolicyBodySchema,
+  protectionAuditQuerySchema,
+  profileFactParamsSchema,
+  reviewProfileFactSchema,
+  updatePreferencesSchema,
+  renewalsQuerySchema,
+  createQuoteRequestSchema,
+  quoteRequestParamsSchema,
+  addQuoteSchema,
+  uploadQuoteBodySchema,
+  providerQuotesBodySchema,
+  claimParamsSchema,
+  claimSummaryQuerySchema,
+  uploadClaimPhotoBodySchema,
+  userIdParamSchema,
+  stateRegulationParamsSchema,
+  requestHandoffSchema,
+  llmUsageQuerySchema,
+  llmBudgetSchema,
   validateRequest
 } from './lib/validation';
+import type { ChatRequest } from './lib/validation';
 
 // NOTE: GCP Workload Identity is used in Cloud Run - no credentials file needed
 // The service automatically uses the attached service account
@@ -48,23 +70,55 @@ if (process.env.NODE_ENV === 'development' && process.env.GOOGLE_CREDENTIALS_BAS
   logger.info('Development mode: Using credentials file');
 }
 
-import { handleSamChatWithMCP } from './agents/sam';
+import { handleSamChatWithMCP, SamProgressCallback, SamRoutingDecision } from './agents/sam';
+import type { Citation } from './services/citations';
+import type { RaiReview } from './agents/rai';
+import { saveRaiReview } from './services/rai-reviews';
 import {
   handleDocumentUpload,
+  handleQuoteDocumentUpload,
+  handleClaimPhotoUpload,
   getPendingPolicyResponse,
   getUserPolicies,
-  deleteUserPolicy,
-  renameUserPolicy,
   PolicyType,
-  StoredPolicy,
   fetchUserDocumentsFromDatabase,
   deleteDocumentFromDatabase,
-  updateDocumentCarrierInDatabase,
-  loadUserDocumentsToCache
+  updateDocumentCarrierInDatabase
 } from './services/document-upload';
+import { getPolicyStore } from './services/policy-store';
+import { buildProtectionAudit } from './services/protection-audit';
+import {
+  deleteProfileFact,
+  listProfileFacts,
+  proposeFactsFromExchange,
+  reviewProfileFact
+} from './services/user-memory';
+import { getUserPreferences, setPreferredLanguage } from './services/user-preferences';
+import { DEFAULT_LANGUAGE, Language, resolveReplyLanguage } from './lib/language';
+import { getUserRenewals, getUpcomingExpirations, getOpenRenewalReminders, acknowledgeRenewalReminders, formatRenewalReminderNotice, RenewalReminder } from './services/renewal-guard';
+import {
+  addQuote,
+  createQuoteRequest,
+  getQuoteComparison,
+  getUserQuoteRequests,
+  quoteInputFromExtraction
+} from './services/quote-comparison';
+import { requestProviderQuotes } from './services/quote-providers';
+import { attachClaimPhoto, ClaimIntakeChannel, getClaim, getUserClaims, openClaimIntake } from './services/claim-intake';
+import { renderFnolHtml } from './services/fnol-summary';
+import { getStateRegulation } from './services/state-regulations';
+import { STATE_REGULATIONS, STATE_REGULATIONS_VERSION, STATE_REGULATIONS_REVIEWED_AT } from './lib/state-regulations-data';
 import { generateSessionSummary, regenerateSummary } from './services/session-summary';
+import { indexConversationMessage, MessageRole, searchConversations } from './services/conversation-search';
 import { deleteUserAccount, getInternalUserId } from './services/account-deletion';
+import { getOpenHandoff, HandoffTrigger, requestHandoff } from './services/advisor-handoff';
+import { getBudgetStatus, getUsageSummary, recordModelCall, setDailyBudget, trackModelUsage } from './services/llm-usage';
+import { setModelUsageListener } from './lib/model-registry';
+import type { PromptRecord } from './lib/prompt-registry';
+import { getPromptFeedback } from './services/prompt-feedback';
+import { runSchedulerTick } from './jobs/tasks';
 import feedbackRoutes from './routes/feedback';
+import agentConsoleRoutes from './routes/agent-console';
 
 const app = express();
 const port = process.env.PORT || 8080;
@@ -149,12 +203,19 @@ app.use(express.json({ limit: '1mb' }));
 // Add request ID and structured logging middleware
 app.use(requestLogger);
 
+// Record tokens, latency and cost of every model call against the request and user
+setModelUsageListener(recordModelCall);
+app.use(trackModelUsage);
+
 // Apply general rate limiter to all routes
 app.use(generalLimiter);
 
 // Mount feedback routes
 app.use('/api/feedback', feedbackRoutes);
 
+// Mount licensed agent console routes
+app.use('/api/agent', agentConsoleRoutes);
+
 // ============================================
 // HEALTH CHECK (Public)
 // ============================================
@@ -239,6 +300,12 @@ app.get('/api/diagnostics', (req, res) => {
 // ============================================
 // DOCUMENT UPLOAD ENDPOINT (Authenticated)
 // ============================================
+// Lead-in for the analysis shown in chat after an upload
+const UPLOAD_ANALYSIS_INTRO: Record<Language, string> = {
+  en: "Great news! I've analyzed your policy document. Here's what I found:\n\n",
+  es: "¡Buenas noticias! Analicé el documento de su póliza. Esto es lo que encontré:\n\n"
+};
+
 app.post('/api/upload-policy', uploadLimiter, requireAuth, upload.single('document'), async (req, res) => {
   try {
     logger.info('Incoming document upload');
@@ -262,16 +329,20 @@ app.post('/api/upload-policy', uploadLimiter, requireAuth, upload.single('docume
 
     logger.info('Processing document upload', { fileName: originalname, mimeType: mimetype, sessionId });
 
-    const result = await handleDocumentUpload(buffer, originalname, mimetype, sessionId, userId);
+    const language = validatedBody.language || (await getUserPreferences(userId, req.supabase!)).language || DEFAULT_LANGUAGE;
+    const result = await handleDocumentUpload(buffer, originalname, mimetype, sessionId, userId, language);
 
     logger.info('Document upload processing completed', { success: result.success });
 
     if (result.success) {
       logger.info('Sending success response to client');
+      const renewalSummaries = result.renewalSummaries || [];
       res.json({
         success: true,
-        message: "Great news! I've analyzed your policy document. Here's what I found:\n\n" + result.analysis,
-        analysis: result.analysis
+        message: UPLOAD_ANALYSIS_INTRO[language] + (result.summary || result.analysis) +
+          renewalSummaries.map(summary => '\n\n' + summary).join(''),
+        analysis: result.analysis,
+        renewalSummaries
       });
       logger.info('Success response sent');
     } else {
@@ -303,73 +374,27 @@ app.post('/api/upload-policy', uploadLimiter, requireAuth, upload.single('docume
   }
 });
 
-// Multer error handler - must come immediately after upload route
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  // Only handle multer errors for upload endpoints
-  if (req.path === '/api/upload-policy') {
-    // Check if it's a multer error
-    if (error instanceof multer.MulterError) {
-      logger.error('Multer error during upload', {
-        code: error.code,
-        field: error.field,
-        message: error.message
-      });
-
-      // Return user-friendly error messages
-      switch (error.code) {
-        case 'LIMIT_FILE_SIZE':
-          return res.status(400).json({
-            error: 'File too large. Maximum file size is 20MB.'
-          });
-        case 'LIMIT_UNEXPECTED_FILE':
-          return res.status(400).json({
-            error: 'Unexpected file field. Please use the "document" field.'
-          });
-        default:
-          return res.status(400).json({
-            error: 'File upload error. Please try again.'
-          });
-      }
-    }
-
-    // Handle custom fileFilter errors
-    if (error.message && error.message.includes('Invalid file type')) {
-      logger.error('Invalid file type uploaded', { message: error.message });
-      return res.status(400).json({
-        error: error.message
-      });
-    }
-
-    // Other errors during upload
-    logger.error('Upload endpoint error', error);
-    return res.status(500).json({
-      error: 'Upload failed. Please try again.',
-      ...(process.env.NODE_ENV === 'development' && error instanceof Error ? {
-        debug: error.message
-      } : {})
-    });
-  }
-
-  // Pass to next error handler
-  next(error);
-});
-
 // ============================================
-// POLICY STATUS ENDPOINT (Public - no sensitive data)
+// POLICY STATUS ENDPOINT (Authenticated)
 // ============================================
-app.get('/api/policy-status', (req, res) => {
-  const pending = getPendingPolicyResponse();
+// Pending analyses are stored per user, so only the uploader can collect theirs
+app.get('/api/policy-status', requireAuth, async (req, res) => {
+  try {
+    const pending = await getPendingPolicyResponse(req.user!.id);
 
-  if (pending) {
-    logger.info('Delivering pending policy analysis to frontend');
-    res.json({
-      ready: true,
-      analysis: pending.analysis,
-      message: "Great news! I've analyzed your policy. Here's what I found:\n\n" + pending.analysis
-    });
-  } else {
-    res.json({ ready: false });
+    if (pending) {
+      logger.info('Delivering pending policy analysis to frontend');
+      res.json({
+        ready: true,
+        analysis: pending.analysis,
+        message: "Great news! I've analyzed your policy. Here's what I found:\n\n" + pending.analysis
+      });
+    } else {
+      res.json({ ready: false });
+    }
+  } catch (error) {
+    logger.error('Error fetching policy status', error);
+    res.status(500).json({ error: 'Failed to fetch policy status. Please try again.' });
   }
 });
 
@@ -382,12 +407,9 @@ app.get('/api/users/:userId/policies', requireAuth, async (req, res) => {
     const userId = req.user!.id;
 
     // First try to fetch from database (source of truth) - only policy documents
-    const dbResult = await fetchUserDocumentsFromDatabase(userId, { policyDocumentsOnly: true });
+    const dbResult = await fetchUserDocumentsFromDatabase(userId, { policyDocumentsOnly: true }, req.supabase!);
 
     if (dbResult.success && dbResult.documents && dbResult.documents.length > 0) {
-      // Load into cache for faster access in chat
-      await loadUserDocumentsToCache(userId);
-
       // Return database documents
       const policies = dbResult.documents.map(doc => ({
         id: doc.id,
@@ -403,14 +425,9 @@ app.get('/api/users/:userId/policies', requireAuth, async (req, res) => {
       return res.json({ policies });
     }
 
-    // Fallback to in-memory store for backwards compatibility
-    const policiesMap = getUserPolicies(userId);
-
-    if (!policiesMap || policiesMap.size === 0) {
-      return res.json({ policies: [] });
-    }
+    // Fallback to the policy store (e.g. the in-memory store in local development)
+    const storedPolicies = await getUserPolicies(userId);
 
-    // Convert Map to array format for frontend
     const policies: Array<{
       id?: number;
       policyType: PolicyType;
@@ -419,24 +436,20 @@ app.get('/api/users/:userId/policies', requireAuth, async (req, res) => {
       uploadedAt: string;
       fileName: string;
       gcsUri?: string;
-    }> = [];
-
-    policiesMap.forEach((policy: StoredPolicy, policyType: PolicyType) => {
-      policies.push({
-        id: policy.rawData?.documentId,
-        policyType,
-        carrier: policy.carrier,
-        analysis: policy.analysis,
-        uploadedAt: policy.rawData?.uploadedAt || new Date(policy.timestamp).toISOString(),
-        fileName: policy.rawData?.fileName || 'Unknown',
-        gcsUri: policy.rawData?.gcsUri
-      });
-    });
+    }> = storedPolicies.map(policy => ({
+      id: policy.rawData?.documentId,
+      policyType: policy.policyType,
+      carrier: policy.carrier,
+      analysis: policy.analysis,
+      uploadedAt: policy.rawData?.uploadedAt || new Date(policy.timestamp).toISOString(),
+      fileName: policy.rawData?.fileName || 'Unknown',
+      gcsUri: policy.rawData?.gcsUri
+    }));
 
     // Sort by most recent first
     policies.sort((a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime());
 
-    logger.info('Returning user policies from cache', { policyCount: policies.length });
+    logger.info('Returning user policies from policy store', { policyCount: policies.length });
     res.json({ policies });
 
   } catch (error) {
@@ -461,17 +474,6 @@ app.delete('/api/users/:userId/policies/:identifier', requireAuth, async (req, r
       const dbResult = await deleteDocumentFromDatabase(userId, documentId);
 
       if (dbResult.success) {
-        // Also clear from cache - need to find and remove the policy
-        const policiesMap = getUserPolicies(userId);
-        if (policiesMap) {
-          for (const [policyType, policy] of policiesMap.entries()) {
-            if (policy.rawData?.documentId === documentId) {
-              deleteUserPolicy(userId, policyType);
-              break;
-            }
-          }
-        }
-
         logger.info('Deleted user document', { userId, documentId });
         return res.json({ success: true, message: 'Policy deleted successfully' });
       } else {
@@ -486,13 +488,7 @@ app.delete('/api/users/:userId/policies/:identifier', requireAuth, async (req, r
       return res.status(400).json({ error: 'Invalid policy type or document ID' });
     }
 
-    // Get the document ID from cache to also delete from database
-    const policy = getUserPolicies(userId)?.get(policyType as PolicyType);
-    if (policy?.rawData?.documentId) {
-      await deleteDocumentFromDatabase(userId, policy.rawData.documentId);
-    }
-
-    const deleted = deleteUserPolicy(userId, policyType as PolicyType);
+    const deleted = await getPolicyStore().deletePolicy(userId, policyType as PolicyType);
 
     if (deleted) {
       logger.info('Deleted user policy', { userId, policyType });
@@ -530,17 +526,6 @@ app.patch('/api/users/:userId/policies/:identifier', requireAuth, async (req, re
       const dbResult = await updateDocumentCarrierInDatabase(userId, documentId, trimmedCarrier);
 
       if (dbResult.success) {
-        // Also update in cache
-        const policiesMap = getUserPolicies(userId);
-        if (policiesMap) {
-          for (const [policyType, policy] of policiesMap.entries()) {
-            if (policy.rawData?.documentId === documentId) {
-              renameUserPolicy(userId, policyType, trimmedCarrier);
-              break;
-            }
-          }
-        }
-
         logger.info('Updated user document carrier', { userId, documentId, newCarrier: trimmedCarrier });
         return res.json({ success: true, message: 'Policy updated successfully' });
       } else {
@@ -555,13 +540,7 @@ app.patch('/api/users/:userId/policies/:identifier', requireAuth, async (req, re
       return res.status(400).json({ error: 'Invalid policy type or document ID' });
     }
 
-    // Get the document ID from cache to also update database
-    const policy = getUserPolicies(userId)?.get(policyType as PolicyType);
-    if (policy?.rawData?.documentId) {
-      await updateDocumentCarrierInDatabase(userId, policy.rawData.documentId, trimmedCarrier);
-    }
-
-    const renamed = renameUserPolicy(userId, policyType as PolicyType, trimmedCarrier);
+    const renamed = await getPolicyStore().renamePolicy(userId, policyType as PolicyType, trimmedCarrier);
 
     if (renamed) {
       logger.info('Renamed user policy', { userId, policyType, newCarrier: trimmedCarrier });
@@ -577,215 +556,820 @@ app.patch('/api/users/:userId/policies/:identifier', requireAuth, async (req, re
 });
 
 // ============================================
-// CHAT SESSION ENDPOINTS
+// PROTECTION AUDIT ENDPOINT (Authenticated)
 // ============================================
-
-// Create a new chat session (Authenticated)
-app.post('/api/chat-sessions', sessionLimiter, requireAuth, async (req, res) => {
+// Deterministic coverage gap findings from stored policies plus profile facts passed as query params
+// (confirmed facts from the user's long-term memory fill in any that are omitted)
+app.get('/api/users/:userId/protection-audit', requireAuth, async (req, res) => {
   try {
-    // Validate request body
-    const [validatedData, validationErrors] = validateRequest(createSessionSchema, {
-      ...req.body,
-      userId: req.user!.id // Force authenticated user ID
-    });
+    const userId = req.user!.id;
 
+    const [queryData, validationErrors] = validateRequest(protectionAuditQuerySchema, req.query);
     if (validationErrors) {
       return res.status(400).json(validationErrors);
     }
 
-    const { userId, topicId, policyId, claimId } = validatedData;
-
-    // Look up the internal user ID from external_id (Supabase auth ID)
-    const { data: userData, error: userError } = await supabase
-      .from('users')
-      .select('id')
-      .eq('external_id', userId)
-      .single();
-
-    let internalUserId = userData?.id;
+    // userId is only accepted so requireAuth's IDOR check can see it
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { userId: _queryUserId, ...facts } = queryData;
+    const result = await buildProtectionAudit(userId, facts, req.supabase!);
 
-    // If user doesn't exist in our users table, create them
-    if (!internalUserId) {
-      logger.info('Creating user record for authenticated user');
+    if (!result.success) {
+      logger.error('Protection audit failed', result.error);
+      return res.status(500).json({ error: 'Failed to run protection audit' });
+    }
 
-      // Get user info from Supabase auth
-      const { data: authUser } = await supabase.auth.admin.getUserById(userId);
+    logger.info('Returning protection audit', { findingCount: result.data!.findings.length });
+    res.json(result.data);
 
-      const { data: newUser, error: createError } = await supabase
-        .from('users')
-        .insert({
-          external_id: userId,
-          name: authUser?.user?.user_metadata?.full_name ||
-                authUser?.user?.user_metadata?.name ||
-                'User',
-          email: authUser?.user?.email || `${userId.slice(0, 8)}@auth.local`,
-          // Password hash is required by schema but not used for Supabase auth users
-          password_hash: 'supabase_auth_managed'
-        })
-        .select('id')
-        .single();
+  } catch (error) {
+    logger.error('Error running protection audit', error);
+    res.status(500).json({ error: 'Failed to run protection audit. Please try again.' });
+  }
+});
 
-      if (createError) {
-        logger.error('Failed to create user', createError);
-        return res.status(500).json({ error: 'Failed to create user record' });
-      }
-      internalUserId = newUser.id;
-    }
+// ============================================
+// PROFILE FACTS ENDPOINTS (Authenticated)
+// ============================================
+// Long-term memory: facts Sam picked up in chat wait as proposals until the user confirms them
 
-    // Create new chat session
-    const { data: session, error: sessionError } = await supabase
-      .from('chat_sessions')
-      .insert({
-        user_id: internalUserId,
-        topic_id: topicId || null,
-        policy_id: policyId || null,
-        claim_id: claimId || null,
-        started_at: new Date().toISOString(),
-        last_message_at: new Date().toISOString(),
-        total_messages: 0,
-        active: true
-      })
-      .select('id, session_uuid')
-      .single();
+app.get('/api/users/:userId/profile-facts', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
 
-    if (sessionError) {
-      logger.error('Failed to create chat session', sessionError);
-      return res.status(500).json({ error: 'Failed to create chat session' });
-    }
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    const facts = internalUserId ? await listProfileFacts(internalUserId, req.supabase!) : [];
 
-    logger.info('Created chat session', { sessionUuid: session.session_uuid });
     res.json({
-      sessionId: session.id,
-      sessionUuid: session.session_uuid
+      confirmed: facts.filter(fact => fact.status === 'confirmed'),
+      proposed: facts.filter(fact => fact.status === 'proposed')
     });
 
   } catch (error) {
-    logger.error('Error creating chat session', error);
-    res.status(500).json({ error: 'Failed to create session. Please try again.' });
+    logger.error('Error fetching profile facts', error);
+    res.status(500).json({ error: 'Failed to fetch profile facts. Please try again.' });
   }
 });
 
-// Get chat history for a session (Authenticated)
-// Supports pagination: ?limit=50&before=<timestamp> for loading older messages
-app.get('/api/chat-sessions/:sessionId/messages', requireAuth, async (req, res) => {
+// Confirm or dismiss a proposed fact
+app.patch('/api/users/:userId/profile-facts/:factId', requireAuth, async (req, res) => {
   try {
-    const { sessionId } = req.params;
     const userId = req.user!.id;
 
-    // Pagination params: limit defaults to 50, before is optional cursor
-    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
-    const before = req.query.before as string | undefined;
-
-    // Look up internal user ID
-    const { data: userData } = await supabase
-      .from('users')
-      .select('id')
-      .eq('external_id', userId)
-      .single();
+    const [params, paramErrors] = validateRequest(profileFactParamsSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
 
-    if (!userData) {
-      return res.status(404).json({ error: 'User not found' });
+    const [body, bodyErrors] = validateRequest(reviewProfileFactSchema, req.body);
+    if (bodyErrors) {
+      return res.status(400).json(bodyErrors);
     }
 
-    // Verify session belongs to this user (authorization check)
-    const { data: session } = await supabase
-      .from('chat_sessions')
-      .select('user_id')
-      .eq('id', sessionId)
-      .single();
+    const internalUserId = await getInternalUserId(userId);
+    if (!internalUserId) {
+      return res.status(404).json({ error: 'Fact not found' });
+    }
 
-    if (!session || session.user_id !== userData.id) {
-      return res.status(403).json({ error: 'Not authorized to view this session' });
+    const result = await reviewProfileFact(internalUserId, params.factId, body.status);
+    if (!result.success) {
+      return res.status(result.error === 'Fact not found' ? 404 : 409).json({ error: result.error });
     }
 
-    // Build query with pagination - fetch most recent messages first
-    let query = supabase
-      .from('conversations')
-      .select('id, message, timestamp, intent, entities')
-      .eq('session_id', sessionId)
-      .order('timestamp', { ascending: false })
-      .limit(limit);
+    logger.info('Reviewed profile fact', { factId: params.factId, status: body.status });
+    res.json(result.data);
 
-    // If 'before' cursor provided, get messages older than that timestamp
-    if (before) {
-      query = query.lt('timestamp', before);
-    }
+  } catch (error) {
+    logger.error('Error reviewing profile fact', error);
+    res.status(500).json({ error: 'Failed to update profile fact. Please try again.' });
+  }
+});
 
-    const { data: messages, error } = await query;
+app.delete('/api/users/:userId/profile-facts/:factId', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
 
-    if (error) {
-      logger.error('Failed to fetch chat history', error);
-      return res.status(500).json({ error: 'Failed to fetch chat history' });
+    const [params, validationErrors] = validateRequest(profileFactParamsSchema, req.params);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
     }
 
-    // Reverse to get chronological order (oldest first) for display
-    const chronologicalMessages = (messages || []).reverse();
-
-    // Transform to frontend format
-    const formattedMessages = chronologicalMessages.map((msg, index) => ({
-      id: msg.id.toString(),
-      content: msg.message,
-      role: index % 2 === 0 ? 'user' : 'assistant',
-      timestamp: msg.timestamp,
-      intent: msg.intent,
-      entities: msg.entities
-    }));
+    const internalUserId = await getInternalUserId(userId);
+    const result = internalUserId
+      ? await deleteProfileFact(internalUserId, params.factId)
+      : { success: false, error: 'Fact not found' };
 
-    // Include pagination metadata
-    const hasMore = messages && messages.length === limit;
-    const oldestTimestamp = chronologicalMessages.length > 0
-      ? chronologicalMessages[0].timestamp
-      : null;
+    if (!result.success) {
+      return res.status(404).json({ error: 'Fact not found' });
+    }
 
-    res.json({
-      messages: formattedMessages,
-      pagination: {
-        hasMore,
-        oldestTimestamp,
-        limit
-      }
-    });
+    logger.info('Deleted profile fact', { factId: params.factId });
+    res.json({ success: true });
 
   } catch (error) {
-    logger.error('Error fetching chat history', error);
-    res.status(500).json({ error: 'Failed to fetch chat history. Please try again.' });
+    logger.error('Error deleting profile fact', error);
+    res.status(500).json({ error: 'Failed to delete profile fact. Please try again.' });
   }
 });
 
-// Rename a chat session (Authenticated)
-app.patch('/api/chat-sessions/:sessionId', requireAuth, async (req, res) => {
+// ============================================
+// RENEWAL GUARD ENDPOINT (Authenticated)
+// ============================================
+// Recorded renewals (with term-over-term changes) and policies expiring soon
+app.get('/api/users/:userId/renewals', requireAuth, async (req, res) => {
   try {
-    const { sessionId } = req.params;
-
-    // Validate request body
-    const [validatedData, validationErrors] = validateRequest(renameSessionSchema, {
-      ...req.body,
-      userId: req.user!.id
-    });
+    const userId = req.user!.id;
 
+    const [queryData, validationErrors] = validateRequest(renewalsQuerySchema, req.query);
     if (validationErrors) {
       return res.status(400).json(validationErrors);
     }
 
-    const { summary } = validatedData;
-    const userId = req.user!.id;
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    if (!internalUserId) {
+      return res.json({ renewals: [], upcomingExpirations: [] });
+    }
 
-    // Look up internal user ID
-    const { data: userData } = await supabase
-      .from('users')
-      .select('id')
-      .eq('external_id', userId)
-      .single();
+    const language = queryData.language || (await getUserPreferences(userId, req.supabase!)).language || DEFAULT_LANGUAGE;
+    const [renewals, upcomingExpirations] = await Promise.all([
+      getUserRenewals(internalUserId, queryData.limit, req.supabase!, language),
+      getUpcomingExpirations(internalUserId, queryData.withinDays, req.supabase!)
+    ]);
 
-    if (!userData) {
-      return res.status(404).json({ error: 'User not found' });
-    }
+    logger.info('Returning renewal overview', { renewalCount: renewals.length, expiringCount: upcomingExpirations.length });
+    res.json({ renewals, upcomingExpirations });
 
-    // Verify session belongs to this user
-    const { data: session } = await supabase
-      .from('chat_sessions')
-      .select('id, user_id')
-      .eq('id', sessionId)
+  } catch (error) {
+    logger.error('Error fetching renewals', error);
+    res.status(500).json({ error: 'Failed to fetch renewals. Please try again.' });
+  }
+});
+
+// ============================================
+// QUOTE COMPARISON ENDPOINTS (Authenticated)
+// ============================================
+// Quote requests snapshot a stored policy; quotes are compared against that snapshot
+
+// Open a quote request for one of the user's policies
+app.post('/api/users/:userId/quote-requests', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [body, validationErrors] = validateRequest(createQuoteRequestSchema, req.body);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId);
+    if (!internalUserId) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    const result = await createQuoteRequest(internalUserId, { policyId: body.policyId, policyType: body.policyType });
+    if (!result.success) {
+      const status = result.error === 'Policy not found' ? 404 : 500;
+      return res.status(status).json({ error: status === 404 ? result.error : 'Failed to create quote request' });
+    }
+
+    logger.info('Quote request created', { quoteRequestId: result.data!.id, policyId: result.data!.current.policyId });
+    res.status(201).json(result.data);
+
+  } catch (error) {
+    logger.error('Error creating quote request', error);
+    res.status(500).json({ error: 'Failed to create quote request. Please try again.' });
+  }
+});
+
+// List the user's quote requests
+app.get('/api/users/:userId/quote-requests', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [, validationErrors] = validateRequest(userIdParamSchema, req.params);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    if (!internalUserId) {
+      return res.json({ quoteRequests: [] });
+    }
+
+    const quoteRequests = await getUserQuoteRequests(internalUserId, undefined, req.supabase!);
+    res.json({ quoteRequests });
+
+  } catch (error) {
+    logger.error('Error fetching quote requests', error);
+    res.status(500).json({ error: 'Failed to fetch quote requests. Please try again.' });
+  }
+});
+
+// Side-by-side comparison of every quote on a request against the current policy
+app.get('/api/users/:userId/quote-requests/:requestId', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [params, validationErrors] = validateRequest(quoteRequestParamsSchema, req.params);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    const comparison = internalUserId ? await getQuoteComparison(internalUserId, params.requestId, req.supabase!) : null;
+    if (!comparison) {
+      return res.status(404).json({ error: 'Quote request not found' });
+    }
+
+    res.json(comparison);
+
+  } catch (error) {
+    logger.error('Error fetching quote comparison', error);
+    res.status(500).json({ error: 'Failed to fetch quote comparison. Please try again.' });
+  }
+});
+
+// Attach a manually entered quote
+app.post('/api/users/:userId/quote-requests/:requestId/quotes', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [params, paramErrors] = validateRequest(quoteRequestParamsSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
+
+    const [body, bodyErrors] = validateRequest(addQuoteSchema, req.body);
+    if (bodyErrors) {
+      return res.status(400).json(bodyErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId);
+    if (!internalUserId) {
+      return res.status(404).json({ error: 'Quote request not found' });
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { userId: _bodyUserId, ...input } = body;
+    const result = await addQuote(internalUserId, params.requestId, input);
+    if (!result.success) {
+      return res.status(result.error === 'Quote request not found' ? 404 : 400).json({ error: result.error });
+    }
+
+    res.status(201).json(result.data);
+
+  } catch (error) {
+    logger.error('Error adding quote', error);
+    res.status(500).json({ error: 'Failed to add quote. Please try again.' });
+  }
+});
+
+// Attach a quote uploaded as a document; coverages are extracted like a declarations page
+app.post('/api/users/:userId/quote-requests/:requestId/quotes/upload', uploadLimiter, requireAuth, upload.single('document'), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const [params, paramErrors] = validateRequest(quoteRequestParamsSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
+
+    const [, bodyErrors] = validateRequest(uploadQuoteBodySchema, req.body || {});
+    if (bodyErrors) {
+      return res.status(400).json(bodyErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId);
+    const request = internalUserId ? await getQuoteComparison(internalUserId, params.requestId) : null;
+    if (!request) {
+      return res.status(404).json({ error: 'Quote request not found' });
+    }
+
+    const { buffer, originalname, mimetype } = req.file;
+    const quoteUpload = await handleQuoteDocumentUpload(buffer, originalname, mimetype, userId, request.current.policyType as PolicyType);
+    if (!quoteUpload.success) {
+      return res.status(400).json({ error: quoteUpload.error });
+    }
+
+    const input = quoteInputFromExtraction(quoteUpload.quote!);
+    if (!input.success) {
+      return res.status(400).json({ error: input.error });
+    }
+
+    const result = await addQuote(internalUserId!, params.requestId, input.data!, { type: 'document', documentId: quoteUpload.documentId });
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    logger.info('Quote extracted from document', { quoteRequestId: params.requestId, quoteId: result.data!.quoteId });
+    res.status(201).json(result.data);
+
+  } catch (error) {
+    logger.error('Error uploading quote', error);
+    res.status(500).json({ error: 'Failed to process quote document. Please try again.' });
+  }
+});
+
+// Fan the request out to the registered quote providers (mock provider outside production)
+app.post('/api/users/:userId/quote-requests/:requestId/provider-quotes', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [params, paramErrors] = validateRequest(quoteRequestParamsSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
+
+    const [, bodyErrors] = validateRequest(providerQuotesBodySchema, req.body || {});
+    if (bodyErrors) {
+      return res.status(400).json(bodyErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId);
+    if (!internalUserId) {
+      return res.status(404).json({ error: 'Quote request not found' });
+    }
+
+    const result = await requestProviderQuotes(internalUserId, params.requestId);
+    if (!result.success) {
+      const status = result.error === 'Quote request not found' ? 404 : result.error === 'Quote request is closed' ? 400 : 500;
+      return res.status(status).json({ error: status === 500 ? 'Failed to fetch provider quotes' : result.error });
+    }
+
+    logger.info('Provider quotes requested', {
+      quoteRequestId: params.requestId,
+      providers: result.data!.providers.map(p => `${p.providerId}:${p.status}`)
+    });
+    res.json(result.data);
+
+  } catch (error) {
+    logger.error('Error requesting provider quotes', error);
+    res.status(500).json({ error: 'Failed to fetch provider quotes. Please try again.' });
+  }
+});
+
+// ============================================
+// CLAIM ENDPOINTS (Authenticated)
+// ============================================
+// Claims are reported in chat (services/claim-intake.ts); these list them, add photos and print
+// the First Notice of Loss summary
+
+// List the user's claims, newest first
+app.get('/api/users/:userId/claims', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [, validationErrors] = validateRequest(userIdParamSchema, req.params);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    if (!internalUserId) {
+      return res.json({ claims: [] });
+    }
+
+    const claims = await getUserClaims(internalUserId, req.supabase!);
+    res.json({ claims });
+
+  } catch (error) {
+    logger.error('Error fetching claims', error);
+    res.status(500).json({ error: 'Failed to fetch claims. Please try again.' });
+  }
+});
+
+app.get('/api/users/:userId/claims/:claimId', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [params, validationErrors] = validateRequest(claimParamsSchema, req.params);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    const claim = internalUserId ? await getClaim(internalUserId, params.claimId, req.supabase!) : null;
+    if (!claim) {
+      return res.status(404).json({ error: 'Claim not found' });
+    }
+
+    res.json(claim);
+
+  } catch (error) {
+    logger.error('Error fetching claim', error);
+    res.status(500).json({ error: 'Failed to fetch claim. Please try again.' });
+  }
+});
+
+// Printable First Notice of Loss summary (HTML) the user sends to their carrier
+app.get('/api/users/:userId/claims/:claimId/summary', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [params, paramErrors] = validateRequest(claimParamsSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
+
+    const [query, queryErrors] = validateRequest(claimSummaryQuerySchema, req.query);
+    if (queryErrors) {
+      return res.status(400).json(queryErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    const claim = internalUserId ? await getClaim(internalUserId, params.claimId, req.supabase!) : null;
+    if (!claim) {
+      return res.status(404).json({ error: 'Claim not found' });
+    }
+
+    const { data: policyholder } = await req.supabase!
+      .from('users')
+      .select('name, email, phone, address')
+      .eq('external_id', userId)
+      .maybeSingle();
+
+    const language = query.language || (await getUserPreferences(userId, req.supabase!)).language || DEFAULT_LANGUAGE;
+    res.setHeader('Cache-Control', 'no-store');
+    res.type('html').send(renderFnolHtml(claim, language, policyholder || undefined));
+
+  } catch (error) {
+    logger.error('Error rendering claim summary', error);
+    res.status(500).json({ error: 'Failed to build claim summary. Please try again.' });
+  }
+});
+
+// Attach a photo (or a PDF such as the police report) to a claim
+app.post('/api/users/:userId/claims/:claimId/photos', uploadLimiter, requireAuth, upload.single('document'), async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
+    }
+
+    const [params, paramErrors] = validateRequest(claimParamsSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
+
+    const [body, bodyErrors] = validateRequest(uploadClaimPhotoBodySchema, req.body || {});
+    if (bodyErrors) {
+      return res.status(400).json(bodyErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    const claim = internalUserId ? await getClaim(internalUserId, params.claimId, req.supabase!) : null;
+    if (!claim) {
+      return res.status(404).json({ error: 'Claim not found' });
+    }
+
+    const { buffer, originalname, mimetype } = req.file;
+    const { data: session } = await req.supabase!
+      .from('chat_sessions')
+      .select('id')
+      .eq('claim_id', claim.id)
+      .limit(1)
+      .maybeSingle();
+
+    const stored = await handleClaimPhotoUpload(buffer, originalname, mimetype, userId, session?.id);
+    if (!stored.success) {
+      return res.status(400).json({ error: stored.error });
+    }
+
+    const language = body.language || (await getUserPreferences(userId, req.supabase!)).language || DEFAULT_LANGUAGE;
+    const result = await attachClaimPhoto(claim, {
+      userDocumentId: stored.documentId!,
+      gcsUri: stored.gcsUri!,
+      fileName: originalname,
+      fileType: mimetype,
+      fileSize: buffer.length
+    }, language);
+    if (!result.success) {
+      return res.status(400).json({ error: result.error });
+    }
+
+    logger.info('Photo attached to claim', { claimId: claim.id, photoCount: result.data!.photoCount });
+    res.status(201).json(result.data);
+
+  } catch (error) {
+    logger.error('Error attaching claim photo', error);
+    res.status(500).json({ error: 'Failed to attach photo. Please try again.' });
+  }
+});
+
+// Multer error handler - must come after every upload route: policy, quote and claim photo uploads
+const UPLOAD_PATHS = [
+  /^\/api\/upload-policy$/,
+  /^\/api\/users\/[^/]+\/quote-requests\/[^/]+\/quotes\/upload$/,
+  /^\/api\/users\/[^/]+\/claims\/[^/]+\/photos$/
+];
+
+// eslint-disable-next-line @typescript-eslint/no-unused-vars
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  // Only handle multer errors for upload endpoints
+  if (UPLOAD_PATHS.some(pattern => pattern.test(req.path))) {
+    // Check if it's a multer error
+    if (error instanceof multer.MulterError) {
+      logger.error('Multer error during upload', {
+        code: error.code,
+        field: error.field,
+        message: error.message
+      });
+
+      // Return user-friendly error messages
+      switch (error.code) {
+        case 'LIMIT_FILE_SIZE':
+          return res.status(400).json({
+            error: 'File too large. Maximum file size is 20MB.'
+          });
+        case 'LIMIT_UNEXPECTED_FILE':
+          return res.status(400).json({
+            error: 'Unexpected file field. Please use the "document" field.'
+          });
+        default:
+          return res.status(400).json({
+            error: 'File upload error. Please try again.'
+          });
+      }
+    }
+
+    // Handle custom fileFilter errors
+    if (error.message && error.message.includes('Invalid file type')) {
+      logger.error('Invalid file type uploaded', { message: error.message });
+      return res.status(400).json({
+        error: error.message
+      });
+    }
+
+    // Other errors during upload
+    logger.error('Upload endpoint error', error);
+    return res.status(500).json({
+      error: 'Upload failed. Please try again.',
+      ...(process.env.NODE_ENV === 'development' && error instanceof Error ? {
+        debug: error.message
+      } : {})
+    });
+  }
+
+  // Pass to next error handler
+  next(error);
+});
+
+// ============================================
+// STATE REGULATIONS ENDPOINTS (Public reference data)
+// ============================================
+app.get('/api/state-regulations', (req, res) => {
+  res.json({
+    version: STATE_REGULATIONS_VERSION,
+    reviewedAt: STATE_REGULATIONS_REVIEWED_AT,
+    states: Object.values(STATE_REGULATIONS).map(({ state, name }) => ({ state, name }))
+  });
+});
+
+app.get('/api/state-regulations/:state', (req, res) => {
+  const [params, validationErrors] = validateRequest(stateRegulationParamsSchema, req.params);
+  if (validationErrors) {
+    return res.status(400).json(validationErrors);
+  }
+
+  const regulation = getStateRegulation(params.state);
+  if (!regulation) {
+    return res.status(404).json({ error: 'No regulatory data for this state' });
+  }
+
+  res.json({ version: STATE_REGULATIONS_VERSION, regulation });
+});
+
+// ============================================
+// CHAT SESSION ENDPOINTS
+// ============================================
+
+// Create a new chat session (Authenticated)
+app.post('/api/chat-sessions', sessionLimiter, requireAuth, async (req, res) => {
+  try {
+    // Validate request body
+    const [validatedData, validationErrors] = validateRequest(createSessionSchema, {
+      ...req.body,
+      userId: req.user!.id // Force authenticated user ID
+    });
+
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const { userId, topicId, policyId, claimId } = validatedData;
+
+    // Look up the internal user ID from external_id (Supabase auth ID)
+    const { data: userData, error: userError } = await req.supabase!
+      .from('users')
+      .select('id')
+      .eq('external_id', userId)
+      .single();
+
+    let internalUserId = userData?.id;
+
+    // If user doesn't exist in our users table, create them
+    if (!internalUserId) {
+      logger.info('Creating user record for authenticated user');
+
+      // Get user info from Supabase auth
+      const { data: authUser } = await supabase.auth.admin.getUserById(userId);
+
+      const { data: newUser, error: createError } = await supabase
+        .from('users')
+        .insert({
+          external_id: userId,
+          name: authUser?.user?.user_metadata?.full_name ||
+                authUser?.user?.user_metadata?.name ||
+                'User',
+          email: authUser?.user?.email || `${userId.slice(0, 8)}@auth.local`,
+          // Password hash is required by schema but not used for Supabase auth users
+          password_hash: 'supabase_auth_managed'
+        })
+        .select('id')
+        .single();
+
+      if (createError) {
+        logger.error('Failed to create user', createError);
+        return res.status(500).json({ error: 'Failed to create user record' });
+      }
+      internalUserId = newUser.id;
+    }
+
+    // Create new chat session
+    const { data: session, error: sessionError } = await supabase
+      .from('chat_sessions')
+      .insert({
+        user_id: internalUserId,
+        topic_id: topicId || null,
+        policy_id: policyId || null,
+        claim_id: claimId || null,
+        started_at: new Date().toISOString(),
+        last_message_at: new Date().toISOString(),
+        total_messages: 0,
+        active: true
+      })
+      .select('id, session_uuid')
+      .single();
+
+    if (sessionError) {
+      logger.error('Failed to create chat session', sessionError);
+      return res.status(500).json({ error: 'Failed to create chat session' });
+    }
+
+    logger.info('Created chat session', { sessionUuid: session.session_uuid });
+    res.json({
+      sessionId: session.id,
+      sessionUuid: session.session_uuid
+    });
+
+  } catch (error) {
+    logger.error('Error creating chat session', error);
+    res.status(500).json({ error: 'Failed to create session. Please try again.' });
+  }
+});
+
+// Get chat history for a session (Authenticated)
+// Supports pagination: ?limit=50&before=<timestamp> for loading older messages
+app.get('/api/chat-sessions/:sessionId/messages', requireAuth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+    const userId = req.user!.id;
+
+    // Pagination params: limit defaults to 50, before is optional cursor
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 100);
+    const before = req.query.before as string | undefined;
+    const db = req.supabase!;
+
+    // Look up internal user ID
+    const { data: userData } = await db
+      .from('users')
+      .select('id')
+      .eq('external_id', userId)
+      .single();
+
+    if (!userData) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Verify session belongs to this user (authorization check)
+    const { data: session } = await db
+      .from('chat_sessions')
+      .select('user_id')
+      .eq('id', sessionId)
+      .single();
+
+    if (!session || session.user_id !== userData.id) {
+      return res.status(403).json({ error: 'Not authorized to view this session' });
+    }
+
+    // Build query with pagination - fetch most recent messages first
+    let query = db
+      .from('conversations')
+      .select('id, message, timestamp, intent, entities, citations, role, agent_id')
+      .eq('session_id', sessionId)
+      .order('timestamp', { ascending: false })
+      .limit(limit);
+
+    // If 'before' cursor provided, get messages older than that timestamp
+    if (before) {
+      query = query.lt('timestamp', before);
+    }
+
+    const { data: messages, error } = await query;
+
+    if (error) {
+      logger.error('Failed to fetch chat history', error);
+      return res.status(500).json({ error: 'Failed to fetch chat history' });
+    }
+
+    // Reverse to get chronological order (oldest first) for display
+    const chronologicalMessages = (messages || []).reverse();
+
+    // Agents are backend-only, so the names of advisors who joined the chat come from the service role
+    const agentIds = [...new Set(chronologicalMessages.map(msg => msg.agent_id).filter(Boolean))];
+    const agentNames = new Map<number, string>();
+    if (agentIds.length > 0) {
+      const { data: agents } = await supabase
+        .from('agents')
+        .select('id, name')
+        .in('id', agentIds);
+      for (const agent of agents || []) {
+        agentNames.set(agent.id, agent.name);
+      }
+    }
+
+    // Transform to frontend format
+    // Older rows have no stored role and alternate user/assistant
+    const formattedMessages = chronologicalMessages.map((msg: any, index) => ({
+      id: msg.id.toString(),
+      content: msg.message,
+      role: msg.role || (index % 2 === 0 ? 'user' : 'assistant'),
+      agentName: agentNames.get(msg.agent_id) || null,
+      timestamp: msg.timestamp,
+      intent: msg.intent,
+      entities: msg.entities,
+      citations: msg.citations || []
+    }));
+
+    // Include pagination metadata
+    const hasMore = messages && messages.length === limit;
+    const oldestTimestamp = chronologicalMessages.length > 0
+      ? chronologicalMessages[0].timestamp
+      : null;
+
+    res.json({
+      messages: formattedMessages,
+      pagination: {
+        hasMore,
+        oldestTimestamp,
+        limit
+      }
+    });
+
+  } catch (error) {
+    logger.error('Error fetching chat history', error);
+    res.status(500).json({ error: 'Failed to fetch chat history. Please try again.' });
+  }
+});
+
+// Rename a chat session (Authenticated)
+app.patch('/api/chat-sessions/:sessionId', requireAuth, async (req, res) => {
+  try {
+    const { sessionId } = req.params;
+
+    // Validate request body
+    const [validatedData, validationErrors] = validateRequest(renameSessionSchema, {
+      ...req.body,
+      userId: req.user!.id
+    });
+
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const { summary } = validatedData;
+    const userId = req.user!.id;
+
+    // Look up internal user ID
+    const { data: userData } = await req.supabase!
+      .from('users')
+      .select('id')
+      .eq('external_id', userId)
+      .single();
+
+    if (!userData) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    // Verify session belongs to this user
+    const { data: session } = await req.supabase!
+      .from('chat_sessions')
+      .select('id, user_id')
+      .eq('id', sessionId)
       .single();
 
     if (!session) {
@@ -834,7 +1418,7 @@ app.delete('/api/chat-sessions/:sessionId', requireAuth, async (req, res) => {
     const userId = req.user!.id;
 
     // Look up internal user ID
-    const { data: userData } = await supabase
+    const { data: userData } = await req.supabase!
       .from('users')
       .select('id')
       .eq('external_id', userId)
@@ -845,7 +1429,7 @@ app.delete('/api/chat-sessions/:sessionId', requireAuth, async (req, res) => {
     }
 
     // Verify session belongs to this user
-    const { data: session } = await supabase
+    const { data: session } = await req.supabase!
       .from('chat_sessions')
       .select('id, user_id')
       .eq('id', sessionId)
@@ -870,12 +1454,70 @@ app.delete('/api/chat-sessions/:sessionId', requireAuth, async (req, res) => {
       return res.status(500).json({ error: 'Failed to delete session' });
     }
 
-    logger.info('Soft deleted chat session', { sessionId });
-    res.json({ success: true, message: 'Session deleted successfully' });
+    logger.info('Soft deleted chat session', { sessionId });
+    res.json({ success: true, message: 'Session deleted successfully' });
+
+  } catch (error) {
+    logger.error('Error deleting chat session', error);
+    res.status(500).json({ error: 'Failed to delete session. Please try again.' });
+  }
+});
+
+// ============================================
+// ADVISOR HANDOFF ENDPOINTS (Authenticated)
+// ============================================
+// Customer side of a handoff; licensed agents work the queue through /api/agent
+
+// Open handoff for a chat, or null
+app.get('/api/chat-sessions/:sessionId/handoff', requireAuth, async (req, res) => {
+  try {
+    const sessionCheck = await verifyChatSession(req, Number(req.params.sessionId) || undefined);
+    if (!sessionCheck.ok) {
+      return res.status(sessionCheck.status).json({ error: sessionCheck.error });
+    }
+    if (!sessionCheck.sessionId) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    // Ownership was checked above with the user's client; the handoff itself needs the service role
+    res.json({ handoff: await getOpenHandoff(sessionCheck.sessionId) });
+
+  } catch (error) {
+    logger.error('Error fetching handoff', error);
+    res.status(500).json({ error: 'Failed to fetch handoff. Please try again.' });
+  }
+});
+
+// Ask for a licensed agent to join the chat
+app.post('/api/chat-sessions/:sessionId/handoff', sessionLimiter, requireAuth, async (req, res) => {
+  try {
+    const [body, validationErrors] = validateRequest(requestHandoffSchema, req.body || {});
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const sessionCheck = await verifyChatSession(req, Number(req.params.sessionId) || undefined);
+    if (!sessionCheck.ok) {
+      return res.status(sessionCheck.status).json({ error: sessionCheck.error });
+    }
+    if (!sessionCheck.sessionId) {
+      return res.status(404).json({ error: 'Session not found' });
+    }
+
+    const result = await requestHandoff(req.user!.id, sessionCheck.sessionId, {
+      source: 'user_request',
+      reason: body.reason || 'Customer asked for a licensed agent'
+    });
+    if (!result.success) {
+      return res.status(500).json({ error: 'Failed to request an agent. Please try again.' });
+    }
+
+    logger.info('Handoff requested', { sessionId: sessionCheck.sessionId, created: result.created });
+    res.status(result.created ? 201 : 200).json({ handoff: result.data });
 
   } catch (error) {
-    logger.error('Error deleting chat session', error);
-    res.status(500).json({ error: 'Failed to delete session. Please try again.' });
+    logger.error('Error requesting handoff', error);
+    res.status(500).json({ error: 'Failed to request an agent. Please try again.' });
   }
 });
 
@@ -888,9 +1530,10 @@ app.get('/api/users/:userId/chat-sessions', requireAuth, async (req, res) => {
     // Validate query params
     const [queryData] = validateRequest(getUserSessionsQuerySchema, req.query);
     const limit = queryData?.limit ?? 10;
+    const db = req.supabase!;
 
     // Look up internal user ID
-    const { data: userData } = await supabase
+    const { data: userData } = await db
       .from('users')
       .select('id')
       .eq('external_id', userId)
@@ -901,7 +1544,7 @@ app.get('/api/users/:userId/chat-sessions', requireAuth, async (req, res) => {
     }
 
     // Fetch sessions that are not soft-deleted
-    const { data: sessions, error } = await supabase
+    const { data: sessions, error } = await db
       .from('chat_sessions')
       .select('id, session_uuid, started_at, last_message_at, total_messages, conversation_context, summary, active')
       .eq('user_id', userData.id)
@@ -926,7 +1569,7 @@ app.get('/api/users/:userId/chat-sessions', requireAuth, async (req, res) => {
     let firstMessagesBySession: Record<number, string> = {};
     if (sessionIdsNeedingSummary.length > 0) {
       // Use a raw query to get the first message per session efficiently
-      const { data: firstMessages } = await supabase
+      const { data: firstMessages } = await db
         .from('conversations')
         .select('session_id, message')
         .in('session_id', sessionIdsNeedingSummary)
@@ -972,6 +1615,76 @@ app.get('/api/users/:userId/chat-sessions', requireAuth, async (req, res) => {
   }
 });
 
+// Search the user's past messages by meaning (Authenticated)
+app.get('/api/users/:userId/search', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [queryData, validationErrors] = validateRequest(conversationSearchQuerySchema, req.query);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const internalUserId = await getInternalUserId(userId, req.supabase!);
+    if (!internalUserId) {
+      return res.json({ results: [] });
+    }
+
+    const result = await searchConversations(internalUserId, queryData.q, queryData.limit, req.supabase!);
+    if (!result.success) {
+      logger.error('Conversation search failed', result.error);
+      return res.status(500).json({ error: 'Failed to search conversations' });
+    }
+
+    logger.info('Returning conversation search results', { resultCount: result.data!.length });
+    res.json({ results: result.data });
+
+  } catch (error) {
+    logger.error('Error searching conversations', error);
+    res.status(500).json({ error: 'Failed to search conversations. Please try again.' });
+  }
+});
+
+// ============================================
+// PREFERENCES ENDPOINTS (Authenticated)
+// ============================================
+// Preferred language for Sam's replies and the app; language is null until the user picks one
+
+app.get('/api/users/:userId/preferences', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    res.json(await getUserPreferences(userId, req.supabase!));
+
+  } catch (error) {
+    logger.error('Error fetching preferences', error);
+    res.status(500).json({ error: 'Failed to fetch preferences. Please try again.' });
+  }
+});
+
+app.put('/api/users/:userId/preferences', requireAuth, async (req, res) => {
+  try {
+    const userId = req.user!.id;
+
+    const [body, validationErrors] = validateRequest(updatePreferencesSchema, req.body);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const result = await setPreferredLanguage(userId, body.language, req.supabase!);
+    if (!result.success) {
+      return res.status(result.error === 'User not found' ? 404 : 500).json({ error: 'Failed to save preferences' });
+    }
+
+    logger.info('Updated preferences', { language: body.language });
+    res.json(result.data);
+
+  } catch (error) {
+    logger.error('Error updating preferences', error);
+    res.status(500).json({ error: 'Failed to save preferences. Please try again.' });
+  }
+});
+
 // ============================================
 // ACCOUNT DELETION ENDPOINT (Authenticated)
 // ============================================
@@ -1049,6 +1762,399 @@ app.delete('/api/account', generalLimiter, requireAuth, async (req, res) => {
 // ============================================
 // CHAT ENDPOINT (Authenticated with optional support)
 // ============================================
+
+type ChatSessionCheck =
+  | { ok: true; sessionId?: number }
+  | { ok: false; status: number; error: string };
+
+// SECURITY: Verify session ownership before writing (prevents session injection)
+async function verifyChatSession(req: express.Request, sessionId?: number): Promise<ChatSessionCheck> {
+  if (!sessionId) {
+    return { ok: true };
+  }
+
+  if (!req.user || !req.supabase) {
+    return { ok: false, status: 401, error: 'Authentication required to save chat to session' };
+  }
+
+  const { data: userData } = await req.supabase
+    .from('users')
+    .select('id')
+    .eq('external_id', req.user.id)
+    .single();
+
+  if (!userData) {
+    return { ok: true };
+  }
+
+  const { data: session } = await req.supabase
+    .from('chat_sessions')
+    .select('user_id')
+    .eq('id', sessionId)
+    .single();
+
+  if (session && session.user_id === userData.id) {
+    return { ok: true, sessionId };
+  }
+
+  logger.security('Session ownership mismatch: user tried to write to unauthorized session', { attemptedSessionId: sessionId });
+  return { ok: false, status: 403, error: 'Not authorized to write to this session' };
+}
+
+// Embed a stored message for conversation search in the background - never delays a reply.
+// Skipped for users over their model budget, like memory extraction.
+function indexMessage(conversationId: number | undefined, sessionId: number, role: MessageRole, text: string): void {
+  if (!conversationId) return;
+
+  indexConversationMessage({ conversationId, sessionId, role, text })
+    .then(result => {
+      if (!result.success) {
+        logger.warn('Failed to index message for search', { error: result.error, conversationId });
+      }
+    })
+    .catch(err => {
+      logger.warn('Failed to index message for search', { error: err, conversationId });
+    });
+}
+
+// Save the user's message before Sam runs so it survives agent failures
+async function saveUserMessage(sessionId: number, message: string, language: Language): Promise<number | undefined> {
+  try {
+    const { data: userMsgData } = await supabase
+      .from('conversations')
+      .insert({
+        session_id: sessionId,
+        message: message,
+        role: 'user',
+        language,
+        channel: 'web',
+        timestamp: new Date().toISOString()
+      })
+      .select('id')
+      .single();
+    return userMsgData?.id;
+  } catch (dbError) {
+    logger.warn('Failed to save user message', { error: dbError });
+    return undefined;
+  }
+}
+
+// Record how Sam classified and routed the user's message
+async function saveMessageIntent(messageId: number, decision: SamRoutingDecision): Promise<void> {
+  const { classification, route } = decision;
+  const { error } = await supabase
+    .from('conversations')
+    .update({
+      intent: classification.intent,
+      confidence_score: classification.confidence,
+      entities: {
+        policyTypes: classification.policyTypes,
+        needsUserData: classification.needsUserData,
+        referencesPolicyOnFile: classification.referencesPolicyOnFile,
+        source: classification.source,
+        route
+      }
+    })
+    .eq('id', messageId);
+
+  if (error) {
+    logger.warn('Failed to save message intent', { error, messageId });
+  }
+}
+
+// Propose durable household facts from this exchange for the user to confirm later.
+// Runs in the background - memory must never delay or break a reply.
+function rememberExchange(
+  userId: string | undefined,
+  message: string,
+  response: string,
+  routing: SamRoutingDecision | undefined,
+  userMessageId: number | undefined
+): void {
+  if (!userId || !routing || routing.route === 'canned') return;
+
+  proposeFactsFromExchange(userId, { userMessage: message, assistantReply: response, conversationId: userMessageId })
+    .then(result => {
+      if (!result.success) {
+        logger.warn('Failed to propose profile facts', { error: result.error });
+      }
+    })
+    .catch(err => {
+      logger.warn('Failed to propose profile facts', { error: err });
+    });
+}
+
+// Over their daily model budget, a user's chats skip Rai's review, database tools, memory
+// extraction and search indexing rather than failing
+async function isOverModelBudget(userId: string | undefined): Promise<boolean> {
+  if (!userId) return false;
+
+  const budget = await getBudgetStatus(userId);
+  if (budget.exceeded) {
+    logger.warn('User over daily model budget, running reduced chat pipeline', {
+      spentUsd: budget.spentUsd,
+      budgetUsd: budget.budgetUsd
+    });
+  }
+  return budget.exceeded;
+}
+
+// Queue the chat for a licensed agent when Sam escalated the turn. A failed escalation is
+// logged, never surfaced - the reply has already been written.
+async function escalateChat(
+  userId: string,
+  sessionId: number,
+  trigger: HandoffTrigger,
+  userMessageId: number | undefined
+): Promise<boolean> {
+  const result = await requestHandoff(userId, sessionId, trigger, userMessageId);
+  if (!result.success) {
+    logger.warn('Failed to queue handoff', { error: result.error, sessionId });
+    return false;
+  }
+  if (result.created) {
+    logger.info('Chat escalated to a licensed agent', { sessionId, source: trigger.source });
+  }
+  return true;
+}
+
+// Save Sam's reply and bump the session metadata
+async function saveAssistantMessage(
+  sessionId: number,
+  response: string,
+  historyLength: number,
+  language: Language,
+  citations: Citation[] = [],
+  prompts?: PromptRecord
+): Promise<number | undefined> {
+  try {
+    const { data: assistantMsgData } = await supabase
+      .from('conversations')
+      .insert({
+        session_id: sessionId,
+        message: response,
+        role: 'assistant',
+        language,
+        channel: 'web',
+        citations: citations.length > 0 ? citations : null,
+        prompt_versions: prompts?.versions || null,
+        prompt_experiments: prompts && Object.keys(prompts.experiments).length > 0 ? prompts.experiments : null,
+        timestamp: new Date().toISOString()
+      })
+      .select('id')
+      .single();
+
+    // Update session metadata
+    const messageCount = historyLength + 2;
+    await supabase
+      .from('chat_sessions')
+      .update({
+        last_message_at: new Date().toISOString(),
+        total_messages: messageCount
+      })
+      .eq('id', sessionId);
+
+    // Generate summary after first message exchange
+    if (historyLength === 0) {
+      regenerateSummary(sessionId).catch(err => {
+        logger.warn('Failed to generate session summary', { error: err });
+      });
+    }
+
+    return assistantMsgData?.id;
+  } catch (dbError) {
+    logger.warn('Failed to save assistant message', { error: dbError });
+    return undefined;
+  }
+}
+
+// Claim reports attach to a saved chat, so only signed-in users with a session get one. A failed
+// lookup is logged and the chat carries on without claim intake.
+async function openChatClaimIntake(
+  userId: string | undefined,
+  sessionId: number | undefined
+): Promise<ClaimIntakeChannel | undefined> {
+  if (!userId || !sessionId) return undefined;
+
+  try {
+    return (await openClaimIntake(userId, sessionId)) || undefined;
+  } catch (error) {
+    logger.warn('Failed to open claim intake', { error, sessionId });
+    return undefined;
+  }
+}
+
+// Reply in the message's language; when it can't be told, follow the conversation, then the
+// language the app is in, then the preference saved in settings
+async function resolveChatLanguage(
+  message: string,
+  history: Array<{ role: string; content: string }>,
+  userId: string | undefined,
+  appLanguage: Language | undefined,
+  db: SupabaseClient | undefined
+): Promise<Language> {
+  const preferred = appLanguage || (userId ? (await getUserPreferences(userId, db)).language : null);
+  return resolveReplyLanguage(message, { history, preferred });
+}
+
+// Sent instead of Sam's reply while a licensed agent has the chat
+const ADVISOR_ACTIVE_REPLY: Record<Language, (advisor: string | null) => string> = {
+  en: (advisor) => `Thanks, I've passed this along. ${advisor || 'Your advisor'} is handling this chat and will reply here.`,
+  es: (advisor) => `Gracias, ya lo transmití. ${advisor || 'Su asesor'} está atendiendo este chat y le responderá aquí.`
+};
+
+// Reminders opened by the renewal reminder job, delivered once with the user's next reply.
+// monitoring has no user policies, so the events are read with the service role.
+async function pendingRenewalReminders(userId: string, db: SupabaseClient | undefined): Promise<RenewalReminder[]> {
+  try {
+    const internalUserId = await getInternalUserId(userId, db);
+    return internalUserId ? await getOpenRenewalReminders(internalUserId) : [];
+  } catch (error) {
+    logger.warn('Failed to load renewal reminders', { error });
+    return [];
+  }
+}
+
+interface ChatTurnHooks {
+  /** Session ownership is verified and the turn is about to run */
+  onStart?: () => void;
+  onProgress?: SamProgressCallback;
+  /** The final reply (Sam's answer plus any renewal reminder), before it is saved - the stream sends it to the client here */
+  onReply?: (response: string) => Promise<void>;
+}
+
+type ChatTurnResult =
+  | {
+      ok: true;
+      response: string;
+      citations: Citation[];
+      userMessageId?: number;
+      assistantMessageId?: number;
+      handoffRequested: boolean;
+      /** A licensed agent has claimed the chat, so Sam did not answer */
+      advisorAssigned: boolean;
+    }
+  | { ok: false; status: number; error: string };
+
+// One chat turn: language, Sam, renewal reminders, persistence, Rai's review, escalation and memory. Both chat
+// endpoints run it and differ only in how the reply reaches the client.
+async function runChatTurn(
+  req: express.Request,
+  validatedData: ChatRequest,
+  hooks: ChatTurnHooks = {}
+): Promise<ChatTurnResult> {
+  const { message, history, sessionId, language: appLanguage } = validatedData;
+
+  // Use authenticated user ID if available, otherwise undefined
+  const userId = req.user?.id;
+  if (userId) {
+    setRequestContext(req.requestId!, userId);
+  }
+
+  const sessionCheck = await verifyChatSession(req, sessionId);
+  if (!sessionCheck.ok) {
+    return sessionCheck;
+  }
+  const verifiedSessionId = sessionCheck.sessionId;
+  hooks.onStart?.();
+
+  const language = await resolveChatLanguage(message, history || [], userId, appLanguage, req.supabase);
+  const overBudget = await isOverModelBudget(userId);
+
+  // Save user message to database (only if session ownership verified)
+  const userMessageId = verifiedSessionId
+    ? await saveUserMessage(verifiedSessionId, message, language)
+    : undefined;
+  if (verifiedSessionId && !overBudget) {
+    indexMessage(userMessageId, verifiedSessionId, 'user', message);
+  }
+
+  // Once a licensed agent has claimed the chat, Sam stays out of it until the handoff is resolved
+  const handoff = verifiedSessionId ? await getOpenHandoff(verifiedSessionId) : null;
+  if (handoff?.status === 'assigned') {
+    logger.info('Chat is with a licensed agent, skipping Sam', { sessionId: verifiedSessionId });
+    await supabase
+      .from('chat_sessions')
+      .update({ last_message_at: new Date().toISOString() })
+      .eq('id', verifiedSessionId!);
+    const response = ADVISOR_ACTIVE_REPLY[language](handoff.assignee?.name || null);
+    await hooks.onReply?.(response);
+    return { ok: true, response, citations: [], userMessageId, handoffRequested: false, advisorAssigned: true };
+  }
+
+  // Call Agent Sam (with optional account data tools)
+  const accountTools = !overBudget;
+  logger.info('Routing to Agent Sam', { accountTools, hasUserId: !!userId });
+  let routing: SamRoutingDecision | undefined;
+  let citations: Citation[] = [];
+  let review: RaiReview | undefined;
+  let handoffTrigger: HandoffTrigger | undefined;
+  let prompts: PromptRecord | undefined;
+  const finalResponse = await handleSamChatWithMCP(message, history || [], userId, {
+    accountTools,
+    db: req.supabase,
+    language,
+    skipReview: overBudget,
+    claimIntake: await openChatClaimIntake(userId, verifiedSessionId),
+    // Handoffs attach to a saved chat, so only signed-in users with a session can be escalated
+    onHandoff: userId && verifiedSessionId ? (trigger) => { handoffTrigger ??= trigger; } : undefined,
+    onProgress: hooks.onProgress,
+    onRoute: (decision) => { routing = decision; },
+    onCitations: (cited) => { citations = cited; },
+    onReview: (result) => { review = result; },
+    onPrompts: (record) => { prompts = record; }
+  });
+
+  if (userMessageId && routing) {
+    await saveMessageIntent(userMessageId, routing);
+  }
+
+  const reminders = userId && verifiedSessionId ? await pendingRenewalReminders(userId, req.supabase) : [];
+  const reply = reminders.length > 0
+    ? `${finalResponse}\n\n${formatRenewalReminderNotice(reminders, language)}`
+    : finalResponse;
+
+  await hooks.onReply?.(reply);
+
+  // Save assistant response to database (only if session ownership verified). Runs even if a
+  // streaming client went away mid-reply so history stays consistent.
+  const assistantMessageId = verifiedSessionId
+    ? await saveAssistantMessage(verifiedSessionId, reply, history?.length || 0, language, citations, prompts)
+    : undefined;
+  if (verifiedSessionId && !overBudget) {
+    indexMessage(assistantMessageId, verifiedSessionId, 'assistant', reply);
+  }
+  if (assistantMessageId && reminders.length > 0) {
+    await acknowledgeRenewalReminders(reminders.map(r => r.policyId));
+  }
+
+  if (review && assistantMessageId && verifiedSessionId) {
+    await saveRaiReview(review, {
+      conversationId: assistantMessageId,
+      sessionId: verifiedSessionId,
+      classification: routing?.classification
+    });
+  }
+
+  const handoffRequested = handoffTrigger && userId && verifiedSessionId
+    ? await escalateChat(userId, verifiedSessionId, handoffTrigger, userMessageId)
+    : false;
+
+  if (!overBudget) {
+    rememberExchange(userId, message, finalResponse, routing, userMessageId);
+  }
+
+  return {
+    ok: true,
+    response: reply,
+    citations,
+    userMessageId,
+    assistantMessageId,
+    handoffRequested,
+    advisorAssigned: false
+  };
+}
+
 app.post('/api/chat', chatLimiter, optionalAuth, async (req, res) => {
   try {
     // Validate request body
@@ -1058,130 +2164,250 @@ app.post('/api/chat', chatLimiter, optionalAuth, async (req, res) => {
       return res.status(400).json(validationErrors);
     }
 
-    const { message, history, sessionId } = validatedData;
+    logger.info('Received chat message', {
+      messagePreview: validatedData.message.substring(0, 100),
+      authenticated: !!req.user,
+      sessionId: validatedData.sessionId || null
+    });
 
-    // Use authenticated user ID if available, otherwise undefined
-    const userId = req.user?.id;
-    if (userId) {
-      setRequestContext(req.requestId!, userId);
+    const turn = await runChatTurn(req, validatedData);
+    if (!turn.ok) {
+      return res.status(turn.status).json({ error: turn.error });
     }
 
-    logger.info('Received chat message', {
-      messagePreview: message.substring(0, 100),
-      authenticated: !!userId,
-      sessionId: sessionId || null
+    logger.info('Sam completed, sending response');
+
+    res.json({
+      response: turn.response,
+      citations: turn.citations,
+      userMessageId: turn.userMessageId,
+      assistantMessageId: turn.assistantMessageId,
+      handoffRequested: turn.handoffRequested,
+      advisorAssigned: turn.advisorAssigned
     });
 
-    // SECURITY: Require authentication for session persistence (prevents session injection)
-    if (sessionId && !req.user) {
-      return res.status(401).json({
-        error: 'Authentication required to save chat to session'
-      });
-    }
+  } catch (error) {
+    logger.error('Critical error in /chat endpoint', error);
+    // Never expose internal error details
+    res.status(500).json({
+      error: 'An unexpected error occurred. Please try again.'
+    });
+  }
+});
 
-    // SECURITY: Verify session ownership before writing
-    let verifiedSessionId: number | undefined = undefined;
-    if (sessionId && req.user) {
-      const { data: userData } = await supabase
-        .from('users')
-        .select('id')
-        .eq('external_id', req.user.id)
-        .single();
+// Streaming chat (Server-Sent Events)
+// Events: progress {stage, message} → chunk {text} (repeated) → done {userMessageId, assistantMessageId, citations, handoffRequested, advisorAssigned}
+// or error {error}. The assistant message is persisted once the answer has been streamed.
+const STREAM_CHUNK_WORDS = 3;
+const STREAM_CHUNK_DELAY_MS = 20;
+
+function writeSSE(res: express.Response, event: string, data: unknown): void {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Split on word boundaries, keeping whitespace so the client can concatenate chunks verbatim
+function splitIntoChunks(text: string): string[] {
+  const words = text.match(/\S+\s*|\s+/g) || [];
+  const chunks: string[] = [];
+  for (let i = 0; i < words.length; i += STREAM_CHUNK_WORDS) {
+    chunks.push(words.slice(i, i + STREAM_CHUNK_WORDS).join(''));
+  }
+  return chunks;
+}
+
+app.post('/api/chat/stream', chatLimiter, optionalAuth, async (req, res) => {
+  // Validate before switching to SSE so clients still get normal JSON errors
+  const [validatedData, validationErrors] = validateRequest(chatRequestSchema, req.body);
+
+  if (validationErrors) {
+    return res.status(400).json(validationErrors);
+  }
+
+  logger.info('Received streaming chat message', {
+    messagePreview: validatedData.message.substring(0, 100),
+    authenticated: !!req.user,
+    sessionId: validatedData.sessionId || null
+  });
+
+  let clientClosed = false;
+
+  // Switch to SSE only once the session is verified, so ownership errors are still plain JSON
+  const startStream = () => {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+    res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering
+    res.flushHeaders();
+
+    res.on('close', () => {
+      clientClosed = true;
+    });
+  };
 
-      if (userData) {
-        const { data: session } = await supabase
-          .from('chat_sessions')
-          .select('user_id')
-          .eq('id', sessionId)
-          .single();
-
-        if (session && session.user_id === userData.id) {
-          verifiedSessionId = sessionId;
-        } else {
-          logger.security('Session ownership mismatch: user tried to write to unauthorized session', { attemptedSessionId: sessionId });
-          return res.status(403).json({ error: 'Not authorized to write to this session' });
+  try {
+    const turn = await runChatTurn(req, validatedData, {
+      onStart: startStream,
+      onProgress: (event) => {
+        if (!clientClosed) {
+          writeSSE(res, 'progress', event);
+        }
+      },
+      onReply: async (response) => {
+        for (const chunk of splitIntoChunks(response)) {
+          if (clientClosed) break;
+          writeSSE(res, 'chunk', { text: chunk });
+          await new Promise(resolve => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
         }
       }
+    });
+    if (!turn.ok) {
+      return res.status(turn.status).json({ error: turn.error });
     }
 
-    // Save user message to database (only if session ownership verified)
-    let userMessageId: number | undefined;
-    if (verifiedSessionId) {
-      try {
-        const { data: userMsgData } = await supabase
-          .from('conversations')
-          .insert({
-            session_id: verifiedSessionId,
-            message: message,
-            language: 'en',
-            channel: 'web',
-            timestamp: new Date().toISOString()
-          })
-          .select('id')
-          .single();
-        userMessageId = userMsgData?.id;
-      } catch (dbError) {
-        logger.warn('Failed to save user message', { error: dbError });
-      }
+    logger.info('Sam completed, stream finished', { clientClosed });
+
+    if (!clientClosed) {
+      const { userMessageId, assistantMessageId, citations, handoffRequested, advisorAssigned } = turn;
+      writeSSE(res, 'done', { userMessageId, assistantMessageId, citations, handoffRequested, advisorAssigned });
+    }
+    res.end();
+  } catch (error) {
+    logger.error('Critical error in /chat/stream endpoint', error);
+    if (!res.headersSent) {
+      return res.status(500).json({ error: 'An unexpected error occurred. Please try again.' });
     }
+    if (!clientClosed) {
+      // Never expose internal error details
+      writeSSE(res, 'error', { error: 'An unexpected error occurred. Please try again.' });
+    }
+    res.end();
+  }
+});
 
-    // Call Agent Sam (with optional MCP database access)
-    const enableMCP = process.env.ENABLE_MCP_DATABASE === 'true';
-    logger.info('Routing to Agent Sam', { enableMCP, hasUserId: !!userId });
-    const finalResponse = await handleSamChatWithMCP(message, history || [], userId, { enableMCP });
+// ============================================
+// INTERNAL JOB ENDPOINTS (Cloud Scheduler)
+// ============================================
 
-    logger.info('Sam completed, sending response');
+// Constant-time comparison of a shared-secret header
+function matchesSecret(provided: string | undefined, secret: string): boolean {
+  const providedBuffer = Buffer.from(provided || '');
+  const expected = Buffer.from(secret);
+  return providedBuffer.length === expected.length && crypto.timingSafeEqual(providedBuffer, expected);
+}
 
-    // Save assistant response to database (only if session ownership verified)
-    let assistantMessageId: number | undefined;
-    if (verifiedSessionId) {
-      try {
-        const { data: assistantMsgData } = await supabase
-          .from('conversations')
-          .insert({
-            session_id: verifiedSessionId,
-            message: finalResponse,
-            language: 'en',
-            channel: 'web',
-            timestamp: new Date().toISOString()
-          })
-          .select('id')
-          .single();
-        assistantMessageId = assistantMsgData?.id;
-
-        // Update session metadata
-        const messageCount = (history?.length || 0) + 2;
-        await supabase
-          .from('chat_sessions')
-          .update({
-            last_message_at: new Date().toISOString(),
-            total_messages: messageCount
-          })
-          .eq('id', verifiedSessionId);
-
-        // Generate summary after first message exchange
-        if (!history || history.length === 0) {
-          regenerateSummary(verifiedSessionId).catch(err => {
-            logger.warn('Failed to generate session summary', { error: err });
-          });
-        }
-      } catch (dbError) {
-        logger.warn('Failed to save assistant message', { error: dbError });
-      }
+// Run one scheduler pass. Disabled unless JOBS_RUNNER_SECRET is set; locally use `npm run jobs:local`
+app.post('/api/internal/jobs/tick', async (req, res) => {
+  const secret = process.env.JOBS_RUNNER_SECRET;
+  if (!secret) {
+    return res.status(404).json({ error: 'Not found' });
+  }
+
+  if (!matchesSecret(req.headers['x-jobs-secret']?.toString(), secret)) {
+    logger.security('Rejected job tick with invalid secret', { ip: req.ip });
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    const result = await runSchedulerTick(`http-${process.env.K_REVISION || 'local'}-${process.pid}`);
+    logger.info('Scheduler tick complete', { ...result });
+    res.json(result);
+  } catch (error) {
+    logger.error('Scheduler tick failed', error);
+    res.status(500).json({ error: 'Scheduler tick failed' });
+  }
+});
+
+// ============================================
+// INTERNAL ADMIN ENDPOINTS
+// ============================================
+
+// Admin endpoints are disabled unless ADMIN_API_SECRET is set; callers send it as x-admin-secret
+function requireAdminSecret(req: express.Request, res: express.Response): boolean {
+  const secret = process.env.ADMIN_API_SECRET;
+  if (!secret) {
+    res.status(404).json({ error: 'Not found' });
+    return false;
+  }
+  if (!matchesSecret(req.headers['x-admin-secret']?.toString(), secret)) {
+    logger.security('Rejected admin request with invalid secret', { ip: req.ip, path: req.path });
+    res.status(401).json({ error: 'Unauthorized' });
+    return false;
+  }
+  return true;
+}
+
+// Model spend per day, user or agent
+app.get('/api/internal/llm-usage', async (req, res) => {
+  if (!requireAdminSecret(req, res)) return;
+
+  try {
+    const [query, validationErrors] = validateRequest(llmUsageQuerySchema, req.query);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const to = query.to || new Date().toISOString().slice(0, 10);
+    const from = query.from || new Date(Date.parse(to) - 29 * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+    if (from > to) {
+      return res.status(400).json({ error: '"from" must not be after "to"' });
     }
 
+    const rows = await getUsageSummary(query.groupBy, from, to);
+    const totalCostUsd = rows.reduce((total, row) => total + row.costUsd, 0);
+
     res.json({
-      response: finalResponse,
-      userMessageId,
-      assistantMessageId
+      groupBy: query.groupBy,
+      from,
+      to,
+      totalCostUsd: Math.round(totalCostUsd * 1_000_000) / 1_000_000,
+      rows
     });
 
   } catch (error) {
-    logger.error('Critical error in /chat endpoint', error);
-    // Never expose internal error details
-    res.status(500).json({
-      error: 'An unexpected error occurred. Please try again.'
-    });
+    logger.error('Error fetching model usage', error);
+    res.status(500).json({ error: 'Failed to fetch model usage. Please try again.' });
+  }
+});
+
+// Set a user's daily model budget (null restores the default)
+app.put('/api/internal/users/:userId/llm-budget', async (req, res) => {
+  if (!requireAdminSecret(req, res)) return;
+
+  try {
+    const [params, paramErrors] = validateRequest(userIdParamSchema, req.params);
+    if (paramErrors) {
+      return res.status(400).json(paramErrors);
+    }
+
+    const [body, validationErrors] = validateRequest(llmBudgetSchema, req.body);
+    if (validationErrors) {
+      return res.status(400).json(validationErrors);
+    }
+
+    const result = await setDailyBudget(params.userId, body.dailyBudgetUsd);
+    if (!result.success) {
+      return res.status(result.error === 'User not found' ? 404 : 500).json({ error: result.error });
+    }
+
+    logger.info('Daily model budget updated', { userId: params.userId, dailyBudgetUsd: body.dailyBudgetUsd });
+    res.json({ budget: await getBudgetStatus(params.userId) });
+
+  } catch (error) {
+    logger.error('Error setting model budget', error);
+    res.status(500).json({ error: 'Failed to set budget. Please try again.' });
+  }
+});
+
+// Thumbs-up rates per prompt version and experiment variant
+app.get('/api/internal/prompt-feedback', async (req, res) => {
+  if (!requireAdminSecret(req, res)) return;
+
+  try {
+    res.json(await getPromptFeedback());
+  } catch (error) {
+    logger.error('Error fetching prompt feedback', error);
+    res.status(500).json({ error: 'Failed to fetch prompt feedback. Please try again.' });
   }
 });
 
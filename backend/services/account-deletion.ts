@@ -2,6 +2,7 @@
 // Comprehensive account deletion service with anonymization for compliance
 
 import { Storage } from '@google-cloud/storage';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
 
 const storage = new Storage();
@@ -30,7 +31,7 @@ export interface DeletionResult {
  * Delete GCS files with concurrency limit
  * Uses Promise.all with chunked batches to prevent timeout
  */
-async function deleteGCSFilesWithConcurrency(
+export async function deleteGCSFilesWithConcurrency(
   files: { gcs_bucket: string; gcs_path: string }[],
   concurrencyLimit: number = 5
 ): Promise<{ deleted: number; errors: string[] }> {
@@ -325,6 +326,9 @@ async function deletePolicyNestedEntities(policyIds: number[]): Promise<void> {
   const vehicleIds = vehicles?.map(v => v.id) || [];
   const driverIds = drivers?.map(d => d.id) || [];
 
+  // Delete mortgagees first (references policy, dwelling, vehicle)
+  await supabase.from('mortgagees').delete().in('policy_id', policyIds);
+
   // Delete deepest nested entities first
   if (locationIds.length > 0) {
     const { data: dwellings } = await supabase
@@ -349,9 +353,6 @@ async function deletePolicyNestedEntities(policyIds: number[]): Promise<void> {
     await supabase.from('enrichment_driver_license').delete().in('driver_id', driverIds);
   }
 
-  // Delete mortgagees (references policy, dwelling, vehicle)
-  await supabase.from('mortgagees').delete().in('policy_id', policyIds);
-
   // Delete direct policy children
   await supabase.from('location').delete().in('policy_id', policyIds);
   await supabase.from('vehicle').delete().in('policy_id', policyIds);
@@ -484,6 +485,9 @@ async function deleteProfiles(internalUserId: number): Promise<void> {
   // Also delete profile_members where user is a member
   await supabase.from('profile_members').delete().eq('member_user_id', internalUserId);
 
+  // Long-term memory facts hang off the profiles
+  await supabase.from('user_profile_facts').delete().eq('user_id', internalUserId);
+
   await supabase.from('user_profiles').delete().eq('user_id', internalUserId);
 }
 
@@ -496,6 +500,13 @@ async function deleteMiscUserRecords(internalUserId: number): Promise<void> {
   await supabase.from('user_rating_profiles').delete().eq('user_id', internalUserId);
 }
 
+/**
+ * Delete short-lived pending state (keyed by auth user ID)
+ */
+async function deletePendingState(authUserId: string): Promise<void> {
+  await supabase.from('user_pending_state').delete().eq('user_id', authUserId);
+}
+
 /**
  * Delete the users record
  */
@@ -617,6 +628,7 @@ export async function deleteUserAccount(
     await deletePulls(internalUserId);
     await deleteProfiles(internalUserId);
     await deleteMiscUserRecords(internalUserId);
+    await deletePendingState(authUserId);
 
     // Phase 6: Delete the users record
     console.log('📋 Phase 6: Deleting users record...');
@@ -657,9 +669,10 @@ export async function deleteUserAccount(
 
 /**
  * Get user's internal ID from their auth ID
+ * (pass the user's own client to look it up under RLS)
  */
-export async function getInternalUserId(authUserId: string): Promise<number | null> {
-  const { data, error } = await supabase
+export async function getInternalUserId(authUserId: string, db: SupabaseClient = supabase): Promise<number | null> {
+  const { data, error } = await db
     .from('users')
     .select('id')
     .eq('external_id', authUserId)
@@ -0,0 +1,420 @@
+// backend/services/advisor-handoff.ts
+// Handoffs from chat to licensed human agents: escalation, the agent queue, and agent replies
+
+import { supabase } from '../lib/supabase';
+import { getInternalUserId } from './account-deletion';
+import { getUserPolicies } from './document-upload';
+import type { StoredPolicy } from './policy-store';
+
+// ============================================
+// Types
+// ============================================
+
+// What escalated the chat: the user asked, a high-risk rule matched, or Rai returned needs_human
+export const HANDOFF_SOURCES = ['user_request', 'high_risk', 'rai_review'] as const;
+export type HandoffSource = typeof HANDOFF_SOURCES[number];
+
+// Stored in pull.status: queued, claimed by an agent, resolved
+export const HANDOFF_STATUSES = ['initiated', 'assigned', 'completed'] as const;
+export type HandoffStatus = typeof HANDOFF_STATUSES[number];
+
+export interface HandoffTrigger {
+    source: HandoffSource;
+    /** Short description for the agent queue */
+    reason: string;
+}
+
+export interface AdvisorAgent {
+    id: number;
+    name: string;
+    email: string | null;
+    licenseNumber: string | null;
+    agencyName: string | null;
+}
+
+export interface Handoff {
+    id: number;
+    sessionId: number | null;
+    /** User message that triggered the handoff */
+    conversationId: number | null;
+    status: HandoffStatus;
+    source: HandoffSource;
+    reason: string | null;
+    assignee: { id: number; name: string } | null;
+    notes: string | null;
+    createdAt: string;
+    claimedAt: string | null;
+    completedAt: string | null;
+}
+
+export type HandoffMessageRole = 'user' | 'assistant' | 'agent';
+
+export interface HandoffMessage {
+    id: number;
+    role: HandoffMessageRole;
+    content: string;
+    timestamp: string;
+    agentName: string | null;
+}
+
+export interface HandoffDetail {
+    handoff: Handoff;
+    customer: { name: string | null; email: string | null };
+    messages: HandoffMessage[];
+    policies: StoredPolicy[];
+}
+
+// ============================================
+// High-risk Rules
+// ============================================
+
+// Situations Sam's and Rai's prompts say belong with a licensed human, matched without a model call
+const HIGH_RISK_RULES: Array<{ pattern: RegExp; reason: string }> = [
+    { pattern: /knob[\s-]*and[\s-]*tube/i, reason: 'Knob-and-tube wiring' },
+    { pattern: /\b(brush|wild)\s*fire\s+(zone|area|risk)/i, reason: 'Wildfire-zone property' },
+    { pattern: /\bbusiness\s+pursuits?\b/i, reason: 'Business pursuits exclusion' },
+    { pattern: /\b(commercial|business)\s+(use|vehicle|truck|van)\b/i, reason: 'Commercial use of a personal policy' },
+    { pattern: /\b(lawsuit|being sued|sued me|demand letter)\b/i, reason: 'Customer facing a lawsuit' },
+    { pattern: /\b(claim (was |got )?denied|denied (my )?claim)\b/i, reason: 'Denied claim' },
+];
+
+/**
+ * The high-risk situation a message describes, if any
+ */
+export function detectHighRiskTopic(message: string): HandoffTrigger | null {
+    const match = HIGH_RISK_RULES.find(rule => rule.pattern.test(message));
+    return match ? { source: 'high_risk', reason: match.reason } : null;
+}
+
+// ============================================
+// Mapping
+// ============================================
+
+const HANDOFF_COLUMNS = 'id, session_id, conversation_id, status, source, reason, notes, created_at, claimed_at, completed_at, assignee:agents(id, name)';
+
+function toHandoff(row: any): Handoff {
+    return {
+        id: row.id,
+        sessionId: row.session_id,
+        conversationId: row.conversation_id,
+        status: row.status,
+        source: row.source,
+        reason: row.reason,
+        assignee: row.assignee ? { id: row.assignee.id, name: row.assignee.name } : null,
+        notes: row.notes,
+        createdAt: row.created_at,
+        claimedAt: row.claimed_at,
+        completedAt: row.completed_at,
+    };
+}
+
+function toAgent(row: any): AdvisorAgent {
+    return {
+        id: row.id,
+        name: row.name,
+        email: row.email,
+        licenseNumber: row.license_number,
+        agencyName: row.agency_name,
+    };
+}
+
+// ============================================
+// Escalation (customer side)
+// ============================================
+
+/**
+ * The chat's queued or claimed handoff, if any. Read with the service role: the row embeds the
+ * assigned advisor from agents, which only the backend can read. Callers check the session
+ * belongs to the user first.
+ */
+export async function getOpenHandoff(sessionId: number): Promise<Handoff | null> {
+    const { data, error } = await supabase
+        .from('pull')
+        .select(HANDOFF_COLUMNS)
+        .eq('session_id', sessionId)
+        .in('status', ['initiated', 'assigned'])
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (error) {
+        console.warn('⚠️ Failed to load open handoff:', error);
+        return null;
+    }
+    return data ? toHandoff(data) : null;
+}
+
+/**
+ * Queues the chat for a licensed agent. A chat has at most one open handoff - asking
+ * again returns the existing one.
+ */
+export async function requestHandoff(
+    authUserId: string,
+    sessionId: number,
+    trigger: HandoffTrigger,
+    conversationId?: number
+): Promise<{ success: boolean; data?: Handoff; created?: boolean; error?: string }> {
+    try {
+        const existing = await getOpenHandoff(sessionId);
+        if (existing) {
+            return { success: true, data: existing, created: false };
+        }
+
+        const internalUserId = await getInternalUserId(authUserId);
+        if (!internalUserId) {
+            return { success: false, error: 'User not found' };
+        }
+
+        const { data, error } = await supabase
+            .from('pull')
+            .insert({
+                user_id: internalUserId,
+                session_id: sessionId,
+                conversation_id: conversationId || null,
+                status: 'initiated',
+                source: trigger.source,
+                reason: trigger.reason,
+            })
+            .select(HANDOFF_COLUMNS)
+            .single();
+
+        // Lost a race with another escalation of the same chat
+        if (error?.code === '23505') {
+            const open = await getOpenHandoff(sessionId);
+            if (open) return { success: true, data: open, created: false };
+        }
+        if (error) throw error;
+
+        console.log(`🙋 Handoff ${data.id} queued (${trigger.source}: ${trigger.reason})`);
+        return { success: true, data: toHandoff(data), created: true };
+
+    } catch (error) {
+        console.error('❌ Failed to request handoff:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+// ============================================
+// Agent Console
+// ============================================
+
+/**
+ * The active agent record for a signed-in user, or null if they are not an agent
+ */
+export async function getAgentByAuthId(authUserId: string): Promise<AdvisorAgent | null> {
+    const { data, error } = await supabase
+        .from('agents')
+        .select('id, name, email, license_number, agency_name')
+        .eq('external_id', authUserId)
+        .eq('active', true)
+        .maybeSingle();
+
+    if (error) {
+        console.error('❌ Failed to look up agent:', error);
+        return null;
+    }
+    return data ? toAgent(data) : null;
+}
+
+/**
+ * Handoffs for the console: the shared queue, the agent's own open handoffs, or their resolved ones
+ */
+export async function listHandoffs(
+    agentId: number,
+    view: 'queue' | 'mine' | 'completed',
+    limit = 50
+): Promise<Handoff[]> {
+    let query = supabase
+        .from('pull')
+        .select(HANDOFF_COLUMNS)
+        .not('session_id', 'is', null);
+
+    if (view === 'queue') {
+        // Oldest first - the queue is worked in order
+        query = query.eq('status', 'initiated').order('created_at', { ascending: true });
+    } else if (view === 'mine') {
+        query = query.eq('status', 'assigned').eq('assignee_id', agentId).order('claimed_at', { ascending: true });
+    } else {
+        query = query.eq('status', 'completed').eq('assignee_id', agentId).order('completed_at', { ascending: false });
+    }
+
+    const { data, error } = await query.limit(limit);
+    if (error) {
+        console.error('❌ Failed to list handoffs:', error);
+        throw error;
+    }
+    return (data || []).map(toHandoff);
+}
+
+/**
+ * Assigns a queued handoff to the agent. Only one agent can win a claim.
+ */
+export async function claimHandoff(
+    agent: AdvisorAgent,
+    handoffId: number
+): Promise<{ success: boolean; data?: Handoff; error?: string }> {
+    try {
+        const now = new Date().toISOString();
+        const { data, error } = await supabase
+            .from('pull')
+            .update({ status: 'assigned', assignee_id: agent.id, claimed_at: now })
+            .eq('id', handoffId)
+            .eq('status', 'initiated')
+            .select(HANDOFF_COLUMNS)
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!data) {
+            return { success: false, error: 'Handoff is no longer in the queue' };
+        }
+
+        const { error: historyError } = await supabase
+            .from('pull_assignee')
+            .insert({
+                pull_id: handoffId,
+                agent_id: agent.id,
+                name: agent.name,
+                email: agent.email,
+                role: 'licensed_agent',
+                assigned_at: now,
+            });
+
+        if (historyError) {
+            console.warn('⚠️ Failed to record handoff assignment:', historyError);
+        }
+
+        console.log(`🙋 Handoff ${handoffId} claimed by agent ${agent.id}`);
+        return { success: true, data: toHandoff(data) };
+
+    } catch (error) {
+        console.error('❌ Failed to claim handoff:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+// Queued handoffs are visible to every agent; claimed ones only to their assignee
+async function loadHandoffForAgent(agentId: number, handoffId: number): Promise<any | null> {
+    const { data, error } = await supabase
+        .from('pull')
+        .select(`${HANDOFF_COLUMNS}, assignee_id, user:users(external_id, name, email)`)
+        .eq('id', handoffId)
+        .maybeSingle();
+
+    if (error) throw error;
+    if (!data) return null;
+    if (data.status !== 'initiated' && data.assignee_id !== agentId) return null;
+    return data;
+}
+
+/**
+ * Everything an agent needs to take over a chat: the conversation so far and the customer's policies
+ */
+export async function getHandoffDetail(agentId: number, handoffId: number): Promise<HandoffDetail | null> {
+    const row = await loadHandoffForAgent(agentId, handoffId);
+    if (!row) return null;
+
+    const messages = row.session_id ? await listSessionMessages(row.session_id) : [];
+    const policies = row.user?.external_id ? await getUserPolicies(row.user.external_id) : [];
+
+    return {
+        handoff: toHandoff(row),
+        customer: { name: row.user?.name || null, email: row.user?.email || null },
+        messages,
+        policies,
+    };
+}
+
+/**
+ * A chat's messages, oldest first. Rows from before message roles were stored alternate user/assistant.
+ */
+export async function listSessionMessages(sessionId: number, limit = 200): Promise<HandoffMessage[]> {
+    const { data, error } = await supabase
+        .from('conversations')
+        .select('id, message, timestamp, role, agent:agents(name)')
+        .eq('session_id', sessionId)
+        .order('timestamp', { ascending: true })
+        .limit(limit);
+
+    if (error) throw error;
+
+    return (data || []).map((row: any, index) => ({
+        id: row.id,
+        role: row.role || (index % 2 === 0 ? 'user' : 'assistant'),
+        content: row.message,
+        timestamp: row.timestamp,
+        agentName: row.agent?.name || null,
+    }));
+}
+
+/**
+ * Posts the agent's reply into the customer's chat. Only the assignee can reply.
+ */
+export async function postAgentReply(
+    agent: AdvisorAgent,
+    handoffId: number,
+    message: string
+): Promise<{ success: boolean; data?: HandoffMessage; error?: string }> {
+    try {
+        const row = await loadHandoffForAgent(agent.id, handoffId);
+        if (!row || row.status !== 'assigned' || row.assignee_id !== agent.id) {
+            return { success: false, error: 'Handoff is not assigned to you' };
+        }
+
+        const now = new Date().toISOString();
+        const { data, error } = await supabase
+            .from('conversations')
+            .insert({
+                session_id: row.session_id,
+                message,
+                role: 'agent',
+                agent_id: agent.id,
+                channel: 'agent',
+                timestamp: now,
+            })
+            .select('id, message, timestamp')
+            .single();
+
+        if (error) throw error;
+
+        await supabase
+            .from('chat_sessions')
+            .update({ last_message_at: now })
+            .eq('id', row.session_id);
+
+        return {
+            success: true,
+            data: { id: data.id, role: 'agent', content: data.message, timestamp: data.timestamp, agentName: agent.name },
+        };
+
+    } catch (error) {
+        console.error('❌ Failed to post agent reply:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+/**
+ * Closes a claimed handoff; Sam keeps answering in the chat afterwards
+ */
+export async function resolveHandoff(
+    agentId: number,
+    handoffId: number,
+    notes?: string
+): Promise<{ success: boolean; data?: Handoff; error?: string }> {
+    const { data, error } = await supabase
+        .from('pull')
+        .update({ status: 'completed', completed_at: new Date().toISOString(), notes: notes || null })
+        .eq('id', handoffId)
+        .eq('status', 'assigned')
+        .eq('assignee_id', agentId)
+        .select(HANDOFF_COLUMNS)
+        .maybeSingle();
+
+    if (error) {
+        console.error('❌ Failed to resolve handoff:', error);
+        return { success: false, error: error.message };
+    }
+    if (!data) {
+        return { success: false, error: 'Handoff is not assigned to you' };
+    }
+    return { success: true, data: toHandoff(data) };
+}
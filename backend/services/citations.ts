@@ -0,0 +1,198 @@
+// backend/services/citations.ts
+// Numbered sources behind an answer - knowledge base documents and the user's own policy documents
+
+import type { StoredPolicy } from './policy-store';
+
+// ============================================
+// Types
+// ============================================
+
+export type CitationSource = 'knowledge_base' | 'policy_document';
+
+export interface Citation {
+    /** Footnote number, referenced in the answer text as [n] */
+    id: number;
+    source: CitationSource;
+    title: string;
+    snippet: string;
+    /** Knowledge base document id, or the user_documents id for policy documents */
+    documentId: string | null;
+    uri: string | null;
+    /** Page of the uploaded document, when the extracted text marks pages */
+    page: number | null;
+    section: string | null;
+}
+
+/**
+ * One knowledge base search hit, best match first
+ */
+export interface KnowledgeSnippet {
+    documentId: string | null;
+    title: string;
+    uri: string | null;
+    snippet: string;
+}
+
+// Keep prompts and stored footnotes small
+const MAX_SNIPPET_CHARS = 400;
+const MAX_POLICY_SECTIONS = 12;
+
+const CITATION_MARKER = /\[(\d{1,2})\]/g;
+
+export const CITATION_INSTRUCTIONS = `Sources are numbered like [1]. After each sentence that relies on a source, add its number in square brackets, e.g. "Comprehensive covers hail damage [2]." Only cite numbers from the list, never invent one, and do not cite anything for general conversation.`;
+
+function truncate(text: string, maxChars: number): string {
+    const clean = text.replace(/\s+/g, ' ').trim();
+    return clean.length > maxChars ? `${clean.slice(0, maxChars - 1).trimEnd()}…` : clean;
+}
+
+// ============================================
+// Building sources
+// ============================================
+
+export function knowledgeBaseCitations(snippets: KnowledgeSnippet[]): Citation[] {
+    return snippets.map((hit, index) => ({
+        id: index + 1,
+        source: 'knowledge_base',
+        title: hit.title || 'Insurance knowledge base',
+        snippet: truncate(hit.snippet, MAX_SNIPPET_CHARS),
+        documentId: hit.documentId,
+        uri: hit.uri,
+        page: null,
+        section: null,
+    }));
+}
+
+// Extracted text marks pages with form feeds or "Page N" / "Page N of M" lines
+function splitPages(text: string): Array<{ page: number | null; text: string }> {
+    if (text.includes('\f')) {
+        return text.split('\f').map((pageText, index) => ({ page: index + 1, text: pageText }));
+    }
+
+    const pageMarker = /^\s*page\s+(\d+)(\s+of\s+\d+)?\s*$/gim;
+    const markers = [...text.matchAll(pageMarker)];
+    if (markers.length === 0) {
+        return [{ page: null, text }];
+    }
+
+    const pages: Array<{ page: number | null; text: string }> = [];
+    const leading = text.slice(0, markers[0].index);
+    if (leading.trim()) pages.push({ page: null, text: leading });
+    markers.forEach((marker, index) => {
+        const end = index + 1 < markers.length ? markers[index + 1].index : text.length;
+        pages.push({ page: Number(marker[1]), text: text.slice(marker.index! + marker[0].length, end) });
+    });
+    return pages;
+}
+
+// Paragraphs when the text has them, otherwise sentence runs of about one snippet each
+function splitSections(text: string): string[] {
+    const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+    if (paragraphs.length > 1) return paragraphs;
+
+    const sentences = text.replace(/\s+/g, ' ').trim().split(/(?<=\.)\s+/);
+    const sections: string[] = [];
+    let current = '';
+    for (const sentence of sentences) {
+        if (current && current.length + sentence.length > MAX_SNIPPET_CHARS) {
+            sections.push(current);
+            current = '';
+        }
+        current = current ? `${current} ${sentence}` : sentence;
+    }
+    if (current) sections.push(current);
+    return sections;
+}
+
+// First few words of a section, e.g. "Coverage A Dwelling $350,000"
+function sectionLabel(section: string): string {
+    const words = section.replace(/\s+/g, ' ').trim().split(' ');
+    return words.length > 6 ? `${words.slice(0, 6).join(' ')}…` : words.join(' ');
+}
+
+function policyTitle(policy: StoredPolicy): string {
+    const fileName = policy.rawData?.fileName;
+    return fileName ? `${policy.carrier} ${policy.policyType} policy (${fileName})` : `${policy.carrier} ${policy.policyType} policy`;
+}
+
+/**
+ * Sections of the user's uploaded policy, numbered from firstId. Policies without
+ * extracted text yield a single citation for the document itself.
+ */
+export function policyDocumentCitations(policy: StoredPolicy, firstId: number = 1): Citation[] {
+    const title = policyTitle(policy);
+    const documentId = policy.rawData?.documentId != null ? String(policy.rawData.documentId) : null;
+    const extractedText: string = policy.rawData?.extractedText || '';
+
+    const sections = splitPages(extractedText)
+        .flatMap(({ page, text }) => splitSections(text).map(section => ({ page, section })))
+        .slice(0, MAX_POLICY_SECTIONS);
+
+    if (sections.length === 0) {
+        return [documentCitation(policy, firstId)];
+    }
+
+    return sections.map(({ page, section }, index) => ({
+        id: firstId + index,
+        source: 'policy_document',
+        title,
+        snippet: truncate(section, MAX_SNIPPET_CHARS),
+        documentId,
+        uri: null,
+        page,
+        section: sectionLabel(section),
+    }));
+}
+
+/**
+ * The uploaded policy as a whole - the footnote for policy answers that cite no section
+ */
+export function documentCitation(policy: StoredPolicy, id: number = 1): Citation {
+    return {
+        id,
+        source: 'policy_document',
+        title: policyTitle(policy),
+        snippet: truncate(policy.analysis, MAX_SNIPPET_CHARS),
+        documentId: policy.rawData?.documentId != null ? String(policy.rawData.documentId) : null,
+        uri: null,
+        page: null,
+        section: null,
+    };
+}
+
+// ============================================
+// Prompts and answers
+// ============================================
+
+export function formatSourcesForPrompt(citations: Citation[]): string {
+    return citations
+        .map(citation => {
+            const location = [citation.page ? `page ${citation.page}` : '', citation.title].filter(Boolean).join(', ');
+            return `[${citation.id}] (${location}) ${citation.snippet}`;
+        })
+        .join('\n');
+}
+
+/**
+ * Sources the answer actually references, in footnote order. Markers that point at no
+ * known source are removed from the text so the user never sees a dangling [n].
+ */
+export function collectCitations(text: string, sources: Citation[]): { text: string; citations: Citation[] } {
+    const byId = new Map(sources.map(source => [source.id, source]));
+    const cited = new Set<number>();
+
+    const cleaned = text
+        .replace(CITATION_MARKER, (marker, id: string) => {
+            if (!byId.has(Number(id))) return '';
+            cited.add(Number(id));
+            return marker;
+        })
+        .replace(/ +([.,;:!?])/g, '$1')
+        .replace(/ {2,}/g, ' ')
+        .trim();
+
+    return {
+        text: cleaned,
+        citations: sources.filter(source => cited.has(source.id)),
+    };
+}
@@ -0,0 +1,764 @@
+// backend/services/claim-intake.ts
+// Guided First Notice of Loss (FNOL): Sam asks what happened, when, where, injuries, other parties,
+// police report and photos one question at a time and files the answers on a claim linked to the
+// stored policy. The chat's claim (chat_sessions.claim_id) is the intake state - a draft claim keeps
+// the chat in intake mode until the last answer is in or the user cancels.
+
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getModelClient } from '../lib/model-registry';
+import { Language } from '../lib/language';
+import { getInternalUserId } from './account-deletion';
+import type { PolicyType } from './policy-store';
+import { describeClaimPolicy, formatFnolText } from './fnol-summary';
+
+// ============================================
+// Types
+// ============================================
+
+export const INTAKE_STEPS = [
+    'policy',
+    'what_happened',
+    'when',
+    'where',
+    'injuries',
+    'other_parties',
+    'police_report',
+    'photos',
+] as const;
+
+export type IntakeStep = typeof INTAKE_STEPS[number];
+
+export const LOSS_TYPES = ['collision', 'theft', 'vandalism', 'fire', 'water', 'weather', 'glass', 'injury', 'liability', 'other'] as const;
+
+export type LossType = typeof LOSS_TYPES[number];
+
+export interface OtherParty {
+    name: string | null;
+    contact: string | null;
+    insurer: string | null;
+    details: string | null;
+}
+
+/**
+ * Answers collected in chat, stored as claims.intake. Absent keys are still to be asked.
+ */
+export interface ClaimIntake {
+    lossType?: LossType;
+    whatHappened?: string;
+    /** YYYY-MM-DD, or YYYY-MM-DDTHH:MM when the customer gave a time */
+    lossDate?: string | null;
+    /** The date as the customer said it ("last night around 9") */
+    lossDateText?: string;
+    location?: string;
+    injuries?: { anyone: boolean; details: string | null };
+    otherParties?: { anyone: boolean; parties: OtherParty[] };
+    policeReport?: { filed: boolean; agency: string | null; reportNumber: string | null };
+    /** Carrier and policy number the customer gave when no stored policy was linked */
+    policy?: { carrier: string | null; policyNumber: string | null };
+    /** The customer is done adding photos (or has none) */
+    photosDone?: boolean;
+}
+
+export interface ClaimPolicy {
+    policyId: number;
+    policyType: string | null;
+    carrier: string | null;
+    policyNumber: string;
+}
+
+export interface ClaimPhoto {
+    id: number;
+    fileName: string | null;
+    fileType: string | null;
+    uploadedAt: string;
+}
+
+export type ClaimStatus = 'draft' | 'ready' | 'cancelled' | 'pending' | 'approved' | 'denied' | 'closed';
+
+export interface ClaimRecord {
+    id: number;
+    status: ClaimStatus;
+    /** Next question while the intake is running */
+    intakeStep: IntakeStep | null;
+    claimType: string | null;
+    description: string | null;
+    lossDate: string | null;
+    location: string | null;
+    intake: ClaimIntake;
+    policy: ClaimPolicy | null;
+    /** Carrier of the linked policy, or the one the customer named */
+    carrier: string | null;
+    photos: ClaimPhoto[];
+    createdAt: string;
+    updatedAt: string;
+    reportedAt: string | null;
+}
+
+/**
+ * Claim intake for one chat turn - only opened for a signed-in user in a saved chat
+ */
+export interface ClaimIntakeChannel {
+    /** A claim report is under way in this chat, so the next message answers it */
+    inProgress: boolean;
+    /** Starts a report, or takes the answer to the pending question; returns Sam's reply */
+    respond(message: string, policyTypes: PolicyType[], language: Language): Promise<string>;
+}
+
+// Drafts left this long stop capturing the chat; the claim stays on the profile as unfinished
+const INTAKE_IDLE_MS = 24 * 60 * 60 * 1000;
+
+// Chat marker the frontend turns into an "Add photos" button for the claim
+export const CLAIM_PHOTOS_MARKER = (claimId: number) => `[CLAIM_PHOTOS:${claimId}]`;
+
+// The whole message, so "stop sign" or "cancelled my trip" are still answers
+const CANCEL_PATTERN = /^\s*(cancel|stop|never ?mind|forget it|cancelar|olvídalo|olvidalo|déjalo|dejalo)(\s+(it|this|the claim|el reclamo|todo))?\s*[.!]*\s*$/i;
+const NEGATIVE_PATTERN = /^\s*(no|nope|none|nobody|no one|not really|n\/a|nadie|ninguno|ninguna|no hubo|tampoco)\b/i;
+const PHOTOS_DONE_PATTERN = /\b(done|finished|that's all|thats all|that's it|no (more )?(photos|pictures|pics)|skip|later|listo|terminé|termine|es todo|sin fotos|no tengo fotos|después|despues)\b/i;
+
+// ============================================
+// Questions
+// ============================================
+
+interface IntakeMessages {
+    intro: (carrier: string | null) => string;
+    questions: Record<Exclude<IntakeStep, 'policy'>, string>;
+    choosePolicy: (options: string) => string;
+    policyNotListed: string;
+    askPolicy: string;
+    injuryCare: string;
+    photosReminder: string;
+    photoAdded: (count: number, duringIntake: boolean) => string;
+    cancelled: string;
+    complete: (summary: string, carrier: string | null) => string;
+}
+
+const INTAKE_MESSAGES: Record<Language, IntakeMessages> = {
+    en: {
+        intro: carrier => `I'm sorry this happened. If anyone is hurt or in danger, call 911 first. I'll ask a few quick questions and put together a First Notice of Loss report you can send to ${carrier || 'your insurance company'}. You can say "cancel" at any time.`,
+        questions: {
+            what_happened: 'In your own words, what happened?',
+            when: 'When did it happen? The date and rough time are enough.',
+            where: 'Where did it happen? An address, intersection or landmark works.',
+            injuries: 'Was anyone hurt? If so, who, and did they get medical care?',
+            other_parties: "Was anyone else involved, like another driver, a property owner or a witness? If so, share their name, contact details and insurance company if you have them.",
+            police_report: 'Was a police report filed? If so, which department, and do you have the report number?',
+            photos: 'Do you have photos of the damage or the scene? Add them with the button below, then say "done" - or say "no photos" to skip.',
+        },
+        choosePolicy: options => `Which policy is this claim for?\n${options}\nReply with the number, or tell me the insurance company and policy number if it isn't listed.`,
+        policyNotListed: "I couldn't tell which policy you meant.",
+        askPolicy: "Which insurance company is this with, and what's the policy number if you have it handy?",
+        injuryCare: 'Please make sure everyone who was hurt gets medical care - that comes first.',
+        photosReminder: 'You can add photos with the button below. Say "done" when you\'re finished, or "no photos" to skip.',
+        photoAdded: (count, duringIntake) => duringIntake
+            ? `Got it - ${count} ${count === 1 ? 'file' : 'files'} attached. Add more, or say "done" when you're finished.`
+            : `Got it - ${count} ${count === 1 ? 'file is' : 'files are'} now attached to this claim.`,
+        cancelled: "No problem - I've stopped the claim report. If you want to pick it up again, just tell me you need to report a claim.",
+        complete: (summary, carrier) => `Thanks, that's everything. Here is your First Notice of Loss summary:\n\n${summary}\n\nYou can print it or save it as a PDF from Claims on your profile page and send it to ${carrier || 'your insurance company'} with your photos. Most carriers also take claims by phone or in their app, and reporting sooner usually helps the claim move faster.`,
+    },
+    es: {
+        intro: carrier => `Siento mucho lo ocurrido. Si alguien está herido o en peligro, llame primero al 911. Le haré unas preguntas rápidas y prepararé un aviso de siniestro que puede enviar a ${carrier || 'su aseguradora'}. Puede decir "cancelar" en cualquier momento.`,
+        questions: {
+            what_happened: 'Con sus propias palabras, ¿qué pasó?',
+            when: '¿Cuándo ocurrió? Basta con la fecha y la hora aproximada.',
+            where: '¿Dónde ocurrió? Sirve una dirección, un cruce de calles o un punto de referencia.',
+            injuries: '¿Alguien resultó herido? Si es así, ¿quién y recibió atención médica?',
+            other_parties: '¿Hubo otras personas involucradas, como otro conductor, el dueño de una propiedad o un testigo? Si es así, comparta su nombre, sus datos de contacto y su aseguradora si los tiene.',
+            police_report: '¿Se hizo un reporte policial? Si es así, ¿de qué departamento y tiene el número de reporte?',
+            photos: '¿Tiene fotos de los daños o del lugar? Agréguelas con el botón de abajo y luego diga "listo", o diga "sin fotos" para omitir este paso.',
+        },
+        choosePolicy: options => `¿Para qué póliza es este reclamo?\n${options}\nResponda con el número, o dígame la aseguradora y el número de póliza si no aparece en la lista.`,
+        policyNotListed: 'No pude identificar a qué póliza se refiere.',
+        askPolicy: '¿Con qué aseguradora es, y cuál es el número de póliza si lo tiene a la mano?',
+        injuryCare: 'Por favor asegúrese de que todas las personas heridas reciban atención médica; eso es lo primero.',
+        photosReminder: 'Puede agregar fotos con el botón de abajo. Diga "listo" cuando termine, o "sin fotos" para omitir este paso.',
+        photoAdded: (count, duringIntake) => duringIntake
+            ? `Listo: ${count} ${count === 1 ? 'archivo adjunto' : 'archivos adjuntos'}. Agregue más o diga "listo" cuando termine.`
+            : `Listo: este reclamo ahora tiene ${count} ${count === 1 ? 'archivo adjunto' : 'archivos adjuntos'}.`,
+        cancelled: 'De acuerdo, detuve el reporte del reclamo. Si quiere retomarlo, solo dígame que necesita reportar un siniestro.',
+        complete: (summary, carrier) => `Gracias, eso es todo. Este es su aviso de siniestro:\n\n${summary}\n\nPuede imprimirlo o guardarlo como PDF desde Reclamos en su perfil y enviarlo a ${carrier || 'su aseguradora'} junto con sus fotos. La mayoría de las aseguradoras también reciben reclamos por teléfono o en su aplicación, y reportar pronto suele agilizar el proceso.`,
+    },
+};
+
+function formatPolicyOptions(options: ClaimPolicy[], language: Language): string {
+    return options.map((policy, index) => `${index + 1}. ${describeClaimPolicy(policy, language)}`).join('\n');
+}
+
+// ============================================
+// Answer Extraction
+// ============================================
+
+const nullableText = z.string().trim().max(2000).nullable().optional();
+
+const extractionSchema = z.object({
+    lossType: z.enum(LOSS_TYPES).optional(),
+    whatHappened: z.string().trim().min(1).max(4000).optional(),
+    lossDate: z.string()
+        .regex(/^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2})?$/)
+        .refine(value => !Number.isNaN(Date.parse(value)))
+        .nullable()
+        .optional(),
+    lossDateText: z.string().trim().min(1).max(200).optional(),
+    location: z.string().trim().min(1).max(500).optional(),
+    injuries: z.object({ anyone: z.boolean(), details: nullableText }).optional(),
+    otherParties: z.object({
+        anyone: z.boolean(),
+        parties: z.array(z.object({
+            name: nullableText,
+            contact: nullableText,
+            insurer: nullableText,
+            details: nullableText,
+        })).max(10).default([]),
+    }).optional(),
+    policeReport: z.object({ filed: z.boolean(), agency: nullableText, reportNumber: nullableText }).optional(),
+    policy: z.object({ carrier: nullableText, policyNumber: nullableText }).optional(),
+});
+
+type ExtractedAnswers = z.infer<typeof extractionSchema>;
+
+const EXTRACTION_PROMPT = `You fill in a First Notice of Loss (insurance claim report) from a customer's chat message. Messages may be in English or Spanish - keep free text in the customer's language.
+
+Return ONLY a JSON object with the fields the message answers, leaving out anything it does not mention:
+{"lossType": string, "whatHappened": string, "lossDate": string | null, "lossDateText": string, "location": string,
+ "injuries": {"anyone": boolean, "details": string | null},
+ "otherParties": {"anyone": boolean, "parties": [{"name": string | null, "contact": string | null, "insurer": string | null, "details": string | null}]},
+ "policeReport": {"filed": boolean, "agency": string | null, "reportNumber": string | null},
+ "policy": {"carrier": string | null, "policyNumber": string | null}}
+
+Fields:
+- lossType - one of: ${LOSS_TYPES.join(', ')}
+- whatHappened - the customer's account of the loss, in their words, lightly cleaned up
+- lossDate - YYYY-MM-DD, or YYYY-MM-DDTHH:MM when a time is given, resolved against today's date; null when it can't be pinned down
+- lossDateText - the date or time exactly as the customer said it
+- location - address, intersection or place of the loss
+- injuries, otherParties, policeReport - "no", "nobody", "none" to the question asked are answers too (anyone or filed false)
+- policy - only when the customer names their insurance company or policy number
+
+Never invent details the customer did not give.`;
+
+function parseJson(text: string): unknown {
+    // Strip markdown fences in case the model ignores the JSON mime type
+    return JSON.parse(text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim());
+}
+
+/**
+ * Reads every answer a message gives, not just the one to the pending question.
+ * Never throws - a failed call yields no answers and the caller falls back to the raw text.
+ */
+async function extractAnswers(message: string, question: string | null): Promise<ExtractedAnswers> {
+    const today = new Date().toISOString().slice(0, 10);
+    const prompt = `${EXTRACTION_PROMPT}
+
+Today: ${today}
+${question ? `Question the customer is answering: "${question}"\n` : ''}Customer: "${message.slice(0, 4000)}"`;
+
+    try {
+        const result = await getModelClient('claim_intake').generate(prompt, {
+            temperature: 0,
+            maxOutputTokens: 1024,
+            responseMimeType: 'application/json',
+        });
+
+        const validation = extractionSchema.safeParse(parseJson(result.text));
+        if (!validation.success) {
+            console.warn('⚠️ Claim intake extraction returned an unexpected shape:', validation.error.issues.slice(0, 3));
+            return {};
+        }
+        return validation.data;
+    } catch (error) {
+        console.warn('⚠️ Claim intake extraction failed:', error);
+        return {};
+    }
+}
+
+function cleanParty(party: NonNullable<ExtractedAnswers['otherParties']>['parties'][number]): OtherParty {
+    return {
+        name: party.name || null,
+        contact: party.contact || null,
+        insurer: party.insurer || null,
+        details: party.details || null,
+    };
+}
+
+// Later answers replace earlier ones, so "actually it was Tuesday" corrects the date
+function mergeAnswers(intake: ClaimIntake, answers: ExtractedAnswers): ClaimIntake {
+    const merged: ClaimIntake = { ...intake };
+    if (answers.lossType) merged.lossType = answers.lossType;
+    if (answers.whatHappened) merged.whatHappened = answers.whatHappened;
+    if (answers.lossDate !== undefined) merged.lossDate = answers.lossDate;
+    if (answers.lossDateText) merged.lossDateText = answers.lossDateText;
+    if (answers.location) merged.location = answers.location;
+    if (answers.injuries) {
+        merged.injuries = { anyone: answers.injuries.anyone, details: answers.injuries.details || null };
+    }
+    if (answers.otherParties) {
+        merged.otherParties = { anyone: answers.otherParties.anyone, parties: answers.otherParties.parties.map(cleanParty) };
+    }
+    if (answers.policeReport) {
+        merged.policeReport = {
+            filed: answers.policeReport.filed,
+            agency: answers.policeReport.agency || null,
+            reportNumber: answers.policeReport.reportNumber || null,
+        };
+    }
+    if (answers.policy && (answers.policy.carrier || answers.policy.policyNumber)) {
+        merged.policy = { carrier: answers.policy.carrier || null, policyNumber: answers.policy.policyNumber || null };
+    }
+    return merged;
+}
+
+/**
+ * The message taken as-is as the answer to the pending question - used when extraction
+ * found nothing for it, so the intake always moves forward
+ */
+function answerFromText(step: IntakeStep, message: string): ExtractedAnswers {
+    const text = message.trim().slice(0, 2000);
+    const negative = NEGATIVE_PATTERN.test(text);
+
+    switch (step) {
+        case 'policy':
+            return { policy: { carrier: text, policyNumber: null } };
+        case 'what_happened':
+            return { whatHappened: text };
+        case 'when':
+            return { lossDate: null, lossDateText: text };
+        case 'where':
+            return { location: text };
+        case 'injuries':
+            return { injuries: { anyone: !negative, details: negative ? null : text } };
+        case 'other_parties':
+            return { otherParties: { anyone: !negative, parties: negative ? [] : [{ details: text }] } };
+        case 'police_report':
+            return { policeReport: { filed: !negative, agency: null, reportNumber: null } };
+        case 'photos':
+            return {};
+    }
+}
+
+// Whether the answers cover the pending question
+function answersStep(step: IntakeStep, answers: ExtractedAnswers): boolean {
+    switch (step) {
+        case 'policy': return Boolean(answers.policy?.carrier || answers.policy?.policyNumber);
+        case 'what_happened': return Boolean(answers.whatHappened);
+        case 'when': return answers.lossDate !== undefined || Boolean(answers.lossDateText);
+        case 'where': return Boolean(answers.location);
+        case 'injuries': return Boolean(answers.injuries);
+        case 'other_parties': return Boolean(answers.otherParties);
+        case 'police_report': return Boolean(answers.policeReport);
+        case 'photos': return false;
+    }
+}
+
+/**
+ * First question still unanswered, in the order an adjuster takes a first report
+ */
+export function nextIntakeStep(intake: ClaimIntake, hasPolicy: boolean): IntakeStep | null {
+    const missing: Record<IntakeStep, boolean> = {
+        policy: !hasPolicy && !intake.policy,
+        what_happened: !intake.whatHappened,
+        when: intake.lossDate === undefined && !intake.lossDateText,
+        where: !intake.location,
+        injuries: !intake.injuries,
+        other_parties: !intake.otherParties,
+        police_report: !intake.policeReport,
+        photos: !intake.photosDone,
+    };
+    return INTAKE_STEPS.find(step => missing[step]) || null;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+const CLAIM_COLUMNS = `
+    id, status, intake_step, claim_type, description, claim_date, loss_location, intake,
+    created_at, updated_at, reported_at,
+    carrier:carrier_id ( name ),
+    policy:policy_id ( id, policy_type, policy_number, carrier:carrier_id ( name ) ),
+    documents ( id, file_name, file_type, uploaded_at, purpose )
+`;
+
+function toClaim(row: any): ClaimRecord {
+    const intake: ClaimIntake = row.intake || {};
+    const policy: ClaimPolicy | null = row.policy
+        ? {
+            policyId: row.policy.id,
+            policyType: row.policy.policy_type,
+            carrier: row.policy.carrier?.name || null,
+            policyNumber: row.policy.policy_number,
+        }
+        : null;
+
+    return {
+        id: row.id,
+        status: row.status,
+        intakeStep: row.intake_step,
+        claimType: row.claim_type,
+        description: row.description,
+        lossDate: row.claim_date,
+        location: row.loss_location,
+        intake,
+        policy,
+        carrier: policy?.carrier || row.carrier?.name || intake.policy?.carrier || null,
+        photos: (row.documents || [])
+            .filter((doc: any) => doc.purpose === 'claim_photo')
+            .map((doc: any) => ({ id: doc.id, fileName: doc.file_name, fileType: doc.file_type, uploadedAt: doc.uploaded_at }))
+            .sort((a: ClaimPhoto, b: ClaimPhoto) => a.uploadedAt.localeCompare(b.uploadedAt)),
+        createdAt: row.created_at,
+        updatedAt: row.updated_at,
+        reportedAt: row.reported_at,
+    };
+}
+
+async function loadClaim(claimId: number): Promise<ClaimRecord | null> {
+    const { data, error } = await supabase
+        .from('claims')
+        .select(CLAIM_COLUMNS)
+        .eq('id', claimId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load claim: ${error.message}`);
+    }
+    return data ? toClaim(data) : null;
+}
+
+/**
+ * The user's claims, newest first. Cancelled intakes are left out.
+ */
+export async function getUserClaims(internalUserId: number, db: SupabaseClient = supabase, limit = 20): Promise<ClaimRecord[]> {
+    const { data, error } = await db
+        .from('claims')
+        .select(CLAIM_COLUMNS)
+        .eq('user_id', internalUserId)
+        .neq('status', 'cancelled')
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(`Failed to load claims: ${error.message}`);
+    }
+    return (data || []).map(toClaim);
+}
+
+/**
+ * One of the user's claims, or null when it doesn't exist or belongs to someone else
+ */
+export async function getClaim(internalUserId: number, claimId: number, db: SupabaseClient = supabase): Promise<ClaimRecord | null> {
+    const { data, error } = await db
+        .from('claims')
+        .select(CLAIM_COLUMNS)
+        .eq('id', claimId)
+        .eq('user_id', internalUserId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load claim: ${error.message}`);
+    }
+    return data ? toClaim(data) : null;
+}
+
+// Active policy terms the claim can be filed on, newest first
+async function listPolicyOptions(internalUserId: number): Promise<Array<ClaimPolicy & { carrierId: number | null }>> {
+    const { data, error } = await supabase
+        .from('policies')
+        .select('id, policy_type, policy_number, carrier_id, carrier:carrier_id ( name )')
+        .eq('user_id', internalUserId)
+        .eq('status', 'active')
+        .order('start_date', { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to load policies: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+        policyId: row.id,
+        policyType: row.policy_type,
+        carrier: row.carrier?.name || null,
+        policyNumber: row.policy_number,
+        carrierId: row.carrier_id,
+    }));
+}
+
+/**
+ * The policy a new claim belongs to: the newest term of the line the message is about, or the
+ * only policy on file. Null when the customer has to pick.
+ */
+function choosePolicy<T extends ClaimPolicy>(options: T[], policyTypes: PolicyType[]): T | null {
+    for (const policyType of policyTypes) {
+        const match = options.find(option => option.policyType === policyType);
+        if (match) return match;
+    }
+    return options.length === 1 ? options[0] : null;
+}
+
+// The option the customer picked by number, policy number, carrier or line
+function matchPolicyOption<T extends ClaimPolicy>(options: T[], message: string, language: Language): T | null {
+    const text = message.trim().toLowerCase();
+
+    const index = text.match(/^#?\s*(\d{1,2})\b/);
+    if (index) {
+        const option = options[Number(index[1]) - 1];
+        if (option) return option;
+    }
+
+    const byNumber = options.find(option => text.includes(option.policyNumber.toLowerCase()));
+    if (byNumber) return byNumber;
+
+    const matches = options.filter(option =>
+        (option.carrier && text.includes(option.carrier.toLowerCase()))
+        || text.includes(describeClaimPolicy(option, language).split(' - ')[0].toLowerCase())
+        || (option.policyType !== null && text.includes(option.policyType))
+    );
+    return matches.length === 1 ? matches[0] : null;
+}
+
+interface ClaimUpdate {
+    intake: ClaimIntake;
+    step: IntakeStep | null;
+    status?: ClaimStatus;
+    policy?: { policyId: number; carrierId: number | null };
+}
+
+async function saveClaim(claimId: number, update: ClaimUpdate): Promise<void> {
+    const { intake } = update;
+    const complete = update.step === null;
+
+    const { error } = await supabase
+        .from('claims')
+        .update({
+            intake,
+            intake_step: update.step,
+            status: update.status || (complete ? 'ready' : 'draft'),
+            claim_type: intake.lossType || null,
+            description: intake.whatHappened || null,
+            // Wall-clock time as the customer gave it, stored as UTC (see fnol-summary.ts)
+            claim_date: intake.lossDate ? new Date(intake.lossDate.length > 10 ? `${intake.lossDate}Z` : intake.lossDate).toISOString() : null,
+            loss_location: intake.location || null,
+            ...(update.policy ? { policy_id: update.policy.policyId, carrier_id: update.policy.carrierId } : {}),
+            ...(complete && !update.status ? { reported_at: new Date().toISOString() } : {}),
+            updated_at: new Date().toISOString(),
+        })
+        .eq('id', claimId);
+
+    if (error) {
+        throw new Error(`Failed to save claim: ${error.message}`);
+    }
+}
+
+// ============================================
+// Conversation
+// ============================================
+
+function questionFor(step: IntakeStep, options: ClaimPolicy[], language: Language): string {
+    const messages = INTAKE_MESSAGES[language];
+    if (step === 'policy') {
+        return options.length > 0 ? messages.choosePolicy(formatPolicyOptions(options, language)) : messages.askPolicy;
+    }
+    return messages.questions[step];
+}
+
+// The pending question, with the photo button when it asks for photos
+function ask(step: IntakeStep, claimId: number, options: ClaimPolicy[], language: Language): string {
+    const question = questionFor(step, options, language);
+    return step === 'photos' ? `${question}\n\n${CLAIM_PHOTOS_MARKER(claimId)}` : question;
+}
+
+/**
+ * Records one answer and asks the next question, or finishes the report
+ */
+async function advanceIntake(
+    claim: ClaimRecord,
+    internalUserId: number,
+    message: string,
+    language: Language,
+    options: { policyTypes?: PolicyType[]; opening?: boolean } = {}
+): Promise<string> {
+    const messages = INTAKE_MESSAGES[language];
+    const step = claim.intakeStep || nextIntakeStep(claim.intake, Boolean(claim.policy));
+    const policyOptions = !claim.policy && (options.opening || step === 'policy')
+        ? await listPolicyOptions(internalUserId)
+        : [];
+    let linkedPolicy: (ClaimPolicy & { carrierId: number | null }) | null = null;
+    const notes: string[] = [];
+    let intake = claim.intake;
+
+    if (options.opening) {
+        // The opening message usually already says what happened, sometimes when and where too
+        intake = mergeAnswers(intake, await extractAnswers(message, null));
+        linkedPolicy = choosePolicy(policyOptions, options.policyTypes || []);
+        notes.push(messages.intro(linkedPolicy?.carrier || intake.policy?.carrier || null));
+    } else if (step === 'policy' && policyOptions.length > 0) {
+        linkedPolicy = matchPolicyOption(policyOptions, message, language);
+        if (!linkedPolicy) {
+            const answers = await extractAnswers(message, questionFor(step, policyOptions, language));
+            if (answersStep(step, answers)) {
+                intake = mergeAnswers(intake, answers);
+            } else {
+                return `${messages.policyNotListed} ${ask(step, claim.id, policyOptions, language)}`;
+            }
+        }
+    } else if (step === 'photos') {
+        if (!PHOTOS_DONE_PATTERN.test(message) && !NEGATIVE_PATTERN.test(message)) {
+            return `${messages.photosReminder}\n\n${CLAIM_PHOTOS_MARKER(claim.id)}`;
+        }
+        intake = { ...intake, photosDone: true };
+    } else if (step) {
+        const answers = await extractAnswers(message, questionFor(step, policyOptions, language));
+        intake = mergeAnswers(intake, answersStep(step, answers) ? answers : { ...answers, ...answerFromText(step, message) });
+    }
+
+    if (intake.injuries?.anyone && !claim.intake.injuries?.anyone) {
+        notes.push(messages.injuryCare);
+    }
+
+    const hasPolicy = Boolean(claim.policy || linkedPolicy);
+    const next = nextIntakeStep(intake, hasPolicy);
+    await saveClaim(claim.id, {
+        intake,
+        step: next,
+        policy: linkedPolicy ? { policyId: linkedPolicy.policyId, carrierId: linkedPolicy.carrierId } : undefined,
+    });
+
+    if (next) {
+        console.log(`📝 [Claims] Claim ${claim.id} intake: ${options.opening ? 'start' : step} → ${next}`);
+        notes.push(ask(next, claim.id, policyOptions, language));
+        return notes.join('\n\n');
+    }
+
+    console.log(`✅ [Claims] Claim ${claim.id} intake complete`);
+    const finished = await loadClaim(claim.id);
+    notes.push(messages.complete(formatFnolText(finished!, language), finished!.carrier));
+    return notes.join('\n\n');
+}
+
+async function startIntake(
+    internalUserId: number,
+    sessionId: number,
+    message: string,
+    policyTypes: PolicyType[],
+    language: Language
+): Promise<string> {
+    const { data, error } = await supabase
+        .from('claims')
+        .insert({
+            user_id: internalUserId,
+            status: 'draft',
+            intake: {},
+            claim_date: null,
+        })
+        .select(CLAIM_COLUMNS)
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to open claim: ${error.message}`);
+    }
+
+    const { error: sessionError } = await supabase
+        .from('chat_sessions')
+        .update({ claim_id: data.id })
+        .eq('id', sessionId);
+
+    if (sessionError) {
+        throw new Error(`Failed to link claim to chat: ${sessionError.message}`);
+    }
+
+    console.log(`📝 [Claims] Claim ${data.id} intake started in session ${sessionId}`);
+    return advanceIntake(toClaim(data), internalUserId, message, language, { policyTypes, opening: true });
+}
+
+async function cancelIntake(claim: ClaimRecord, language: Language): Promise<string> {
+    await saveClaim(claim.id, { intake: claim.intake, step: null, status: 'cancelled' });
+    console.log(`🛑 [Claims] Claim ${claim.id} intake cancelled`);
+    return INTAKE_MESSAGES[language].cancelled;
+}
+
+// The chat's claim while its intake is still running
+async function getSessionDraft(sessionId: number): Promise<ClaimRecord | null> {
+    const { data, error } = await supabase
+        .from('chat_sessions')
+        .select('claim_id')
+        .eq('id', sessionId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load chat session: ${error.message}`);
+    }
+    if (!data?.claim_id) return null;
+
+    const claim = await loadClaim(data.claim_id);
+    if (!claim || claim.status !== 'draft') return null;
+    return Date.now() - new Date(claim.updatedAt).getTime() < INTAKE_IDLE_MS ? claim : null;
+}
+
+/**
+ * Claim intake for one turn of a saved chat. The caller has already checked the chat belongs
+ * to the user. Returns null when the user has no account record yet.
+ */
+export async function openClaimIntake(authUserId: string, sessionId: number): Promise<ClaimIntakeChannel | null> {
+    const internalUserId = await getInternalUserId(authUserId);
+    if (!internalUserId) return null;
+
+    const draft = await getSessionDraft(sessionId);
+
+    return {
+        inProgress: draft !== null,
+        async respond(message, policyTypes, language) {
+            if (!draft) {
+                return startIntake(internalUserId, sessionId, message, policyTypes, language);
+            }
+            if (CANCEL_PATTERN.test(message)) {
+                return cancelIntake(draft, language);
+            }
+            return advanceIntake(draft, internalUserId, message, language);
+        },
+    };
+}
+
+// ============================================
+// Photos
+// ============================================
+
+/**
+ * Links an uploaded file (already stored in user_documents) to the claim as a photo.
+ * Returns the reply for the chat: during the intake's photo question it invites more photos.
+ */
+export async function attachClaimPhoto(
+    claim: ClaimRecord,
+    upload: { userDocumentId: number; gcsUri: string; fileName: string; fileType: string; fileSize: number },
+    language: Language
+): Promise<{ success: boolean; data?: { photo: ClaimPhoto; photoCount: number; message: string }; error?: string }> {
+    if (claim.status === 'cancelled') {
+        return { success: false, error: 'Claim was cancelled' };
+    }
+
+    const { data, error } = await supabase
+        .from('documents')
+        .insert({
+            claim_id: claim.id,
+            user_document_id: upload.userDocumentId,
+            file_url: upload.gcsUri,
+            file_type: upload.fileType,
+            file_name: upload.fileName,
+            file_size: upload.fileSize,
+            purpose: 'claim_photo',
+        })
+        .select('id, file_name, file_type, uploaded_at')
+        .single();
+
+    if (error) {
+        console.error('❌ [Claims] Failed to attach photo:', error);
+        return { success: false, error: error.message };
+    }
+
+    const photo: ClaimPhoto = { id: data.id, fileName: data.file_name, fileType: data.file_type, uploadedAt: data.uploaded_at };
+    const photoCount = claim.photos.length + 1;
+    const duringIntake = claim.status === 'draft' && claim.intakeStep === 'photos';
+
+    console.log(`📷 [Claims] Photo ${photo.id} attached to claim ${claim.id}`);
+    return {
+        success: true,
+        data: { photo, photoCount, message: INTAKE_MESSAGES[language].photoAdded(photoCount, duringIntake) },
+    };
+}
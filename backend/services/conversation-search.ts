@@ -0,0 +1,220 @@
+// backend/services/conversation-search.ts
+// Semantic search over a user's past chat messages, backed by conversation_embeddings
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { Embedder, getEmbedder, getLocalEmbedder } from '../lib/embedder';
+
+// ============================================
+// Types
+// ============================================
+
+export type MessageRole = 'user' | 'assistant';
+
+export interface ConversationSearchHit {
+    messageId: number;
+    role: MessageRole | null;
+    snippet: string;
+    timestamp: string | null;
+    score: number;
+    session: {
+        id: number;
+        title: string;
+        lastMessageAt: string | null;
+    };
+}
+
+// Embed enough of a message to capture its topic; long answers are mostly elaboration
+const MAX_EMBED_CHARS = 2000;
+const MAX_SNIPPET_CHARS = 300;
+
+// Upload buttons the chat renders from markers in Sam's replies
+const UI_MARKER_PATTERN = /\[UPLOAD_POLICY\]|\[CLAIM_PHOTOS:\d+\]/g;
+
+function snippetOf(text: string): string {
+    const clean = text.replace(UI_MARKER_PATTERN, '').replace(/\s+/g, ' ').trim();
+    return clean.length > MAX_SNIPPET_CHARS ? `${clean.slice(0, MAX_SNIPPET_CHARS - 1).trimEnd()}…` : clean;
+}
+
+// ============================================
+// Indexing
+// ============================================
+
+/**
+ * Embeds one stored message. Falls back to the local embedder when the configured one
+ * fails, so every message stays searchable.
+ */
+export async function indexConversationMessage(message: {
+    conversationId: number;
+    sessionId: number;
+    role: MessageRole;
+    text: string;
+}): Promise<{ success: boolean; error?: string }> {
+    try {
+        const text = message.text.replace(UI_MARKER_PATTERN, '').trim().slice(0, MAX_EMBED_CHARS);
+        if (!text) {
+            return { success: true };
+        }
+
+        const { data: session, error: sessionError } = await supabase
+            .from('chat_sessions')
+            .select('user_id')
+            .eq('id', message.sessionId)
+            .single();
+
+        if (sessionError || !session?.user_id) {
+            return { success: false, error: 'Session has no owner' };
+        }
+
+        let embedder: Embedder = getEmbedder();
+        let vector: number[];
+        try {
+            [vector] = await embedder.embed([text], 'document');
+        } catch (error) {
+            console.warn(`⚠️ ${embedder.model} embedding failed, using local embedder:`, error);
+            embedder = getLocalEmbedder();
+            [vector] = await embedder.embed([text], 'document');
+        }
+
+        const { error } = await supabase
+            .from('conversation_embeddings')
+            .upsert({
+                conversation_id: message.conversationId,
+                session_id: message.sessionId,
+                user_id: session.user_id,
+                content_summary: snippetOf(text),
+                embedding: vector,
+                embedding_model: embedder.model,
+                embedding_metadata: { role: message.role, dimensions: vector.length },
+            }, { onConflict: 'conversation_id,embedding_model' });
+
+        if (error) throw error;
+        return { success: true };
+
+    } catch (error) {
+        console.error('❌ Failed to index message:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+// ============================================
+// Search
+// ============================================
+
+// Vectors can only be compared with a query embedded by the same model, so search covers the
+// models the backend can still embed with
+function searchableEmbedders(): Embedder[] {
+    const configured = getEmbedder();
+    const local = getLocalEmbedder();
+    return local.model === configured.model ? [configured] : [configured, local];
+}
+
+interface ScoredMessage {
+    conversation_id: number;
+    session_id: number;
+    content_summary: string | null;
+    embedding_metadata: { role?: MessageRole } | null;
+    score: number;
+}
+
+/**
+ * The user's messages closest in meaning to the query, best first, with the session each
+ * belongs to. Messages in deleted sessions are never returned.
+ */
+export async function searchConversations(
+    internalUserId: number,
+    query: string,
+    limit: number = 10,
+    db: SupabaseClient = supabase
+): Promise<{ success: boolean; data?: ConversationSearchHit[]; error?: string }> {
+    try {
+        // Scored by search_conversation_embeddings, so only the best matches per model come back
+        const best = new Map<number, ScoredMessage>();
+        let indexed = 0;
+        for (const embedder of searchableEmbedders()) {
+            // Skip the query embedding when the user has no vectors from this model
+            const { count, error: countError } = await db
+                .from('conversation_embeddings')
+                .select('id', { count: 'exact', head: true })
+                .eq('user_id', internalUserId)
+                .eq('embedding_model', embedder.model);
+
+            if (countError) throw countError;
+            if (!count) continue;
+            indexed += count;
+
+            let vector: number[];
+            try {
+                [vector] = await embedder.embed([query], 'query');
+            } catch (embedError) {
+                console.warn(`⚠️ Could not embed search query with ${embedder.model}:`, embedError);
+                continue;
+            }
+
+            const { data: rows, error } = await db.rpc('search_conversation_embeddings', {
+                p_user_id: internalUserId,
+                p_embedding_model: embedder.model,
+                p_query_embedding: vector,
+                p_min_similarity: embedder.minSimilarity,
+                p_match_count: limit,
+            });
+
+            if (error) throw error;
+
+            // A message indexed by more than one model counts once, at its best score
+            for (const row of (rows || []) as ScoredMessage[]) {
+                const current = best.get(row.conversation_id);
+                if (!current || row.score > current.score) {
+                    best.set(row.conversation_id, row);
+                }
+            }
+        }
+
+        const top = [...best.values()].sort((a, b) => b.score - a.score).slice(0, limit);
+        if (top.length === 0) {
+            return { success: true, data: [] };
+        }
+
+        const [{ data: sessions, error: sessionsError }, { data: messages, error: messagesError }] = await Promise.all([
+            db
+                .from('chat_sessions')
+                .select('id, summary, conversation_context, last_message_at')
+                .in('id', [...new Set(top.map(row => row.session_id))])
+                .is('deleted_at', null),
+            db
+                .from('conversations')
+                .select('id, timestamp')
+                .in('id', top.map(row => row.conversation_id)),
+        ]);
+
+        if (sessionsError) throw sessionsError;
+        if (messagesError) throw messagesError;
+        const sessionsById = new Map((sessions || []).map(s => [s.id, s]));
+        const timestamps = new Map((messages || []).map(m => [m.id, m.timestamp as string]));
+
+        const hits: ConversationSearchHit[] = top
+            .filter(row => timestamps.has(row.conversation_id) && sessionsById.has(row.session_id))
+            .map(row => {
+                const session = sessionsById.get(row.session_id)!;
+                return {
+                    messageId: row.conversation_id,
+                    role: row.embedding_metadata?.role || null,
+                    snippet: row.content_summary || '',
+                    timestamp: timestamps.get(row.conversation_id) || null,
+                    score: Math.round(row.score * 1000) / 1000,
+                    session: {
+                        id: session.id,
+                        title: session.summary || session.conversation_context || 'Chat with Sam',
+                        lastMessageAt: session.last_message_at,
+                    },
+                };
+            });
+
+        console.log(`🔎 Conversation search: ${hits.length} hit(s) from ${indexed} message(s)`);
+        return { success: true, data: hits };
+
+    } catch (error) {
+        console.error('❌ Conversation search failed:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
@@ -1,56 +1,33 @@
 // backend/services/document-upload.ts
 import { Storage } from '@google-cloud/storage';
-import { VertexAI } from '@google-cloud/vertexai';
 import vision from '@google-cloud/vision';
 import dotenv from 'dotenv';
+import { SupabaseClient } from '@supabase/supabase-js';
 import { supabase } from '../lib/supabase';
+import { inlineFilePart } from '../lib/model-client';
+import { getModelClient } from '../lib/model-registry';
+import { renderPrompt } from '../lib/prompt-registry';
+import { getPolicyStore, PolicyType, StoredPolicy } from './policy-store';
+import {
+    ExtractedPolicy,
+    extractStructuredPolicies,
+    findExtractedPolicy,
+    persistStructuredPolicy,
+    PolicyExtraction
+} from './policy-extraction';
+import { processPolicyRenewal } from './renewal-guard';
+import { DEFAULT_LANGUAGE, Language } from '../lib/language';
 
 dotenv.config();
 
-const PROJECT_ID = process.env.GOOGLE_PROJECT_ID;
-
-if (!PROJECT_ID) {
-    console.error('❌ GOOGLE_PROJECT_ID environment variable is not set');
-    throw new Error('Missing GOOGLE_PROJECT_ID environment variable');
-}
-
 // Initialize Google Cloud clients
 const storage = new Storage();
 const visionClient = new vision.ImageAnnotatorClient();
 
-const vertexAI = new VertexAI({
-    project: PROJECT_ID,
-    location: 'us-central1',
-});
-
-const model = vertexAI.getGenerativeModel({
-    model: 'gemini-2.5-flash',
-});
-
 const GCS_BUCKET_NAME = process.env.GCS_BUCKET_NAME;
 
-// Policy types we support
-export type PolicyType = 'auto' | 'home' | 'renters' | 'umbrella' | 'life' | 'health' | 'other';
-
-// Structure for stored policy data
-export interface StoredPolicy {
-    policyType: PolicyType;
-    carrier: string;
-    analysis: string;
-    rawData: any;
-    timestamp: number;
-}
-
-// In-memory store for analyzed policies (keyed by visitorId, then by policyType)
-// Structure: Map<visitorId, Map<policyType, StoredPolicy>>
-// In production, use a database like Supabase
-export const userPolicies: Map<string, Map<PolicyType, StoredPolicy>> = new Map();
-
-// Legacy support - single policy store (deprecated, use userPolicies)
-export const analyzedPolicies: Map<string, { analysis: string; rawData: any; timestamp: number }> = new Map();
-
-// Store for pending responses that should be delivered to the user
-let pendingPolicyResponse: { analysis: string; rawData: any; timestamp: number } | null = null;
+// Policy types and stored policy shape live with the store; re-exported for existing importers
+export type { PolicyType, StoredPolicy } from './policy-store';
 
 /**
  * Policy type detection keywords with weighted scoring
@@ -232,117 +209,55 @@ function extractCarrier(analysisText: string): string {
 }
 
 /**
- * Stores a policy for a user by type
+ * Gets all policies for a user (most recent per type)
  */
-export function storeUserPolicy(userId: string, policy: StoredPolicy): void {
-    if (!userPolicies.has(userId)) {
-        userPolicies.set(userId, new Map());
-    }
-    userPolicies.get(userId)!.set(policy.policyType, policy);
-    console.log(`📁 Stored ${policy.policyType} policy for user ${userId} (carrier: ${policy.carrier})`);
-}
-
-/**
- * Gets all policies for a user
- */
-export function getUserPolicies(userId: string): Map<PolicyType, StoredPolicy> | null {
-    return userPolicies.get(userId) || null;
-}
-
-/**
- * Gets a specific policy type for a user
- */
-export function getUserPolicyByType(userId: string, policyType: PolicyType): StoredPolicy | null {
-    const policies = userPolicies.get(userId);
-    return policies?.get(policyType) || null;
+export async function getUserPolicies(userId: string): Promise<StoredPolicy[]> {
+    return getPolicyStore().listPolicies(userId);
 }
 
 /**
  * Gets a list of all policy types a user has uploaded
  */
-export function getUserPolicyTypes(userId: string): PolicyType[] {
-    const policies = userPolicies.get(userId);
-    return policies ? Array.from(policies.keys()) : [];
-}
-
-/**
- * Gets the most recent policy analysis (for chat to use) - legacy support
- */
-export function getLatestPolicyAnalysis(): { analysis: string; rawData: any } | null {
-    if (analyzedPolicies.size === 0) return null;
-
-    // Get the most recently analyzed policy
-    let latest: { analysis: string; rawData: any; timestamp: number } | null = null;
-    for (const policy of analyzedPolicies.values()) {
-        if (!latest || policy.timestamp > latest.timestamp) {
-            latest = policy;
-        }
-    }
-
-    return latest ? { analysis: latest.analysis, rawData: latest.rawData } : null;
+export async function getUserPolicyTypes(userId: string): Promise<PolicyType[]> {
+    const policies = await getPolicyStore().listPolicies(userId);
+    return policies.map(p => p.policyType);
 }
 
 /**
- * Gets the best matching policy for a user query
- * Returns the policy that matches the query context, or the most recent if no specific match
+ * Gets the policy for the lines a question is about (most relevant first).
+ * With no lines given, returns the most recent policy; null if none of the lines is on file.
  */
-export function getPolicyForQuery(userId: string, query: string): StoredPolicy | null {
-    const policies = userPolicies.get(userId);
-    if (!policies || policies.size === 0) return null;
-
-    const lowerQuery = query.toLowerCase();
+export async function getPolicyForTypes(userId: string, policyTypes: PolicyType[]): Promise<StoredPolicy | null> {
+    const policyList = await getPolicyStore().listPolicies(userId);
+    if (policyList.length === 0) return null;
 
-    // Check for explicit policy type references in the query
-    if (lowerQuery.includes('auto') || lowerQuery.includes('car') || lowerQuery.includes('vehicle') || lowerQuery.includes('driving')) {
-        const autoPolicy = policies.get('auto');
-        if (autoPolicy) return autoPolicy;
-    }
-    if (lowerQuery.includes('home') || lowerQuery.includes('house') || lowerQuery.includes('property') || lowerQuery.includes('dwelling')) {
-        const homePolicy = policies.get('home');
-        if (homePolicy) return homePolicy;
-    }
-    if (lowerQuery.includes('rent') || lowerQuery.includes('apartment') || lowerQuery.includes('tenant')) {
-        const rentersPolicy = policies.get('renters');
-        if (rentersPolicy) return rentersPolicy;
-    }
-    if (lowerQuery.includes('umbrella') || lowerQuery.includes('excess')) {
-        const umbrellaPolicy = policies.get('umbrella');
-        if (umbrellaPolicy) return umbrellaPolicy;
-    }
+    // List is newest first
+    if (policyTypes.length === 0) return policyList[0];
 
-    // Return the most recent policy if no specific match
-    let mostRecent: StoredPolicy | null = null;
-    for (const policy of policies.values()) {
-        if (!mostRecent || policy.timestamp > mostRecent.timestamp) {
-            mostRecent = policy;
-        }
+    for (const policyType of policyTypes) {
+        const policy = policyList.find(p => p.policyType === policyType);
+        if (policy) return policy;
     }
-    return mostRecent;
+    return null;
 }
 
 /**
- * Gets and clears any pending policy response (one-time delivery)
+ * Gets and clears the user's pending policy response (one-time delivery)
  */
-export function getPendingPolicyResponse(): { analysis: string; rawData: any } | null {
-    if (!pendingPolicyResponse) return null;
-
-    const response = {
-        analysis: pendingPolicyResponse.analysis,
-        rawData: pendingPolicyResponse.rawData
-    };
-    pendingPolicyResponse = null; // Clear after retrieval
-    return response;
+export async function getPendingPolicyResponse(userId: string): Promise<{ analysis: string; rawData: any } | null> {
+    const pending = await getPolicyStore().takePendingAnalysis(userId);
+    return pending ? { analysis: pending.analysis, rawData: pending.rawData } : null;
 }
 
 /**
- * Sets a pending policy response for immediate delivery
+ * Sets a pending policy response for immediate delivery to this user
  */
-export function setPendingPolicyResponse(analysis: string, rawData: any): void {
-    pendingPolicyResponse = {
+export async function setPendingPolicyResponse(userId: string, analysis: string, rawData: any): Promise<void> {
+    await getPolicyStore().setPendingAnalysis(userId, {
         analysis,
         rawData,
         timestamp: Date.now()
-    };
+    });
 }
 
 /**
@@ -379,20 +294,12 @@ async function extractTextFromPDF(buffer: Buffer, mimeType: string): Promise<str
     console.log('📄 Extracting text from PDF using Gemini...');
 
     try {
-        const base64Data = buffer.toString('base64');
-
-        const result = await model.generateContent({
-            contents: [{
-                role: 'user',
-                parts: [
-                    {
-                        inlineData: {
-                            mimeType: mimeType,
-                            data: base64Data
-                        }
-                    },
-                    {
-                        text: `Extract ALL text from this insurance document. Include every piece of information you can read:
+        const result = await getModelClient('document_analysis').generate([{
+            role: 'user',
+            parts: [
+                inlineFilePart(buffer, mimeType),
+                {
+                    text: `Extract ALL text from this insurance document. Include every piece of information you can read:
 - Policy numbers
 - Coverage types and limits
 - Deductibles
@@ -405,16 +312,14 @@ async function extractTextFromPDF(buffer: Buffer, mimeType: string): Promise<str
 - Liability limits
 
 Return the extracted text in a structured format. Be thorough and include everything visible.`
-                    }
-                ]
-            }],
-            generationConfig: {
-                temperature: 0.1,
-                maxOutputTokens: 8192,
-            },
+                }
+            ]
+        }], {
+            temperature: 0.1,
+            maxOutputTokens: 8192,
         });
 
-        const extractedText = result.response.candidates?.[0]?.content?.parts?.[0]?.text || '';
+        const extractedText = result.text;
         console.log(`✅ Extracted ${extractedText.length} characters from PDF`);
         console.log('📋 EXTRACTED TEXT START ===');
         console.log(extractedText);
@@ -454,61 +359,18 @@ async function uploadToGCS(buffer: Buffer, fileName: string, contentType: string
 /**
  * Analyzes extracted policy text using AI
  */
-async function analyzePolicyText(extractedText: string, fileName: string): Promise<string> {
+async function analyzePolicyText(extractedText: string, fileName: string, userId?: string): Promise<string> {
     console.log('🤖 Analyzing policy document...');
 
-    const prompt = `You are an expert insurance analyst. Carefully analyze this extracted insurance document text and provide a comprehensive summary.
-
-EXTRACTED DOCUMENT TEXT:
-${extractedText}
-
-CRITICAL INSTRUCTION - POLICY TYPE DETECTION:
-Many insurance documents contain MULTIPLE policy types bundled together (e.g., a "home and auto bundle" or a declarations page showing multiple policies). You MUST carefully identify ALL distinct policy types present.
-
-Look for these indicators of each policy type:
-- **AUTO**: VIN numbers, vehicle make/model/year, collision coverage, comprehensive coverage, bodily injury liability, property damage liability, uninsured/underinsured motorist, PIP, medical payments
-- **HOME**: Dwelling coverage, HO-3/HO-5/HO-8 forms, dwelling limit, other structures, personal property, loss of use, replacement cost dwelling, square footage, year built
-- **RENTERS**: HO-4 form, contents coverage only (no dwelling), tenant liability, apartment/lease references
-- **UMBRELLA**: Excess liability, underlying policy requirements, umbrella declarations
-- **LIFE**: Death benefit, beneficiary, term/whole/universal life, face amount, cash value
-- **HEALTH**: HMO/PPO/EPO, copay, coinsurance, out-of-pocket maximum, prescription coverage
-
-Please provide:
-
-1. **Policy Types Found**: List ALL distinct insurance types in this document. If multiple types exist, list them all separated by commas (e.g., "Auto, Home" or "Auto, Home, Umbrella"). Be thorough - check for bundled policies!
-
-2. **Carrier**: [Insurance company name only, e.g., "State Farm", "Allstate", "Progressive"]
-
-3. **Coverage Summary by Type**: For EACH policy type found, provide:
-   - The policy type name
-   - Key coverages included
-   - Coverage limits
-   - Deductibles
-
-4. **Premium**: Monthly/annual premium if shown (break down by policy type if applicable)
-
-5. **Effective Dates**: Policy period if mentioned
-
-6. **Notable Items**: Any special endorsements, exclusions, or concerns
-
-IMPORTANT FORMATTING:
-- For the Carrier field (#2), output ONLY the insurance company name after the colon
-- If this document contains MULTIPLE policy types, make sure to clearly indicate this in field #1 and provide separate coverage details for each type in field #3
-- If you see coverage for vehicles AND a dwelling/home, this is definitely a multi-policy document
-
-If any information is unclear or missing, note that. Keep your response concise but comprehensive.`;
+    const prompt = renderPrompt('document_analysis', { extractedText }, userId);
 
     try {
-        const result = await model.generateContent({
-            contents: [{ role: 'user', parts: [{ text: prompt }] }],
-            generationConfig: {
-                temperature: 0.3,
-                maxOutputTokens: 2048,
-            },
+        const result = await getModelClient('document_analysis').generate(prompt, {
+            temperature: 0.3,
+            maxOutputTokens: 2048,
         });
 
-        const analysis = result.response.candidates?.[0]?.content?.parts?.[0]?.text ||
-            'Unable to analyze policy document.';
+        const analysis = result.text || 'Unable to analyze policy document.';
 
         console.log('✅ Policy analysis complete');
         return analysis;
@@ -519,6 +381,30 @@ If any information is unclear or missing, note that. Keep your response concise
     }
 }
 
+/**
+ * The analysis as shown to the user in their language. The stored analysis stays English
+ * because policy type and carrier detection read it; a failed translation shows it as is.
+ */
+async function localizeAnalysis(analysis: string, language: Language): Promise<string> {
+    if (language === 'en') return analysis;
+
+    const prompt = `Translate this insurance policy summary into natural, neutral Spanish for the policyholder. Keep the same structure and numbering, keep carrier names, form names (HO-3, PAP), amounts, dates and policy numbers exactly as written, and do not add or remove information. Do not describe any coverage as guaranteed - use "está diseñado para cubrir", never "cubrirá".
+
+SUMMARY:
+${analysis}`;
+
+    try {
+        const result = await getModelClient('document_analysis').generate(prompt, {
+            temperature: 0.2,
+            maxOutputTokens: 2048,
+        });
+        return result.text.trim() || analysis;
+    } catch (error) {
+        console.warn(`⚠️ Could not translate analysis to ${language}:`, error);
+        return analysis;
+    }
+}
+
 /**
  * Determines the document type based on MIME type
  */
@@ -540,8 +426,9 @@ export async function handleDocumentUpload(
     originalName: string,
     mimeType: string,
     sessionId: string,
-    userId?: string
-): Promise<{ success: boolean; analysis?: string; documentId?: number; error?: string }> {
+    userId?: string,
+    language: Language = DEFAULT_LANGUAGE
+): Promise<{ success: boolean; analysis?: string; summary?: string; documentId?: number; renewalSummaries?: string[]; error?: string }> {
     console.log(`\n📤 Processing document upload: ${originalName} (${mimeType})`);
     if (userId) {
         console.log(`👤 Associated with user: ${userId}`);
@@ -586,13 +473,12 @@ export async function handleDocumentUpload(
 
         // 3. Analyze the extracted text
         console.log(`📦 Step 3: Analyzing policy text with AI`);
-        const analysis = await analyzePolicyText(extractedText, originalName);
+        const analysis = await analyzePolicyText(extractedText, originalName, userId);
         console.log(`✅ Step 3 complete: Analysis generated (${analysis.length} chars)`);
 
         // 4. Detect ALL policy types present in the document
         const allDetectedTypes = detectAllPolicyTypes(analysis);
         const carrier = extractCarrier(analysis);
-        const storageKey = userId || sessionId;
         const uploadedAt = new Date().toISOString();
 
         // Filter to only significant detections (medium or high confidence)
@@ -614,8 +500,18 @@ export async function handleDocumentUpload(
             })))}`);
         }
 
+        // 4b. Structured extraction (limits, deductibles, VINs, drivers, dates) - never fails the upload
+        let structuredExtraction: PolicyExtraction | undefined;
+        const extractionResult = await extractStructuredPolicies(extractedText);
+        if (extractionResult.success) {
+            structuredExtraction = extractionResult.data;
+        } else {
+            console.warn(`⚠️ Structured extraction skipped: ${extractionResult.error}`);
+        }
+
         // 5. Store each detected policy type separately
         const documentIds: number[] = [];
+        const renewalSummaries: string[] = [];
         let primaryDocumentId: number | undefined;
 
         for (const policyType of policyTypesToStore) {
@@ -631,6 +527,8 @@ export async function handleDocumentUpload(
                 documentId?: number;
                 isMultiPolicy?: boolean;
                 allDetectedTypes?: PolicyType[];
+                structuredPolicy?: ReturnType<typeof findExtractedPolicy>;
+                policyId?: number;
             } = {
                 fileName: originalName,
                 extractedText,
@@ -641,10 +539,10 @@ export async function handleDocumentUpload(
                 policyType,
                 carrier,
                 isMultiPolicy: policyTypesToStore.length > 1,
-                allDetectedTypes: policyTypesToStore
+                allDetectedTypes: policyTypesToStore,
+                structuredPolicy: findExtractedPolicy(structuredExtraction, policyType)
             };
 
-            // Store in multi-policy structure
             const storedPolicy: StoredPolicy = {
                 policyType,
                 carrier,
@@ -652,12 +550,8 @@ export async function handleDocumentUpload(
                 rawData,
                 timestamp: Date.now()
             };
-            storeUserPolicy(storageKey, storedPolicy);
-
-            console.log(`✅ Stored ${policyType} policy from ${carrier}`);
-            console.log(`   For ${userId ? `user ${userId}` : `session ${sessionId}`}`);
 
-            // 6. Persist to database if user is authenticated
+            // 6. Persist to database if user is authenticated (policies are only ever stored per user)
             if (userId) {
                 const dbResult = await persistDocumentToDatabase(userId, {
                     fileName: originalName,
@@ -666,6 +560,7 @@ export async function handleDocumentUpload(
                     gcsPath: gcsFileName,
                     policyType,
                     carrier,
+                    policyNumber: rawData.structuredPolicy?.policyNumber.value || undefined,
                     analysis,
                     extractedData: {
                         extractedText,
@@ -673,7 +568,8 @@ export async function handleDocumentUpload(
                         documentType: docType,
                         isMultiPolicy: policyTypesToStore.length > 1,
                         allDetectedTypes: policyTypesToStore,
-                        detectionConfidence: allDetectedTypes.find(d => d.type === policyType)?.confidence || 'low'
+                        detectionConfidence: allDetectedTypes.find(d => d.type === policyType)?.confidence || 'low',
+                        structured: rawData.structuredPolicy || null
                     }
                 });
 
@@ -682,18 +578,41 @@ export async function handleDocumentUpload(
                     if (!primaryDocumentId) {
                         primaryDocumentId = dbResult.documentId;
                     }
-                    // Update rawData with documentId for cache consistency
                     rawData.documentId = dbResult.documentId;
-                    storedPolicy.rawData.documentId = dbResult.documentId;
                     console.log(`📊 ${policyType} policy linked to user account (ID: ${dbResult.documentId})`);
+
+                    // 7. Populate the normalized policy tables from the structured extraction
+                    if (rawData.structuredPolicy) {
+                        const structuredResult = await persistStructuredPolicy(userId, rawData.structuredPolicy, dbResult.documentId);
+                        if (structuredResult.success && structuredResult.policyId) {
+                            rawData.policyId = structuredResult.policyId;
+
+                            // 8. Renewal Guard - diff against the prior term if this one renews it
+                            const renewalResult = await processPolicyRenewal(structuredResult.policyId, language);
+                            if (renewalResult.success && renewalResult.data) {
+                                renewalSummaries.push(renewalResult.data.summary);
+                            } else if (!renewalResult.success) {
+                                console.warn(`⚠️ Renewal check failed: ${renewalResult.error}`);
+                            }
+                        } else if (!structuredResult.success) {
+                            console.warn(`⚠️ Structured policy persistence failed: ${structuredResult.error}`);
+                        }
+                    }
                 } else {
                     // Log error but don't fail the upload - GCS storage succeeded
                     console.warn(`⚠️ Database persistence failed: ${dbResult.error}`);
                 }
+
+                try {
+                    await getPolicyStore().savePolicy(userId, storedPolicy);
+                    console.log(`✅ Stored ${policyType} policy from ${carrier} for user ${userId}`);
+                } catch (storeError) {
+                    console.warn(`⚠️ Policy store save failed: ${storeError instanceof Error ? storeError.message : storeError}`);
+                }
             }
         }
 
-        // Also store in legacy structure for backwards compatibility (use primary policy type)
+        // Queue the analysis for one-time delivery to the uploading user (use primary policy type)
         const primaryPolicyType = policyTypesToStore[0];
         const policyData = {
             analysis,
@@ -709,11 +628,15 @@ export async function handleDocumentUpload(
                 documentId: primaryDocumentId,
                 isMultiPolicy: policyTypesToStore.length > 1,
                 allDetectedTypes: policyTypesToStore
-            },
-            timestamp: Date.now()
+            }
         };
-        analyzedPolicies.set(storageKey, policyData);
-        setPendingPolicyResponse(analysis, policyData.rawData);
+        if (userId) {
+            try {
+                await setPendingPolicyResponse(userId, analysis, policyData.rawData);
+            } catch (storeError) {
+                console.warn(`⚠️ Could not queue pending analysis: ${storeError instanceof Error ? storeError.message : storeError}`);
+            }
+        }
 
         // Log summary
         if (policyTypesToStore.length > 1) {
@@ -723,7 +646,9 @@ export async function handleDocumentUpload(
         return {
             success: true,
             analysis,
-            documentId: primaryDocumentId
+            summary: await localizeAnalysis(analysis, language),
+            documentId: primaryDocumentId,
+            renewalSummaries
         };
 
     } catch (error) {
@@ -744,45 +669,137 @@ export async function handleDocumentUpload(
 }
 
 /**
- * Clears policy data for a session
+ * Stores an uploaded competing quote and extracts its coverages.
+ * Unlike policy uploads, nothing is written to the policy tables or the policy store.
  */
-export function clearPolicyData(sessionId: string): void {
-    analyzedPolicies.delete(sessionId);
-}
+export async function handleQuoteDocumentUpload(
+    buffer: Buffer,
+    originalName: string,
+    mimeType: string,
+    userId: string,
+    policyType: PolicyType
+): Promise<{ success: boolean; documentId?: number; quote?: ExtractedPolicy; error?: string }> {
+    console.log(`\n📤 Processing quote upload: ${originalName} (${mimeType})`);
 
-/**
- * Deletes a specific policy for a user
- */
-export function deleteUserPolicy(userId: string, policyType: PolicyType): boolean {
-    const policies = userPolicies.get(userId);
-    if (!policies) {
-        return false;
+    const docType = getDocumentType(mimeType);
+
+    if (docType === 'unsupported') {
+        return {
+            success: false,
+            error: 'Unsupported file type. Please upload a PDF or image (JPG, PNG, HEIC).'
+        };
     }
-    const deleted = policies.delete(policyType);
-    if (deleted) {
-        console.log(`🗑️ Deleted ${policyType} policy for user ${userId}`);
+
+    try {
+        const sanitizedName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
+        const gcsFileName = `Quotes/${Date.now()}_${sanitizedName}`;
+        await uploadToGCS(buffer, gcsFileName, mimeType);
+
+        const extractedText = docType === 'image'
+            ? await extractTextFromImage(buffer)
+            : await extractTextFromPDF(buffer, mimeType);
+
+        if (!extractedText || extractedText.length < 50) {
+            return {
+                success: false,
+                error: 'Could not extract enough text from the quote. Please upload a clearer copy.'
+            };
+        }
+
+        const extractionResult = await extractStructuredPolicies(extractedText);
+        const extraction = extractionResult.success ? extractionResult.data : undefined;
+
+        // Quote documents often omit the line of business; fall back to the only record extracted
+        const quote = findExtractedPolicy(extraction, policyType)
+            || (extraction?.policies.length === 1 ? extraction.policies[0] : undefined);
+
+        if (!quote) {
+            return {
+                success: false,
+                error: extractionResult.error || `No ${policyType} quote details found in the document.`
+            };
+        }
+
+        const dbResult = await persistDocumentToDatabase(userId, {
+            fileName: originalName,
+            fileType: mimeType,
+            fileSize: buffer.length,
+            gcsPath: gcsFileName,
+            policyType,
+            carrier: quote.carrier.value || undefined,
+            documentType: 'quote',
+            extractedData: {
+                extractedText,
+                uploadedAt: new Date().toISOString(),
+                documentType: docType,
+                structured: quote
+            }
+        });
+
+        if (!dbResult.success) {
+            console.warn(`⚠️ Quote document persistence failed: ${dbResult.error}`);
+        }
+
+        console.log(`✅ Extracted ${policyType} quote from ${quote.carrier.value || 'unknown carrier'}`);
+        return { success: true, documentId: dbResult.documentId, quote };
+
+    } catch (error) {
+        console.error('❌ Error processing quote document:', error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to process quote document'
+        };
     }
-    return deleted;
 }
 
 /**
- * Renames a policy by updating its carrier name
+ * Stores a photo (or PDF, e.g. a police report) for a claim. Nothing is extracted - the file is
+ * kept as evidence and listed on the claim's First Notice of Loss summary.
  */
-export function renameUserPolicy(userId: string, policyType: PolicyType, newCarrier: string): boolean {
-    const policies = userPolicies.get(userId);
-    if (!policies) {
-        return false;
-    }
-    const policy = policies.get(policyType);
-    if (!policy) {
-        return false;
+export async function handleClaimPhotoUpload(
+    buffer: Buffer,
+    originalName: string,
+    mimeType: string,
+    userId: string,
+    chatSessionId?: number
+): Promise<{ success: boolean; documentId?: number; gcsUri?: string; error?: string }> {
+    console.log(`\n📤 Processing claim upload: ${originalName} (${mimeType})`);
+
+    if (getDocumentType(mimeType) === 'unsupported') {
+        return {
+            success: false,
+            error: 'Unsupported file type. Please upload a photo (JPG, PNG, HEIC) or a PDF.'
+        };
     }
-    policy.carrier = newCarrier;
-    if (policy.rawData) {
-        policy.rawData.carrier = newCarrier;
+
+    try {
+        const sanitizedName = originalName.replace(/[^a-zA-Z0-9.-]/g, '_');
+        const gcsFileName = `Claims/${Date.now()}_${sanitizedName}`;
+        await uploadToGCS(buffer, gcsFileName, mimeType);
+
+        const dbResult = await persistDocumentToDatabase(userId, {
+            fileName: originalName,
+            fileType: mimeType,
+            fileSize: buffer.length,
+            gcsPath: gcsFileName,
+            documentType: 'claim',
+            uploadContext: 'claim_submission',
+            chatSessionId,
+        });
+
+        if (!dbResult.success) {
+            return { success: false, error: dbResult.error };
+        }
+
+        return { success: true, documentId: dbResult.documentId, gcsUri: `gs://${GCS_BUCKET_NAME}/${gcsFileName}` };
+
+    } catch (error) {
+        console.error('❌ Error storing claim upload:', error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Failed to store claim upload'
+        };
     }
-    console.log(`✏️ Renamed ${policyType} policy carrier to "${newCarrier}" for user ${userId}`);
-    return true;
 }
 
 // ============================================
@@ -792,7 +809,7 @@ export function renameUserPolicy(userId: string, policyType: PolicyType, newCarr
 /**
  * Document types supported by the system
  */
-export type DocumentType = 'policy' | 'id_card' | 'claim' | 'chat_attachment' | 'image' | 'screenshot' | 'other';
+export type DocumentType = 'policy' | 'quote' | 'id_card' | 'claim' | 'chat_attachment' | 'image' | 'screenshot' | 'other';
 
 /**
  * Upload context - where the upload originated
@@ -838,6 +855,7 @@ export async function persistDocumentToDatabase(
         gcsPath: string;
         policyType?: PolicyType;
         carrier?: string;
+        policyNumber?: string;
         analysis?: string;
         extractedData?: any;
         // New optional fields for general attachments
@@ -869,6 +887,7 @@ export async function persistDocumentToDatabase(
                 gcs_bucket: GCS_BUCKET_NAME,
                 gcs_path: document.gcsPath,
                 carrier_name: document.carrier || null,
+                policy_number: document.policyNumber || null,
                 analysis_summary: document.analysis || null,
                 extracted_data: document.extractedData || null,
                 status: 'active',
@@ -904,12 +923,13 @@ export async function fetchUserDocumentsFromDatabase(
         uploadContext?: UploadContext;
         chatSessionId?: number;
         policyDocumentsOnly?: boolean;
-    }
+    },
+    db: SupabaseClient = supabase
 ): Promise<{ success: boolean; documents?: UserDocument[]; error?: string }> {
     try {
         console.log(`📚 Fetching documents from database for user: ${userId}`);
 
-        let query = supabase
+        let query = db
             .from('user_documents')
             .select('*')
             .eq('user_id', userId)
@@ -1096,46 +1116,3 @@ export async function updateDocumentCarrierInDatabase(
         };
     }
 }
-
-/**
- * Loads user documents from database into the in-memory cache
- * Call this on server startup or when a user first accesses their documents
- */
-export async function loadUserDocumentsToCache(userId: string): Promise<void> {
-    const result = await fetchUserDocumentsFromDatabase(userId);
-
-    if (!result.success || !result.documents) {
-        console.log(`⚠️ Could not load documents for user ${userId}`);
-        return;
-    }
-
-    // Clear existing cache for this user
-    userPolicies.delete(userId);
-
-    // Populate cache from database
-    for (const doc of result.documents) {
-        if (doc.policy_type) {
-            const storedPolicy: StoredPolicy = {
-                policyType: doc.policy_type as PolicyType,
-                carrier: doc.carrier_name || 'Unknown',
-                analysis: doc.analysis_summary || '',
-                rawData: {
-                    fileName: doc.file_name,
-                    gcsPath: doc.gcs_path,
-                    gcsUri: doc.gcs_uri,
-                    uploadedAt: doc.uploaded_at,
-                    documentType: doc.file_type?.startsWith('image/') ? 'image' : 'pdf',
-                    userId: doc.user_id,
-                    policyType: doc.policy_type,
-                    carrier: doc.carrier_name,
-                    documentId: doc.id,
-                    ...doc.extracted_data
-                },
-                timestamp: new Date(doc.uploaded_at).getTime()
-            };
-            storeUserPolicy(userId, storedPolicy);
-        }
-    }
-
-    console.log(`📦 Loaded ${result.documents.length} documents into cache for user ${userId}`);
-}
@@ -0,0 +1,342 @@
+// backend/services/fnol-summary.ts
+// First Notice of Loss summary of a claim reported in chat - plain text for the chat reply and a
+// self-contained printable page the customer can send to their carrier
+
+import { Language } from '../lib/language';
+import type { ClaimPolicy, ClaimRecord } from './claim-intake';
+
+// ============================================
+// Types
+// ============================================
+
+export interface Policyholder {
+    name: string | null;
+    email: string | null;
+    phone: string | null;
+    address: string | null;
+}
+
+interface SummaryRow {
+    label: string;
+    value: string;
+}
+
+interface SummarySection {
+    heading: string;
+    rows: SummaryRow[];
+}
+
+// ============================================
+// Labels
+// ============================================
+
+const POLICY_TYPE_LABELS: Record<Language, Record<string, string>> = {
+    en: { auto: 'Auto', home: 'Home', renters: 'Renters', umbrella: 'Umbrella', life: 'Life', health: 'Health', other: 'Other' },
+    es: { auto: 'Auto', home: 'Hogar', renters: 'Inquilinos', umbrella: 'Paraguas', life: 'Vida', health: 'Salud', other: 'Otra' },
+};
+
+const LOSS_TYPE_LABELS: Record<Language, Record<string, string>> = {
+    en: {
+        collision: 'Collision', theft: 'Theft', vandalism: 'Vandalism', fire: 'Fire', water: 'Water damage',
+        weather: 'Weather / storm', glass: 'Glass', injury: 'Injury', liability: 'Liability', other: 'Other',
+    },
+    es: {
+        collision: 'Choque', theft: 'Robo', vandalism: 'Vandalismo', fire: 'Incendio', water: 'Daños por agua',
+        weather: 'Clima / tormenta', glass: 'Cristales', injury: 'Lesiones', liability: 'Responsabilidad civil', other: 'Otro',
+    },
+};
+
+const LABELS: Record<Language, {
+    title: string;
+    claim: string;
+    reference: string;
+    status: string;
+    reported: string;
+    policy: string;
+    carrier: string;
+    policyNumber: string;
+    line: string;
+    policyholder: string;
+    name: string;
+    email: string;
+    phone: string;
+    address: string;
+    loss: string;
+    lossType: string;
+    lossDate: string;
+    location: string;
+    description: string;
+    injuries: string;
+    otherParties: string;
+    policeReport: string;
+    photos: string;
+    none: string;
+    notFiled: string;
+    notProvided: string;
+    filed: string;
+    agency: string;
+    reportNumber: string;
+    party: (index: number) => string;
+    photoCount: (count: number) => string;
+    statuses: Record<string, string>;
+    footer: string;
+}> = {
+    en: {
+        title: 'First Notice of Loss',
+        claim: 'Claim',
+        reference: 'Reference',
+        status: 'Status',
+        reported: 'Reported',
+        policy: 'Policy',
+        carrier: 'Insurance company',
+        policyNumber: 'Policy number',
+        line: 'Line',
+        policyholder: 'Policyholder',
+        name: 'Name',
+        email: 'Email',
+        phone: 'Phone',
+        address: 'Address',
+        loss: 'Loss',
+        lossType: 'Type of loss',
+        lossDate: 'Date and time',
+        location: 'Location',
+        description: 'What happened',
+        injuries: 'Injuries',
+        otherParties: 'Other parties',
+        policeReport: 'Police report',
+        photos: 'Photos',
+        none: 'None reported',
+        notFiled: 'Not filed',
+        notProvided: 'Not provided',
+        filed: 'Filed',
+        agency: 'Department',
+        reportNumber: 'Report number',
+        party: index => `Party ${index}`,
+        photoCount: count => `${count} attached`,
+        statuses: { draft: 'Incomplete', ready: 'Ready to send', cancelled: 'Cancelled', pending: 'Submitted', approved: 'Approved', denied: 'Denied', closed: 'Closed' },
+        footer: 'Prepared from the policyholder\'s own account of the loss. It is not a claim filing and does not confirm coverage - the insurance company decides the claim under the terms of the policy.',
+    },
+    es: {
+        title: 'Aviso de siniestro',
+        claim: 'Reclamo',
+        reference: 'Referencia',
+        status: 'Estado',
+        reported: 'Reportado',
+        policy: 'Póliza',
+        carrier: 'Aseguradora',
+        policyNumber: 'Número de póliza',
+        line: 'Ramo',
+        policyholder: 'Asegurado',
+        name: 'Nombre',
+        email: 'Correo',
+        phone: 'Teléfono',
+        address: 'Dirección',
+        loss: 'Siniestro',
+        lossType: 'Tipo de siniestro',
+        lossDate: 'Fecha y hora',
+        location: 'Lugar',
+        description: 'Qué pasó',
+        injuries: 'Lesiones',
+        otherParties: 'Otras personas involucradas',
+        policeReport: 'Reporte policial',
+        photos: 'Fotos',
+        none: 'Ninguna reportada',
+        notFiled: 'No se hizo',
+        notProvided: 'No indicado',
+        filed: 'Se hizo',
+        agency: 'Departamento',
+        reportNumber: 'Número de reporte',
+        party: index => `Persona ${index}`,
+        photoCount: count => `${count} adjunta(s)`,
+        statuses: { draft: 'Incompleto', ready: 'Listo para enviar', cancelled: 'Cancelado', pending: 'Enviado', approved: 'Aprobado', denied: 'Rechazado', closed: 'Cerrado' },
+        footer: 'Preparado a partir del relato del asegurado. No es la presentación de un reclamo ni confirma la cobertura: la aseguradora decide el reclamo según los términos de la póliza.',
+    },
+};
+
+export function describeClaimPolicy(policy: ClaimPolicy, language: Language): string {
+    const type = POLICY_TYPE_LABELS[language][policy.policyType || 'other'] || policy.policyType;
+    return `${type} - ${policy.carrier || '?'} (${policy.policyNumber})`;
+}
+
+// ============================================
+// Summary
+// ============================================
+
+// Claim references shown to carriers, e.g. FNOL-000042
+export function claimReference(claimId: number): string {
+    return `FNOL-${String(claimId).padStart(6, '0')}`;
+}
+
+function formatDate(value: string | null, language: Language, withTime: boolean): string | null {
+    if (!value) return null;
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) return null;
+
+    const locale = language === 'es' ? 'es-US' : 'en-US';
+    return withTime
+        ? date.toLocaleString(locale, { dateStyle: 'long', timeStyle: 'short', timeZone: 'UTC' })
+        : date.toLocaleDateString(locale, { dateStyle: 'long', timeZone: 'UTC' });
+}
+
+// The customer's own words stay alongside the resolved date, since "last night" may be off by a day
+function describeLossDate(claim: ClaimRecord, language: Language): string | null {
+    const { lossDate, lossDateText } = claim.intake;
+    // Dates are the customer's wall-clock time, kept as UTC so they print unshifted
+    const hasTime = Boolean(lossDate && lossDate.length > 10);
+    const resolved = formatDate(lossDate ? (hasTime ? `${lossDate}Z` : lossDate) : null, language, hasTime);
+    if (resolved && lossDateText) return `${resolved} ("${lossDateText}")`;
+    return resolved || lossDateText || null;
+}
+
+function buildSections(claim: ClaimRecord, language: Language, policyholder?: Policyholder): SummarySection[] {
+    const labels = LABELS[language];
+    const { intake } = claim;
+    const row = (label: string, value: string | null | undefined): SummaryRow => ({ label, value: value || labels.notProvided });
+
+    const sections: SummarySection[] = [
+        {
+            heading: labels.claim,
+            rows: [
+                row(labels.reference, claimReference(claim.id)),
+                row(labels.status, labels.statuses[claim.status] || claim.status),
+                row(labels.reported, formatDate(claim.reportedAt || claim.createdAt, language, false)),
+            ],
+        },
+        {
+            heading: labels.policy,
+            rows: [
+                row(labels.carrier, claim.carrier),
+                row(labels.policyNumber, claim.policy?.policyNumber || intake.policy?.policyNumber),
+                ...(claim.policy ? [row(labels.line, POLICY_TYPE_LABELS[language][claim.policy.policyType || 'other'])] : []),
+            ],
+        },
+    ];
+
+    if (policyholder) {
+        sections.push({
+            heading: labels.policyholder,
+            rows: [
+                row(labels.name, policyholder.name),
+                row(labels.email, policyholder.email),
+                row(labels.phone, policyholder.phone),
+                row(labels.address, policyholder.address),
+            ],
+        });
+    }
+
+    const parties = intake.otherParties?.anyone ? intake.otherParties.parties : [];
+    const police = intake.policeReport;
+
+    sections.push(
+        {
+            heading: labels.loss,
+            rows: [
+                row(labels.lossType, intake.lossType ? LOSS_TYPE_LABELS[language][intake.lossType] : null),
+                row(labels.lossDate, describeLossDate(claim, language)),
+                row(labels.location, intake.location),
+                row(labels.description, intake.whatHappened),
+            ],
+        },
+        {
+            heading: labels.injuries,
+            rows: [row(labels.injuries, intake.injuries ? (intake.injuries.anyone ? intake.injuries.details : labels.none) : null)],
+        },
+        {
+            heading: labels.otherParties,
+            rows: parties.length > 0
+                ? parties.map((party, index) => row(
+                    labels.party(index + 1),
+                    [party.name, party.contact, party.insurer, party.details].filter(Boolean).join(' - ')
+                ))
+                : [row(labels.otherParties, intake.otherParties ? labels.none : null)],
+        },
+        {
+            heading: labels.policeReport,
+            rows: police?.filed
+                ? [
+                    row(labels.policeReport, labels.filed),
+                    row(labels.agency, police.agency),
+                    row(labels.reportNumber, police.reportNumber),
+                ]
+                : [row(labels.policeReport, police ? labels.notFiled : null)],
+        },
+        {
+            heading: labels.photos,
+            rows: [
+                row(labels.photos, claim.photos.length > 0 ? labels.photoCount(claim.photos.length) : labels.none),
+                ...claim.photos.map((photo, index) => row(`#${index + 1}`, photo.fileName)),
+            ],
+        },
+    );
+
+    return sections;
+}
+
+/**
+ * Plain-text summary for the chat, one "Label: value" line per answer
+ */
+export function formatFnolText(claim: ClaimRecord, language: Language): string {
+    return buildSections(claim, language)
+        .map(section => [
+            section.heading.toUpperCase(),
+            ...section.rows.map(({ label, value }) => label === section.heading ? value : `${label}: ${value}`),
+        ].join('\n'))
+        .join('\n\n');
+}
+
+// ============================================
+// Printable Page
+// ============================================
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+const PRINT_STYLES = `
+body { font-family: Georgia, 'Times New Roman', serif; color: #111; max-width: 760px; margin: 32px auto; padding: 0 24px; line-height: 1.45; }
+h1 { font-size: 24px; margin: 0 0 4px; }
+.reference { color: #555; margin: 0 0 24px; }
+h2 { font-size: 15px; text-transform: uppercase; letter-spacing: 0.06em; border-bottom: 1px solid #999; padding-bottom: 4px; margin: 24px 0 8px; }
+table { width: 100%; border-collapse: collapse; }
+th { text-align: left; vertical-align: top; width: 32%; padding: 4px 12px 4px 0; font-weight: 600; }
+td { padding: 4px 0; white-space: pre-wrap; }
+footer { margin-top: 32px; font-size: 12px; color: #555; }
+@media print { body { margin: 0 auto; } }
+`;
+
+/**
+ * Self-contained HTML page (no scripts or external assets) the customer prints or saves as PDF
+ */
+export function renderFnolHtml(claim: ClaimRecord, language: Language, policyholder?: Policyholder): string {
+    const labels = LABELS[language];
+    const sections = buildSections(claim, language, policyholder)
+        .filter(section => section.heading !== labels.claim)
+        .map(section => `<h2>${escapeHtml(section.heading)}</h2>
+<table>
+${section.rows.map(({ label, value }) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`).join('\n')}
+</table>`)
+        .join('\n');
+
+    const reported = formatDate(claim.reportedAt || claim.createdAt, language, false);
+
+    return `<!DOCTYPE html>
+<html lang="${language}">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(`${labels.title} ${claimReference(claim.id)}`)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(labels.title)}</h1>
+<p class="reference">${escapeHtml(`${labels.reference}: ${claimReference(claim.id)} · ${labels.reported}: ${reported || labels.notProvided} · ${labels.status}: ${labels.statuses[claim.status] || claim.status}`)}</p>
+${sections}
+<footer>${escapeHtml(labels.footer)}</footer>
+</body>
+</html>
+`;
+}
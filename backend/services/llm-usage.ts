@@ -0,0 +1,303 @@
+// backend/services/llm-usage.ts
+// Token and cost accounting for every model call, per-user daily budgets and spend reports
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { Request, Response, NextFunction } from 'express';
+import { supabase } from '../lib/supabase';
+import type { ModelUsage } from '../lib/model-client';
+import type { ModelCallEvent } from '../lib/model-registry';
+
+// ============================================
+// Types
+// ============================================
+
+export interface UsageBudgetStatus {
+    budgetUsd: number;
+    spentUsd: number;
+    /** Spent at least the budget today (UTC) - chats run the reduced pipeline */
+    exceeded: boolean;
+}
+
+export const USAGE_GROUPINGS = ['day', 'user', 'agent'] as const;
+export type UsageGrouping = typeof USAGE_GROUPINGS[number];
+
+export interface UsageSummaryRow {
+    /** Day (YYYY-MM-DD), auth user id ('anonymous' for signed-out chats) or agent name */
+    key: string;
+    calls: number;
+    failedCalls: number;
+    promptTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    avgLatencyMs: number;
+}
+
+// ============================================
+// Pricing
+// ============================================
+
+// Vertex AI list prices in USD per million tokens (prompts up to 200k tokens).
+// Versioned model names (e.g. gemini-2.5-flash-001) use the longest matching prefix.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.0-flash': { input: 0.15, output: 0.60 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+    // Billed at $0.025 per million characters, about $0.10 per million tokens at four characters a token
+    'text-embedding': { input: 0.10, output: 0 },
+    'text-multilingual-embedding': { input: 0.10, output: 0 },
+};
+
+const PRICED_MODELS = Object.keys(MODEL_PRICING).sort((a, b) => b.length - a.length);
+
+// Models already warned about, so an unpriced model logs once rather than on every call
+const unpricedModels = new Set<string>();
+
+/**
+ * Estimated cost of a call in USD, or null when the model has no price
+ */
+export function estimateCostUsd(model: string, usage: ModelUsage | null): number | null {
+    const priced = PRICED_MODELS.find(name => model.startsWith(name));
+    if (!priced) {
+        if (!unpricedModels.has(model)) {
+            unpricedModels.add(model);
+            console.warn(`⚠️ No price for model ${model} - its calls are recorded without a cost`);
+        }
+        return null;
+    }
+    if (!usage) return 0;
+
+    const price = MODEL_PRICING[priced];
+    return (usage.promptTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+}
+
+// ============================================
+// Request Context
+// ============================================
+
+// Model calls happen deep inside the agents; the request they belong to follows them through
+// async calls (including background work the request starts) instead of being passed down
+interface UsageContext {
+    requestId: string | null;
+    authUserId: () => string | undefined;
+    /** Internal user id, looked up once per request */
+    internalUserId?: Promise<number | null>;
+}
+
+const usageContext = new AsyncLocalStorage<UsageContext>();
+
+/**
+ * Express middleware tying model calls made while handling a request to its id and signed-in user.
+ * Mount after requestLogger; the user is read when the first call is recorded, so auth can run later.
+ */
+export function trackModelUsage(req: Request, _res: Response, next: NextFunction): void {
+    usageContext.run({ requestId: req.requestId || null, authUserId: () => req.user?.id }, next);
+}
+
+async function lookupInternalUserId(authUserId: string): Promise<number | null> {
+    const { data } = await supabase
+        .from('users')
+        .select('id')
+        .eq('external_id', authUserId)
+        .maybeSingle();
+    return data?.id ?? null;
+}
+
+function resolveContextUser(context: UsageContext | undefined): Promise<number | null> {
+    if (!context) return Promise.resolve(null);
+
+    const authUserId = context.authUserId();
+    if (!authUserId) return Promise.resolve(null);
+
+    context.internalUserId ??= lookupInternalUserId(authUserId).catch(() => null);
+    return context.internalUserId;
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Persists one model call. Registered as the model registry's usage listener; never throws
+ * and never delays the call - the insert runs in the background.
+ */
+export function recordModelCall(event: ModelCallEvent): void {
+    const context = usageContext.getStore();
+
+    saveModelCall(event, context).catch(error => {
+        console.warn(`⚠️ Failed to record ${event.purpose} model usage:`, error);
+    });
+}
+
+async function saveModelCall(event: ModelCallEvent, context: UsageContext | undefined): Promise<void> {
+    const userId = await resolveContextUser(context);
+
+    const { error } = await supabase
+        .from('llm_usage')
+        .insert({
+            request_id: context?.requestId || null,
+            user_id: userId,
+            agent: event.purpose,
+            model: event.model,
+            prompt_tokens: event.usage?.promptTokens || 0,
+            output_tokens: event.usage?.outputTokens || 0,
+            latency_ms: event.latencyMs,
+            success: event.success,
+            estimated_cost_usd: estimateCostUsd(event.model, event.usage),
+        });
+
+    if (error) throw error;
+}
+
+// ============================================
+// Budgets
+// ============================================
+
+// Daily spend per user before chats degrade; a row in llm_budgets overrides it per user
+function getDefaultDailyBudgetUsd(): number {
+    const configured = Number(process.env.LLM_DAILY_BUDGET_USD);
+    return Number.isFinite(configured) && configured >= 0 ? configured : 1;
+}
+
+function startOfUtcDay(): string {
+    const now = new Date();
+    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate())).toISOString();
+}
+
+/**
+ * Today's spend against the user's budget. Never throws - if usage can't be read the
+ * user gets the full pipeline, since a budget must not turn into an outage.
+ */
+export async function getBudgetStatus(authUserId: string): Promise<UsageBudgetStatus> {
+    const defaultBudget = getDefaultDailyBudgetUsd();
+
+    try {
+        const { data: user, error: userError } = await supabase
+            .from('users')
+            .select('id, llm_budgets(daily_budget_usd)')
+            .eq('external_id', authUserId)
+            .maybeSingle();
+
+        if (userError) throw userError;
+        if (!user) {
+            return { budgetUsd: defaultBudget, spentUsd: 0, exceeded: false };
+        }
+
+        // One-to-one embed: an object, or null when the user has no override
+        const override = user.llm_budgets as unknown as { daily_budget_usd: number | string } | null;
+        const budgetUsd = override ? Number(override.daily_budget_usd) : defaultBudget;
+
+        const { data: calls, error: usageError } = await supabase
+            .from('llm_usage')
+            .select('estimated_cost_usd')
+            .eq('user_id', user.id)
+            .gte('created_at', startOfUtcDay());
+
+        if (usageError) throw usageError;
+
+        const spentUsd = (calls || []).reduce((total, call) => total + Number(call.estimated_cost_usd || 0), 0);
+        return { budgetUsd, spentUsd, exceeded: spentUsd >= budgetUsd };
+
+    } catch (error) {
+        console.warn('⚠️ Model budget unavailable, allowing full pipeline:', error);
+        return { budgetUsd: defaultBudget, spentUsd: 0, exceeded: false };
+    }
+}
+
+/**
+ * Set a user's daily budget; null restores the default
+ */
+export async function setDailyBudget(
+    authUserId: string,
+    budgetUsd: number | null
+): Promise<{ success: boolean; error?: string }> {
+    try {
+        const { data: user, error: userError } = await supabase
+            .from('users')
+            .select('id')
+            .eq('external_id', authUserId)
+            .maybeSingle();
+
+        if (userError) throw userError;
+        if (!user) {
+            return { success: false, error: 'User not found' };
+        }
+
+        const { error } = budgetUsd === null
+            ? await supabase.from('llm_budgets').delete().eq('user_id', user.id)
+            : await supabase
+                .from('llm_budgets')
+                .upsert({ user_id: user.id, daily_budget_usd: budgetUsd, updated_at: new Date().toISOString() });
+
+        if (error) throw error;
+
+        console.log(`💰 Daily model budget ${budgetUsd === null ? 'reset to default' : `set to $${budgetUsd}`}`);
+        return { success: true };
+
+    } catch (error) {
+        console.error('❌ Failed to set model budget:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+/**
+ * Spend between two UTC days (inclusive), rolled up per day, user or agent. Most expensive first,
+ * except per-day summaries which are chronological.
+ */
+export async function getUsageSummary(groupBy: UsageGrouping, from: string, to: string): Promise<UsageSummaryRow[]> {
+    const { data, error } = await supabase
+        .from('llm_usage_daily')
+        .select('day, user_id, agent, calls, failed_calls, prompt_tokens, output_tokens, cost_usd, total_latency_ms')
+        .gte('day', from)
+        .lte('day', to);
+
+    if (error) throw error;
+
+    // Reports identify users by their auth id, like the rest of the API
+    const authUserIds = new Map<number, string>();
+    const userIds = [...new Set((data || []).map(row => row.user_id).filter((id): id is number => id !== null))];
+    if (groupBy === 'user' && userIds.length > 0) {
+        const { data: users, error: usersError } = await supabase
+            .from('users')
+            .select('id, external_id')
+            .in('id', userIds);
+
+        if (usersError) throw usersError;
+        for (const user of users || []) {
+            authUserIds.set(user.id, user.external_id);
+        }
+    }
+
+    const groups = new Map<string, UsageSummaryRow & { totalLatencyMs: number }>();
+    for (const row of data || []) {
+        const key: string = groupBy === 'day'
+            ? row.day
+            : groupBy === 'agent' ? row.agent : (row.user_id !== null && authUserIds.get(row.user_id)) || 'anonymous';
+
+        const group = groups.get(key) || {
+            key, calls: 0, failedCalls: 0, promptTokens: 0, outputTokens: 0, costUsd: 0, avgLatencyMs: 0, totalLatencyMs: 0,
+        };
+        group.calls += Number(row.calls);
+        group.failedCalls += Number(row.failed_calls);
+        group.promptTokens += Number(row.prompt_tokens);
+        group.outputTokens += Number(row.output_tokens);
+        group.costUsd += Number(row.cost_usd);
+        group.totalLatencyMs += Number(row.total_latency_ms);
+        groups.set(key, group);
+    }
+
+    const rows = [...groups.values()].map(({ totalLatencyMs, ...group }) => ({
+        ...group,
+        costUsd: Math.round(group.costUsd * 1_000_000) / 1_000_000,
+        avgLatencyMs: group.calls > 0 ? Math.round(totalLatencyMs / group.calls) : 0,
+    }));
+
+    return groupBy === 'day'
+        ? rows.sort((a, b) => a.key.localeCompare(b.key))
+        : rows.sort((a, b) => b.costUsd - a.costUsd);
+}
@@ -0,0 +1,538 @@
+// backend/services/policy-extraction.ts
+// Structured extraction of declarations pages into the normalized policy tables
+
+import { z } from 'zod';
+import dotenv from 'dotenv';
+import { supabase } from '../lib/supabase';
+import { getModelClient } from '../lib/model-registry';
+import { getInternalUserId } from './account-deletion';
+import type { PolicyType } from './document-upload';
+
+dotenv.config();
+
+// Fields the policies table cannot be created without must be at least this certain
+const MIN_REQUIRED_CONFIDENCE = 0.6;
+
+// ============================================
+// Extraction Schemas
+// ============================================
+// Every leaf is { value, confidence } so downstream features can decide how much
+// to trust a limit or a VIN. A single malformed value is nulled out (confidence 0)
+// instead of rejecting the whole document.
+
+const EMPTY_FIELD = { value: null, confidence: 0 };
+
+const confidenceSchema = z.number().min(0).max(1);
+
+function extractedField<T extends z.ZodType>(valueSchema: T) {
+    return z.object({
+        value: valueSchema.nullable(),
+        confidence: confidenceSchema,
+    }).catch(EMPTY_FIELD);
+}
+
+// Money and counts often come back as "$1,000" or "1000.00"
+function toNumber(input: unknown): unknown {
+    if (typeof input !== 'string') return input;
+    const cleaned = input.replace(/[$,\s]/g, '');
+    if (cleaned === '') return null;
+    const parsed = Number(cleaned);
+    return Number.isFinite(parsed) ? parsed : input;
+}
+
+const textSchema = z.string().trim().min(1).max(500);
+const moneySchema = z.preprocess(toNumber, z.number().nonnegative());
+const integerSchema = z.preprocess(toNumber, z.number().int().nonnegative());
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+const vinSchema = z.string().trim().toUpperCase().regex(/^[A-HJ-NPR-Z0-9]{17}$/, 'Invalid VIN');
+const stateSchema = z.string().trim().toUpperCase().regex(/^[A-Z]{2}$/, 'Expected 2-letter state code');
+
+const coverageSchema = z.object({
+    coverageType: extractedField(textSchema),
+    limit: extractedField(moneySchema),
+    deductible: extractedField(moneySchema),
+});
+
+const mortgageeSchema = z.object({
+    name: extractedField(textSchema),
+    contactInfo: extractedField(textSchema),
+});
+
+const endorsementSchema = z.object({
+    name: extractedField(textSchema),
+    formNumber: extractedField(textSchema),
+});
+
+const vehicleSchema = z.object({
+    vin: extractedField(vinSchema),
+    make: extractedField(textSchema),
+    model: extractedField(textSchema),
+    year: extractedField(integerSchema),
+    usage: extractedField(textSchema),
+    coverages: z.array(coverageSchema).default([]),
+    lienholders: z.array(mortgageeSchema).default([]),
+});
+
+const driverSchema = z.object({
+    name: extractedField(textSchema),
+    licenseNumber: extractedField(textSchema),
+    dateOfBirth: extractedField(dateSchema),
+    gender: extractedField(textSchema),
+    maritalStatus: extractedField(textSchema),
+});
+
+const locationSchema = z.object({
+    addressLine: extractedField(textSchema),
+    city: extractedField(textSchema),
+    state: extractedField(stateSchema),
+    postalCode: extractedField(z.string().trim().regex(/^\d{5}(-\d{4})?$/)),
+});
+
+const dwellingSchema = z.object({
+    dwellingType: extractedField(textSchema),
+    yearBuilt: extractedField(integerSchema),
+    squareFeet: extractedField(integerSchema),
+    roofType: extractedField(textSchema),
+    constructionType: extractedField(textSchema),
+    coverages: z.array(coverageSchema).default([]),
+    mortgagees: z.array(mortgageeSchema).default([]),
+});
+
+export const extractedPolicySchema = z.object({
+    policyType: z.enum(['auto', 'home', 'renters', 'umbrella', 'life', 'health', 'other']),
+    carrier: extractedField(textSchema),
+    policyNumber: extractedField(textSchema),
+    effectiveDate: extractedField(dateSchema),
+    expirationDate: extractedField(dateSchema),
+    totalPremium: extractedField(moneySchema),
+    location: locationSchema.nullable().default(null),
+    dwelling: dwellingSchema.nullable().default(null),
+    vehicles: z.array(vehicleSchema).default([]),
+    drivers: z.array(driverSchema).default([]),
+    endorsements: z.array(endorsementSchema).default([]),
+});
+
+export const policyExtractionSchema = z.object({
+    policies: z.array(extractedPolicySchema),
+});
+
+export type ExtractedPolicy = z.infer<typeof extractedPolicySchema>;
+export type PolicyExtraction = z.infer<typeof policyExtractionSchema>;
+
+// ============================================
+// Extraction
+// ============================================
+
+const EXTRACTION_PROMPT = `You are an insurance data extraction engine. Read the declarations page text below and return ONLY a JSON object with this exact shape:
+
+{
+  "policies": [
+    {
+      "policyType": "auto" | "home" | "renters" | "umbrella" | "life" | "health" | "other",
+      "carrier": F<string>,
+      "policyNumber": F<string>,
+      "effectiveDate": F<"YYYY-MM-DD">,
+      "expirationDate": F<"YYYY-MM-DD">,
+      "totalPremium": F<number>,                     // full-term premium in dollars
+      "location": {                                  // insured/garaging address, or null
+        "addressLine": F<string>, "city": F<string>, "state": F<2-letter code>, "postalCode": F<string>
+      },
+      "dwelling": {                                  // home/renters only, otherwise null
+        "dwellingType": F<string>, "yearBuilt": F<number>, "squareFeet": F<number>,
+        "roofType": F<string>, "constructionType": F<string>,
+        "coverages": [ { "coverageType": F<string>, "limit": F<number>, "deductible": F<number> } ],
+        "mortgagees": [ { "name": F<string>, "contactInfo": F<string> } ]
+      },
+      "vehicles": [                                  // auto only
+        {
+          "vin": F<string>, "make": F<string>, "model": F<string>, "year": F<number>, "usage": F<string>,
+          "coverages": [ { "coverageType": F<string>, "limit": F<number>, "deductible": F<number> } ],
+          "lienholders": [ { "name": F<string>, "contactInfo": F<string> } ]
+        }
+      ],
+      "drivers": [
+        { "name": F<string>, "licenseNumber": F<string>, "dateOfBirth": F<"YYYY-MM-DD">, "gender": F<string>, "maritalStatus": F<string> }
+      ],
+      "endorsements": [                              // forms and endorsements listed on the declarations page
+        { "name": F<string>, "formNumber": F<string> }
+      ]
+    }
+  ]
+}
+
+F<T> means {"value": T or null, "confidence": number between 0 and 1}.
+
+RULES:
+- Emit one entry in "policies" per distinct policy in the document (bundles have several).
+- Copy values exactly as printed; never guess. If a value is not in the text, use {"value": null, "confidence": 0}.
+- Confidence reflects how clearly the value appears in the text (1 = printed unambiguously, 0.5 = inferred from context).
+- Limits and deductibles are plain numbers in dollars (e.g. 100000, not "$100,000").
+- Split limits like 100/300 are two coverages: "<coverage> per person" with the per-person amount (100000) and "<coverage> per accident" with the per-accident amount (300000), e.g. "Bodily Injury Liability per person" and "Bodily Injury Liability per accident". The third figure of an auto liability limit like 100/300/50 is "Property Damage Liability" (50000).
+- List every form and endorsement in the forms schedule, with its form number as printed (e.g. "HO 04 95 01 14").
+- Output JSON only, no commentary.
+
+DOCUMENT TEXT:
+`;
+
+/**
+ * Runs the structured extraction model over declarations page text and validates the result
+ */
+export async function extractStructuredPolicies(
+    extractedText: string
+): Promise<{ success: boolean; data?: PolicyExtraction; error?: string }> {
+    console.log('🧩 Extracting structured policy data...');
+
+    try {
+        const result = await getModelClient('policy_extraction').generate(EXTRACTION_PROMPT + extractedText, {
+            temperature: 0,
+            maxOutputTokens: 8192,
+            responseMimeType: 'application/json',
+        });
+
+        const rawText = result.text;
+        // Strip markdown fences in case the model ignores the JSON mime type
+        const jsonText = rawText.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+
+        let parsed: unknown;
+        try {
+            parsed = JSON.parse(jsonText);
+        } catch {
+            console.error('❌ Structured extraction returned invalid JSON');
+            return { success: false, error: 'Extraction returned invalid JSON' };
+        }
+
+        const validation = policyExtractionSchema.safeParse(parsed);
+        if (!validation.success) {
+            console.error('❌ Structured extraction failed validation:', validation.error.issues.slice(0, 5));
+            return { success: false, error: 'Extraction did not match the expected schema' };
+        }
+
+        console.log(`✅ Extracted ${validation.data.policies.length} structured policy record(s)`);
+        return { success: true, data: validation.data };
+
+    } catch (error) {
+        console.error('❌ Error extracting structured policy data:', error);
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+}
+
+/**
+ * Flattens every leaf confidence into a path → confidence map (e.g. "vehicles[0].vin": 0.95)
+ */
+export function collectFieldConfidence(policy: ExtractedPolicy): Record<string, number> {
+    const confidence: Record<string, number> = {};
+
+    const walk = (node: unknown, path: string) => {
+        if (Array.isArray(node)) {
+            node.forEach((item, index) => walk(item, `${path}[${index}]`));
+            return;
+        }
+        if (!node || typeof node !== 'object') return;
+
+        const record = node as Record<string, unknown>;
+        if ('confidence' in record && 'value' in record) {
+            confidence[path] = record.confidence as number;
+            return;
+        }
+        for (const [key, child] of Object.entries(record)) {
+            walk(child, path ? `${path}.${key}` : key);
+        }
+    };
+
+    walk(policy, '');
+    return confidence;
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+// Supabase returns errors instead of throwing; surface them so the caller can stop early
+function assertNoError(error: { message: string } | null, context: string): void {
+    if (error) {
+        throw new Error(`${context}: ${error.message}`);
+    }
+}
+
+/**
+ * Finds a carrier by name (case-insensitive) or creates it
+ */
+export async function findOrCreateCarrier(name: string): Promise<number> {
+    const { data: existing } = await supabase
+        .from('carrier')
+        .select('id')
+        .ilike('name', name)
+        .limit(1)
+        .maybeSingle();
+
+    if (existing) return existing.id;
+
+    const { data, error } = await supabase
+        .from('carrier')
+        .insert({ name })
+        .select('id')
+        .single();
+    assertNoError(error, 'Failed to create carrier');
+    return data!.id;
+}
+
+async function insertMortgagees(
+    mortgagees: ExtractedPolicy['vehicles'][number]['lienholders'],
+    links: { policy_id: number; dwelling_id?: number; vehicle_id?: number }
+): Promise<void> {
+    const rows = mortgagees
+        .filter(m => m.name.value)
+        .map(m => ({
+            entity_name: m.name.value,
+            contact_info: m.contactInfo.value,
+            ...links,
+        }));
+    if (rows.length === 0) return;
+
+    const { error } = await supabase.from('mortgagees').insert(rows);
+    assertNoError(error, 'Failed to insert mortgagees');
+}
+
+/**
+ * Writes one extracted policy into policies and its detail tables
+ * (location, dwelling, dwelling_coverage, vehicle, vehicle_coverage, driver, mortgagees, policy_forms).
+ * Skips the write when the fields the policies table requires are missing or low confidence.
+ */
+export async function persistStructuredPolicy(
+    authUserId: string,
+    policy: ExtractedPolicy,
+    sourceDocumentId?: number
+): Promise<{ success: boolean; policyId?: number; skipped?: boolean; error?: string }> {
+    const { policyNumber, effectiveDate, expirationDate } = policy;
+    const required = [policyNumber, effectiveDate, expirationDate];
+
+    if (required.some(field => !field.value || field.confidence < MIN_REQUIRED_CONFIDENCE)) {
+        console.log(`⏭️ Skipping structured persistence for ${policy.policyType}: policy number or term dates not found`);
+        return { success: true, skipped: true };
+    }
+
+    // Set once the policy row exists, so a failure further down can remove what was written
+    let policyId: number | null = null;
+
+    try {
+        const internalUserId = await getInternalUserId(authUserId);
+        if (!internalUserId) {
+            return { success: false, error: 'User not found' };
+        }
+
+        // Re-uploading the same term should not duplicate it
+        const { data: existing } = await supabase
+            .from('policies')
+            .select('id')
+            .eq('user_id', internalUserId)
+            .eq('policy_number', policyNumber.value)
+            .eq('start_date', effectiveDate.value)
+            .maybeSingle();
+
+        if (existing) {
+            console.log(`📋 Policy ${policyNumber.value} (${effectiveDate.value}) already on file as ${existing.id}`);
+            return { success: true, policyId: existing.id, skipped: true };
+        }
+
+        const carrierId = policy.carrier.value ? await findOrCreateCarrier(policy.carrier.value) : null;
+
+        const { data: policyRow, error: policyError } = await supabase
+            .from('policies')
+            .insert({
+                user_id: internalUserId,
+                policy_number: policyNumber.value,
+                start_date: effectiveDate.value,
+                end_date: expirationDate.value,
+                status: 'active',
+                total_premium: policy.totalPremium.value,
+                carrier_id: carrierId,
+                policy_type: policy.policyType,
+                source_document_id: sourceDocumentId || null,
+                field_confidence: collectFieldConfidence(policy),
+            })
+            .select('id')
+            .single();
+        assertNoError(policyError, 'Failed to insert policy');
+        policyId = policyRow!.id as number;
+
+        // Location (and the dwelling that hangs off it)
+        if (policy.location || policy.dwelling) {
+            const { data: locationRow, error: locationError } = await supabase
+                .from('location')
+                .insert({
+                    policy_id: policyId,
+                    address_line: policy.location?.addressLine.value ?? null,
+                    city: policy.location?.city.value ?? null,
+                    state: policy.location?.state.value ?? null,
+                    postal_code: policy.location?.postalCode.value ?? null,
+                    country: 'US',
+                })
+                .select('id')
+                .single();
+            assertNoError(locationError, 'Failed to insert location');
+
+            if (policy.dwelling) {
+                const { dwelling } = policy;
+                const { data: dwellingRow, error: dwellingError } = await supabase
+                    .from('dwelling')
+                    .insert({
+                        location_id: locationRow!.id,
+                        dwelling_type: dwelling.dwellingType.value,
+                        year_built: dwelling.yearBuilt.value,
+                        square_feet: dwelling.squareFeet.value,
+                        roof_type: dwelling.roofType.value,
+                        construction_type: dwelling.constructionType.value,
+                    })
+                    .select('id')
+                    .single();
+                assertNoError(dwellingError, 'Failed to insert dwelling');
+
+                const coverageRows = dwelling.coverages
+                    .filter(c => c.coverageType.value)
+                    .map(c => ({
+                        dwelling_id: dwellingRow!.id,
+                        coverage_type: c.coverageType.value,
+                        coverage_amount: c.limit.value,
+                        deductible: c.deductible.value,
+                    }));
+                if (coverageRows.length > 0) {
+                    const { error } = await supabase.from('dwelling_coverage').insert(coverageRows);
+                    assertNoError(error, 'Failed to insert dwelling coverage');
+                }
+
+                await insertMortgagees(dwelling.mortgagees, { policy_id: policyId, dwelling_id: dwellingRow!.id });
+            }
+        }
+
+        // Vehicles with their coverages and lienholders
+        for (const vehicle of policy.vehicles) {
+            const { data: vehicleRow, error: vehicleError } = await supabase
+                .from('vehicle')
+                .insert({
+                    policy_id: policyId,
+                    vin: vehicle.vin.value,
+                    make: vehicle.make.value,
+                    model: vehicle.model.value,
+                    year: vehicle.year.value,
+                    usage: vehicle.usage.value,
+                })
+                .select('id')
+                .single();
+            assertNoError(vehicleError, 'Failed to insert vehicle');
+
+            const coverageRows = vehicle.coverages
+                .filter(c => c.coverageType.value)
+                .map(c => ({
+                    vehicle_id: vehicleRow!.id,
+                    coverage_type: c.coverageType.value,
+                    coverage_limit: c.limit.value,
+                    deductible: c.deductible.value,
+                }));
+            if (coverageRows.length > 0) {
+                const { error } = await supabase.from('vehicle_coverage').insert(coverageRows);
+                assertNoError(error, 'Failed to insert vehicle coverage');
+            }
+
+            await insertMortgagees(vehicle.lienholders, { policy_id: policyId, vehicle_id: vehicleRow!.id });
+        }
+
+        // Drivers
+        const driverRows = policy.drivers
+            .filter(d => d.name.value)
+            .map(d => ({
+                policy_id: policyId,
+                name: d.name.value,
+                license_number: d.licenseNumber.value,
+                date_of_birth: d.dateOfBirth.value,
+                gender: d.gender.value,
+                marital_status: d.maritalStatus.value,
+            }));
+        if (driverRows.length > 0) {
+            const { error } = await supabase.from('driver').insert(driverRows);
+            assertNoError(error, 'Failed to insert drivers');
+        }
+
+        // Forms and endorsements, which Renewal Guard compares between terms
+        const formRows = policy.endorsements
+            .filter(e => e.name.value || e.formNumber.value)
+            .map(e => ({
+                policy_id: policyId,
+                form_name: e.name.value,
+                form_number: e.formNumber.value,
+            }));
+        if (formRows.length > 0) {
+            const { error } = await supabase.from('policy_forms').insert(formRows);
+            assertNoError(error, 'Failed to insert policy forms');
+        }
+
+        console.log(`✅ Structured ${policy.policyType} policy ${policyNumber.value} saved (ID: ${policyId})`);
+        return { success: true, policyId };
+
+    } catch (error) {
+        console.error('❌ Structured policy persistence error:', error);
+
+        // A partial policy would be found by the duplicate check above and block every re-upload
+        if (policyId !== null) {
+            await removePartialPolicy(policyId);
+        }
+
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Unknown error'
+        };
+    }
+}
+
+/**
+ * Deletes a policy persistStructuredPolicy only partly wrote, children first. Nothing else
+ * references the row yet, so only the tables written above need clearing.
+ */
+async function removePartialPolicy(policyId: number): Promise<void> {
+    try {
+        const [{ data: locations }, { data: vehicles }] = await Promise.all([
+            supabase.from('location').select('id').eq('policy_id', policyId),
+            supabase.from('vehicle').select('id').eq('policy_id', policyId),
+        ]);
+        const locationIds = (locations || []).map(l => l.id);
+        const vehicleIds = (vehicles || []).map(v => v.id);
+
+        await supabase.from('mortgagees').delete().eq('policy_id', policyId);
+        await supabase.from('policy_forms').delete().eq('policy_id', policyId);
+
+        if (locationIds.length > 0) {
+            const { data: dwellings } = await supabase.from('dwelling').select('id').in('location_id', locationIds);
+            const dwellingIds = (dwellings || []).map(d => d.id);
+            if (dwellingIds.length > 0) {
+                await supabase.from('dwelling_coverage').delete().in('dwelling_id', dwellingIds);
+                await supabase.from('dwelling').delete().in('id', dwellingIds);
+            }
+        }
+        if (vehicleIds.length > 0) {
+            await supabase.from('vehicle_coverage').delete().in('vehicle_id', vehicleIds);
+        }
+
+        await supabase.from('location').delete().eq('policy_id', policyId);
+        await supabase.from('vehicle').delete().eq('policy_id', policyId);
+        await supabase.from('driver').delete().eq('policy_id', policyId);
+
+        const { error } = await supabase.from('policies').delete().eq('id', policyId);
+        assertNoError(error, 'Failed to delete policy');
+
+        console.log(`🧹 Removed partially saved policy ${policyId}`);
+    } catch (cleanupError) {
+        console.error(`❌ Could not remove partially saved policy ${policyId}:`, cleanupError);
+    }
+}
+
+/**
+ * Picks the extracted record for a given policy type (bundled documents contain several)
+ */
+export function findExtractedPolicy(
+    extraction: PolicyExtraction | undefined,
+    policyType: PolicyType
+): ExtractedPolicy | undefined {
+    return extraction?.policies.find(p => p.policyType === policyType);
+}
@@ -0,0 +1,348 @@
+// backend/services/policy-store.ts
+// Per-user storage for analyzed policies and short-lived pending state (multi-instance safe)
+
+import { supabase } from '../lib/supabase';
+
+// Policy types we support
+export type PolicyType = 'auto' | 'home' | 'renters' | 'umbrella' | 'life' | 'health' | 'other';
+
+// Structure for stored policy data
+export interface StoredPolicy {
+    policyType: PolicyType;
+    carrier: string;
+    analysis: string;
+    rawData: any;
+    timestamp: number;
+}
+
+// Analysis waiting to be shown to the user who uploaded it (one-time delivery)
+export interface PendingPolicyAnalysis {
+    analysis: string;
+    rawData: any;
+    timestamp: number;
+}
+
+// Question the user asked before we had the policy needed to answer it
+export interface PendingQuestion {
+    question: string;
+    timestamp: number;
+}
+
+export const PENDING_ANALYSIS_TTL_MS = 10 * 60 * 1000; // 10 minutes
+export const PENDING_QUESTION_TTL_MS = 30 * 60 * 1000; // 30 minutes
+
+/**
+ * Storage abstraction for per-user policy state.
+ * Every method is keyed by the authenticated user ID - there is no global or "latest" lookup.
+ */
+export interface PolicyStore {
+    /** Most recent policy per type, newest first */
+    listPolicies(userId: string): Promise<StoredPolicy[]>;
+    getPolicy(userId: string, policyType: PolicyType): Promise<StoredPolicy | null>;
+    savePolicy(userId: string, policy: StoredPolicy): Promise<void>;
+    deletePolicy(userId: string, policyType: PolicyType): Promise<boolean>;
+    renamePolicy(userId: string, policyType: PolicyType, carrier: string): Promise<boolean>;
+
+    setPendingAnalysis(userId: string, pending: PendingPolicyAnalysis, ttlMs?: number): Promise<void>;
+    /** Returns and clears the pending analysis */
+    takePendingAnalysis(userId: string): Promise<PendingPolicyAnalysis | null>;
+
+    setPendingQuestion(userId: string, question: string, ttlMs?: number): Promise<void>;
+    getPendingQuestion(userId: string): Promise<PendingQuestion | null>;
+    clearPendingQuestion(userId: string): Promise<void>;
+}
+
+// Keep only the newest policy per type
+function latestPerType(policies: StoredPolicy[]): StoredPolicy[] {
+    const byType = new Map<PolicyType, StoredPolicy>();
+    for (const policy of policies) {
+        const current = byType.get(policy.policyType);
+        if (!current || policy.timestamp > current.timestamp) {
+            byType.set(policy.policyType, policy);
+        }
+    }
+    return Array.from(byType.values()).sort((a, b) => b.timestamp - a.timestamp);
+}
+
+// ============================================
+// In-Memory Implementation (tests, local development)
+// ============================================
+
+interface Expiring<T> {
+    value: T;
+    expiresAt: number;
+}
+
+export class InMemoryPolicyStore implements PolicyStore {
+    private policies = new Map<string, Map<PolicyType, StoredPolicy>>();
+    private pendingAnalyses = new Map<string, Expiring<PendingPolicyAnalysis>>();
+    private pendingQuestions = new Map<string, Expiring<PendingQuestion>>();
+
+    async listPolicies(userId: string): Promise<StoredPolicy[]> {
+        const policies = this.policies.get(userId);
+        return policies ? latestPerType(Array.from(policies.values())) : [];
+    }
+
+    async getPolicy(userId: string, policyType: PolicyType): Promise<StoredPolicy | null> {
+        return this.policies.get(userId)?.get(policyType) || null;
+    }
+
+    async savePolicy(userId: string, policy: StoredPolicy): Promise<void> {
+        if (!this.policies.has(userId)) {
+            this.policies.set(userId, new Map());
+        }
+        this.policies.get(userId)!.set(policy.policyType, policy);
+    }
+
+    async deletePolicy(userId: string, policyType: PolicyType): Promise<boolean> {
+        return this.policies.get(userId)?.delete(policyType) || false;
+    }
+
+    async renamePolicy(userId: string, policyType: PolicyType, carrier: string): Promise<boolean> {
+        const policy = this.policies.get(userId)?.get(policyType);
+        if (!policy) return false;
+        policy.carrier = carrier;
+        if (policy.rawData) {
+            policy.rawData.carrier = carrier;
+        }
+        return true;
+    }
+
+    async setPendingAnalysis(userId: string, pending: PendingPolicyAnalysis, ttlMs = PENDING_ANALYSIS_TTL_MS): Promise<void> {
+        this.pendingAnalyses.set(userId, { value: pending, expiresAt: Date.now() + ttlMs });
+    }
+
+    async takePendingAnalysis(userId: string): Promise<PendingPolicyAnalysis | null> {
+        const entry = this.pendingAnalyses.get(userId);
+        this.pendingAnalyses.delete(userId);
+        return entry && entry.expiresAt > Date.now() ? entry.value : null;
+    }
+
+    async setPendingQuestion(userId: string, question: string, ttlMs = PENDING_QUESTION_TTL_MS): Promise<void> {
+        this.pendingQuestions.set(userId, {
+            value: { question, timestamp: Date.now() },
+            expiresAt: Date.now() + ttlMs
+        });
+    }
+
+    async getPendingQuestion(userId: string): Promise<PendingQuestion | null> {
+        const entry = this.pendingQuestions.get(userId);
+        if (!entry) return null;
+        if (entry.expiresAt <= Date.now()) {
+            this.pendingQuestions.delete(userId);
+            return null;
+        }
+        return entry.value;
+    }
+
+    async clearPendingQuestion(userId: string): Promise<void> {
+        this.pendingQuestions.delete(userId);
+    }
+}
+
+// ============================================
+// Supabase Implementation (production)
+// ============================================
+// Policies are the active policy rows in user_documents (written by the upload pipeline).
+// Pending state lives in user_pending_state with an expires_at column.
+
+type PendingKind = 'policy_analysis' | 'question';
+
+function documentToStoredPolicy(doc: any): StoredPolicy {
+    return {
+        policyType: doc.policy_type as PolicyType,
+        carrier: doc.carrier_name || 'Unknown',
+        analysis: doc.analysis_summary || '',
+        rawData: {
+            fileName: doc.file_name,
+            gcsPath: doc.gcs_path,
+            gcsUri: doc.gcs_uri,
+            uploadedAt: doc.uploaded_at,
+            documentType: doc.file_type?.startsWith('image/') ? 'image' : 'pdf',
+            userId: doc.user_id,
+            policyType: doc.policy_type,
+            carrier: doc.carrier_name,
+            documentId: doc.id,
+            ...doc.extracted_data
+        },
+        timestamp: new Date(doc.uploaded_at).getTime()
+    };
+}
+
+export class SupabasePolicyStore implements PolicyStore {
+    async listPolicies(userId: string): Promise<StoredPolicy[]> {
+        const { data, error } = await supabase
+            .from('user_documents')
+            .select('*')
+            .eq('user_id', userId)
+            .eq('document_type', 'policy')
+            .eq('status', 'active')
+            .not('policy_type', 'is', null)
+            .order('uploaded_at', { ascending: false });
+
+        if (error) {
+            console.error('❌ Policy store fetch error:', error);
+            throw new Error(`Failed to load policies: ${error.message}`);
+        }
+
+        return latestPerType((data || []).map(documentToStoredPolicy));
+    }
+
+    async getPolicy(userId: string, policyType: PolicyType): Promise<StoredPolicy | null> {
+        const policies = await this.listPolicies(userId);
+        return policies.find(p => p.policyType === policyType) || null;
+    }
+
+    async savePolicy(userId: string, policy: StoredPolicy): Promise<void> {
+        // The upload pipeline already wrote the user_documents row
+        if (policy.rawData?.documentId) return;
+
+        const bucket = process.env.GCS_BUCKET_NAME;
+        if (!bucket || !policy.rawData?.gcsPath) {
+            throw new Error('Cannot persist policy without a stored document');
+        }
+
+        const { data, error } = await supabase
+            .from('user_documents')
+            .insert({
+                user_id: userId,
+                document_type: 'policy',
+                policy_type: policy.policyType,
+                file_name: policy.rawData.fileName || 'Unknown',
+                gcs_bucket: bucket,
+                gcs_path: policy.rawData.gcsPath,
+                carrier_name: policy.carrier,
+                analysis_summary: policy.analysis,
+                status: 'active',
+                analyzed_at: new Date().toISOString(),
+            })
+            .select('id')
+            .single();
+
+        if (error) {
+            throw new Error(`Failed to save policy: ${error.message}`);
+        }
+        policy.rawData.documentId = data.id;
+    }
+
+    async deletePolicy(userId: string, policyType: PolicyType): Promise<boolean> {
+        const { data, error } = await supabase
+            .from('user_documents')
+            .update({ status: 'deleted', updated_at: new Date().toISOString() })
+            .eq('user_id', userId)
+            .eq('document_type', 'policy')
+            .eq('policy_type', policyType)
+            .eq('status', 'active')
+            .select('id');
+
+        if (error) {
+            throw new Error(`Failed to delete policy: ${error.message}`);
+        }
+        return (data?.length || 0) > 0;
+    }
+
+    async renamePolicy(userId: string, policyType: PolicyType, carrier: string): Promise<boolean> {
+        const policy = await this.getPolicy(userId, policyType);
+        if (!policy?.rawData?.documentId) return false;
+
+        const { error } = await supabase
+            .from('user_documents')
+            .update({ carrier_name: carrier, updated_at: new Date().toISOString() })
+            .eq('id', policy.rawData.documentId)
+            .eq('user_id', userId);
+
+        if (error) {
+            throw new Error(`Failed to rename policy: ${error.message}`);
+        }
+        return true;
+    }
+
+    private async setPending(userId: string, kind: PendingKind, payload: unknown, ttlMs: number): Promise<void> {
+        const { error } = await supabase
+            .from('user_pending_state')
+            .upsert({
+                user_id: userId,
+                kind,
+                payload,
+                created_at: new Date().toISOString(),
+                expires_at: new Date(Date.now() + ttlMs).toISOString(),
+            }, { onConflict: 'user_id,kind' });
+
+        if (error) {
+            throw new Error(`Failed to store pending ${kind}: ${error.message}`);
+        }
+    }
+
+    async setPendingAnalysis(userId: string, pending: PendingPolicyAnalysis, ttlMs = PENDING_ANALYSIS_TTL_MS): Promise<void> {
+        await this.setPending(userId, 'policy_analysis', pending, ttlMs);
+    }
+
+    async takePendingAnalysis(userId: string): Promise<PendingPolicyAnalysis | null> {
+        // Delete-and-return so only one instance can deliver it
+        const { data, error } = await supabase
+            .from('user_pending_state')
+            .delete()
+            .eq('user_id', userId)
+            .eq('kind', 'policy_analysis')
+            .select('payload, expires_at');
+
+        if (error) {
+            throw new Error(`Failed to read pending analysis: ${error.message}`);
+        }
+
+        const row = data?.[0];
+        if (!row || new Date(row.expires_at).getTime() <= Date.now()) return null;
+        return row.payload as PendingPolicyAnalysis;
+    }
+
+    async setPendingQuestion(userId: string, question: string, ttlMs = PENDING_QUESTION_TTL_MS): Promise<void> {
+        await this.setPending(userId, 'question', { question, timestamp: Date.now() }, ttlMs);
+    }
+
+    async getPendingQuestion(userId: string): Promise<PendingQuestion | null> {
+        const { data, error } = await supabase
+            .from('user_pending_state')
+            .select('payload')
+            .eq('user_id', userId)
+            .eq('kind', 'question')
+            .gt('expires_at', new Date().toISOString())
+            .maybeSingle();
+
+        if (error) {
+            throw new Error(`Failed to read pending question: ${error.message}`);
+        }
+        return (data?.payload as PendingQuestion) || null;
+    }
+
+    async clearPendingQuestion(userId: string): Promise<void> {
+        const { error } = await supabase
+            .from('user_pending_state')
+            .delete()
+            .eq('user_id', userId)
+            .eq('kind', 'question');
+
+        if (error) {
+            throw new Error(`Failed to clear pending question: ${error.message}`);
+        }
+    }
+}
+
+// ============================================
+// Active Store
+// ============================================
+
+// POLICY_STORE=memory keeps everything in process (single instance only)
+let activeStore: PolicyStore = process.env.POLICY_STORE === 'memory'
+    ? new InMemoryPolicyStore()
+    : new SupabasePolicyStore();
+
+export function getPolicyStore(): PolicyStore {
+    return activeStore;
+}
+
+/**
+ * Swap the backing store (used by tests and local harnesses)
+ */
+export function setPolicyStore(store: PolicyStore): void {
+    activeStore = store;
+}
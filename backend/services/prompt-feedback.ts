@@ -0,0 +1,86 @@
+// backend/services/prompt-feedback.ts
+// Thumbs-up rates per prompt version and per experiment variant, from chat_feedback votes
+
+import { supabase } from '../lib/supabase';
+import { PROMPT_EXPERIMENTS, PROMPTS, PromptId } from '../lib/prompts';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PromptFeedbackRow {
+    version: string;
+    messages: number;
+    thumbsUp: number;
+    thumbsDown: number;
+    /** Share of votes that were thumbs up; null until the version has a vote */
+    thumbsUpRate: number | null;
+}
+
+export interface PromptVersionFeedback extends PromptFeedbackRow {
+    promptId: string;
+    /** Version served outside experiments today */
+    isDefault: boolean;
+}
+
+export interface ExperimentVariantFeedback extends PromptFeedbackRow {
+    experimentId: string;
+    /** Prompt the experiment varies; null for experiments no longer defined */
+    promptId: PromptId | null;
+}
+
+// ============================================
+// Reporting
+// ============================================
+
+function toFeedbackRow(row: { version: string; messages: number; thumbs_up: number; thumbs_down: number }): PromptFeedbackRow {
+    const thumbsUp = Number(row.thumbs_up);
+    const thumbsDown = Number(row.thumbs_down);
+    const votes = thumbsUp + thumbsDown;
+
+    return {
+        version: row.version,
+        messages: Number(row.messages),
+        thumbsUp,
+        thumbsDown,
+        thumbsUpRate: votes > 0 ? Math.round((thumbsUp / votes) * 1000) / 1000 : null,
+    };
+}
+
+/**
+ * Feedback for every prompt version and experiment variant that has produced a stored answer,
+ * grouped by prompt and experiment with versions in order
+ */
+export async function getPromptFeedback(): Promise<{
+    prompts: PromptVersionFeedback[];
+    experiments: ExperimentVariantFeedback[];
+}> {
+    const [versions, variants] = await Promise.all([
+        supabase
+            .from('prompt_version_feedback')
+            .select('prompt_id, version, messages, thumbs_up, thumbs_down'),
+        supabase
+            .from('prompt_experiment_feedback')
+            .select('experiment_id, version, messages, thumbs_up, thumbs_down'),
+    ]);
+
+    if (versions.error) throw versions.error;
+    if (variants.error) throw variants.error;
+
+    const prompts = (versions.data || []).map(row => ({
+        promptId: row.prompt_id,
+        ...toFeedbackRow(row),
+        isDefault: PROMPTS[row.prompt_id as PromptId]?.defaultVersion === row.version,
+    }));
+
+    const experiments = (variants.data || []).map(row => ({
+        experimentId: row.experiment_id,
+        promptId: PROMPT_EXPERIMENTS.find(experiment => experiment.id === row.experiment_id)?.promptId || null,
+        ...toFeedbackRow(row),
+    }));
+
+    return {
+        prompts: prompts.sort((a, b) => a.promptId.localeCompare(b.promptId) || a.version.localeCompare(b.version)),
+        experiments: experiments.sort((a, b) => a.experimentId.localeCompare(b.experimentId) || a.version.localeCompare(b.version)),
+    };
+}
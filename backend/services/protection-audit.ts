@@ -0,0 +1,765 @@
+// backend/services/protection-audit.ts
+// Deterministic Protection Audit: rules over a user's stored policies and profile facts
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getInternalUserId } from './account-deletion';
+import { getPolicyStore } from './policy-store';
+import { getStateRegulation } from './state-regulations';
+import { listConfirmedProfileFacts, toAuditFacts } from './user-memory';
+
+// ============================================
+// Types
+// ============================================
+
+export type AuditSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info';
+
+export type AuditCategory = 'liability' | 'umbrella' | 'auto' | 'property' | 'data';
+
+/**
+ * One finding in Protection Audit format (Current Risk vs. Recommended vs. Real Impact)
+ */
+export interface AuditFinding {
+    ruleId: string;
+    severity: AuditSeverity;
+    category: AuditCategory;
+    title: string;
+    currentRisk: string;
+    recommended: string;
+    realImpact: string;
+    currentLimit?: number | null;
+    recommendedLimit?: number | null;
+    policyId?: number;
+}
+
+/**
+ * Facts about the household that drive the liability matrix and umbrella triggers.
+ * Anything not supplied is derived from stored policy data where possible.
+ */
+export interface ProfileFacts {
+    state?: string;
+    netWorth?: number;
+    teenDrivers?: number;
+    hasPool?: boolean;
+    hasTrampoline?: boolean;
+    hasDog?: boolean;
+    ownsHome?: boolean;
+    rentalProperties?: number;
+}
+
+// Split limits (100/300) are stored as two coverages: the per-person figure keeps the plain key
+export type CoverageKey =
+    | 'bodily_injury'
+    | 'bodily_injury_per_accident'
+    | 'combined_single_limit'
+    | 'property_damage'
+    | 'uninsured_motorist'
+    | 'uninsured_motorist_per_accident'
+    | 'medical_payments'
+    | 'collision'
+    | 'comprehensive'
+    | 'dwelling'
+    | 'personal_liability'
+    | 'water_backup'
+    | 'ordinance_or_law'
+    | 'replacement_cost'
+    | 'actual_cash_value';
+
+export interface AuditCoverage {
+    key: CoverageKey | null;
+    label: string;
+    limit: number | null;
+    deductible: number | null;
+}
+
+/**
+ * Policy as seen by the rules - normalized from the structured policy tables
+ * or, when no declarations data was extracted, from the uploaded document alone
+ */
+export interface AuditPolicy {
+    policyId?: number;
+    policyType: string;
+    carrier: string | null;
+    policyNumber: string | null;
+    state: string | null;
+    coverages: AuditCoverage[];
+    drivers: Array<{ name: string | null; dateOfBirth: string | null }>;
+    structured: boolean;
+}
+
+export interface ProtectionAuditReport {
+    generatedAt: string;
+    facts: ProfileFacts;
+    policies: Array<Pick<AuditPolicy, 'policyId' | 'policyType' | 'carrier' | 'policyNumber' | 'structured'>>;
+    findings: AuditFinding[];
+    counts: Record<AuditSeverity, number>;
+}
+
+// ============================================
+// Coverage Normalization
+// ============================================
+
+// Order matters: the first matching pattern wins
+const COVERAGE_PATTERNS: Array<[CoverageKey, RegExp]> = [
+    ['uninsured_motorist_per_accident', /(uninsured|underinsured|\bum\b|\buim\b).*\b(per|each) (accident|occurrence)\b/i],
+    ['uninsured_motorist', /uninsured|underinsured|\bum\b|\buim\b/i],
+    ['combined_single_limit', /combined single|\bcsl\b/i],
+    ['bodily_injury_per_accident', /(bodily injury|\bbi\b).*\b(per|each) (accident|occurrence)\b/i],
+    ['bodily_injury', /bodily injury|\bbi\b/i],
+    ['property_damage', /property damage|\bpd\b/i],
+    ['medical_payments', /med(ical)?\s*pay|medical payments|personal injury protection|\bpip\b|coverage f\b/i],
+    ['collision', /collision/i],
+    ['comprehensive', /comprehensive|other than collision/i],
+    ['water_backup', /water back|sewer|sump/i],
+    ['ordinance_or_law', /ordinance|building code/i],
+    ['actual_cash_value', /actual cash value|\bacv\b/i],
+    ['replacement_cost', /replacement cost|\brcv\b/i],
+    ['personal_liability', /personal liability|coverage e\b|liability/i],
+    ['dwelling', /dwelling|coverage a\b/i],
+];
+
+/**
+ * Maps a free-text coverage name from a declarations page to a canonical key
+ */
+export function normalizeCoverageType(coverageType: string | null | undefined): CoverageKey | null {
+    if (!coverageType) return null;
+    const match = COVERAGE_PATTERNS.find(([, pattern]) => pattern.test(coverageType));
+    return match ? match[0] : null;
+}
+
+function toCoverage(label: string | null, limit: unknown, deductible: unknown): AuditCoverage {
+    return {
+        key: normalizeCoverageType(label),
+        label: label || 'Unknown',
+        limit: limit == null ? null : Number(limit),
+        deductible: deductible == null ? null : Number(deductible),
+    };
+}
+
+// ============================================
+// Liability Matrix
+// ============================================
+
+export interface RecommendedLimits {
+    autoBodilyInjury: number;
+    homeLiability: number;
+    umbrella: number;
+}
+
+/**
+ * Liability matrix by net worth, e.g. $500k CSL + $2-3M umbrella for $500k-$2M.
+ * Teen drivers raise the auto floor regardless of net worth.
+ */
+export function recommendedLimitsFor(facts: ProfileFacts): RecommendedLimits {
+    const netWorth = facts.netWorth ?? 0;
+    let limits: RecommendedLimits;
+
+    if (netWorth < 250_000) {
+        limits = { autoBodilyInjury: 100_000, homeLiability: 300_000, umbrella: 0 };
+    } else if (netWorth < 500_000) {
+        limits = { autoBodilyInjury: 250_000, homeLiability: 300_000, umbrella: 1_000_000 };
+    } else if (netWorth <= 2_000_000) {
+        limits = { autoBodilyInjury: 500_000, homeLiability: 500_000, umbrella: 2_000_000 };
+    } else {
+        // Umbrella sized to cover net worth, rounded up to the next million
+        limits = { autoBodilyInjury: 500_000, homeLiability: 500_000, umbrella: Math.ceil(netWorth / 1_000_000) * 1_000_000 };
+    }
+
+    if ((facts.teenDrivers ?? 0) > 0) {
+        limits.autoBodilyInjury = Math.max(limits.autoBodilyInjury, 250_000);
+    }
+
+    return limits;
+}
+
+// Umbrella carriers typically require these underlying limits
+const UMBRELLA_UNDERLYING_AUTO = 250_000;
+const UMBRELLA_UNDERLYING_HOME = 300_000;
+
+// ============================================
+// Rules
+// ============================================
+
+interface AuditContext {
+    policies: AuditPolicy[];
+    facts: ProfileFacts;
+    limits: RecommendedLimits;
+}
+
+type AuditRule = (ctx: AuditContext) => AuditFinding[];
+
+function formatMoney(amount: number): string {
+    if (amount >= 1_000_000) return `$${(amount / 1_000_000).toLocaleString('en-US')}M`;
+    if (amount >= 1_000) return `$${Math.round(amount / 1_000).toLocaleString('en-US')}k`;
+    return `$${amount.toLocaleString('en-US')}`;
+}
+
+function joinList(items: string[]): string {
+    return items.length <= 1 ? items.join('') : `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`;
+}
+
+function policiesOfType(ctx: AuditContext, ...types: string[]): AuditPolicy[] {
+    return ctx.policies.filter(p => types.includes(p.policyType));
+}
+
+function hasCoverage(policy: AuditPolicy, key: CoverageKey): boolean {
+    return policy.coverages.some(c => c.key === key);
+}
+
+// Lowest limit across vehicles/dwellings - the weakest link is what a claim hits
+function lowestLimit(policy: AuditPolicy, ...keys: CoverageKey[]): number | null {
+    const limits = policy.coverages
+        .filter(c => c.key && keys.includes(c.key) && c.limit != null && c.limit > 0)
+        .map(c => c.limit as number);
+    return limits.length > 0 ? Math.min(...limits) : null;
+}
+
+function umbrellaTriggers(facts: ProfileFacts): string[] {
+    const triggers: string[] = [];
+    if ((facts.teenDrivers ?? 0) > 0) triggers.push('teen drivers');
+    if (facts.hasPool) triggers.push('a pool');
+    if (facts.hasTrampoline) triggers.push('a trampoline');
+    if (facts.hasDog) triggers.push('a dog');
+    if ((facts.rentalProperties ?? 0) > 0) triggers.push('rental properties');
+    return triggers;
+}
+
+// Both halves of a split limit are checked; a combined single limit counts for each
+const stateMinimumRule: AuditRule = (ctx) => {
+    const reg = getStateRegulation(ctx.facts.state);
+    const required = reg?.auto.liability.bodilyInjuryPerPerson;
+    const requiredPerAccident = reg?.auto.liability.bodilyInjuryPerAccident ?? null;
+    if (!reg || !required) return [];
+
+    const findings: AuditFinding[] = [];
+    for (const policy of policiesOfType(ctx, 'auto')) {
+        const perPerson = lowestLimit(policy, 'bodily_injury', 'combined_single_limit');
+        const perAccident = lowestLimit(policy, 'bodily_injury_per_accident', 'combined_single_limit');
+        const shortPerPerson = perPerson != null && perPerson < required;
+        const shortPerAccident = requiredPerAccident != null && perAccident != null && perAccident < requiredPerAccident;
+        if (!shortPerPerson && !shortPerAccident) continue;
+
+        const currentRisk = [
+            shortPerPerson ? `${formatMoney(perPerson)} per person` : null,
+            shortPerAccident ? `${formatMoney(perAccident)} per accident` : null,
+        ].filter(Boolean).join(' and ');
+        const minimum = requiredPerAccident != null
+            ? `${formatMoney(required)} per person and ${formatMoney(requiredPerAccident)} per accident`
+            : `${formatMoney(required)} per person`;
+
+        findings.push({
+            ruleId: 'below_state_minimum',
+            severity: 'critical',
+            category: 'auto',
+            title: `Auto liability is below the ${reg.name} legal minimum`,
+            currentRisk: `Bodily injury liability of ${currentRisk}`,
+            recommended: `At least the state minimum of ${minimum} - ideally the recommended limit`,
+            realImpact: 'Driving below the state minimum can mean fines, license suspension and personal liability for every dollar of a claim.',
+            currentLimit: shortPerPerson ? perPerson : perAccident,
+            recommendedLimit: shortPerPerson ? required : requiredPerAccident,
+            policyId: policy.policyId,
+        });
+    }
+    return findings;
+};
+
+const autoLiabilityRule: AuditRule = (ctx) => {
+    const findings: AuditFinding[] = [];
+    for (const policy of policiesOfType(ctx, 'auto')) {
+        const current = lowestLimit(policy, 'bodily_injury', 'combined_single_limit');
+        if (current == null || current >= ctx.limits.autoBodilyInjury) continue;
+
+        findings.push({
+            ruleId: 'auto_liability_below_matrix',
+            severity: current < 100_000 ? 'critical' : 'high',
+            category: 'liability',
+            title: 'Auto liability is below the recommended limit',
+            currentRisk: `Bodily injury liability of ${formatMoney(current)} per person`,
+            recommended: `At least ${formatMoney(ctx.limits.autoBodilyInjury)} per person (or CSL)`,
+            realImpact: 'A serious at-fault accident can exceed your limit, leaving savings and future wages exposed to a judgment.',
+            currentLimit: current,
+            recommendedLimit: ctx.limits.autoBodilyInjury,
+            policyId: policy.policyId,
+        });
+    }
+    return findings;
+};
+
+const homeLiabilityRule: AuditRule = (ctx) => {
+    const findings: AuditFinding[] = [];
+    for (const policy of policiesOfType(ctx, 'home', 'renters')) {
+        const current = lowestLimit(policy, 'personal_liability');
+        if (current == null || current >= ctx.limits.homeLiability) continue;
+
+        findings.push({
+            ruleId: 'home_liability_below_matrix',
+            severity: 'high',
+            category: 'liability',
+            title: 'Personal liability on your home policy is below the recommended limit',
+            currentRisk: `Personal liability of ${formatMoney(current)}`,
+            recommended: `At least ${formatMoney(ctx.limits.homeLiability)}`,
+            realImpact: 'Injuries on your property or caused by your household are paid from this limit first; anything above it is on you.',
+            currentLimit: current,
+            recommendedLimit: ctx.limits.homeLiability,
+            policyId: policy.policyId,
+        });
+    }
+    return findings;
+};
+
+const umbrellaRecommendedRule: AuditRule = (ctx) => {
+    if (policiesOfType(ctx, 'umbrella').length > 0) return [];
+
+    const triggers = umbrellaTriggers(ctx.facts);
+    if (ctx.limits.umbrella === 0 && triggers.length === 0) return [];
+
+    const recommendedLimit = Math.max(ctx.limits.umbrella, 1_000_000);
+    const highExposure = (ctx.facts.netWorth ?? 0) >= 500_000 || (ctx.facts.teenDrivers ?? 0) > 0;
+
+    return [{
+        ruleId: 'umbrella_recommended',
+        severity: highExposure ? 'high' : 'medium',
+        category: 'umbrella',
+        title: 'No umbrella policy on file',
+        currentRisk: triggers.length > 0
+            ? `No umbrella coverage with ${joinList(triggers)} in the household`
+            : 'No umbrella coverage above your auto and home liability',
+        recommended: `A ${formatMoney(recommendedLimit)} umbrella policy`,
+        realImpact: 'Large liability claims that exhaust your auto or home limits would be paid from your own assets.',
+        currentLimit: null,
+        recommendedLimit,
+    }];
+};
+
+const umbrellaUnderlyingRule: AuditRule = (ctx) => {
+    if (policiesOfType(ctx, 'umbrella').length === 0) return [];
+
+    const findings: AuditFinding[] = [];
+    const checks: Array<[string[], CoverageKey[], number, string]> = [
+        [['auto'], ['bodily_injury', 'combined_single_limit'], UMBRELLA_UNDERLYING_AUTO, 'auto bodily injury'],
+        [['home'], ['personal_liability'], UMBRELLA_UNDERLYING_HOME, 'home personal liability'],
+    ];
+
+    for (const [types, keys, required, label] of checks) {
+        for (const policy of policiesOfType(ctx, ...types)) {
+            const current = lowestLimit(policy, ...keys);
+            if (current == null || current >= required) continue;
+
+            findings.push({
+                ruleId: 'umbrella_underlying_gap',
+                severity: 'high',
+                category: 'umbrella',
+                title: 'Underlying limits are below what the umbrella requires',
+                currentRisk: `${label} of ${formatMoney(current)}`,
+                recommended: `Raise ${label} to at least ${formatMoney(required)}`,
+                realImpact: `The umbrella only starts paying above ${formatMoney(required)}; the gap between your limit and that point is yours to pay.`,
+                currentLimit: current,
+                recommendedLimit: required,
+                policyId: policy.policyId,
+            });
+        }
+    }
+    return findings;
+};
+
+const uninsuredMotoristRule: AuditRule = (ctx) => {
+    const stateRequiresUm = getStateRegulation(ctx.facts.state)?.auto.umUim === 'required';
+
+    return policiesOfType(ctx, 'auto')
+        .filter(p => p.structured && !hasCoverage(p, 'uninsured_motorist') && !hasCoverage(p, 'uninsured_motorist_per_accident'))
+        .map(policy => ({
+            ruleId: 'missing_um_uim',
+            severity: stateRequiresUm ? 'critical' as const : 'high' as const,
+            category: 'auto' as const,
+            title: 'No uninsured/underinsured motorist coverage',
+            currentRisk: stateRequiresUm
+                ? `UM/UIM is required in ${ctx.facts.state} but was not found on the declarations page`
+                : 'Uninsured/underinsured motorist coverage not found on the declarations page',
+            recommended: 'UM/UIM matching your bodily injury limit',
+            realImpact: 'If a driver with little or no insurance injures your family, medical bills and lost wages may go unpaid.',
+            currentLimit: null,
+            recommendedLimit: lowestLimit(policy, 'bodily_injury', 'combined_single_limit'),
+            policyId: policy.policyId,
+        }));
+};
+
+const medicalPaymentsRule: AuditRule = (ctx) =>
+    policiesOfType(ctx, 'auto')
+        .filter(p => p.structured && !hasCoverage(p, 'medical_payments'))
+        .map(policy => ({
+            ruleId: 'missing_med_pay',
+            severity: 'low' as const,
+            category: 'auto' as const,
+            title: 'No medical payments or PIP coverage',
+            currentRisk: 'MedPay/PIP not found on the declarations page',
+            recommended: 'MedPay of $5k-$10k (or PIP where required)',
+            realImpact: 'Passengers\' medical bills after an accident would go through health insurance deductibles or out of pocket.',
+            currentLimit: null,
+            recommendedLimit: 5_000,
+            policyId: policy.policyId,
+        }));
+
+const waterBackupRule: AuditRule = (ctx) =>
+    policiesOfType(ctx, 'home')
+        .filter(p => p.structured && p.coverages.length > 0 && !hasCoverage(p, 'water_backup'))
+        .map(policy => ({
+            ruleId: 'missing_water_backup',
+            severity: 'medium' as const,
+            category: 'property' as const,
+            title: 'No water backup endorsement',
+            currentRisk: 'Sewer/drain backup is excluded by most standard home policies',
+            recommended: 'Water backup endorsement of $10k-$25k',
+            realImpact: 'A backed-up drain or failed sump pump can cause five-figure damage that would not be covered.',
+            currentLimit: null,
+            recommendedLimit: 25_000,
+            policyId: policy.policyId,
+        }));
+
+const ordinanceOrLawRule: AuditRule = (ctx) =>
+    policiesOfType(ctx, 'home')
+        .filter(p => p.structured && p.coverages.length > 0 && !hasCoverage(p, 'ordinance_or_law'))
+        .map(policy => {
+            const dwellingLimit = lowestLimit(policy, 'dwelling');
+            return {
+                ruleId: 'missing_ordinance_or_law',
+                severity: 'medium' as const,
+                category: 'property' as const,
+                title: 'No ordinance or law coverage',
+                currentRisk: 'Upgrades required by current building codes after a loss are not covered',
+                recommended: dwellingLimit
+                    ? `Ordinance or law coverage of 10-25% of dwelling (${formatMoney(dwellingLimit * 0.1)}-${formatMoney(dwellingLimit * 0.25)})`
+                    : 'Ordinance or law coverage of 10-25% of dwelling',
+                realImpact: 'Rebuilding an older home to today\'s code can add tens of thousands the policy would not pay.',
+                currentLimit: null,
+                recommendedLimit: dwellingLimit ? Math.round(dwellingLimit * 0.25) : null,
+                policyId: policy.policyId,
+            };
+        });
+
+const actualCashValueRule: AuditRule = (ctx) =>
+    policiesOfType(ctx, 'home', 'renters')
+        .filter(p => hasCoverage(p, 'actual_cash_value'))
+        .map(policy => ({
+            ruleId: 'actual_cash_value_settlement',
+            severity: 'high' as const,
+            category: 'property' as const,
+            title: 'Losses are settled at actual cash value',
+            currentRisk: 'Actual cash value (replacement cost minus depreciation)',
+            recommended: 'Replacement cost (RCV) settlement',
+            realImpact: 'Like getting paid for a used TV instead of a new one - depreciation comes out of every claim check.',
+            currentLimit: null,
+            recommendedLimit: null,
+            policyId: policy.policyId,
+        }));
+
+const missingHomePolicyRule: AuditRule = (ctx) => {
+    if (!ctx.facts.ownsHome || policiesOfType(ctx, 'home').length > 0) return [];
+
+    return [{
+        ruleId: 'missing_home_policy',
+        severity: 'critical',
+        category: 'property',
+        title: 'You own a home but no home policy is on file',
+        currentRisk: 'No homeowners policy uploaded',
+        recommended: 'Upload your homeowners declarations page so it can be reviewed',
+        realImpact: 'Without a home policy, both the structure and your personal liability at home are unprotected.',
+    }];
+};
+
+const dataQualityRule: AuditRule = (ctx) => {
+    const findings: AuditFinding[] = [];
+
+    if (ctx.policies.length === 0) {
+        findings.push({
+            ruleId: 'no_policies_on_file',
+            severity: 'info',
+            category: 'data',
+            title: 'No policies on file',
+            currentRisk: 'Nothing to audit yet',
+            recommended: 'Upload your auto and home declarations pages',
+            realImpact: 'The audit can only check coverage it can see.',
+        });
+    } else if (!ctx.policies.some(p => p.structured)) {
+        findings.push({
+            ruleId: 'no_structured_data',
+            severity: 'info',
+            category: 'data',
+            title: 'Coverage limits could not be read from your documents',
+            currentRisk: 'Limit-based checks were skipped',
+            recommended: 'Upload the declarations page rather than an ID card or photo',
+            realImpact: 'Gaps in liability limits and endorsements cannot be detected without the declarations page.',
+        });
+    }
+
+    if (ctx.facts.netWorth == null) {
+        findings.push({
+            ruleId: 'net_worth_unknown',
+            severity: 'info',
+            category: 'data',
+            title: 'Net worth not provided',
+            currentRisk: 'Liability recommendations use the minimum tier of the matrix',
+            recommended: 'Share an approximate net worth to size liability and umbrella limits',
+            realImpact: 'Limits that look adequate may still leave significant assets exposed.',
+        });
+    }
+
+    return findings;
+};
+
+const RULES: AuditRule[] = [
+    missingHomePolicyRule,
+    stateMinimumRule,
+    autoLiabilityRule,
+    homeLiabilityRule,
+    umbrellaRecommendedRule,
+    umbrellaUnderlyingRule,
+    uninsuredMotoristRule,
+    medicalPaymentsRule,
+    actualCashValueRule,
+    waterBackupRule,
+    ordinanceOrLawRule,
+    dataQualityRule,
+];
+
+const SEVERITY_ORDER: AuditSeverity[] = ['critical', 'high', 'medium', 'low', 'info'];
+
+/**
+ * Runs every rule and returns findings ordered by severity. Pure - no I/O.
+ */
+export function runProtectionAudit(input: { policies: AuditPolicy[]; facts: ProfileFacts }): ProtectionAuditReport {
+    const ctx: AuditContext = {
+        policies: input.policies,
+        facts: input.facts,
+        limits: recommendedLimitsFor(input.facts),
+    };
+
+    const findings = RULES
+        .flatMap(rule => rule(ctx))
+        .sort((a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity));
+
+    const counts = Object.fromEntries(SEVERITY_ORDER.map(s => [s, 0])) as Record<AuditSeverity, number>;
+    for (const finding of findings) {
+        counts[finding.severity]++;
+    }
+
+    return {
+        generatedAt: new Date().toISOString(),
+        facts: input.facts,
+        policies: input.policies.map(({ policyId, policyType, carrier, policyNumber, structured }) => ({
+            policyId, policyType, carrier, policyNumber, structured,
+        })),
+        findings,
+        counts,
+    };
+}
+
+// ============================================
+// Data Loading
+// ============================================
+
+const AUDIT_POLICY_SELECT = `
+    id, policy_number, policy_type, start_date,
+    carrier:carrier_id ( name ),
+    location ( state, dwelling ( dwelling_coverage ( coverage_type, coverage_amount, deductible ) ) ),
+    vehicle ( vehicle_coverage ( coverage_type, coverage_limit, deductible ) ),
+    driver ( name, date_of_birth )
+`;
+
+function rowToAuditPolicy(row: any): AuditPolicy {
+    const locations: any[] = row.location || [];
+    const dwellingCoverages = locations
+        .flatMap(l => l.dwelling || [])
+        .flatMap((d: any) => d.dwelling_coverage || [])
+        .map((c: any) => toCoverage(c.coverage_type, c.coverage_amount, c.deductible));
+    const vehicleCoverages = (row.vehicle || [])
+        .flatMap((v: any) => v.vehicle_coverage || [])
+        .map((c: any) => toCoverage(c.coverage_type, c.coverage_limit, c.deductible));
+
+    return {
+        policyId: row.id,
+        policyType: row.policy_type || 'other',
+        carrier: row.carrier?.name || null,
+        policyNumber: row.policy_number,
+        state: locations.find(l => l.state)?.state || null,
+        coverages: [...dwellingCoverages, ...vehicleCoverages],
+        drivers: (row.driver || []).map((d: any) => ({ name: d.name, dateOfBirth: d.date_of_birth })),
+        structured: true,
+    };
+}
+
+/**
+ * Loads the latest active term per policy type from the structured policy tables
+ */
+export async function loadAuditPolicies(internalUserId: number, db: SupabaseClient = supabase): Promise<AuditPolicy[]> {
+    const { data, error } = await db
+        .from('policies')
+        .select(AUDIT_POLICY_SELECT)
+        .eq('user_id', internalUserId)
+        .eq('status', 'active')
+        .order('start_date', { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to load policies: ${error.message}`);
+    }
+
+    const latest = new Map<string, AuditPolicy>();
+    for (const row of (data || []) as any[]) {
+        const policy = rowToAuditPolicy(row);
+        if (!latest.has(policy.policyType)) {
+            latest.set(policy.policyType, policy);
+        }
+    }
+
+    return Array.from(latest.values());
+}
+
+/**
+ * Loads one of the user's policies with normalized coverages, or null if it isn't theirs
+ */
+export async function loadAuditPolicy(
+    internalUserId: number,
+    policyId: number,
+    db: SupabaseClient = supabase
+): Promise<AuditPolicy | null> {
+    const { data, error } = await db
+        .from('policies')
+        .select(AUDIT_POLICY_SELECT)
+        .eq('id', policyId)
+        .eq('user_id', internalUserId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load policy: ${error.message}`);
+    }
+
+    return data ? rowToAuditPolicy(data) : null;
+}
+
+function ageOn(dateOfBirth: string, today: Date): number | null {
+    const dob = new Date(dateOfBirth);
+    if (isNaN(dob.getTime())) return null;
+    let age = today.getFullYear() - dob.getFullYear();
+    const beforeBirthday = today.getMonth() < dob.getMonth() ||
+        (today.getMonth() === dob.getMonth() && today.getDate() < dob.getDate());
+    if (beforeBirthday) age--;
+    return age;
+}
+
+/**
+ * Fills in facts we can infer from policy data (state, teen drivers, home ownership)
+ */
+export function deriveProfileFacts(policies: AuditPolicy[], provided: ProfileFacts = {}): ProfileFacts {
+    const today = new Date();
+    const teenDrivers = new Set(
+        policies
+            .flatMap(p => p.drivers)
+            .filter(d => {
+                const age = d.dateOfBirth ? ageOn(d.dateOfBirth, today) : null;
+                return age != null && age >= 15 && age <= 19;
+            })
+            .map(d => `${d.name}|${d.dateOfBirth}`)
+    ).size;
+
+    const derived: ProfileFacts = {
+        state: policies.find(p => p.state)?.state || undefined,
+        teenDrivers: policies.some(p => p.drivers.length > 0) ? teenDrivers : undefined,
+        ownsHome: policies.some(p => p.policyType === 'home') ? true : undefined,
+    };
+
+    // Explicitly provided facts always win over derived ones
+    const merged: ProfileFacts = { ...derived };
+    for (const [key, value] of Object.entries(provided)) {
+        if (value !== undefined) {
+            (merged as Record<string, unknown>)[key] = value;
+        }
+    }
+    return merged;
+}
+
+/**
+ * Builds the audit for a user from structured policy rows, falling back to
+ * uploaded documents for policy lines that have no extracted data
+ */
+export async function buildProtectionAudit(
+    authUserId: string,
+    providedFacts: ProfileFacts = {},
+    db: SupabaseClient = supabase
+): Promise<{ success: boolean; data?: ProtectionAuditReport; error?: string }> {
+    try {
+        const internalUserId = await getInternalUserId(authUserId, db);
+        const structured = internalUserId ? await loadAuditPolicies(internalUserId, db) : [];
+
+        // The policy store takes no client (it is in memory in local development); it is keyed
+        // by the verified auth id and only adds policy types with no structured row
+        const stored = await getPolicyStore().listPolicies(authUserId);
+        const unstructured: AuditPolicy[] = stored
+            .filter(s => !structured.some(p => p.policyType === s.policyType))
+            .map(s => ({
+                policyType: s.policyType,
+                carrier: s.carrier,
+                policyNumber: null,
+                state: null,
+                coverages: [],
+                drivers: [],
+                structured: false,
+            }));
+
+        const policies = [...structured, ...unstructured];
+
+        // Facts the user confirmed in chat fill in for anything not provided with the request
+        const remembered = internalUserId ? toAuditFacts(await listConfirmedProfileFacts(internalUserId, db)) : {};
+        for (const [key, value] of Object.entries(providedFacts)) {
+            if (value !== undefined) {
+                (remembered as Record<string, unknown>)[key] = value;
+            }
+        }
+        const facts = deriveProfileFacts(policies, remembered);
+        const report = runProtectionAudit({ policies, facts });
+
+        console.log(`🛡️ Protection audit for ${authUserId}: ${report.findings.length} findings across ${policies.length} policies`);
+        return { success: true, data: report };
+    } catch (error) {
+        console.error('❌ Protection audit error:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+// ============================================
+// Prompt Grounding
+// ============================================
+
+/**
+ * Renders audit findings as a prompt block so agents present the computed
+ * results instead of re-deriving limits in prose
+ */
+export function formatAuditForPrompt(report: ProtectionAuditReport): string {
+    if (report.policies.length === 0) {
+        return 'PROTECTION AUDIT (computed): No policies on file, so nothing was audited. Do not tell the customer they have no coverage gaps.';
+    }
+
+    // Policies with no structured coverages only went through the checks that don't need limits
+    const unread = report.policies.filter(p => !p.structured).map(p => p.policyType);
+    const limitsUnknown = unread.length > 0
+        ? `Limits unknown for the ${joinList(unread)} ${unread.length === 1 ? 'policy' : 'policies'}: no structured coverage data was read, so gaps there cannot be ruled out.`
+        : null;
+
+    const actionable = report.findings.filter(f => f.severity !== 'info');
+    if (actionable.length === 0) {
+        if (!limitsUnknown) {
+            return 'PROTECTION AUDIT (computed): No coverage gaps found in the policies on file.';
+        }
+        return unread.length === report.policies.length
+            ? `PROTECTION AUDIT (computed): ${limitsUnknown}`
+            : `PROTECTION AUDIT (computed): No coverage gaps found in the policies whose limits could be read.\n${limitsUnknown}`;
+    }
+
+    const lines = actionable.map(f =>
+        `- [${f.severity.toUpperCase()}] ${f.title}\n  Current Risk: ${f.currentRisk}\n  Recommended: ${f.recommended}\n  Real Impact: ${f.realImpact}`
+    );
+    if (limitsUnknown) {
+        lines.push(`- ${limitsUnknown}`);
+    }
+
+    return `PROTECTION AUDIT (computed from the customer's policies - use these figures, do not invent others):
+${lines.join('\n')}`;
+}
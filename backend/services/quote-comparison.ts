@@ -0,0 +1,506 @@
+// backend/services/quote-comparison.ts
+// Smart Shopping: quote requests against a stored policy and side-by-side coverage comparison of quotes
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { ExtractedPolicy, findOrCreateCarrier } from './policy-extraction';
+import { loadAuditPolicy, normalizeCoverageType } from './protection-audit';
+
+// ============================================
+// Types
+// ============================================
+
+export interface QuoteCoverage {
+    coverageType: string;
+    limit: number | null;
+    deductible: number | null;
+}
+
+export interface QuoteInput {
+    carrierName: string;
+    premium: number;
+    termMonths: number;
+    validUntil?: string | null;
+    coverages: QuoteCoverage[];
+    notes?: string | null;
+}
+
+/**
+ * The current policy as it stood when the quote request was opened
+ */
+export interface CurrentPolicySnapshot {
+    policyId: number;
+    policyType: string;
+    carrier: string | null;
+    policyNumber: string | null;
+    premium: number | null;
+    termMonths: number;
+    coverages: QuoteCoverage[];
+}
+
+export interface QuoteRecord {
+    id: number;
+    carrier: string | null;
+    premium: number;
+    termMonths: number;
+    validUntil: string | null;
+    coverages: QuoteCoverage[];
+    source: 'manual' | 'document' | 'provider';
+    sourceDocumentId: number | null;
+    providerId: string | null;
+    notes: string | null;
+    createdAt: string;
+}
+
+export type CoverageFlag =
+    | 'match'
+    | 'lower_limit'
+    | 'higher_limit'
+    | 'higher_deductible'
+    | 'lower_deductible'
+    | 'missing_in_quote'
+    | 'not_in_current'
+    // A limit or deductible is known on one side only, so the two cannot be compared
+    | 'not_comparable';
+
+export interface CoverageComparison {
+    key: string;
+    label: string;
+    current: { limit: number | null; deductible: number | null } | null;
+    quote: { limit: number | null; deductible: number | null } | null;
+    flags: CoverageFlag[];
+}
+
+export interface QuoteComparison {
+    quoteId: number;
+    carrier: string | null;
+    annualPremium: number;
+    annualSavings: number | null;
+    savingsPct: number | null;
+    // True only when every coverage is present in both with the same limits and deductibles
+    applesToApples: boolean;
+    coverages: CoverageComparison[];
+    warnings: string[];
+}
+
+export interface QuoteRequestRecord {
+    id: number;
+    status: string;
+    requestedAt: string;
+    current: CurrentPolicySnapshot;
+    quotes: QuoteRecord[];
+    comparisons: QuoteComparison[];
+}
+
+export interface QuoteRequestSummary {
+    id: number;
+    status: string;
+    requestedAt: string;
+    policyType: string;
+    carrier: string | null;
+    policyNumber: string | null;
+    quoteCount: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toNumber(value: unknown): number | null {
+    return value == null ? null : Number(value);
+}
+
+// Declarations pages show 6- or 12-month terms; anything else is rounded to the nearest month
+function termMonthsBetween(startDate: string | null, endDate: string | null): number {
+    if (!startDate || !endDate) return 12;
+    const days = (new Date(endDate).getTime() - new Date(startDate).getTime()) / DAY_MS;
+    const months = Math.round(days / 30.4);
+    return months > 0 ? months : 12;
+}
+
+function annualize(premium: number, termMonths: number): number {
+    return Math.round((premium * 12 / termMonths) * 100) / 100;
+}
+
+// ============================================
+// Comparison
+// ============================================
+
+interface CoverageBucket {
+    label: string;
+    limit: number | null;
+    deductible: number | null;
+}
+
+// Coverage names vary between carriers ("BI" vs "Bodily Injury Liability")
+function coverageKey(label: string): string {
+    return normalizeCoverageType(label) || label.trim().toLowerCase();
+}
+
+/**
+ * Groups coverages by normalized key. With several vehicles the weakest link wins:
+ * lowest limit and highest deductible.
+ */
+function bucketCoverages(coverages: QuoteCoverage[]): Map<string, CoverageBucket> {
+    const buckets = new Map<string, CoverageBucket>();
+
+    for (const coverage of coverages) {
+        const key = coverageKey(coverage.coverageType);
+        const existing = buckets.get(key);
+        if (!existing) {
+            buckets.set(key, { label: coverage.coverageType, limit: coverage.limit, deductible: coverage.deductible });
+            continue;
+        }
+        if (coverage.limit != null && (existing.limit == null || coverage.limit < existing.limit)) {
+            existing.limit = coverage.limit;
+        }
+        if (coverage.deductible != null && (existing.deductible == null || coverage.deductible > existing.deductible)) {
+            existing.deductible = coverage.deductible;
+        }
+    }
+
+    return buckets;
+}
+
+function formatDollars(amount: number | null): string {
+    return amount == null ? 'unknown' : `$${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+}
+
+function compareBucket(current: CoverageBucket | undefined, quote: CoverageBucket | undefined): CoverageFlag[] {
+    if (current && !quote) return ['missing_in_quote'];
+    if (!current && quote) return ['not_in_current'];
+
+    const flags: CoverageFlag[] = [];
+    if ((current!.limit == null) !== (quote!.limit == null) || (current!.deductible == null) !== (quote!.deductible == null)) {
+        flags.push('not_comparable');
+    }
+    if (current!.limit != null && quote!.limit != null && current!.limit !== quote!.limit) {
+        flags.push(quote!.limit < current!.limit ? 'lower_limit' : 'higher_limit');
+    }
+    if (current!.deductible != null && quote!.deductible != null && current!.deductible !== quote!.deductible) {
+        flags.push(quote!.deductible > current!.deductible ? 'higher_deductible' : 'lower_deductible');
+    }
+    return flags.length > 0 ? flags : ['match'];
+}
+
+const WARNING_ORDER: CoverageFlag[] = [
+    'missing_in_quote',
+    'not_comparable',
+    'lower_limit',
+    'higher_deductible',
+    'not_in_current',
+    'higher_limit',
+    'lower_deductible',
+];
+
+function describeFlag(flag: CoverageFlag, row: CoverageComparison): string {
+    switch (flag) {
+        case 'lower_limit':
+            return `${row.label} limit is lower (${formatDollars(row.quote!.limit)} vs ${formatDollars(row.current!.limit)} today)`;
+        case 'higher_deductible':
+            return `${row.label} deductible is higher (${formatDollars(row.quote!.deductible)} vs ${formatDollars(row.current!.deductible)} today)`;
+        case 'missing_in_quote':
+            return `${row.label} is not included in this quote`;
+        case 'higher_limit':
+            return `${row.label} limit is higher (${formatDollars(row.quote!.limit)} vs ${formatDollars(row.current!.limit)} today)`;
+        case 'lower_deductible':
+            return `${row.label} deductible is lower (${formatDollars(row.quote!.deductible)} vs ${formatDollars(row.current!.deductible)} today)`;
+        case 'not_in_current':
+            return `${row.label} is included in this quote but not in your current policy`;
+        case 'not_comparable': {
+            const current = row.current!, quote = row.quote!;
+            const currentMissing = (current.limit == null && quote.limit != null) || (current.deductible == null && quote.deductible != null);
+            const side = currentMissing ? 'your current policy' : 'this quote';
+            return `${row.label} cannot be compared: the limit or deductible is not known for ${side}`;
+        }
+        default:
+            return `${row.label} matches your current policy`;
+    }
+}
+
+/**
+ * Compares one quote against the current policy on normalized coverages. Pure - no I/O.
+ */
+export function compareQuote(current: CurrentPolicySnapshot, quote: QuoteRecord): QuoteComparison {
+    const currentBuckets = bucketCoverages(current.coverages);
+    const quoteBuckets = bucketCoverages(quote.coverages);
+    const keys = [...new Set([...currentBuckets.keys(), ...quoteBuckets.keys()])];
+
+    const coverages: CoverageComparison[] = keys.map(key => {
+        const currentBucket = currentBuckets.get(key);
+        const quoteBucket = quoteBuckets.get(key);
+        return {
+            key,
+            label: (currentBucket || quoteBucket)!.label,
+            current: currentBucket ? { limit: currentBucket.limit, deductible: currentBucket.deductible } : null,
+            quote: quoteBucket ? { limit: quoteBucket.limit, deductible: quoteBucket.deductible } : null,
+            flags: compareBucket(currentBucket, quoteBucket),
+        };
+    });
+
+    const annualPremium = annualize(quote.premium, quote.termMonths);
+    const currentAnnual = current.premium != null ? annualize(current.premium, current.termMonths) : null;
+    const annualSavings = currentAnnual != null ? Math.round((currentAnnual - annualPremium) * 100) / 100 : null;
+
+    // Reductions in protection first - they are what make a cheaper quote not comparable
+    const warnings = WARNING_ORDER.flatMap(flag => coverages
+        .filter(row => row.flags.includes(flag))
+        .map(row => describeFlag(flag, row)));
+
+    return {
+        quoteId: quote.id,
+        carrier: quote.carrier,
+        annualPremium,
+        annualSavings,
+        savingsPct: annualSavings != null && currentAnnual
+            ? Math.round((annualSavings / currentAnnual) * 1000) / 10
+            : null,
+        applesToApples: coverages.every(row => row.flags.length === 1 && row.flags[0] === 'match'),
+        coverages,
+        warnings,
+    };
+}
+
+/**
+ * Converts a structured extraction of a quote document into quote input
+ */
+export function quoteInputFromExtraction(extracted: ExtractedPolicy): { success: boolean; data?: QuoteInput; error?: string } {
+    if (extracted.totalPremium.value == null) {
+        return { success: false, error: 'Could not find the quoted premium in the document' };
+    }
+
+    const coverages = [
+        ...(extracted.dwelling?.coverages || []),
+        ...extracted.vehicles.flatMap(v => v.coverages),
+    ]
+        .filter(c => c.coverageType.value)
+        .map(c => ({
+            coverageType: c.coverageType.value!,
+            limit: c.limit.value ?? null,
+            deductible: c.deductible.value ?? null,
+        }));
+
+    return {
+        success: true,
+        data: {
+            carrierName: extracted.carrier.value || 'Unknown carrier',
+            premium: extracted.totalPremium.value,
+            termMonths: termMonthsBetween(extracted.effectiveDate.value, extracted.expirationDate.value),
+            validUntil: null,
+            coverages,
+        },
+    };
+}
+
+// ============================================
+// Persistence
+// ============================================
+
+function rowToQuote(row: any): QuoteRecord {
+    return {
+        id: row.id,
+        carrier: row.carrier?.name || null,
+        premium: Number(row.premium),
+        termMonths: row.term_months || 12,
+        validUntil: row.valid_until,
+        coverages: row.coverages || [],
+        source: row.source || 'manual',
+        sourceDocumentId: row.source_document_id,
+        providerId: row.provider_id || null,
+        notes: row.coverage_details,
+        createdAt: row.created_at,
+    };
+}
+
+// Latest active structured term of a policy type
+async function findLatestPolicyId(internalUserId: number, policyType: string): Promise<number | null> {
+    const { data } = await supabase
+        .from('policies')
+        .select('id')
+        .eq('user_id', internalUserId)
+        .eq('policy_type', policyType)
+        .eq('status', 'active')
+        .order('start_date', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    return data?.id ?? null;
+}
+
+/**
+ * Opens a quote request for one of the user's policies, snapshotting its coverages and premium
+ */
+export async function createQuoteRequest(
+    internalUserId: number,
+    target: { policyId?: number; policyType?: string }
+): Promise<{ success: boolean; data?: QuoteRequestRecord; error?: string }> {
+    try {
+        const policyId = target.policyId ?? await findLatestPolicyId(internalUserId, target.policyType!);
+        const policy = policyId ? await loadAuditPolicy(internalUserId, policyId) : null;
+        if (!policy) {
+            return { success: false, error: 'Policy not found' };
+        }
+
+        const { data: term } = await supabase
+            .from('policies')
+            .select('total_premium, start_date, end_date')
+            .eq('id', policy.policyId!)
+            .single();
+
+        const current: CurrentPolicySnapshot = {
+            policyId: policy.policyId!,
+            policyType: policy.policyType,
+            carrier: policy.carrier,
+            policyNumber: policy.policyNumber,
+            premium: toNumber(term?.total_premium),
+            termMonths: termMonthsBetween(term?.start_date, term?.end_date),
+            coverages: policy.coverages.map(c => ({ coverageType: c.label, limit: c.limit, deductible: c.deductible })),
+        };
+
+        const { data, error } = await supabase
+            .from('quote_requests')
+            .insert({
+                user_id: internalUserId,
+                policy_id: policy.policyId,
+                status: 'open',
+                details: { current },
+            })
+            .select('id, status, requested_at')
+            .single();
+
+        if (error) {
+            return { success: false, error: error.message };
+        }
+
+        console.log(`🛒 Quote request ${data.id} opened for policy ${policy.policyId}`);
+        return {
+            success: true,
+            data: { id: data.id, status: data.status, requestedAt: data.requested_at, current, quotes: [], comparisons: [] },
+        };
+
+    } catch (error) {
+        console.error('❌ Error creating quote request:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+export async function getUserQuoteRequests(
+    internalUserId: number,
+    limit = 20,
+    db: SupabaseClient = supabase
+): Promise<QuoteRequestSummary[]> {
+    const { data, error } = await db
+        .from('quote_requests')
+        .select('id, status, requested_at, details, quotes ( id )')
+        .eq('user_id', internalUserId)
+        .order('requested_at', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(`Failed to load quote requests: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+        id: row.id,
+        status: row.status,
+        requestedAt: row.requested_at,
+        policyType: row.details?.current?.policyType || 'other',
+        carrier: row.details?.current?.carrier || null,
+        policyNumber: row.details?.current?.policyNumber || null,
+        quoteCount: (row.quotes || []).length,
+    }));
+}
+
+/**
+ * Loads a quote request with its quotes and their comparisons, cheapest first.
+ * Returns null when the request doesn't exist or belongs to another user.
+ */
+export async function getQuoteComparison(
+    internalUserId: number,
+    requestId: number,
+    db: SupabaseClient = supabase
+): Promise<QuoteRequestRecord | null> {
+    const { data, error } = await db
+        .from('quote_requests')
+        .select(`
+            id, status, requested_at, details,
+            quotes ( id, premium, term_months, valid_until, coverages, source, source_document_id, provider_id, coverage_details, created_at, carrier:carrier_id ( name ) )
+        `)
+        .eq('id', requestId)
+        .eq('user_id', internalUserId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load quote request: ${error.message}`);
+    }
+    if (!data) return null;
+
+    const current: CurrentPolicySnapshot = (data as any).details?.current;
+    const quotes = ((data as any).quotes || []).map(rowToQuote);
+    const comparisons = quotes
+        .map((quote: QuoteRecord) => compareQuote(current, quote))
+        .sort((a: QuoteComparison, b: QuoteComparison) => a.annualPremium - b.annualPremium);
+
+    return { id: data.id, status: data.status, requestedAt: data.requested_at, current, quotes, comparisons };
+}
+
+export type QuoteSource =
+    | { type: 'manual' }
+    | { type: 'document'; documentId?: number }
+    | { type: 'provider'; providerId: string; providerQuoteId?: string };
+
+/**
+ * Attaches a quote (entered manually, extracted from a document or priced by a provider) to an open request
+ */
+export async function addQuote(
+    internalUserId: number,
+    requestId: number,
+    input: QuoteInput,
+    source: QuoteSource = { type: 'manual' }
+): Promise<{ success: boolean; data?: QuoteComparison; error?: string }> {
+    try {
+        const { data: request } = await supabase
+            .from('quote_requests')
+            .select('id, status, details')
+            .eq('id', requestId)
+            .eq('user_id', internalUserId)
+            .maybeSingle();
+
+        if (!request) {
+            return { success: false, error: 'Quote request not found' };
+        }
+        if (request.status !== 'open') {
+            return { success: false, error: 'Quote request is closed' };
+        }
+
+        const carrierId = await findOrCreateCarrier(input.carrierName);
+
+        const { data, error } = await supabase
+            .from('quotes')
+            .insert({
+                quote_request_id: requestId,
+                carrier_id: carrierId,
+                premium: input.premium,
+                term_months: input.termMonths,
+                valid_until: input.validUntil || null,
+                coverages: input.coverages,
+                coverage_details: input.notes || null,
+                source: source.type,
+                source_document_id: source.type === 'document' ? source.documentId || null : null,
+                provider_id: source.type === 'provider' ? source.providerId : null,
+                provider_quote_id: source.type === 'provider' ? source.providerQuoteId || null : null,
+            })
+            .select('id, premium, term_months, valid_until, coverages, source, source_document_id, provider_id, coverage_details, created_at')
+            .single();
+
+        if (error) {
+            return { success: false, error: error.message };
+        }
+
+        const quote = { ...rowToQuote(data), carrier: input.carrierName };
+        console.log(`🛒 Quote ${quote.id} from ${input.carrierName} added to request ${requestId}`);
+        return { success: true, data: compareQuote(request.details.current, quote) };
+
+    } catch (error) {
+        console.error('❌ Error adding quote:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
@@ -0,0 +1,367 @@
+// backend/services/quote-providers.ts
+// Carrier-agnostic quote providers: normalized risk in, priced quotes out, fanned out in parallel with timeouts
+
+import { supabase } from '../lib/supabase';
+import { loadAuditPolicy } from './protection-audit';
+import { addQuote, CurrentPolicySnapshot, getQuoteComparison, QuoteCoverage, QuoteRequestRecord } from './quote-comparison';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Everything a provider gets to price - normalized, no user identifiers
+ */
+export interface QuoteRiskProfile {
+    policyType: string;
+    state: string | null;
+    termMonths: number;
+    currentPremium: number | null;
+    coverages: QuoteCoverage[];
+    drivers: Array<{ dateOfBirth: string | null }>;
+}
+
+export interface ProviderQuote {
+    carrierName: string;
+    premium: number;
+    termMonths: number;
+    validUntil: string | null;
+    coverages: QuoteCoverage[];
+    providerQuoteId?: string;
+    notes?: string;
+}
+
+/**
+ * A carrier integration. Implementations must honour the abort signal -
+ * calls that outlive the timeout are abandoned and logged as timeouts.
+ */
+export interface QuoteProvider {
+    readonly id: string;
+    readonly name: string;
+    supports(policyType: string): boolean;
+    getQuotes(risk: QuoteRiskProfile, signal: AbortSignal): Promise<ProviderQuote[]>;
+}
+
+export type ProviderCallStatus = 'success' | 'error' | 'timeout' | 'skipped';
+
+export interface ProviderCallResult {
+    providerId: string;
+    status: ProviderCallStatus;
+    quoteCount: number;
+    durationMs: number;
+    error?: string;
+}
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.QUOTE_PROVIDER_TIMEOUT_MS || '10000', 10);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Mock Provider (local development, offline flows)
+// ============================================
+
+// FNV-1a - stable across runs so the same risk always gets the same price
+function stableHash(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function ageOn(dateOfBirth: string, today: Date): number | null {
+    const dob = new Date(dateOfBirth);
+    if (isNaN(dob.getTime())) return null;
+    const age = today.getUTCFullYear() - dob.getUTCFullYear();
+    const hadBirthday = today.getUTCMonth() > dob.getUTCMonth()
+        || (today.getUTCMonth() === dob.getUTCMonth() && today.getUTCDate() >= dob.getUTCDate());
+    return hadBirthday ? age : age - 1;
+}
+
+// Coverages where the plan's deductible applies
+const DEDUCTIBLE_COVERAGES = /collision|comprehensive|other than collision|dwelling|coverage a\b|all perils|wind|hail/i;
+
+/**
+ * Prices every plan of the requested line from the plans table. Deterministic:
+ * the same plan and risk always produce the same quote.
+ */
+export class MockQuoteProvider implements QuoteProvider {
+    readonly id = 'mock';
+    readonly name = 'Mock carrier network';
+
+    supports(policyType: string): boolean {
+        return ['auto', 'home', 'renters', 'umbrella'].includes(policyType);
+    }
+
+    async getQuotes(risk: QuoteRiskProfile, signal: AbortSignal): Promise<ProviderQuote[]> {
+        const { data: plans, error } = await supabase
+            .from('plans')
+            .select('id, name, monthly_premium, deductible, max_coverage, insurance_type:insurance_type_id!inner ( name ), carrier:id_carrier ( name )')
+            .ilike('insurance_type.name', `%${risk.policyType}%`)
+            .not('monthly_premium', 'is', null)
+            .abortSignal(signal);
+
+        if (error) {
+            throw new Error(`Failed to load plans: ${error.message}`);
+        }
+
+        const today = new Date();
+        const youngDrivers = risk.drivers
+            .map(d => (d.dateOfBirth ? ageOn(d.dateOfBirth, today) : null))
+            .filter((age): age is number => age !== null && age < 25).length;
+
+        return (plans || []).map((plan: any) => {
+            const maxCoverage = plan.max_coverage != null ? Number(plan.max_coverage) : null;
+            const planDeductible = plan.deductible != null ? Number(plan.deductible) : null;
+
+            let deductibleFactor = 1;
+            const coverages = risk.coverages.map(coverage => {
+                const limit = coverage.limit != null && maxCoverage != null ? Math.min(coverage.limit, maxCoverage) : coverage.limit;
+                let deductible = coverage.deductible;
+                if (planDeductible != null && DEDUCTIBLE_COVERAGES.test(coverage.coverageType)) {
+                    if (coverage.deductible != null && planDeductible !== coverage.deductible) {
+                        deductibleFactor = planDeductible > coverage.deductible ? 0.95 : 1.05;
+                    }
+                    deductible = planDeductible;
+                }
+                return { coverageType: coverage.coverageType, limit, deductible };
+            });
+
+            // Territory spread of +/-10% keyed on plan and state
+            const territoryFactor = 0.9 + (stableHash(`${plan.id}:${risk.state || 'XX'}`) % 2001) / 10000;
+            const driverFactor = risk.policyType === 'auto' ? 1 + 0.25 * youngDrivers : 1;
+            const premium = Number(plan.monthly_premium) * risk.termMonths * territoryFactor * driverFactor * deductibleFactor;
+
+            return {
+                carrierName: plan.carrier?.name || plan.name,
+                premium: Math.round(premium * 100) / 100,
+                termMonths: risk.termMonths,
+                validUntil: new Date(today.getTime() + 30 * DAY_MS).toISOString().split('T')[0],
+                coverages,
+                providerQuoteId: `mock-${plan.id}-${stableHash(JSON.stringify(risk)).toString(16)}`,
+                notes: `Mock quote priced from plan "${plan.name}"`,
+            };
+        });
+    }
+}
+
+// ============================================
+// Registry
+// ============================================
+
+const registeredProviders = new Map<string, QuoteProvider>();
+
+export function registerQuoteProvider(provider: QuoteProvider): void {
+    registeredProviders.set(provider.id, provider);
+}
+
+export function getQuoteProviders(): QuoteProvider[] {
+    return Array.from(registeredProviders.values());
+}
+
+// QUOTE_PROVIDERS is a comma-separated list; the mock provider is on by default outside production
+const enabledProviders = (process.env.QUOTE_PROVIDERS ?? (process.env.NODE_ENV === 'production' ? '' : 'mock'))
+    .split(',')
+    .map(id => id.trim())
+    .filter(Boolean);
+
+if (enabledProviders.includes('mock')) {
+    registerQuoteProvider(new MockQuoteProvider());
+}
+
+// ============================================
+// Fan-out
+// ============================================
+
+/**
+ * Builds the normalized risk for a quote request from its policy snapshot and the stored policy
+ */
+export async function buildRiskProfile(internalUserId: number, current: CurrentPolicySnapshot): Promise<QuoteRiskProfile> {
+    const policy = await loadAuditPolicy(internalUserId, current.policyId);
+
+    return {
+        policyType: current.policyType,
+        state: policy?.state || null,
+        termMonths: current.termMonths,
+        currentPremium: current.premium,
+        coverages: current.coverages,
+        drivers: (policy?.drivers || []).map(d => ({ dateOfBirth: d.dateOfBirth })),
+    };
+}
+
+class ProviderTimeoutError extends Error {
+    constructor(timeoutMs: number) {
+        super(`Provider did not respond within ${timeoutMs}ms`);
+        this.name = 'ProviderTimeoutError';
+    }
+}
+
+async function callWithTimeout<T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new ProviderTimeoutError(timeoutMs));
+        }, timeoutMs);
+    });
+
+    try {
+        return await Promise.race([call(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Records one provider call in api_syncs and integration_logs. Logging never fails the fan-out.
+ */
+async function recordProviderCall(requestId: number, result: ProviderCallResult, startedAt: Date): Promise<void> {
+    const [syncResult, logResult] = await Promise.all([
+        supabase.from('api_syncs').insert({
+            sync_type: 'quote',
+            started_at: startedAt.toISOString(),
+            completed_at: new Date(startedAt.getTime() + result.durationMs).toISOString(),
+            status: result.status,
+            details: {
+                provider: result.providerId,
+                quoteRequestId: requestId,
+                quoteCount: result.quoteCount,
+                durationMs: result.durationMs,
+                error: result.error || null,
+            },
+        }),
+        supabase.from('integration_logs').insert({
+            source: result.providerId,
+            entity_type: 'quote_request',
+            entity_id: requestId,
+            status: result.status,
+            message: result.error || `${result.quoteCount} quote(s) in ${result.durationMs}ms`,
+        }),
+    ]);
+
+    if (syncResult.error || logResult.error) {
+        console.warn(`⚠️ Failed to record ${result.providerId} call: ${(syncResult.error || logResult.error)!.message}`);
+    }
+}
+
+/**
+ * Claims the (request, provider) pair before the provider is called. The insert is ignored when
+ * the pair is already claimed, so of two concurrent calls only one gets to quote.
+ */
+async function claimProviderCall(requestId: number, providerId: string): Promise<boolean> {
+    const { data, error } = await supabase
+        .from('quote_provider_calls')
+        .upsert({ quote_request_id: requestId, provider_id: providerId }, { onConflict: 'quote_request_id,provider_id', ignoreDuplicates: true })
+        .select('provider_id');
+
+    if (error) throw error;
+    return (data || []).length > 0;
+}
+
+// A call that saved nothing can be retried
+async function releaseProviderCall(requestId: number, providerId: string): Promise<void> {
+    const { error } = await supabase
+        .from('quote_provider_calls')
+        .delete()
+        .eq('quote_request_id', requestId)
+        .eq('provider_id', providerId);
+
+    if (error) {
+        console.warn(`⚠️ Failed to release ${providerId} call for request ${requestId}: ${error.message}`);
+    }
+}
+
+async function runProvider(
+    provider: QuoteProvider,
+    internalUserId: number,
+    requestId: number,
+    risk: QuoteRiskProfile,
+    timeoutMs: number
+): Promise<ProviderCallResult> {
+    if (!await claimProviderCall(requestId, provider.id)) {
+        return { providerId: provider.id, status: 'skipped', quoteCount: 0, durationMs: 0 };
+    }
+
+    const startedAt = new Date();
+    let result: ProviderCallResult;
+
+    try {
+        const quotes = await callWithTimeout(signal => provider.getQuotes(risk, signal), timeoutMs);
+
+        let saved = 0;
+        for (const quote of quotes) {
+            const added = await addQuote(internalUserId, requestId, {
+                carrierName: quote.carrierName,
+                premium: quote.premium,
+                termMonths: quote.termMonths,
+                validUntil: quote.validUntil,
+                coverages: quote.coverages,
+                notes: quote.notes,
+            }, { type: 'provider', providerId: provider.id, providerQuoteId: quote.providerQuoteId });
+
+            if (added.success) {
+                saved++;
+            } else {
+                console.warn(`⚠️ Could not save ${provider.id} quote: ${added.error}`);
+            }
+        }
+
+        result = { providerId: provider.id, status: 'success', quoteCount: saved, durationMs: Date.now() - startedAt.getTime() };
+    } catch (error) {
+        result = {
+            providerId: provider.id,
+            status: error instanceof ProviderTimeoutError ? 'timeout' : 'error',
+            quoteCount: 0,
+            durationMs: Date.now() - startedAt.getTime(),
+            error: error instanceof Error ? error.message : String(error),
+        };
+        console.error(`❌ Quote provider ${provider.id} ${result.status}:`, result.error);
+    }
+
+    if (result.quoteCount === 0) {
+        await releaseProviderCall(requestId, provider.id);
+    }
+
+    await recordProviderCall(requestId, result, startedAt);
+    return result;
+}
+
+/**
+ * Asks every registered provider that supports the line to quote the request, in parallel.
+ * Providers that already quoted this request are skipped so the call is safe to repeat, also
+ * concurrently.
+ */
+export async function requestProviderQuotes(
+    internalUserId: number,
+    requestId: number,
+    options: { timeoutMs?: number } = {}
+): Promise<{ success: boolean; data?: { providers: ProviderCallResult[]; comparison: QuoteRequestRecord }; error?: string }> {
+    try {
+        const request = await getQuoteComparison(internalUserId, requestId);
+        if (!request) {
+            return { success: false, error: 'Quote request not found' };
+        }
+        if (request.status !== 'open') {
+            return { success: false, error: 'Quote request is closed' };
+        }
+
+        const providers = getQuoteProviders().filter(p => p.supports(request.current.policyType));
+        const risk = await buildRiskProfile(internalUserId, request.current);
+
+        console.log(`🛒 Requesting quotes from ${providers.length} provider(s) for request ${requestId}`);
+
+        const results = await Promise.all(providers.map(provider =>
+            runProvider(provider, internalUserId, requestId, risk, options.timeoutMs || DEFAULT_TIMEOUT_MS)
+        ));
+
+        const comparison = await getQuoteComparison(internalUserId, requestId);
+        return { success: true, data: { providers: results, comparison: comparison! } };
+
+    } catch (error) {
+        console.error('❌ Error requesting provider quotes:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
@@ -0,0 +1,54 @@
+// backend/services/rai-reviews.ts
+// Rai's verdicts on Uri's drafts, stored per assistant message so first-pass accuracy can be measured
+
+import { supabase } from '../lib/supabase';
+import type { RaiReview } from '../agents/rai';
+import type { IntentClassification } from '../agents/intent';
+
+export interface RaiReviewContext {
+    conversationId: number;
+    sessionId: number;
+    /** How the user's message was classified - the topic reviews are grouped by */
+    classification?: IntentClassification;
+}
+
+/**
+ * Records one review against the assistant message it produced
+ */
+export async function saveRaiReview(
+    review: RaiReview,
+    context: RaiReviewContext
+): Promise<{ success: boolean; reviewId?: number; error?: string }> {
+    try {
+        const { data, error } = await supabase
+            .from('rai_reviews')
+            .insert({
+                conversation_id: context.conversationId,
+                session_id: context.sessionId,
+                verdict: review.verdict,
+                status: review.status,
+                intent: context.classification?.intent || null,
+                policy_types: context.classification?.policyTypes || [],
+                issues: review.issues,
+                issue_categories: [...new Set(review.issues.map(issue => issue.category))],
+                draft: review.draft,
+                final_answer: review.finalAnswer,
+                diff: review.diff.segments,
+                words_added: review.diff.wordsAdded,
+                words_removed: review.diff.wordsRemoved,
+                change_ratio: review.diff.changeRatio,
+                model: review.model,
+            })
+            .select('id')
+            .single();
+
+        if (error) throw error;
+
+        console.log(`🕵️ Saved Rai review ${data.id} (${review.verdict}, ${review.issues.length} issue(s))`);
+        return { success: true, reviewId: data.id };
+
+    } catch (error) {
+        console.error('❌ Failed to save Rai review:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
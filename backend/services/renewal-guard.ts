@@ -0,0 +1,797 @@
+// backend/services/renewal-guard.ts
+// Renewal Guard: detects renewals of stored policies, diffs terms and records policy_renewals/monitoring rows
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { DEFAULT_LANGUAGE, Language } from '../lib/language';
+import { normalizeCoverageType } from './protection-audit';
+
+// ============================================
+// Types
+// ============================================
+
+export type RenewalChangeType =
+    | 'premium_increase'
+    | 'premium_decrease'
+    | 'limit_decrease'
+    | 'limit_increase'
+    | 'deductible_increase'
+    | 'deductible_decrease'
+    | 'coverage_removed'
+    | 'coverage_added'
+    | 'vehicle_added'
+    | 'vehicle_removed'
+    | 'endorsement_removed'
+    | 'endorsement_added';
+
+export interface RenewalChange {
+    type: RenewalChangeType;
+    item: string;             // "Dwelling", "2019 Honda Civic", or "Policy" for premium and endorsements
+    coverage?: string;
+    endorsement?: string;     // "Water Back-Up (HO 04 95)"
+    previous: number | null;
+    current: number | null;
+}
+
+interface TermCoverage {
+    label: string;
+    limit: number | null;
+    deductible: number | null;
+}
+
+interface TermItem {
+    key: string;
+    label: string;
+    coverages: TermCoverage[];
+}
+
+interface TermEndorsement {
+    name: string | null;
+    formNumber: string | null;
+}
+
+/**
+ * One policy term with its coverages grouped by insured item (dwelling or vehicle)
+ */
+export interface PolicyTerm {
+    id: number;
+    userId: number;
+    policyNumber: string;
+    policyType: string | null;
+    carrierId: number | null;
+    carrierName: string | null;
+    startDate: string;
+    endDate: string;
+    totalPremium: number | null;
+    items: TermItem[];
+    endorsements: TermEndorsement[];
+}
+
+export interface RenewalDiff {
+    previousPremium: number | null;
+    newPremium: number | null;
+    premiumChangePct: number | null;
+    changes: RenewalChange[];
+}
+
+export interface RenewalRecord {
+    id: number;
+    policyId: number;
+    renewedPolicyId: number | null;
+    renewalDate: string;
+    status: string;
+    policyType: string | null;
+    policyNumber: string | null;
+    carrier: string | null;
+    previousPremium: number | null;
+    newPremium: number | null;
+    premiumChangePct: number | null;
+    changes: RenewalChange[];
+    summary: string | null;
+    createdAt: string;
+}
+
+export interface UpcomingExpiration {
+    policyId: number;
+    policyType: string | null;
+    policyNumber: string;
+    carrier: string | null;
+    endDate: string;
+    daysRemaining: number;
+}
+
+/**
+ * An open renewal_reminder monitoring event from the reminder job, not yet shown to the user
+ */
+export interface RenewalReminder {
+    eventId: number;
+    policyId: number;
+    policyType: string | null;
+    carrier: string | null;
+    endDate: string;
+    daysRemaining: number;
+}
+
+// A carrier-issued new number still counts as a renewal if the terms line up within this window
+const TERM_MATCH_WINDOW_DAYS = 45;
+
+// Premium moves smaller than this are not worth an event
+const PREMIUM_CHANGE_THRESHOLD_PCT = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ============================================
+// Loading Terms
+// ============================================
+
+const TERM_SELECT = `
+    id, user_id, policy_number, policy_type, carrier_id, start_date, end_date, total_premium,
+    carrier:carrier_id ( name ),
+    location ( dwelling ( dwelling_coverage ( coverage_type, coverage_amount, deductible ) ) ),
+    vehicle ( vin, make, model, year, vehicle_coverage ( coverage_type, coverage_limit, deductible ) ),
+    policy_forms ( form_name, form_number )
+`;
+
+function toNumber(value: unknown): number | null {
+    return value == null ? null : Number(value);
+}
+
+function rowToTerm(row: any): PolicyTerm {
+    const items: TermItem[] = [];
+
+    const dwellingCoverages = (row.location || [])
+        .flatMap((l: any) => l.dwelling || [])
+        .flatMap((d: any) => d.dwelling_coverage || [])
+        .map((c: any) => ({ label: c.coverage_type, limit: toNumber(c.coverage_amount), deductible: toNumber(c.deductible) }));
+    if (dwellingCoverages.length > 0) {
+        items.push({ key: 'dwelling', label: 'Dwelling', coverages: dwellingCoverages });
+    }
+
+    for (const vehicle of row.vehicle || []) {
+        const label = [vehicle.year, vehicle.make, vehicle.model].filter(Boolean).join(' ') || 'Vehicle';
+        items.push({
+            key: vehicle.vin ? `vin:${vehicle.vin.toUpperCase()}` : `vehicle:${label.toLowerCase()}`,
+            label,
+            coverages: (vehicle.vehicle_coverage || []).map((c: any) => ({
+                label: c.coverage_type,
+                limit: toNumber(c.coverage_limit),
+                deductible: toNumber(c.deductible),
+            })),
+        });
+    }
+
+    return {
+        id: row.id,
+        userId: row.user_id,
+        policyNumber: row.policy_number,
+        policyType: row.policy_type,
+        carrierId: row.carrier_id,
+        carrierName: row.carrier?.name || null,
+        startDate: row.start_date,
+        endDate: row.end_date,
+        totalPremium: toNumber(row.total_premium),
+        items,
+        endorsements: (row.policy_forms || []).map((f: any) => ({ name: f.form_name, formNumber: f.form_number })),
+    };
+}
+
+async function loadPolicyTerm(policyId: number): Promise<PolicyTerm | null> {
+    const { data, error } = await supabase
+        .from('policies')
+        .select(TERM_SELECT)
+        .eq('id', policyId)
+        .maybeSingle();
+
+    if (error) {
+        throw new Error(`Failed to load policy term: ${error.message}`);
+    }
+    return data ? rowToTerm(data) : null;
+}
+
+/**
+ * Finds the term this one renewed: same policy number first, otherwise the same
+ * line and carrier whose term ended around when this one started
+ */
+async function findPriorTerm(term: PolicyTerm): Promise<PolicyTerm | null> {
+    const { data: sameNumber, error } = await supabase
+        .from('policies')
+        .select(TERM_SELECT)
+        .eq('user_id', term.userId)
+        .eq('policy_number', term.policyNumber)
+        .lt('start_date', term.startDate)
+        .neq('id', term.id)
+        .order('start_date', { ascending: false })
+        .limit(1);
+
+    if (error) {
+        throw new Error(`Failed to look up prior term: ${error.message}`);
+    }
+    if (sameNumber && sameNumber.length > 0) {
+        return rowToTerm(sameNumber[0]);
+    }
+
+    if (!term.policyType || !term.carrierId) return null;
+
+    const start = new Date(term.startDate).getTime();
+    const { data: adjacent, error: adjacentError } = await supabase
+        .from('policies')
+        .select(TERM_SELECT)
+        .eq('user_id', term.userId)
+        .eq('policy_type', term.policyType)
+        .eq('carrier_id', term.carrierId)
+        .lt('start_date', term.startDate)
+        .gte('end_date', new Date(start - TERM_MATCH_WINDOW_DAYS * DAY_MS).toISOString().slice(0, 10))
+        .lte('end_date', new Date(start + TERM_MATCH_WINDOW_DAYS * DAY_MS).toISOString().slice(0, 10))
+        .neq('id', term.id)
+        .order('start_date', { ascending: false })
+        .limit(1);
+
+    if (adjacentError) {
+        throw new Error(`Failed to look up prior term: ${adjacentError.message}`);
+    }
+    return adjacent && adjacent.length > 0 ? rowToTerm(adjacent[0]) : null;
+}
+
+// ============================================
+// Diffing
+// ============================================
+
+// Coverage names vary between declarations pages ("BI" vs "Bodily Injury Liability")
+function coverageKey(label: string): string {
+    return normalizeCoverageType(label) || label.trim().toLowerCase();
+}
+
+function compareAmounts(
+    changes: RenewalChange[],
+    item: string,
+    coverage: string,
+    previous: number | null,
+    current: number | null,
+    kind: 'limit' | 'deductible'
+): void {
+    if (previous == null || current == null || previous === current) return;
+
+    const type: RenewalChangeType = kind === 'limit'
+        ? (current < previous ? 'limit_decrease' : 'limit_increase')
+        : (current > previous ? 'deductible_increase' : 'deductible_decrease');
+
+    changes.push({ type, item, coverage, previous, current });
+}
+
+// ISO form numbers carry an edition date ("HO 04 95 01 14") that changes between terms; match on the form itself
+function endorsementKey(endorsement: TermEndorsement): string {
+    if (endorsement.formNumber) {
+        const compact = endorsement.formNumber.toUpperCase().replace(/[^A-Z0-9]/g, '');
+        const edition = compact.match(/^([A-Z]+\d{4})\d{4}$/);
+        return `form:${edition ? edition[1] : compact}`;
+    }
+    return `name:${(endorsement.name || '').trim().toLowerCase()}`;
+}
+
+function endorsementLabel(endorsement: TermEndorsement): string {
+    if (endorsement.name && endorsement.formNumber) return `${endorsement.name} (${endorsement.formNumber})`;
+    return endorsement.name || endorsement.formNumber || 'Endorsement';
+}
+
+/**
+ * Compares two terms of the same policy. Pure - no I/O.
+ * Endorsements are only compared when both declarations pages list forms.
+ */
+export function diffPolicyTerms(previous: PolicyTerm, current: PolicyTerm): RenewalDiff {
+    const changes: RenewalChange[] = [];
+
+    let premiumChangePct: number | null = null;
+    if (previous.totalPremium && current.totalPremium != null) {
+        premiumChangePct = Math.round(((current.totalPremium - previous.totalPremium) / previous.totalPremium) * 1000) / 10;
+        if (Math.abs(premiumChangePct) >= PREMIUM_CHANGE_THRESHOLD_PCT) {
+            changes.push({
+                type: premiumChangePct > 0 ? 'premium_increase' : 'premium_decrease',
+                item: 'Policy',
+                previous: previous.totalPremium,
+                current: current.totalPremium,
+            });
+        }
+    }
+
+    const currentItems = new Map(current.items.map(i => [i.key, i]));
+    const previousItems = new Map(previous.items.map(i => [i.key, i]));
+
+    for (const prevItem of previous.items) {
+        const nextItem = currentItems.get(prevItem.key);
+        if (!nextItem) {
+            if (prevItem.key !== 'dwelling') {
+                changes.push({ type: 'vehicle_removed', item: prevItem.label, previous: null, current: null });
+            }
+            continue;
+        }
+
+        const nextCoverages = new Map(nextItem.coverages.map(c => [coverageKey(c.label), c]));
+        const prevCoverageKeys = new Set<string>();
+
+        for (const prevCoverage of prevItem.coverages) {
+            const key = coverageKey(prevCoverage.label);
+            prevCoverageKeys.add(key);
+            const nextCoverage = nextCoverages.get(key);
+
+            if (!nextCoverage) {
+                changes.push({
+                    type: 'coverage_removed',
+                    item: prevItem.label,
+                    coverage: prevCoverage.label,
+                    previous: prevCoverage.limit,
+                    current: null,
+                });
+                continue;
+            }
+
+            compareAmounts(changes, prevItem.label, prevCoverage.label, prevCoverage.limit, nextCoverage.limit, 'limit');
+            compareAmounts(changes, prevItem.label, prevCoverage.label, prevCoverage.deductible, nextCoverage.deductible, 'deductible');
+        }
+
+        for (const nextCoverage of nextItem.coverages) {
+            if (!prevCoverageKeys.has(coverageKey(nextCoverage.label))) {
+                changes.push({
+                    type: 'coverage_added',
+                    item: nextItem.label,
+                    coverage: nextCoverage.label,
+                    previous: null,
+                    current: nextCoverage.limit,
+                });
+            }
+        }
+    }
+
+    for (const nextItem of current.items) {
+        if (!previousItems.has(nextItem.key) && nextItem.key !== 'dwelling') {
+            changes.push({ type: 'vehicle_added', item: nextItem.label, previous: null, current: null });
+        }
+    }
+
+    if (previous.endorsements.length > 0 && current.endorsements.length > 0) {
+        const previousKeys = new Set(previous.endorsements.map(endorsementKey));
+        const currentKeys = new Set(current.endorsements.map(endorsementKey));
+
+        for (const endorsement of previous.endorsements) {
+            if (!currentKeys.has(endorsementKey(endorsement))) {
+                changes.push({ type: 'endorsement_removed', item: 'Policy', endorsement: endorsementLabel(endorsement), previous: null, current: null });
+            }
+        }
+        for (const endorsement of current.endorsements) {
+            if (!previousKeys.has(endorsementKey(endorsement))) {
+                changes.push({ type: 'endorsement_added', item: 'Policy', endorsement: endorsementLabel(endorsement), previous: null, current: null });
+            }
+        }
+    }
+
+    return {
+        previousPremium: previous.totalPremium,
+        newPremium: current.totalPremium,
+        premiumChangePct,
+        changes,
+    };
+}
+
+// ============================================
+// Summaries
+// ============================================
+
+// Dollar amounts are written the same way in both languages ("$1,000")
+function formatDollars(amount: number | null, language: Language): string {
+    if (amount == null) return language === 'es' ? 'desconocido' : 'unknown';
+    return `$${amount.toLocaleString('en-US', { maximumFractionDigits: 0 })}`;
+}
+
+const POLICY_TYPE_LABELS: Record<Language, Record<string, string>> = {
+    en: { auto: 'auto', home: 'home', renters: 'renters', umbrella: 'umbrella', life: 'life', health: 'health' },
+    es: { auto: 'auto', home: 'hogar', renters: 'inquilinos', umbrella: 'paraguas', life: 'vida', health: 'salud' },
+};
+
+const SUMMARY_MESSAGES: Record<Language, {
+    renewed: (carrier: string | null, policyType: string | null, startDate: string) => string;
+    premiumUnchanged: (premium: string) => string;
+    premiumUp: (previous: string, current: string, pct: string) => string;
+    premiumDown: (previous: string, current: string, pct: string) => string;
+    noChanges: string;
+    whatChanged: string;
+    onItem: (item: string) => string;
+    change: Record<Exclude<RenewalChangeType, 'premium_increase' | 'premium_decrease'>, (change: RenewalChange, previous: string, current: string, on: string) => string>;
+}> = {
+    en: {
+        renewed: (carrier, policyType, startDate) =>
+            `Renewal Guard: your ${carrier ? `${carrier} ` : ''}${policyType ? `${policyType} policy` : 'policy'} renewed for the term starting ${startDate}.`,
+        premiumUnchanged: premium => `Premium is unchanged at ${premium}.`,
+        premiumUp: (previous, current, pct) => `Premium went up from ${previous} to ${current} (${pct}%).`,
+        premiumDown: (previous, current, pct) => `Premium went down from ${previous} to ${current} (${pct}%).`,
+        noChanges: 'No changes to limits, deductibles, coverages or endorsements were found.',
+        whatChanged: 'What changed:',
+        onItem: item => ` on your ${item}`,
+        change: {
+            limit_decrease: (c, previous, current, on) => `${c.coverage} limit lowered from ${previous} to ${current}${on}`,
+            limit_increase: (c, previous, current, on) => `${c.coverage} limit raised from ${previous} to ${current}${on}`,
+            deductible_increase: (c, previous, current, on) => `${c.coverage} deductible raised from ${previous} to ${current}${on}`,
+            deductible_decrease: (c, previous, current, on) => `${c.coverage} deductible lowered from ${previous} to ${current}${on}`,
+            coverage_removed: (c, _previous, _current, on) => `${c.coverage} is no longer listed${on}`,
+            coverage_added: (c, _previous, _current, on) => `${c.coverage} was added${on}`,
+            vehicle_removed: c => `${c.item} is no longer on the policy`,
+            vehicle_added: c => `${c.item} was added to the policy`,
+            endorsement_removed: c => `Endorsement ${c.endorsement} was dropped`,
+            endorsement_added: c => `Endorsement ${c.endorsement} was added`,
+        },
+    },
+    es: {
+        renewed: (carrier, policyType, startDate) =>
+            `Renewal Guard: su póliza${policyType ? ` de ${policyType}` : ''}${carrier ? ` con ${carrier}` : ''} se renovó para el período que comienza el ${startDate}.`,
+        premiumUnchanged: premium => `La prima no cambió: ${premium}.`,
+        premiumUp: (previous, current, pct) => `La prima subió de ${previous} a ${current} (${pct}%).`,
+        premiumDown: (previous, current, pct) => `La prima bajó de ${previous} a ${current} (${pct}%).`,
+        noChanges: 'No se encontraron cambios en límites, deducibles, coberturas ni endosos.',
+        whatChanged: 'Qué cambió:',
+        onItem: item => ` en su ${item}`,
+        change: {
+            limit_decrease: (c, previous, current, on) => `El límite de ${c.coverage} bajó de ${previous} a ${current}${on}`,
+            limit_increase: (c, previous, current, on) => `El límite de ${c.coverage} subió de ${previous} a ${current}${on}`,
+            deductible_increase: (c, previous, current, on) => `El deducible de ${c.coverage} subió de ${previous} a ${current}${on}`,
+            deductible_decrease: (c, previous, current, on) => `El deducible de ${c.coverage} bajó de ${previous} a ${current}${on}`,
+            coverage_removed: (c, _previous, _current, on) => `${c.coverage} ya no aparece${on}`,
+            coverage_added: (c, _previous, _current, on) => `Se agregó ${c.coverage}${on}`,
+            vehicle_removed: c => `${c.item} ya no está en la póliza`,
+            vehicle_added: c => `Se agregó ${c.item} a la póliza`,
+            endorsement_removed: c => `Se eliminó el endoso ${c.endorsement}`,
+            endorsement_added: c => `Se agregó el endoso ${c.endorsement}`,
+        },
+    },
+};
+
+function describeChange(change: RenewalChange, language: Language): string {
+    if (change.type === 'premium_increase' || change.type === 'premium_decrease') return '';
+
+    const messages = SUMMARY_MESSAGES[language];
+    const on = change.item === 'Policy' || change.item === 'Dwelling' ? '' : messages.onItem(change.item);
+    const describe = messages.change[change.type];
+    return describe
+        ? describe(change, formatDollars(change.previous, language), formatDollars(change.current, language), on)
+        : '';
+}
+
+/**
+ * Term details the summary names; a PolicyTerm, or a stored renewal with its renewal date
+ */
+interface SummaryTerm {
+    policyType: string | null;
+    carrierName: string | null;
+    startDate: string;
+}
+
+/**
+ * Plain-language summary shown in chat after upload and on the profile page.
+ * Rendered from the structured diff, so stored renewals can be shown in either language.
+ */
+export function formatRenewalSummary(term: SummaryTerm, diff: RenewalDiff, language: Language = DEFAULT_LANGUAGE): string {
+    const messages = SUMMARY_MESSAGES[language];
+    const policyType = term.policyType ? POLICY_TYPE_LABELS[language][term.policyType] || null : null;
+    const lines = [messages.renewed(term.carrierName, policyType, term.startDate)];
+
+    if (diff.premiumChangePct != null && diff.previousPremium != null) {
+        const previous = formatDollars(diff.previousPremium, language);
+        const current = formatDollars(diff.newPremium, language);
+        const pct = `${diff.premiumChangePct > 0 ? '+' : ''}${diff.premiumChangePct}`;
+        lines.push(diff.premiumChangePct > 0
+            ? messages.premiumUp(previous, current, pct)
+            : diff.premiumChangePct < 0
+                ? messages.premiumDown(previous, current, pct)
+                : messages.premiumUnchanged(current));
+    }
+
+    const coverageChanges = diff.changes.filter(c => c.type !== 'premium_increase' && c.type !== 'premium_decrease');
+    if (coverageChanges.length === 0) {
+        lines.push(messages.noChanges);
+    } else {
+        lines.push(messages.whatChanged);
+        lines.push(...coverageChanges.map(c => `- ${describeChange(c, language)}`));
+    }
+
+    return lines.join('\n');
+}
+
+const REMINDER_MESSAGES: Record<Language, {
+    heading: string;
+    line: (policy: string, endDate: string, days: number) => string;
+    policy: (policyType: string | null, carrier: string | null) => string;
+    footer: string;
+}> = {
+    en: {
+        heading: 'Renewal reminder:',
+        line: (policy, endDate, days) => `- Your ${policy} ends on ${endDate} (${days === 1 ? '1 day' : `${days} days`} left).`,
+        policy: (policyType, carrier) => `${carrier ? `${carrier} ` : ''}${policyType ? `${policyType} policy` : 'policy'}`,
+        footer: 'Upload the renewal declarations page when it arrives and I will check what changed.',
+    },
+    es: {
+        heading: 'Recordatorio de renovación:',
+        line: (policy, endDate, days) => `- Su ${policy} vence el ${endDate} (${days === 1 ? 'queda 1 día' : `quedan ${days} días`}).`,
+        policy: (policyType, carrier) => `póliza${policyType ? ` de ${policyType}` : ''}${carrier ? ` con ${carrier}` : ''}`,
+        footer: 'Cuando reciba la página de declaraciones de la renovación, súbala y revisaré qué cambió.',
+    },
+};
+
+/**
+ * Notice appended to the next chat reply for reminders the job has opened
+ */
+export function formatRenewalReminderNotice(reminders: RenewalReminder[], language: Language = DEFAULT_LANGUAGE): string {
+    const messages = REMINDER_MESSAGES[language];
+    const lines = reminders.map(reminder => {
+        const policyType = reminder.policyType ? POLICY_TYPE_LABELS[language][reminder.policyType] || null : null;
+        return messages.line(messages.policy(policyType, reminder.carrier), reminder.endDate, reminder.daysRemaining);
+    });
+    return [messages.heading, ...lines, messages.footer].join('\n');
+}
+
+// ============================================
+// Recording
+// ============================================
+
+/**
+ * Checks whether a newly stored policy term renews an earlier one and, if so, records
+ * the policy_renewals row and monitoring events. Safe to call more than once per term.
+ * The stored summary is English; the returned one is in the given language.
+ */
+export async function processPolicyRenewal(
+    renewedPolicyId: number,
+    language: Language = DEFAULT_LANGUAGE
+): Promise<{ success: boolean; data?: { renewalId: number; summary: string; diff: RenewalDiff } | null; error?: string }> {
+    try {
+        const term = await loadPolicyTerm(renewedPolicyId);
+        if (!term) {
+            return { success: false, error: 'Policy not found' };
+        }
+
+        const prior = await findPriorTerm(term);
+        if (!prior) {
+            return { success: true, data: null };
+        }
+
+        const { data: existing } = await supabase
+            .from('policy_renewals')
+            .select('id, changes, previous_premium, new_premium, premium_change_pct')
+            .eq('renewed_policy_id', renewedPolicyId)
+            .maybeSingle();
+
+        if (existing) {
+            const existingDiff: RenewalDiff = {
+                previousPremium: toNumber(existing.previous_premium),
+                newPremium: toNumber(existing.new_premium),
+                premiumChangePct: toNumber(existing.premium_change_pct),
+                changes: existing.changes || [],
+            };
+            return {
+                success: true,
+                data: { renewalId: existing.id, summary: formatRenewalSummary(term, existingDiff, language), diff: existingDiff },
+            };
+        }
+
+        const diff = diffPolicyTerms(prior, term);
+        const summary = formatRenewalSummary(term, diff);
+        const renewed = {
+            policy_id: prior.id,
+            renewed_policy_id: term.id,
+            renewal_date: term.startDate,
+            status: 'renewed',
+            previous_premium: diff.previousPremium,
+            new_premium: diff.newPremium,
+            premium_change_pct: diff.premiumChangePct,
+            changes: diff.changes,
+            summary,
+        };
+
+        // The renewal reminder job opens a pending row for the prior term; complete it rather than adding a second
+        const { data: pending } = await supabase
+            .from('policy_renewals')
+            .select('id')
+            .eq('policy_id', prior.id)
+            .eq('status', 'pending')
+            .order('renewal_date', { ascending: false })
+            .limit(1)
+            .maybeSingle();
+
+        const { data: renewal, error: renewalError } = pending
+            ? await supabase.from('policy_renewals').update(renewed).eq('id', pending.id).select('id').single()
+            : await supabase.from('policy_renewals').insert(renewed).select('id').single();
+
+        if (renewalError) {
+            throw new Error(`Failed to record renewal: ${renewalError.message}`);
+        }
+
+        const detectedAt = new Date().toISOString();
+        const events = [
+            {
+                policy_id: term.id,
+                event_type: 'renewal_detected',
+                event_status: 'open',
+                detected_at: detectedAt,
+                details: { renewalId: renewal.id, previousPolicyId: prior.id, changeCount: diff.changes.length },
+            },
+            ...diff.changes.map(change => ({
+                policy_id: term.id,
+                event_type: change.type,
+                event_status: 'open',
+                detected_at: detectedAt,
+                details: { renewalId: renewal.id, ...change },
+            })),
+        ];
+
+        const { error: eventsError } = await supabase.from('monitoring').insert(events);
+        if (eventsError) {
+            console.warn(`⚠️ Failed to record renewal monitoring events: ${eventsError.message}`);
+        }
+
+        // The prior term is superseded
+        await supabase
+            .from('policies')
+            .update({ status: 'renewed', updated_at: detectedAt })
+            .eq('id', prior.id)
+            .eq('status', 'active');
+
+        console.log(`🔁 Renewal recorded for policy ${term.policyNumber}: ${diff.changes.length} change(s)`);
+        return { success: true, data: { renewalId: renewal.id, summary: formatRenewalSummary(term, diff, language), diff } };
+
+    } catch (error) {
+        console.error('❌ Renewal processing error:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+// ============================================
+// Queries
+// ============================================
+
+/**
+ * Completed renewals for a user, newest first, with summaries in the given language.
+ * Pending reminder rows are left out.
+ */
+export async function getUserRenewals(
+    internalUserId: number,
+    limit = 20,
+    db: SupabaseClient = supabase,
+    language: Language = DEFAULT_LANGUAGE
+): Promise<RenewalRecord[]> {
+    const { data, error } = await db
+        .from('policy_renewals')
+        .select(`
+            id, policy_id, renewed_policy_id, renewal_date, status, previous_premium, new_premium,
+            premium_change_pct, changes, summary, created_at,
+            policy:policies!policy_renewals_policy_id_fkey!inner ( user_id, policy_type, policy_number, carrier:carrier_id ( name ) )
+        `)
+        .eq('policy.user_id', internalUserId)
+        // Pending rows are reminders for terms that haven't renewed yet
+        .eq('status', 'renewed')
+        .order('renewal_date', { ascending: false })
+        .limit(limit);
+
+    if (error) {
+        throw new Error(`Failed to load renewals: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => {
+        const policyType = row.policy?.policy_type || null;
+        const carrier = row.policy?.carrier?.name || null;
+        const diff: RenewalDiff = {
+            previousPremium: toNumber(row.previous_premium),
+            newPremium: toNumber(row.new_premium),
+            premiumChangePct: toNumber(row.premium_change_pct),
+            changes: row.changes || [],
+        };
+
+        return {
+            id: row.id,
+            policyId: row.policy_id,
+            renewedPolicyId: row.renewed_policy_id,
+            renewalDate: row.renewal_date,
+            status: row.status,
+            policyType,
+            policyNumber: row.policy?.policy_number || null,
+            carrier,
+            previousPremium: diff.previousPremium,
+            newPremium: diff.newPremium,
+            premiumChangePct: diff.premiumChangePct,
+            changes: diff.changes,
+            summary: formatRenewalSummary({ policyType, carrierName: carrier, startDate: row.renewal_date }, diff, language),
+            createdAt: row.created_at,
+        };
+    });
+}
+
+/**
+ * Active policies whose term ends within the window
+ */
+export async function getUpcomingExpirations(
+    internalUserId: number,
+    withinDays = 60,
+    db: SupabaseClient = supabase
+): Promise<UpcomingExpiration[]> {
+    const today = new Date();
+    const todayDate = today.toISOString().slice(0, 10);
+    const until = new Date(today.getTime() + withinDays * DAY_MS).toISOString().slice(0, 10);
+
+    const { data, error } = await db
+        .from('policies')
+        .select('id, policy_type, policy_number, end_date, carrier:carrier_id ( name )')
+        .eq('user_id', internalUserId)
+        .eq('status', 'active')
+        .gte('end_date', todayDate)
+        .lte('end_date', until)
+        .order('end_date', { ascending: true });
+
+    if (error) {
+        throw new Error(`Failed to load expirations: ${error.message}`);
+    }
+
+    return (data || []).map((row: any) => ({
+        policyId: row.id,
+        policyType: row.policy_type,
+        policyNumber: row.policy_number,
+        carrier: row.carrier?.name || null,
+        endDate: row.end_date,
+        daysRemaining: Math.ceil((new Date(row.end_date).getTime() - new Date(todayDate).getTime()) / DAY_MS),
+    }));
+}
+
+/**
+ * Open renewal reminders for the user's active, not yet expired policies, one per policy, soonest first
+ */
+export async function getOpenRenewalReminders(
+    internalUserId: number,
+    db: SupabaseClient = supabase
+): Promise<RenewalReminder[]> {
+    const todayDate = new Date().toISOString().slice(0, 10);
+
+    const { data, error } = await db
+        .from('monitoring')
+        .select('id, policy_id, policy:policies!inner ( user_id, status, policy_type, end_date, carrier:carrier_id ( name ) )')
+        .eq('event_type', 'renewal_reminder')
+        .eq('event_status', 'open')
+        .eq('policy.user_id', internalUserId)
+        // Renewed or lapsed terms drop out on their own
+        .eq('policy.status', 'active')
+        .gte('policy.end_date', todayDate)
+        .order('detected_at', { ascending: false });
+
+    if (error) {
+        throw new Error(`Failed to load renewal reminders: ${error.message}`);
+    }
+
+    // The job opens one event per threshold (30 and 7 days); keep the latest per policy
+    const byPolicy = new Map<number, RenewalReminder>();
+    for (const row of (data || []) as any[]) {
+        if (byPolicy.has(row.policy_id)) continue;
+        byPolicy.set(row.policy_id, {
+            eventId: row.id,
+            policyId: row.policy_id,
+            policyType: row.policy?.policy_type || null,
+            carrier: row.policy?.carrier?.name || null,
+            endDate: row.policy.end_date,
+            daysRemaining: Math.ceil((new Date(row.policy.end_date).getTime() - new Date(todayDate).getTime()) / DAY_MS),
+        });
+    }
+
+    return [...byPolicy.values()].sort((a, b) => a.daysRemaining - b.daysRemaining);
+}
+
+/**
+ * Marks the user's open reminders for these policies as seen, including earlier thresholds
+ */
+export async function acknowledgeRenewalReminders(
+    policyIds: number[],
+    db: SupabaseClient = supabase
+): Promise<void> {
+    if (policyIds.length === 0) return;
+
+    const { error } = await db
+        .from('monitoring')
+        .update({ event_status: 'acknowledged' })
+        .eq('event_type', 'renewal_reminder')
+        .eq('event_status', 'open')
+        .in('policy_id', policyIds);
+
+    if (error) {
+        console.warn(`⚠️ Failed to acknowledge renewal reminders: ${error.message}`);
+    }
+}
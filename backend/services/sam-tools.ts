@@ -0,0 +1,254 @@
+// backend/services/sam-tools.ts
+// Typed account tools Sam can call in a chat. Each tool is implemented here against the
+// signed-in user resolved from the session - the model only picks a tool and its arguments,
+// never writes SQL, and no argument can name another user. Queries run through the user's own
+// client, so RLS applies as well.
+
+import { z } from 'zod';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { ToolDeclaration } from '../lib/model-client';
+import { getInternalUserId } from './account-deletion';
+import { getPolicyStore } from './policy-store';
+import { loadAuditPolicy } from './protection-audit';
+import { getUpcomingExpirations } from './renewal-guard';
+
+// ============================================
+// Types
+// ============================================
+
+// Who the tools run for - fixed when the toolbox is created, never taken from the model
+interface ToolUser {
+    authUserId: string;
+    internalUserId: number;
+    /** Client bound to the user's access token */
+    db: SupabaseClient;
+}
+
+interface SamTool {
+    declaration: ToolDeclaration;
+    /** Arguments the model may pass; unknown keys are rejected */
+    args: z.ZodTypeAny;
+    run: (user: ToolUser, args: any) => Promise<object>;
+}
+
+/**
+ * Tools bound to one user for one chat turn
+ */
+export interface SamToolbox {
+    declarations: ToolDeclaration[];
+    /** Never throws - failures come back as { error } for the model to explain */
+    execute(name: string, args: Record<string, unknown>): Promise<object>;
+}
+
+// ============================================
+// Tools
+// ============================================
+
+const policyIdArgs = z.object({
+    policyId: z.number().int().positive(),
+}).strict();
+
+const POLICY_ID_PARAMETERS = {
+    type: 'OBJECT',
+    properties: {
+        policyId: { type: 'INTEGER', description: 'Policy id from list_my_policies' },
+    },
+    required: ['policyId'],
+};
+
+const listMyPolicies: SamTool = {
+    declaration: {
+        name: 'list_my_policies',
+        description: "List the customer's policies (id, type, carrier, policy number, term dates, premium, status) and the policy documents they uploaded",
+    },
+    args: z.object({}).strict(),
+    async run(user) {
+        const { data, error } = await user.db
+            .from('policies')
+            .select('id, policy_type, policy_number, status, start_date, end_date, total_premium, carrier:carrier_id ( name )')
+            .eq('user_id', user.internalUserId)
+            .order('start_date', { ascending: false });
+
+        if (error) throw error;
+
+        const documents = await getPolicyStore().listPolicies(user.authUserId);
+
+        return {
+            policies: (data || []).map((row: any) => ({
+                policyId: row.id,
+                policyType: row.policy_type,
+                carrier: row.carrier?.name || null,
+                policyNumber: row.policy_number,
+                status: row.status,
+                startDate: row.start_date,
+                endDate: row.end_date,
+                totalPremium: row.total_premium === null ? null : Number(row.total_premium),
+            })),
+            documentsOnFile: documents.map(document => ({
+                policyType: document.policyType,
+                carrier: document.carrier,
+                uploadedAt: new Date(document.timestamp).toISOString(),
+            })),
+        };
+    },
+};
+
+const getCoverageLimits: SamTool = {
+    declaration: {
+        name: 'get_coverage_limits',
+        description: 'Coverage limits on one of the customer\'s policies (liability, dwelling, UM/UIM, medical payments, ...)',
+        parameters: POLICY_ID_PARAMETERS,
+    },
+    args: policyIdArgs,
+    async run(user, { policyId }: z.infer<typeof policyIdArgs>) {
+        const policy = await loadAuditPolicy(user.internalUserId, policyId, user.db);
+        if (!policy) return { error: 'Policy not found' };
+
+        return {
+            policyId,
+            policyType: policy.policyType,
+            carrier: policy.carrier,
+            policyNumber: policy.policyNumber,
+            limits: policy.coverages
+                .filter(coverage => coverage.limit !== null)
+                .map(coverage => ({ coverage: coverage.label, limit: coverage.limit })),
+        };
+    },
+};
+
+const getDeductibles: SamTool = {
+    declaration: {
+        name: 'get_deductibles',
+        description: 'Deductibles on one of the customer\'s policies (collision, comprehensive, all perils, wind/hail, ...)',
+        parameters: POLICY_ID_PARAMETERS,
+    },
+    args: policyIdArgs,
+    async run(user, { policyId }: z.infer<typeof policyIdArgs>) {
+        const policy = await loadAuditPolicy(user.internalUserId, policyId, user.db);
+        if (!policy) return { error: 'Policy not found' };
+
+        return {
+            policyId,
+            policyType: policy.policyType,
+            carrier: policy.carrier,
+            policyNumber: policy.policyNumber,
+            deductibles: policy.coverages
+                .filter(coverage => coverage.deductible !== null)
+                .map(coverage => ({ coverage: coverage.label, deductible: coverage.deductible })),
+        };
+    },
+};
+
+const claimsArgs = z.object({
+    status: z.string().trim().min(1).max(30).optional(),
+}).strict();
+
+const listMyClaims: SamTool = {
+    declaration: {
+        name: 'list_my_claims',
+        description: "List the customer's insurance claims, newest first (claim number, type, date, amounts, status and the policy it was filed on)",
+        parameters: {
+            type: 'OBJECT',
+            properties: {
+                status: { type: 'STRING', description: 'Only claims with this status, e.g. draft (report in progress), ready (report finished), pending, approved, denied, closed' },
+            },
+        },
+    },
+    args: claimsArgs,
+    async run(user, { status }: z.infer<typeof claimsArgs>) {
+        let query = user.db
+            .from('claims')
+            .select('claim_number, claim_type, description, claim_date, amount_requested, amount_approved, status, policy:policy_id ( policy_number, policy_type )')
+            .eq('user_id', user.internalUserId)
+            .order('claim_date', { ascending: false })
+            .limit(20);
+
+        if (status) {
+            query = query.eq('status', status.toLowerCase());
+        }
+
+        const { data, error } = await query;
+        if (error) throw error;
+
+        return {
+            claims: (data || []).map((row: any) => ({
+                claimNumber: row.claim_number,
+                claimType: row.claim_type,
+                description: row.description,
+                claimDate: row.claim_date,
+                amountRequested: row.amount_requested === null ? null : Number(row.amount_requested),
+                amountApproved: row.amount_approved === null ? null : Number(row.amount_approved),
+                status: row.status,
+                policyNumber: row.policy?.policy_number || null,
+                policyType: row.policy?.policy_type || null,
+            })),
+        };
+    },
+};
+
+const renewalArgs = z.object({
+    withinDays: z.number().int().min(1).max(730).optional().default(365),
+}).strict();
+
+const getRenewalDates: SamTool = {
+    declaration: {
+        name: 'get_renewal_dates',
+        description: "When the customer's active policies expire or renew, soonest first",
+        parameters: {
+            type: 'OBJECT',
+            properties: {
+                withinDays: { type: 'INTEGER', description: 'Only terms ending within this many days (default 365)' },
+            },
+        },
+    },
+    args: renewalArgs,
+    async run(user, { withinDays }: z.infer<typeof renewalArgs>) {
+        const expirations = await getUpcomingExpirations(user.internalUserId, withinDays, user.db);
+        return { withinDays, renewals: expirations };
+    },
+};
+
+const SAM_TOOLS: SamTool[] = [listMyPolicies, getCoverageLimits, getDeductibles, listMyClaims, getRenewalDates];
+
+// ============================================
+// Toolbox
+// ============================================
+
+/**
+ * The account tools for a signed-in user. The internal user id is looked up once, on the first call.
+ */
+export function createSamToolbox(authUserId: string, db: SupabaseClient): SamToolbox {
+    let internalUserId: Promise<number | null> | null = null;
+
+    return {
+        declarations: SAM_TOOLS.map(tool => tool.declaration),
+
+        async execute(name, args) {
+            const tool = SAM_TOOLS.find(candidate => candidate.declaration.name === name);
+            if (!tool) {
+                console.warn(`⚠️ [Tools] Unknown tool requested: ${name}`);
+                return { error: `Unknown tool "${name}"` };
+            }
+
+            const parsed = tool.args.safeParse(args || {});
+            if (!parsed.success) {
+                console.warn(`⚠️ [Tools] Invalid arguments for ${name}:`, parsed.error.issues);
+                return { error: `Invalid arguments: ${parsed.error.issues.map(issue => `${issue.path.join('.') || 'arguments'} ${issue.message}`).join('; ')}` };
+            }
+
+            try {
+                internalUserId ??= getInternalUserId(authUserId, db);
+                const userId = await internalUserId;
+                if (!userId) {
+                    return { error: 'No account data found for this customer' };
+                }
+
+                console.log(`🧰 [Tools] ${name}`);
+                return await tool.run({ authUserId, internalUserId: userId, db }, parsed.data);
+            } catch (error) {
+                console.error(`❌ [Tools] ${name} failed:`, error);
+                return { error: 'Lookup failed' };
+            }
+        },
+    };
+}
@@ -1,27 +1,11 @@
 // backend/services/session-summary.ts
-import { VertexAI } from '@google-cloud/vertexai';
 import dotenv from 'dotenv';
 import { supabase } from '../lib/supabase';
+import { getModelClient } from '../lib/model-registry';
+import { renderPrompt } from '../lib/prompt-registry';
 
 dotenv.config();
 
-const PROJECT_ID = process.env.GOOGLE_PROJECT_ID;
-
-if (!PROJECT_ID) {
-    console.error('❌ GOOGLE_PROJECT_ID environment variable is not set');
-    throw new Error('Missing GOOGLE_PROJECT_ID environment variable');
-}
-
-// Initialize Vertex AI with Gemini Flash for quick summaries
-const vertexAI = new VertexAI({
-    project: PROJECT_ID,
-    location: 'us-central1',
-});
-
-const model = vertexAI.getGenerativeModel({
-    model: 'gemini-2.0-flash-lite',
-});
-
 /**
  * Get or generate a summary for a chat session.
  * First checks the database, then generates if not found.
@@ -68,16 +52,10 @@ async function generateSummaryFromMessages(
         .join('\n');
 
     try {
-        const prompt = `Based on these chat messages from an insurance advisor conversation, generate a very short title (4-5 words max) that describes what the conversation is about. Just respond with the title, nothing else.
-
-Messages:
-${contextMessages}
-
-Title:`;
+        const prompt = renderPrompt('session_title', { messages: contextMessages });
 
-        const result = await model.generateContent(prompt);
-        const response = result.response;
-        const summary = response.candidates?.[0]?.content?.parts?.[0]?.text?.trim() || "Insurance inquiry";
+        const result = await getModelClient('session_summary').generate(prompt);
+        const summary = result.text.trim() || "Insurance inquiry";
 
         // Clean up the summary (remove quotes, limit length)
         let cleanSummary = summary
@@ -0,0 +1,119 @@
+// backend/services/state-regulations.ts
+// Lookup and prompt formatting for the state regulatory dataset
+
+import {
+    STATE_REGULATIONS,
+    STATE_REGULATIONS_VERSION,
+    StateRegulation,
+    LiabilityMinimums,
+    RequirementLevel,
+    NoFaultSystem,
+} from '../lib/state-regulations-data';
+import { getPolicyStore } from './policy-store';
+
+export { STATE_REGULATIONS_VERSION };
+export type { StateRegulation };
+
+// ============================================
+// Lookup
+// ============================================
+
+const STATE_CODES_BY_NAME = new Map(
+    Object.values(STATE_REGULATIONS).map(reg => [reg.name.toLowerCase(), reg.state])
+);
+
+/**
+ * Normalizes a 2-letter code or full state name ("ca", "California") to a code we have data for
+ */
+export function normalizeStateCode(state: string | null | undefined): string | null {
+    if (!state) return null;
+    const trimmed = state.trim();
+
+    const code = trimmed.toUpperCase();
+    if (STATE_REGULATIONS[code]) return code;
+
+    return STATE_CODES_BY_NAME.get(trimmed.toLowerCase()) || null;
+}
+
+export function getStateRegulation(state: string | null | undefined): StateRegulation | null {
+    const code = normalizeStateCode(state);
+    return code ? STATE_REGULATIONS[code] : null;
+}
+
+/**
+ * Finds the insured state from the location on the user's extracted policies (newest first)
+ */
+export async function getUserPolicyState(userId: string): Promise<string | null> {
+    const policies = await getPolicyStore().listPolicies(userId);
+
+    for (const policy of policies) {
+        // In-process uploads carry structuredPolicy; rows loaded from user_documents carry extracted_data.structured
+        const structured = policy.rawData?.structuredPolicy || policy.rawData?.structured;
+        const code = normalizeStateCode(structured?.location?.state?.value);
+        if (code) return code;
+    }
+
+    return null;
+}
+
+// ============================================
+// Prompt Formatting
+// ============================================
+
+function formatLimits(limits: LiabilityMinimums): string {
+    const k = (amount: number | null) => (amount == null ? 'none' : String(amount / 1000));
+    if (limits.bodilyInjuryPerPerson == null) {
+        return `no bodily injury minimum, $${limits.propertyDamage.toLocaleString('en-US')} property damage`;
+    }
+    return `${k(limits.bodilyInjuryPerPerson)}/${k(limits.bodilyInjuryPerAccident)}/${k(limits.propertyDamage)}`;
+}
+
+const REQUIREMENT_LABELS: Record<RequirementLevel, string> = {
+    required: 'required',
+    mandatory_offer: 'must be offered (can be rejected in writing)',
+    optional: 'optional',
+};
+
+const NO_FAULT_LABELS: Record<NoFaultSystem, string> = {
+    no_fault: 'no-fault state',
+    choice_no_fault: 'choice no-fault state',
+    add_on: 'tort state with add-on PIP',
+    tort: 'tort (at-fault) state',
+};
+
+/**
+ * Renders one state's rules as a prompt block. Agents must treat these as the
+ * authoritative figures instead of recalling minimums from memory.
+ */
+export function formatStateRegulationForPrompt(reg: StateRegulation): string {
+    const { auto, home } = reg;
+
+    const lines = [
+        `- Auto liability minimums: ${formatLimits(auto.liability)}`,
+        `- UM/UIM: ${REQUIREMENT_LABELS[auto.umUim]}`,
+        `- Fault system: ${NO_FAULT_LABELS[auto.noFault]}`,
+        `- PIP: ${auto.pip
+            ? `${REQUIREMENT_LABELS[auto.pip.level]}${auto.pip.minimum ? ` ($${auto.pip.minimum.toLocaleString('en-US')} minimum)` : ''}`
+            : 'not part of the state system'}`,
+        `- Named-storm/hurricane deductibles: ${home.namedStormDeductibles ? 'permitted - check the percentage deductible' : 'not used'}`,
+        `- Valued policy law: ${home.valuedPolicyLaw ? 'yes' : 'no'}`,
+    ];
+
+    if (home.mandatoryOffers.length > 0) {
+        lines.push(`- Homeowners mandatory offers: ${home.mandatoryOffers.join('; ')}`);
+    }
+    for (const note of reg.notes) {
+        lines.push(`- Note: ${note}`);
+    }
+
+    return `STATE RULES FOR ${reg.name.toUpperCase()} (${reg.state}) - regulatory dataset v${STATE_REGULATIONS_VERSION}. Use these figures, not recalled ones:
+${lines.join('\n')}`;
+}
+
+/**
+ * Prompt block for a state, or empty string when the state is unknown or unsupported
+ */
+export function getStatePromptContext(state: string | null | undefined): string {
+    const reg = getStateRegulation(state);
+    return reg ? formatStateRegulationForPrompt(reg) : '';
+}
@@ -0,0 +1,456 @@
+// backend/services/user-memory.ts
+// Long-term memory: durable household facts extracted from chat, kept once the user confirms them
+
+import { z } from 'zod';
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { getModelClient } from '../lib/model-registry';
+import { getInternalUserId } from './account-deletion';
+import type { ProfileFacts } from './protection-audit';
+
+// ============================================
+// Types
+// ============================================
+
+export const PROFILE_FACT_KEYS = [
+    'state',
+    'household_size',
+    'teen_drivers',
+    'has_pool',
+    'has_trampoline',
+    'has_dog',
+    'owns_home',
+    'rental_properties',
+    'net_worth_band',
+] as const;
+
+export type ProfileFactKey = typeof PROFILE_FACT_KEYS[number];
+
+export const NET_WORTH_BANDS = ['under_250k', '250k_500k', '500k_1m', '1m_2m', '2m_5m', 'over_5m'] as const;
+
+export type NetWorthBand = typeof NET_WORTH_BANDS[number];
+
+export type ProfileFactStatus = 'proposed' | 'confirmed' | 'rejected';
+
+export type ProfileFactValue = string | number | boolean;
+
+export interface ProfileFact {
+    id: number;
+    key: ProfileFactKey;
+    value: ProfileFactValue;
+    /** Human-readable statement, e.g. "Has a swimming pool" */
+    label: string;
+    status: ProfileFactStatus;
+    /** What the user said that implies the fact */
+    evidence: string | null;
+    confidence: number | null;
+    sourceConversationId: number | null;
+    createdAt: string;
+    confirmedAt: string | null;
+}
+
+interface FactDefinition {
+    schema: z.ZodType<ProfileFactValue>;
+    describe: (value: any) => string;
+}
+
+const BAND_LABELS: Record<NetWorthBand, string> = {
+    under_250k: 'under $250k',
+    '250k_500k': '$250k-$500k',
+    '500k_1m': '$500k-$1M',
+    '1m_2m': '$1M-$2M',
+    '2m_5m': '$2M-$5M',
+    over_5m: 'over $5M',
+};
+
+// Representative net worth for each band - the protection audit only needs the bracket
+const BAND_NET_WORTH: Record<NetWorthBand, number> = {
+    under_250k: 100_000,
+    '250k_500k': 375_000,
+    '500k_1m': 750_000,
+    '1m_2m': 1_500_000,
+    '2m_5m': 3_500_000,
+    over_5m: 5_000_000,
+};
+
+const count = z.number().int().min(0).max(20);
+
+const FACT_DEFINITIONS: Record<ProfileFactKey, FactDefinition> = {
+    state: {
+        schema: z.string().regex(/^[A-Za-z]{2}$/).transform(s => s.toUpperCase()),
+        describe: (v: string) => `Lives in ${v}`,
+    },
+    household_size: {
+        schema: count.min(1),
+        describe: (v: number) => `Household of ${v}`,
+    },
+    teen_drivers: {
+        schema: count,
+        describe: (v: number) => (v === 0 ? 'No teen drivers' : `${v} teen driver${v === 1 ? '' : 's'}`),
+    },
+    has_pool: {
+        schema: z.boolean(),
+        describe: (v: boolean) => (v ? 'Has a swimming pool' : 'No swimming pool'),
+    },
+    has_trampoline: {
+        schema: z.boolean(),
+        describe: (v: boolean) => (v ? 'Has a trampoline' : 'No trampoline'),
+    },
+    has_dog: {
+        schema: z.boolean(),
+        describe: (v: boolean) => (v ? 'Has a dog' : 'No dog'),
+    },
+    owns_home: {
+        schema: z.boolean(),
+        describe: (v: boolean) => (v ? 'Owns their home' : 'Rents their home'),
+    },
+    rental_properties: {
+        schema: count,
+        describe: (v: number) => (v === 0 ? 'No rental properties' : `${v} rental propert${v === 1 ? 'y' : 'ies'}`),
+    },
+    net_worth_band: {
+        schema: z.enum(NET_WORTH_BANDS),
+        describe: (v: NetWorthBand) => `Net worth ${BAND_LABELS[v] || v}`,
+    },
+};
+
+// Below this the extractor is guessing - not worth asking the user about
+const MIN_PROPOSAL_CONFIDENCE = 0.6;
+
+function describeFact(key: ProfileFactKey, value: ProfileFactValue): string {
+    return FACT_DEFINITIONS[key].describe(value);
+}
+
+function toProfileFact(row: any): ProfileFact {
+    return {
+        id: row.id,
+        key: row.fact_key,
+        value: row.value,
+        label: describeFact(row.fact_key, row.value),
+        status: row.status,
+        evidence: row.evidence,
+        confidence: row.confidence != null ? Number(row.confidence) : null,
+        sourceConversationId: row.source_conversation_id,
+        createdAt: row.created_at,
+        confirmedAt: row.confirmed_at,
+    };
+}
+
+// ============================================
+// Extraction
+// ============================================
+
+const extractionSchema = z.object({
+    facts: z.array(z.object({
+        key: z.enum(PROFILE_FACT_KEYS),
+        value: z.union([z.string(), z.number(), z.boolean()]),
+        evidence: z.string().default(''),
+        confidence: z.number().min(0).max(1),
+    })).default([]),
+});
+
+export interface ExtractedFact {
+    key: ProfileFactKey;
+    value: ProfileFactValue;
+    evidence: string;
+    confidence: number;
+}
+
+const EXTRACTION_PROMPT = `You maintain the long-term profile of an insurance customer. Read one exchange and list durable facts the CUSTOMER stated about their own household.
+
+Return ONLY a JSON object:
+{"facts": [{"key": string, "value": string | number | boolean, "evidence": string, "confidence": number}]}
+
+Keys and values:
+- "state": two-letter US state code where they live
+- "household_size": number of people in the household
+- "teen_drivers": number of drivers aged 15-19 in the household
+- "has_pool", "has_trampoline", "has_dog": true or false
+- "owns_home": true if they own, false if they rent
+- "rental_properties": number of properties they rent out
+- "net_worth_band": one of ${NET_WORTH_BANDS.join(', ')}
+
+Rules:
+- Only facts about the customer's own situation, stated or clearly implied by the customer - never from the advisor's reply, hypotheticals or questions ("what if I got a pool?")
+- evidence - the customer's words, quoted briefly in the language they wrote in (English or Spanish)
+- confidence - 0 to 1
+- Skip facts already in the known profile unless the customer says they changed
+- Return {"facts": []} when there is nothing durable`;
+
+/**
+ * Asks the model for durable facts in one exchange. Never throws - a failed call yields no facts.
+ */
+export async function extractProfileFacts(
+    userMessage: string,
+    assistantReply: string,
+    known: ProfileFact[] = []
+): Promise<ExtractedFact[]> {
+    const knownProfile = known.map(fact => `- ${fact.key}: ${JSON.stringify(fact.value)}`).join('\n');
+    const prompt = `${EXTRACTION_PROMPT}
+${knownProfile ? `\nKnown profile:\n${knownProfile}\n` : ''}
+Customer: "${userMessage.slice(0, 2000)}"
+Advisor: "${assistantReply.slice(0, 1000)}"`;
+
+    try {
+        const result = await getModelClient('memory_extraction').generate(prompt, {
+            temperature: 0,
+            maxOutputTokens: 512,
+            responseMimeType: 'application/json',
+        });
+
+        // Strip markdown fences in case the model ignores the JSON mime type
+        const jsonText = result.text.replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '').trim();
+        const validation = extractionSchema.safeParse(JSON.parse(jsonText));
+        if (!validation.success) {
+            console.warn('⚠️ Memory extraction returned an unexpected shape:', validation.error.issues.slice(0, 3));
+            return [];
+        }
+
+        // Values are checked per key - drop any the model got the wrong type for
+        return validation.data.facts.flatMap(fact => {
+            const value = FACT_DEFINITIONS[fact.key].schema.safeParse(fact.value);
+            return value.success ? [{ ...fact, value: value.data }] : [];
+        });
+    } catch (error) {
+        console.warn('⚠️ Memory extraction failed:', error);
+        return [];
+    }
+}
+
+// ============================================
+// Storage
+// ============================================
+
+/**
+ * The user's own household profile, created the first time a fact is stored
+ */
+async function getOrCreateProfileId(internalUserId: number): Promise<number> {
+    const { data: existing, error: selectError } = await supabase
+        .from('user_profiles')
+        .select('id')
+        .eq('user_id', internalUserId)
+        .order('created_at', { ascending: true })
+        .limit(1)
+        .maybeSingle();
+
+    if (selectError) throw selectError;
+    if (existing) return existing.id;
+
+    const { data, error } = await supabase
+        .from('user_profiles')
+        .insert({ user_id: internalUserId, profile_name: 'My household', profile_type: 'individual' })
+        .select('id')
+        .single();
+
+    if (error) throw error;
+    return data.id;
+}
+
+/**
+ * Confirmed and pending facts for a user (rejected ones are kept only to avoid re-proposing)
+ */
+export async function listProfileFacts(internalUserId: number, db: SupabaseClient = supabase): Promise<ProfileFact[]> {
+    const { data, error } = await db
+        .from('user_profile_facts')
+        .select('*')
+        .eq('user_id', internalUserId)
+        .in('status', ['proposed', 'confirmed'])
+        .order('created_at', { ascending: false });
+
+    if (error) throw error;
+    return (data || []).map(toProfileFact);
+}
+
+/**
+ * Extracts facts from one exchange and stores the new ones as proposals for the user to
+ * confirm. Values the user already confirmed or dismissed are not proposed again.
+ */
+export async function proposeFactsFromExchange(
+    authUserId: string,
+    exchange: { userMessage: string; assistantReply: string; conversationId?: number | null }
+): Promise<{ success: boolean; data?: ProfileFact[]; error?: string }> {
+    try {
+        const internalUserId = await getInternalUserId(authUserId);
+        if (!internalUserId) {
+            return { success: false, error: 'User not found' };
+        }
+
+        const { data: rows, error } = await supabase
+            .from('user_profile_facts')
+            .select('*')
+            .eq('user_id', internalUserId);
+
+        if (error) throw error;
+        const stored = (rows || []).map(toProfileFact);
+
+        const extracted = await extractProfileFacts(
+            exchange.userMessage,
+            exchange.assistantReply,
+            stored.filter(fact => fact.status === 'confirmed')
+        );
+
+        const settled = (fact: ExtractedFact) => stored.some(s =>
+            s.key === fact.key && s.status !== 'proposed' && JSON.stringify(s.value) === JSON.stringify(fact.value)
+        );
+        const proposals = extracted.filter(fact => fact.confidence >= MIN_PROPOSAL_CONFIDENCE && !settled(fact));
+        if (proposals.length === 0) {
+            return { success: true, data: [] };
+        }
+
+        // A newer proposal for the same fact replaces the pending one
+        const profileId = await getOrCreateProfileId(internalUserId);
+        await supabase
+            .from('user_profile_facts')
+            .delete()
+            .eq('user_id', internalUserId)
+            .eq('status', 'proposed')
+            .in('fact_key', proposals.map(fact => fact.key));
+
+        const { data: inserted, error: insertError } = await supabase
+            .from('user_profile_facts')
+            .insert(proposals.map(fact => ({
+                profile_id: profileId,
+                user_id: internalUserId,
+                fact_key: fact.key,
+                value: fact.value,
+                status: 'proposed',
+                evidence: fact.evidence.slice(0, 500) || null,
+                confidence: fact.confidence,
+                source_conversation_id: exchange.conversationId ?? null,
+            })))
+            .select('*');
+
+        if (insertError) throw insertError;
+
+        console.log(`🧠 Proposed ${proposals.length} profile fact(s) for ${authUserId}: ${proposals.map(f => f.key).join(', ')}`);
+        return { success: true, data: (inserted || []).map(toProfileFact) };
+
+    } catch (error) {
+        console.error('❌ Failed to propose profile facts:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+/**
+ * Confirms or dismisses a proposed fact. Confirming replaces any previously confirmed value.
+ */
+export async function reviewProfileFact(
+    internalUserId: number,
+    factId: number,
+    status: 'confirmed' | 'rejected'
+): Promise<{ success: boolean; data?: ProfileFact; error?: string }> {
+    try {
+        const { data: fact, error } = await supabase
+            .from('user_profile_facts')
+            .select('*')
+            .eq('id', factId)
+            .eq('user_id', internalUserId)
+            .maybeSingle();
+
+        if (error) throw error;
+        if (!fact) {
+            return { success: false, error: 'Fact not found' };
+        }
+        if (fact.status !== 'proposed') {
+            return { success: false, error: `Fact is already ${fact.status}` };
+        }
+
+        if (status === 'confirmed') {
+            await supabase
+                .from('user_profile_facts')
+                .delete()
+                .eq('user_id', internalUserId)
+                .eq('fact_key', fact.fact_key)
+                .eq('status', 'confirmed');
+        }
+
+        const now = new Date().toISOString();
+        const { data: updated, error: updateError } = await supabase
+            .from('user_profile_facts')
+            .update({ status, updated_at: now, confirmed_at: status === 'confirmed' ? now : null })
+            .eq('id', factId)
+            .select('*')
+            .single();
+
+        if (updateError) throw updateError;
+        return { success: true, data: toProfileFact(updated) };
+
+    } catch (error) {
+        console.error('❌ Failed to review profile fact:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
+
+/**
+ * Forgets a fact entirely - it may be proposed again if the user mentions it later
+ */
+export async function deleteProfileFact(
+    internalUserId: number,
+    factId: number
+): Promise<{ success: boolean; error?: string }> {
+    const { data, error } = await supabase
+        .from('user_profile_facts')
+        .delete()
+        .eq('id', factId)
+        .eq('user_id', internalUserId)
+        .select('id');
+
+    if (error) {
+        console.error('❌ Failed to delete profile fact:', error);
+        return { success: false, error: error.message };
+    }
+    if (!data || data.length === 0) {
+        return { success: false, error: 'Fact not found' };
+    }
+    return { success: true };
+}
+
+// ============================================
+// Prompt Grounding
+// ============================================
+
+/**
+ * Facts the user has confirmed - what agents may rely on. Never throws: memory is
+ * optional grounding and must not block a reply.
+ */
+export async function listConfirmedProfileFacts(internalUserId: number, db: SupabaseClient = supabase): Promise<ProfileFact[]> {
+    try {
+        const facts = await listProfileFacts(internalUserId, db);
+        return facts.filter(fact => fact.status === 'confirmed');
+    } catch (error) {
+        console.warn('⚠️ Profile facts unavailable:', error);
+        return [];
+    }
+}
+
+export async function getConfirmedProfileFacts(authUserId: string): Promise<ProfileFact[]> {
+    const internalUserId = await getInternalUserId(authUserId);
+    return internalUserId ? listConfirmedProfileFacts(internalUserId) : [];
+}
+
+/**
+ * Confirmed facts in the shape the protection audit takes as provided facts
+ */
+export function toAuditFacts(facts: ProfileFact[]): ProfileFacts {
+    const audit: ProfileFacts = {};
+    for (const fact of facts) {
+        switch (fact.key) {
+            case 'state': audit.state = String(fact.value); break;
+            case 'teen_drivers': audit.teenDrivers = Number(fact.value); break;
+            case 'has_pool': audit.hasPool = Boolean(fact.value); break;
+            case 'has_trampoline': audit.hasTrampoline = Boolean(fact.value); break;
+            case 'has_dog': audit.hasDog = Boolean(fact.value); break;
+            case 'owns_home': audit.ownsHome = Boolean(fact.value); break;
+            case 'rental_properties': audit.rentalProperties = Number(fact.value); break;
+            case 'net_worth_band': audit.netWorth = BAND_NET_WORTH[fact.value as NetWorthBand]; break;
+        }
+    }
+    return audit;
+}
+
+export function formatMemoryForPrompt(facts: ProfileFact[]): string {
+    if (facts.length === 0) return '';
+
+    return `WHAT YOU KNOW ABOUT THIS CUSTOMER (confirmed by them - use it instead of asking again):
+${facts.map(fact => `- ${fact.label}`).join('\n')}`;
+}
@@ -0,0 +1,58 @@
+// backend/services/user-preferences.ts
+// Per-user settings kept on the users row - currently the preferred language for Sam and the app
+
+import { SupabaseClient } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase';
+import { isSupportedLanguage, Language } from '../lib/language';
+
+export interface UserPreferences {
+    language: Language | null;
+}
+
+/**
+ * The user's saved preferences; language is null until they choose one. Never throws -
+ * preferences only tune replies and must not block them.
+ */
+export async function getUserPreferences(authUserId: string, db: SupabaseClient = supabase): Promise<UserPreferences> {
+    try {
+        const { data, error } = await db
+            .from('users')
+            .select('preferred_language')
+            .eq('external_id', authUserId)
+            .single();
+
+        if (error || !data) {
+            return { language: null };
+        }
+        return { language: isSupportedLanguage(data.preferred_language) ? data.preferred_language : null };
+    } catch (error) {
+        console.warn('⚠️ User preferences unavailable:', error);
+        return { language: null };
+    }
+}
+
+export async function setPreferredLanguage(
+    authUserId: string,
+    language: Language,
+    db: SupabaseClient = supabase
+): Promise<{ success: boolean; data?: UserPreferences; error?: string }> {
+    try {
+        const { data, error } = await db
+            .from('users')
+            .update({ preferred_language: language, updated_at: new Date().toISOString() })
+            .eq('external_id', authUserId)
+            .select('id');
+
+        if (error) throw error;
+        if (!data || data.length === 0) {
+            return { success: false, error: 'User not found' };
+        }
+
+        console.log(`🌐 Preferred language set to ${language}`);
+        return { success: true, data: { language } };
+
+    } catch (error) {
+        console.error('❌ Failed to save preferred language:', error);
+        return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
+    }
+}
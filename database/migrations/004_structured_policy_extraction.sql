@@ -0,0 +1,34 @@
+-- Migration: Support structured policy extraction from uploaded declarations pages
+-- Run this in Supabase SQL Editor
+
+-- Uploaded policies are not tied to one of our plans
+ALTER TABLE public.policies
+ALTER COLUMN plan_id DROP NOT NULL;
+
+-- Policy numbers are only unique per carrier, and renewals keep the same number.
+-- Uniqueness is now per user and policy term.
+ALTER TABLE public.policies
+DROP CONSTRAINT IF EXISTS policies_policy_number_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_policies_user_number_term
+    ON public.policies(user_id, policy_number, start_date);
+
+-- Policy line (auto, home, renters, ...) as detected from the document
+ALTER TABLE public.policies
+ADD COLUMN IF NOT EXISTS policy_type character varying;
+
+-- Link back to the uploaded document the policy was extracted from
+ALTER TABLE public.policies
+ADD COLUMN IF NOT EXISTS source_document_id bigint REFERENCES public.user_documents(id) ON DELETE SET NULL;
+
+-- Per-field extraction confidence, keyed by field path (e.g. "vehicles[0].vin": 0.95)
+ALTER TABLE public.policies
+ADD COLUMN IF NOT EXISTS field_confidence jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_policies_source_document_id ON public.policies(source_document_id)
+    WHERE source_document_id IS NOT NULL;
+
+-- Add comments explaining the columns
+COMMENT ON COLUMN public.policies.policy_type IS 'Policy line: auto, home, renters, umbrella, life, health, other';
+COMMENT ON COLUMN public.policies.source_document_id IS 'user_documents row this policy was extracted from (NULL for manually created policies)';
+COMMENT ON COLUMN public.policies.field_confidence IS 'Extraction confidence (0-1) per field path, e.g. {"totalPremium": 0.9, "vehicles[0].vin": 1}';
@@ -0,0 +1,50 @@
+-- Migration: Add user_pending_state table for short-lived per-user state
+-- Run this in Supabase SQL Editor
+-- Replaces process-memory globals so state survives restarts and is shared across Cloud Run instances
+
+-- ============================================
+-- USER PENDING STATE TABLE
+-- ============================================
+-- One row per user per kind; writers upsert, readers ignore rows past expires_at
+
+CREATE TABLE IF NOT EXISTS public.user_pending_state (
+    -- User reference (uses external_id from auth.users)
+    user_id character varying NOT NULL,
+
+    -- Types: 'policy_analysis' (analysis awaiting one-time delivery), 'question' (question awaiting a policy upload)
+    kind character varying NOT NULL,
+
+    payload jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now(),
+    expires_at timestamp with time zone NOT NULL,
+
+    CONSTRAINT user_pending_state_pkey PRIMARY KEY (user_id, kind)
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+-- Index for purging expired rows
+CREATE INDEX IF NOT EXISTS idx_user_pending_state_expires_at ON public.user_pending_state(expires_at);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Enable RLS (backend uses the service role; users may only read their own state)
+ALTER TABLE public.user_pending_state ENABLE ROW LEVEL SECURITY;
+
+-- Policy: Users can only see their own pending state
+CREATE POLICY user_pending_state_select_own ON public.user_pending_state
+    FOR SELECT
+    USING (user_id = auth.uid()::text);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE public.user_pending_state IS 'Short-lived per-user state (pending policy analysis, pending questions) with TTL via expires_at';
+COMMENT ON COLUMN public.user_pending_state.user_id IS 'References auth.users.id (external_id in users table)';
+COMMENT ON COLUMN public.user_pending_state.kind IS 'Type: policy_analysis, question';
+COMMENT ON COLUMN public.user_pending_state.expires_at IS 'Rows past this time are treated as absent';
@@ -0,0 +1,72 @@
+-- Migration: Renewal Guard - record term-over-term changes when a policy renews
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- POLICY RENEWALS
+-- ============================================
+-- policy_id is the prior term; renewed_policy_id is the new term created from the uploaded declarations page
+
+ALTER TABLE public.policy_renewals
+ADD COLUMN IF NOT EXISTS renewed_policy_id bigint;
+
+ALTER TABLE public.policy_renewals
+DROP CONSTRAINT IF EXISTS policy_renewals_renewed_policy_id_fkey;
+
+ALTER TABLE public.policy_renewals
+ADD CONSTRAINT policy_renewals_renewed_policy_id_fkey
+    FOREIGN KEY (renewed_policy_id) REFERENCES public.policies(id) ON DELETE CASCADE;
+
+ALTER TABLE public.policy_renewals
+ADD COLUMN IF NOT EXISTS previous_premium numeric;
+
+ALTER TABLE public.policy_renewals
+ADD COLUMN IF NOT EXISTS new_premium numeric;
+
+ALTER TABLE public.policy_renewals
+ADD COLUMN IF NOT EXISTS premium_change_pct numeric;
+
+ALTER TABLE public.policy_renewals
+ADD COLUMN IF NOT EXISTS changes jsonb DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.policy_renewals
+ADD COLUMN IF NOT EXISTS summary text;
+
+-- One renewal record per new term (uploading the same declarations page twice is a no-op)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_policy_renewals_renewed_policy_id
+    ON public.policy_renewals(renewed_policy_id)
+    WHERE renewed_policy_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_policy_renewals_policy_id ON public.policy_renewals(policy_id);
+
+-- ============================================
+-- POLICY FORMS
+-- ============================================
+-- Forms and endorsements from the declarations page, compared term over term
+
+ALTER TABLE public.policy_forms
+ADD COLUMN IF NOT EXISTS form_number character varying;
+
+CREATE INDEX IF NOT EXISTS idx_policy_forms_policy_id ON public.policy_forms(policy_id);
+
+-- ============================================
+-- MONITORING
+-- ============================================
+
+-- Index for listing a policy's events newest first
+CREATE INDEX IF NOT EXISTS idx_monitoring_policy_detected
+    ON public.monitoring(policy_id, detected_at DESC);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN public.policy_renewals.policy_id IS 'Prior policy term';
+COMMENT ON COLUMN public.policy_renewals.renewed_policy_id IS 'New policy term the prior term renewed into';
+COMMENT ON COLUMN public.policy_renewals.status IS 'Status: pending (expiring, no new term yet), renewed (new term on file)';
+COMMENT ON COLUMN public.policy_renewals.premium_change_pct IS 'Percent change from previous_premium to new_premium';
+COMMENT ON COLUMN public.policy_renewals.changes IS 'Array of {type, item, coverage, endorsement, previous, current} differences between terms';
+COMMENT ON COLUMN public.policy_renewals.summary IS 'English renewal summary at the time of the upload; chat and the profile page render changes in the user''s language';
+COMMENT ON COLUMN public.policy_forms.form_name IS 'Form or endorsement title as printed, e.g. Water Back-Up and Sump Discharge or Overflow';
+COMMENT ON COLUMN public.policy_forms.form_number IS 'Form number with edition as printed, e.g. HO 04 95 01 14';
+COMMENT ON COLUMN public.monitoring.event_type IS 'Renewal Guard events: renewal_detected, premium_increase, premium_decrease, limit_decrease, limit_increase, deductible_increase, deductible_decrease, coverage_removed, coverage_added, vehicle_added, vehicle_removed, endorsement_removed, endorsement_added';
+COMMENT ON COLUMN public.monitoring.event_status IS 'Status: open, acknowledged';
@@ -0,0 +1,69 @@
+-- Migration: Add scheduled_jobs table for background processing
+-- Run this in Supabase SQL Editor
+-- Jobs are claimed by the backend (Cloud Scheduler tick endpoint or the local runner) using the service role
+
+-- ============================================
+-- SCHEDULED JOBS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.scheduled_jobs (
+    id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+
+    -- Types: 'renewal_reminder_sweep', 'renewal_reminder', 'attachment_purge', 'summary_backfill'
+    job_type character varying NOT NULL,
+
+    -- Enqueueing the same (job_type, idempotency_key) twice is a no-op
+    idempotency_key character varying NOT NULL,
+
+    payload jsonb DEFAULT '{}'::jsonb,
+
+    -- Status: 'pending', 'running', 'succeeded', 'failed'
+    status character varying NOT NULL DEFAULT 'pending',
+
+    run_at timestamp with time zone NOT NULL DEFAULT now(),
+    attempts integer NOT NULL DEFAULT 0,
+    max_attempts integer NOT NULL DEFAULT 5,
+    last_error text,
+    result jsonb,
+
+    -- Claim bookkeeping (stale locks are reclaimed by the next tick)
+    locked_at timestamp with time zone,
+    locked_by character varying,
+
+    completed_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+
+    CONSTRAINT scheduled_jobs_pkey PRIMARY KEY (id),
+    CONSTRAINT scheduled_jobs_type_key_unique UNIQUE (job_type, idempotency_key)
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+-- Index for picking up due jobs
+CREATE INDEX IF NOT EXISTS idx_scheduled_jobs_due ON public.scheduled_jobs(status, run_at);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Enable RLS with no policies: only the service role can read or write jobs
+ALTER TABLE public.scheduled_jobs ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- JOB OUTPUTS ON EXISTING TABLES
+-- ============================================
+
+COMMENT ON COLUMN public.monitoring.event_type IS 'Renewal Guard events: renewal_reminder, renewal_detected, premium_increase, premium_decrease, limit_decrease, limit_increase, deductible_increase, deductible_decrease, coverage_removed, coverage_added, vehicle_added, vehicle_removed, endorsement_removed, endorsement_added';
+COMMENT ON COLUMN public.user_documents.status IS 'Status: active, archived, deleted (soft-deleted), purged (file removed from storage by retention job)';
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE public.scheduled_jobs IS 'Persistent background jobs with retry, exponential backoff and idempotency keys';
+COMMENT ON COLUMN public.scheduled_jobs.idempotency_key IS 'Caller-chosen key, e.g. renewal_reminder:42:2026-03-01:30';
+COMMENT ON COLUMN public.scheduled_jobs.run_at IS 'Earliest time the job may run; pushed back on each retry';
+COMMENT ON COLUMN public.scheduled_jobs.result IS 'Handler output for succeeded jobs (counts, ids)';
@@ -0,0 +1,41 @@
+-- Migration: Quote comparison - structured coverages on quotes for side-by-side comparison
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- QUOTES
+-- ============================================
+
+-- Coverages as {coverageType, limit, deductible}, same shape as the structured policy extraction
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS coverages jsonb DEFAULT '[]'::jsonb;
+
+-- Premium term in months (6 or 12) so premiums can be annualized
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS term_months integer DEFAULT 12;
+
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS source character varying DEFAULT 'manual';
+
+-- Uploaded quote document the coverages were extracted from
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS source_document_id bigint REFERENCES public.user_documents(id) ON DELETE SET NULL;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_quote_requests_user_id ON public.quote_requests(user_id, requested_at DESC);
+CREATE INDEX IF NOT EXISTS idx_quotes_quote_request_id ON public.quotes(quote_request_id);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN public.quote_requests.status IS 'Status: open, closed';
+COMMENT ON COLUMN public.quote_requests.details IS 'Snapshot of the current policy at request time: {current: {policyId, policyType, carrier, policyNumber, premium, termMonths, coverages}}';
+COMMENT ON COLUMN public.quotes.coverage_details IS 'Free-text notes entered with the quote';
+COMMENT ON COLUMN public.quotes.coverages IS 'Array of {coverageType, limit, deductible}';
+COMMENT ON COLUMN public.quotes.term_months IS 'Premium term in months (6 or 12)';
+COMMENT ON COLUMN public.quotes.source IS 'Source: manual, document';
+COMMENT ON COLUMN public.quotes.source_document_id IS 'user_documents row the quote was extracted from (NULL for manually entered quotes)';
+COMMENT ON COLUMN public.user_documents.document_type IS 'Types: policy, quote, id_card, claim, chat_attachment, image, screenshot, other';
@@ -0,0 +1,68 @@
+-- Migration: Quote providers - quotes priced by carrier integrations (and the local mock provider)
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- QUOTES
+-- ============================================
+
+-- Provider that priced the quote (NULL for manual and document quotes)
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS provider_id character varying;
+
+-- The provider's own reference for the quote
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS provider_quote_id character varying;
+
+-- A request's quotes from one provider
+CREATE INDEX IF NOT EXISTS idx_quotes_request_provider
+    ON public.quotes(quote_request_id, provider_id)
+    WHERE provider_id IS NOT NULL;
+
+-- ============================================
+-- PROVIDER CALLS
+-- ============================================
+
+-- One row per provider per request, inserted before the provider is called: the primary key is
+-- what makes a provider quote each request at most once, even when two requests race
+CREATE TABLE IF NOT EXISTS public.quote_provider_calls (
+    quote_request_id bigint NOT NULL REFERENCES public.quote_requests(id) ON DELETE CASCADE,
+    provider_id character varying NOT NULL,
+    claimed_at timestamp with time zone NOT NULL DEFAULT now(),
+    CONSTRAINT quote_provider_calls_pkey PRIMARY KEY (quote_request_id, provider_id)
+);
+
+-- Requests quoted before this table existed
+INSERT INTO public.quote_provider_calls (quote_request_id, provider_id)
+SELECT DISTINCT quote_request_id, provider_id
+FROM public.quotes
+WHERE provider_id IS NOT NULL AND quote_request_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- Backend only
+ALTER TABLE public.quote_provider_calls ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Service role full access to quote_provider_calls" ON public.quote_provider_calls;
+CREATE POLICY "Service role full access to quote_provider_calls" ON public.quote_provider_calls
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.quote_provider_calls FROM anon, authenticated;
+
+-- ============================================
+-- INTEGRATION LOGGING
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_integration_logs_entity
+    ON public.integration_logs(entity_type, entity_id);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN public.quotes.source IS 'Source: manual, document, provider';
+COMMENT ON COLUMN public.quotes.provider_id IS 'Quote provider id, e.g. mock';
+COMMENT ON COLUMN public.quotes.provider_quote_id IS 'Reference returned by the provider';
+COMMENT ON TABLE public.quote_provider_calls IS 'Providers that have quoted, or are quoting, each request; released again when the call fails';
+COMMENT ON COLUMN public.api_syncs.sync_type IS 'Types include quote (one quote provider call; details hold provider, quoteRequestId, quoteCount, durationMs, error)';
+COMMENT ON COLUMN public.integration_logs.source IS 'Integration that produced the entry, e.g. quote provider id';
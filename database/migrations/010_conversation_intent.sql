@@ -0,0 +1,19 @@
+-- Migration: Conversation intent - the classifier's verdict stored on each user message
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+-- Only user messages are classified
+CREATE INDEX IF NOT EXISTS idx_conversations_intent
+    ON public.conversations(intent)
+    WHERE intent IS NOT NULL;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN public.conversations.intent IS 'Classified intent of a user message: greeting, small_talk, insurance_education, policy_question, coverage_review, quote_request, renewal_question, other';
+COMMENT ON COLUMN public.conversations.confidence_score IS 'Classifier confidence 0-1 (1 for canned rules, 0 when the classifier failed)';
+COMMENT ON COLUMN public.conversations.entities IS 'Routing details: policyTypes, needsUserData, referencesPolicyOnFile, source (rules/model/fallback), route';
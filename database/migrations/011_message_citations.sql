@@ -0,0 +1,16 @@
+-- Migration: Message citations - the sources behind each of Sam's answers
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- CONVERSATIONS
+-- ============================================
+
+-- Footnotes for an assistant message, numbered as the [n] markers in its text
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS citations jsonb;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN public.conversations.citations IS 'Sources cited by an assistant message: [{id, source (knowledge_base/policy_document), title, snippet, documentId, uri, page, section}]';
@@ -0,0 +1,92 @@
+-- Migration: Rai reviews - typed verdicts on Uri's drafts, one per knowledge base answer
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- RAI REVIEWS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.rai_reviews (
+    id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+
+    -- Assistant message the reviewed answer was delivered in
+    conversation_id bigint NOT NULL,
+    session_id bigint NOT NULL,
+
+    -- Verdict: 'approved', 'corrected', 'needs_human'
+    verdict character varying NOT NULL,
+
+    -- Status: 'reviewed' (typed verdict), 'unparsed' (plain-text reply), 'failed' (Rai errored, draft passed through)
+    status character varying NOT NULL DEFAULT 'reviewed',
+
+    -- Topic of the user's message, from the intent classifier
+    intent character varying,
+    policy_types text[] NOT NULL DEFAULT '{}',
+
+    -- [{category, description}]; categories are repeated in issue_categories for filtering
+    issues jsonb NOT NULL DEFAULT '[]'::jsonb,
+    issue_categories text[] NOT NULL DEFAULT '{}',
+
+    draft text NOT NULL,
+    final_answer text NOT NULL,
+    diff jsonb,
+    words_added integer NOT NULL DEFAULT 0,
+    words_removed integer NOT NULL DEFAULT 0,
+    change_ratio numeric NOT NULL DEFAULT 0,
+
+    model character varying,
+    created_at timestamp with time zone DEFAULT now(),
+
+    CONSTRAINT rai_reviews_pkey PRIMARY KEY (id),
+    CONSTRAINT rai_reviews_conversation_id_fkey FOREIGN KEY (conversation_id) REFERENCES public.conversations(id) ON DELETE CASCADE,
+    CONSTRAINT rai_reviews_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.chat_sessions(id) ON DELETE CASCADE,
+    CONSTRAINT rai_reviews_verdict_check CHECK (verdict IN ('approved', 'corrected', 'needs_human'))
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_rai_reviews_conversation ON public.rai_reviews(conversation_id);
+CREATE INDEX IF NOT EXISTS idx_rai_reviews_verdict_created ON public.rai_reviews(verdict, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rai_reviews_intent ON public.rai_reviews(intent);
+CREATE INDEX IF NOT EXISTS idx_rai_reviews_issue_categories ON public.rai_reviews USING GIN (issue_categories);
+
+-- ============================================
+-- REPORTING
+-- ============================================
+
+-- Weekly first-pass accuracy per topic: how often Uri's draft needed Rai to step in
+CREATE OR REPLACE VIEW public.rai_review_stats
+WITH (security_invoker = true) AS
+SELECT
+    date_trunc('week', created_at) AS week,
+    COALESCE(intent, 'unknown') AS intent,
+    COUNT(*) AS reviews,
+    COUNT(*) FILTER (WHERE verdict = 'approved') AS approved,
+    COUNT(*) FILTER (WHERE verdict = 'corrected') AS corrected,
+    COUNT(*) FILTER (WHERE verdict = 'needs_human') AS needs_human,
+    ROUND(COUNT(*) FILTER (WHERE verdict <> 'approved')::numeric / COUNT(*), 3) AS draft_error_rate,
+    COUNT(*) FILTER (WHERE 'state_compliance' = ANY(issue_categories)) AS state_compliance_issues,
+    COUNT(*) FILTER (WHERE 'hallucination' = ANY(issue_categories)) AS hallucination_issues,
+    COUNT(*) FILTER (WHERE 'missing_info' = ANY(issue_categories)) AS missing_info_issues,
+    ROUND(AVG(change_ratio), 3) AS avg_change_ratio
+FROM public.rai_reviews
+WHERE status = 'reviewed'
+GROUP BY 1, 2;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Enable RLS with no policies: reviews are internal quality data, service role only
+ALTER TABLE public.rai_reviews ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE public.rai_reviews IS 'Rai''s review of each Uri draft that reached a user';
+COMMENT ON COLUMN public.rai_reviews.issue_categories IS 'Distinct issue categories: state_compliance, hallucination, missing_info, calculation, compliance_language, other';
+COMMENT ON COLUMN public.rai_reviews.diff IS 'Word-level diff from draft to final_answer: [{op (equal/insert/delete), text}]';
+COMMENT ON COLUMN public.rai_reviews.change_ratio IS 'Share of the answer Rai changed, 0 (untouched) to 1 (rewritten)';
+COMMENT ON VIEW public.rai_review_stats IS 'Weekly Rai verdicts per intent, excluding unparsed and failed reviews';
@@ -0,0 +1,67 @@
+-- Migration: User profile facts - durable facts Sam learns from conversations, confirmed by the user
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- USER PROFILE FACTS TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.user_profile_facts (
+    id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+
+    -- Household profile the fact belongs to, and its owner for direct lookups
+    profile_id bigint NOT NULL,
+    user_id bigint NOT NULL,
+
+    -- Fact key: 'state', 'household_size', 'teen_drivers', 'has_pool', 'has_trampoline',
+    -- 'has_dog', 'owns_home', 'rental_properties', 'net_worth_band'
+    fact_key character varying NOT NULL,
+    value jsonb NOT NULL,
+
+    -- Status: 'proposed' (extracted, awaiting the user), 'confirmed' (used in prompts), 'rejected' (never re-proposed)
+    status character varying NOT NULL DEFAULT 'proposed',
+
+    -- Where the fact came from: the user's words and the message they were in
+    evidence text,
+    source_conversation_id bigint,
+    confidence numeric,
+
+    created_at timestamp with time zone DEFAULT now(),
+    updated_at timestamp with time zone DEFAULT now(),
+    confirmed_at timestamp with time zone,
+
+    CONSTRAINT user_profile_facts_pkey PRIMARY KEY (id),
+    CONSTRAINT user_profile_facts_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+    CONSTRAINT user_profile_facts_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+    CONSTRAINT user_profile_facts_source_conversation_id_fkey FOREIGN KEY (source_conversation_id) REFERENCES public.conversations(id) ON DELETE SET NULL,
+    CONSTRAINT user_profile_facts_status_check CHECK (status IN ('proposed', 'confirmed', 'rejected'))
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_user_profile_facts_user_status ON public.user_profile_facts(user_id, status);
+
+-- At most one confirmed value and one pending proposal per fact
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_profile_facts_one_confirmed
+ON public.user_profile_facts(user_id, fact_key)
+WHERE status = 'confirmed';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_user_profile_facts_one_proposed
+ON public.user_profile_facts(user_id, fact_key)
+WHERE status = 'proposed';
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Enable RLS: facts are written through the backend only (019 lets users read their own)
+ALTER TABLE public.user_profile_facts ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE public.user_profile_facts IS 'Long-term memory: household facts extracted from chat, injected into prompts once the user confirms them';
+COMMENT ON COLUMN public.user_profile_facts.value IS 'JSON scalar: two-letter state code, count, boolean, or net worth band (under_250k, 250k_500k, 500k_1m, 1m_2m, 2m_5m, over_5m)';
+COMMENT ON COLUMN public.user_profile_facts.evidence IS 'What the user said that implies the fact, shown when asking them to confirm';
@@ -0,0 +1,65 @@
+-- Migration: Conversation embeddings - one vector per stored message for semantic search of past chats
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- CONVERSATION EMBEDDINGS
+-- ============================================
+
+-- Vectors are stored inline as float arrays (no pgvector) and scored in the database by
+-- search_conversation_embeddings (021), scoped to one user's messages at a time
+ALTER TABLE public.conversation_embeddings
+ADD COLUMN IF NOT EXISTS session_id bigint,
+ADD COLUMN IF NOT EXISTS user_id bigint,
+ADD COLUMN IF NOT EXISTS embedding real[],
+ADD COLUMN IF NOT EXISTS embedding_model character varying;
+
+-- Embeddings go with their message, session and user
+ALTER TABLE public.conversation_embeddings
+DROP CONSTRAINT IF EXISTS conversation_embeddings_conversation_id_fkey;
+
+ALTER TABLE public.conversation_embeddings
+ADD CONSTRAINT conversation_embeddings_conversation_id_fkey
+FOREIGN KEY (conversation_id) REFERENCES public.conversations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.conversation_embeddings
+DROP CONSTRAINT IF EXISTS conversation_embeddings_session_id_fkey;
+
+ALTER TABLE public.conversation_embeddings
+ADD CONSTRAINT conversation_embeddings_session_id_fkey
+FOREIGN KEY (session_id) REFERENCES public.chat_sessions(id) ON DELETE CASCADE;
+
+ALTER TABLE public.conversation_embeddings
+DROP CONSTRAINT IF EXISTS conversation_embeddings_user_id_fkey;
+
+ALTER TABLE public.conversation_embeddings
+ADD CONSTRAINT conversation_embeddings_user_id_fkey
+FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+-- Re-indexing a message with the same model replaces its vector
+CREATE UNIQUE INDEX IF NOT EXISTS idx_conversation_embeddings_conversation_model
+ON public.conversation_embeddings(conversation_id, embedding_model);
+
+-- Newest messages of one user
+CREATE INDEX IF NOT EXISTS idx_conversation_embeddings_user_created
+ON public.conversation_embeddings(user_id, created_at DESC);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Enable RLS: vectors are written through the backend only (019 lets users read their own)
+ALTER TABLE public.conversation_embeddings ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE public.conversation_embeddings IS 'One embedding per stored chat message, used to search a user''s past conversations';
+COMMENT ON COLUMN public.conversation_embeddings.content_summary IS 'Start of the message text, returned as the search snippet';
+COMMENT ON COLUMN public.conversation_embeddings.embedding IS 'Embedding vector; only comparable with vectors from the same embedding_model';
+COMMENT ON COLUMN public.conversation_embeddings.embedding_model IS 'Embedder that produced the vector, e.g. text-embedding-005 or local-hash-512';
+COMMENT ON COLUMN public.conversation_embeddings.embedding_metadata IS 'Message details: {role (user/assistant), dimensions}';
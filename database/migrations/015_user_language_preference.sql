@@ -0,0 +1,31 @@
+-- Migration: Preferred language - the language a user chose for Sam's replies and the app
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- USERS
+-- ============================================
+
+-- Null until the user picks a language; replies otherwise follow the language of each message
+ALTER TABLE public.users
+ADD COLUMN IF NOT EXISTS preferred_language character varying;
+
+ALTER TABLE public.users
+DROP CONSTRAINT IF EXISTS users_preferred_language_check;
+
+ALTER TABLE public.users
+ADD CONSTRAINT users_preferred_language_check CHECK (preferred_language IN ('en', 'es'));
+
+-- ============================================
+-- CONVERSATIONS
+-- ============================================
+
+-- Every message is now written with its detected language; the old 'es' default was never used
+ALTER TABLE public.conversations
+ALTER COLUMN language SET DEFAULT 'en';
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN public.users.preferred_language IS 'Language chosen in settings (en, es); used when a message''s own language cannot be detected';
+COMMENT ON COLUMN public.conversations.language IS 'Language of the exchange (en, es), detected per user message';
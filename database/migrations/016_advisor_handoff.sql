@@ -0,0 +1,103 @@
+-- Migration: Advisor handoff - escalations from chat to a queue worked by licensed agents
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- AGENTS
+-- ============================================
+
+-- external_id is the agent's Supabase auth user ID; only active agents can open the console
+ALTER TABLE public.agents
+ADD COLUMN IF NOT EXISTS active boolean NOT NULL DEFAULT true;
+
+CREATE INDEX IF NOT EXISTS idx_agents_external_id ON public.agents(external_id);
+
+-- ============================================
+-- PULL (one row per handoff)
+-- ============================================
+
+-- Chat the handoff came from, and the user message that triggered it
+ALTER TABLE public.pull
+ADD COLUMN IF NOT EXISTS session_id bigint,
+ADD COLUMN IF NOT EXISTS conversation_id bigint,
+ADD COLUMN IF NOT EXISTS reason text,
+ADD COLUMN IF NOT EXISTS claimed_at timestamp with time zone;
+
+ALTER TABLE public.pull
+DROP CONSTRAINT IF EXISTS pull_session_id_fkey;
+
+ALTER TABLE public.pull
+ADD CONSTRAINT pull_session_id_fkey FOREIGN KEY (session_id) REFERENCES public.chat_sessions(id) ON DELETE SET NULL;
+
+ALTER TABLE public.pull
+DROP CONSTRAINT IF EXISTS pull_conversation_id_fkey;
+
+ALTER TABLE public.pull
+ADD CONSTRAINT pull_conversation_id_fkey FOREIGN KEY (conversation_id) REFERENCES public.conversations(id) ON DELETE SET NULL;
+
+-- Status: 'initiated' (queued), 'assigned' (an agent claimed it), 'completed' (resolved)
+ALTER TABLE public.pull
+DROP CONSTRAINT IF EXISTS pull_status_check;
+
+ALTER TABLE public.pull
+ADD CONSTRAINT pull_status_check CHECK (status IN ('initiated', 'assigned', 'completed'));
+
+CREATE INDEX IF NOT EXISTS idx_pull_status_created ON public.pull(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_pull_assignee ON public.pull(assignee_id, status);
+
+-- At most one open handoff per chat
+CREATE UNIQUE INDEX IF NOT EXISTS idx_pull_one_open_per_session
+ON public.pull(session_id)
+WHERE status IN ('initiated', 'assigned') AND session_id IS NOT NULL;
+
+-- ============================================
+-- PULL ASSIGNEE (assignment history)
+-- ============================================
+
+ALTER TABLE public.pull_assignee
+ADD COLUMN IF NOT EXISTS agent_id bigint;
+
+ALTER TABLE public.pull_assignee
+DROP CONSTRAINT IF EXISTS pull_assignee_agent_id_fkey;
+
+ALTER TABLE public.pull_assignee
+ADD CONSTRAINT pull_assignee_agent_id_fkey FOREIGN KEY (agent_id) REFERENCES public.agents(id);
+
+-- ============================================
+-- CONVERSATIONS
+-- ============================================
+
+-- Who wrote each message; rows written before this migration are null and read by position
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS role character varying,
+ADD COLUMN IF NOT EXISTS agent_id bigint;
+
+ALTER TABLE public.conversations
+DROP CONSTRAINT IF EXISTS conversations_role_check;
+
+ALTER TABLE public.conversations
+ADD CONSTRAINT conversations_role_check CHECK (role IN ('user', 'assistant', 'agent'));
+
+ALTER TABLE public.conversations
+DROP CONSTRAINT IF EXISTS conversations_agent_id_fkey;
+
+ALTER TABLE public.conversations
+ADD CONSTRAINT conversations_agent_id_fkey FOREIGN KEY (agent_id) REFERENCES public.agents(id);
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Enable RLS with no policies: handoffs are read and written through the backend only
+ALTER TABLE public.agents ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pull ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pull_assignee ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE public.pull IS 'Handoffs from chat to a licensed agent: queued, claimed, then completed';
+COMMENT ON COLUMN public.pull.source IS 'What escalated the chat: user_request, high_risk (rule match) or rai_review (needs_human verdict)';
+COMMENT ON COLUMN public.pull.reason IS 'Short description shown in the agent queue';
+COMMENT ON COLUMN public.pull_assignee.agent_id IS 'Agent who claimed the handoff; name, email and role are copied at assignment time';
+COMMENT ON COLUMN public.conversations.role IS 'Message author: user, assistant (Sam) or agent (licensed human advisor)';
@@ -0,0 +1,97 @@
+-- Migration: LLM usage - tokens, latency and estimated cost of every model call, with per-user daily budgets
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- LLM USAGE TABLE
+-- ============================================
+
+CREATE TABLE IF NOT EXISTS public.llm_usage (
+    id bigint GENERATED ALWAYS AS IDENTITY NOT NULL,
+
+    -- HTTP request the call was made for (x-request-id) and the signed-in user, when there was one
+    request_id character varying,
+    user_id bigint,
+
+    -- Agent or service that made the call: 'sam', 'uri', 'rai', 'intent', 'document_analysis', 'embedding', ...
+    agent character varying NOT NULL,
+    model character varying NOT NULL,
+
+    prompt_tokens integer NOT NULL DEFAULT 0,
+    output_tokens integer NOT NULL DEFAULT 0,
+    latency_ms integer NOT NULL,
+    success boolean NOT NULL DEFAULT true,
+
+    -- Null when the model has no price in the backend's pricing table
+    estimated_cost_usd numeric(12, 6),
+
+    created_at timestamp with time zone DEFAULT now(),
+
+    CONSTRAINT llm_usage_pkey PRIMARY KEY (id),
+    -- Spend history outlives the account; deleting a user only detaches their rows
+    CONSTRAINT llm_usage_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE SET NULL
+);
+
+-- ============================================
+-- LLM BUDGETS TABLE
+-- ============================================
+
+-- Per-user overrides of the LLM_DAILY_BUDGET_USD default. Kept off public.users, whose
+-- "Users can update own profile" policy would let a user raise their own cap.
+CREATE TABLE IF NOT EXISTS public.llm_budgets (
+    user_id bigint NOT NULL,
+    daily_budget_usd numeric(10, 2) NOT NULL,
+    updated_at timestamp with time zone DEFAULT now(),
+
+    CONSTRAINT llm_budgets_pkey PRIMARY KEY (user_id),
+    CONSTRAINT llm_budgets_user_id_fkey FOREIGN KEY (user_id) REFERENCES public.users(id) ON DELETE CASCADE,
+    CONSTRAINT llm_budgets_daily_budget_usd_check CHECK (daily_budget_usd >= 0)
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_llm_usage_user_created ON public.llm_usage(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created ON public.llm_usage(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_request ON public.llm_usage(request_id);
+
+-- ============================================
+-- REPORTING
+-- ============================================
+
+-- Daily spend per user, agent and model (UTC days); the admin endpoint rolls these up further
+CREATE OR REPLACE VIEW public.llm_usage_daily
+WITH (security_invoker = true) AS
+SELECT
+    (created_at AT TIME ZONE 'UTC')::date AS day,
+    user_id,
+    agent,
+    model,
+    COUNT(*) AS calls,
+    COUNT(*) FILTER (WHERE NOT success) AS failed_calls,
+    SUM(prompt_tokens) AS prompt_tokens,
+    SUM(output_tokens) AS output_tokens,
+    COALESCE(SUM(estimated_cost_usd), 0) AS cost_usd,
+    SUM(latency_ms) AS total_latency_ms
+FROM public.llm_usage
+GROUP BY 1, 2, 3, 4;
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Enable RLS with no policies: usage and budgets are internal billing data, service role only
+ALTER TABLE public.llm_usage ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.llm_budgets ENABLE ROW LEVEL SECURITY;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON TABLE public.llm_usage IS 'One row per model call: tokens, latency and estimated cost, tied to the request and user';
+COMMENT ON COLUMN public.llm_usage.output_tokens IS 'Response tokens including thinking tokens, which are billed as output';
+COMMENT ON COLUMN public.llm_usage.estimated_cost_usd IS 'Tokens priced with the backend''s list prices at the time of the call';
+COMMENT ON TABLE public.llm_budgets IS 'Per-user daily model budgets; users without a row get the LLM_DAILY_BUDGET_USD default';
+COMMENT ON COLUMN public.llm_budgets.daily_budget_usd IS 'Daily model spend after which chats run without Rai review, database tools or memory extraction';
+COMMENT ON VIEW public.llm_usage_daily IS 'Model calls, tokens and cost per UTC day, user, agent and model';
+COMMENT ON COLUMN public.rai_reviews.status IS 'reviewed, unparsed, failed, or skipped (user over their daily model budget, draft passed through)';
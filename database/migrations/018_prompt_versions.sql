@@ -0,0 +1,64 @@
+-- Migration: Prompt versions - which prompt versions and experiment variants produced each of Sam's answers
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- CONVERSATIONS
+-- ============================================
+
+-- Version of every prompt rendered for an assistant message, e.g. {"sam_core": "v1", "rai_review": "v2"}
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS prompt_versions jsonb;
+
+-- Variant served in each prompt experiment the message took part in, e.g. {"guardrails-shorter": "v2"}
+ALTER TABLE public.conversations
+ADD COLUMN IF NOT EXISTS prompt_experiments jsonb;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+-- Votes are read per message when rolling feedback up by prompt version
+CREATE INDEX IF NOT EXISTS idx_chat_feedback_conversation ON public.chat_feedback(conversation_id);
+
+-- ============================================
+-- REPORTING
+-- ============================================
+
+-- Thumbs up/down per prompt version, across every assistant message that rendered it
+CREATE OR REPLACE VIEW public.prompt_version_feedback
+WITH (security_invoker = true) AS
+SELECT
+    p.key AS prompt_id,
+    p.value AS version,
+    COUNT(DISTINCT c.id) AS messages,
+    COUNT(f.id) FILTER (WHERE f.vote = 1) AS thumbs_up,
+    COUNT(f.id) FILTER (WHERE f.vote = -1) AS thumbs_down
+FROM public.conversations c
+CROSS JOIN LATERAL jsonb_each_text(c.prompt_versions) AS p(key, value)
+LEFT JOIN public.chat_feedback f ON f.conversation_id = c.id
+WHERE c.role = 'assistant'
+GROUP BY 1, 2;
+
+-- Thumbs up/down per experiment variant; only messages from users assigned by the experiment count
+CREATE OR REPLACE VIEW public.prompt_experiment_feedback
+WITH (security_invoker = true) AS
+SELECT
+    e.key AS experiment_id,
+    e.value AS version,
+    COUNT(DISTINCT c.id) AS messages,
+    COUNT(f.id) FILTER (WHERE f.vote = 1) AS thumbs_up,
+    COUNT(f.id) FILTER (WHERE f.vote = -1) AS thumbs_down
+FROM public.conversations c
+CROSS JOIN LATERAL jsonb_each_text(c.prompt_experiments) AS e(key, value)
+LEFT JOIN public.chat_feedback f ON f.conversation_id = c.id
+WHERE c.role = 'assistant'
+GROUP BY 1, 2;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN public.conversations.prompt_versions IS 'Prompt id -> version for every prompt behind an assistant message (lib/prompts.ts); null for canned replies';
+COMMENT ON COLUMN public.conversations.prompt_experiments IS 'Experiment id -> variant version the user was assigned, when the message took part in a prompt experiment';
+COMMENT ON VIEW public.prompt_version_feedback IS 'Assistant messages and thumbs up/down per prompt version';
+COMMENT ON VIEW public.prompt_experiment_feedback IS 'Assistant messages and thumbs up/down per prompt experiment variant';
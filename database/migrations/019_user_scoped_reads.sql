@@ -0,0 +1,274 @@
+-- Migration: User-scoped reads - the backend reads a signed-in user's data with their own JWT,
+-- so these policies are what keep one user's rows away from another
+-- Run this in Supabase SQL Editor AFTER rls_policies.sql and rls_security_hardening.sql
+
+-- ============================================
+-- ROW LEVEL SECURITY
+-- ============================================
+
+-- Thumbs up/down on Sam's messages (routes/feedback.ts reads and writes them as the user)
+ALTER TABLE public.chat_feedback ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage own chat feedback" ON public.chat_feedback;
+CREATE POLICY "Users can manage own chat feedback" ON public.chat_feedback
+  FOR ALL TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+  )
+  WITH CHECK (
+    auth.uid() IS NOT NULL
+    AND user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+  );
+
+DROP POLICY IF EXISTS "Service role full access to chat_feedback" ON public.chat_feedback;
+CREATE POLICY "Service role full access to chat_feedback" ON public.chat_feedback
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.chat_feedback FROM anon;
+
+-- Long-term memory facts (profile page and the protection audit read them as the user)
+DROP POLICY IF EXISTS "Users can view own profile facts" ON public.user_profile_facts;
+CREATE POLICY "Users can view own profile facts" ON public.user_profile_facts
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+  );
+
+DROP POLICY IF EXISTS "Service role full access to user_profile_facts" ON public.user_profile_facts;
+CREATE POLICY "Service role full access to user_profile_facts" ON public.user_profile_facts
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.user_profile_facts FROM anon;
+
+-- Search vectors; rows only ever come back for the caller's own messages
+DROP POLICY IF EXISTS "Users can view own conversation embeddings" ON public.conversation_embeddings;
+CREATE POLICY "Users can view own conversation embeddings" ON public.conversation_embeddings
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+  );
+
+DROP POLICY IF EXISTS "Service role full access to conversation_embeddings" ON public.conversation_embeddings;
+CREATE POLICY "Service role full access to conversation_embeddings" ON public.conversation_embeddings
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.conversation_embeddings FROM anon;
+
+-- Renewals belong to the user through the prior term's policy
+ALTER TABLE public.policy_renewals ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own policy renewals" ON public.policy_renewals;
+CREATE POLICY "Users can view own policy renewals" ON public.policy_renewals
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND policy_id IN (
+      SELECT id FROM public.policies
+      WHERE user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role full access to policy_renewals" ON public.policy_renewals;
+CREATE POLICY "Service role full access to policy_renewals" ON public.policy_renewals
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.policy_renewals FROM anon;
+
+-- Quote comparisons
+ALTER TABLE public.quote_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.quotes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own quote requests" ON public.quote_requests;
+CREATE POLICY "Users can view own quote requests" ON public.quote_requests
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+  );
+
+DROP POLICY IF EXISTS "Service role full access to quote_requests" ON public.quote_requests;
+CREATE POLICY "Service role full access to quote_requests" ON public.quote_requests
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.quote_requests FROM anon;
+
+DROP POLICY IF EXISTS "Users can view own quotes" ON public.quotes;
+CREATE POLICY "Users can view own quotes" ON public.quotes
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND quote_request_id IN (
+      SELECT id FROM public.quote_requests
+      WHERE user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role full access to quotes" ON public.quotes;
+CREATE POLICY "Service role full access to quotes" ON public.quotes
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.quotes FROM anon;
+
+-- Structured policy details, embedded in the policy reads made as the user (protection audit,
+-- quotes, Sam's account tools). Only the backend writes them, with the service role.
+
+-- Coverages belong to the user through the vehicle's policy
+ALTER TABLE public.vehicle_coverage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own vehicle coverages" ON public.vehicle_coverage;
+CREATE POLICY "Users can view own vehicle coverages" ON public.vehicle_coverage
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND vehicle_id IN (
+      SELECT v.id FROM public.vehicle v
+      JOIN public.policies p ON p.id = v.policy_id
+      WHERE p.user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role full access to vehicle_coverage" ON public.vehicle_coverage;
+CREATE POLICY "Service role full access to vehicle_coverage" ON public.vehicle_coverage
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.vehicle_coverage FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.vehicle_coverage FROM authenticated;
+
+-- Dwellings belong to the user through the location's policy
+ALTER TABLE public.dwelling ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own dwellings" ON public.dwelling;
+CREATE POLICY "Users can view own dwellings" ON public.dwelling
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND location_id IN (
+      SELECT l.id FROM public.location l
+      JOIN public.policies p ON p.id = l.policy_id
+      WHERE p.user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role full access to dwelling" ON public.dwelling;
+CREATE POLICY "Service role full access to dwelling" ON public.dwelling
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.dwelling FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.dwelling FROM authenticated;
+
+-- Coverages belong to the user through the dwelling's location and policy
+ALTER TABLE public.dwelling_coverage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own dwelling coverages" ON public.dwelling_coverage;
+CREATE POLICY "Users can view own dwelling coverages" ON public.dwelling_coverage
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND dwelling_id IN (
+      SELECT d.id FROM public.dwelling d
+      JOIN public.location l ON l.id = d.location_id
+      JOIN public.policies p ON p.id = l.policy_id
+      WHERE p.user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role full access to dwelling_coverage" ON public.dwelling_coverage;
+CREATE POLICY "Service role full access to dwelling_coverage" ON public.dwelling_coverage
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.dwelling_coverage FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.dwelling_coverage FROM authenticated;
+
+-- Lienholders and their loan details, always recorded against the policy
+ALTER TABLE public.mortgagees ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own mortgagees" ON public.mortgagees;
+CREATE POLICY "Users can view own mortgagees" ON public.mortgagees
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND policy_id IN (
+      SELECT id FROM public.policies
+      WHERE user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role full access to mortgagees" ON public.mortgagees;
+CREATE POLICY "Service role full access to mortgagees" ON public.mortgagees
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.mortgagees FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.mortgagees FROM authenticated;
+
+-- Forms and endorsements listed on the declarations page
+ALTER TABLE public.policy_forms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own policy forms" ON public.policy_forms;
+CREATE POLICY "Users can view own policy forms" ON public.policy_forms
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() IS NOT NULL
+    AND policy_id IN (
+      SELECT id FROM public.policies
+      WHERE user_id = (SELECT id FROM public.users WHERE external_id = auth.uid()::text)
+    )
+  );
+
+DROP POLICY IF EXISTS "Service role full access to policy_forms" ON public.policy_forms;
+CREATE POLICY "Service role full access to policy_forms" ON public.policy_forms
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.policy_forms FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.policy_forms FROM authenticated;
+
+-- Carriers are shared reference data: any signed-in user may read them, nobody but the backend writes
+ALTER TABLE public.carrier ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Authenticated users can read carriers" ON public.carrier;
+CREATE POLICY "Authenticated users can read carriers" ON public.carrier
+  FOR SELECT TO authenticated
+  USING (auth.uid() IS NOT NULL);
+
+DROP POLICY IF EXISTS "Service role full access to carrier" ON public.carrier;
+CREATE POLICY "Service role full access to carrier" ON public.carrier
+  FOR ALL TO service_role
+  USING (true)
+  WITH CHECK (true);
+
+REVOKE ALL ON public.carrier FROM anon;
+REVOKE INSERT, UPDATE, DELETE ON public.carrier FROM authenticated;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON POLICY "Users can manage own chat feedback" ON public.chat_feedback IS 'Votes are read and written with the voter''s JWT; the service role keeps full access for reporting';
+COMMENT ON POLICY "Users can view own profile facts" ON public.user_profile_facts IS 'Read-only for the user; facts are proposed, confirmed and deleted by the backend';
+COMMENT ON POLICY "Users can view own policy renewals" ON public.policy_renewals IS 'Read-only for the user; Renewal Guard writes renewals with the service role';
+COMMENT ON POLICY "Users can view own mortgagees" ON public.mortgagees IS 'Read-only for the user; loan details are written by policy extraction with the service role';
+COMMENT ON POLICY "Authenticated users can read carriers" ON public.carrier IS 'Carrier names are shared reference data; only the backend adds carriers';
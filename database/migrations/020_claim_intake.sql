@@ -0,0 +1,60 @@
+-- Migration: Claim intake - First Notice of Loss (FNOL) reports gathered in chat and linked to a stored policy
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- CLAIMS
+-- ============================================
+
+-- Next question of a guided intake (NULL once every answer is in)
+ALTER TABLE public.claims
+ADD COLUMN IF NOT EXISTS intake_step character varying;
+
+-- Answers as given in chat: {lossType, whatHappened, lossDate, lossDateText, location, injuries, otherParties, policeReport, policy}
+ALTER TABLE public.claims
+ADD COLUMN IF NOT EXISTS intake jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+ALTER TABLE public.claims
+ADD COLUMN IF NOT EXISTS loss_location text;
+
+-- When the FNOL summary was ready to send to the carrier
+ALTER TABLE public.claims
+ADD COLUMN IF NOT EXISTS reported_at timestamp with time zone;
+
+-- Status gains 'draft' (intake in progress), 'ready' (FNOL summary ready) and 'cancelled' alongside
+-- the carrier's 'pending', 'approved', 'denied', 'closed'; only the intake step is constrained
+ALTER TABLE public.claims
+DROP CONSTRAINT IF EXISTS claims_intake_step_check;
+
+ALTER TABLE public.claims
+ADD CONSTRAINT claims_intake_step_check CHECK (
+    intake_step IS NULL
+    OR intake_step IN ('policy', 'what_happened', 'when', 'where', 'injuries', 'other_parties', 'police_report', 'photos')
+);
+
+-- ============================================
+-- DOCUMENTS (claim photos)
+-- ============================================
+
+-- Stored upload behind a claim attachment; file_url keeps the gs:// URI
+ALTER TABLE public.documents
+ADD COLUMN IF NOT EXISTS user_document_id bigint REFERENCES public.user_documents(id) ON DELETE CASCADE;
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX IF NOT EXISTS idx_claims_user_created ON public.claims(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_claim_id ON public.chat_sessions(claim_id);
+CREATE INDEX IF NOT EXISTS idx_documents_user_document_id ON public.documents(user_document_id);
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON COLUMN public.claims.intake_step IS 'Next intake question: policy, what_happened, when, where, injuries, other_parties, police_report, photos (NULL when complete)';
+COMMENT ON COLUMN public.claims.intake IS 'Structured FNOL answers collected in chat';
+COMMENT ON COLUMN public.claims.loss_location IS 'Where the loss happened, as described by the customer';
+COMMENT ON COLUMN public.claims.reported_at IS 'When the intake finished and the FNOL summary became available';
+COMMENT ON COLUMN public.claims.status IS 'Status: draft, ready, cancelled (intake); pending, approved, denied, closed (carrier)';
+COMMENT ON COLUMN public.chat_sessions.claim_id IS 'Claim reported in this chat; a draft claim puts the chat in intake mode';
+COMMENT ON COLUMN public.documents.user_document_id IS 'user_documents row holding the uploaded file (claim photos)';
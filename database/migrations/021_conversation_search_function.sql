@@ -0,0 +1,67 @@
+-- Migration: Conversation search scoring - cosine similarity computed in the database so search
+-- only returns the best matches instead of every stored vector
+-- Run this in Supabase SQL Editor
+
+-- ============================================
+-- SEARCH FUNCTION
+-- ============================================
+
+-- Runs as the caller (SECURITY INVOKER): through a user's client the RLS policies from 019 limit it
+-- to their own messages and sessions. Vectors from other models or of another length are skipped.
+CREATE OR REPLACE FUNCTION public.search_conversation_embeddings(
+  p_user_id bigint,
+  p_embedding_model character varying,
+  p_query_embedding real[],
+  p_min_similarity real,
+  p_match_count integer
+)
+RETURNS TABLE (
+  conversation_id bigint,
+  session_id bigint,
+  content_summary text,
+  embedding_metadata jsonb,
+  score double precision
+)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT scored.conversation_id, scored.session_id, scored.content_summary, scored.embedding_metadata, scored.score
+  FROM (
+    SELECT
+      ce.conversation_id,
+      ce.session_id,
+      ce.content_summary,
+      ce.embedding_metadata,
+      (
+        SELECT SUM(a * b) / NULLIF(SQRT(SUM(a * a)) * SQRT(SUM(b * b)), 0)
+        FROM unnest(ce.embedding, p_query_embedding) AS pair(a, b)
+      )::double precision AS score
+    FROM public.conversation_embeddings ce
+    JOIN public.chat_sessions cs ON cs.id = ce.session_id AND cs.deleted_at IS NULL
+    WHERE ce.user_id = p_user_id
+      AND ce.embedding_model = p_embedding_model
+      AND cardinality(ce.embedding) = cardinality(p_query_embedding)
+  ) scored
+  WHERE scored.score >= p_min_similarity
+  ORDER BY scored.score DESC
+  LIMIT p_match_count;
+$$;
+
+-- Search filters on the model as well as the user
+CREATE INDEX IF NOT EXISTS idx_conversation_embeddings_user_model
+ON public.conversation_embeddings(user_id, embedding_model);
+
+-- ============================================
+-- PERMISSIONS
+-- ============================================
+
+REVOKE ALL ON FUNCTION public.search_conversation_embeddings(bigint, character varying, real[], real, integer) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.search_conversation_embeddings(bigint, character varying, real[], real, integer) TO authenticated, service_role;
+
+-- ============================================
+-- COMMENTS
+-- ============================================
+
+COMMENT ON FUNCTION public.search_conversation_embeddings(bigint, character varying, real[], real, integer) IS 'Best matching messages of one user for a query vector from the given embedding model, highest cosine similarity first; messages in deleted sessions are left out';
@@ -0,0 +1,492 @@
+"use client";
+
+import { SidebarInset, SidebarProvider, SidebarTrigger, useSidebar } from "@/components/ui/sidebar";
+import { DashboardSidebar } from "@/components/sidebar-02/app-sidebar";
+import { ChatProvider } from "@/app/context/ChatContext";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import {
+  getAgentProfile,
+  listHandoffs,
+  getHandoffDetail,
+  claimHandoff,
+  sendAgentReply,
+  resolveHandoff,
+  AdvisorAgent,
+  Handoff,
+  HandoffDetail,
+  PolicyType,
+} from "@/lib/api";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faUserTie, faPaperPlane, faCircleCheck, faHandPointer } from "@fortawesome/free-solid-svg-icons";
+
+function MobileHeader() {
+  const { openMobile } = useSidebar();
+
+  // Hide header when sidebar is open (X is inside sidebar)
+  if (openMobile) return null;
+
+  return (
+    <header className="md:hidden shrink-0 bg-[#f7f6f3] pt-3">
+      <div className="flex items-center justify-between h-14 px-4">
+        <SidebarTrigger className="h-7 w-7 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] hover:text-[#f7f6f3] rounded-full [&_svg]:size-4" />
+        <Image
+          src="/wordmark-only-logo.png"
+          alt="Samurai Insurance"
+          width={180}
+          height={48}
+          className="h-12 w-auto object-contain"
+        />
+        <div className="size-7" />
+      </div>
+    </header>
+  );
+}
+
+type HandoffView = "queue" | "mine" | "completed";
+
+const VIEW_LABELS: Record<HandoffView, string> = {
+  queue: "Queue",
+  mine: "My chats",
+  completed: "Resolved",
+};
+
+const SOURCE_LABELS: Record<Handoff["source"], string> = {
+  user_request: "Customer asked for an agent",
+  high_risk: "High-risk topic",
+  rai_review: "Flagged in answer review",
+};
+
+const policyTypeLabels: Record<PolicyType, string> = {
+  auto: "Auto Insurance",
+  home: "Home Insurance",
+  renters: "Renters Insurance",
+  umbrella: "Umbrella Insurance",
+  life: "Life Insurance",
+  health: "Health Insurance",
+  other: "Other Insurance",
+};
+
+// How often to refresh the list and the open conversation for new customer messages
+const REFRESH_MS = 15000;
+
+export default function AgentConsolePage() {
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+
+  const [agent, setAgent] = useState<AdvisorAgent | null>(null);
+  const [agentLoading, setAgentLoading] = useState(true);
+  const [view, setView] = useState<HandoffView>("queue");
+  const [handoffs, setHandoffs] = useState<Handoff[]>([]);
+  const [listLoading, setListLoading] = useState(true);
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [detail, setDetail] = useState<HandoffDetail | null>(null);
+  const [detailLoading, setDetailLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reply and resolve form state
+  const [reply, setReply] = useState("");
+  const [notes, setNotes] = useState("");
+  const [isClaiming, setIsClaiming] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [isResolving, setIsResolving] = useState(false);
+
+  const loadHandoffs = useCallback(async () => {
+    setHandoffs(await listHandoffs(view));
+    setListLoading(false);
+  }, [view]);
+
+  const loadDetail = useCallback(async (handoffId: number) => {
+    setDetail(await getHandoffDetail(handoffId));
+  }, []);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push("/login");
+    }
+  }, [user, isLoading, router]);
+
+  useEffect(() => {
+    if (!user) return;
+    getAgentProfile()
+      .then(setAgent)
+      .finally(() => setAgentLoading(false));
+  }, [user]);
+
+  useEffect(() => {
+    if (!agent) return;
+    setListLoading(true);
+    loadHandoffs();
+    const interval = setInterval(loadHandoffs, REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [agent, loadHandoffs]);
+
+  useEffect(() => {
+    if (selectedId === null) {
+      setDetail(null);
+      return;
+    }
+    setDetailLoading(true);
+    loadDetail(selectedId).finally(() => setDetailLoading(false));
+    const interval = setInterval(() => loadDetail(selectedId), REFRESH_MS);
+    return () => clearInterval(interval);
+  }, [selectedId, loadDetail]);
+
+  if (isLoading || !user || agentLoading) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-[#f7f6f3]">
+        <Loader2 className="h-8 w-8 animate-spin text-[#333333]" />
+      </div>
+    );
+  }
+
+  const openHandoff = (handoffId: number) => {
+    setError(null);
+    setReply("");
+    setNotes("");
+    setSelectedId(handoffId);
+  };
+
+  const handleClaim = async () => {
+    if (!detail) return;
+    setIsClaiming(true);
+    setError(null);
+    try {
+      const result = await claimHandoff(detail.handoff.id);
+      if (!result.success) {
+        setError(result.error || "Failed to claim handoff");
+        return;
+      }
+      await Promise.all([loadDetail(detail.handoff.id), loadHandoffs()]);
+    } finally {
+      setIsClaiming(false);
+    }
+  };
+
+  const handleSendReply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!detail || !reply.trim()) return;
+    setIsSending(true);
+    setError(null);
+    try {
+      const result = await sendAgentReply(detail.handoff.id, reply.trim());
+      if (!result.success) {
+        setError(result.error || "Failed to send reply");
+        return;
+      }
+      setReply("");
+      await loadDetail(detail.handoff.id);
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    if (!detail) return;
+    setIsResolving(true);
+    setError(null);
+    try {
+      const result = await resolveHandoff(detail.handoff.id, notes.trim() || undefined);
+      if (!result.success) {
+        setError(result.error || "Failed to resolve handoff");
+        return;
+      }
+      setSelectedId(null);
+      setNotes("");
+      await loadHandoffs();
+    } finally {
+      setIsResolving(false);
+    }
+  };
+
+  const isMine = detail?.handoff.assignee?.id === agent?.id;
+
+  return (
+    <ChatProvider>
+      <SidebarProvider>
+        <div className="relative flex h-screen w-full">
+          <DashboardSidebar />
+          <SidebarInset className="flex flex-col overflow-hidden">
+            <MobileHeader />
+            <main id="main-content" className="flex flex-1 flex-col items-center p-4 pb-20 md:p-8 md:pb-8 overflow-auto bg-[#f7f6f3]">
+              <div className="w-full max-w-4xl space-y-6">
+                <div>
+                  <h1 className="text-3xl font-semibold font-heading tracking-tight">Agent Console</h1>
+                  <p className="text-muted-foreground font-(family-name:--font-work-sans) mt-1">
+                    {agent
+                      ? `Signed in as ${agent.name}${agent.licenseNumber ? ` · License ${agent.licenseNumber}` : ""}`
+                      : "Chats Sam has handed off to a licensed agent"}
+                  </p>
+                </div>
+
+                {!agent ? (
+                  <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                    <CardContent className="py-8 text-center text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                      The agent console is only available to licensed agents.
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <>
+                    {error && (
+                      <div
+                        role="alert"
+                        className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm font-(family-name:--font-work-sans)"
+                      >
+                        {error}
+                      </div>
+                    )}
+
+                    <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                      <CardHeader>
+                        <div className="flex flex-wrap items-center justify-between gap-4">
+                          <div>
+                            <CardTitle className="font-heading">Handoffs</CardTitle>
+                            <CardDescription className="font-(family-name:--font-work-sans)">
+                              Oldest first in the queue; claim one to take over the chat
+                            </CardDescription>
+                          </div>
+                          <div className="flex gap-2" role="tablist">
+                            {(Object.keys(VIEW_LABELS) as HandoffView[]).map((option) => (
+                              <Button
+                                key={option}
+                                role="tab"
+                                aria-selected={view === option}
+                                variant={view === option ? "default" : "outline"}
+                                size="sm"
+                                onClick={() => {
+                                  setView(option);
+                                  setSelectedId(null);
+                                }}
+                                className={view === option
+                                  ? "bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
+                                  : "font-(family-name:--font-work-sans) rounded-full"}
+                              >
+                                {VIEW_LABELS[option]}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      </CardHeader>
+                      <CardContent className="space-y-3">
+                        {listLoading ? (
+                          <div className="flex items-center justify-center py-8">
+                            <Loader2 className="h-6 w-6 animate-spin text-[#333333]" />
+                          </div>
+                        ) : handoffs.length === 0 ? (
+                          <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) text-center py-4">
+                            Nothing here right now
+                          </p>
+                        ) : (
+                          handoffs.map((handoff) => (
+                            <button
+                              key={handoff.id}
+                              type="button"
+                              onClick={() => openHandoff(handoff.id)}
+                              className={`w-full text-left p-4 rounded-lg border transition-colors ${
+                                selectedId === handoff.id
+                                  ? "border-[#333333] bg-white"
+                                  : "border-[#333333]/5 bg-[#f7f6f3] hover:bg-white"
+                              }`}
+                            >
+                              <p className="font-semibold font-(family-name:--font-work-sans)">
+                                {SOURCE_LABELS[handoff.source]}
+                              </p>
+                              <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                                {handoff.reason ? `${handoff.reason} · ` : ""}
+                                {new Date(handoff.createdAt).toLocaleString()}
+                                {handoff.assignee ? ` · ${handoff.assignee.name}` : ""}
+                              </p>
+                            </button>
+                          ))
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    {detailLoading && !detail && (
+                      <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-[#333333]" />
+                      </div>
+                    )}
+
+                    {detail && (
+                      <>
+                        <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                          <CardHeader>
+                            <div className="flex items-center justify-between gap-4">
+                              <div>
+                                <CardTitle className="font-heading">
+                                  {detail.customer.name || detail.customer.email || "Customer"}
+                                </CardTitle>
+                                <CardDescription className="font-(family-name:--font-work-sans)">
+                                  {SOURCE_LABELS[detail.handoff.source]}
+                                  {detail.handoff.reason ? ` · ${detail.handoff.reason}` : ""}
+                                </CardDescription>
+                              </div>
+                              {detail.handoff.status === "initiated" && (
+                                <Button
+                                  onClick={handleClaim}
+                                  disabled={isClaiming}
+                                  className="gap-2 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
+                                >
+                                  {isClaiming ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <FontAwesomeIcon icon={faHandPointer} className="size-4" />
+                                  )}
+                                  Claim
+                                </Button>
+                              )}
+                            </div>
+                          </CardHeader>
+                          <CardContent className="space-y-3">
+                            {detail.messages.length === 0 && (
+                              <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) text-center py-4">
+                                No messages in this chat yet
+                              </p>
+                            )}
+                            {detail.messages.map((message) => (
+                              <div
+                                key={message.id}
+                                className={`p-3 rounded-lg text-sm font-(family-name:--font-work-sans) ${
+                                  message.role === "user"
+                                    ? "bg-[#dedddb] ml-8"
+                                    : message.role === "agent"
+                                      ? "bg-[#333333]/5 border border-[#333333]/10 mr-8"
+                                      : "bg-muted mr-8"
+                                }`}
+                              >
+                                <p className="text-xs font-bold text-muted-foreground mb-1">
+                                  {message.role === "user"
+                                    ? "Customer"
+                                    : message.role === "agent"
+                                      ? message.agentName || "Agent"
+                                      : "Sam"}
+                                  {" · "}
+                                  {new Date(message.timestamp).toLocaleString()}
+                                </p>
+                                <p className="whitespace-pre-wrap">{message.content}</p>
+                              </div>
+                            ))}
+
+                            {isMine && detail.handoff.status === "assigned" && (
+                              <form onSubmit={handleSendReply} className="space-y-2 pt-2">
+                                <Textarea
+                                  value={reply}
+                                  onChange={(e) => setReply(e.target.value)}
+                                  placeholder="Reply to the customer in their chat"
+                                  aria-label="Reply to the customer"
+                                  maxLength={5000}
+                                  rows={3}
+                                  className="bg-white font-(family-name:--font-work-sans)"
+                                />
+                                <div className="flex justify-end">
+                                  <Button
+                                    type="submit"
+                                    disabled={isSending || !reply.trim()}
+                                    className="gap-2 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
+                                  >
+                                    {isSending ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <FontAwesomeIcon icon={faPaperPlane} className="size-4" />
+                                    )}
+                                    Send
+                                  </Button>
+                                </div>
+                              </form>
+                            )}
+                          </CardContent>
+                        </Card>
+
+                        <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                          <CardHeader>
+                            <CardTitle className="font-heading">Policies on File</CardTitle>
+                            <CardDescription className="font-(family-name:--font-work-sans)">
+                              Sam&apos;s analysis of each policy the customer uploaded
+                            </CardDescription>
+                          </CardHeader>
+                          <CardContent className="space-y-3">
+                            {detail.policies.length === 0 ? (
+                              <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) text-center py-4">
+                                No policies uploaded
+                              </p>
+                            ) : (
+                              detail.policies.map((policy) => (
+                                <div
+                                  key={policy.policyType}
+                                  className="p-4 rounded-lg bg-[#f7f6f3] border border-[#333333]/5"
+                                >
+                                  <p className="font-semibold font-(family-name:--font-work-sans)">
+                                    {policyTypeLabels[policy.policyType] || "Policy"}
+                                    {policy.carrier ? ` · ${policy.carrier}` : ""}
+                                  </p>
+                                  <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) whitespace-pre-wrap mt-1">
+                                    {policy.analysis}
+                                  </p>
+                                </div>
+                              ))
+                            )}
+                          </CardContent>
+                        </Card>
+
+                        {isMine && detail.handoff.status === "assigned" && (
+                          <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                            <CardHeader>
+                              <CardTitle className="font-heading">Resolve</CardTitle>
+                              <CardDescription className="font-(family-name:--font-work-sans)">
+                                Close the handoff once the customer is taken care of
+                              </CardDescription>
+                            </CardHeader>
+                            <CardContent className="space-y-2">
+                              <Textarea
+                                value={notes}
+                                onChange={(e) => setNotes(e.target.value)}
+                                placeholder="Notes for the record (optional)"
+                                aria-label="Resolution notes"
+                                maxLength={2000}
+                                rows={2}
+                                className="bg-white font-(family-name:--font-work-sans)"
+                              />
+                              <div className="flex justify-end">
+                                <Button
+                                  onClick={handleResolve}
+                                  disabled={isResolving}
+                                  variant="outline"
+                                  className="gap-2 font-(family-name:--font-work-sans) rounded-full"
+                                >
+                                  {isResolving ? (
+                                    <Loader2 className="h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <FontAwesomeIcon icon={faCircleCheck} className="size-4" />
+                                  )}
+                                  Mark resolved
+                                </Button>
+                              </div>
+                            </CardContent>
+                          </Card>
+                        )}
+
+                        {detail.handoff.status === "completed" && detail.handoff.notes && (
+                          <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                            <FontAwesomeIcon icon={faUserTie} className="size-3 mr-1.5" aria-hidden="true" />
+                            {detail.handoff.notes}
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </>
+                )}
+              </div>
+            </main>
+          </SidebarInset>
+        </div>
+      </SidebarProvider>
+    </ChatProvider>
+  );
+}
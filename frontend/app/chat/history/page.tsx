@@ -6,7 +6,7 @@ import Image from "next/image";
 import { DashboardSidebar } from "@/components/sidebar-02/app-sidebar";
 import { ChatProvider, useChatContext } from "@/app/context/ChatContext";
 import { useAuth } from "@/lib/auth-context";
-import { ChatSession, getUserSessions, deleteSession, renameSession } from "@/lib/api";
+import { ChatSession, ConversationSearchResult, getUserSessions, deleteSession, renameSession, searchConversations, openSessionAtMessage } from "@/lib/api";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faMessage, faSearch, faPlus, faTrash, faEllipsisVertical, faPen } from "@fortawesome/free-solid-svg-icons";
 import { Button } from "@/components/ui/button";
@@ -64,6 +64,9 @@ function getSessionTitle(session: ChatSession): string {
     return "New chat";
 }
 
+// Wait for typing to pause before searching message contents
+const MESSAGE_SEARCH_DEBOUNCE_MS = 400;
+
 function ChatHistoryContent() {
     const { user } = useAuth();
     const router = useRouter();
@@ -71,6 +74,8 @@ function ChatHistoryContent() {
     const [sessions, setSessions] = useState<ChatSession[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [searchQuery, setSearchQuery] = useState("");
+    const [messageResults, setMessageResults] = useState<ConversationSearchResult[]>([]);
+    const [isSearchingMessages, setIsSearchingMessages] = useState(false);
     const [renameDialogOpen, setRenameDialogOpen] = useState(false);
     const [sessionToRename, setSessionToRename] = useState<{ id: number; currentName: string } | null>(null);
     const [newSessionName, setNewSessionName] = useState("");
@@ -117,6 +122,36 @@ function ChatHistoryContent() {
         loadSessions();
     }, [user?.id]);
 
+    // Search inside messages as well as titles
+    useEffect(() => {
+        const query = searchQuery.trim();
+        if (!user?.id || query.length < 2) {
+            setMessageResults([]);
+            setIsSearchingMessages(false);
+            return;
+        }
+
+        let cancelled = false;
+        setIsSearchingMessages(true);
+        const timer = setTimeout(async () => {
+            const results = await searchConversations(user.id, query);
+            if (!cancelled) {
+                setMessageResults(results);
+                setIsSearchingMessages(false);
+            }
+        }, MESSAGE_SEARCH_DEBOUNCE_MS);
+
+        return () => {
+            cancelled = true;
+            clearTimeout(timer);
+        };
+    }, [searchQuery, user?.id]);
+
+    const openSearchResult = (result: ConversationSearchResult) => {
+        openSessionAtMessage(result.session.id, result.messageId);
+        router.push("/chat");
+    };
+
     const continueSession = (sessionId: number) => {
         localStorage.setItem("samurai_chat_session_id", sessionId.toString());
         router.push("/chat");
@@ -214,6 +249,45 @@ function ChatHistoryContent() {
                 </div>
             </div>
 
+            {/* Message Matches */}
+            {searchQuery.trim().length >= 2 && (
+                <div className="px-2 pt-4">
+                    <p className="px-4 pb-2 text-sm font-bold text-[#333333] font-(family-name:--font-work-sans)">
+                        Messages
+                    </p>
+                    {isSearchingMessages ? (
+                        <p className="px-4 text-sm text-muted-foreground font-(family-name:--font-work-sans)">Searching messages...</p>
+                    ) : messageResults.length === 0 ? (
+                        <p className="px-4 text-sm text-muted-foreground font-(family-name:--font-work-sans)">No messages match your search</p>
+                    ) : (
+                        <div className="divide-y divide-[#333333]/10">
+                            {messageResults.map((result) => (
+                                <button
+                                    key={result.messageId}
+                                    onClick={() => openSearchResult(result)}
+                                    className="w-full flex flex-col gap-1 px-4 py-3 text-left rounded-lg hover:bg-[#333333]/5 transition-colors"
+                                >
+                                    <span className="text-xs font-bold truncate font-(family-name:--font-work-sans) text-[#333333]">
+                                        {result.session.title}
+                                    </span>
+                                    <span className="text-sm line-clamp-2 font-(family-name:--font-work-sans)">
+                                        {result.role && (
+                                            <span className="font-semibold">{result.role === "user" ? "You: " : "Sam: "}</span>
+                                        )}
+                                        {result.snippet}
+                                    </span>
+                                    {result.timestamp && (
+                                        <span className="text-xs text-muted-foreground font-(family-name:--font-work-sans)">
+                                            {new Date(result.timestamp).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })}
+                                        </span>
+                                    )}
+                                </button>
+                            ))}
+                        </div>
+                    )}
+                </div>
+            )}
+
             {/* Chat Count */}
             <div className="px-6 py-4">
                 <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
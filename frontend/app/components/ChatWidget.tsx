@@ -30,6 +30,7 @@ import {
     faXmark,
     faCamera,
     faUpload,
+    faUserTie,
 } from "@fortawesome/free-solid-svg-icons";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import Image from "next/image";
@@ -43,15 +44,25 @@ import {
     getStoredSessionId,
     getChatHistory,
     clearStoredSession,
+    takeFocusedMessageId,
     getUserPolicies,
+    getSessionHandoff,
+    requestHandoff,
+    uploadClaimPhoto,
     UserPolicy,
     PaginationInfo,
-    ChatResponse
+    ChatResponse,
+    Citation,
+    Handoff,
+    StoredMessage
 } from "@/lib/api";
 import { useAuth } from "@/lib/auth-context";
 import { useChatContext } from "@/app/context/ChatContext";
+import { useLanguage } from "@/app/context/LanguageContext";
+import { hasMessage, translate } from "@/lib/i18n";
 import { MessageFeedback } from "@/components/feedback";
 import { StarterSuggestions } from "@/app/components/onboarding";
+import { CitationFootnotes } from "@/app/components/CitationFootnotes";
 
 interface AttachedFile {
     id: string;
@@ -68,19 +79,31 @@ interface AttachedPolicy {
 interface Message {
     id: string;
     content: string;
-    role: "user" | "assistant";
+    role: "user" | "assistant" | "agent";
     timestamp: Date;
     attachedPolicy?: AttachedPolicy;
+    citations?: Citation[];
+    /** Licensed agent who wrote the message */
+    agentName?: string | null;
 }
 
+// Pages of 50 to load back through when opening a session at an older search hit
+const MAX_FOCUS_PAGES = 10;
+
+// How often to check for agent replies while a handoff is open
+const HANDOFF_POLL_MS = 15000;
+
 export default function ChatWidget() {
     const { user } = useAuth();
     const { setHasMessages, onNewChatRequested, onSessionSelected, setCurrentSessionId, loadRecentSessions } = useChatContext();
+    const { language, t } = useLanguage();
     const [prompt, setPrompt] = useState("");
     const [isDragOver, setIsDragOver] = useState(false);
     const [attachedFiles, setAttachedFiles] = useState<AttachedFile[]>([]);
     const [messages, setMessages] = useState<Message[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [isStreamingReply, setIsStreamingReply] = useState(false);
+    const [progressMessage, setProgressMessage] = useState<string | null>(null);
     const [isUploadingPolicy, setIsUploadingPolicy] = useState(false);
     const [showUploadModal, setShowUploadModal] = useState(false);
     const [sessionId, setSessionId] = useState<string>(() => `session_${Date.now()}_${Math.random().toString(36).substring(7)}`);
@@ -91,8 +114,15 @@ export default function ChatWidget() {
     const [isLoadingPolicies, setIsLoadingPolicies] = useState(false);
     const [pagination, setPagination] = useState<PaginationInfo | null>(null);
     const [isLoadingMore, setIsLoadingMore] = useState(false);
+    const [focusedMessageId, setFocusedMessageId] = useState<string | null>(null);
+    const [handoff, setHandoff] = useState<Handoff | null>(null);
+    const [isRequestingHandoff, setIsRequestingHandoff] = useState(false);
+    const [uploadingClaimId, setUploadingClaimId] = useState<number | null>(null);
     const fileInputRef = useRef<HTMLInputElement>(null);
     const policyFileInputRef = useRef<HTMLInputElement>(null);
+    const claimPhotoInputRef = useRef<HTMLInputElement>(null);
+    // Claim the next picked photo belongs to
+    const photoClaimId = useRef<number | null>(null);
     const messagesEndRef = useRef<HTMLDivElement>(null);
     const textareaRef = useRef<HTMLTextAreaElement>(null);
     const sessionInitialized = useRef(false);
@@ -101,11 +131,11 @@ export default function ChatWidget() {
     const getTimeBasedGreeting = () => {
         const hour = new Date().getHours();
         if (hour >= 5 && hour < 12) {
-            return "Good morning";
+            return t("chat.greeting.morning");
         } else if (hour >= 12 && hour < 18) {
-            return "Good afternoon";
+            return t("chat.greeting.afternoon");
         } else {
-            return "Good evening";
+            return t("chat.greeting.evening");
         }
     };
 
@@ -158,6 +188,13 @@ export default function ChatWidget() {
     const hasUploadMarker = (content: string) => content.includes('[UPLOAD_POLICY]');
     const removeUploadMarker = (content: string) => content.replace('[UPLOAD_POLICY]', '').trim();
 
+    // Claim photo marker: [CLAIM_PHOTOS:<claimId>] while a claim report asks for photos
+    const getClaimPhotosMarker = (content: string): number | null => {
+        const match = content.match(/\[CLAIM_PHOTOS:(\d+)\]/);
+        return match ? parseInt(match[1], 10) : null;
+    };
+    const removeClaimPhotosMarker = (content: string) => content.replace(/\[CLAIM_PHOTOS:\d+\]/g, '').trim();
+
     // Initialize session and load history for logged-in users
     useEffect(() => {
         const initializeSession = async () => {
@@ -169,6 +206,8 @@ export default function ChatWidget() {
             try {
                 // Check for existing session in localStorage
                 const storedSessionId = getStoredSessionId();
+                // Set when arriving from a conversation search hit
+                const focusMessageId = takeFocusedMessageId();
 
                 if (storedSessionId) {
                     // Try to load existing session history (most recent 50 messages)
@@ -178,14 +217,37 @@ export default function ChatWidget() {
                         // Valid session with messages - load it
                         setDbSessionId(storedSessionId);
                         setCurrentSessionId(storedSessionId);
-                        const loadedMessages: Message[] = response.messages.map(msg => ({
+
+                        // The search hit may be older than the first page - keep paging back until it is loaded
+                        let history = response.messages;
+                        let historyPagination = response.pagination;
+                        for (
+                            let page = 1;
+                            focusMessageId && page < MAX_FOCUS_PAGES && !history.some(msg => msg.id === focusMessageId) &&
+                                historyPagination?.hasMore && historyPagination.oldestTimestamp;
+                            page++
+                        ) {
+                            const older = await getChatHistory(storedSessionId, user!.id, {
+                                limit: 50,
+                                before: historyPagination.oldestTimestamp
+                            });
+                            history = [...older.messages, ...history];
+                            historyPagination = older.pagination;
+                        }
+
+                        const loadedMessages: Message[] = history.map(msg => ({
                             id: msg.id,
                             content: msg.content,
                             role: msg.role,
-                            timestamp: new Date(msg.timestamp)
+                            timestamp: new Date(msg.timestamp),
+                            citations: msg.citations,
+                            agentName: msg.agentName
                         }));
                         setMessages(loadedMessages);
-                        setPagination(response.pagination || null);
+                        setPagination(historyPagination || null);
+                        if (focusMessageId && history.some(msg => msg.id === focusMessageId)) {
+                            setFocusedMessageId(focusMessageId);
+                        }
                     } else {
                         // Session returned empty - could be stale/invalid, clear it
                         console.warn('Stored session returned no messages, clearing stale session');
@@ -219,6 +281,8 @@ export default function ChatWidget() {
         setCurrentSessionId(null);
         setSelectedPolicy(null); // Clear policy selection for new chat
         setPagination(null); // Clear pagination state
+        setFocusedMessageId(null);
+        setHandoff(null);
         setSessionId(`session_${Date.now()}_${Math.random().toString(36).substring(7)}`);
         sessionInitialized.current = false; // Allow session creation on first message
         // Reset scroll position to top to prevent header appearing cut off
@@ -233,6 +297,7 @@ export default function ChatWidget() {
         try {
             // Update localStorage to persist the selection
             localStorage.setItem('samurai_chat_session_id', targetSessionId.toString());
+            setFocusedMessageId(null);
             setDbSessionId(targetSessionId);
             setCurrentSessionId(targetSessionId);
 
@@ -243,7 +308,9 @@ export default function ChatWidget() {
                     id: msg.id,
                     content: msg.content,
                     role: msg.role,
-                    timestamp: new Date(msg.timestamp)
+                    timestamp: new Date(msg.timestamp),
+                    citations: msg.citations,
+                    agentName: msg.agentName
                 }));
                 setMessages(loadedMessages);
                 setPagination(response.pagination || null);
@@ -274,7 +341,9 @@ export default function ChatWidget() {
                     id: msg.id,
                     content: msg.content,
                     role: msg.role,
-                    timestamp: new Date(msg.timestamp)
+                    timestamp: new Date(msg.timestamp),
+                    citations: msg.citations,
+                    agentName: msg.agentName
                 }));
                 // Prepend older messages to the beginning
                 setMessages(prev => [...olderMessages, ...prev]);
@@ -287,6 +356,63 @@ export default function ChatWidget() {
         }
     }, [user?.id, dbSessionId, pagination, isLoadingMore]);
 
+    // Open handoff for the current chat, if any
+    useEffect(() => {
+        if (!user?.id || !dbSessionId) {
+            setHandoff(null);
+            return;
+        }
+        let cancelled = false;
+        getSessionHandoff(dbSessionId).then((openHandoff) => {
+            if (!cancelled) setHandoff(openHandoff);
+        });
+        return () => { cancelled = true; };
+    }, [user?.id, dbSessionId]);
+
+    // While a handoff is open, poll for agent replies and for the agent joining or closing it
+    const hasOpenHandoff = handoff !== null;
+    useEffect(() => {
+        if (!user?.id || !dbSessionId || !hasOpenHandoff) return;
+
+        const poll = async () => {
+            const [latest, openHandoff] = await Promise.all([
+                getChatHistory(dbSessionId, user.id, { limit: 50 }),
+                getSessionHandoff(dbSessionId),
+            ]);
+            setHandoff(openHandoff);
+            setMessages((prev) => {
+                const known = new Set(prev.map(msg => msg.id));
+                const incoming = latest.messages.filter((msg: StoredMessage) => !known.has(msg.id) && msg.role === "agent");
+                if (incoming.length === 0) return prev;
+                return [...prev, ...incoming.map(msg => ({
+                    id: msg.id,
+                    content: msg.content,
+                    role: msg.role,
+                    timestamp: new Date(msg.timestamp),
+                    agentName: msg.agentName
+                }))];
+            });
+        };
+
+        const interval = setInterval(poll, HANDOFF_POLL_MS);
+        return () => clearInterval(interval);
+    }, [user?.id, dbSessionId, hasOpenHandoff]);
+
+    // Ask for a licensed agent to join the current chat
+    const handleRequestHandoff = async () => {
+        if (!dbSessionId || isRequestingHandoff) return;
+
+        setIsRequestingHandoff(true);
+        try {
+            const result = await requestHandoff(dbSessionId);
+            if (result.success && result.data) {
+                setHandoff(result.data);
+            }
+        } finally {
+            setIsRequestingHandoff(false);
+        }
+    };
+
     // Sync messages state with chat context for sidebar
     useEffect(() => {
         setHasMessages(messages.length > 0);
@@ -312,8 +438,13 @@ export default function ChatWidget() {
     }, [user?.id, loadSession]);
 
     useEffect(() => {
+        // A search hit stays in view until the user sends a new message
+        if (focusedMessageId) {
+            document.getElementById(`message-${focusedMessageId}`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+            return;
+        }
         messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-    }, [messages]);
+    }, [messages, focusedMessageId]);
 
     // Handle policy document upload
     const handlePolicyUpload = async (file: File) => {
@@ -322,7 +453,7 @@ export default function ChatWidget() {
         setIsUploadingPolicy(true);
 
         try {
-            const result = await uploadPolicyDocument(file, sessionId, user?.id);
+            const result = await uploadPolicyDocument(file, sessionId, user?.id, language);
 
             if (result.success && result.message) {
                 const assistantMessage: Message = {
@@ -337,7 +468,7 @@ export default function ChatWidget() {
             } else {
                 const errorMessage: Message = {
                     id: generateFileId(),
-                    content: result.error || "I had trouble processing your document. Please try uploading again or use a clearer image.",
+                    content: result.error || t("chat.error.upload"),
                     role: "assistant",
                     timestamp: new Date(),
                 };
@@ -347,7 +478,7 @@ export default function ChatWidget() {
             console.error("Error uploading policy:", error);
             const errorMessage: Message = {
                 id: generateFileId(),
-                content: "I encountered an error processing your document. Please try again.",
+                content: t("chat.error.uploadFailed"),
                 role: "assistant",
                 timestamp: new Date(),
             };
@@ -369,6 +500,35 @@ export default function ChatWidget() {
         }
     };
 
+    // Attach photos of the damage to the claim being reported
+    const handleClaimPhotoSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const files = Array.from(e.target.files || []);
+        const claimId = photoClaimId.current;
+        if (claimPhotoInputRef.current) {
+            claimPhotoInputRef.current.value = "";
+        }
+        if (!user?.id || claimId === null || files.length === 0) return;
+
+        setUploadingClaimId(claimId);
+        try {
+            for (const file of files) {
+                const result = await uploadClaimPhoto(user.id, claimId, file, language);
+                const reply: Message = {
+                    id: generateFileId(),
+                    content: result.success && result.data
+                        ? result.data.message
+                        : result.error || t("chat.claimPhotos.error"),
+                    role: "assistant",
+                    timestamp: new Date(),
+                };
+                setMessages((prev) => [...prev, reply]);
+                if (!result.success) break;
+            }
+        } finally {
+            setUploadingClaimId(null);
+        }
+    };
+
     const processFiles = (files: File[]) => {
         for (const file of files) {
             const fileId = generateFileId();
@@ -397,11 +557,12 @@ export default function ChatWidget() {
     const submitPrompt = async () => {
         if (prompt.trim() && !isLoading) {
             const userMessageContent = prompt;
+            setFocusedMessageId(null);
 
-            // Build message with policy context if selected
+            // Build message with policy context if selected (always in English - it's for Sam, not the user)
             let messageToSend = userMessageContent;
             if (selectedPolicy) {
-                const policyContext = `[Using ${getPolicyDisplayName(selectedPolicy.policyType)} from ${selectedPolicy.carrier} as context]\n\nPolicy Details:\n${selectedPolicy.analysis}\n\n---\n\nUser Question: `;
+                const policyContext = `[Using ${getPolicyDisplayName(selectedPolicy.policyType, "en")} from ${selectedPolicy.carrier} as context]\n\nPolicy Details:\n${selectedPolicy.analysis}\n\n---\n\nUser Question: `;
                 messageToSend = policyContext + userMessageContent;
             }
 
@@ -429,6 +590,10 @@ export default function ChatWidget() {
             setSelectedPolicy(null); // Clear policy selection after sending
             setIsLoading(true);
 
+            // Placeholder ID for the assistant message while it streams in
+            const tempAssistantMessageId = generateFileId();
+            let hasStreamedContent = false;
+
             try {
                 // Create session on first message if we don't have one
                 let currentDbSessionId = dbSessionId;
@@ -442,17 +607,45 @@ export default function ChatWidget() {
                 }
 
                 // Convert messages to the format expected by the backend
+                // (Sam sees a licensed agent's replies as the assistant side of the chat)
                 const history = messages.map(msg => ({
-                    role: msg.role,
+                    role: msg.role === "agent" ? "assistant" as const : msg.role,
                     content: msg.content,
                 }));
 
                 // Call the backend API with session tracking (send message with policy context)
+                // Progress updates replace the typing dots; chunks render into the reply as they arrive
                 const chatResponse: ChatResponse = await sendChatMessage(
                     messageToSend,
                     history,
                     user?.id,
-                    currentDbSessionId ?? undefined
+                    currentDbSessionId ?? undefined,
+                    {
+                        onProgress: (event) => {
+                            const key = `chat.progress.${event.stage}`;
+                            setProgressMessage(hasMessage(key) ? t(key) : event.message);
+                        },
+                        onChunk: (text) => {
+                            if (!hasStreamedContent) {
+                                hasStreamedContent = true;
+                                setIsStreamingReply(true);
+                                setProgressMessage(null);
+                                setMessages((prev) => [...prev, {
+                                    id: tempAssistantMessageId,
+                                    content: text,
+                                    role: "assistant",
+                                    timestamp: new Date(),
+                                }]);
+                            } else {
+                                setMessages((prev) => prev.map(msg =>
+                                    msg.id === tempAssistantMessageId
+                                        ? { ...msg, content: msg.content + text }
+                                        : msg
+                                ));
+                            }
+                        },
+                    },
+                    language
                 );
 
                 // Update user message with database ID if available (enables feedback)
@@ -464,15 +657,27 @@ export default function ChatWidget() {
                     ));
                 }
 
-                // Add assistant response with database ID for immediate feedback
+                // Finalize assistant response with database ID for immediate feedback
                 const assistantMessage: Message = {
-                    id: chatResponse.assistantMessageId?.toString() || generateFileId(),
+                    id: chatResponse.assistantMessageId?.toString() || tempAssistantMessageId,
                     content: chatResponse.response,
                     role: "assistant",
                     timestamp: new Date(),
+                    citations: chatResponse.citations,
                 };
 
-                setMessages((prev) => [...prev, assistantMessage]);
+                if (hasStreamedContent) {
+                    setMessages((prev) => prev.map(msg =>
+                        msg.id === tempAssistantMessageId ? assistantMessage : msg
+                    ));
+                } else {
+                    setMessages((prev) => [...prev, assistantMessage]);
+                }
+
+                // The chat is queued for or with a licensed agent - show the banner and start watching for replies
+                if ((chatResponse.handoffRequested || chatResponse.advisorAssigned) && currentDbSessionId) {
+                    setHandoff(await getSessionHandoff(currentDbSessionId));
+                }
 
                 // Refresh recent sessions in sidebar to show updated last_message_at
                 if (user?.id) {
@@ -481,16 +686,21 @@ export default function ChatWidget() {
             } catch (err) {
                 console.error("Error sending message:", err);
 
-                // Add error message to chat
+                // Replace any partially streamed reply with an error message
                 const errorMessage: Message = {
                     id: generateFileId(),
-                    content: "I'm sorry, I encountered an error processing your request. Please try again.",
+                    content: t("chat.error.send"),
                     role: "assistant",
                     timestamp: new Date(),
                 };
-                setMessages((prev) => [...prev, errorMessage]);
+                setMessages((prev) => [
+                    ...prev.filter(msg => msg.id !== tempAssistantMessageId),
+                    errorMessage,
+                ]);
             } finally {
                 setIsLoading(false);
+                setIsStreamingReply(false);
+                setProgressMessage(null);
             }
         }
     };
@@ -519,17 +729,9 @@ export default function ChatWidget() {
     }, [loadUserPolicies]);
 
     // Get display name for policy type
-    const getPolicyDisplayName = (policyType: string) => {
-        const names: Record<string, string> = {
-            'auto': 'Auto Insurance',
-            'home': 'Home Insurance',
-            'renters': 'Renters Insurance',
-            'umbrella': 'Umbrella Policy',
-            'life': 'Life Insurance',
-            'health': 'Health Insurance',
-            'other': 'Other Policy'
-        };
-        return names[policyType] || policyType;
+    const getPolicyDisplayName = (policyType: string, displayLanguage = language) => {
+        const key = `policyType.${policyType}`;
+        return hasMessage(key) ? translate(displayLanguage, key) : policyType;
     };
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
@@ -628,7 +830,7 @@ export default function ChatWidget() {
                         <span className="animate-bounce text-2xl text-[#de5e48]" style={{ animationDelay: "150ms" }}>●</span>
                         <span className="animate-bounce text-2xl text-[#de5e48]" style={{ animationDelay: "300ms" }}>●</span>
                     </div>
-                    <p className="text-muted-foreground font-(family-name:--font-work-sans)">Loading your chat...</p>
+                    <p className="text-muted-foreground font-(family-name:--font-work-sans)">{t("chat.loadingChat")}</p>
                 </div>
             ) : messages.length === 0 && !isUploadingPolicy ? (
                 <div className="flex flex-col items-center justify-center gap-6">
@@ -644,7 +846,7 @@ export default function ChatWidget() {
                         <h1 className="text-pretty text-center font-heading font-semibold text-[32px] text-foreground tracking-tighter sm:text-[32px] md:text-[46px]">
                             {getUserFirstName()
                                 ? `${getTimeBasedGreeting()}, ${getUserFirstName()}`
-                                : "How can I help you today?"}
+                                : t("chat.emptyTitle")}
                         </h1>
                     </div>
                     <StarterSuggestions
@@ -673,10 +875,10 @@ export default function ChatWidget() {
                     />
                     <div className="flex flex-col items-center gap-2">
                         <p className="text-lg font-medium text-foreground font-(family-name:--font-work-sans)">
-                            Analyzing your policy document...
+                            {t("chat.analyzing")}
                         </p>
                         <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
-                            This may take a moment
+                            {t("chat.analyzingHint")}
                         </p>
                         <div className="flex gap-1 mt-2" aria-hidden="true">
                             <span className="animate-bounce text-xl text-[#de5e48]" style={{ animationDelay: "0ms" }}>●</span>
@@ -689,7 +891,7 @@ export default function ChatWidget() {
                 <div
                     className="flex-1 overflow-y-auto pb-4 space-y-4 max-w-2xl w-full mx-auto scrollbar-hide px-2 sm:px-0 min-h-0"
                     aria-live="polite"
-                    aria-label="Chat messages"
+                    aria-label={t("chat.messagesLabel")}
                 >
                     {/* Load Previous Messages Button */}
                     {pagination?.hasMore && (
@@ -704,17 +906,20 @@ export default function ChatWidget() {
                                 {isLoadingMore ? (
                                     <>
                                         <span className="animate-spin mr-2">●</span>
-                                        Loading...
+                                        {t("common.loading")}
                                     </>
                                 ) : (
-                                    "Load previous messages"
+                                    t("chat.loadPrevious")
                                 )}
                             </Button>
                         </div>
                     )}
                     {messages.map((message) => {
                         const showUploadButton = hasUploadMarker(message.content);
-                        const displayContent = showUploadButton ? removeUploadMarker(message.content) : message.content;
+                        const claimPhotosId = message.role === "assistant" ? getClaimPhotosMarker(message.content) : null;
+                        const displayContent = removeClaimPhotosMarker(
+                            showUploadButton ? removeUploadMarker(message.content) : message.content
+                        );
 
                         // Check if message ID is a database ID (numeric string) for feedback
                         const isPersistedMessage = /^\d+$/.test(message.id);
@@ -722,13 +927,20 @@ export default function ChatWidget() {
                         return (
                             <div
                                 key={message.id}
+                                id={`message-${message.id}`}
                                 className={cn(
                                     "flex items-start gap-2 sm:gap-3 px-3 sm:px-4 py-2 rounded-3xl w-fit max-w-[90%] sm:max-w-[80%]",
                                     message.role === "user"
                                         ? "bg-[#dedddb] ml-auto"
-                                        : "bg-muted mr-auto"
+                                        : "bg-muted mr-auto",
+                                    message.id === focusedMessageId && "ring-2 ring-[#de5e48]"
                                 )}
                             >
+                                {message.role === "agent" && (
+                                    <div className="shrink-0 flex size-8 items-center justify-center rounded-full bg-[#333333]" aria-hidden="true">
+                                        <FontAwesomeIcon icon={faUserTie} className="size-4 text-[#f7f6f3]" />
+                                    </div>
+                                )}
                                 {message.role === "assistant" && (
                                     <div className="shrink-0" aria-hidden="true">
                                         <Image
@@ -741,10 +953,17 @@ export default function ChatWidget() {
                                     </div>
                                 )}
                                 <div className="flex flex-col gap-2">
+                                    {message.role === "agent" && (
+                                        <span className="text-xs font-bold text-muted-foreground font-(family-name:--font-work-sans)">
+                                            {message.agentName
+                                                ? t("chat.handoff.agentNamed", { name: message.agentName })
+                                                : t("chat.handoff.agent")}
+                                        </span>
+                                    )}
                                     {message.attachedPolicy && (
                                         <div className="flex items-center gap-1.5 text-xs text-muted-foreground font-(family-name:--font-work-sans)">
                                             <FontAwesomeIcon icon={faFileLines} className="size-3 text-[#de5e48]" />
-                                            <span>Using {getPolicyDisplayName(message.attachedPolicy.policyType)}</span>
+                                            <span>{t("chat.usingPolicy", { policy: getPolicyDisplayName(message.attachedPolicy.policyType) })}</span>
                                         </div>
                                     )}
                                     {message.role === "assistant" ? (
@@ -803,13 +1022,29 @@ export default function ChatWidget() {
                                     ) : (
                                         <p className="text-base whitespace-pre-wrap font-(family-name:--font-work-sans)">{displayContent}</p>
                                     )}
+                                    {message.citations && message.citations.length > 0 && (
+                                        <CitationFootnotes citations={message.citations} />
+                                    )}
                                     {showUploadButton && (
                                         <Button
                                             onClick={() => setShowUploadModal(true)}
                                             className="mt-2 bg-[#333333] hover:bg-[#333333]/90 font-bold text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
                                         >
                                             <FontAwesomeIcon icon={faUpload} className="mr-2 size-4" />
-                                            Upload Policy Document
+                                            {t("chat.uploadPolicyDocument")}
+                                        </Button>
+                                    )}
+                                    {claimPhotosId !== null && user?.id && (
+                                        <Button
+                                            onClick={() => {
+                                                photoClaimId.current = claimPhotosId;
+                                                claimPhotoInputRef.current?.click();
+                                            }}
+                                            disabled={uploadingClaimId !== null}
+                                            className="mt-2 w-fit bg-[#333333] hover:bg-[#333333]/90 font-bold text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
+                                        >
+                                            <FontAwesomeIcon icon={faCamera} className="mr-2 size-4" />
+                                            {uploadingClaimId === claimPhotosId ? t("chat.claimPhotos.uploading") : t("chat.claimPhotos.add")}
                                         </Button>
                                     )}
                                     {/* Feedback buttons for assistant messages - only for persisted messages */}
@@ -823,7 +1058,7 @@ export default function ChatWidget() {
                                 {message.role === "user" && (
                                     <div className="shrink-0 -mr-2">
                                         <Avatar className="h-6 w-6">
-                                            <AvatarImage src={user?.user_metadata?.avatar_url} alt="User" />
+                                            <AvatarImage src={user?.user_metadata?.avatar_url} alt={t("chat.userAvatar")} />
                                             <AvatarFallback className="bg-[#333333] text-white text-xs font-bold font-(family-name:--font-alte-haas)">
                                                 {getUserInitials()}
                                             </AvatarFallback>
@@ -833,11 +1068,11 @@ export default function ChatWidget() {
                             </div>
                         );
                     })}
-                    {isLoading && (
+                    {isLoading && !isStreamingReply && (
                         <div
                             className="flex items-start gap-2 sm:gap-3 px-3 sm:px-4 py-2 rounded-3xl bg-muted mr-auto w-fit max-w-[90%] sm:max-w-[80%]"
                             role="status"
-                            aria-label={isUploadingPolicy ? "Analyzing your policy document" : "Sam is typing"}
+                            aria-label={isUploadingPolicy ? t("chat.analyzingLabel") : progressMessage || t("chat.typing")}
                         >
                             <div className="shrink-0" aria-hidden="true">
                                 <Image
@@ -852,7 +1087,7 @@ export default function ChatWidget() {
                                 {isUploadingPolicy ? (
                                     <div className="flex flex-col gap-1">
                                         <p className="text-sm text-muted-foreground animate-pulse">
-                                            Analyzing your policy document...
+                                            {t("chat.analyzing")}
                                         </p>
                                         <div className="flex gap-1" aria-hidden="true">
                                             <span className="animate-bounce text-xs text-[#de5e48]" style={{ animationDelay: "0ms" }}>●</span>
@@ -860,6 +1095,17 @@ export default function ChatWidget() {
                                             <span className="animate-bounce text-xs text-[#de5e48]" style={{ animationDelay: "300ms" }}>●</span>
                                         </div>
                                     </div>
+                                ) : progressMessage ? (
+                                    <div className="flex flex-col gap-1">
+                                        <p className="text-sm text-muted-foreground animate-pulse">
+                                            {progressMessage}
+                                        </p>
+                                        <div className="flex gap-1" aria-hidden="true">
+                                            <span className="animate-bounce text-xs" style={{ animationDelay: "0ms" }}>●</span>
+                                            <span className="animate-bounce text-xs" style={{ animationDelay: "150ms" }}>●</span>
+                                            <span className="animate-bounce text-xs" style={{ animationDelay: "300ms" }}>●</span>
+                                        </div>
+                                    </div>
                                 ) : (
                                     <div className="flex gap-1" aria-hidden="true">
                                         <span className="animate-bounce text-sm" style={{ animationDelay: "0ms" }}>●</span>
@@ -878,6 +1124,33 @@ export default function ChatWidget() {
                 "relative z-10 flex flex-col w-full mx-auto max-w-2xl content-center px-2 sm:px-0",
                 messages.length > 0 && "mt-auto"
             )}>
+                {handoff ? (
+                    <div
+                        className="mb-2 flex items-center gap-2 rounded-2xl bg-[#333333]/5 px-3 py-2 text-sm text-[#333333] font-(family-name:--font-work-sans)"
+                        role="status"
+                    >
+                        <FontAwesomeIcon icon={faUserTie} className="size-4 shrink-0 text-[#de5e48]" aria-hidden="true" />
+                        <span>
+                            {handoff.status === "assigned" && handoff.assignee
+                                ? t("chat.handoff.joined", { name: handoff.assignee.name })
+                                : t("chat.handoff.waiting")}
+                        </span>
+                    </div>
+                ) : dbSessionId && messages.length > 0 && (
+                    <div className="mb-2 flex justify-end">
+                        <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={handleRequestHandoff}
+                            disabled={isRequestingHandoff || isLoading}
+                            className="text-muted-foreground hover:text-foreground text-xs font-(family-name:--font-work-sans)"
+                        >
+                            <FontAwesomeIcon icon={faUserTie} className="mr-1.5 size-3" aria-hidden="true" />
+                            {t("chat.handoff.request")}
+                        </Button>
+                    </div>
+                )}
                 <form
                     className="overflow-visible rounded-2xl border border-[#333333]/10 p-3 transition-colors duration-200 focus-within:border-[#de5e48]/30 bg-[hsl(0_0%_98%)] shadow-sm"
                     onDragLeave={handleDragLeave}
@@ -915,7 +1188,7 @@ export default function ChatWidget() {
                                         className="absolute right-0.5 z-10 flex items-center justify-center rounded-sm min-w-6 min-h-6 p-1 text-muted-foreground opacity-0 focus-visible:bg-accent focus-visible:opacity-100 focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-background group-hover:opacity-100"
                                         onClick={() => handleRemoveFile(file.id)}
                                         type="button"
-                                        aria-label={`Remove ${file.name}`}
+                                        aria-label={t("chat.removeFile", { name: file.name })}
                                     >
                                         <FontAwesomeIcon icon={faXmark} className="size-3" aria-hidden="true" />
                                     </button>
@@ -932,14 +1205,14 @@ export default function ChatWidget() {
                                 <span className="flex h-full items-center gap-1.5 overflow-hidden font-normal">
                                     <FontAwesomeIcon icon={faFileLines} className="text-[#de5e48] size-3" />
                                     <span className="text-foreground">
-                                        Using {getPolicyDisplayName(selectedPolicy.policyType)}
+                                        {t("chat.usingPolicy", { policy: getPolicyDisplayName(selectedPolicy.policyType) })}
                                     </span>
                                 </span>
                                 <button
                                     className="absolute right-1 z-10 flex items-center justify-center rounded-sm min-w-6 min-h-6 p-1 text-muted-foreground hover:text-foreground transition-colors focus-visible:ring-2 focus-visible:ring-ring"
                                     onClick={() => setSelectedPolicy(null)}
                                     type="button"
-                                    aria-label="Clear policy selection"
+                                    aria-label={t("chat.clearPolicy")}
                                 >
                                     <FontAwesomeIcon icon={faXmark} className="size-3" aria-hidden="true" />
                                 </button>
@@ -951,9 +1224,9 @@ export default function ChatWidget() {
                         className="max-h-50 min-h-14 resize-none rounded-none border-none bg-transparent! p-0 pl-2 pt-1 text-base md:text-base shadow-none focus-visible:border-transparent focus-visible:ring-0 font-(family-name:--font-work-sans) placeholder:text-base placeholder:text-[#666666]"
                         onChange={handleTextareaChange}
                         onKeyDown={handleKeyDown}
-                        placeholder="What can I help you with?"
+                        placeholder={t("chat.placeholder")}
                         value={prompt}
-                        aria-label="Chat message"
+                        aria-label={t("chat.inputLabel")}
                         data-tour="chat-input"
                     />
 
@@ -965,7 +1238,7 @@ export default function ChatWidget() {
                                 onChange={handleFileSelect}
                                 ref={fileInputRef}
                                 type="file"
-                                aria-label="Upload attachments"
+                                aria-label={t("chat.uploadAttachments")}
                             />
 
                             <DropdownMenu>
@@ -977,7 +1250,7 @@ export default function ChatWidget() {
                                                 size="icon"
                                                 type="button"
                                                 variant="ghost"
-                                                aria-label="Add attachment"
+                                                aria-label={t("chat.addAttachment")}
                                                 data-tour="add-attachment"
                                             >
                                                 <FontAwesomeIcon icon={faPlus} className="text-[#de5e48] size-4" aria-hidden="true" />
@@ -989,7 +1262,7 @@ export default function ChatWidget() {
                                         sideOffset={4}
                                         className="bg-[#333333] text-[#f7f6f3] font-(family-name:--font-work-sans)"
                                     >
-                                        Add
+                                        {t("chat.add")}
                                     </TooltipContent>
                                 </Tooltip>
                                 <DropdownMenuContent
@@ -1001,21 +1274,21 @@ export default function ChatWidget() {
                                         onClick={() => setShowUploadModal(true)}
                                     >
                                         <FontAwesomeIcon icon={faUpload} className="text-[#333333] size-3 mr-2" />
-                                        Upload Policy Document
+                                        {t("chat.uploadPolicyDocument")}
                                     </DropdownMenuItem>
                                     <DropdownMenuItem
                                         className="cursor-pointer hover:bg-[#333333]/5 focus:bg-[#333333]/5 rounded-lg"
                                         onClick={() => fileInputRef.current?.click()}
                                     >
                                         <FontAwesomeIcon icon={faPaperclip} className="text-[#333333] size-3 mr-2" />
-                                        Attach Files
+                                        {t("chat.attachFiles")}
                                     </DropdownMenuItem>
                                     <DropdownMenuItem
                                         className="cursor-pointer hover:bg-[#333333]/5 focus:bg-[#333333]/5 rounded-lg"
                                         onClick={handlePasteFromClipboard}
                                     >
                                         <FontAwesomeIcon icon={faClipboard} className="text-[#333333] size-3 mr-2" />
-                                        Paste from Clipboard
+                                        {t("chat.paste")}
                                     </DropdownMenuItem>
                                 </DropdownMenuContent>
                             </DropdownMenu>
@@ -1032,7 +1305,7 @@ export default function ChatWidget() {
                                                 size="icon"
                                                 type="button"
                                                 variant="ghost"
-                                                aria-label="Select policy"
+                                                aria-label={t("chat.selectPolicyLabel")}
                                                 data-tour="policy-selector"
                                             >
                                                 <FontAwesomeIcon icon={faFileLines} className="text-[#de5e48] size-4" aria-hidden="true" />
@@ -1046,7 +1319,7 @@ export default function ChatWidget() {
                                     >
                                         {selectedPolicy
                                             ? getPolicyDisplayName(selectedPolicy.policyType)
-                                            : "Select Policy"}
+                                            : t("chat.selectPolicy")}
                                     </TooltipContent>
                                 </Tooltip>
                                 <DropdownMenuContent
@@ -1054,22 +1327,22 @@ export default function ChatWidget() {
                                     className="w-56 rounded-2xl p-1.5 border-[#333333]/10 shadow-lg bg-[hsl(0_0%_98%)] font-(family-name:--font-work-sans)"
                                 >
                                     <div className="px-2 py-1.5 text-xs font-medium text-muted-foreground">
-                                        Select a policy for context
+                                        {t("chat.selectPolicyHint")}
                                     </div>
                                     {isLoadingPolicies ? (
                                         <div className="px-2 py-3 text-center">
-                                            <span className="text-xs text-muted-foreground">Loading policies...</span>
+                                            <span className="text-xs text-muted-foreground">{t("chat.loadingPolicies")}</span>
                                         </div>
                                     ) : userPolicies.length === 0 ? (
                                         <div className="px-2 py-3 text-center">
-                                            <p className="text-xs text-muted-foreground mb-2">No policies uploaded yet</p>
+                                            <p className="text-xs text-muted-foreground mb-2">{t("chat.noPolicies")}</p>
                                             <Button
                                                 size="sm"
                                                 className="text-xs h-7 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-bold rounded-full"
                                                 onClick={() => setShowUploadModal(true)}
                                             >
                                                 <FontAwesomeIcon icon={faUpload} className="mr-1.5 size-3" />
-                                                Upload Policy
+                                                {t("chat.uploadPolicy")}
                                             </Button>
                                         </div>
                                     ) : (
@@ -1080,7 +1353,7 @@ export default function ChatWidget() {
                                                     onClick={() => setSelectedPolicy(null)}
                                                 >
                                                     <FontAwesomeIcon icon={faXmark} className="size-3 mr-2" />
-                                                    Clear selection
+                                                    {t("chat.clearSelection")}
                                                 </DropdownMenuItem>
                                             )}
                                             {userPolicies.map((policy) => (
@@ -1118,7 +1391,7 @@ export default function ChatWidget() {
                                         size="icon"
                                         type="submit"
                                         variant="default"
-                                        aria-label="Send message"
+                                        aria-label={t("chat.sendLabel")}
                                     >
                                         <FontAwesomeIcon icon={faArrowUp} className="text-[#f7f6f3] size-4" aria-hidden="true" />
                                     </Button>
@@ -1128,7 +1401,7 @@ export default function ChatWidget() {
                                     sideOffset={4}
                                     className="bg-[#333333] text-[#f7f6f3] font-(family-name:--font-work-sans)"
                                 >
-                                    Send
+                                    {t("chat.send")}
                                 </TooltipContent>
                             </Tooltip>
                         </div>
@@ -1142,7 +1415,7 @@ export default function ChatWidget() {
                     >
                         <span className="flex w-full items-center justify-center gap-1 font-medium">
                             <FontAwesomeIcon icon={faPlusCircle} className="min-w-4 size-4" />
-                            Drop files here to add as attachments
+                            {t("chat.dropFiles")}
                         </span>
                     </div>
                 </form>
@@ -1155,16 +1428,27 @@ export default function ChatWidget() {
                 onChange={handlePolicyFileSelect}
                 ref={policyFileInputRef}
                 type="file"
-                aria-label="Upload policy document"
+                aria-label={t("chat.uploadPolicyLabel")}
+            />
+
+            {/* Hidden file input for claim photos */}
+            <input
+                className="sr-only"
+                accept="image/*,application/pdf"
+                multiple
+                onChange={handleClaimPhotoSelect}
+                ref={claimPhotoInputRef}
+                type="file"
+                aria-label={t("chat.claimPhotos.label")}
             />
 
             {/* Policy Upload Modal - Accessible Dialog */}
             <Dialog open={showUploadModal} onOpenChange={setShowUploadModal}>
                 <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
                     <DialogHeader>
-                        <DialogTitle className="text-xl font-semibold">Upload Policy Document</DialogTitle>
+                        <DialogTitle className="text-xl font-semibold">{t("chat.uploadPolicyDocument")}</DialogTitle>
                         <DialogDescription className="text-muted-foreground text-sm">
-                            Upload your insurance documents so I can review your coverage. You can upload:
+                            {t("chat.upload.description")}
                         </DialogDescription>
                     </DialogHeader>
 
@@ -1172,22 +1456,22 @@ export default function ChatWidget() {
                         <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                             <FontAwesomeIcon icon={faCamera} className="text-[#de5e48] size-5" aria-hidden="true" />
                             <div>
-                                <p className="font-medium text-sm">Photo of Insurance Card</p>
-                                <p className="text-xs text-muted-foreground">Take a photo of your insurance ID card</p>
+                                <p className="font-medium text-sm">{t("chat.upload.card")}</p>
+                                <p className="text-xs text-muted-foreground">{t("chat.upload.cardHint")}</p>
                             </div>
                         </div>
                         <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                             <FontAwesomeIcon icon={faFileLines} className="text-[#de5e48] size-5" aria-hidden="true" />
                             <div>
-                                <p className="font-medium text-sm">Declarations Page</p>
-                                <p className="text-xs text-muted-foreground">The summary page of your policy</p>
+                                <p className="font-medium text-sm">{t("chat.upload.declarations")}</p>
+                                <p className="text-xs text-muted-foreground">{t("chat.upload.declarationsHint")}</p>
                             </div>
                         </div>
                         <div className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg">
                             <FontAwesomeIcon icon={faPaperclip} className="text-[#de5e48] size-5" aria-hidden="true" />
                             <div>
-                                <p className="font-medium text-sm">Policy PDF</p>
-                                <p className="text-xs text-muted-foreground">Your full policy document</p>
+                                <p className="font-medium text-sm">{t("chat.upload.pdf")}</p>
+                                <p className="text-xs text-muted-foreground">{t("chat.upload.pdfHint")}</p>
                             </div>
                         </div>
                     </div>
@@ -1219,15 +1503,15 @@ export default function ChatWidget() {
                                 handlePolicyUpload(files[0]);
                             }
                         }}
-                        aria-label="Upload policy document. Click or press Enter to select a file, or drag and drop."
+                        aria-label={t("chat.upload.dropzoneLabel")}
                     >
                         <FontAwesomeIcon icon={faUpload} className="text-[#de5e48] size-8 mb-3" aria-hidden="true" />
-                        <p className="font-medium">Click to upload or drag and drop</p>
-                        <p className="text-sm text-muted-foreground mt-1">PDF, JPG, PNG, or HEIC (max 20MB)</p>
+                        <p className="font-medium">{t("chat.upload.dropzone")}</p>
+                        <p className="text-sm text-muted-foreground mt-1">{t("chat.upload.formats")}</p>
                     </div>
 
                     <p className="text-xs text-center text-muted-foreground mt-4">
-                        Your documents are processed securely and used only to analyze your coverage.
+                        {t("chat.upload.privacy")}
                     </p>
                 </DialogContent>
             </Dialog>
@@ -0,0 +1,82 @@
+// frontend/app/components/CitationFootnotes.tsx
+"use client";
+
+import { useState } from "react";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faBookOpen, faChevronDown, faFileLines } from "@fortawesome/free-solid-svg-icons";
+import { cn } from "@/lib/utils";
+import { Citation } from "@/lib/api";
+
+interface CitationFootnotesProps {
+    citations: Citation[];
+    className?: string;
+}
+
+// "Page 2 · Coverage A Dwelling" for policy sections, nothing for knowledge base documents
+function citationLocation(citation: Citation): string {
+    return [citation.page ? `Page ${citation.page}` : null, citation.section].filter(Boolean).join(" · ");
+}
+
+function Footnote({ citation }: { citation: Citation }) {
+    const [expanded, setExpanded] = useState(false);
+    const location = citationLocation(citation);
+    const safeUri = citation.uri?.startsWith("https://") ? citation.uri : null;
+
+    return (
+        <li className="text-xs font-(family-name:--font-work-sans)">
+            <button
+                type="button"
+                onClick={() => setExpanded(prev => !prev)}
+                aria-expanded={expanded}
+                className="flex w-full items-start gap-1.5 text-left text-muted-foreground hover:text-foreground"
+            >
+                <span className="shrink-0 font-bold text-[#de5e48]">[{citation.id}]</span>
+                <FontAwesomeIcon
+                    icon={citation.source === "policy_document" ? faFileLines : faBookOpen}
+                    className="mt-0.5 size-3 shrink-0"
+                />
+                <span className="flex-1">
+                    {citation.title}
+                    {location && <span className="text-muted-foreground"> · {location}</span>}
+                </span>
+                <FontAwesomeIcon
+                    icon={faChevronDown}
+                    className={cn("mt-0.5 size-3 shrink-0 transition-transform", expanded && "rotate-180")}
+                />
+            </button>
+            {expanded && (
+                <div className="mt-1 ml-6 rounded-lg bg-background/60 px-2 py-1.5 text-foreground">
+                    <p className="whitespace-pre-wrap">{citation.snippet}</p>
+                    {safeUri && (
+                        <a
+                            href={safeUri}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="mt-1 inline-block text-[#de5e48] underline hover:text-[#de5e48]/80"
+                        >
+                            Open source
+                        </a>
+                    )}
+                </div>
+            )}
+        </li>
+    );
+}
+
+/**
+ * Numbered sources under one of Sam's answers - each expands to the quoted passage
+ */
+export function CitationFootnotes({ citations, className }: CitationFootnotesProps) {
+    if (citations.length === 0) return null;
+
+    return (
+        <div className={cn("border-t border-[#333333]/10 pt-2", className)}>
+            <p className="mb-1 text-xs font-bold text-muted-foreground font-(family-name:--font-work-sans)">Sources</p>
+            <ol className="flex flex-col gap-1">
+                {citations.map(citation => (
+                    <Footnote key={citation.id} citation={citation} />
+                ))}
+            </ol>
+        </div>
+    );
+}
@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useOnboarding } from "./useOnboarding";
 import { getTourSteps } from "./tour-config";
 import { resetOnboardingForReplay } from "@/lib/onboarding";
+import { useLanguage } from "@/app/context/LanguageContext";
 import "driver.js/dist/driver.css";
 
 interface ProductTourProps {
@@ -17,22 +18,29 @@ interface ProductTourProps {
  * Import this component on pages where you want the tour to run
  */
 export function ProductTour({ startDelay = 800 }: ProductTourProps) {
+  const { language } = useLanguage();
   const [isMounted, setIsMounted] = useState(false);
-  const [tourSteps, setTourSteps] = useState(getTourSteps);
+  const [tourSteps, setTourSteps] = useState(() => getTourSteps(language));
 
-  // Handle client-side mounting and expose debug helpers
+  // Get appropriate steps based on viewport and language, and update them on resize
   useEffect(() => {
-    setIsMounted(true);
-    // Get appropriate steps based on viewport
-    setTourSteps(getTourSteps());
+    setTourSteps(getTourSteps(language));
 
-    // Update steps on resize
     const handleResize = () => {
-      setTourSteps(getTourSteps());
+      setTourSteps(getTourSteps(language));
     };
 
     window.addEventListener("resize", handleResize);
 
+    return () => {
+      window.removeEventListener("resize", handleResize);
+    };
+  }, [language]);
+
+  // Handle client-side mounting and expose debug helpers
+  useEffect(() => {
+    setIsMounted(true);
+
     // Expose debug helpers on window for testing
     if (typeof window !== "undefined") {
       (window as unknown as { __resetOnboarding: () => void }).__resetOnboarding = () => {
@@ -41,10 +49,6 @@ export function ProductTour({ startDelay = 800 }: ProductTourProps) {
       };
       console.log("[Tour Debug] ProductTour mounted. Use window.__resetOnboarding() to reset tour state.");
     }
-
-    return () => {
-      window.removeEventListener("resize", handleResize);
-    };
   }, []);
 
   // Initialize the tour hook
@@ -9,12 +9,15 @@ import {
 } from "@fortawesome/free-solid-svg-icons";
 import { cn } from "@/lib/utils";
 import type { IconDefinition } from "@fortawesome/fontawesome-svg-core";
+import { useLanguage } from "@/app/context/LanguageContext";
+import type { MessageKey } from "@/lib/i18n";
 
 interface Suggestion {
   id: string;
   icon: IconDefinition;
-  title: string;
-  prompt: string;
+  title: MessageKey;
+  /** Text placed in the chat input (translated) */
+  prompt?: MessageKey;
   /** If true, triggers upload modal instead of populating textarea */
   triggersUpload?: boolean;
 }
@@ -23,29 +26,25 @@ const suggestions: Suggestion[] = [
   {
     id: "review-coverage",
     icon: faClipboardList,
-    title: "Review my coverage",
-    prompt:
-      "Can you review my insurance coverage and tell me if I have any gaps or areas where I might be underinsured?",
+    title: "starter.reviewCoverage.title",
+    prompt: "starter.reviewCoverage.prompt",
   },
   {
     id: "understand-deductible",
     icon: faCircleDollarToSlot,
-    title: "Understand my deductible",
-    prompt:
-      "Can you explain what my deductible is and when I would need to pay it? What happens if I have a claim?",
+    title: "starter.understandDeductible.title",
+    prompt: "starter.understandDeductible.prompt",
   },
   {
     id: "home-vs-renters",
     icon: faHouseChimney,
-    title: "Home vs. renters insurance",
-    prompt:
-      "What's the difference between home insurance and renters insurance? Which one do I need?",
+    title: "starter.homeVsRenters.title",
+    prompt: "starter.homeVsRenters.prompt",
   },
   {
     id: "upload-policy",
     icon: faFileArrowUp,
-    title: "Upload a policy",
-    prompt: "",
+    title: "starter.uploadPolicy.title",
     triggersUpload: true,
   },
 ];
@@ -64,18 +63,20 @@ export function StarterSuggestions({
   onTriggerUpload,
   className,
 }: StarterSuggestionsProps) {
+  const { t } = useLanguage();
+
   const handleClick = (suggestion: Suggestion) => {
-    if (suggestion.triggersUpload) {
+    if (suggestion.triggersUpload || !suggestion.prompt) {
       onTriggerUpload();
     } else {
-      onSelectPrompt(suggestion.prompt);
+      onSelectPrompt(t(suggestion.prompt));
     }
   };
 
   return (
     <div className={cn("w-full max-w-2xl mx-auto px-3 sm:px-4", className)}>
       <p className="text-xs sm:text-sm text-muted-foreground text-center mb-3 sm:mb-4 font-(family-name:--font-work-sans)">
-        Try asking Sam about...
+        {t("starter.heading")}
       </p>
       <div className="grid grid-cols-2 gap-2 sm:gap-3 sm:grid-cols-4">
         {suggestions.map((suggestion) => (
@@ -110,7 +111,7 @@ export function StarterSuggestions({
                 "leading-tight"
               )}
             >
-              {suggestion.title}
+              {t(suggestion.title)}
             </span>
           </button>
         ))}
@@ -1,4 +1,5 @@
 import type { DriveStep } from "driver.js";
+import type { Language } from "@/lib/i18n";
 
 /**
  * Product tour steps configuration
@@ -133,10 +134,97 @@ export const mobileTourSteps: DriveStep[] = [
   },
 ];
 
+type StepCopy = { title: string; description: string };
+
+/**
+ * Spanish copy, in the same order as the English steps above
+ */
+const spanishCopy: StepCopy[] = [
+  {
+    title: "Pregúntele a Sam lo que quiera",
+    description:
+      "Escriba aquí sus preguntas sobre seguros. Sam le ayuda a entender su cobertura, comparar pólizas y responder cualquier pregunta sobre seguros.",
+  },
+  {
+    title: "Suba sus documentos",
+    description:
+      "Haga clic aquí para subir sus documentos de seguro. Sam puede analizar su póliza, tarjetas de identificación o páginas de declaraciones para darle consejos personalizados.",
+  },
+  {
+    title: "Seleccione una póliza",
+    description:
+      "Cuando haya subido sus pólizas, seleccione una aquí para darle contexto a Sam. Así Sam puede responder con más precisión sobre su cobertura.",
+  },
+  {
+    title: "Empiece de nuevo",
+    description:
+      "Haga clic aquí en cualquier momento para iniciar una nueva conversación. Su historial se guarda para que pueda volver a conversaciones anteriores.",
+  },
+  {
+    title: "Sus conversaciones",
+    description:
+      "Acceda aquí a todas sus conversaciones anteriores. Haga clic en cualquier chat para continuar donde lo dejó.",
+  },
+  {
+    title: "Comparta su opinión",
+    description:
+      "¿Tiene una sugerencia o encontró un problema? Haga clic aquí para enviarnos sus comentarios. ¡Nos encantaría saber de usted!",
+  },
+  {
+    title: "Repita este recorrido",
+    description:
+      "¿Quiere ver este recorrido otra vez? Puede repetirlo en cualquier momento haciendo clic aquí.",
+  },
+  {
+    title: "Su perfil",
+    description:
+      "Desde aquí puede ver la configuración de su perfil, administrar su cuenta o cerrar sesión.",
+  },
+];
+
+const spanishMobileCopy: StepCopy[] = [
+  {
+    title: "Pregúntele a Sam lo que quiera",
+    description:
+      "Escriba aquí sus preguntas sobre seguros. Sam le ayuda a entender su cobertura y responde sus preguntas.",
+  },
+  {
+    title: "Suba sus documentos",
+    description:
+      "Suba aquí sus documentos de seguro para recibir consejos personalizados de Sam.",
+  },
+  {
+    title: "Seleccione una póliza",
+    description:
+      "Elija una póliza aquí para darle contexto a Sam y obtener respuestas más precisas.",
+  },
+  {
+    title: "Menú e historial",
+    description:
+      "Toque aquí para abrir el menú, iniciar nuevos chats y ver su historial de conversaciones.",
+  },
+];
+
+function withCopy(steps: DriveStep[], copy: StepCopy[]): DriveStep[] {
+  return steps.map((step, index) => ({
+    ...step,
+    popover: { ...step.popover, ...copy[index] },
+  }));
+}
+
+const stepsByLanguage: Record<Language, { desktop: DriveStep[]; mobile: DriveStep[] }> = {
+  en: { desktop: tourSteps, mobile: mobileTourSteps },
+  es: {
+    desktop: withCopy(tourSteps, spanishCopy),
+    mobile: withCopy(mobileTourSteps, spanishMobileCopy),
+  },
+};
+
 /**
- * Get appropriate tour steps based on viewport
+ * Get appropriate tour steps based on viewport and language
  */
-export function getTourSteps(): DriveStep[] {
-  if (typeof window === "undefined") return tourSteps;
-  return window.innerWidth < 768 ? mobileTourSteps : tourSteps;
+export function getTourSteps(language: Language = "en"): DriveStep[] {
+  const { desktop, mobile } = stepsByLanguage[language];
+  if (typeof window === "undefined") return desktop;
+  return window.innerWidth < 768 ? mobile : desktop;
 }
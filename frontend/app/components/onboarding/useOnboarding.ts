@@ -3,6 +3,7 @@
 import { useEffect, useRef, useCallback } from "react";
 import { driver, type DriveStep, type Config } from "driver.js";
 import { useOnboardingContext } from "@/app/context/OnboardingContext";
+import { useLanguage } from "@/app/context/LanguageContext";
 import { tourSteps } from "./tour-config";
 
 interface UseOnboardingOptions {
@@ -43,6 +44,7 @@ export function useOnboarding(options: UseOnboardingOptions = {}) {
     startTour,
     completeTour,
   } = useOnboardingContext();
+  const { t } = useLanguage();
 
   const driverRef = useRef<ReturnType<typeof driver> | null>(null);
   const hasStartedRef = useRef(false);
@@ -68,10 +70,10 @@ export function useOnboarding(options: UseOnboardingOptions = {}) {
       animate: true,
       smoothScroll: true,
       allowClose: true,
-      doneBtnText: "Got it!",
-      nextBtnText: "Next",
-      prevBtnText: "Back",
-      progressText: "{{current}} of {{total}}",
+      doneBtnText: t("tour.done"),
+      nextBtnText: t("tour.next"),
+      prevBtnText: t("tour.previous"),
+      progressText: t("tour.progress"),
       onNextClick: () => {
         // Check if we're on the last step
         if (driverRef.current) {
@@ -103,7 +105,7 @@ export function useOnboarding(options: UseOnboardingOptions = {}) {
     hasStartedRef.current = true;
     startTour();
     driverRef.current.drive();
-  }, [completeTour, startTour, driverConfig]);
+  }, [completeTour, startTour, driverConfig, t]);
 
   // Auto-start tour when conditions are met
   useEffect(() => {
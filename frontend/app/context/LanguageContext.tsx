@@ -0,0 +1,103 @@
+"use client";
+
+import {
+  createContext,
+  useContext,
+  useState,
+  useEffect,
+  useCallback,
+  type ReactNode,
+} from "react";
+import {
+  DEFAULT_LANGUAGE,
+  LANGUAGE_LOCALES,
+  getInitialLanguage,
+  storeLanguageLocal,
+  translate,
+  type Language,
+  type MessageKey,
+  type TranslationValues,
+} from "@/lib/i18n";
+import { getPreferences, updatePreferences } from "@/lib/api";
+import { useAuth } from "@/lib/auth-context";
+
+interface LanguageContextType {
+  /** Current UI language (also sent to Sam as the reply-language hint) */
+  language: Language;
+  /** Change the language on this device and save it to the account; resolves false if the account save failed */
+  setLanguage: (language: Language) => Promise<boolean>;
+  /** Translate a UI string */
+  t: (key: MessageKey, values?: TranslationValues) => string;
+  /** Format a date in the current language */
+  formatDate: (date: string | Date, options?: Intl.DateTimeFormatOptions) => string;
+}
+
+const LanguageContext = createContext<LanguageContextType | undefined>(
+  undefined
+);
+
+export function LanguageProvider({ children }: { children: ReactNode }) {
+  const { user, isLoading: isAuthLoading } = useAuth();
+  const [language, setLanguageState] = useState<Language>(DEFAULT_LANGUAGE);
+
+  // Local cache first so the UI doesn't flash English on every load
+  useEffect(() => {
+    setLanguageState(getInitialLanguage());
+  }, []);
+
+  // The account preference wins once known (set on another device)
+  useEffect(() => {
+    if (isAuthLoading || !user) return;
+
+    let cancelled = false;
+    getPreferences(user.id).then(({ language: saved }) => {
+      if (cancelled || !saved) return;
+      setLanguageState(saved);
+      storeLanguageLocal(saved);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, isAuthLoading]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
+
+  const setLanguage = useCallback(
+    async (next: Language) => {
+      setLanguageState(next);
+      storeLanguageLocal(next);
+
+      if (!user) return true;
+      return updatePreferences(user.id, next);
+    },
+    [user]
+  );
+
+  const t = useCallback(
+    (key: MessageKey, values?: TranslationValues) => translate(language, key, values),
+    [language]
+  );
+
+  const formatDate = useCallback(
+    (date: string | Date, options?: Intl.DateTimeFormatOptions) =>
+      new Date(date).toLocaleDateString(LANGUAGE_LOCALES[language], options),
+    [language]
+  );
+
+  return (
+    <LanguageContext.Provider value={{ language, setLanguage, t, formatDate }}>
+      {children}
+    </LanguageContext.Provider>
+  );
+}
+
+export function useLanguage() {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error("useLanguage must be used within a LanguageProvider");
+  }
+  return context;
+}
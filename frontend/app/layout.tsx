@@ -5,6 +5,7 @@ import "./globals.css";
 import { Analytics } from '@vercel/analytics/next';
 import { AuthProvider } from "@/lib/auth-context";
 import { OnboardingProvider } from "@/app/context/OnboardingContext";
+import { LanguageProvider } from "@/app/context/LanguageContext";
 import { UpdateBanner } from "@/components/update-banner";
 import { Providers } from "./providers";
 
@@ -45,10 +46,12 @@ export default function RootLayout({
         </a>
         <Providers>
           <AuthProvider>
-            <OnboardingProvider>
-              {children}
-              <UpdateBanner />
-            </OnboardingProvider>
+            <LanguageProvider>
+              <OnboardingProvider>
+                {children}
+                <UpdateBanner />
+              </OnboardingProvider>
+            </LanguageProvider>
           </AuthProvider>
         </Providers>
         {process.env.NEXT_PUBLIC_VERCEL_ANALYTICS_ID ? (
@@ -14,9 +14,11 @@ import { useState, useEffect, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { createClient } from "@/lib/supabase";
-import { getUserPolicies, deleteUserPolicy, renameUserPolicy, UserPolicy, PolicyType } from "@/lib/api";
+import { useLanguage } from "@/app/context/LanguageContext";
+import { hasMessage, type MessageKey } from "@/lib/i18n";
+import { getUserPolicies, deleteUserPolicy, renameUserPolicy, getUserRenewals, getProfileFacts, reviewProfileFact, deleteProfileFact, getUserClaims, openClaimSummary, UserPolicy, PolicyType, RenewalOverview, ProfileFact, ProfileFacts, Claim } from "@/lib/api";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { faTrash, faPen, faPlus, faCar, faHome, faUmbrella, faHeart, faHospital, faFile, faBuilding } from "@fortawesome/free-solid-svg-icons";
+import { faTrash, faPen, faPlus, faCar, faHome, faUmbrella, faHeart, faHospital, faFile, faBuilding, faShieldHalved, faScaleBalanced, faBrain, faCheck, faXmark, faCarBurst, faCamera, faPrint } from "@fortawesome/free-solid-svg-icons";
 import {
   Dialog,
   DialogContent,
@@ -65,18 +67,19 @@ const policyTypeIcons: Record<PolicyType, typeof faCar> = {
   other: faFile,
 };
 
-const policyTypeLabels: Record<PolicyType, string> = {
-  auto: "Auto Insurance",
-  home: "Home Insurance",
-  renters: "Renters Insurance",
-  umbrella: "Umbrella Insurance",
-  life: "Life Insurance",
-  health: "Health Insurance",
-  other: "Other Insurance",
-};
+// Dictionary key for a remembered fact's label; facts without one keep the backend's English label
+function factMessageKey(fact: ProfileFact): string {
+  if (typeof fact.value === "boolean") return `fact.${fact.key}.${fact.value}`;
+  if (typeof fact.value === "number" && fact.key !== "household_size") {
+    const count = fact.value === 0 ? "none" : fact.value === 1 ? "one" : "many";
+    return `fact.${fact.key}.${count}`;
+  }
+  return `fact.${fact.key}`;
+}
 
 export default function ProfilePage() {
   const { user, isLoading } = useAuth();
+  const { language, t, formatDate } = useLanguage();
   const router = useRouter();
   const [fullName, setFullName] = useState("");
   const [isSaving, setIsSaving] = useState(false);
@@ -94,6 +97,20 @@ export default function ProfilePage() {
   const [newCarrierName, setNewCarrierName] = useState("");
   const [isRenaming, setIsRenaming] = useState(false);
 
+  // Renewal Guard state
+  const [renewalOverview, setRenewalOverview] = useState<RenewalOverview>({ renewals: [], upcomingExpirations: [] });
+  const [renewalsLoading, setRenewalsLoading] = useState(true);
+
+  // Claims state
+  const [claims, setClaims] = useState<Claim[]>([]);
+  const [claimsLoading, setClaimsLoading] = useState(true);
+  const [openingSummaryId, setOpeningSummaryId] = useState<number | null>(null);
+
+  // Long-term memory state
+  const [profileFacts, setProfileFacts] = useState<ProfileFacts>({ confirmed: [], proposed: [] });
+  const [factsLoading, setFactsLoading] = useState(true);
+  const [updatingFactId, setUpdatingFactId] = useState<number | null>(null);
+
   const loadPolicies = useCallback(async () => {
     if (!user) return;
     setPoliciesLoading(true);
@@ -107,6 +124,42 @@ export default function ProfilePage() {
     }
   }, [user]);
 
+  const loadRenewals = useCallback(async () => {
+    if (!user) return;
+    setRenewalsLoading(true);
+    try {
+      setRenewalOverview(await getUserRenewals(user.id, language));
+    } catch (err) {
+      console.error("Error loading renewals:", err);
+    } finally {
+      setRenewalsLoading(false);
+    }
+  }, [user, language]);
+
+  const loadClaims = useCallback(async () => {
+    if (!user) return;
+    setClaimsLoading(true);
+    try {
+      setClaims(await getUserClaims(user.id));
+    } catch (err) {
+      console.error("Error loading claims:", err);
+    } finally {
+      setClaimsLoading(false);
+    }
+  }, [user]);
+
+  const loadProfileFacts = useCallback(async () => {
+    if (!user) return;
+    setFactsLoading(true);
+    try {
+      setProfileFacts(await getProfileFacts(user.id));
+    } catch (err) {
+      console.error("Error loading profile facts:", err);
+    } finally {
+      setFactsLoading(false);
+    }
+  }, [user]);
+
   useEffect(() => {
     if (!isLoading && !user) {
       router.push("/login");
@@ -116,8 +169,11 @@ export default function ProfilePage() {
   useEffect(() => {
     if (user) {
       loadPolicies();
+      loadRenewals();
+      loadClaims();
+      loadProfileFacts();
     }
-  }, [user, loadPolicies]);
+  }, [user, loadPolicies, loadRenewals, loadClaims, loadProfileFacts]);
 
   if (isLoading || !user) {
     return (
@@ -138,12 +194,19 @@ export default function ProfilePage() {
 
   const displayName = user.user_metadata?.full_name || user.email?.split("@")[0] || "User";
   const displayEmail = user.email || "";
-  const createdAt = user.created_at ? new Date(user.created_at).toLocaleDateString("en-US", {
+  const createdAt = user.created_at ? formatDate(user.created_at, {
     year: "numeric",
     month: "long",
     day: "numeric",
   }) : null;
 
+  const policyTypeLabel = (policyType: PolicyType) => t(`policyType.${policyType}` as MessageKey);
+
+  const factLabel = (fact: ProfileFact) => {
+    const key = factMessageKey(fact);
+    return hasMessage(key) ? t(key, { value: String(fact.value) }) : fact.label;
+  };
+
   const handleUpdateProfile = async (e: React.FormEvent) => {
     e.preventDefault();
     setIsSaving(true);
@@ -163,7 +226,7 @@ export default function ProfilePage() {
         setTimeout(() => setSaveSuccess(false), 3000);
       }
     } catch {
-      setError("An unexpected error occurred");
+      setError(t("profile.unexpectedError"));
     } finally {
       setIsSaving(false);
     }
@@ -208,6 +271,42 @@ export default function ProfilePage() {
     }
   };
 
+  // Confirming replaces any fact Sam already remembered for the same key
+  const handleReviewFact = async (fact: ProfileFact, status: "confirmed" | "rejected") => {
+    if (!user) return;
+    setUpdatingFactId(fact.id);
+    try {
+      const result = await reviewProfileFact(user.id, fact.id, status);
+      if (result.success) {
+        setProfileFacts(prev => ({
+          confirmed: status === "confirmed" && result.data
+            ? [result.data, ...prev.confirmed.filter(f => f.key !== fact.key)]
+            : prev.confirmed,
+          proposed: prev.proposed.filter(f => f.id !== fact.id)
+        }));
+      }
+    } catch (err) {
+      console.error("Error reviewing profile fact:", err);
+    } finally {
+      setUpdatingFactId(null);
+    }
+  };
+
+  const handleDeleteFact = async (fact: ProfileFact) => {
+    if (!user) return;
+    setUpdatingFactId(fact.id);
+    try {
+      const success = await deleteProfileFact(user.id, fact.id);
+      if (success) {
+        setProfileFacts(prev => ({ ...prev, confirmed: prev.confirmed.filter(f => f.id !== fact.id) }));
+      }
+    } catch (err) {
+      console.error("Error deleting profile fact:", err);
+    } finally {
+      setUpdatingFactId(null);
+    }
+  };
+
   const openDeleteDialog = (policy: UserPolicy) => {
     setPolicyToDelete(policy);
     setDeleteDialogOpen(true);
@@ -229,17 +328,17 @@ export default function ProfilePage() {
             <main id="main-content" className="flex flex-1 flex-col items-center p-4 pb-20 md:p-8 md:pb-8 overflow-auto bg-[#f7f6f3]">
               <div className="w-full max-w-2xl space-y-6">
                 <div>
-                  <h1 className="text-3xl font-semibold font-heading tracking-tight">Profile</h1>
+                  <h1 className="text-3xl font-semibold font-heading tracking-tight">{t("profile.title")}</h1>
                   <p className="text-muted-foreground font-(family-name:--font-work-sans) mt-1">
-                    Manage your account information
+                    {t("profile.subtitle")}
                   </p>
                 </div>
 
                 <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
                   <CardHeader>
-                    <CardTitle className="font-heading">Your Profile</CardTitle>
+                    <CardTitle className="font-heading">{t("profile.card.title")}</CardTitle>
                     <CardDescription className="font-(family-name:--font-work-sans)">
-                      View and update your personal information
+                      {t("profile.card.description")}
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-6">
@@ -255,7 +354,7 @@ export default function ProfilePage() {
                         <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">{displayEmail}</p>
                         {createdAt && (
                           <p className="text-xs text-muted-foreground font-(family-name:--font-work-sans) mt-1">
-                            Member since {createdAt}
+                            {t("profile.memberSince", { date: createdAt })}
                           </p>
                         )}
                       </div>
@@ -266,7 +365,7 @@ export default function ProfilePage() {
                     <form onSubmit={handleUpdateProfile} className="space-y-4">
                       <div className="space-y-2">
                         <Label htmlFor="fullName" className="font-(family-name:--font-work-sans)">
-                          Full Name
+                          {t("profile.fullName")}
                         </Label>
                         <Input
                           id="fullName"
@@ -279,7 +378,7 @@ export default function ProfilePage() {
 
                       <div className="space-y-2">
                         <Label htmlFor="email" className="font-(family-name:--font-work-sans)">
-                          Email
+                          {t("profile.email")}
                         </Label>
                         <Input
                           id="email"
@@ -288,7 +387,7 @@ export default function ProfilePage() {
                           className="h-11 font-(family-name:--font-work-sans) border-[#333333]/10 bg-[#f7f6f3] rounded-lg"
                         />
                         <p className="text-xs text-muted-foreground font-(family-name:--font-work-sans)">
-                          Email cannot be changed
+                          {t("profile.emailLocked")}
                         </p>
                       </div>
 
@@ -306,7 +405,7 @@ export default function ProfilePage() {
                           role="status"
                           className="p-3 rounded-lg bg-green-100 text-green-800 text-sm font-(family-name:--font-work-sans)"
                         >
-                          Profile updated successfully
+                          {t("profile.updated")}
                         </div>
                       )}
 
@@ -318,10 +417,10 @@ export default function ProfilePage() {
                         {isSaving ? (
                           <>
                             <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                            Saving...
+                            {t("common.saving")}
                           </>
                         ) : (
-                          "Save Changes"
+                          t("profile.saveChanges")
                         )}
                       </Button>
                     </form>
@@ -332,20 +431,34 @@ export default function ProfilePage() {
                   <CardHeader>
                     <div className="flex items-center justify-between">
                       <div>
-                        <CardTitle className="font-heading">Your Policies</CardTitle>
+                        <CardTitle className="font-heading">{t("profile.policies.title")}</CardTitle>
                         <CardDescription className="font-(family-name:--font-work-sans)">
-                          Manage your uploaded insurance policies
+                          {t("profile.policies.description")}
                         </CardDescription>
                       </div>
-                      <Button
-                        asChild
-                        className="gap-2 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
-                      >
-                        <Link href="/chat">
-                          <FontAwesomeIcon icon={faPlus} className="size-4" />
-                          Add Policy
-                        </Link>
-                      </Button>
+                      <div className="flex items-center gap-2">
+                        {policies.length > 0 && (
+                          <Button
+                            asChild
+                            variant="outline"
+                            className="gap-2 font-(family-name:--font-work-sans) border-[#333333]/10 rounded-full"
+                          >
+                            <Link href="/quotes">
+                              <FontAwesomeIcon icon={faScaleBalanced} className="size-4" />
+                              {t("profile.policies.compareQuotes")}
+                            </Link>
+                          </Button>
+                        )}
+                        <Button
+                          asChild
+                          className="gap-2 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
+                        >
+                          <Link href="/chat">
+                            <FontAwesomeIcon icon={faPlus} className="size-4" />
+                            {t("profile.policies.add")}
+                          </Link>
+                        </Button>
+                      </div>
                     </div>
                   </CardHeader>
                   <CardContent>
@@ -359,10 +472,10 @@ export default function ProfilePage() {
                           <FontAwesomeIcon icon={faFile} className="size-6 text-[#333333]/40" />
                         </div>
                         <p className="text-muted-foreground font-(family-name:--font-work-sans)">
-                          No policies uploaded yet
+                          {t("profile.policies.empty")}
                         </p>
                         <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) mt-1">
-                          Start a chat and upload your insurance documents
+                          {t("profile.policies.emptyHint")}
                         </p>
                       </div>
                     ) : (
@@ -381,13 +494,13 @@ export default function ProfilePage() {
                               </div>
                               <div>
                                 <p className="font-semibold font-(family-name:--font-work-sans)">
-                                  {policyTypeLabels[policy.policyType]}
+                                  {policyTypeLabel(policy.policyType)}
                                 </p>
                                 <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
                                   {policy.carrier}
                                 </p>
                                 <p className="text-xs text-muted-foreground font-(family-name:--font-work-sans)">
-                                  {new Date(policy.uploadedAt).toLocaleDateString()}
+                                  {formatDate(policy.uploadedAt)}
                                 </p>
                               </div>
                             </div>
@@ -403,7 +516,7 @@ export default function ProfilePage() {
                                     <FontAwesomeIcon icon={faPen} className="size-4 text-[#333333]" />
                                   </Button>
                                 </TooltipTrigger>
-                                <TooltipContent className="font-(family-name:--font-work-sans)">Rename carrier</TooltipContent>
+                                <TooltipContent className="font-(family-name:--font-work-sans)">{t("profile.policies.rename")}</TooltipContent>
                               </Tooltip>
                               <Tooltip>
                                 <TooltipTrigger asChild>
@@ -416,9 +529,283 @@ export default function ProfilePage() {
                                     <FontAwesomeIcon icon={faTrash} className="size-4" />
                                   </Button>
                                 </TooltipTrigger>
-                                <TooltipContent className="font-(family-name:--font-work-sans)">Delete policy</TooltipContent>
+                                <TooltipContent className="font-(family-name:--font-work-sans)">{t("profile.policies.delete")}</TooltipContent>
+                              </Tooltip>
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                  <CardHeader>
+                    <CardTitle className="font-heading">{t("profile.renewals.title")}</CardTitle>
+                    <CardDescription className="font-(family-name:--font-work-sans)">
+                      {t("profile.renewals.description")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {renewalsLoading ? (
+                      <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-[#333333]" />
+                      </div>
+                    ) : renewalOverview.renewals.length === 0 && renewalOverview.upcomingExpirations.length === 0 ? (
+                      <div className="text-center py-8">
+                        <div className="mx-auto w-16 h-16 bg-[#333333]/5 rounded-full flex items-center justify-center mb-4">
+                          <FontAwesomeIcon icon={faShieldHalved} className="size-6 text-[#333333]/40" />
+                        </div>
+                        <p className="text-muted-foreground font-(family-name:--font-work-sans)">
+                          {t("profile.renewals.empty")}
+                        </p>
+                        <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) mt-1">
+                          {t("profile.renewals.emptyHint")}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-3">
+                        {renewalOverview.upcomingExpirations.map((expiration) => (
+                          <div
+                            key={`expiring-${expiration.policyId}`}
+                            className="flex items-center justify-between p-4 rounded-lg bg-amber-50 border border-amber-200"
+                          >
+                            <div>
+                              <p className="font-semibold font-(family-name:--font-work-sans)">
+                                {expiration.policyType ? policyTypeLabel(expiration.policyType) : t("common.policy")}
+                                {expiration.carrier ? ` · ${expiration.carrier}` : ""}
+                              </p>
+                              <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                                {t("profile.renewals.expires", { date: formatDate(expiration.endDate) })}
+                              </p>
+                            </div>
+                            <span className="text-sm font-semibold text-amber-800 font-(family-name:--font-work-sans)">
+                              {t(expiration.daysRemaining === 1 ? "profile.renewals.dayLeft" : "profile.renewals.daysLeft", { count: expiration.daysRemaining })}
+                            </span>
+                          </div>
+                        ))}
+                        {renewalOverview.renewals.map((renewal) => (
+                          <div
+                            key={renewal.id}
+                            className="p-4 rounded-lg bg-[#f7f6f3] border border-[#333333]/5"
+                          >
+                            <div className="flex items-center justify-between mb-2">
+                              <p className="font-semibold font-(family-name:--font-work-sans)">
+                                {renewal.policyType ? policyTypeLabel(renewal.policyType) : t("common.policy")}
+                                {renewal.carrier ? ` · ${renewal.carrier}` : ""}
+                              </p>
+                              {renewal.premiumChangePct !== null && renewal.premiumChangePct !== 0 && (
+                                <span
+                                  className={`text-sm font-semibold font-(family-name:--font-work-sans) ${
+                                    renewal.premiumChangePct > 0 ? "text-red-600" : "text-green-700"
+                                  }`}
+                                >
+                                  {t("profile.renewals.premiumChange", { change: `${renewal.premiumChangePct > 0 ? "+" : ""}${renewal.premiumChangePct}` })}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-xs text-muted-foreground font-(family-name:--font-work-sans) mb-2">
+                              {t("profile.renewals.renewed", { date: formatDate(renewal.renewalDate) })}
+                            </p>
+                            {renewal.summary && (
+                              <p className="text-sm whitespace-pre-line font-(family-name:--font-work-sans)">
+                                {renewal.summary}
+                              </p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                  <CardHeader>
+                    <CardTitle className="font-heading">{t("profile.claims.title")}</CardTitle>
+                    <CardDescription className="font-(family-name:--font-work-sans)">
+                      {t("profile.claims.description")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {claimsLoading ? (
+                      <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-[#333333]" />
+                      </div>
+                    ) : claims.length === 0 ? (
+                      <div className="text-center py-8">
+                        <div className="mx-auto w-16 h-16 bg-[#333333]/5 rounded-full flex items-center justify-center mb-4">
+                          <FontAwesomeIcon icon={faCarBurst} className="size-6 text-[#333333]/40" />
+                        </div>
+                        <p className="text-muted-foreground font-(family-name:--font-work-sans)">
+                          {t("profile.claims.empty")}
+                        </p>
+                        <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) mt-1">
+                          {t("profile.claims.emptyHint")}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-3">
+                        {claims.map((claim) => {
+                          const carrier = claim.policy?.carrier || claim.carrier;
+                          const statusKey = `profile.claims.status.${claim.status}`;
+                          return (
+                            <div
+                              key={claim.id}
+                              className="flex items-center justify-between gap-4 p-4 rounded-lg bg-[#f7f6f3] border border-[#333333]/5"
+                            >
+                              <div className="min-w-0">
+                                <div className="flex items-center gap-2">
+                                  <p className="font-semibold font-(family-name:--font-work-sans)">
+                                    {claim.policy?.policyType ? policyTypeLabel(claim.policy.policyType) : t("profile.claims.claim")}
+                                    {carrier ? ` · ${carrier}` : ""}
+                                  </p>
+                                  <span
+                                    className={`text-xs font-semibold px-2 py-0.5 rounded-full font-(family-name:--font-work-sans) ${
+                                      claim.status === "draft" ? "bg-amber-100 text-amber-800" : "bg-[#333333]/10 text-[#333333]"
+                                    }`}
+                                  >
+                                    {hasMessage(statusKey) ? t(statusKey) : claim.status}
+                                  </span>
+                                </div>
+                                <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                                  {claim.lossDate
+                                    ? t("profile.claims.lossDate", { date: formatDate(claim.lossDate) })
+                                    : t("profile.claims.started", { date: formatDate(claim.createdAt) })}
+                                </p>
+                                <p className="text-xs text-muted-foreground font-(family-name:--font-work-sans) mt-1">
+                                  <FontAwesomeIcon icon={faCamera} className="size-3 mr-1" />
+                                  {t(claim.photos.length === 1 ? "profile.claims.photo" : "profile.claims.photos", { count: claim.photos.length })}
+                                </p>
+                              </div>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={async () => {
+                                      setOpeningSummaryId(claim.id);
+                                      await openClaimSummary(user.id, claim.id, language);
+                                      setOpeningSummaryId(null);
+                                    }}
+                                    disabled={openingSummaryId === claim.id}
+                                    className="h-8 w-8 shrink-0 text-[#333333]/60 hover:text-[#333333] hover:bg-[#333333]/10"
+                                    aria-label={t("profile.claims.printSummary")}
+                                  >
+                                    {openingSummaryId === claim.id ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <FontAwesomeIcon icon={faPrint} className="size-4" />
+                                    )}
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent>{t("profile.claims.printSummary")}</TooltipContent>
                               </Tooltip>
                             </div>
+                          );
+                        })}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                  <CardHeader>
+                    <CardTitle className="font-heading">{t("profile.memory.title")}</CardTitle>
+                    <CardDescription className="font-(family-name:--font-work-sans)">
+                      {t("profile.memory.description")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    {factsLoading ? (
+                      <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-[#333333]" />
+                      </div>
+                    ) : profileFacts.confirmed.length === 0 && profileFacts.proposed.length === 0 ? (
+                      <div className="text-center py-8">
+                        <div className="mx-auto w-16 h-16 bg-[#333333]/5 rounded-full flex items-center justify-center mb-4">
+                          <FontAwesomeIcon icon={faBrain} className="size-6 text-[#333333]/40" />
+                        </div>
+                        <p className="text-muted-foreground font-(family-name:--font-work-sans)">
+                          {t("profile.memory.empty")}
+                        </p>
+                        <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) mt-1">
+                          {t("profile.memory.emptyHint")}
+                        </p>
+                      </div>
+                    ) : (
+                      <div className="space-y-3">
+                        {profileFacts.proposed.map((fact) => (
+                          <div
+                            key={fact.id}
+                            className="flex items-center justify-between p-4 rounded-lg bg-amber-50 border border-amber-200"
+                          >
+                            <div>
+                              <p className="font-semibold font-(family-name:--font-work-sans)">{factLabel(fact)}</p>
+                              {fact.evidence && (
+                                <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                                  {t("profile.memory.youSaid", { evidence: fact.evidence })}
+                                </p>
+                              )}
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    disabled={updatingFactId === fact.id}
+                                    onClick={() => handleReviewFact(fact, "confirmed")}
+                                    className="h-8 w-8 text-green-700 hover:bg-green-50 hover:text-green-700"
+                                  >
+                                    <FontAwesomeIcon icon={faCheck} className="size-4" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent className="font-(family-name:--font-work-sans)">{t("profile.memory.remember")}</TooltipContent>
+                              </Tooltip>
+                              <Tooltip>
+                                <TooltipTrigger asChild>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    disabled={updatingFactId === fact.id}
+                                    onClick={() => handleReviewFact(fact, "rejected")}
+                                    className="h-8 w-8 hover:bg-[#333333]/10"
+                                  >
+                                    <FontAwesomeIcon icon={faXmark} className="size-4 text-[#333333]" />
+                                  </Button>
+                                </TooltipTrigger>
+                                <TooltipContent className="font-(family-name:--font-work-sans)">{t("profile.memory.dismiss")}</TooltipContent>
+                              </Tooltip>
+                            </div>
+                          </div>
+                        ))}
+                        {profileFacts.confirmed.map((fact) => (
+                          <div
+                            key={fact.id}
+                            className="flex items-center justify-between p-4 rounded-lg bg-[#f7f6f3] border border-[#333333]/5"
+                          >
+                            <div>
+                              <p className="font-semibold font-(family-name:--font-work-sans)">{factLabel(fact)}</p>
+                              {fact.confirmedAt && (
+                                <p className="text-xs text-muted-foreground font-(family-name:--font-work-sans)">
+                                  {t("profile.memory.confirmed", { date: formatDate(fact.confirmedAt) })}
+                                </p>
+                              )}
+                            </div>
+                            <Tooltip>
+                              <TooltipTrigger asChild>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  disabled={updatingFactId === fact.id}
+                                  onClick={() => handleDeleteFact(fact)}
+                                  className="h-8 w-8 text-red-600 hover:bg-red-50 hover:text-red-600"
+                                >
+                                  <FontAwesomeIcon icon={faTrash} className="size-4" />
+                                </Button>
+                              </TooltipTrigger>
+                              <TooltipContent className="font-(family-name:--font-work-sans)">{t("profile.memory.forget")}</TooltipContent>
+                            </Tooltip>
                           </div>
                         ))}
                       </div>
@@ -434,10 +821,11 @@ export default function ProfilePage() {
         <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
           <DialogContent className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
             <DialogHeader>
-              <DialogTitle className="font-heading">Delete Policy</DialogTitle>
+              <DialogTitle className="font-heading">{t("profile.deletePolicy.title")}</DialogTitle>
               <DialogDescription className="font-(family-name:--font-work-sans)">
-                Are you sure you want to delete your {policyToDelete && policyTypeLabels[policyToDelete.policyType].toLowerCase()}?
-                This action cannot be undone.
+                {t("profile.deletePolicy.description", {
+                  policy: policyToDelete ? policyTypeLabel(policyToDelete.policyType).toLowerCase() : "",
+                })}
               </DialogDescription>
             </DialogHeader>
             <DialogFooter className="gap-2 sm:gap-0">
@@ -446,7 +834,7 @@ export default function ProfilePage() {
                 onClick={() => setDeleteDialogOpen(false)}
                 className="font-(family-name:--font-work-sans) border-[#333333]/10 rounded-full"
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 variant="destructive"
@@ -457,12 +845,12 @@ export default function ProfilePage() {
                 {isDeleting ? (
                   <>
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    Deleting...
+                    {t("common.deleting")}
                   </>
                 ) : (
                   <>
                     <FontAwesomeIcon icon={faTrash} className="size-4" />
-                    Delete
+                    {t("common.delete")}
                   </>
                 )}
               </Button>
@@ -474,21 +862,23 @@ export default function ProfilePage() {
         <Dialog open={renameDialogOpen} onOpenChange={setRenameDialogOpen}>
           <DialogContent className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
             <DialogHeader>
-              <DialogTitle className="font-heading">Rename Carrier</DialogTitle>
+              <DialogTitle className="font-heading">{t("profile.renamePolicy.title")}</DialogTitle>
               <DialogDescription className="font-(family-name:--font-work-sans)">
-                Update the carrier name for your {policyToRename && policyTypeLabels[policyToRename.policyType].toLowerCase()}.
+                {t("profile.renamePolicy.description", {
+                  policy: policyToRename ? policyTypeLabel(policyToRename.policyType).toLowerCase() : "",
+                })}
               </DialogDescription>
             </DialogHeader>
             <div className="space-y-4 py-4">
               <div className="space-y-2">
                 <Label htmlFor="carrierName" className="font-(family-name:--font-work-sans)">
-                  Carrier Name
+                  {t("profile.renamePolicy.label")}
                 </Label>
                 <Input
                   id="carrierName"
                   value={newCarrierName}
                   onChange={(e) => setNewCarrierName(e.target.value)}
-                  placeholder="e.g., State Farm, Allstate"
+                  placeholder={t("profile.renamePolicy.placeholder")}
                   className="h-11 font-(family-name:--font-work-sans) border-[#333333]/10 bg-white rounded-lg"
                 />
               </div>
@@ -499,7 +889,7 @@ export default function ProfilePage() {
                 onClick={() => setRenameDialogOpen(false)}
                 className="font-(family-name:--font-work-sans) border-[#333333]/10 rounded-full"
               >
-                Cancel
+                {t("common.cancel")}
               </Button>
               <Button
                 onClick={handleRenamePolicy}
@@ -509,10 +899,10 @@ export default function ProfilePage() {
                 {isRenaming ? (
                   <>
                     <Loader2 className="h-4 w-4 animate-spin" />
-                    Saving...
+                    {t("common.saving")}
                   </>
                 ) : (
-                  "Save"
+                  t("common.save")
                 )}
               </Button>
             </DialogFooter>
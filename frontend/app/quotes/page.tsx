@@ -0,0 +1,663 @@
+"use client";
+
+import { SidebarInset, SidebarProvider, SidebarTrigger, useSidebar } from "@/components/ui/sidebar";
+import { DashboardSidebar } from "@/components/sidebar-02/app-sidebar";
+import { ChatProvider } from "@/app/context/ChatContext";
+import { useAuth } from "@/lib/auth-context";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { useState, useEffect, useCallback } from "react";
+import { useRouter } from "next/navigation";
+import Image from "next/image";
+import {
+  getUserPolicies,
+  getQuoteRequests,
+  createQuoteRequest,
+  getQuoteComparison,
+  addQuote,
+  uploadQuoteDocument,
+  requestProviderQuotes,
+  UserPolicy,
+  PolicyType,
+  QuoteRequest,
+  QuoteRequestSummary,
+  QuoteCoverage,
+  CoverageComparison,
+  CoverageFlag,
+} from "@/lib/api";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faScaleBalanced, faUpload, faPlus, faCircleCheck, faTriangleExclamation, faBolt } from "@fortawesome/free-solid-svg-icons";
+
+function MobileHeader() {
+  const { openMobile } = useSidebar();
+
+  // Hide header when sidebar is open (X is inside sidebar)
+  if (openMobile) return null;
+
+  return (
+    <header className="md:hidden shrink-0 bg-[#f7f6f3] pt-3">
+      <div className="flex items-center justify-between h-14 px-4">
+        <SidebarTrigger className="h-7 w-7 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] hover:text-[#f7f6f3] rounded-full [&_svg]:size-4" />
+        <Image
+          src="/wordmark-only-logo.png"
+          alt="Samurai Insurance"
+          width={180}
+          height={48}
+          className="h-12 w-auto object-contain"
+        />
+        <div className="size-7" />
+      </div>
+    </header>
+  );
+}
+
+const policyTypeLabels: Record<PolicyType, string> = {
+  auto: "Auto Insurance",
+  home: "Home Insurance",
+  renters: "Renters Insurance",
+  umbrella: "Umbrella Insurance",
+  life: "Life Insurance",
+  health: "Health Insurance",
+  other: "Other Insurance",
+};
+
+// Flags that mean the quote protects less than the current policy
+const WORSE_FLAGS: CoverageFlag[] = ["lower_limit", "higher_deductible", "missing_in_quote"];
+const BETTER_FLAGS: CoverageFlag[] = ["higher_limit", "lower_deductible", "not_in_current"];
+
+function formatMoney(amount: number | null): string {
+  return amount === null ? "—" : `$${amount.toLocaleString("en-US", { maximumFractionDigits: 0 })}`;
+}
+
+function formatAmounts(amounts: { limit: number | null; deductible: number | null } | null): string {
+  if (!amounts) return "Not included";
+  const parts = [];
+  if (amounts.limit !== null) parts.push(formatMoney(amounts.limit));
+  if (amounts.deductible !== null) parts.push(`${formatMoney(amounts.deductible)} ded.`);
+  return parts.length > 0 ? parts.join(" · ") : "Included";
+}
+
+function flagClassName(row: CoverageComparison): string {
+  if (row.flags.some((flag) => WORSE_FLAGS.includes(flag))) return "bg-red-50 text-red-800";
+  if (row.flags.includes("not_comparable")) return "bg-amber-50 text-amber-800";
+  if (row.flags.some((flag) => BETTER_FLAGS.includes(flag))) return "bg-green-50 text-green-800";
+  return "";
+}
+
+interface QuoteFormState {
+  carrierName: string;
+  premium: string;
+  termMonths: 6 | 12;
+  coverages: Array<{ coverageType: string; limit: string; deductible: string }>;
+}
+
+function emptyQuoteForm(coverages: QuoteCoverage[]): QuoteFormState {
+  return {
+    carrierName: "",
+    premium: "",
+    termMonths: 12,
+    coverages: coverages.map((c) => ({ coverageType: c.coverageType, limit: "", deductible: "" })),
+  };
+}
+
+function parseAmount(value: string): number | null {
+  const cleaned = value.replace(/[$,\s]/g, "");
+  return cleaned === "" || isNaN(Number(cleaned)) ? null : Number(cleaned);
+}
+
+export default function QuotesPage() {
+  const { user, isLoading } = useAuth();
+  const router = useRouter();
+
+  const [policies, setPolicies] = useState<UserPolicy[]>([]);
+  const [requests, setRequests] = useState<QuoteRequestSummary[]>([]);
+  const [listLoading, setListLoading] = useState(true);
+  const [selected, setSelected] = useState<QuoteRequest | null>(null);
+  const [selectedLoading, setSelectedLoading] = useState(false);
+  const [startingType, setStartingType] = useState<PolicyType | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Add-quote form state
+  const [quoteForm, setQuoteForm] = useState<QuoteFormState>(emptyQuoteForm([]));
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isFetchingInstant, setIsFetchingInstant] = useState(false);
+  const [instantNotice, setInstantNotice] = useState<string | null>(null);
+
+  const loadLists = useCallback(async () => {
+    if (!user) return;
+    setListLoading(true);
+    try {
+      const [userPolicies, quoteRequests] = await Promise.all([
+        getUserPolicies(user.id),
+        getQuoteRequests(user.id),
+      ]);
+      setPolicies(userPolicies);
+      setRequests(quoteRequests);
+    } catch (err) {
+      console.error("Error loading quote requests:", err);
+    } finally {
+      setListLoading(false);
+    }
+  }, [user]);
+
+  const openRequest = useCallback(async (requestId: number) => {
+    if (!user) return;
+    setSelectedLoading(true);
+    setError(null);
+    setInstantNotice(null);
+    try {
+      const request = await getQuoteComparison(user.id, requestId);
+      setSelected(request);
+      if (request) {
+        setQuoteForm(emptyQuoteForm(request.current.coverages));
+      }
+    } finally {
+      setSelectedLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (!isLoading && !user) {
+      router.push("/login");
+    }
+  }, [user, isLoading, router]);
+
+  useEffect(() => {
+    if (user) {
+      loadLists();
+    }
+  }, [user, loadLists]);
+
+  if (isLoading || !user) {
+    return (
+      <div className="flex items-center justify-center min-h-screen bg-[#f7f6f3]">
+        <Loader2 className="h-8 w-8 animate-spin text-[#333333]" />
+      </div>
+    );
+  }
+
+  const handleStart = async (policyType: PolicyType) => {
+    setStartingType(policyType);
+    setError(null);
+    try {
+      const result = await createQuoteRequest(user.id, policyType);
+      if (!result.success || !result.data) {
+        setError(result.error === "Policy not found"
+          ? "We couldn't read coverage details from this policy yet. Re-upload the declarations page and try again."
+          : result.error || "Failed to start quote comparison");
+        return;
+      }
+      await loadLists();
+      await openRequest(result.data.id);
+    } finally {
+      setStartingType(null);
+    }
+  };
+
+  const handleAddQuote = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selected) return;
+
+    const premium = parseAmount(quoteForm.premium);
+    if (!quoteForm.carrierName.trim() || premium === null || premium <= 0) {
+      setError("Enter the carrier and the quoted premium");
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const result = await addQuote(user.id, selected.id, {
+        carrierName: quoteForm.carrierName.trim(),
+        premium,
+        termMonths: quoteForm.termMonths,
+        coverages: quoteForm.coverages
+          .filter((c) => c.limit.trim() !== "" || c.deductible.trim() !== "")
+          .map((c) => ({
+            coverageType: c.coverageType,
+            limit: parseAmount(c.limit),
+            deductible: parseAmount(c.deductible),
+          })),
+      });
+      if (!result.success) {
+        setError(result.error || "Failed to add quote");
+        return;
+      }
+      await openRequest(selected.id);
+      await loadLists();
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file || !selected) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const result = await uploadQuoteDocument(user.id, selected.id, file);
+      if (!result.success) {
+        setError(result.error || "Failed to read quote document");
+        return;
+      }
+      await openRequest(selected.id);
+      await loadLists();
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleInstantQuotes = async () => {
+    if (!selected) return;
+
+    setIsFetchingInstant(true);
+    setError(null);
+    setInstantNotice(null);
+    try {
+      const result = await requestProviderQuotes(user.id, selected.id);
+      if (!result.success || !result.data) {
+        setError(result.error || "Failed to fetch instant quotes");
+        return;
+      }
+      const { providers, comparison } = result.data;
+      const added = providers.reduce((sum, provider) => sum + provider.quoteCount, 0);
+      const unavailable = providers.filter((provider) => provider.status === "error" || provider.status === "timeout").length;
+      setInstantNotice(
+        providers.length === 0
+          ? "Instant quotes aren't available for this policy yet"
+          : `${added} new ${added === 1 ? "quote" : "quotes"} added${unavailable > 0 ? ` · ${unavailable} ${unavailable === 1 ? "provider" : "providers"} unavailable` : ""}`
+      );
+      setSelected(comparison);
+      await loadLists();
+    } finally {
+      setIsFetchingInstant(false);
+    }
+  };
+
+  const updateCoverage = (index: number, field: "limit" | "deductible", value: string) => {
+    setQuoteForm({
+      ...quoteForm,
+      coverages: quoteForm.coverages.map((c, i) => (i === index ? { ...c, [field]: value } : c)),
+    });
+  };
+
+  // Rows are the union of coverage keys across all quotes, labelled from the first comparison that has them
+  const comparisonRows = selected
+    ? Array.from(
+        new Map(
+          selected.comparisons.flatMap((comparison) => comparison.coverages.map((row) => [row.key, row] as const))
+        ).values()
+      )
+    : [];
+
+  return (
+    <ChatProvider>
+      <SidebarProvider>
+        <div className="relative flex h-screen w-full">
+          <DashboardSidebar />
+          <SidebarInset className="flex flex-col overflow-hidden">
+            <MobileHeader />
+            <main id="main-content" className="flex flex-1 flex-col items-center p-4 pb-20 md:p-8 md:pb-8 overflow-auto bg-[#f7f6f3]">
+              <div className="w-full max-w-4xl space-y-6">
+                <div>
+                  <h1 className="text-3xl font-semibold font-heading tracking-tight">Compare Quotes</h1>
+                  <p className="text-muted-foreground font-(family-name:--font-work-sans) mt-1">
+                    See competing quotes side by side with the coverage you have today
+                  </p>
+                </div>
+
+                {error && (
+                  <div
+                    role="alert"
+                    className="p-3 rounded-lg bg-destructive/10 text-destructive text-sm font-(family-name:--font-work-sans)"
+                  >
+                    {error}
+                  </div>
+                )}
+
+                <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                  <CardHeader>
+                    <CardTitle className="font-heading">Your Comparisons</CardTitle>
+                    <CardDescription className="font-(family-name:--font-work-sans)">
+                      Start from one of your policies, then add quotes to compare
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-3">
+                    {listLoading ? (
+                      <div className="flex items-center justify-center py-8">
+                        <Loader2 className="h-6 w-6 animate-spin text-[#333333]" />
+                      </div>
+                    ) : (
+                      <>
+                        {policies.length === 0 && (
+                          <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) text-center py-4">
+                            Upload a policy in chat to start comparing quotes
+                          </p>
+                        )}
+                        {policies.map((policy) => (
+                          <div
+                            key={policy.policyType}
+                            className="flex items-center justify-between p-4 rounded-lg bg-[#f7f6f3] border border-[#333333]/5"
+                          >
+                            <div>
+                              <p className="font-semibold font-(family-name:--font-work-sans)">
+                                {policyTypeLabels[policy.policyType]}
+                              </p>
+                              <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                                {policy.carrier}
+                              </p>
+                            </div>
+                            <Button
+                              onClick={() => handleStart(policy.policyType)}
+                              disabled={startingType !== null}
+                              className="gap-2 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
+                            >
+                              {startingType === policy.policyType ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <FontAwesomeIcon icon={faScaleBalanced} className="size-4" />
+                              )}
+                              Compare quotes
+                            </Button>
+                          </div>
+                        ))}
+                        {requests.map((request) => (
+                          <button
+                            key={request.id}
+                            type="button"
+                            onClick={() => openRequest(request.id)}
+                            className={`w-full text-left p-4 rounded-lg border transition-colors ${
+                              selected?.id === request.id
+                                ? "border-[#333333] bg-white"
+                                : "border-[#333333]/5 bg-[#f7f6f3] hover:bg-white"
+                            }`}
+                          >
+                            <p className="font-semibold font-(family-name:--font-work-sans)">
+                              {policyTypeLabels[request.policyType] || "Policy"}
+                              {request.carrier ? ` · ${request.carrier}` : ""}
+                            </p>
+                            <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                              Started {new Date(request.requestedAt).toLocaleDateString()} · {request.quoteCount} {request.quoteCount === 1 ? "quote" : "quotes"}
+                            </p>
+                          </button>
+                        ))}
+                      </>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {selectedLoading && (
+                  <div className="flex items-center justify-center py-8">
+                    <Loader2 className="h-6 w-6 animate-spin text-[#333333]" />
+                  </div>
+                )}
+
+                {selected && !selectedLoading && (
+                  <>
+                    <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                      <CardHeader>
+                        <div className="flex items-center justify-between gap-4">
+                          <div>
+                            <CardTitle className="font-heading">
+                              {policyTypeLabels[selected.current.policyType] || "Policy"} Comparison
+                            </CardTitle>
+                            <CardDescription className="font-(family-name:--font-work-sans)">
+                              Red means the quote covers less than your current policy; green means more
+                            </CardDescription>
+                          </div>
+                          {selected.status === "open" && (
+                            <Button
+                              onClick={handleInstantQuotes}
+                              disabled={isFetchingInstant}
+                              className="gap-2 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-(family-name:--font-work-sans) rounded-full"
+                            >
+                              {isFetchingInstant ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <FontAwesomeIcon icon={faBolt} className="size-4" />
+                              )}
+                              Get instant quotes
+                            </Button>
+                          )}
+                        </div>
+                      </CardHeader>
+                      <CardContent>
+                        {instantNotice && (
+                          <div
+                            role="status"
+                            className="mb-4 p-3 rounded-lg bg-[#f7f6f3] text-sm font-(family-name:--font-work-sans)"
+                          >
+                            {instantNotice}
+                          </div>
+                        )}
+                        {selected.comparisons.length === 0 ? (
+                          <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans) text-center py-4">
+                            No quotes yet. Add one below.
+                          </p>
+                        ) : (
+                          <div className="overflow-x-auto">
+                            <table className="w-full text-sm font-(family-name:--font-work-sans)">
+                              <thead>
+                                <tr className="border-b border-[#333333]/10">
+                                  <th className="text-left p-2 font-semibold">Coverage</th>
+                                  <th className="text-left p-2 font-semibold">
+                                    Current
+                                    <span className="block font-normal text-muted-foreground">{selected.current.carrier || "Your policy"}</span>
+                                  </th>
+                                  {selected.comparisons.map((comparison) => (
+                                    <th key={comparison.quoteId} className="text-left p-2 font-semibold">
+                                      {comparison.carrier || "Quote"}
+                                      <span
+                                        className={`block font-normal text-xs ${comparison.applesToApples ? "text-green-700" : "text-amber-700"}`}
+                                      >
+                                        <FontAwesomeIcon
+                                          icon={comparison.applesToApples ? faCircleCheck : faTriangleExclamation}
+                                          className="size-3 mr-1"
+                                        />
+                                        {comparison.applesToApples ? "Apples to apples" : "Coverage differs"}
+                                      </span>
+                                    </th>
+                                  ))}
+                                </tr>
+                              </thead>
+                              <tbody>
+                                <tr className="border-b border-[#333333]/10">
+                                  <td className="p-2 font-semibold">Annual premium</td>
+                                  <td className="p-2">
+                                    {selected.current.premium !== null
+                                      ? formatMoney(selected.current.premium * 12 / selected.current.termMonths)
+                                      : "—"}
+                                  </td>
+                                  {selected.comparisons.map((comparison) => (
+                                    <td key={comparison.quoteId} className="p-2">
+                                      {formatMoney(comparison.annualPremium)}
+                                      {comparison.annualSavings !== null && comparison.annualSavings !== 0 && (
+                                        <span
+                                          className={`block text-xs ${comparison.annualSavings > 0 ? "text-green-700" : "text-red-600"}`}
+                                        >
+                                          {comparison.annualSavings > 0 ? "Saves " : "Costs "}
+                                          {formatMoney(Math.abs(comparison.annualSavings))}
+                                          {comparison.savingsPct !== null ? ` (${Math.abs(comparison.savingsPct)}%)` : ""}
+                                        </span>
+                                      )}
+                                    </td>
+                                  ))}
+                                </tr>
+                                {comparisonRows.map((row) => (
+                                  <tr key={row.key} className="border-b border-[#333333]/5">
+                                    <td className="p-2">{row.label}</td>
+                                    <td className="p-2">{formatAmounts(row.current)}</td>
+                                    {selected.comparisons.map((comparison) => {
+                                      const cell = comparison.coverages.find((c) => c.key === row.key);
+                                      return (
+                                        <td key={comparison.quoteId} className={`p-2 ${cell ? flagClassName(cell) : ""}`}>
+                                          {cell ? formatAmounts(cell.quote) : "Not included"}
+                                          {cell?.flags.includes("not_comparable") && (
+                                            <span className="block text-xs">Can&apos;t compare</span>
+                                          )}
+                                        </td>
+                                      );
+                                    })}
+                                  </tr>
+                                ))}
+                              </tbody>
+                            </table>
+                          </div>
+                        )}
+
+                        {selected.comparisons.some((comparison) => comparison.warnings.length > 0) && (
+                          <div className="mt-4 space-y-3">
+                            {selected.comparisons
+                              .filter((comparison) => comparison.warnings.length > 0)
+                              .map((comparison) => (
+                                <div key={comparison.quoteId} className="p-3 rounded-lg bg-[#f7f6f3] border border-[#333333]/5">
+                                  <p className="font-semibold text-sm font-(family-name:--font-work-sans) mb-1">
+                                    {comparison.carrier || "Quote"}
+                                  </p>
+                                  <ul className="list-disc pl-5 text-sm text-muted-foreground font-(family-name:--font-work-sans)">
+                                    {comparison.warnings.map((warning) => (
+                                      <li key={warning}>{warning}</li>
+                                    ))}
+                                  </ul>
+                                </div>
+                              ))}
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+
+                    {selected.status === "open" && (
+                      <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                        <CardHeader>
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <CardTitle className="font-heading">Add a Quote</CardTitle>
+                              <CardDescription className="font-(family-name:--font-work-sans)">
+                                Enter the quote&apos;s details or upload the quote document
+                              </CardDescription>
+                            </div>
+                            <Button
+                              asChild
+                              variant="outline"
+                              disabled={isUploading}
+                              className="gap-2 font-(family-name:--font-work-sans) border-[#333333]/10 rounded-full"
+                            >
+                              <label className="cursor-pointer">
+                                {isUploading ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <FontAwesomeIcon icon={faUpload} className="size-4" />
+                                )}
+                                Upload quote
+                                <input
+                                  type="file"
+                                  accept="application/pdf,image/*"
+                                  className="hidden"
+                                  onChange={handleUpload}
+                                  disabled={isUploading}
+                                />
+                              </label>
+                            </Button>
+                          </div>
+                        </CardHeader>
+                        <CardContent>
+                          <form onSubmit={handleAddQuote} className="space-y-4">
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                              <div className="space-y-2">
+                                <Label htmlFor="quoteCarrier" className="font-(family-name:--font-work-sans)">Carrier</Label>
+                                <Input
+                                  id="quoteCarrier"
+                                  value={quoteForm.carrierName}
+                                  onChange={(e) => setQuoteForm({ ...quoteForm, carrierName: e.target.value })}
+                                  placeholder="e.g., Progressive"
+                                  className="h-11 font-(family-name:--font-work-sans) border-[#333333]/10 bg-white rounded-lg"
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <Label htmlFor="quotePremium" className="font-(family-name:--font-work-sans)">Premium</Label>
+                                <Input
+                                  id="quotePremium"
+                                  inputMode="decimal"
+                                  value={quoteForm.premium}
+                                  onChange={(e) => setQuoteForm({ ...quoteForm, premium: e.target.value })}
+                                  placeholder="$"
+                                  className="h-11 font-(family-name:--font-work-sans) border-[#333333]/10 bg-white rounded-lg"
+                                />
+                              </div>
+                              <div className="space-y-2">
+                                <Label htmlFor="quoteTerm" className="font-(family-name:--font-work-sans)">Term</Label>
+                                <select
+                                  id="quoteTerm"
+                                  value={quoteForm.termMonths}
+                                  onChange={(e) => setQuoteForm({ ...quoteForm, termMonths: Number(e.target.value) === 6 ? 6 : 12 })}
+                                  className="h-11 w-full px-3 font-(family-name:--font-work-sans) border border-[#333333]/10 bg-white rounded-lg"
+                                >
+                                  <option value={12}>12 months</option>
+                                  <option value={6}>6 months</option>
+                                </select>
+                              </div>
+                            </div>
+
+                            {quoteForm.coverages.length > 0 && (
+                              <div className="space-y-2">
+                                <p className="text-sm font-semibold font-(family-name:--font-work-sans)">Coverages</p>
+                                {quoteForm.coverages.map((coverage, index) => (
+                                  <div key={`${coverage.coverageType}-${index}`} className="grid grid-cols-3 gap-2 items-center">
+                                    <span className="text-sm font-(family-name:--font-work-sans)">{coverage.coverageType}</span>
+                                    <Input
+                                      aria-label={`${coverage.coverageType} limit`}
+                                      inputMode="decimal"
+                                      value={coverage.limit}
+                                      onChange={(e) => updateCoverage(index, "limit", e.target.value)}
+                                      placeholder="Limit"
+                                      className="h-9 font-(family-name:--font-work-sans) border-[#333333]/10 bg-white rounded-lg"
+                                    />
+                                    <Input
+                                      aria-label={`${coverage.coverageType} deductible`}
+                                      inputMode="decimal"
+                                      value={coverage.deductible}
+                                      onChange={(e) => updateCoverage(index, "deductible", e.target.value)}
+                                      placeholder="Deductible"
+                                      className="h-9 font-(family-name:--font-work-sans) border-[#333333]/10 bg-white rounded-lg"
+                                    />
+                                  </div>
+                                ))}
+                                <p className="text-xs text-muted-foreground font-(family-name:--font-work-sans)">
+                                  Leave a coverage blank if the quote doesn&apos;t include it
+                                </p>
+                              </div>
+                            )}
+
+                            <Button
+                              type="submit"
+                              disabled={isSubmitting}
+                              className="gap-2 h-11 bg-[#333333] hover:bg-[#333333]/90 text-[#f7f6f3] font-bold font-(family-name:--font-work-sans) rounded-full"
+                            >
+                              {isSubmitting ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <FontAwesomeIcon icon={faPlus} className="size-4" />
+                              )}
+                              Add Quote
+                            </Button>
+                          </form>
+                        </CardContent>
+                      </Card>
+                    )}
+                  </>
+                )}
+              </div>
+            </main>
+          </SidebarInset>
+        </div>
+      </SidebarProvider>
+    </ChatProvider>
+  );
+}
@@ -12,7 +12,7 @@ import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import Image from "next/image";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
-import { faRightFromBracket, faTrash } from "@fortawesome/free-solid-svg-icons";
+import { faCheck, faRightFromBracket, faTrash } from "@fortawesome/free-solid-svg-icons";
 import {
   Dialog,
   DialogContent,
@@ -23,6 +23,8 @@ import {
   DialogTrigger,
 } from "@/components/ui/dialog";
 import { deleteAccount } from "@/lib/api";
+import { useLanguage } from "@/app/context/LanguageContext";
+import { LANGUAGES, LANGUAGE_NAMES, translate, type Language } from "@/lib/i18n";
 
 function MobileHeader() {
   const { openMobile } = useSidebar();
@@ -49,7 +51,9 @@ function MobileHeader() {
 
 export default function SettingsPage() {
   const { user, signOut, isLoading } = useAuth();
+  const { language, setLanguage, t } = useLanguage();
   const router = useRouter();
+  const [languageError, setLanguageError] = useState<string | null>(null);
   const [isSigningOut, setIsSigningOut] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
@@ -80,6 +84,15 @@ export default function SettingsPage() {
     }
   };
 
+  const handleLanguageChange = async (next: Language) => {
+    if (next === language) return;
+    setLanguageError(null);
+    const saved = await setLanguage(next);
+    if (!saved) {
+      setLanguageError(translate(next, "settings.language.saveFailed"));
+    }
+  };
+
   const handleDeleteDialogClose = (open: boolean) => {
     if (!open) {
       // Reset state when closing
@@ -111,11 +124,11 @@ export default function SettingsPage() {
         // Account was already deleted - just sign out
         await signOut();
       } else {
-        setDeleteError(result.error || "Failed to delete account. Please try again.");
+        setDeleteError(result.error || t("settings.delete.failed"));
         setIsDeleting(false);
       }
     } catch {
-      setDeleteError("An unexpected error occurred. Please try again.");
+      setDeleteError(t("settings.delete.unexpected"));
       setIsDeleting(false);
     }
   };
@@ -132,17 +145,54 @@ export default function SettingsPage() {
             <main id="main-content" className="flex flex-1 flex-col items-center p-4 pb-20 md:p-8 md:pb-8 overflow-auto bg-[#f7f6f3]">
               <div className="w-full max-w-2xl space-y-6">
                 <div>
-                  <h1 className="text-3xl font-semibold font-heading tracking-tight">Settings</h1>
+                  <h1 className="text-3xl font-semibold font-heading tracking-tight">{t("settings.title")}</h1>
                   <p className="text-muted-foreground font-(family-name:--font-work-sans) mt-1">
-                    Manage your account settings
+                    {t("settings.subtitle")}
                   </p>
                 </div>
 
                 <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
                   <CardHeader>
-                    <CardTitle className="font-heading">Account</CardTitle>
+                    <CardTitle className="font-heading">{t("settings.language.title")}</CardTitle>
+                    <CardDescription className="font-(family-name:--font-work-sans)">
+                      {t("settings.language.description")}
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="grid grid-cols-2 gap-3" role="radiogroup" aria-label={t("settings.language.title")}>
+                      {LANGUAGES.map((option) => (
+                        <button
+                          key={option}
+                          role="radio"
+                          aria-checked={language === option}
+                          lang={option}
+                          onClick={() => handleLanguageChange(option)}
+                          className={`flex items-center justify-between gap-3 p-4 rounded-2xl border transition-colors text-left ${
+                            language === option
+                              ? "bg-[#de5e48]/10 border-[#de5e48]/40"
+                              : "bg-[#f7f6f3] border-[#333333]/5 hover:bg-[#333333]/5"
+                          }`}
+                        >
+                          <span className="font-semibold font-(family-name:--font-work-sans)">{LANGUAGE_NAMES[option]}</span>
+                          {language === option && (
+                            <FontAwesomeIcon icon={faCheck} className="size-4 text-[#de5e48]" />
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                    {languageError && (
+                      <p className="mt-3 text-sm text-red-600 font-(family-name:--font-work-sans)">
+                        {languageError}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
+                  <CardHeader>
+                    <CardTitle className="font-heading">{t("settings.account.title")}</CardTitle>
                     <CardDescription className="font-(family-name:--font-work-sans)">
-                      Manage your account access
+                      {t("settings.account.description")}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -160,9 +210,9 @@ export default function SettingsPage() {
                           )}
                         </div>
                         <div>
-                          <p className="font-semibold font-(family-name:--font-work-sans)">Sign out</p>
+                          <p className="font-semibold font-(family-name:--font-work-sans)">{t("settings.signOut")}</p>
                           <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
-                            Sign out of your account on this device
+                            {t("settings.signOutHint")}
                           </p>
                         </div>
                       </button>
@@ -172,9 +222,9 @@ export default function SettingsPage() {
 
                 <Card className="border-[#333333]/10 bg-[hsl(0_0%_98%)]">
                   <CardHeader>
-                    <CardTitle className="font-heading">Danger Zone</CardTitle>
+                    <CardTitle className="font-heading">{t("settings.danger.title")}</CardTitle>
                     <CardDescription className="font-(family-name:--font-work-sans)">
-                      Irreversible actions for your account
+                      {t("settings.danger.description")}
                     </CardDescription>
                   </CardHeader>
                   <CardContent>
@@ -188,9 +238,9 @@ export default function SettingsPage() {
                               <FontAwesomeIcon icon={faTrash} className="size-5 text-white" />
                             </div>
                             <div>
-                              <p className="font-semibold font-(family-name:--font-work-sans)">Delete account</p>
+                              <p className="font-semibold font-(family-name:--font-work-sans)">{t("settings.delete.button")}</p>
                               <p className="text-sm text-muted-foreground font-(family-name:--font-work-sans)">
-                                Permanently delete your account and all data
+                                {t("settings.delete.buttonHint")}
                               </p>
                             </div>
                           </button>
@@ -201,22 +251,22 @@ export default function SettingsPage() {
                                 <DialogHeader>
                                   <DialogTitle className="font-heading flex items-center gap-2">
                                     <AlertTriangle className="h-5 w-5 text-red-600" />
-                                    Delete Account
+                                    {t("settings.delete.title")}
                                   </DialogTitle>
                                   <DialogDescription className="font-(family-name:--font-work-sans) text-left">
-                                    This will permanently delete your account data.
+                                    {t("settings.delete.description")}
                                   </DialogDescription>
                                 </DialogHeader>
                                 <div className="font-(family-name:--font-work-sans) text-sm text-muted-foreground">
-                                  <p className="mb-2">This includes:</p>
+                                  <p className="mb-2">{t("settings.delete.includes")}</p>
                                   <ul className="list-disc list-inside space-y-1">
-                                    <li>Your profile and personal information</li>
-                                    <li>All uploaded insurance policies</li>
-                                    <li>Chat history and conversations</li>
-                                    <li>All insurance quotes and claims data</li>
+                                    <li>{t("settings.delete.profile")}</li>
+                                    <li>{t("settings.delete.policies")}</li>
+                                    <li>{t("settings.delete.chats")}</li>
+                                    <li>{t("settings.delete.quotes")}</li>
                                   </ul>
                                   <p className="mt-3 font-medium text-red-600">
-                                    This action cannot be undone.
+                                    {t("settings.delete.irreversible")}
                                   </p>
                                 </div>
                                 <DialogFooter className="gap-2 sm:gap-0">
@@ -225,29 +275,29 @@ export default function SettingsPage() {
                                     onClick={() => handleDeleteDialogClose(false)}
                                     className="font-(family-name:--font-work-sans) border-[#333333]/10 rounded-full"
                                   >
-                                    Cancel
+                                    {t("common.cancel")}
                                   </Button>
                                   <Button
                                     variant="destructive"
                                     onClick={handleContinueToDelete}
                                     className="gap-2 font-(family-name:--font-work-sans) rounded-full bg-red-600 hover:bg-red-700 text-white"
                                   >
-                                    Continue
+                                    {t("common.continue")}
                                   </Button>
                                 </DialogFooter>
                               </>
                             ) : (
                               <>
                                 <DialogHeader>
-                                  <DialogTitle className="font-heading">Confirm Deletion</DialogTitle>
+                                  <DialogTitle className="font-heading">{t("settings.delete.confirmTitle")}</DialogTitle>
                                   <DialogDescription className="font-(family-name:--font-work-sans)">
-                                    To confirm, type <span className="font-mono font-bold text-red-600">DELETE</span> below:
+                                    {t("settings.delete.confirmBefore")} <span className="font-mono font-bold text-red-600">DELETE</span> {t("settings.delete.confirmAfter")}
                                   </DialogDescription>
                                 </DialogHeader>
                                 <div className="py-4">
                                   <Input
                                     type="text"
-                                    placeholder="Type DELETE to confirm"
+                                    placeholder={t("settings.delete.placeholder")}
                                     value={confirmText}
                                     onChange={(e) => setConfirmText(e.target.value.toUpperCase())}
                                     className="font-mono text-center border-[#333333]/20 focus:border-red-500 focus:ring-red-500"
@@ -267,7 +317,7 @@ export default function SettingsPage() {
                                     disabled={isDeleting}
                                     className="font-(family-name:--font-work-sans) border-[#333333]/10 rounded-full"
                                   >
-                                    Back
+                                    {t("common.back")}
                                   </Button>
                                   <Button
                                     variant="destructive"
@@ -278,12 +328,12 @@ export default function SettingsPage() {
                                     {isDeleting ? (
                                       <>
                                         <Loader2 className="h-4 w-4 animate-spin" />
-                                        Deleting...
+                                        {t("common.deleting")}
                                       </>
                                     ) : (
                                       <>
                                         <FontAwesomeIcon icon={faTrash} className="size-4" />
-                                        Delete My Account
+                                        {t("settings.delete.submit")}
                                       </>
                                     )}
                                   </Button>
@@ -2,6 +2,7 @@
 // API client for backend communication with authentication
 
 import { createClient } from './supabase';
+import type { Language } from './i18n';
 
 // Get backend URL from environment variable
 const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || 'http://localhost:8080';
@@ -26,18 +27,39 @@ export interface ChatRequest {
     history?: ChatMessage[];
     userId?: string;
     sessionId?: number;
+    language?: Language;
+}
+
+/**
+ * A source behind Sam's answer, referenced in the text as [id]
+ */
+export interface Citation {
+    id: number;
+    source: "knowledge_base" | "policy_document";
+    title: string;
+    snippet: string;
+    documentId: string | null;
+    uri: string | null;
+    page: number | null;
+    section: string | null;
 }
 
 export interface ChatResponse {
     response: string;
+    citations?: Citation[];
     userMessageId?: number;
     assistantMessageId?: number;
+    /** Sam queued the chat for a licensed agent */
+    handoffRequested?: boolean;
+    /** A licensed agent has the chat; the response is an acknowledgement, not Sam's answer */
+    advisorAssigned?: boolean;
 }
 
 export interface UploadResponse {
     success: boolean;
     message?: string;
     analysis?: string;
+    renewalSummaries?: string[];
     error?: string;
 }
 
@@ -51,6 +73,215 @@ export interface UserPolicy {
     fileName: string;
 }
 
+export type RenewalChangeType =
+    | 'premium_increase'
+    | 'premium_decrease'
+    | 'limit_decrease'
+    | 'limit_increase'
+    | 'deductible_increase'
+    | 'deductible_decrease'
+    | 'coverage_removed'
+    | 'coverage_added'
+    | 'vehicle_added'
+    | 'vehicle_removed'
+    | 'endorsement_removed'
+    | 'endorsement_added';
+
+export interface RenewalChange {
+    type: RenewalChangeType;
+    item: string;
+    coverage?: string;
+    endorsement?: string;
+    previous: number | null;
+    current: number | null;
+}
+
+export interface PolicyRenewal {
+    id: number;
+    policyId: number;
+    renewedPolicyId: number | null;
+    renewalDate: string;
+    status: string;
+    policyType: PolicyType | null;
+    policyNumber: string | null;
+    carrier: string | null;
+    previousPremium: number | null;
+    newPremium: number | null;
+    premiumChangePct: number | null;
+    changes: RenewalChange[];
+    summary: string | null;
+    createdAt: string;
+}
+
+export interface UpcomingExpiration {
+    policyId: number;
+    policyType: PolicyType | null;
+    policyNumber: string;
+    carrier: string | null;
+    endDate: string;
+    daysRemaining: number;
+}
+
+export interface RenewalOverview {
+    renewals: PolicyRenewal[];
+    upcomingExpirations: UpcomingExpiration[];
+}
+
+export type ProfileFactKey =
+    | 'state'
+    | 'household_size'
+    | 'teen_drivers'
+    | 'has_pool'
+    | 'has_trampoline'
+    | 'has_dog'
+    | 'owns_home'
+    | 'rental_properties'
+    | 'net_worth_band';
+
+export interface ProfileFact {
+    id: number;
+    key: ProfileFactKey;
+    value: string | number | boolean;
+    label: string;
+    status: 'proposed' | 'confirmed';
+    evidence: string | null;
+    confidence: number | null;
+    sourceConversationId: number | null;
+    createdAt: string;
+    confirmedAt: string | null;
+}
+
+export interface ProfileFacts {
+    confirmed: ProfileFact[];
+    proposed: ProfileFact[];
+}
+
+export interface QuoteCoverage {
+    coverageType: string;
+    limit: number | null;
+    deductible: number | null;
+}
+
+export interface QuoteInput {
+    carrierName: string;
+    premium: number;
+    termMonths: 6 | 12;
+    validUntil?: string | null;
+    coverages: QuoteCoverage[];
+    notes?: string | null;
+}
+
+export interface CurrentPolicySnapshot {
+    policyId: number;
+    policyType: PolicyType;
+    carrier: string | null;
+    policyNumber: string | null;
+    premium: number | null;
+    termMonths: number;
+    coverages: QuoteCoverage[];
+}
+
+export interface Quote {
+    id: number;
+    carrier: string | null;
+    premium: number;
+    termMonths: number;
+    validUntil: string | null;
+    coverages: QuoteCoverage[];
+    source: 'manual' | 'document' | 'provider';
+    sourceDocumentId: number | null;
+    providerId: string | null;
+    notes: string | null;
+    createdAt: string;
+}
+
+export type CoverageFlag =
+    | 'match'
+    | 'lower_limit'
+    | 'higher_limit'
+    | 'higher_deductible'
+    | 'lower_deductible'
+    | 'missing_in_quote'
+    | 'not_in_current'
+    | 'not_comparable';
+
+export interface CoverageComparison {
+    key: string;
+    label: string;
+    current: { limit: number | null; deductible: number | null } | null;
+    quote: { limit: number | null; deductible: number | null } | null;
+    flags: CoverageFlag[];
+}
+
+export interface QuoteComparison {
+    quoteId: number;
+    carrier: string | null;
+    annualPremium: number;
+    annualSavings: number | null;
+    savingsPct: number | null;
+    applesToApples: boolean;
+    coverages: CoverageComparison[];
+    warnings: string[];
+}
+
+export interface QuoteRequest {
+    id: number;
+    status: string;
+    requestedAt: string;
+    current: CurrentPolicySnapshot;
+    quotes: Quote[];
+    comparisons: QuoteComparison[];
+}
+
+export interface ProviderCallResult {
+    providerId: string;
+    status: 'success' | 'error' | 'timeout' | 'skipped';
+    quoteCount: number;
+    durationMs: number;
+    error?: string;
+}
+
+export interface QuoteRequestSummary {
+    id: number;
+    status: string;
+    requestedAt: string;
+    policyType: PolicyType;
+    carrier: string | null;
+    policyNumber: string | null;
+    quoteCount: number;
+}
+
+export type ClaimStatus = 'draft' | 'ready' | 'pending' | 'approved' | 'denied' | 'closed';
+
+export interface ClaimPhoto {
+    id: number;
+    fileName: string | null;
+    fileType: string | null;
+    uploadedAt: string;
+}
+
+export interface Claim {
+    id: number;
+    status: ClaimStatus;
+    claimType: string | null;
+    description: string | null;
+    lossDate: string | null;
+    location: string | null;
+    policy: { policyId: number; policyType: PolicyType | null; carrier: string | null; policyNumber: string } | null;
+    carrier: string | null;
+    photos: ClaimPhoto[];
+    createdAt: string;
+    updatedAt: string;
+    reportedAt: string | null;
+}
+
+export interface ClaimPhotoUpload {
+    photo: ClaimPhoto;
+    photoCount: number;
+    /** Sam's acknowledgement, appended to the chat */
+    message: string;
+}
+
 export interface ChatSession {
     id: number;
     session_uuid: string;
@@ -66,10 +297,26 @@ export interface ChatSession {
 export interface StoredMessage {
     id: string;
     content: string;
-    role: "user" | "assistant";
+    role: "user" | "assistant" | "agent";
     timestamp: string;
+    /** Licensed agent who wrote the message (agent messages only) */
+    agentName?: string | null;
     intent?: string;
     entities?: Record<string, unknown>;
+    citations?: Citation[];
+}
+
+export interface ConversationSearchResult {
+    messageId: number;
+    role: "user" | "assistant" | null;
+    snippet: string;
+    timestamp: string | null;
+    score: number;
+    session: {
+        id: number;
+        title: string;
+        lastMessageAt: string | null;
+    };
 }
 
 export interface PaginationInfo {
@@ -83,9 +330,52 @@ export interface ChatHistoryResponse {
     pagination?: PaginationInfo;
 }
 
+export type HandoffStatus = 'initiated' | 'assigned' | 'completed';
+
+/**
+ * A chat escalated to a licensed agent
+ */
+export interface Handoff {
+    id: number;
+    sessionId: number | null;
+    conversationId: number | null;
+    status: HandoffStatus;
+    source: 'user_request' | 'high_risk' | 'rai_review';
+    reason: string | null;
+    assignee: { id: number; name: string } | null;
+    notes: string | null;
+    createdAt: string;
+    claimedAt: string | null;
+    completedAt: string | null;
+}
+
+export interface AdvisorAgent {
+    id: number;
+    name: string;
+    email: string | null;
+    licenseNumber: string | null;
+    agencyName: string | null;
+}
+
+export interface HandoffMessage {
+    id: number;
+    role: "user" | "assistant" | "agent";
+    content: string;
+    timestamp: string;
+    agentName: string | null;
+}
+
+export interface HandoffDetail {
+    handoff: Handoff;
+    customer: { name: string | null; email: string | null };
+    messages: HandoffMessage[];
+    policies: Array<{ policyType: PolicyType; carrier: string | null; analysis: string; timestamp: number }>;
+}
+
 // Session storage keys
 const SESSION_ID_KEY = 'samurai_chat_session_id';
 const SESSION_UUID_KEY = 'samurai_chat_session_uuid';
+const FOCUS_MESSAGE_KEY = 'samurai_chat_focus_message_id';
 
 /**
  * Get the current auth token from Supabase session
@@ -176,6 +466,25 @@ export function clearStoredSession(): void {
     localStorage.removeItem(SESSION_UUID_KEY);
 }
 
+/**
+ * Open a session on the chat page scrolled to one of its messages (e.g. a search hit)
+ */
+export function openSessionAtMessage(sessionId: number, messageId: number): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(SESSION_ID_KEY, sessionId.toString());
+    localStorage.setItem(FOCUS_MESSAGE_KEY, messageId.toString());
+}
+
+/**
+ * Read and clear the message the chat page should scroll to, if any
+ */
+export function takeFocusedMessageId(): string | null {
+    if (typeof window === 'undefined') return null;
+    const messageId = localStorage.getItem(FOCUS_MESSAGE_KEY);
+    localStorage.removeItem(FOCUS_MESSAGE_KEY);
+    return messageId;
+}
+
 /**
  * Fetch chat history for a session with pagination support
  * @param sessionId - The session ID to fetch messages for
@@ -266,6 +575,31 @@ export async function getUserSessions(userId: string, limit: number = 10): Promi
     }
 }
 
+/**
+ * Search the user's past messages by meaning, best match first
+ */
+export async function searchConversations(userId: string, query: string, limit: number = 10): Promise<ConversationSearchResult[]> {
+    try {
+        const headers = await getAuthHeaders();
+        const params = new URLSearchParams({ q: query, limit: limit.toString() });
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/search?${params.toString()}`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.results || [];
+    } catch (error) {
+        console.error("Error searching conversations:", error);
+        return [];
+    }
+}
+
 /**
  * Rename a chat session by updating its summary
  */
@@ -318,27 +652,68 @@ export async function deleteSession(sessionId: number, userId: string): Promise<
     }
 }
 
+export interface ChatProgressEvent {
+    stage: string;
+    message: string;
+}
+
+export interface ChatStreamCallbacks {
+    onProgress?: (event: ChatProgressEvent) => void;
+    onChunk?: (text: string) => void;
+}
+
+/**
+ * Parse a single SSE frame ("event: x\ndata: {...}") into its name and payload
+ */
+function parseSSEFrame(frame: string): { event: string; data: unknown } | null {
+    let event = "message";
+    const dataLines: string[] = [];
+
+    for (const line of frame.split("\n")) {
+        if (line.startsWith("event:")) {
+            event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+            dataLines.push(line.slice(5).trimStart());
+        }
+    }
+
+    if (dataLines.length === 0) return null;
+
+    try {
+        return { event, data: JSON.parse(dataLines.join("\n")) };
+    } catch {
+        return null;
+    }
+}
+
 /**
  * Send a chat message with session tracking
- * Returns the response text and optional message IDs for feedback
+ * Streams Sam's progress and answer through the optional callbacks,
+ * then resolves with the full response text and message IDs for feedback
  */
 export async function sendChatMessage(
     message: string,
     history: ChatMessage[] = [],
     userId?: string,
-    sessionId?: number
+    sessionId?: number,
+    callbacks: ChatStreamCallbacks = {},
+    language?: Language
 ): Promise<ChatResponse> {
     try {
         const headers = await getAuthHeaders();
 
-        const response = await fetch(getBackendUrl('/api/chat'), {
+        const response = await fetch(getBackendUrl('/api/chat/stream'), {
             method: "POST",
-            headers,
+            headers: {
+                ...headers,
+                Accept: "text/event-stream",
+            },
             body: JSON.stringify({
                 message,
                 history,
                 userId,
                 sessionId,
+                language,
             } as ChatRequest),
         });
 
@@ -358,8 +733,57 @@ export async function sendChatMessage(
             }
         }
 
-        const data: ChatResponse = await response.json();
-        return data;
+        if (!response.body) {
+            throw new Error("Streaming is not supported by this browser");
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        const result: ChatResponse = { response: "" };
+        let buffer = "";
+        let finished = false;
+
+        while (!finished) {
+            const { value, done } = await reader.read();
+            if (done) break;
+
+            buffer += decoder.decode(value, { stream: true });
+
+            // SSE frames are separated by a blank line
+            let boundary = buffer.indexOf("\n\n");
+            while (boundary !== -1) {
+                const frame = parseSSEFrame(buffer.slice(0, boundary));
+                buffer = buffer.slice(boundary + 2);
+                boundary = buffer.indexOf("\n\n");
+
+                if (!frame) continue;
+
+                if (frame.event === "progress") {
+                    callbacks.onProgress?.(frame.data as ChatProgressEvent);
+                } else if (frame.event === "chunk") {
+                    const { text } = frame.data as { text: string };
+                    result.response += text;
+                    callbacks.onChunk?.(text);
+                } else if (frame.event === "done") {
+                    const ids = frame.data as Omit<ChatResponse, "response">;
+                    result.userMessageId = ids.userMessageId;
+                    result.assistantMessageId = ids.assistantMessageId;
+                    result.citations = ids.citations || [];
+                    result.handoffRequested = Boolean(ids.handoffRequested);
+                    result.advisorAssigned = Boolean(ids.advisorAssigned);
+                    finished = true;
+                } else if (frame.event === "error") {
+                    const { error } = frame.data as { error?: string };
+                    throw new Error(error || "Chat stream failed");
+                }
+            }
+        }
+
+        if (!finished) {
+            throw new Error("Chat stream ended unexpectedly");
+        }
+
+        return result;
     } catch (error) {
         console.error("Error sending chat message:", error);
         throw error;
@@ -372,7 +796,8 @@ export async function sendChatMessage(
 export async function uploadPolicyDocument(
     file: File,
     sessionId?: string,
-    userId?: string
+    userId?: string,
+    language?: Language
 ): Promise<UploadResponse> {
     try {
         const token = await getAuthToken();
@@ -385,6 +810,9 @@ export async function uploadPolicyDocument(
         if (userId) {
             formData.append('userId', userId);
         }
+        if (language) {
+            formData.append('language', language);
+        }
 
         const headers: HeadersInit = {};
         if (token) {
@@ -456,7 +884,8 @@ async function handleUploadResponse(response: Response): Promise<UploadResponse>
     return {
         success: true,
         message: data.message,
-        analysis: data.analysis
+        analysis: data.analysis,
+        renewalSummaries: data.renewalSummaries
     };
 }
 
@@ -498,6 +927,679 @@ export async function getUserPolicies(userId: string): Promise<UserPolicy[]> {
     }
 }
 
+/**
+ * Get Renewal Guard data: recorded renewals and policies expiring soon.
+ * Renewal summaries come back in the given language.
+ */
+export async function getUserRenewals(userId: string, language?: Language): Promise<RenewalOverview> {
+    try {
+        const headers = await getAuthHeaders();
+        const query = language ? `?language=${language}` : '';
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/renewals${query}`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return {
+            renewals: data.renewals || [],
+            upcomingExpirations: data.upcomingExpirations || []
+        };
+    } catch (error) {
+        console.error("Error fetching renewals:", error);
+        return { renewals: [], upcomingExpirations: [] };
+    }
+}
+
+/**
+ * Get what Sam remembers about the user: confirmed facts and suggestions awaiting review
+ */
+export async function getProfileFacts(userId: string): Promise<ProfileFacts> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/profile-facts`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return {
+            confirmed: data.confirmed || [],
+            proposed: data.proposed || []
+        };
+    } catch (error) {
+        console.error("Error fetching profile facts:", error);
+        return { confirmed: [], proposed: [] };
+    }
+}
+
+/**
+ * Confirm or dismiss a fact Sam suggested remembering
+ */
+export async function reviewProfileFact(
+    userId: string,
+    factId: number,
+    status: 'confirmed' | 'rejected'
+): Promise<{ success: boolean; data?: ProfileFact; error?: string }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/profile-facts/${factId}`),
+            {
+                method: 'PATCH',
+                headers,
+                body: JSON.stringify({ status })
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to update fact') };
+        }
+
+        return { success: true, data: await response.json() };
+    } catch (error) {
+        console.error("Error reviewing profile fact:", error);
+        return { success: false, error: 'Failed to update fact' };
+    }
+}
+
+/**
+ * Make Sam forget a fact
+ */
+export async function deleteProfileFact(userId: string, factId: number): Promise<boolean> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/profile-facts/${factId}`),
+            {
+                method: 'DELETE',
+                headers
+            }
+        );
+
+        if (!response.ok) {
+            console.error("Error deleting profile fact:", await readErrorMessage(response, 'Failed to delete fact'));
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error("Error deleting profile fact:", error);
+        return false;
+    }
+}
+
+/**
+ * Get the user's saved preferences; language is null until they pick one
+ */
+export async function getPreferences(userId: string): Promise<{ language: Language | null }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/preferences`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return { language: data.language ?? null };
+    } catch (error) {
+        console.error("Error fetching preferences:", error);
+        return { language: null };
+    }
+}
+
+/**
+ * Save the language for the app and Sam's replies
+ */
+export async function updatePreferences(userId: string, language: Language): Promise<boolean> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/preferences`),
+            {
+                method: 'PUT',
+                headers,
+                body: JSON.stringify({ language })
+            }
+        );
+
+        if (!response.ok) {
+            console.error("Error updating preferences:", await readErrorMessage(response, 'Failed to save preferences'));
+            return false;
+        }
+
+        return true;
+    } catch (error) {
+        console.error("Error updating preferences:", error);
+        return false;
+    }
+}
+
+// Backend errors (including validation failures) carry a user-facing { error } message
+async function readErrorMessage(response: Response, fallback: string): Promise<string> {
+    try {
+        const data = await response.json();
+        return data.error || fallback;
+    } catch {
+        return fallback;
+    }
+}
+
+/**
+ * Get the chat's open handoff to a licensed agent, or null
+ */
+export async function getSessionHandoff(sessionId: number): Promise<Handoff | null> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/chat-sessions/${sessionId}/handoff`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.handoff ?? null;
+    } catch (error) {
+        console.error("Error fetching handoff:", error);
+        return null;
+    }
+}
+
+/**
+ * Ask for a licensed agent to join the chat; returns the existing handoff if one is already open
+ */
+export async function requestHandoff(sessionId: number): Promise<{ success: boolean; data?: Handoff; error?: string }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/chat-sessions/${sessionId}/handoff`),
+            {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({})
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to reach an agent') };
+        }
+
+        const data = await response.json();
+        return { success: true, data: data.handoff };
+    } catch (error) {
+        console.error("Error requesting handoff:", error);
+        return { success: false, error: 'Failed to reach an agent' };
+    }
+}
+
+/**
+ * The signed-in licensed agent, or null if the user is not an agent
+ */
+export async function getAgentProfile(): Promise<AdvisorAgent | null> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(getBackendUrl('/api/agent/me'), { headers });
+
+        if (response.status === 403) {
+            return null;
+        }
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.agent ?? null;
+    } catch (error) {
+        console.error("Error fetching agent profile:", error);
+        return null;
+    }
+}
+
+/**
+ * List handoffs waiting in the queue, claimed by the agent, or resolved by the agent
+ */
+export async function listHandoffs(view: 'queue' | 'mine' | 'completed' = 'queue'): Promise<Handoff[]> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/agent/handoffs?view=${view}`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.handoffs || [];
+    } catch (error) {
+        console.error("Error listing handoffs:", error);
+        return [];
+    }
+}
+
+/**
+ * Get a handoff with the customer's conversation and policies
+ */
+export async function getHandoffDetail(handoffId: number): Promise<HandoffDetail | null> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/agent/handoffs/${handoffId}`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        return await response.json();
+    } catch (error) {
+        console.error("Error fetching handoff:", error);
+        return null;
+    }
+}
+
+/**
+ * Take a handoff from the queue
+ */
+export async function claimHandoff(handoffId: number): Promise<{ success: boolean; data?: Handoff; error?: string }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/agent/handoffs/${handoffId}/claim`),
+            {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({})
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to claim handoff') };
+        }
+
+        const data = await response.json();
+        return { success: true, data: data.handoff };
+    } catch (error) {
+        console.error("Error claiming handoff:", error);
+        return { success: false, error: 'Failed to claim handoff' };
+    }
+}
+
+/**
+ * Reply to the customer in their chat
+ */
+export async function sendAgentReply(
+    handoffId: number,
+    message: string
+): Promise<{ success: boolean; data?: HandoffMessage; error?: string }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/agent/handoffs/${handoffId}/messages`),
+            {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ message })
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to send reply') };
+        }
+
+        const data = await response.json();
+        return { success: true, data: data.message };
+    } catch (error) {
+        console.error("Error sending agent reply:", error);
+        return { success: false, error: 'Failed to send reply' };
+    }
+}
+
+/**
+ * Close a handoff, with optional notes for the record
+ */
+export async function resolveHandoff(
+    handoffId: number,
+    notes?: string
+): Promise<{ success: boolean; data?: Handoff; error?: string }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/agent/handoffs/${handoffId}/resolve`),
+            {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(notes ? { notes } : {})
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to resolve handoff') };
+        }
+
+        const data = await response.json();
+        return { success: true, data: data.handoff };
+    } catch (error) {
+        console.error("Error resolving handoff:", error);
+        return { success: false, error: 'Failed to resolve handoff' };
+    }
+}
+
+/**
+ * List the user's quote requests (Smart Shopping)
+ */
+export async function getQuoteRequests(userId: string): Promise<QuoteRequestSummary[]> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/quote-requests`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.quoteRequests || [];
+    } catch (error) {
+        console.error("Error fetching quote requests:", error);
+        return [];
+    }
+}
+
+/**
+ * Start a quote request from the user's current policy of a given type
+ */
+export async function createQuoteRequest(
+    userId: string,
+    policyType: PolicyType
+): Promise<{ success: boolean; data?: QuoteRequest; error?: string }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/quote-requests`),
+            {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({ policyType })
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to start quote comparison') };
+        }
+
+        return { success: true, data: await response.json() };
+    } catch (error) {
+        console.error("Error creating quote request:", error);
+        return { success: false, error: 'Failed to start quote comparison' };
+    }
+}
+
+/**
+ * Get a quote request with every quote compared against the current policy
+ */
+export async function getQuoteComparison(userId: string, requestId: number): Promise<QuoteRequest | null> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/quote-requests/${requestId}`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        return await response.json();
+    } catch (error) {
+        console.error("Error fetching quote comparison:", error);
+        return null;
+    }
+}
+
+/**
+ * Add a manually entered quote to a quote request
+ */
+export async function addQuote(
+    userId: string,
+    requestId: number,
+    quote: QuoteInput
+): Promise<{ success: boolean; data?: QuoteComparison; error?: string }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/quote-requests/${requestId}/quotes`),
+            {
+                method: 'POST',
+                headers,
+                body: JSON.stringify(quote)
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to add quote') };
+        }
+
+        return { success: true, data: await response.json() };
+    } catch (error) {
+        console.error("Error adding quote:", error);
+        return { success: false, error: 'Failed to add quote' };
+    }
+}
+
+/**
+ * Ask the backend's quote providers to price a quote request
+ */
+export async function requestProviderQuotes(
+    userId: string,
+    requestId: number
+): Promise<{ success: boolean; data?: { providers: ProviderCallResult[]; comparison: QuoteRequest }; error?: string }> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/quote-requests/${requestId}/provider-quotes`),
+            {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({})
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to fetch instant quotes') };
+        }
+
+        return { success: true, data: await response.json() };
+    } catch (error) {
+        console.error("Error requesting provider quotes:", error);
+        return { success: false, error: 'Failed to fetch instant quotes' };
+    }
+}
+
+/**
+ * Upload a quote document; coverages and premium are extracted on the backend
+ */
+export async function uploadQuoteDocument(
+    userId: string,
+    requestId: number,
+    file: File
+): Promise<{ success: boolean; data?: QuoteComparison; error?: string }> {
+    try {
+        const token = await getAuthToken();
+
+        const formData = new FormData();
+        formData.append('document', file);
+
+        const headers: HeadersInit = {};
+        if (token) {
+            headers['Authorization'] = `Bearer ${token}`;
+        }
+        // Note: Don't set Content-Type for FormData - browser will set it with boundary
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/quote-requests/${requestId}/quotes/upload`),
+            {
+                method: 'POST',
+                headers,
+                body: formData
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to read quote document') };
+        }
+
+        return { success: true, data: await response.json() };
+    } catch (error) {
+        console.error("Error uploading quote document:", error);
+        return { success: false, error: 'Failed to upload quote document' };
+    }
+}
+
+/**
+ * Get the user's claims, newest first
+ */
+export async function getUserClaims(userId: string): Promise<Claim[]> {
+    try {
+        const headers = await getAuthHeaders();
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/claims`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const data = await response.json();
+        return data.claims || [];
+    } catch (error) {
+        console.error("Error fetching claims:", error);
+        return [];
+    }
+}
+
+/**
+ * Attach a photo of the damage (or a PDF such as a police report) to a claim
+ */
+export async function uploadClaimPhoto(
+    userId: string,
+    claimId: number,
+    file: File,
+    language?: Language
+): Promise<{ success: boolean; data?: ClaimPhotoUpload; error?: string }> {
+    try {
+        const token = await getAuthToken();
+
+        const formData = new FormData();
+        formData.append('document', file);
+        if (language) {
+            formData.append('language', language);
+        }
+
+        const headers: HeadersInit = {};
+        if (token) {
+            headers['Authorization'] = `Bearer ${token}`;
+        }
+        // Note: Don't set Content-Type for FormData - browser will set it with boundary
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/claims/${claimId}/photos`),
+            {
+                method: 'POST',
+                headers,
+                body: formData
+            }
+        );
+
+        if (!response.ok) {
+            return { success: false, error: await readErrorMessage(response, 'Failed to attach photo') };
+        }
+
+        return { success: true, data: await response.json() };
+    } catch (error) {
+        console.error("Error uploading claim photo:", error);
+        return { success: false, error: 'Failed to attach photo' };
+    }
+}
+
+/**
+ * Open the printable first notice of loss summary for a claim in a new tab.
+ * The summary needs the auth header, so it is fetched here and opened as a blob.
+ */
+export async function openClaimSummary(userId: string, claimId: number, language?: Language): Promise<boolean> {
+    // Opened before the fetch so popup blockers still treat it as a user action
+    const summaryWindow = window.open('', '_blank');
+
+    try {
+        const headers = await getAuthHeaders();
+        const query = language ? `?language=${language}` : '';
+
+        const response = await fetch(
+            getBackendUrl(`/api/users/${userId}/claims/${claimId}/summary${query}`),
+            { headers }
+        );
+
+        if (!response.ok) {
+            throw new Error(`HTTP error! status: ${response.status}`);
+        }
+
+        const html = await response.blob();
+        const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+        if (summaryWindow) {
+            summaryWindow.location.href = url;
+        } else {
+            window.open(url, '_blank');
+        }
+        setTimeout(() => URL.revokeObjectURL(url), 60000);
+        return true;
+    } catch (error) {
+        console.error("Error opening claim summary:", error);
+        summaryWindow?.close();
+        return false;
+    }
+}
+
 /**
  * Delete a policy for a user
  */
@@ -0,0 +1,487 @@
+/**
+ * UI translations (English and Spanish)
+ * Strings are looked up by key through useLanguage().t; the chosen language is cached in
+ * localStorage (instant) and saved to the backend preferences (cross-device, and Sam's default)
+ */
+
+export const LANGUAGES = ["en", "es"] as const;
+export type Language = (typeof LANGUAGES)[number];
+
+export const DEFAULT_LANGUAGE: Language = "en";
+
+/** Each language's name in that language, for pickers */
+export const LANGUAGE_NAMES: Record<Language, string> = {
+  en: "English",
+  es: "Español",
+};
+
+/** Locale used for dates and numbers */
+export const LANGUAGE_LOCALES: Record<Language, string> = {
+  en: "en-US",
+  es: "es-US",
+};
+
+const LANGUAGE_KEY = "samurai_language";
+
+export function isLanguage(value: unknown): value is Language {
+  return typeof value === "string" && (LANGUAGES as readonly string[]).includes(value);
+}
+
+/**
+ * The language cached on this device, else the browser's if we support it
+ */
+export function getInitialLanguage(): Language {
+  if (typeof window === "undefined") return DEFAULT_LANGUAGE;
+
+  const stored = localStorage.getItem(LANGUAGE_KEY);
+  if (isLanguage(stored)) return stored;
+
+  const browser = navigator.language?.slice(0, 2).toLowerCase();
+  return isLanguage(browser) ? browser : DEFAULT_LANGUAGE;
+}
+
+export function storeLanguageLocal(language: Language): void {
+  if (typeof window === "undefined") return;
+  localStorage.setItem(LANGUAGE_KEY, language);
+}
+
+// ============================================
+// Dictionaries
+// ============================================
+
+const en = {
+  // Shared
+  "common.cancel": "Cancel",
+  "common.save": "Save",
+  "common.saving": "Saving...",
+  "common.delete": "Delete",
+  "common.deleting": "Deleting...",
+  "common.back": "Back",
+  "common.continue": "Continue",
+  "common.loading": "Loading...",
+  "common.policy": "Policy",
+
+  // Policy lines
+  "policyType.auto": "Auto Insurance",
+  "policyType.home": "Home Insurance",
+  "policyType.renters": "Renters Insurance",
+  "policyType.umbrella": "Umbrella Insurance",
+  "policyType.life": "Life Insurance",
+  "policyType.health": "Health Insurance",
+  "policyType.other": "Other Insurance",
+
+  // Chat
+  "chat.greeting.morning": "Good morning",
+  "chat.greeting.afternoon": "Good afternoon",
+  "chat.greeting.evening": "Good evening",
+  "chat.emptyTitle": "How can I help you today?",
+  "chat.loadingChat": "Loading your chat...",
+  "chat.analyzing": "Analyzing your policy document...",
+  "chat.analyzingLabel": "Analyzing your policy document",
+  "chat.analyzingHint": "This may take a moment",
+  "chat.messagesLabel": "Chat messages",
+  "chat.loadPrevious": "Load previous messages",
+  "chat.usingPolicy": "Using {policy}",
+  "chat.userAvatar": "User",
+  "chat.typing": "Sam is typing",
+  "chat.progress.thinking": "Thinking...",
+  "chat.progress.checking_policy": "Checking your policy...",
+  "chat.progress.querying_database": "Looking up your account...",
+  "chat.progress.searching_knowledge_base": "Searching knowledge base...",
+  "chat.progress.reviewing": "Reviewing the answer...",
+  "chat.progress.writing": "Writing response...",
+  "chat.removeFile": "Remove {name}",
+  "chat.clearPolicy": "Clear policy selection",
+  "chat.placeholder": "What can I help you with?",
+  "chat.inputLabel": "Chat message",
+  "chat.uploadAttachments": "Upload attachments",
+  "chat.addAttachment": "Add attachment",
+  "chat.add": "Add",
+  "chat.uploadPolicyDocument": "Upload Policy Document",
+  "chat.attachFiles": "Attach Files",
+  "chat.paste": "Paste from Clipboard",
+  "chat.selectPolicyLabel": "Select policy",
+  "chat.selectPolicy": "Select Policy",
+  "chat.selectPolicyHint": "Select a policy for context",
+  "chat.loadingPolicies": "Loading policies...",
+  "chat.noPolicies": "No policies uploaded yet",
+  "chat.uploadPolicy": "Upload Policy",
+  "chat.clearSelection": "Clear selection",
+  "chat.sendLabel": "Send message",
+  "chat.send": "Send",
+  "chat.dropFiles": "Drop files here to add as attachments",
+  "chat.uploadPolicyLabel": "Upload policy document",
+  "chat.claimPhotos.add": "Add Photos",
+  "chat.claimPhotos.uploading": "Uploading...",
+  "chat.claimPhotos.label": "Add photos to your claim",
+  "chat.claimPhotos.error": "I couldn't attach that photo. Please try again.",
+  "chat.upload.description": "Upload your insurance documents so I can review your coverage. You can upload:",
+  "chat.upload.card": "Photo of Insurance Card",
+  "chat.upload.cardHint": "Take a photo of your insurance ID card",
+  "chat.upload.declarations": "Declarations Page",
+  "chat.upload.declarationsHint": "The summary page of your policy",
+  "chat.upload.pdf": "Policy PDF",
+  "chat.upload.pdfHint": "Your full policy document",
+  "chat.upload.dropzoneLabel": "Upload policy document. Click or press Enter to select a file, or drag and drop.",
+  "chat.upload.dropzone": "Click to upload or drag and drop",
+  "chat.upload.formats": "PDF, JPG, PNG, or HEIC (max 20MB)",
+  "chat.upload.privacy": "Your documents are processed securely and used only to analyze your coverage.",
+  "chat.error.upload": "I had trouble processing your document. Please try uploading again or use a clearer image.",
+  "chat.error.uploadFailed": "I encountered an error processing your document. Please try again.",
+  "chat.error.send": "I'm sorry, I encountered an error processing your request. Please try again.",
+  "chat.handoff.request": "Talk to a licensed agent",
+  "chat.handoff.waiting": "A licensed agent has been asked to join this chat. Their replies will appear here.",
+  "chat.handoff.joined": "{name}, a licensed agent, has joined this chat.",
+  "chat.handoff.agent": "Licensed agent",
+  "chat.handoff.agentNamed": "{name} · Licensed agent",
+
+  // Starter suggestions (onboarding)
+  "starter.heading": "Try asking Sam about...",
+  "starter.reviewCoverage.title": "Review my coverage",
+  "starter.reviewCoverage.prompt": "Can you review my insurance coverage and tell me if I have any gaps or areas where I might be underinsured?",
+  "starter.understandDeductible.title": "Understand my deductible",
+  "starter.understandDeductible.prompt": "Can you explain what my deductible is and when I would need to pay it? What happens if I have a claim?",
+  "starter.homeVsRenters.title": "Home vs. renters insurance",
+  "starter.homeVsRenters.prompt": "What's the difference between home insurance and renters insurance? Which one do I need?",
+  "starter.uploadPolicy.title": "Upload a policy",
+
+  // Product tour controls
+  "tour.done": "Got it!",
+  "tour.next": "Next",
+  "tour.previous": "Back",
+  "tour.progress": "{{current}} of {{total}}",
+
+  // Profile
+  "profile.title": "Profile",
+  "profile.subtitle": "Manage your account information",
+  "profile.card.title": "Your Profile",
+  "profile.card.description": "View and update your personal information",
+  "profile.memberSince": "Member since {date}",
+  "profile.fullName": "Full Name",
+  "profile.email": "Email",
+  "profile.emailLocked": "Email cannot be changed",
+  "profile.updated": "Profile updated successfully",
+  "profile.unexpectedError": "An unexpected error occurred",
+  "profile.saveChanges": "Save Changes",
+  "profile.policies.title": "Your Policies",
+  "profile.policies.description": "Manage your uploaded insurance policies",
+  "profile.policies.compareQuotes": "Compare Quotes",
+  "profile.policies.add": "Add Policy",
+  "profile.policies.empty": "No policies uploaded yet",
+  "profile.policies.emptyHint": "Start a chat and upload your insurance documents",
+  "profile.policies.rename": "Rename carrier",
+  "profile.policies.delete": "Delete policy",
+  "profile.renewals.title": "Renewal Guard",
+  "profile.renewals.description": "What changed when your policies renewed, and what's coming up",
+  "profile.renewals.empty": "No renewals detected yet",
+  "profile.renewals.emptyHint": "Upload your new declarations page when a policy renews and we'll compare it to the last term",
+  "profile.renewals.expires": "Expires {date}",
+  "profile.renewals.dayLeft": "{count} day left",
+  "profile.renewals.daysLeft": "{count} days left",
+  "profile.renewals.premiumChange": "{change}% premium",
+  "profile.renewals.renewed": "Renewed {date}",
+  "profile.claims.title": "Your Claims",
+  "profile.claims.description": "Claims you've reported with Sam, ready to share with your carrier",
+  "profile.claims.empty": "No claims reported yet",
+  "profile.claims.emptyHint": "If something happens, tell Sam in chat and we'll walk you through the report",
+  "profile.claims.claim": "Claim",
+  "profile.claims.lossDate": "Loss on {date}",
+  "profile.claims.started": "Started {date}",
+  "profile.claims.photo": "{count} photo",
+  "profile.claims.photos": "{count} photos",
+  "profile.claims.printSummary": "Print claim summary",
+  "profile.claims.status.draft": "In progress",
+  "profile.claims.status.ready": "Ready to file",
+  "profile.claims.status.pending": "Pending",
+  "profile.claims.status.approved": "Approved",
+  "profile.claims.status.denied": "Denied",
+  "profile.claims.status.closed": "Closed",
+  "profile.memory.title": "What Sam Remembers",
+  "profile.memory.description": "Details from your chats that Sam uses to personalize advice. Nothing is remembered until you confirm it.",
+  "profile.memory.empty": "Nothing remembered yet",
+  "profile.memory.emptyHint": "Mention things like your state, teen drivers or a pool in chat and Sam will suggest remembering them",
+  "profile.memory.youSaid": "You said: “{evidence}”",
+  "profile.memory.remember": "Remember this",
+  "profile.memory.dismiss": "Dismiss",
+  "profile.memory.confirmed": "Confirmed {date}",
+  "profile.memory.forget": "Forget this",
+  "profile.deletePolicy.title": "Delete Policy",
+  "profile.deletePolicy.description": "Are you sure you want to delete your {policy}? This action cannot be undone.",
+  "profile.renamePolicy.title": "Rename Carrier",
+  "profile.renamePolicy.description": "Update the carrier name for your {policy}.",
+  "profile.renamePolicy.label": "Carrier Name",
+  "profile.renamePolicy.placeholder": "e.g., State Farm, Allstate",
+
+  // Remembered household facts
+  "fact.state": "Lives in {value}",
+  "fact.household_size": "Household of {value}",
+  "fact.teen_drivers.none": "No teen drivers",
+  "fact.teen_drivers.one": "1 teen driver",
+  "fact.teen_drivers.many": "{value} teen drivers",
+  "fact.has_pool.true": "Has a swimming pool",
+  "fact.has_pool.false": "No swimming pool",
+  "fact.has_trampoline.true": "Has a trampoline",
+  "fact.has_trampoline.false": "No trampoline",
+  "fact.has_dog.true": "Has a dog",
+  "fact.has_dog.false": "No dog",
+  "fact.owns_home.true": "Owns their home",
+  "fact.owns_home.false": "Rents their home",
+  "fact.rental_properties.none": "No rental properties",
+  "fact.rental_properties.one": "1 rental property",
+  "fact.rental_properties.many": "{value} rental properties",
+
+  // Settings
+  "settings.title": "Settings",
+  "settings.subtitle": "Manage your account settings",
+  "settings.language.title": "Language",
+  "settings.language.description": "The language for the app and Sam's replies. Sam always answers in the language you write in.",
+  "settings.language.saveFailed": "Couldn't save your language on your account. It's still set on this device.",
+  "settings.account.title": "Account",
+  "settings.account.description": "Manage your account access",
+  "settings.signOut": "Sign out",
+  "settings.signOutHint": "Sign out of your account on this device",
+  "settings.danger.title": "Danger Zone",
+  "settings.danger.description": "Irreversible actions for your account",
+  "settings.delete.button": "Delete account",
+  "settings.delete.buttonHint": "Permanently delete your account and all data",
+  "settings.delete.title": "Delete Account",
+  "settings.delete.description": "This will permanently delete your account data.",
+  "settings.delete.includes": "This includes:",
+  "settings.delete.profile": "Your profile and personal information",
+  "settings.delete.policies": "All uploaded insurance policies",
+  "settings.delete.chats": "Chat history and conversations",
+  "settings.delete.quotes": "All insurance quotes and claims data",
+  "settings.delete.irreversible": "This action cannot be undone.",
+  "settings.delete.confirmTitle": "Confirm Deletion",
+  "settings.delete.confirmBefore": "To confirm, type",
+  "settings.delete.confirmAfter": "below:",
+  "settings.delete.placeholder": "Type DELETE to confirm",
+  "settings.delete.submit": "Delete My Account",
+  "settings.delete.failed": "Failed to delete account. Please try again.",
+  "settings.delete.unexpected": "An unexpected error occurred. Please try again.",
+};
+
+export type MessageKey = keyof typeof en;
+
+const es: Record<MessageKey, string> = {
+  "common.cancel": "Cancelar",
+  "common.save": "Guardar",
+  "common.saving": "Guardando...",
+  "common.delete": "Eliminar",
+  "common.deleting": "Eliminando...",
+  "common.back": "Atrás",
+  "common.continue": "Continuar",
+  "common.loading": "Cargando...",
+  "common.policy": "Póliza",
+
+  "policyType.auto": "Seguro de auto",
+  "policyType.home": "Seguro de hogar",
+  "policyType.renters": "Seguro de inquilino",
+  "policyType.umbrella": "Seguro umbrella",
+  "policyType.life": "Seguro de vida",
+  "policyType.health": "Seguro de salud",
+  "policyType.other": "Otro seguro",
+
+  "chat.greeting.morning": "Buenos días",
+  "chat.greeting.afternoon": "Buenas tardes",
+  "chat.greeting.evening": "Buenas noches",
+  "chat.emptyTitle": "¿En qué le puedo ayudar hoy?",
+  "chat.loadingChat": "Cargando su chat...",
+  "chat.analyzing": "Analizando el documento de su póliza...",
+  "chat.analyzingLabel": "Analizando el documento de su póliza",
+  "chat.analyzingHint": "Esto puede tardar un momento",
+  "chat.messagesLabel": "Mensajes del chat",
+  "chat.loadPrevious": "Cargar mensajes anteriores",
+  "chat.usingPolicy": "Usando {policy}",
+  "chat.userAvatar": "Usuario",
+  "chat.typing": "Sam está escribiendo",
+  "chat.progress.thinking": "Pensando...",
+  "chat.progress.checking_policy": "Revisando su póliza...",
+  "chat.progress.querying_database": "Consultando su cuenta...",
+  "chat.progress.searching_knowledge_base": "Buscando en la base de conocimiento...",
+  "chat.progress.reviewing": "Revisando la respuesta...",
+  "chat.progress.writing": "Escribiendo la respuesta...",
+  "chat.removeFile": "Quitar {name}",
+  "chat.clearPolicy": "Quitar la póliza seleccionada",
+  "chat.placeholder": "¿En qué le puedo ayudar?",
+  "chat.inputLabel": "Mensaje del chat",
+  "chat.uploadAttachments": "Subir archivos adjuntos",
+  "chat.addAttachment": "Agregar archivo adjunto",
+  "chat.add": "Agregar",
+  "chat.uploadPolicyDocument": "Subir documento de póliza",
+  "chat.attachFiles": "Adjuntar archivos",
+  "chat.paste": "Pegar desde el portapapeles",
+  "chat.selectPolicyLabel": "Seleccionar póliza",
+  "chat.selectPolicy": "Seleccionar póliza",
+  "chat.selectPolicyHint": "Seleccione una póliza como contexto",
+  "chat.loadingPolicies": "Cargando pólizas...",
+  "chat.noPolicies": "Todavía no ha subido pólizas",
+  "chat.uploadPolicy": "Subir póliza",
+  "chat.clearSelection": "Quitar selección",
+  "chat.sendLabel": "Enviar mensaje",
+  "chat.send": "Enviar",
+  "chat.dropFiles": "Suelte los archivos aquí para adjuntarlos",
+  "chat.uploadPolicyLabel": "Subir documento de póliza",
+  "chat.claimPhotos.add": "Agregar fotos",
+  "chat.claimPhotos.uploading": "Subiendo...",
+  "chat.claimPhotos.label": "Agregar fotos a su reclamo",
+  "chat.claimPhotos.error": "No pude adjuntar esa foto. Inténtelo de nuevo.",
+  "chat.upload.description": "Suba sus documentos de seguro para que pueda revisar su cobertura. Puede subir:",
+  "chat.upload.card": "Foto de la tarjeta de seguro",
+  "chat.upload.cardHint": "Tome una foto de su tarjeta de identificación del seguro",
+  "chat.upload.declarations": "Página de declaraciones",
+  "chat.upload.declarationsHint": "La página de resumen de su póliza",
+  "chat.upload.pdf": "PDF de la póliza",
+  "chat.upload.pdfHint": "El documento completo de su póliza",
+  "chat.upload.dropzoneLabel": "Subir documento de póliza. Haga clic o presione Enter para seleccionar un archivo, o arrástrelo y suéltelo.",
+  "chat.upload.dropzone": "Haga clic para subir o arrastre y suelte",
+  "chat.upload.formats": "PDF, JPG, PNG o HEIC (máx. 20 MB)",
+  "chat.upload.privacy": "Sus documentos se procesan de forma segura y solo se usan para analizar su cobertura.",
+  "chat.error.upload": "Tuve problemas para procesar su documento. Intente subirlo de nuevo o use una imagen más clara.",
+  "chat.error.uploadFailed": "Ocurrió un error al procesar su documento. Por favor intente de nuevo.",
+  "chat.error.send": "Lo siento, ocurrió un error al procesar su solicitud. Por favor intente de nuevo.",
+  "chat.handoff.request": "Hablar con un agente con licencia",
+  "chat.handoff.waiting": "Se le pidió a un agente con licencia que se una a este chat. Sus respuestas aparecerán aquí.",
+  "chat.handoff.joined": "{name}, agente con licencia, se unió a este chat.",
+  "chat.handoff.agent": "Agente con licencia",
+  "chat.handoff.agentNamed": "{name} · Agente con licencia",
+
+  "starter.heading": "Pregúntele a Sam sobre...",
+  "starter.reviewCoverage.title": "Revisar mi cobertura",
+  "starter.reviewCoverage.prompt": "¿Puede revisar mi cobertura de seguro y decirme si tengo vacíos o áreas donde podría tener un seguro insuficiente?",
+  "starter.understandDeductible.title": "Entender mi deducible",
+  "starter.understandDeductible.prompt": "¿Puede explicarme cuál es mi deducible y cuándo tendría que pagarlo? ¿Qué pasa si presento un reclamo?",
+  "starter.homeVsRenters.title": "Seguro de hogar vs. de inquilino",
+  "starter.homeVsRenters.prompt": "¿Cuál es la diferencia entre un seguro de hogar y un seguro de inquilino? ¿Cuál necesito?",
+  "starter.uploadPolicy.title": "Subir una póliza",
+
+  "tour.done": "¡Entendido!",
+  "tour.next": "Siguiente",
+  "tour.previous": "Atrás",
+  "tour.progress": "{{current}} de {{total}}",
+
+  "profile.title": "Perfil",
+  "profile.subtitle": "Administre la información de su cuenta",
+  "profile.card.title": "Su perfil",
+  "profile.card.description": "Vea y actualice su información personal",
+  "profile.memberSince": "Miembro desde el {date}",
+  "profile.fullName": "Nombre completo",
+  "profile.email": "Correo electrónico",
+  "profile.emailLocked": "El correo electrónico no se puede cambiar",
+  "profile.updated": "Perfil actualizado correctamente",
+  "profile.unexpectedError": "Ocurrió un error inesperado",
+  "profile.saveChanges": "Guardar cambios",
+  "profile.policies.title": "Sus pólizas",
+  "profile.policies.description": "Administre las pólizas de seguro que ha subido",
+  "profile.policies.compareQuotes": "Comparar cotizaciones",
+  "profile.policies.add": "Agregar póliza",
+  "profile.policies.empty": "Todavía no ha subido pólizas",
+  "profile.policies.emptyHint": "Inicie un chat y suba sus documentos de seguro",
+  "profile.policies.rename": "Cambiar aseguradora",
+  "profile.policies.delete": "Eliminar póliza",
+  "profile.renewals.title": "Renewal Guard",
+  "profile.renewals.description": "Qué cambió cuando se renovaron sus pólizas y qué viene después",
+  "profile.renewals.empty": "Todavía no se han detectado renovaciones",
+  "profile.renewals.emptyHint": "Suba su nueva página de declaraciones cuando se renueve una póliza y la compararemos con el periodo anterior",
+  "profile.renewals.expires": "Vence el {date}",
+  "profile.renewals.dayLeft": "Queda {count} día",
+  "profile.renewals.daysLeft": "Quedan {count} días",
+  "profile.renewals.premiumChange": "{change}% de prima",
+  "profile.renewals.renewed": "Renovada el {date}",
+  "profile.claims.title": "Sus reclamos",
+  "profile.claims.description": "Reclamos que ha reportado con Sam, listos para compartir con su aseguradora",
+  "profile.claims.empty": "Todavía no ha reportado reclamos",
+  "profile.claims.emptyHint": "Si algo sucede, cuénteselo a Sam en el chat y le guiaremos en el reporte",
+  "profile.claims.claim": "Reclamo",
+  "profile.claims.lossDate": "Pérdida el {date}",
+  "profile.claims.started": "Iniciado el {date}",
+  "profile.claims.photo": "{count} foto",
+  "profile.claims.photos": "{count} fotos",
+  "profile.claims.printSummary": "Imprimir resumen del reclamo",
+  "profile.claims.status.draft": "En curso",
+  "profile.claims.status.ready": "Listo para presentar",
+  "profile.claims.status.pending": "Pendiente",
+  "profile.claims.status.approved": "Aprobado",
+  "profile.claims.status.denied": "Denegado",
+  "profile.claims.status.closed": "Cerrado",
+  "profile.memory.title": "Lo que Sam recuerda",
+  "profile.memory.description": "Detalles de sus chats que Sam usa para personalizar sus consejos. No se recuerda nada hasta que usted lo confirme.",
+  "profile.memory.empty": "Todavía no hay nada recordado",
+  "profile.memory.emptyHint": "Mencione cosas como su estado, conductores adolescentes o una piscina en el chat y Sam le sugerirá recordarlas",
+  "profile.memory.youSaid": "Usted dijo: “{evidence}”",
+  "profile.memory.remember": "Recordar esto",
+  "profile.memory.dismiss": "Descartar",
+  "profile.memory.confirmed": "Confirmado el {date}",
+  "profile.memory.forget": "Olvidar esto",
+  "profile.deletePolicy.title": "Eliminar póliza",
+  "profile.deletePolicy.description": "¿Está seguro de que desea eliminar su {policy}? Esta acción no se puede deshacer.",
+  "profile.renamePolicy.title": "Cambiar aseguradora",
+  "profile.renamePolicy.description": "Actualice el nombre de la aseguradora de su {policy}.",
+  "profile.renamePolicy.label": "Nombre de la aseguradora",
+  "profile.renamePolicy.placeholder": "p. ej., State Farm, Allstate",
+
+  "fact.state": "Vive en {value}",
+  "fact.household_size": "Hogar de {value} personas",
+  "fact.teen_drivers.none": "Sin conductores adolescentes",
+  "fact.teen_drivers.one": "1 conductor adolescente",
+  "fact.teen_drivers.many": "{value} conductores adolescentes",
+  "fact.has_pool.true": "Tiene piscina",
+  "fact.has_pool.false": "No tiene piscina",
+  "fact.has_trampoline.true": "Tiene trampolín",
+  "fact.has_trampoline.false": "No tiene trampolín",
+  "fact.has_dog.true": "Tiene perro",
+  "fact.has_dog.false": "No tiene perro",
+  "fact.owns_home.true": "Es dueño de su vivienda",
+  "fact.owns_home.false": "Alquila su vivienda",
+  "fact.rental_properties.none": "Sin propiedades en alquiler",
+  "fact.rental_properties.one": "1 propiedad en alquiler",
+  "fact.rental_properties.many": "{value} propiedades en alquiler",
+
+  "settings.title": "Configuración",
+  "settings.subtitle": "Administre la configuración de su cuenta",
+  "settings.language.title": "Idioma",
+  "settings.language.description": "El idioma de la aplicación y de las respuestas de Sam. Sam siempre responde en el idioma en que usted escribe.",
+  "settings.language.saveFailed": "No pudimos guardar el idioma en su cuenta. Sigue configurado en este dispositivo.",
+  "settings.account.title": "Cuenta",
+  "settings.account.description": "Administre el acceso a su cuenta",
+  "settings.signOut": "Cerrar sesión",
+  "settings.signOutHint": "Cerrar sesión en este dispositivo",
+  "settings.danger.title": "Zona de peligro",
+  "settings.danger.description": "Acciones irreversibles para su cuenta",
+  "settings.delete.button": "Eliminar cuenta",
+  "settings.delete.buttonHint": "Eliminar permanentemente su cuenta y todos sus datos",
+  "settings.delete.title": "Eliminar cuenta",
+  "settings.delete.description": "Esto eliminará permanentemente los datos de su cuenta.",
+  "settings.delete.includes": "Esto incluye:",
+  "settings.delete.profile": "Su perfil e información personal",
+  "settings.delete.policies": "Todas las pólizas de seguro que ha subido",
+  "settings.delete.chats": "El historial de chats y conversaciones",
+  "settings.delete.quotes": "Todas las cotizaciones y datos de reclamos",
+  "settings.delete.irreversible": "Esta acción no se puede deshacer.",
+  "settings.delete.confirmTitle": "Confirmar eliminación",
+  "settings.delete.confirmBefore": "Para confirmar, escriba",
+  "settings.delete.confirmAfter": "a continuación:",
+  "settings.delete.placeholder": "Escriba DELETE para confirmar",
+  "settings.delete.submit": "Eliminar mi cuenta",
+  "settings.delete.failed": "No se pudo eliminar la cuenta. Por favor intente de nuevo.",
+  "settings.delete.unexpected": "Ocurrió un error inesperado. Por favor intente de nuevo.",
+};
+
+const dictionaries: Record<Language, Record<MessageKey, string>> = { en, es };
+
+export type TranslationValues = Record<string, string | number>;
+
+/**
+ * Look up a string and fill in {placeholders}; unknown placeholders are left as written
+ */
+export function translate(language: Language, key: MessageKey, values?: TranslationValues): string {
+  const text = dictionaries[language][key] ?? en[key];
+  if (!values) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in values ? String(values[name]) : match
+  );
+}
+
+export function hasMessage(key: string): key is MessageKey {
+  return key in en;
+}
@@ -35,7 +35,7 @@ export async function middleware(request: NextRequest) {
   } = await supabase.auth.getUser();
 
   // Define protected routes
-  const protectedRoutes = ["/chat", "/dashboard", "/settings"];
+  const protectedRoutes = ["/chat", "/dashboard", "/settings", "/quotes", "/agent"];
   const authRoutes = ["/login", "/signup"];
 
   const isProtectedRoute = protectedRoutes.some((route) =>